@@ -24,6 +24,9 @@ import Account from './pages/Account';
 import VerifyEmail from './pages/VerifyEmail';
 import ResetPassword from './pages/ResetPassword';
 import ContractView from './pages/ContractView';
+import OrderLookup from './pages/OrderLookup';
+import ReviewRequest from './pages/ReviewRequest';
+import EmailPreferences from './pages/EmailPreferences';
 
 // Admin imports
 import { AuthProvider } from './admin/context/AuthContext';
@@ -34,6 +37,7 @@ import Dashboard from './admin/pages/Dashboard';
 import ProductsManager from './admin/pages/ProductsManager';
 import ProductEditor from './admin/pages/ProductEditor';
 import PromotionsManager from './admin/pages/PromotionsManager';
+import AutomaticPromotionsManager from './admin/pages/AutomaticPromotionsManager';
 import OrdersManager from './admin/pages/OrdersManager';
 import OrderDetail from './admin/pages/OrderDetail';
 import CoachingManager from './admin/pages/CoachingManager';
@@ -78,6 +82,7 @@ import ApplicationsManager from './admin/pages/ApplicationsManager';
 import ReviewsManager from './admin/pages/ReviewsManager';
 import AbandonedCartsManager from './admin/pages/AbandonedCartsManager';
 import GiftCardsManager from './admin/pages/GiftCardsManager';
+import StripeEvents from './admin/pages/StripeEvents';
 import WaitlistManager from './admin/pages/WaitlistManager';
 import WishlistsManager from './admin/pages/WishlistsManager';
 import DataExport from './admin/pages/DataExport';
@@ -120,6 +125,9 @@ const App = () => {
                 <Route path="faq" element={<FAQ />} />
                 <Route path="contact" element={<Contact />} />
                 <Route path="account" element={<Account />} />
+                <Route path="orders/lookup" element={<OrderLookup />} />
+                <Route path="review" element={<ReviewRequest />} />
+                <Route path="email-preferences" element={<EmailPreferences />} />
                 <Route path="verify-email" element={<VerifyEmail />} />
                 <Route path="reset-password" element={<ResetPassword />} />
               </Route>
@@ -163,6 +171,7 @@ const App = () => {
               <Route path="products/new" element={<ProductEditor />} />
               <Route path="products/:id" element={<ProductEditor />} />
               <Route path="promotions" element={<PromotionsManager />} />
+              <Route path="promotions/automatic" element={<AutomaticPromotionsManager />} />
               <Route path="orders" element={<OrdersManager />} />
               <Route path="orders/:id" element={<OrderDetail />} />
               <Route path="coaching" element={<CoachingManager />} />
@@ -195,6 +204,7 @@ const App = () => {
               <Route path="wishlists" element={<WishlistsManager />} />
               <Route path="abandoned-carts" element={<AbandonedCartsManager />} />
               <Route path="gift-cards" element={<GiftCardsManager />} />
+              <Route path="payment-events" element={<StripeEvents />} />
               <Route path="waitlist" element={<WaitlistManager />} />
               <Route path="data-export" element={<DataExport />} />
             </Route>
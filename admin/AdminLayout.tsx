@@ -35,6 +35,7 @@ import {
   MessageSquare,
   ShoppingCart,
   Gift,
+  Webhook,
   BellRing,
   Database,
   Moon,
@@ -42,6 +43,7 @@ import {
   ClipboardList,
   ChevronDown,
   Heart,
+  Sparkles,
 } from 'lucide-react';
 
 interface NavItem {
@@ -162,9 +164,11 @@ export default function AdminLayout() {
       label: 'Shop',
       items: [
         { to: '/admin/orders', icon: Package, label: 'Orders' },
+        { to: '/admin/payment-events', icon: Webhook, label: 'Payment Events', sub: true, parent: 'orders' },
         { to: '/admin/products', icon: ShoppingBag, label: 'Products' },
         { to: '/admin/gift-cards', icon: Gift, label: 'Gift Cards', sub: true, parent: 'products' },
         { to: '/admin/promotions', icon: Tag, label: 'Promotions' },
+        { to: '/admin/promotions/automatic', icon: Sparkles, label: 'Automatic Sales', sub: true, parent: 'promotions' },
       ],
     },
     {
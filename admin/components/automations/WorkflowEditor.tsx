@@ -0,0 +1,432 @@
+import React from 'react';
+import {
+  X,
+  Hourglass,
+  Mail,
+  GitBranch,
+  Tag,
+  UserCog,
+  Bell,
+  LogOut,
+} from 'lucide-react';
+
+export type WorkflowCondition =
+  | { type: 'opened' | 'clicked' | 'purchased' }
+  | { type: 'has_tag'; tag: string };
+
+export type WorkflowNode =
+  | { id: string; type: 'wait'; days: number; hours: number; next?: string | null }
+  | { id: string; type: 'send_email'; subject: string; body: string; next?: string | null }
+  | { id: string; type: 'condition'; condition: WorkflowCondition; yes?: string | null; no?: string | null }
+  | { id: string; type: 'add_tag' | 'remove_tag'; tag: string; next?: string | null }
+  | { id: string; type: 'update_client_status'; status: ClientStatus; next?: string | null }
+  | { id: string; type: 'notify_admin'; subject: string; body?: string; next?: string | null }
+  | { id: string; type: 'exit' };
+
+export interface AutomationWorkflow {
+  startNodeId: string | null;
+  nodes: WorkflowNode[];
+}
+
+type NodeType = WorkflowNode['type'];
+type ClientStatus = 'prospect' | 'discovery' | 'active' | 'paused' | 'completed';
+
+/** Where a new step goes: the start of the workflow, or after a step on one of its branches. */
+interface Slot {
+  parentId: string | null;
+  branch: 'next' | 'yes' | 'no';
+}
+
+const nodeMeta: Record<NodeType, { label: string; icon: React.ComponentType<{ size?: number; className?: string }> }> = {
+  wait: { label: 'Wait', icon: Hourglass },
+  send_email: { label: 'Send Email', icon: Mail },
+  condition: { label: 'Condition', icon: GitBranch },
+  add_tag: { label: 'Add Tag', icon: Tag },
+  remove_tag: { label: 'Remove Tag', icon: Tag },
+  update_client_status: { label: 'Update Client Status', icon: UserCog },
+  notify_admin: { label: 'Notify Admin', icon: Bell },
+  exit: { label: 'Exit', icon: LogOut },
+};
+
+const conditionLabels: Record<WorkflowCondition['type'], string> = {
+  opened: 'Opened an email from this workflow',
+  clicked: 'Clicked a link in an email from this workflow',
+  purchased: 'Made a purchase since enrolling',
+  has_tag: 'Has tag',
+};
+
+const CLIENT_STATUSES: ClientStatus[] = ['prospect', 'discovery', 'active', 'paused', 'completed'];
+
+function newNode(type: NodeType): WorkflowNode {
+  const id = crypto.randomUUID();
+  switch (type) {
+    case 'wait': return { id, type, days: 1, hours: 0, next: null };
+    case 'send_email': return { id, type, subject: '', body: '', next: null };
+    case 'condition': return { id, type, condition: { type: 'opened' }, yes: null, no: null };
+    case 'add_tag':
+    case 'remove_tag': return { id, type, tag: '', next: null };
+    case 'update_client_status': return { id, type, status: 'active', next: null };
+    case 'notify_admin': return { id, type, subject: '', body: '', next: null };
+    case 'exit': return { id, type };
+  }
+}
+
+/** Turn a linear email sequence into the equivalent workflow: a wait before each delayed email. */
+export function workflowFromSteps(steps: Array<{ delayDays: number; delayHours: number; subject: string; body: string }>): AutomationWorkflow {
+  const nodes: WorkflowNode[] = [];
+  for (const step of steps) {
+    if (step.delayDays > 0 || step.delayHours > 0) {
+      nodes.push({ id: crypto.randomUUID(), type: 'wait', days: step.delayDays, hours: step.delayHours, next: null });
+    }
+    nodes.push({ id: crypto.randomUUID(), type: 'send_email', subject: step.subject, body: step.body, next: null });
+  }
+  nodes.forEach((node, i) => {
+    if (i < nodes.length - 1) (node as { next?: string | null }).next = nodes[i + 1].id;
+  });
+  return { startNodeId: nodes[0]?.id || null, nodes };
+}
+
+/** Whether every step has what the server needs, so the form can be submitted. */
+export function workflowComplete(workflow: AutomationWorkflow): boolean {
+  return workflow.nodes.length > 0 && workflow.nodes.every(node => {
+    switch (node.type) {
+      case 'wait': return node.days > 0 || node.hours > 0;
+      case 'send_email': return !!node.subject.trim() && !!node.body.trim();
+      case 'condition': return node.condition.type !== 'has_tag' || !!node.condition.tag.trim();
+      case 'add_tag':
+      case 'remove_tag': return !!node.tag.trim();
+      case 'notify_admin': return !!node.subject.trim();
+      default: return true;
+    }
+  });
+}
+
+function slotTarget(workflow: AutomationWorkflow, slot: Slot): string | null {
+  if (!slot.parentId) return workflow.startNodeId;
+  const parent = workflow.nodes.find(n => n.id === slot.parentId) as any;
+  return parent?.[slot.branch] || null;
+}
+
+function setSlotTarget(workflow: AutomationWorkflow, slot: Slot, target: string | null): AutomationWorkflow {
+  if (!slot.parentId) return { ...workflow, startNodeId: target };
+  return {
+    ...workflow,
+    nodes: workflow.nodes.map(n => (n.id === slot.parentId ? { ...n, [slot.branch]: target } as WorkflowNode : n)),
+  };
+}
+
+/** A step and everything that can only be reached through it. */
+function subtreeIds(workflow: AutomationWorkflow, id: string | null | undefined, into = new Set<string>()): Set<string> {
+  const node = workflow.nodes.find(n => n.id === id);
+  if (!node || into.has(node.id)) return into;
+  into.add(node.id);
+  if (node.type === 'condition') {
+    subtreeIds(workflow, node.yes, into);
+    subtreeIds(workflow, node.no, into);
+  } else if (node.type !== 'exit') {
+    subtreeIds(workflow, node.next, into);
+  }
+  return into;
+}
+
+function describeNode(node: WorkflowNode): string {
+  switch (node.type) {
+    case 'wait': return `Wait ${[node.days && `${node.days}d`, node.hours && `${node.hours}h`].filter(Boolean).join(' ')}`;
+    case 'send_email': return `Email: ${node.subject}`;
+    case 'condition': return node.condition.type === 'has_tag' ? `If has tag "${node.condition.tag}"` : `If ${conditionLabels[node.condition.type].toLowerCase()}`;
+    case 'add_tag': return `Add tag "${node.tag}"`;
+    case 'remove_tag': return `Remove tag "${node.tag}"`;
+    case 'update_client_status': return `Set client status to ${node.status}`;
+    case 'notify_admin': return `Notify admin: ${node.subject}`;
+    case 'exit': return 'Exit';
+  }
+}
+
+/** Read-only outline of a workflow, for the automation list. */
+export function WorkflowOutline({ workflow }: { workflow: AutomationWorkflow }) {
+  const renderFrom = (id: string | null | undefined): React.ReactNode => {
+    const items: React.ReactNode[] = [];
+    let node = workflow.nodes.find(n => n.id === id);
+    while (node) {
+      const { icon: Icon } = nodeMeta[node.type];
+      items.push(
+        <div key={node.id} className="flex items-center gap-2 text-sm text-stone-700">
+          <Icon size={12} className="text-clay shrink-0" />
+          <span className="truncate">{describeNode(node)}</span>
+        </div>
+      );
+      if (node.type === 'condition') {
+        items.push(
+          <div key={`${node.id}-branches`} className="ml-1.5 pl-3 border-l border-stone-200 space-y-1">
+            <div className="text-xs text-green-700">Yes</div>
+            {renderFrom(node.yes)}
+            <div className="text-xs text-stone-500">No</div>
+            {renderFrom(node.no)}
+          </div>
+        );
+        break;
+      }
+      if (node.type === 'exit') break;
+      const next = node.next;
+      node = workflow.nodes.find(n => n.id === next);
+    }
+    return items;
+  };
+
+  return <div className="space-y-1">{renderFrom(workflow.startNodeId)}</div>;
+}
+
+interface WorkflowEditorProps {
+  workflow: AutomationWorkflow;
+  onChange: (workflow: AutomationWorkflow) => void;
+}
+
+export default function WorkflowEditor({ workflow, onChange }: WorkflowEditorProps) {
+  // New steps go in front of whatever was in the slot; a condition takes it on its "yes" branch
+  const insertNode = (slot: Slot, type: NodeType) => {
+    const node = newNode(type);
+    const target = slotTarget(workflow, slot);
+    if (node.type === 'condition') node.yes = target;
+    else if (node.type !== 'exit') node.next = target;
+    const withNode = { ...workflow, nodes: [...workflow.nodes, node] };
+    onChange(setSlotTarget(withNode, slot, node.id));
+  };
+
+  // The steps after a removed one move up; a removed condition keeps its "yes" branch
+  const removeNode = (slot: Slot, node: WorkflowNode) => {
+    let removed = new Set([node.id]);
+    let target: string | null = null;
+    if (node.type === 'condition') {
+      removed = subtreeIds(workflow, node.no, removed);
+      target = node.yes || null;
+    } else if (node.type !== 'exit') {
+      target = node.next || null;
+    }
+    const remaining = { ...workflow, nodes: workflow.nodes.filter(n => !removed.has(n.id)) };
+    onChange(setSlotTarget(remaining, slot, target));
+  };
+
+  const updateNode = (id: string, changes: Record<string, unknown>) => {
+    onChange({
+      ...workflow,
+      nodes: workflow.nodes.map(n => (n.id === id ? { ...n, ...changes } as WorkflowNode : n)),
+    });
+  };
+
+  const renderAddStep = (slot: Slot, allowExit: boolean) => (
+    <div className="flex justify-center py-1">
+      <select
+        value=""
+        onChange={(e) => e.target.value && insertNode(slot, e.target.value as NodeType)}
+        className="text-xs text-clay bg-white border border-dashed border-stone-300 rounded-full px-2 py-1 hover:border-clay focus:outline-none focus:ring-2 focus:ring-clay cursor-pointer"
+      >
+        <option value="">+ Add step</option>
+        {(Object.keys(nodeMeta) as NodeType[])
+          .filter(type => allowExit || type !== 'exit')
+          .map(type => (
+            <option key={type} value={type}>{nodeMeta[type].label}</option>
+          ))}
+      </select>
+    </div>
+  );
+
+  const renderFields = (node: WorkflowNode) => {
+    const inputClass = 'w-full border border-stone-300 rounded px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-clay';
+    switch (node.type) {
+      case 'wait':
+        return (
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-stone-500 mb-1">Days</label>
+              <input
+                type="number"
+                min="0"
+                value={node.days}
+                onChange={(e) => updateNode(node.id, { days: parseInt(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-stone-500 mb-1">Hours</label>
+              <input
+                type="number"
+                min="0"
+                max="23"
+                value={node.hours}
+                onChange={(e) => updateNode(node.id, { hours: parseInt(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        );
+      case 'send_email':
+        return (
+          <div className="space-y-2">
+            <div>
+              <label className="block text-xs text-stone-500 mb-1">Subject *</label>
+              <input
+                type="text"
+                value={node.subject}
+                onChange={(e) => updateNode(node.id, { subject: e.target.value })}
+                placeholder="Email subject line"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-stone-500 mb-1">Body (HTML) *</label>
+              <textarea
+                rows={4}
+                value={node.body}
+                onChange={(e) => updateNode(node.id, { body: e.target.value })}
+                placeholder="Email content. Use {{name}} for recipient name."
+                className={`${inputClass} font-mono`}
+              />
+            </div>
+          </div>
+        );
+      case 'condition':
+        return (
+          <div className="space-y-2">
+            <select
+              value={node.condition.type}
+              onChange={(e) => {
+                const type = e.target.value as WorkflowCondition['type'];
+                updateNode(node.id, { condition: type === 'has_tag' ? { type, tag: '' } : { type } });
+              }}
+              className={inputClass}
+            >
+              {(Object.keys(conditionLabels) as WorkflowCondition['type'][]).map(type => (
+                <option key={type} value={type}>{conditionLabels[type]}</option>
+              ))}
+            </select>
+            {node.condition.type === 'has_tag' && (
+              <input
+                type="text"
+                value={node.condition.tag}
+                onChange={(e) => updateNode(node.id, { condition: { type: 'has_tag', tag: e.target.value } })}
+                placeholder="Tag name"
+                className={inputClass}
+              />
+            )}
+          </div>
+        );
+      case 'add_tag':
+      case 'remove_tag':
+        return (
+          <input
+            type="text"
+            value={node.tag}
+            onChange={(e) => updateNode(node.id, { tag: e.target.value })}
+            placeholder="Tag name"
+            className={inputClass}
+          />
+        );
+      case 'update_client_status':
+        return (
+          <div>
+            <label className="block text-xs text-stone-500 mb-1">Set coaching client status to</label>
+            <select
+              value={node.status}
+              onChange={(e) => updateNode(node.id, { status: e.target.value })}
+              className={`${inputClass} capitalize`}
+            >
+              {CLIENT_STATUSES.map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+          </div>
+        );
+      case 'notify_admin':
+        return (
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={node.subject}
+              onChange={(e) => updateNode(node.id, { subject: e.target.value })}
+              placeholder="Notification subject *"
+              className={inputClass}
+            />
+            <textarea
+              rows={2}
+              value={node.body || ''}
+              onChange={(e) => updateNode(node.id, { body: e.target.value })}
+              placeholder="Message (optional). Placeholders work here too."
+              className={inputClass}
+            />
+          </div>
+        );
+      case 'exit':
+        return <p className="text-xs text-stone-500">The contact leaves the workflow here.</p>;
+    }
+  };
+
+  // Renders the chain of steps from a slot down to its end, splitting at conditions
+  const renderBranch = (slot: Slot): React.ReactNode => {
+    const items: React.ReactNode[] = [];
+    let current = slot;
+    let node = workflow.nodes.find(n => n.id === slotTarget(workflow, current));
+
+    while (node) {
+      const step = node;
+      const stepSlot = current;
+      const { label, icon: Icon } = nodeMeta[step.type];
+
+      items.push(
+        <React.Fragment key={step.id}>
+          {renderAddStep(stepSlot, false)}
+          <div className="border border-stone-200 rounded-lg p-3 bg-white">
+            <div className="flex items-center justify-between mb-2">
+              <span className="flex items-center gap-2 text-sm font-medium text-stone-700">
+                <Icon size={14} className="text-clay" />
+                {label}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeNode(stepSlot, step)}
+                className="p-1 text-stone-400 hover:text-red-600 rounded transition"
+                title={step.type === 'condition' ? 'Remove (keeps the "Yes" branch)' : 'Remove'}
+              >
+                <X size={14} />
+              </button>
+            </div>
+            {renderFields(step)}
+          </div>
+        </React.Fragment>
+      );
+
+      if (step.type === 'condition') {
+        items.push(
+          <div key={`${step.id}-branches`} className="grid grid-cols-2 gap-3 mt-2">
+            <div className="border-l-2 border-green-300 pl-3">
+              <div className="text-xs font-medium text-green-700">Yes</div>
+              {renderBranch({ parentId: step.id, branch: 'yes' })}
+            </div>
+            <div className="border-l-2 border-stone-300 pl-3">
+              <div className="text-xs font-medium text-stone-500">No</div>
+              {renderBranch({ parentId: step.id, branch: 'no' })}
+            </div>
+          </div>
+        );
+        return items;
+      }
+      if (step.type === 'exit') return items;
+
+      current = { parentId: step.id, branch: 'next' };
+      node = workflow.nodes.find(n => n.id === slotTarget(workflow, current));
+    }
+
+    items.push(<React.Fragment key="end">{renderAddStep(current, true)}</React.Fragment>);
+    return items;
+  };
+
+  return (
+    <div className="bg-stone-50 rounded-lg p-3">
+      {workflow.nodes.length === 0 && (
+        <p className="text-xs text-stone-500 text-center">
+          Start with an email, or a wait before it. Conditions split the workflow into two branches.
+        </p>
+      )}
+      {renderBranch({ parentId: null, branch: 'next' })}
+    </div>
+  );
+}
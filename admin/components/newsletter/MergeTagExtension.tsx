@@ -5,6 +5,7 @@ import React from 'react';
 // Available merge tags
 export const MERGE_TAGS = [
   { id: 'first_name', label: 'First Name', placeholder: '{{first_name}}', fallback: 'there' },
+  { id: 'last_name', label: 'Last Name', placeholder: '{{last_name}}', fallback: '' },
   { id: 'subscriber_name', label: 'Full Name', placeholder: '{{subscriber_name}}', fallback: 'Subscriber' },
   { id: 'email', label: 'Email', placeholder: '{{email}}', fallback: '' },
   { id: 'unsubscribe_url', label: 'Unsubscribe URL', placeholder: '{{unsubscribe_url}}', fallback: '#' },
@@ -16,6 +16,8 @@ import {
   DollarSign,
   ShoppingBag,
   TrendingUp,
+  Receipt,
+  RotateCcw,
   X,
   Calendar,
 } from 'lucide-react';
@@ -25,12 +27,21 @@ import { API_BASE } from '../config/api';
 // --- Types ---
 
 interface RevenueData {
-  summary: { totalRevenue: number; totalOrders: number; avgOrderValue: number };
+  summary: {
+    totalRevenue: number;
+    totalTax: number;
+    totalRefunds: number;
+    refundCount: number;
+    netRevenue: number;
+    totalOrders: number;
+    avgOrderValue: number;
+  };
   revenueTrend: Array<{ date: string; revenue: number; orderCount: number }>;
   ordersByStatus: Array<{ status: string; count: number }>;
   revenueByType: Array<{ productType: string; revenue: number }>;
   aovTrend: Array<{ date: string; aov: number }>;
   lowStock: Array<{ id: string; name: string; stock: number; productType: string }>;
+  recentRefunds: Array<{ id: string; orderId: string; orderNumber: string; amount: number; reason: string; createdAt: string }>;
 }
 
 type DateRange = '7d' | '30d' | '90d' | 'all' | 'custom';
@@ -158,8 +169,8 @@ function RevenueSkeleton() {
         </div>
       </div>
       <div className="bg-stone-200 rounded-lg h-14" />
-      <div className="grid grid-cols-3 gap-4">
-        {[1, 2, 3].map((i) => (
+      <div className="grid grid-cols-5 gap-4">
+        {[1, 2, 3, 4, 5].map((i) => (
           <div key={i} className="bg-stone-200 rounded-lg h-24" />
         ))}
       </div>
@@ -427,7 +438,7 @@ export default function AnalyticsRevenue() {
       )}
 
       {/* --- Summary KPI Cards --- */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
         <div className="bg-white border border-stone-200 rounded-lg p-4">
           <div className="flex items-center gap-2 mb-2">
             <div className="w-8 h-8 rounded-lg bg-emerald-50 flex items-center justify-center">
@@ -436,7 +447,9 @@ export default function AnalyticsRevenue() {
             <span className="text-xs font-medium text-stone-500 uppercase tracking-wider">Total Revenue</span>
           </div>
           <p className="text-2xl font-semibold text-stone-900">{formatCurrency(data.summary.totalRevenue)}</p>
-          <p className="text-xs text-stone-400 mt-1">AUD</p>
+          <p className="text-xs text-stone-400 mt-1">
+            {data.summary.totalRefunds > 0 ? `${formatCurrency(data.summary.netRevenue)} net of refunds` : 'AUD'}
+          </p>
         </div>
         <div className="bg-white border border-stone-200 rounded-lg p-4">
           <div className="flex items-center gap-2 mb-2">
@@ -458,6 +471,28 @@ export default function AnalyticsRevenue() {
           <p className="text-2xl font-semibold text-stone-900">{formatCurrency(data.summary.avgOrderValue)}</p>
           <p className="text-xs text-stone-400 mt-1">AUD</p>
         </div>
+        <div className="bg-white border border-stone-200 rounded-lg p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <div className="w-8 h-8 rounded-lg bg-amber-50 flex items-center justify-center">
+              <Receipt size={16} className="text-amber-600" />
+            </div>
+            <span className="text-xs font-medium text-stone-500 uppercase tracking-wider">GST Collected</span>
+          </div>
+          <p className="text-2xl font-semibold text-stone-900">{formatCurrency(data.summary.totalTax ?? 0)}</p>
+          <p className="text-xs text-stone-400 mt-1">{formatCurrency(data.summary.totalRevenue - (data.summary.totalTax ?? 0))} excl. tax</p>
+        </div>
+        <div className="bg-white border border-stone-200 rounded-lg p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <div className="w-8 h-8 rounded-lg bg-red-50 flex items-center justify-center">
+              <RotateCcw size={16} className="text-red-600" />
+            </div>
+            <span className="text-xs font-medium text-stone-500 uppercase tracking-wider">Refunds</span>
+          </div>
+          <p className="text-2xl font-semibold text-stone-900">{formatCurrency(data.summary.totalRefunds ?? 0)}</p>
+          <p className="text-xs text-stone-400 mt-1">
+            {formatNumber(data.summary.refundCount ?? 0)} {data.summary.refundCount === 1 ? 'refund' : 'refunds'} issued
+          </p>
+        </div>
       </div>
 
       {/* --- Revenue + AOV Charts --- */}
@@ -612,6 +647,31 @@ export default function AnalyticsRevenue() {
         </div>
       </div>
 
+      {/* --- Recent Refunds --- */}
+      {data.recentRefunds?.length > 0 && (
+        <div className="bg-white border border-stone-200 rounded-lg p-4">
+          <h3 className="text-xs font-medium text-stone-500 uppercase tracking-wider mb-3">
+            Recent Refunds
+          </h3>
+          <div className="space-y-2">
+            {data.recentRefunds.map((refund) => (
+              <div key={refund.id} className="flex items-center justify-between py-1.5">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Link to={`/admin/orders/${refund.orderId}`} className="text-sm text-stone-700 hover:underline font-mono">
+                    {refund.orderNumber}
+                  </Link>
+                  <span className="text-xs text-stone-400 capitalize truncate">{refund.reason.replace(/_/g, ' ')}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-xs text-stone-400">{formatChartDate(refund.createdAt.split('T')[0])}</span>
+                  <span className="text-sm font-medium text-red-700">-${refund.amount.toFixed(2)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* --- Low Stock Alert --- */}
       {data.lowStock.length > 0 && (
         <div className="bg-white border border-stone-200 rounded-lg p-4">
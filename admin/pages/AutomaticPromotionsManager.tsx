@@ -0,0 +1,866 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { API_BASE } from '../config/api';
+import {
+  Sparkles,
+  Plus,
+  X,
+  Pencil,
+  Trash2,
+  ToggleLeft,
+  ToggleRight,
+  Calendar,
+  Layers,
+  Tag,
+  AlertCircle,
+  Loader2,
+  ArrowLeft,
+} from 'lucide-react';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type PromotionType = 'percentage' | 'fixed_amount' | 'buy_x_get_y' | 'spend_threshold';
+type ApplicableTo = 'all' | 'specific_products' | 'specific_categories';
+type PromotionStatus = 'running' | 'scheduled' | 'ended' | 'inactive';
+
+interface SpendTier {
+  minSpend: number;
+  amountOff: number;
+}
+
+interface AutomaticPromotion {
+  id: string;
+  name: string;
+  label: string | null;
+  type: PromotionType;
+  value: number;
+  buyQuantity: number;
+  getQuantity: number;
+  tiers: SpendTier[];
+  applicableTo: ApplicableTo;
+  productIds: string[];
+  categories: string[];
+  startsAt: string | null;
+  endsAt: string | null;
+  priority: number;
+  stackable: boolean;
+  combinesWithCodes: boolean;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const EMPTY_FORM: Partial<AutomaticPromotion> = {
+  name: '',
+  label: '',
+  type: 'percentage',
+  value: 0,
+  buyQuantity: 2,
+  getQuantity: 1,
+  tiers: [{ minSpend: 0, amountOff: 0 }],
+  applicableTo: 'all',
+  productIds: [],
+  categories: [],
+  startsAt: null,
+  endsAt: null,
+  priority: 0,
+  stackable: false,
+  combinesWithCodes: true,
+  active: true,
+};
+
+const TYPE_OPTIONS: { value: PromotionType; label: string; hint: string }[] = [
+  { value: 'percentage', label: '% Off', hint: 'e.g. 15% off all wall art' },
+  { value: 'fixed_amount', label: '$ Off Each', hint: 'e.g. $10 off every print' },
+  { value: 'buy_x_get_y', label: 'Buy X Get Y', hint: 'e.g. buy two earrings, get the third free' },
+  { value: 'spend_threshold', label: 'Spend Tiers', hint: 'e.g. spend $200, get $30 off' },
+];
+
+const CATEGORY_OPTIONS = [
+  'Earrings',
+  'Brooches',
+  'Necklaces',
+  'Prints',
+  'Originals',
+  'Mixed Media',
+];
+
+const inputClass =
+  'w-full bg-white border border-stone-200 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-stone-400 focus:ring-offset-1';
+const labelClass = 'block text-xs font-medium text-stone-500 uppercase tracking-wider mb-1.5';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatDate(iso: string | null): string {
+  if (!iso) return '';
+  return new Date(iso).toLocaleDateString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+function formatDateForInput(iso: string | null): string {
+  if (!iso) return '';
+  return iso.slice(0, 10);
+}
+
+function deriveStatus(promotion: AutomaticPromotion): PromotionStatus {
+  if (!promotion.active) return 'inactive';
+  const now = new Date();
+  if (promotion.startsAt && new Date(promotion.startsAt) > now) return 'scheduled';
+  if (promotion.endsAt && new Date(promotion.endsAt) <= now) return 'ended';
+  return 'running';
+}
+
+function describePromotion(promotion: Partial<AutomaticPromotion>): string {
+  switch (promotion.type) {
+    case 'percentage':
+      return `${promotion.value}% off`;
+    case 'fixed_amount':
+      return `$${Number(promotion.value || 0).toFixed(2)} off each`;
+    case 'buy_x_get_y':
+      return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} ${
+        promotion.value === 100 ? 'free' : `${promotion.value}% off`
+      }`;
+    case 'spend_threshold':
+      return (promotion.tiers || [])
+        .map((t) => `Spend $${t.minSpend} save $${t.amountOff}`)
+        .join(' · ');
+    default:
+      return '';
+  }
+}
+
+function describeScope(promotion: AutomaticPromotion): string {
+  if (promotion.applicableTo === 'specific_categories') return promotion.categories.join(', ');
+  if (promotion.applicableTo === 'specific_products') {
+    return `${promotion.productIds.length} product${promotion.productIds.length !== 1 ? 's' : ''}`;
+  }
+  return 'Everything';
+}
+
+// ---------------------------------------------------------------------------
+// Sub-components
+// ---------------------------------------------------------------------------
+
+function StatusBadge({ status }: { status: PromotionStatus }) {
+  const styles: Record<PromotionStatus, string> = {
+    running: 'bg-green-100 text-green-700',
+    scheduled: 'bg-blue-100 text-blue-700',
+    ended: 'bg-stone-100 text-stone-500',
+    inactive: 'bg-red-100 text-red-700',
+  };
+  const labels: Record<PromotionStatus, string> = {
+    running: 'Running',
+    scheduled: 'Scheduled',
+    ended: 'Ended',
+    inactive: 'Inactive',
+  };
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${styles[status]}`}>
+      {labels[status]}
+    </span>
+  );
+}
+
+function Toggle({ checked, onChange }: { checked: boolean; onChange: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onChange}
+      className={`relative w-11 h-6 rounded-full transition-colors shrink-0 ${checked ? 'bg-stone-900' : 'bg-stone-300'}`}
+    >
+      <span
+        className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow transition-transform ${
+          checked ? 'translate-x-5' : 'translate-x-0'
+        }`}
+      />
+    </button>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Main component
+// ---------------------------------------------------------------------------
+
+export default function AutomaticPromotionsManager() {
+  const { accessToken } = useAuth();
+
+  const [promotions, setPromotions] = useState<AutomaticPromotion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [modalOpen, setModalOpen] = useState(false);
+  const [editing, setEditing] = useState<AutomaticPromotion | null>(null);
+  const [form, setForm] = useState<Partial<AutomaticPromotion>>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  const [confirmDelete, setConfirmDelete] = useState<AutomaticPromotion | null>(null);
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 3500);
+  };
+
+  const authHeaders = {
+    Authorization: `Bearer ${accessToken}`,
+    'Content-Type': 'application/json',
+  };
+
+  // ---------- Data fetching ----------
+
+  const fetchPromotions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`${API_BASE}/automatic-promotions`, { headers: authHeaders });
+      if (!res.ok) throw new Error('Failed to load promotions');
+      const data = await res.json();
+      setPromotions(data.promotions || []);
+    } catch {
+      showToast('error', 'Could not load automatic promotions. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(() => {
+    fetchPromotions();
+  }, [fetchPromotions]);
+
+  // ---------- Form ----------
+
+  const updateForm = (updates: Partial<AutomaticPromotion>) => {
+    setForm((prev) => ({ ...prev, ...updates }));
+    setFormError('');
+  };
+
+  const updateTier = (index: number, updates: Partial<SpendTier>) => {
+    const tiers = [...(form.tiers || [])];
+    tiers[index] = { ...tiers[index], ...updates };
+    updateForm({ tiers });
+  };
+
+  const openCreateModal = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setFormError('');
+    setModalOpen(true);
+  };
+
+  const openEditModal = (promotion: AutomaticPromotion) => {
+    setEditing(promotion);
+    setForm({
+      ...promotion,
+      tiers: promotion.tiers?.length ? promotion.tiers : EMPTY_FORM.tiers,
+    });
+    setFormError('');
+    setModalOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name?.trim()) {
+      setFormError('Name is required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const res = await fetch(
+        editing ? `${API_BASE}/automatic-promotions/${editing.id}` : `${API_BASE}/automatic-promotions`,
+        {
+          method: editing ? 'PUT' : 'POST',
+          headers: authHeaders,
+          body: JSON.stringify(form),
+        }
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save promotion');
+
+      setModalOpen(false);
+      showToast('success', editing ? 'Promotion updated' : 'Promotion created');
+      fetchPromotions();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save promotion');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (promotion: AutomaticPromotion) => {
+    try {
+      const res = await fetch(`${API_BASE}/automatic-promotions/${promotion.id}/toggle`, {
+        method: 'POST',
+        headers: authHeaders,
+      });
+      if (!res.ok) throw new Error();
+      showToast('success', promotion.active ? 'Promotion turned off' : 'Promotion turned on');
+      fetchPromotions();
+    } catch {
+      showToast('error', 'Failed to update promotion');
+    }
+  };
+
+  const handleDelete = async (promotion: AutomaticPromotion) => {
+    try {
+      const res = await fetch(`${API_BASE}/automatic-promotions/${promotion.id}`, {
+        method: 'DELETE',
+        headers: authHeaders,
+      });
+      if (!res.ok) throw new Error();
+      setConfirmDelete(null);
+      showToast('success', 'Promotion deleted');
+      fetchPromotions();
+    } catch {
+      showToast('error', 'Failed to delete promotion');
+    }
+  };
+
+  // ---------- Render ----------
+
+  return (
+    <div>
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <Link
+            to="/admin/promotions"
+            className="inline-flex items-center gap-1 text-xs text-stone-500 hover:text-stone-800 mb-1"
+          >
+            <ArrowLeft size={12} /> Discount codes
+          </Link>
+          <h1 className="text-xl font-semibold text-stone-900">Automatic Promotions</h1>
+          <p className="text-sm text-stone-500 mt-0.5">
+            Sales applied at checkout without a code, shown as sale prices and badges in the shop
+          </p>
+        </div>
+        <button
+          onClick={openCreateModal}
+          className="text-white hover:opacity-90 rounded-md px-4 h-9 text-sm font-medium transition-colors inline-flex items-center gap-1.5"
+          style={{ backgroundColor: '#8d3038' }}
+        >
+          <Plus size={16} />
+          Create Promotion
+        </button>
+      </div>
+
+      {/* Data Table */}
+      <div className="bg-white rounded-lg border border-stone-200">
+        {loading ? (
+          <div className="p-12 text-center">
+            <div className="w-6 h-6 border-2 border-stone-200 border-t-stone-600 rounded-full animate-spin mx-auto mb-3" />
+            <p className="text-stone-500 text-sm">Loading promotions...</p>
+          </div>
+        ) : promotions.length === 0 ? (
+          <div className="p-12 text-center">
+            <div className="w-12 h-12 bg-stone-100 rounded-full flex items-center justify-center mx-auto mb-3">
+              <Sparkles size={24} className="text-stone-400" />
+            </div>
+            <p className="text-stone-600 font-medium">No automatic promotions yet</p>
+            <p className="text-sm text-stone-400 mt-1">
+              Run a weekend sale, a spend-and-save offer or a buy-two-get-one deal.
+            </p>
+            <button
+              onClick={openCreateModal}
+              className="mt-4 text-white hover:opacity-90 rounded-md px-4 py-2 text-sm font-medium transition-colors"
+              style={{ backgroundColor: '#8d3038' }}
+            >
+              Create Promotion
+            </button>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-stone-50/80">
+                  {['Promotion', 'Offer', 'Applies To', 'Dates', 'Priority', 'Status', ''].map((heading) => (
+                    <th
+                      key={heading}
+                      className="px-4 py-2.5 text-left text-[11px] font-medium text-stone-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-stone-100">
+                {promotions.map((promotion) => (
+                  <tr
+                    key={promotion.id}
+                    className={`hover:bg-stone-50 transition ${!promotion.active ? 'opacity-60' : ''}`}
+                  >
+                    <td className="px-4 py-3">
+                      <p className="text-sm font-medium text-stone-900">{promotion.name}</p>
+                      {promotion.label && (
+                        <span className="inline-flex items-center gap-1 text-[10px] uppercase tracking-wider text-clay mt-0.5">
+                          <Tag size={10} /> {promotion.label}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-stone-600">
+                      {describePromotion(promotion)}
+                      <div className="flex gap-2 mt-0.5 text-[11px] text-stone-400">
+                        {promotion.stackable && (
+                          <span className="inline-flex items-center gap-0.5"><Layers size={10} /> Stacks</span>
+                        )}
+                        {!promotion.combinesWithCodes && <span>No codes</span>}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-stone-600">{describeScope(promotion)}</td>
+                    <td className="px-4 py-3">
+                      {promotion.startsAt || promotion.endsAt ? (
+                        <div className="text-xs text-stone-500 space-y-0.5">
+                          {promotion.startsAt && (
+                            <div className="flex items-center gap-1">
+                              <Calendar size={11} className="text-stone-400" />
+                              <span>{formatDate(promotion.startsAt)}</span>
+                            </div>
+                          )}
+                          {promotion.endsAt && (
+                            <div className="flex items-center gap-1">
+                              <span className="text-stone-300 ml-3">&rarr;</span>
+                              <span>{formatDate(promotion.endsAt)}</span>
+                            </div>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-xs text-stone-400">Always on</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-stone-600">{promotion.priority}</td>
+                    <td className="px-4 py-3">
+                      <StatusBadge status={deriveStatus(promotion)} />
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-1 justify-end">
+                        <button
+                          onClick={() => handleToggle(promotion)}
+                          className="p-1.5 rounded hover:bg-stone-100 text-stone-500"
+                          title={promotion.active ? 'Turn off' : 'Turn on'}
+                        >
+                          {promotion.active ? <ToggleRight size={16} /> : <ToggleLeft size={16} />}
+                        </button>
+                        <button
+                          onClick={() => openEditModal(promotion)}
+                          className="p-1.5 rounded hover:bg-stone-100 text-stone-500"
+                          title="Edit"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button
+                          onClick={() => setConfirmDelete(promotion)}
+                          className="p-1.5 rounded hover:bg-red-50 text-stone-500 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <p className="text-xs text-stone-400 mt-3">
+        Higher priority promotions apply first. A promotion that doesn't stack only applies on its own.
+      </p>
+
+      {/* Delete Confirmation Modal */}
+      {confirmDelete && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+          <div className="bg-white rounded-xl shadow-xl border border-stone-200 max-w-md w-full mx-4 p-6">
+            <div className="flex items-start gap-3">
+              <div className="flex-shrink-0 w-10 h-10 rounded-full bg-red-100 flex items-center justify-center">
+                <Trash2 className="w-5 h-5 text-red-600" />
+              </div>
+              <div className="flex-1">
+                <h3 className="text-lg font-semibold text-stone-800">Delete promotion</h3>
+                <p className="mt-1 text-sm text-stone-500">
+                  Are you sure you want to permanently delete{' '}
+                  <span className="font-semibold text-stone-700">{confirmDelete.name}</span>? Past orders
+                  keep the discount they got.
+                </p>
+              </div>
+            </div>
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                onClick={() => setConfirmDelete(null)}
+                className="px-4 py-2 rounded-lg text-sm font-medium border border-stone-200 text-stone-700 hover:bg-stone-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleDelete(confirmDelete)}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white bg-red-600 hover:bg-red-700 transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Create/Edit Slide-over Modal */}
+      {modalOpen && (
+        <div className="fixed inset-0 z-50 flex justify-end">
+          <div className="absolute inset-0 bg-black/40" onClick={() => !saving && setModalOpen(false)} />
+
+          <div className="relative bg-white w-full max-w-lg shadow-xl overflow-y-auto">
+            <div className="sticky top-0 z-10 bg-white border-b border-stone-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-stone-900">
+                {editing ? 'Edit Promotion' : 'Create Promotion'}
+              </h2>
+              <button onClick={() => !saving && setModalOpen(false)} className="p-1.5 hover:bg-stone-100 rounded transition">
+                <X size={18} className="text-stone-500" />
+              </button>
+            </div>
+
+            <div className="px-6 py-6 space-y-6">
+              {/* Name + label */}
+              <div>
+                <label className={labelClass}>Name *</label>
+                <input
+                  type="text"
+                  value={form.name || ''}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="e.g. Wall art weekend"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Shop Badge</label>
+                <input
+                  type="text"
+                  maxLength={40}
+                  value={form.label || ''}
+                  onChange={(e) => updateForm({ label: e.target.value })}
+                  placeholder="e.g. 15% off this weekend"
+                  className={inputClass}
+                />
+                <p className="text-xs text-stone-400 mt-1">Shown on products the promotion covers and at checkout</p>
+              </div>
+
+              {/* Type */}
+              <div>
+                <label className={labelClass}>Promotion Type</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {TYPE_OPTIONS.map((opt) => (
+                    <button
+                      key={opt.value}
+                      type="button"
+                      onClick={() =>
+                        updateForm({
+                          type: opt.value,
+                          value: opt.value === 'buy_x_get_y' ? 100 : form.type === 'buy_x_get_y' ? 0 : form.value,
+                        })
+                      }
+                      className={`text-left px-3 py-2.5 rounded-lg border text-sm transition ${
+                        form.type === opt.value
+                          ? 'border-stone-900 bg-stone-900 text-white'
+                          : 'border-stone-200 bg-white text-stone-600 hover:border-stone-400'
+                      }`}
+                    >
+                      <span className="font-medium block">{opt.label}</span>
+                      <span className={`text-[11px] ${form.type === opt.value ? 'text-stone-300' : 'text-stone-400'}`}>
+                        {opt.hint}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Offer */}
+              {(form.type === 'percentage' || form.type === 'fixed_amount') && (
+                <div>
+                  <label className={labelClass}>
+                    {form.type === 'percentage' ? 'Percentage Off (%)' : 'Amount Off Each Item ($)'}
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={form.type === 'percentage' ? 100 : undefined}
+                    step={form.type === 'percentage' ? 1 : 0.01}
+                    value={form.value || ''}
+                    onChange={(e) => updateForm({ value: parseFloat(e.target.value) || 0 })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              {form.type === 'buy_x_get_y' && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className={labelClass}>Buy</label>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={form.buyQuantity ?? ''}
+                      onChange={(e) => updateForm({ buyQuantity: parseInt(e.target.value, 10) || 0 })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Get</label>
+                    <input
+                      type="number"
+                      min={1}
+                      step={1}
+                      value={form.getQuantity ?? ''}
+                      onChange={(e) => updateForm({ getQuantity: parseInt(e.target.value, 10) || 0 })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>% Off</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      step={1}
+                      value={form.value || ''}
+                      onChange={(e) => updateForm({ value: parseFloat(e.target.value) || 0 })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <p className="col-span-3 text-xs text-stone-400 -mt-2">
+                    The cheapest items in each group get the discount. 100% makes them free.
+                  </p>
+                </div>
+              )}
+
+              {form.type === 'spend_threshold' && (
+                <div>
+                  <label className={labelClass}>Spend Tiers</label>
+                  <div className="space-y-2">
+                    {(form.tiers || []).map((tier, index) => (
+                      <div key={index} className="flex items-center gap-2 text-sm text-stone-600">
+                        <span>Spend $</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={tier.minSpend || ''}
+                          onChange={(e) => updateTier(index, { minSpend: parseFloat(e.target.value) || 0 })}
+                          className={`${inputClass} w-24`}
+                        />
+                        <span>save $</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={tier.amountOff || ''}
+                          onChange={(e) => updateTier(index, { amountOff: parseFloat(e.target.value) || 0 })}
+                          className={`${inputClass} w-24`}
+                        />
+                        {(form.tiers || []).length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => updateForm({ tiers: (form.tiers || []).filter((_, i) => i !== index) })}
+                            className="p-1 text-stone-400 hover:text-red-600"
+                          >
+                            <X size={14} />
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => updateForm({ tiers: [...(form.tiers || []), { minSpend: 0, amountOff: 0 }] })}
+                    className="mt-2 text-xs font-medium text-stone-600 hover:text-stone-900 inline-flex items-center gap-1"
+                  >
+                    <Plus size={12} /> Add tier
+                  </button>
+                  <p className="text-xs text-stone-400 mt-1">The highest tier the cart reaches applies.</p>
+                </div>
+              )}
+
+              {/* Date range */}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className={labelClass}>Start Date</label>
+                  <input
+                    type="date"
+                    value={formatDateForInput(form.startsAt || null)}
+                    onChange={(e) =>
+                      updateForm({
+                        startsAt: e.target.value ? new Date(e.target.value + 'T00:00:00').toISOString() : null,
+                      })
+                    }
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>End Date</label>
+                  <input
+                    type="date"
+                    value={formatDateForInput(form.endsAt || null)}
+                    onChange={(e) =>
+                      updateForm({
+                        endsAt: e.target.value ? new Date(e.target.value + 'T23:59:59').toISOString() : null,
+                      })
+                    }
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              {/* Applies to */}
+              <div>
+                <label className={labelClass}>Applies To</label>
+                <select
+                  value={form.applicableTo || 'all'}
+                  onChange={(e) => updateForm({ applicableTo: e.target.value as ApplicableTo })}
+                  className={inputClass}
+                >
+                  <option value="all">All Products</option>
+                  <option value="specific_categories">Specific Categories</option>
+                  <option value="specific_products">Specific Products</option>
+                </select>
+              </div>
+
+              {form.applicableTo === 'specific_categories' && (
+                <div className="flex flex-wrap gap-2">
+                  {CATEGORY_OPTIONS.map((cat) => {
+                    const selected = (form.categories || []).includes(cat);
+                    return (
+                      <button
+                        key={cat}
+                        type="button"
+                        onClick={() => {
+                          const current = form.categories || [];
+                          updateForm({ categories: selected ? current.filter((c) => c !== cat) : [...current, cat] });
+                        }}
+                        className={`px-3 py-1.5 rounded-full text-xs font-medium border transition ${
+                          selected
+                            ? 'border-stone-900 bg-stone-900 text-white'
+                            : 'border-stone-200 bg-white text-stone-600 hover:border-stone-400'
+                        }`}
+                      >
+                        {cat}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {form.applicableTo === 'specific_products' && (
+                <div>
+                  <textarea
+                    value={(form.productIds || []).join(', ')}
+                    onChange={(e) =>
+                      updateForm({
+                        productIds: e.target.value.split(',').map((s) => s.trim()).filter(Boolean),
+                      })
+                    }
+                    placeholder="Enter product IDs or slugs separated by commas"
+                    rows={3}
+                    className={`${inputClass} resize-none`}
+                  />
+                </div>
+              )}
+
+              {/* Priority + stacking */}
+              <div>
+                <label className={labelClass}>Priority</label>
+                <input
+                  type="number"
+                  step={1}
+                  value={form.priority ?? 0}
+                  onChange={(e) => updateForm({ priority: parseInt(e.target.value, 10) || 0 })}
+                  className={`${inputClass} w-28`}
+                />
+                <p className="text-xs text-stone-400 mt-1">Higher numbers apply first</p>
+              </div>
+
+              <div className="flex items-center justify-between py-3 px-4 bg-stone-50 rounded-lg gap-4">
+                <div>
+                  <p className="text-sm font-medium text-stone-700">Stacks with other promotions</p>
+                  <p className="text-xs text-stone-500 mt-0.5">
+                    Otherwise it only applies when no other promotion has
+                  </p>
+                </div>
+                <Toggle checked={!!form.stackable} onChange={() => updateForm({ stackable: !form.stackable })} />
+              </div>
+
+              <div className="flex items-center justify-between py-3 px-4 bg-stone-50 rounded-lg gap-4">
+                <div>
+                  <p className="text-sm font-medium text-stone-700">Allow discount codes</p>
+                  <p className="text-xs text-stone-500 mt-0.5">Customers can add a code on top of this promotion</p>
+                </div>
+                <Toggle
+                  checked={form.combinesWithCodes !== false}
+                  onChange={() => updateForm({ combinesWithCodes: form.combinesWithCodes === false })}
+                />
+              </div>
+
+              {form.type && (
+                <p className="text-sm text-stone-600 bg-stone-50 rounded-lg px-4 py-3">
+                  <span className="font-medium">Summary:</span> {describePromotion(form)}
+                </p>
+              )}
+
+              {formError && (
+                <p className="text-sm text-red-600 flex items-center gap-1.5">
+                  <AlertCircle size={14} />
+                  {formError}
+                </p>
+              )}
+            </div>
+
+            <div className="sticky bottom-0 bg-white border-t border-stone-200 px-6 py-4 flex items-center justify-end gap-3">
+              <button
+                onClick={() => !saving && setModalOpen(false)}
+                disabled={saving}
+                className="px-4 py-2 rounded-lg text-sm font-medium border border-stone-200 text-stone-700 hover:bg-stone-50 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white transition-colors disabled:opacity-50"
+                style={{ backgroundColor: '#8d3038' }}
+              >
+                {saving && <Loader2 size={14} className="animate-spin" />}
+                {editing ? 'Save Changes' : 'Create Promotion'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Toast */}
+      {toast && (
+        <div className="fixed bottom-6 right-6 z-50">
+          <div
+            className={`flex items-center gap-3 px-4 py-3 rounded-lg shadow-lg text-sm font-medium ${
+              toast.type === 'success'
+                ? 'bg-green-50 border border-green-200 text-green-800'
+                : 'bg-red-50 border border-red-200 text-red-800'
+            }`}
+          >
+            <span>{toast.message}</span>
+            <button onClick={() => setToast(null)}>
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,8 @@ import {
   Trash2,
   ChevronDown,
   ChevronRight,
-  Loader2
+  Loader2,
+  MinusCircle
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
@@ -23,7 +24,8 @@ interface QueueItem {
   stepOrder: number;
   subject: string;
   scheduledFor: string;
-  status: 'scheduled' | 'sent' | 'failed' | 'cancelled';
+  status: 'scheduled' | 'sent' | 'failed' | 'cancelled' | 'skipped';
+  deliveryStatus?: 'delivered' | 'bounced' | 'complained' | null;
   error?: string;
   retryCount?: number;
   lastAttempt?: string;
@@ -34,6 +36,7 @@ interface QueueStats {
   sent: number;
   failed: number;
   cancelled: number;
+  skipped: number;
 }
 
 export default function AutomationQueue() {
@@ -41,7 +44,7 @@ export default function AutomationQueue() {
   const toast = useToast();
 
   const [queueItems, setQueueItems] = useState<QueueItem[]>([]);
-  const [stats, setStats] = useState<QueueStats>({ scheduled: 0, sent: 0, failed: 0, cancelled: 0 });
+  const [stats, setStats] = useState<QueueStats>({ scheduled: 0, sent: 0, failed: 0, cancelled: 0, skipped: 0 });
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('all');
   const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
@@ -182,7 +185,8 @@ export default function AutomationQueue() {
       scheduled: 'bg-blue-50 text-blue-700 border-blue-200',
       sent: 'bg-green-50 text-green-700 border-green-200',
       failed: 'bg-red-50 text-red-700 border-red-200',
-      cancelled: 'bg-stone-100 text-stone-600 border-stone-200'
+      cancelled: 'bg-stone-100 text-stone-600 border-stone-200',
+      skipped: 'bg-amber-50 text-amber-700 border-amber-200'
     };
 
     return (
@@ -196,7 +200,7 @@ export default function AutomationQueue() {
     ? queueItems
     : queueItems.filter(item => item.status === activeTab);
 
-  const tabs = ['all', 'scheduled', 'sent', 'failed', 'cancelled'];
+  const tabs = ['all', 'scheduled', 'sent', 'failed', 'skipped', 'cancelled'];
 
   return (
     <div className="min-h-screen bg-stone-50">
@@ -222,7 +226,7 @@ export default function AutomationQueue() {
         </div>
 
         {/* Stats Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-8">
           <div className="bg-white rounded-xl border border-stone-200 shadow-sm p-6">
             <div className="flex items-center justify-between">
               <div>
@@ -253,6 +257,16 @@ export default function AutomationQueue() {
             </div>
           </div>
 
+          <div className="bg-white rounded-xl border border-stone-200 shadow-sm p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-stone-600 mb-1">Skipped</p>
+                <p className="text-2xl font-semibold text-stone-800">{stats.skipped}</p>
+              </div>
+              <MinusCircle className="w-8 h-8 text-amber-500" />
+            </div>
+          </div>
+
           <div className="bg-white rounded-xl border border-stone-200 shadow-sm p-6">
             <div className="flex items-center justify-between">
               <div>
@@ -365,6 +379,14 @@ export default function AutomationQueue() {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           {getStatusBadge(item.status)}
+                          {item.status === 'sent' && item.deliveryStatus && item.deliveryStatus !== 'delivered' && (
+                            <span className="ml-2 text-xs font-medium text-red-600">
+                              {item.deliveryStatus === 'bounced' ? 'Bounced' : 'Marked as spam'}
+                            </span>
+                          )}
+                          {item.status === 'skipped' && item.error && (
+                            <span className="ml-2 text-xs text-stone-500">{item.error}</span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm">
                           <div className="flex items-center gap-2">
@@ -24,7 +24,14 @@ import {
   Eye,
   ToggleLeft,
   ToggleRight,
+  GitBranch,
 } from 'lucide-react';
+import WorkflowEditor, {
+  WorkflowOutline,
+  workflowFromSteps,
+  workflowComplete,
+  type AutomationWorkflow,
+} from '../components/automations/WorkflowEditor';
 
 interface AutomationStep {
   id: string;
@@ -54,10 +61,24 @@ interface Automation {
   sendDelayHours: number;
   isSystem: boolean;
   oneTimePerRecipient: boolean;
+  workflow?: AutomationWorkflow | null;
+  extraTriggers?: string[];
+  goal?: { type: GoalType; tag?: string } | null;
+  emailCategory: 'transactional' | 'marketing';
   createdAt: string;
   updatedAt: string;
 }
 
+type GoalType = 'cart_recovered' | 'purchased' | 'has_tag';
+
+interface EnrollmentCounts {
+  active: number;
+  completed: number;
+  goal_reached: number;
+  cancelled: number;
+  failed: number;
+}
+
 interface QueueStats {
   scheduled: number;
   sent: number;
@@ -77,7 +98,21 @@ const triggerLabels: Record<string, { label: string; icon: React.ComponentType<{
   cart_abandoned: { label: 'Cart Abandoned', icon: ShoppingCart },
 };
 
-type FormMode = 'template' | 'sequence';
+const goalLabels: Record<GoalType, string> = {
+  cart_recovered: 'Abandoned cart is recovered',
+  purchased: 'Contact makes a purchase',
+  has_tag: 'Contact has tag',
+};
+
+type FormMode = 'template' | 'sequence' | 'workflow';
+
+// Only order receipts and shipping notices may skip the unsubscribe check
+const TRANSACTIONAL_TRIGGERS = ['order_placed', 'order_fulfilled_or_delivered'];
+
+const emptyWorkflow = (): AutomationWorkflow => ({ startNodeId: null, nodes: [] });
+
+const canSendTransactional = (trigger: string, extraTriggers: string[]) =>
+  [trigger, ...extraTriggers].every(t => TRANSACTIONAL_TRIGGERS.includes(t));
 
 export default function AutomationsManager() {
   const { accessToken } = useAuth();
@@ -90,6 +125,7 @@ export default function AutomationsManager() {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [processing, setProcessing] = useState(false);
   const [seeding, setSeeding] = useState(false);
+  const [enrollmentCounts, setEnrollmentCounts] = useState<Record<string, EnrollmentCounts>>({});
 
   // Form state
   const [formMode, setFormMode] = useState<FormMode>('template');
@@ -106,9 +142,14 @@ export default function AutomationsManager() {
   const [formDelayDays, setFormDelayDays] = useState(0);
   const [formDelayHours, setFormDelayHours] = useState(0);
   const [formOneTime, setFormOneTime] = useState(false);
+  const [formTransactional, setFormTransactional] = useState(false);
   const [formSteps, setFormSteps] = useState<Omit<AutomationStep, 'id'>[]>([
     { delayDays: 0, delayHours: 0, subject: '', body: '', order: 0 },
   ]);
+  const [formWorkflow, setFormWorkflow] = useState<AutomationWorkflow>(emptyWorkflow());
+  const [formExtraTriggers, setFormExtraTriggers] = useState<string[]>([]);
+  const [formGoalType, setFormGoalType] = useState<GoalType | ''>('');
+  const [formGoalTag, setFormGoalTag] = useState('');
   const [saving, setSaving] = useState(false);
 
   const fetchAutomations = async () => {
@@ -135,6 +176,17 @@ export default function AutomationsManager() {
     }
   };
 
+  const fetchEnrollmentCounts = async (automationId: string) => {
+    try {
+      const res = await fetch(`${API_BASE}/automations/${automationId}/enrollments`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      const data = await res.json();
+      setEnrollmentCounts(prev => ({ ...prev, [automationId]: data.counts }));
+    } catch (error) {
+    }
+  };
+
   useEffect(() => {
     fetchAutomations();
     fetchQueueStats();
@@ -175,14 +227,19 @@ export default function AutomationsManager() {
     setFormDelayDays(0);
     setFormDelayHours(0);
     setFormOneTime(false);
+    setFormTransactional(false);
     setFormSteps([{ delayDays: 0, delayHours: 0, subject: '', body: '', order: 0 }]);
+    setFormWorkflow(emptyWorkflow());
+    setFormExtraTriggers([]);
+    setFormGoalType('');
+    setFormGoalTag('');
     setModalOpen(true);
   };
 
   const handleEdit = (automation: Automation) => {
     setEditingAutomation(automation);
     const isTemplate = !!(automation.subject || automation.bodyText);
-    setFormMode(isTemplate ? 'template' : 'sequence');
+    setFormMode(isWorkflowAutomation(automation) ? 'workflow' : isTemplate ? 'template' : 'sequence');
     setFormName(automation.name);
     setFormDescription(automation.description || '');
     setFormTrigger(automation.trigger);
@@ -196,6 +253,7 @@ export default function AutomationsManager() {
     setFormDelayDays(automation.sendDelayDays || 0);
     setFormDelayHours(automation.sendDelayHours || 0);
     setFormOneTime(automation.oneTimePerRecipient || false);
+    setFormTransactional(automation.emailCategory === 'transactional');
     setFormSteps(automation.steps?.length ? automation.steps.map(s => ({
       delayDays: s.delayDays,
       delayHours: s.delayHours,
@@ -203,6 +261,10 @@ export default function AutomationsManager() {
       body: s.body,
       order: s.order,
     })) : [{ delayDays: 0, delayHours: 0, subject: '', body: '', order: 0 }]);
+    setFormWorkflow(automation.workflow?.nodes?.length ? automation.workflow : emptyWorkflow());
+    setFormExtraTriggers(automation.extraTriggers || []);
+    setFormGoalType(automation.goal?.type || '');
+    setFormGoalTag(automation.goal?.tag || '');
     setModalOpen(true);
   };
 
@@ -286,6 +348,26 @@ export default function AutomationsManager() {
     ));
   };
 
+  // Switching to a workflow for the first time starts it from the sequence so far
+  const handleWorkflowMode = () => {
+    if (formWorkflow.nodes.length === 0) {
+      setFormWorkflow(workflowFromSteps(formSteps.filter(s => s.subject || s.body)));
+    }
+    setFormMode('workflow');
+  };
+
+  const handleToggleExtraTrigger = (trigger: string) => {
+    setFormExtraTriggers(formExtraTriggers.includes(trigger)
+      ? formExtraTriggers.filter(t => t !== trigger)
+      : [...formExtraTriggers, trigger]);
+  };
+
+  const handleExpand = (automation: Automation) => {
+    const expanding = expandedId !== automation.id;
+    setExpandedId(expanding ? automation.id : null);
+    if (expanding && isWorkflowAutomation(automation)) fetchEnrollmentCounts(automation.id);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSaving(true);
@@ -298,6 +380,9 @@ export default function AutomationsManager() {
         status: editingAutomation?.status || 'paused',
       };
 
+      const extraTriggers = formMode === 'workflow' ? formExtraTriggers.filter(t => t !== formTrigger) : [];
+      payload.emailCategory = formTransactional && canSendTransactional(formTrigger, extraTriggers) ? 'transactional' : 'marketing';
+
       if (formMode === 'template') {
         payload.subject = formSubject;
         payload.previewText = formPreviewText || undefined;
@@ -310,8 +395,21 @@ export default function AutomationsManager() {
         payload.sendDelayHours = formDelayHours;
         payload.oneTimePerRecipient = formOneTime;
         payload.steps = [];
-      } else {
+        payload.workflow = null;
+      } else if (formMode === 'sequence') {
         payload.steps = formSteps;
+        payload.workflow = null;
+      } else {
+        payload.workflow = formWorkflow;
+        payload.extraTriggers = formExtraTriggers.filter(t => t !== formTrigger);
+        payload.goal = formGoalType
+          ? (formGoalType === 'has_tag' ? { type: formGoalType, tag: formGoalTag } : { type: formGoalType })
+          : null;
+        payload.oneTimePerRecipient = formOneTime;
+        payload.steps = [];
+        payload.subject = null;
+        payload.bodyText = null;
+        payload.bodyHtml = null;
       }
 
       const url = editingAutomation
@@ -344,6 +442,7 @@ export default function AutomationsManager() {
   };
 
   const isTemplateAutomation = (a: Automation) => !!(a.subject || a.bodyText);
+  const isWorkflowAutomation = (a: Automation) => !!a.workflow?.nodes?.length;
 
   return (
     <div>
@@ -446,13 +545,15 @@ export default function AutomationsManager() {
               const TriggerIcon = triggerLabels[automation.trigger]?.icon || Zap;
               const isExpanded = expandedId === automation.id;
               const isTemplate = isTemplateAutomation(automation);
+              const isWorkflow = isWorkflowAutomation(automation);
+              const counts = enrollmentCounts[automation.id];
 
               return (
                 <div key={automation.id} className="p-4">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-4">
                       <button
-                        onClick={() => setExpandedId(isExpanded ? null : automation.id)}
+                        onClick={() => handleExpand(automation)}
                         className="p-1 hover:bg-stone-100 rounded transition"
                       >
                         {isExpanded ? <ChevronUp size={20} /> : <ChevronDown size={20} />}
@@ -475,7 +576,9 @@ export default function AutomationsManager() {
                           </span>
                           <span className="text-stone-300">·</span>
                           <span className="text-xs text-stone-500">
-                            {isTemplate ? '1 email' : `${automation.steps?.length || 0} email${(automation.steps?.length || 0) > 1 ? 's' : ''}`}
+                            {isWorkflow
+                              ? `Workflow · ${automation.workflow!.nodes.length} step${automation.workflow!.nodes.length > 1 ? 's' : ''}`
+                              : isTemplate ? '1 email' : `${automation.steps?.length || 0} email${(automation.steps?.length || 0) > 1 ? 's' : ''}`}
                           </span>
                           {isTemplate && (
                             <>
@@ -560,7 +663,45 @@ export default function AutomationsManager() {
                         <p className="text-sm text-stone-500 mb-4">{automation.description}</p>
                       )}
 
-                      {isTemplate ? (
+                      {isWorkflow ? (
+                        <div className="space-y-3">
+                          {counts && (
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                              {([
+                                ['In progress', counts.active],
+                                ['Completed', counts.completed],
+                                ['Reached goal', counts.goal_reached],
+                                ['Cancelled / failed', counts.cancelled + counts.failed],
+                              ] as const).map(([label, value]) => (
+                                <div key={label} className="bg-stone-50 p-3 rounded-lg">
+                                  <div className="text-xs text-stone-400">{label}</div>
+                                  <p className="text-lg font-semibold text-stone-800">{value}</p>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                          <div className="bg-stone-50 p-4 rounded-lg">
+                            {!!automation.extraTriggers?.length && (
+                              <>
+                                <div className="text-xs text-stone-400 mb-1">Also triggered by</div>
+                                <p className="text-sm text-stone-600 mb-3">
+                                  {automation.extraTriggers.map(t => triggerLabels[t]?.label || t).join(', ')}
+                                </p>
+                              </>
+                            )}
+                            {automation.goal && (
+                              <>
+                                <div className="text-xs text-stone-400 mb-1">Exits when</div>
+                                <p className="text-sm text-stone-600 mb-3">
+                                  {goalLabels[automation.goal.type]}{automation.goal.tag ? ` "${automation.goal.tag}"` : ''}
+                                </p>
+                              </>
+                            )}
+                            <div className="text-xs text-stone-400 mb-2">Steps</div>
+                            <WorkflowOutline workflow={automation.workflow!} />
+                          </div>
+                        </div>
+                      ) : isTemplate ? (
                         <div className="space-y-3">
                           <div className="bg-stone-50 p-4 rounded-lg">
                             <div className="text-xs text-stone-400 mb-1">Subject</div>
@@ -721,6 +862,21 @@ export default function AutomationsManager() {
                 </select>
               </div>
 
+              {canSendTransactional(formTrigger, formMode === 'workflow' ? formExtraTriggers.filter(t => t !== formTrigger) : []) && (
+                <label className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={formTransactional}
+                    onChange={(e) => setFormTransactional(e.target.checked)}
+                    className="w-4 h-4 mt-0.5 text-clay rounded border-stone-300 focus:ring-clay"
+                  />
+                  <span className="text-sm text-stone-700">
+                    Order receipt or shipping notice (transactional)
+                    <span className="block text-xs text-stone-500">Also sent to people who have unsubscribed from marketing. Leave unticked for anything promotional, like cross-sells.</span>
+                  </span>
+                </label>
+              )}
+
               {/* Mode Toggle */}
               <div>
                 <label className="block text-sm font-medium text-stone-700 mb-2">Mode</label>
@@ -747,6 +903,18 @@ export default function AutomationsManager() {
                   >
                     Email Sequence
                   </button>
+                  <button
+                    type="button"
+                    onClick={handleWorkflowMode}
+                    className={`flex-1 py-2 text-sm font-medium transition flex items-center justify-center gap-1.5 ${
+                      formMode === 'workflow'
+                        ? 'bg-clay text-white'
+                        : 'bg-white text-stone-600 hover:bg-stone-50'
+                    }`}
+                  >
+                    <GitBranch size={14} />
+                    Workflow
+                  </button>
                 </div>
               </div>
 
@@ -866,6 +1034,70 @@ export default function AutomationsManager() {
                     <span className="text-sm text-stone-700">One-time per recipient (send only once per email address)</span>
                   </label>
                 </>
+              ) : formMode === 'workflow' ? (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-stone-700 mb-2">Also Triggered By</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {Object.entries(triggerLabels)
+                        .filter(([trigger]) => trigger !== formTrigger)
+                        .map(([trigger, { label }]) => (
+                          <label key={trigger} className="flex items-center gap-2 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={formExtraTriggers.includes(trigger)}
+                              onChange={() => handleToggleExtraTrigger(trigger)}
+                              className="w-4 h-4 text-clay rounded border-stone-300 focus:ring-clay"
+                            />
+                            <span className="text-sm text-stone-700">{label}</span>
+                          </label>
+                        ))}
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-stone-700 mb-1">Goal</label>
+                    <div className="grid grid-cols-2 gap-3">
+                      <select
+                        value={formGoalType}
+                        onChange={(e) => setFormGoalType(e.target.value as GoalType | '')}
+                        className="w-full border border-stone-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-clay"
+                      >
+                        <option value="">No goal</option>
+                        {(Object.keys(goalLabels) as GoalType[]).map(type => (
+                          <option key={type} value={type}>{goalLabels[type]}</option>
+                        ))}
+                      </select>
+                      {formGoalType === 'has_tag' && (
+                        <input
+                          type="text"
+                          value={formGoalTag}
+                          onChange={(e) => setFormGoalTag(e.target.value)}
+                          placeholder="Tag name"
+                          className="w-full border border-stone-300 rounded-lg px-3 py-2 focus:outline-none focus:ring-2 focus:ring-clay"
+                        />
+                      )}
+                    </div>
+                    <p className="text-xs text-stone-500 mt-1">
+                      Contacts leave the workflow as soon as the goal is met, wherever they are in it.
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-stone-700 mb-2">Workflow *</label>
+                    <WorkflowEditor workflow={formWorkflow} onChange={setFormWorkflow} />
+                  </div>
+
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={formOneTime}
+                      onChange={(e) => setFormOneTime(e.target.checked)}
+                      className="w-4 h-4 text-clay rounded border-stone-300 focus:ring-clay"
+                    />
+                    <span className="text-sm text-stone-700">One-time per recipient (never enrol the same email address twice)</span>
+                  </label>
+                </>
               ) : (
                 <>
                   <div>
@@ -960,6 +1192,11 @@ export default function AutomationsManager() {
                   <strong>Placeholders:</strong>{' '}
                   <code className="bg-stone-200 px-1 rounded">{'{{customer_first_name}}'}</code>{' '}
                   <code className="bg-stone-200 px-1 rounded">{'{{order_id}}'}</code>{' '}
+                  <code className="bg-stone-200 px-1 rounded">{'{{order_number}}'}</code>{' '}
+                  <code className="bg-stone-200 px-1 rounded">{'{{order_total}}'}</code>{' '}
+                  <code className="bg-stone-200 px-1 rounded">{'{{order_items}}'}</code>{' '}
+                  <code className="bg-stone-200 px-1 rounded">{'{{order_tracking_number}}'}</code>{' '}
+                  <code className="bg-stone-200 px-1 rounded">{'{{order_tracking_url}}'}</code>{' '}
                   <code className="bg-stone-200 px-1 rounded">{'{{product_name}}'}</code>{' '}
                   <code className="bg-stone-200 px-1 rounded">{'{{price}}'}</code>{' '}
                   <code className="bg-stone-200 px-1 rounded">{'{{variant}}'}</code>{' '}
@@ -982,7 +1219,11 @@ export default function AutomationsManager() {
               </button>
               <button
                 onClick={handleSubmit}
-                disabled={saving || !formName || (formMode === 'template' ? !formSubject || !formBodyText : formSteps.some(s => !s.subject || !s.body))}
+                disabled={saving || !formName || (
+                  formMode === 'template' ? !formSubject || !formBodyText
+                    : formMode === 'workflow' ? !workflowComplete(formWorkflow) || (formGoalType === 'has_tag' && !formGoalTag.trim())
+                    : formSteps.some(s => !s.subject || !s.body)
+                )}
                 className="px-4 py-2 bg-clay text-white rounded-lg hover:bg-clay-dark transition disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {saving ? 'Saving...' : editingAutomation ? 'Save Changes' : 'Create Automation'}
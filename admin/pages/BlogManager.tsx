@@ -51,6 +51,7 @@ interface BlogPost {
   status: PostStatus;
   publishedAt: string | null;
   scheduledAt: string | null;
+  archiveAt?: string | null;
   authorId?: string | null;
   authorName?: string | null;
   metaTitle: string;
@@ -144,6 +145,14 @@ function formatScheduledDate(dateStr: string | null): string {
   });
 }
 
+/** ISO string to the local YYYY-MM-DDTHH:MM a datetime-local input expects */
+function toDatetimeLocal(dateStr: string | null | undefined): string {
+  if (!dateStr) return '';
+  const d = new Date(dateStr);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
 // ─── Status Badge ───────────────────────────────────────
 
 function StatusBadge({ status, scheduledAt }: { status: PostStatus; scheduledAt?: string | null }) {
@@ -1346,6 +1355,24 @@ export default function BlogManager() {
                     </div>
                   )}
 
+                  {/* Scheduled archive */}
+                  {formValues.status !== 'archived' && (
+                    <div>
+                      <label className="flex items-center gap-1.5 text-xs font-medium text-stone-700 mb-1.5">
+                        <Archive size={12} />
+                        Archive on
+                      </label>
+                      <input
+                        type="datetime-local"
+                        value={toDatetimeLocal(formValues.archiveAt)}
+                        onChange={(e) => updateFormValue('archiveAt', e.target.value ? new Date(e.target.value).toISOString() : null)}
+                        min={new Date().toISOString().slice(0, 16)}
+                        className="w-full px-3 py-1.5 border border-stone-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-stone-400 focus:ring-offset-1"
+                      />
+                      <p className="text-[10px] text-stone-400 mt-1">Taken off the blog automatically at this time.</p>
+                    </div>
+                  )}
+
                   {/* Post Info */}
                   {editingItem && (
                     <div className="pt-3 border-t border-stone-200">
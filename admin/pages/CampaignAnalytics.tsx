@@ -8,6 +8,9 @@ import {
   AlertTriangle,
   UserMinus,
   Send,
+  Loader2,
+  RefreshCw,
+  Trophy,
 } from 'lucide-react';
 import {
   LineChart,
@@ -31,6 +34,10 @@ interface Campaign {
   status: string;
   sentAt: string;
   recipientCount: number;
+  sendOffset?: number;
+  failedCount?: number;
+  skippedCount?: number;
+  sendError?: string | null;
 }
 
 interface Summary {
@@ -44,6 +51,26 @@ interface Summary {
   unsubscribed: number;
 }
 
+interface VariantResult {
+  id: string;
+  subject: string;
+  delivered: number;
+  opened: number;
+  clicked: number;
+  openRate: number;
+  clickRate: number;
+}
+
+interface AbTest {
+  percent: number;
+  winnerMetric: 'open_rate' | 'click_rate';
+  windowHours: number;
+  testSize: number;
+  endsAt: string | null;
+  winner: string | null;
+  variants: VariantResult[];
+}
+
 interface ClickBreakdownEntry {
   url: string;
   clicks: number;
@@ -67,6 +94,7 @@ interface RecentEvent {
 interface AnalyticsData {
   campaign: Campaign;
   summary: Summary;
+  abTest: AbTest | null;
   clickBreakdown: ClickBreakdownEntry[];
   timeline: TimelineEntry[];
   recentEvents: RecentEvent[];
@@ -206,6 +234,8 @@ export default function CampaignAnalytics() {
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [resuming, setResuming] = useState(false);
 
   useEffect(() => {
     if (!id || !token) return;
@@ -237,7 +267,28 @@ export default function CampaignAnalytics() {
     };
 
     fetchAnalytics();
-  }, [id, token]);
+  }, [id, token, reloadKey]);
+
+  // A failed send picks up from the last batch that went out
+  const handleResume = async () => {
+    if (!id || !token) return;
+    setResuming(true);
+    try {
+      const response = await fetch(`${API_BASE}/campaigns/${id}/send`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || 'Failed to resume sending');
+      }
+      setReloadKey((k) => k + 1);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resume sending');
+    } finally {
+      setResuming(false);
+    }
+  };
 
   // Prepare timeline chart data
   const chartData = data?.timeline?.map((entry) => ({
@@ -300,7 +351,8 @@ export default function CampaignAnalytics() {
 
   if (!data) return null;
 
-  const { campaign, summary } = data;
+  const { campaign, summary, abTest } = data;
+  const awaitingWinner = !!abTest && !abTest.winner && !!abTest.endsAt;
 
   return (
     <div className="p-8 space-y-8">
@@ -319,7 +371,7 @@ export default function CampaignAnalytics() {
               {campaign.subject}
             </h1>
             <p className="text-stone-500 mt-1">
-              Sent on {formatDate(campaign.sentAt)}
+              {campaign.sentAt ? `Sent on ${formatDate(campaign.sentAt)}` : 'Not finished sending'}
             </p>
           </div>
           <span
@@ -332,6 +384,49 @@ export default function CampaignAnalytics() {
         </div>
       </div>
 
+      {/* ---- SEND PROGRESS ---- */}
+      {(campaign.status === 'sending' || campaign.status === 'failed') && (
+        <div
+          className={`rounded-xl border p-4 flex items-center gap-4 ${
+            campaign.status === 'failed' ? 'bg-red-50 border-red-200' : 'bg-blue-50 border-blue-200'
+          }`}
+        >
+          <div className="flex-1">
+            <p className={`text-sm font-medium ${campaign.status === 'failed' ? 'text-red-800' : 'text-blue-800'}`}>
+              {campaign.status === 'failed' ? 'Sending stopped' : 'Sending in batches'}
+              {' '}&middot; {(campaign.sendOffset ?? 0).toLocaleString()} of {campaign.recipientCount.toLocaleString()} processed
+              {campaign.failedCount ? ` · ${campaign.failedCount.toLocaleString()} rejected` : ''}
+              {campaign.skippedCount ? ` · ${campaign.skippedCount.toLocaleString()} skipped (unsubscribed or suppressed)` : ''}
+            </p>
+            <p className={`text-xs mt-0.5 ${campaign.status === 'failed' ? 'text-red-600' : 'text-blue-600'}`}>
+              {campaign.status === 'failed'
+                ? campaign.sendError || 'The email provider stopped accepting this campaign.'
+                : awaitingWinner
+                  ? `Test variants sent. The winner is picked at ${formatDate(abTest!.endsAt!)} and sent to everyone else.`
+                  : 'The rest goes out over the next few minutes. Refresh to see progress.'}
+            </p>
+          </div>
+          {campaign.status === 'failed' ? (
+            <button
+              onClick={handleResume}
+              disabled={resuming}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-red-600 hover:bg-red-700 rounded-md transition disabled:opacity-50"
+            >
+              {resuming ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+              Resume sending
+            </button>
+          ) : (
+            <button
+              onClick={() => setReloadKey((k) => k + 1)}
+              className="p-2 text-blue-600 hover:bg-blue-100 rounded-md transition"
+              title="Refresh"
+            >
+              <RefreshCw size={16} />
+            </button>
+          )}
+        </div>
+      )}
+
       {/* ---- SUMMARY CARDS ---- */}
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
         <SummaryCard
@@ -374,6 +469,60 @@ export default function CampaignAnalytics() {
         />
       </div>
 
+      {/* ---- A/B TEST RESULTS ---- */}
+      {abTest && (
+        <div className="bg-white rounded-xl border border-stone-200 p-6 shadow-sm">
+          <div className="flex items-baseline justify-between gap-4 mb-4">
+            <h2 className="text-lg font-semibold text-stone-900">A/B Test</h2>
+            <p className="text-sm text-stone-500">
+              {abTest.testSize.toLocaleString()} test recipient{abTest.testSize !== 1 ? 's' : ''} ({abTest.percent}%)
+              {' '}&middot; winner by {abTest.winnerMetric === 'click_rate' ? 'click rate' : 'open rate'}
+              {' '}after {abTest.windowHours}h
+            </p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-stone-200">
+                  <th className="text-left py-3 px-4 font-medium text-stone-500">Variant</th>
+                  <th className="text-left py-3 px-4 font-medium text-stone-500">Subject</th>
+                  <th className="text-right py-3 px-4 font-medium text-stone-500">Delivered</th>
+                  <th className="text-right py-3 px-4 font-medium text-stone-500">Open Rate</th>
+                  <th className="text-right py-3 px-4 font-medium text-stone-500">Click Rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-stone-100">
+                {abTest.variants.map((variant) => (
+                  <tr key={variant.id} className={abTest.winner === variant.id ? 'bg-green-50' : 'hover:bg-stone-50 transition-colors'}>
+                    <td className="py-3 px-4 font-medium text-stone-800">
+                      <span className="inline-flex items-center gap-1.5">
+                        {variant.id}
+                        {abTest.winner === variant.id && <Trophy size={14} className="text-green-600" />}
+                      </span>
+                    </td>
+                    <td className="py-3 px-4 text-stone-700">{variant.subject}</td>
+                    <td className="py-3 px-4 text-right text-stone-700 font-medium">{variant.delivered.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right text-stone-700 font-medium">
+                      {variant.openRate.toFixed(1)}% <span className="text-stone-400 font-normal">({variant.opened})</span>
+                    </td>
+                    <td className="py-3 px-4 text-right text-stone-700 font-medium">
+                      {variant.clickRate.toFixed(1)}% <span className="text-stone-400 font-normal">({variant.clicked})</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-stone-400 mt-3">
+            {abTest.winner
+              ? `Variant ${abTest.winner} won and was sent to the remaining recipients. Rates count the test group only.`
+              : abTest.endsAt
+                ? `Waiting for results. The winner is picked at ${formatDate(abTest.endsAt)}.`
+                : 'The test variants are still sending.'}
+          </p>
+        </div>
+      )}
+
       {/* ---- OPEN/CLICK TIMELINE CHART ---- */}
       {chartData.length > 0 && (
         <div className="bg-white rounded-xl border border-stone-200 p-6 shadow-sm">
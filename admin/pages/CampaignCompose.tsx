@@ -18,6 +18,9 @@ import {
   Users,
   Filter,
   ChevronRight,
+  FlaskConical,
+  Plus,
+  Trash2,
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { API_BASE } from '../config/api';
@@ -35,15 +38,56 @@ interface Campaign {
   bodyHtml?: string;
   status: 'draft' | 'scheduled' | 'sending' | 'sent';
   audience: 'all' | 'segment';
+  segmentId?: string | null;
   segmentFilters?: { sources?: string[]; tags?: string[] };
   scheduledFor?: string;
+  variants?: CampaignVariant[] | null;
+  abTestPercent?: number;
+  abWinnerMetric?: AbWinnerMetric;
+  abTestWindowHours?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+interface CampaignVariant {
+  id: string;
+  subject?: string | null;
+  body?: string | null;
+  bodyHtml?: string | null;
+}
+
+/** A variant being edited. Null blocks means it sends variant A's content. */
+interface VariantDraft {
+  id: string;
+  subject: string;
+  blocks: EmailBlock[] | null;
+}
+
+type AbWinnerMetric = 'open_rate' | 'click_rate';
+
+interface SavedSegment {
+  id: string;
+  name: string;
+  subscriberCount: number;
+}
+
 type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'idle';
 type PreviewDevice = 'desktop' | 'mobile';
 
+const VARIANT_IDS = ['B', 'C', 'D'];
+const AB_TEST_PERCENTS = [10, 20, 30, 50, 100];
+const AB_TEST_WINDOWS = [1, 2, 4, 8, 12, 24, 48];
+
+function parseBlocks(body?: string | null): EmailBlock[] | null {
+  if (!body) return null;
+  try {
+    const parsed = JSON.parse(body);
+    return Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
 // ============================================
 // CAMPAIGN COMPOSE PAGE
 // ============================================
@@ -61,9 +105,18 @@ export default function CampaignCompose() {
   const [audience, setAudience] = useState<'all' | 'segment'>('all');
   const [selectedSources, setSelectedSources] = useState<string[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [segmentId, setSegmentId] = useState<string | null>(null);
   const [status, setStatus] = useState<'draft' | 'scheduled'>('draft');
   const [bodyHtml, setBodyHtml] = useState('');
 
+  // A/B test
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const [abTestPercent, setAbTestPercent] = useState(20);
+  const [abWinnerMetric, setAbWinnerMetric] = useState<AbWinnerMetric>('open_rate');
+  const [abTestWindowHours, setAbTestWindowHours] = useState(4);
+  const [activeVariant, setActiveVariant] = useState('A');
+  const [testVariant, setTestVariant] = useState('A');
+
   // UI state
   const [loading, setLoading] = useState(!!id);
   const [metadataOpen, setMetadataOpen] = useState(true);
@@ -85,6 +138,7 @@ export default function CampaignCompose() {
   const [loadingRecipients, setLoadingRecipients] = useState(false);
   const [availableSources, setAvailableSources] = useState<string[]>([]);
   const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [savedSegments, setSavedSegments] = useState<SavedSegment[]>([]);
 
   // Toast
   const [toast, setToast] = useState('');
@@ -106,6 +160,7 @@ export default function CampaignCompose() {
       createCampaign();
     }
     fetchAvailableFilters();
+    fetchSavedSegments();
   }, []);
 
   // Pre-fill test email with user's email
@@ -132,16 +187,16 @@ export default function CampaignCompose() {
       setAudience(data.audience || 'all');
       setSelectedSources(data.segmentFilters?.sources || []);
       setSelectedTags(data.segmentFilters?.tags || []);
+      setSegmentId(data.segmentId || null);
       setStatus(data.status === 'scheduled' ? 'scheduled' : 'draft');
       setBodyHtml(data.bodyHtml || '');
       setCampaignId(data.id);
+      setVariants((data.variants || []).map(v => ({ id: v.id, subject: v.subject || '', blocks: parseBlocks(v.body) })));
+      setAbTestPercent(data.abTestPercent ?? 20);
+      setAbWinnerMetric(data.abWinnerMetric || 'open_rate');
+      setAbTestWindowHours(data.abTestWindowHours ?? 4);
 
-      try {
-        const parsed = JSON.parse(data.body);
-        setBlocks(Array.isArray(parsed) ? parsed : []);
-      } catch {
-        setBlocks([]);
-      }
+      setBlocks(parseBlocks(data.body) || []);
 
       setLastSavedAt(new Date(data.updatedAt));
       setSaveStatus('saved');
@@ -209,6 +264,20 @@ export default function CampaignCompose() {
     }
   };
 
+  const fetchSavedSegments = async () => {
+    try {
+      const res = await fetch(`${API_BASE}/segments`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setSavedSegments(data.segments || []);
+      }
+    } catch {
+      // Saved segments not available
+    }
+  };
+
   // ============================================
   // AUTO-SAVE
   // ============================================
@@ -230,7 +299,19 @@ export default function CampaignCompose() {
           body: JSON.stringify(blocks),
           bodyHtml: html,
           audience,
-          segmentFilters: audience === 'segment' ? { sources: selectedSources, tags: selectedTags } : undefined,
+          segmentId: audience === 'segment' ? segmentId : null,
+          segmentFilters: audience === 'segment' && !segmentId ? { sources: selectedSources, tags: selectedTags } : undefined,
+          variants: variants.length > 0
+            ? variants.map(v => ({
+                id: v.id,
+                subject: v.subject.trim() || null,
+                body: v.blocks ? JSON.stringify(v.blocks) : null,
+                bodyHtml: v.blocks && v.blocks.length > 0 ? generateEmailHtml(v.blocks) : null,
+              }))
+            : null,
+          abTestPercent,
+          abWinnerMetric,
+          abTestWindowHours,
         }),
       });
       if (res.ok) {
@@ -240,21 +321,22 @@ export default function CampaignCompose() {
         setHasUnsavedChanges(false);
         setSaveStatus('saved');
       } else {
+        const err = await res.json().catch(() => ({}));
         setSaveStatus('unsaved');
-        showToast('Failed to save');
+        showToast(err.error || 'Failed to save');
       }
     } catch {
       setSaveStatus('unsaved');
       showToast('Failed to save');
     }
-  }, [campaignId, subject, preheader, blocks, audience, selectedSources, selectedTags, accessToken]);
+  }, [campaignId, subject, preheader, blocks, audience, segmentId, selectedSources, selectedTags, variants, abTestPercent, abWinnerMetric, abTestWindowHours, accessToken]);
 
   // Track unsaved changes
   useEffect(() => {
     if (isInitialLoadRef.current) return;
     setHasUnsavedChanges(true);
     setSaveStatus('unsaved');
-  }, [subject, preheader, blocks, audience, selectedSources, selectedTags]);
+  }, [subject, preheader, blocks, audience, segmentId, selectedSources, selectedTags, variants, abTestPercent, abWinnerMetric, abTestWindowHours]);
 
   // Auto-save every 30 seconds when changes are detected
   useEffect(() => {
@@ -289,7 +371,7 @@ export default function CampaignCompose() {
   useEffect(() => {
     if (isInitialLoadRef.current) return;
     updateRecipientCount();
-  }, [audience, selectedSources, selectedTags]);
+  }, [audience, segmentId, selectedSources, selectedTags]);
 
   const updateRecipientCount = async () => {
     setLoadingRecipients(true);
@@ -302,7 +384,8 @@ export default function CampaignCompose() {
         },
         body: JSON.stringify({
           audience,
-          segmentFilters: audience === 'segment' ? { sources: selectedSources, tags: selectedTags } : undefined,
+          segmentId: audience === 'segment' ? segmentId : undefined,
+          segmentFilters: audience === 'segment' && !segmentId ? { sources: selectedSources, tags: selectedTags } : undefined,
         }),
       });
       if (res.ok) {
@@ -340,10 +423,10 @@ export default function CampaignCompose() {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({ email: testEmail }),
+        body: JSON.stringify({ email: testEmail, variant: variants.length > 0 ? testVariant : undefined }),
       });
       if (res.ok) {
-        showToast(`Test email sent to ${testEmail}`);
+        showToast(variants.length > 0 ? `Test of variant ${testVariant} sent to ${testEmail}` : `Test email sent to ${testEmail}`);
         setShowTestModal(false);
       } else {
         const err = await res.json().catch(() => ({}));
@@ -365,6 +448,11 @@ export default function CampaignCompose() {
       showToast('Please add some content to your email');
       return;
     }
+    const incomplete = variants.find(v => !v.subject.trim() && !v.blocks?.length);
+    if (incomplete) {
+      showToast(`Give variant ${incomplete.id} its own subject line or content`);
+      return;
+    }
 
     // Save before navigating
     if (hasUnsavedChanges) {
@@ -374,13 +462,61 @@ export default function CampaignCompose() {
     navigate(`/admin/campaigns/${campaignId}/review`);
   };
 
+  // The editor and preview show whichever variant's content is selected
+  const activeBlocks = variants.find(v => v.id === activeVariant)?.blocks || blocks;
+
   const handleBlocksChange = useCallback((newBlocks: EmailBlock[]) => {
-    setBlocks(newBlocks);
-  }, []);
+    if (activeVariant === 'A') {
+      setBlocks(newBlocks);
+    } else {
+      setVariants(prev => prev.map(v => (v.id === activeVariant ? { ...v, blocks: newBlocks } : v)));
+    }
+  }, [activeVariant]);
 
   const handleGenerateHtml = useCallback(() => {
-    return blocks.length > 0 ? generateEmailHtml(blocks) : '';
-  }, [blocks]);
+    return activeBlocks.length > 0 ? generateEmailHtml(activeBlocks) : '';
+  }, [activeBlocks]);
+
+  // ============================================
+  // A/B TEST
+  // ============================================
+
+  const addVariant = () => {
+    const id = VARIANT_IDS.find(vid => !variants.some(v => v.id === vid));
+    if (!id) return;
+    setVariants(prev => [...prev, { id, subject: '', blocks: null }]);
+  };
+
+  const removeVariant = (variantId: string) => {
+    setVariants(prev => prev.filter(v => v.id !== variantId));
+    if (activeVariant === variantId) setActiveVariant('A');
+    if (testVariant === variantId) setTestVariant('A');
+  };
+
+  const updateVariant = (variantId: string, changes: Partial<VariantDraft>) => {
+    setVariants(prev => prev.map(v => (v.id === variantId ? { ...v, ...changes } : v)));
+  };
+
+  // A variant with its own content starts as a copy of A's
+  const toggleVariantContent = (variant: VariantDraft) => {
+    if (variant.blocks) {
+      updateVariant(variant.id, { blocks: null });
+      if (activeVariant === variant.id) setActiveVariant('A');
+    } else {
+      updateVariant(variant.id, { blocks: JSON.parse(JSON.stringify(blocks)) });
+      setActiveVariant(variant.id);
+    }
+  };
+
+  const toggleAbTest = () => {
+    if (variants.length > 0) {
+      setVariants([]);
+      setActiveVariant('A');
+      setTestVariant('A');
+    } else {
+      setVariants([{ id: 'B', subject: '', blocks: null }]);
+    }
+  };
 
   // ============================================
   // HELPERS
@@ -498,8 +634,8 @@ export default function CampaignCompose() {
 
               <button
                 onClick={() => {
-                  if (!previewMode && blocks.length > 0) {
-                    setBodyHtml(generateEmailHtml(blocks));
+                  if (!previewMode && activeBlocks.length > 0) {
+                    setBodyHtml(generateEmailHtml(activeBlocks));
                   }
                   setPreviewMode(!previewMode);
                 }}
@@ -590,6 +726,111 @@ export default function CampaignCompose() {
                 </p>
               </div>
 
+              {/* A/B test */}
+              <div>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={variants.length > 0}
+                    onChange={toggleAbTest}
+                    style={{ accentColor: '#8d3038' }}
+                  />
+                  <FlaskConical size={14} className="text-stone-500" />
+                  <span className="text-sm font-medium text-stone-700">A/B test this campaign</span>
+                </label>
+
+                {variants.length > 0 && (
+                  <div className="mt-3 p-3 bg-stone-50 rounded-lg border border-stone-200 space-y-3">
+                    <p className="text-xs text-stone-500">
+                      Variant A is the subject line and content above. Each variant is sent to an equal share of
+                      the test group, and the winner goes to everyone else.
+                    </p>
+
+                    {variants.map(variant => (
+                      <div key={variant.id} className="flex items-start gap-2">
+                        <span className="mt-2 w-6 text-xs font-semibold text-stone-500">{variant.id}</span>
+                        <div className="flex-1 space-y-1.5">
+                          <input
+                            type="text"
+                            value={variant.subject}
+                            onChange={e => updateVariant(variant.id, { subject: e.target.value })}
+                            placeholder={`Same as A: ${subject}`}
+                            maxLength={150}
+                            className="w-full px-3 py-2 bg-white border border-stone-300 rounded-md text-sm text-stone-800 placeholder:text-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-400"
+                          />
+                          <label className="flex items-center gap-2 text-xs text-stone-600 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={!!variant.blocks}
+                              onChange={() => toggleVariantContent(variant)}
+                              style={{ accentColor: '#8d3038' }}
+                            />
+                            Different content
+                          </label>
+                        </div>
+                        <button
+                          onClick={() => removeVariant(variant.id)}
+                          className="mt-1.5 p-1 text-stone-400 hover:text-red-600 rounded transition-colors"
+                          title={`Remove variant ${variant.id}`}
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ))}
+
+                    {variants.length < VARIANT_IDS.length && (
+                      <button
+                        onClick={addVariant}
+                        className="flex items-center gap-1 text-xs font-medium text-stone-600 hover:text-stone-800"
+                      >
+                        <Plus size={12} />
+                        Add variant
+                      </button>
+                    )}
+
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 pt-1">
+                      <div>
+                        <label className="block text-xs font-medium text-stone-500 uppercase tracking-wide mb-1.5">Test group</label>
+                        <select
+                          value={abTestPercent}
+                          onChange={e => setAbTestPercent(Number(e.target.value))}
+                          className="w-full px-3 py-2 bg-white border border-stone-300 rounded-md text-sm text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-400"
+                        >
+                          {AB_TEST_PERCENTS.map(percent => (
+                            <option key={percent} value={percent}>
+                              {percent === 100 ? 'Everyone (no winner send)' : `${percent}% of recipients`}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-stone-500 uppercase tracking-wide mb-1.5">Winner by</label>
+                        <select
+                          value={abWinnerMetric}
+                          onChange={e => setAbWinnerMetric(e.target.value as AbWinnerMetric)}
+                          className="w-full px-3 py-2 bg-white border border-stone-300 rounded-md text-sm text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-400"
+                        >
+                          <option value="open_rate">Open rate</option>
+                          <option value="click_rate">Click rate</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-stone-500 uppercase tracking-wide mb-1.5">Pick winner after</label>
+                        <select
+                          value={abTestWindowHours}
+                          onChange={e => setAbTestWindowHours(Number(e.target.value))}
+                          className="w-full px-3 py-2 bg-white border border-stone-300 rounded-md text-sm text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-400"
+                        >
+                          {AB_TEST_WINDOWS.map(hours => (
+                            <option key={hours} value={hours}>{hours} hour{hours !== 1 ? 's' : ''}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                  </div>
+                )}
+              </div>
+
               {/* Audience selector */}
               <div>
                 <label className="block text-sm font-medium text-stone-700 mb-2">
@@ -602,7 +843,7 @@ export default function CampaignCompose() {
                       name="audience"
                       value="all"
                       checked={audience === 'all'}
-                      onChange={() => { setAudience('all'); setSelectedSources([]); setSelectedTags([]); }}
+                      onChange={() => { setAudience('all'); setSegmentId(null); setSelectedSources([]); setSelectedTags([]); }}
                       className="text-stone-600 focus:ring-stone-400"
                       style={{ accentColor: '#8d3038' }}
                     />
@@ -625,8 +866,30 @@ export default function CampaignCompose() {
                 {/* Segment filters */}
                 {audience === 'segment' && (
                   <div className="mt-3 p-3 bg-stone-50 rounded-lg border border-stone-200 space-y-3">
+                    {/* Saved segment */}
+                    {savedSegments.length > 0 && (
+                      <div>
+                        <label className="text-xs font-medium text-stone-500 uppercase tracking-wide mb-1.5 flex items-center gap-1">
+                          <Users size={12} />
+                          Saved segment
+                        </label>
+                        <select
+                          value={segmentId || ''}
+                          onChange={(e) => setSegmentId(e.target.value || null)}
+                          className="w-full px-3 py-2 bg-white border border-stone-300 rounded-md text-sm text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-400"
+                        >
+                          <option value="">Custom filters</option>
+                          {savedSegments.map(segment => (
+                            <option key={segment.id} value={segment.id}>
+                              {segment.name} ({segment.subscriberCount})
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
                     {/* Source filter */}
-                    {availableSources.length > 0 && (
+                    {!segmentId && availableSources.length > 0 && (
                       <div>
                         <label className="text-xs font-medium text-stone-500 uppercase tracking-wide mb-1.5 flex items-center gap-1">
                           <Filter size={12} />
@@ -652,7 +915,7 @@ export default function CampaignCompose() {
                     )}
 
                     {/* Tag filter */}
-                    {availableTags.length > 0 && (
+                    {!segmentId && availableTags.length > 0 && (
                       <div>
                         <label className="text-xs font-medium text-stone-500 uppercase tracking-wide mb-1.5 flex items-center gap-1">
                           <Filter size={12} />
@@ -762,8 +1025,26 @@ export default function CampaignCompose() {
         ) : (
           // EDIT MODE — Block Builder
           <div className="bg-white rounded-xl border border-stone-200 shadow-sm">
+            {variants.some(v => v.blocks) && (
+              <div className="flex items-center gap-1 px-4 pt-3 border-b border-stone-200">
+                {['A', ...variants.filter(v => v.blocks).map(v => v.id)].map(variantId => (
+                  <button
+                    key={variantId}
+                    onClick={() => setActiveVariant(variantId)}
+                    className={`px-3 py-1.5 text-sm border-b-2 -mb-px transition-colors ${
+                      activeVariant === variantId
+                        ? 'border-stone-800 text-stone-800 font-medium'
+                        : 'border-transparent text-stone-500 hover:text-stone-700'
+                    }`}
+                  >
+                    Variant {variantId}
+                  </button>
+                ))}
+              </div>
+            )}
             <BlockBuilder
-              blocks={blocks}
+              key={activeVariant}
+              blocks={activeBlocks}
               onChange={handleBlocksChange}
               onGenerateHtml={handleGenerateHtml}
               apiBase={API_BASE}
@@ -800,6 +1081,23 @@ export default function CampaignCompose() {
               Send a test version of this email to preview how it looks in a real inbox.
             </p>
 
+            {variants.length > 0 && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-stone-700 mb-1">
+                  Variant
+                </label>
+                <select
+                  value={testVariant}
+                  onChange={e => setTestVariant(e.target.value)}
+                  className="w-full px-3 py-2 border border-stone-300 rounded-lg text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-stone-300 focus:border-stone-400"
+                >
+                  {['A', ...variants.map(v => v.id)].map(variantId => (
+                    <option key={variantId} value={variantId}>Variant {variantId}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             <div className="mb-4">
               <label className="block text-sm font-medium text-stone-700 mb-1">
                 Email address
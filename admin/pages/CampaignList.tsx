@@ -333,7 +333,8 @@ export default function CampaignList() {
   // ------------------------------------------
 
   function handleRowClick(campaign: Campaign) {
-    if (campaign.status === 'sent' || campaign.status === 'sending') {
+    // A campaign that failed part way through is resumed from its analytics page
+    if (campaign.status === 'sent' || campaign.status === 'sending' || (campaign.status === 'failed' && campaign.recipientCount != null)) {
       navigate(`/admin/campaigns/${campaign.id}/analytics`);
     } else {
       navigate(`/admin/campaigns/${campaign.id}`);
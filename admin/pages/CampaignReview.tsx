@@ -35,6 +35,10 @@ interface PreflightData {
     preheader?: string;
     bodyHtml: string;
     audience: 'all' | 'segment';
+    variants?: { id: string; subject?: string | null }[] | null;
+    abTestPercent?: number;
+    abWinnerMetric?: 'open_rate' | 'click_rate';
+    abTestWindowHours?: number;
   };
   checks: PreflightChecks;
   allPassed: boolean;
@@ -561,6 +565,13 @@ export default function CampaignReview() {
                   {recipientCount.toLocaleString()} subscriber{recipientCount !== 1 ? 's' : ''}
                 </strong>
               </p>
+              {campaign.variants && campaign.variants.length > 0 && (
+                <p className="text-xs text-stone-500 mt-1">
+                  A/B testing {campaign.variants.length + 1} variants on {campaign.abTestPercent}% of them. The one with
+                  the best {campaign.abWinnerMetric === 'click_rate' ? 'click rate' : 'open rate'} after{' '}
+                  {campaign.abTestWindowHours}h goes to the rest.
+                </p>
+              )}
             </div>
           </div>
 
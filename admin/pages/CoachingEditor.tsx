@@ -53,6 +53,7 @@ interface CoachingData {
   tags: string[];
   publishedAt: string | null;
   scheduledAt: string | null;
+  archiveAt: string | null;
   displayOrder: number;
 }
 
@@ -93,6 +94,7 @@ const EMPTY_COACHING: CoachingData = {
   tags: [],
   publishedAt: null,
   scheduledAt: null,
+  archiveAt: null,
   displayOrder: 0,
 };
 
@@ -277,6 +279,7 @@ export default function CoachingEditor() {
               : [],
           publishedAt: raw.publishedAt || null,
           scheduledAt: raw.scheduledAt || null,
+          archiveAt: raw.archiveAt || null,
           displayOrder: raw.displayOrder || 0,
         };
 
@@ -678,6 +681,7 @@ export default function CoachingEditor() {
             : [],
         publishedAt: restored.publishedAt || null,
         scheduledAt: restored.scheduledAt || null,
+        archiveAt: restored.archiveAt || null,
         displayOrder: restored.displayOrder || 0,
       };
 
@@ -1006,6 +1010,25 @@ export default function CoachingEditor() {
                   </button>
                 </div>
               )}
+
+              {/* Scheduled archive */}
+              {data.status !== 'archived' && (
+                <div className="pt-3 border-t border-stone-100">
+                  <FieldLabel label="Archive on" htmlFor="archive-input" />
+                  <div className="relative">
+                    <Calendar size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400" />
+                    <input
+                      id="archive-input"
+                      type="datetime-local"
+                      value={formatDatetime(data.archiveAt)}
+                      onChange={(e) => updateField('archiveAt', e.target.value ? new Date(e.target.value).toISOString() : null)}
+                      min={new Date().toISOString().slice(0, 16)}
+                      className="w-full pl-9 pr-3 py-2 border border-stone-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-stone-400 focus:ring-offset-1"
+                    />
+                  </div>
+                  <p className="text-xs text-stone-400 mt-1">Taken off the site automatically at this time. Saved with the offer.</p>
+                </div>
+              )}
             </Card>
 
             {/* Pricing */}
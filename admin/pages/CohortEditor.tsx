@@ -463,22 +463,22 @@ export default function CohortEditor() {
         const raw = await res.json();
         const cohortData: CohortData = {
           id: raw.id,
-          workshopId: raw.workshopId || '',
+          workshopId: raw.learnItemId || '',
           title: raw.title || '',
           description: raw.description || '',
           internalNotes: raw.internalNotes || '',
           status: raw.status || 'draft',
-          startDate: raw.startDate || '',
-          endDate: raw.endDate || '',
+          startDate: raw.startAt || '',
+          endDate: raw.endAt || '',
           timezone: raw.timezone || 'Australia/Sydney',
-          registrationOpens: raw.registrationOpens || '',
-          registrationCloses: raw.registrationCloses || '',
+          registrationOpens: raw.registrationOpensAt || '',
+          registrationCloses: raw.registrationClosesAt || '',
           price: raw.price || '',
           compareAtPrice: raw.compareAtPrice || '',
           earlyBirdPrice: raw.earlyBirdPrice || '',
-          earlyBirdEnds: raw.earlyBirdEnds || '',
+          earlyBirdEnds: raw.earlyBirdEndsAt || '',
           currency: raw.currency || 'AUD',
-          maxCapacity: raw.maxCapacity ?? null,
+          maxCapacity: raw.capacity ?? null,
           enrolledCount: raw.enrolledCount || 0,
           waitlistEnabled: !!raw.waitlistEnabled,
           waitlistCapacity: raw.waitlistCapacity ?? null,
@@ -556,7 +556,18 @@ export default function CohortEditor() {
       const method = cohortId ? 'PUT' : 'POST';
       const url = cohortId ? `${API_BASE}/cohorts/${cohortId}` : `${API_BASE}/cohorts`;
 
-      const payload: Record<string, any> = { ...data };
+      // The API uses the schema's column names
+      const { workshopId, startDate, endDate, registrationOpens, registrationCloses, earlyBirdEnds, maxCapacity, ...rest } = data;
+      const payload: Record<string, any> = {
+        ...rest,
+        learnItemId: workshopId || undefined,
+        startAt: startDate || null,
+        endAt: endDate || null,
+        registrationOpensAt: registrationOpens || null,
+        registrationClosesAt: registrationCloses || null,
+        earlyBirdEndsAt: earlyBirdEnds || null,
+        capacity: maxCapacity,
+      };
       delete payload.id;
       delete payload.enrolledCount;
       delete payload.waitlistCount;
@@ -9,6 +9,7 @@ import {
   ArrowRight,
   RefreshCw,
   Package,
+  PackageMinus,
   CalendarDays,
   CheckCircle,
   ClipboardList,
@@ -225,6 +226,7 @@ export default function Dashboard() {
   const [error, setError] = useState('');
   const [lastFetched, setLastFetched] = useState<Date | null>(null);
   const [refreshing, setRefreshing] = useState(false);
+  const [lowStockCount, setLowStockCount] = useState(0);
 
   // Task list state
   const [tasks, setTasks] = useState<DashboardTask[]>(loadTasks);
@@ -261,6 +263,16 @@ export default function Dashboard() {
         if (!res.ok) throw new Error('Failed to load dashboard');
         const json: DashboardOverview = await res.json();
         setData(json);
+
+        // Low stock shares the sidebar's badge counts
+        const badges = await fetch(`${API_BASE}/dashboard/badge-counts`, {
+          headers: { Authorization: `Bearer ${token}` },
+          signal,
+        });
+        if (badges.ok) {
+          const counts: Record<string, number> = await badges.json();
+          setLowStockCount(counts['/admin/inventory'] ?? 0);
+        }
         setError('');
         setLastFetched(new Date());
       } catch (err: any) {
@@ -481,6 +493,24 @@ export default function Dashboard() {
         </div>
       )}
 
+      {/* ─── Low Stock ─── */}
+      {lowStockCount > 0 && (
+        <Link
+          to="/admin/inventory?filter=reorder"
+          className="flex items-center gap-3 p-3 bg-white border border-stone-200 border-l-2 border-l-amber-400 rounded-lg hover:border-stone-300 transition"
+        >
+          <div className="w-7 h-7 rounded-md flex items-center justify-center bg-amber-100 text-amber-700">
+            <PackageMinus size={14} />
+          </div>
+          <span className="flex-1 text-sm text-stone-700">
+            <span className="font-semibold text-stone-900">{lowStockCount}</span>{' '}
+            {lowStockCount === 1 ? 'product is' : 'products are'} at or below the low-stock alert level
+          </span>
+          <span className="text-xs text-stone-500">Reorder</span>
+          <ArrowRight size={14} className="text-stone-400 flex-shrink-0" />
+        </Link>
+      )}
+
       {/* ─── Attention Needed (warnings) ─── */}
       {ops.warnings.length > 0 && (
         <div className="space-y-2">
@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { API_BASE, resolveImageUrl } from '../config/api';
 import {
@@ -13,6 +14,12 @@ import {
   Check,
   Edit3,
   X,
+  History,
+  ClipboardCheck,
+  Download,
+  Upload,
+  Bell,
+  Settings,
 } from 'lucide-react';
 
 // ---------------------------------------------------------------------------
@@ -21,7 +28,9 @@ import {
 
 type ProductType = 'physical' | 'digital' | 'wall-art';
 type ProductStatus = 'active' | 'draft' | 'archived';
-type StockFilter = 'all' | 'low' | 'out' | 'in';
+type StockFilter = 'all' | 'low' | 'out' | 'in' | 'reorder';
+
+const STOCK_FILTERS: StockFilter[] = ['all', 'low', 'out', 'in', 'reorder'];
 type SortOption = 'stock-asc' | 'stock-desc' | 'name' | 'newest';
 
 interface InventoryProduct {
@@ -35,6 +44,62 @@ interface InventoryProduct {
   trackInventory: boolean;
   continueSelling: boolean;
   availability: string;
+  variantCount: number;
+  reserved: number; // units held by open checkouts
+  lowStockThreshold: number | null; // null = shop default
+  needsReorder: boolean;
+}
+
+type MovementType = 'sale' | 'return' | 'adjustment' | 'restock' | 'damaged' | 'stocktake';
+
+interface StockMovement {
+  id: string;
+  type: MovementType;
+  quantityChange: number;
+  quantityAfter: number;
+  note: string | null;
+  orderId: string | null;
+  orderNumber: string | null;
+  variantId: string | null;
+  variantTitle: string | null;
+  userName: string | null;
+  createdAt: string;
+}
+
+interface StockReservation {
+  id: string;
+  quantity: number;
+  variantTitle: string | null;
+  expiresAt: string;
+}
+
+interface ProductVariant {
+  id: string;
+  title: string;
+  quantity: number;
+  lowStockThreshold: number | null;
+}
+
+interface InventorySettings {
+  lowStockThreshold: number;
+  lowStockDigest: boolean;
+}
+
+interface StocktakeRow {
+  row: number;
+  name: string;
+  variant: string | null;
+  expected: number | null;
+  counted: number | null;
+  difference: number;
+  status: 'match' | 'change' | 'error';
+  error: string | null;
+}
+
+interface StocktakeResult {
+  applied: boolean;
+  rows: StocktakeRow[];
+  summary: { counted: number; matched: number; changed: number; errors: number; unitsDifference: number };
 }
 
 interface InventoryStats {
@@ -42,6 +107,7 @@ interface InventoryStats {
   inStock: number;
   lowStock: number;
   outOfStock: number;
+  needsReorder: number;
   totalUnits: number;
 }
 
@@ -312,6 +378,13 @@ function InlineQuantityEditor({
 // Stock Adjustment Modal
 // ---------------------------------------------------------------------------
 
+const ADJUSTMENT_TYPES: { value: MovementType; label: string; direction: 1 | -1 | 0 }[] = [
+  { value: 'restock', label: 'Restock', direction: 1 },
+  { value: 'damaged', label: 'Damaged', direction: -1 },
+  { value: 'return', label: 'Return', direction: 1 },
+  { value: 'adjustment', label: 'Correction', direction: 0 },
+];
+
 function AdjustmentModal({
   product,
   accessToken,
@@ -323,11 +396,32 @@ function AdjustmentModal({
   onClose: () => void;
   onAdjusted: () => void;
 }) {
-  const [adjustment, setAdjustment] = useState<number>(0);
+  const [type, setType] = useState<MovementType>('restock');
+  const [units, setUnits] = useState<number>(0);
   const [reason, setReason] = useState('');
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [variantId, setVariantId] = useState('');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState('');
 
+  // Products with options are adjusted one variant at a time
+  useEffect(() => {
+    if (!product.variantCount) return;
+    fetch(`${API_BASE}/products/${product.id}/variants`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data) => {
+        setVariants(data.variants || []);
+        setVariantId(data.variants?.[0]?.id || '');
+      })
+      .catch(() => setError('Could not load variants.'));
+  }, [product.id, product.variantCount, accessToken]);
+
+  const direction = ADJUSTMENT_TYPES.find((t) => t.value === type)?.direction ?? 0;
+  // Restocks and returns add, damage removes; a correction takes the sign as entered
+  const adjustment = direction === 0 ? units : direction * Math.abs(units);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (adjustment === 0) {
@@ -343,7 +437,12 @@ function AdjustmentModal({
           'Content-Type': 'application/json',
           Authorization: `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({ adjustment, reason: reason.trim() || undefined }),
+        body: JSON.stringify({
+          adjustment,
+          type,
+          reason: reason.trim() || undefined,
+          variantId: variantId || undefined,
+        }),
       });
       if (!res.ok) {
         const data = await res.json().catch(() => ({}));
@@ -358,7 +457,9 @@ function AdjustmentModal({
     }
   };
 
-  const newQuantity = Math.max(0, product.quantity + adjustment);
+  const variant = variants.find((v) => v.id === variantId);
+  const currentQuantity = variant ? variant.quantity : product.quantity;
+  const newQuantity = Math.max(0, currentQuantity + adjustment);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
@@ -392,33 +493,72 @@ function AdjustmentModal({
             <div>
               <p className="text-sm font-medium text-stone-900">{product.name}</p>
               <p className="text-xs text-stone-500">
-                Current stock: <span className="font-medium">{product.quantity}</span>
+                Current stock: <span className="font-medium">{currentQuantity}</span>
               </p>
             </div>
           </div>
 
+          {/* Variant */}
+          {product.variantCount > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-1.5">Variant</label>
+              <select
+                value={variantId}
+                onChange={(e) => setVariantId(e.target.value)}
+                className="w-full border border-stone-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#8d3038]/30 focus:border-[#8d3038]"
+              >
+                {variants.map((v) => (
+                  <option key={v.id} value={v.id}>
+                    {v.title} ({v.quantity} in stock)
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Type */}
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1.5">Reason</label>
+            <div className="grid grid-cols-4 gap-1.5">
+              {ADJUSTMENT_TYPES.map((t) => (
+                <button
+                  key={t.value}
+                  type="button"
+                  onClick={() => setType(t.value)}
+                  className={`px-2 py-1.5 rounded-lg text-xs font-medium border transition ${
+                    type === t.value
+                      ? 'border-[#8d3038] bg-[#8d3038] text-white'
+                      : 'border-stone-200 text-stone-600 hover:bg-stone-50'
+                  }`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Adjustment */}
           <div>
             <label className="block text-sm font-medium text-stone-700 mb-1.5">
-              Adjustment
+              {direction > 0 ? 'Units added' : direction < 0 ? 'Units removed' : 'Adjustment'}
             </label>
             <div className="flex items-center gap-2">
               <button
                 type="button"
-                onClick={() => setAdjustment((a) => a - 1)}
+                onClick={() => setUnits((a) => (direction === 0 ? a - 1 : Math.max(0, a - 1)))}
                 className="w-9 h-9 rounded-lg bg-stone-100 hover:bg-stone-200 flex items-center justify-center transition"
               >
                 <Minus size={16} className="text-stone-600" />
               </button>
               <input
                 type="number"
-                value={adjustment}
-                onChange={(e) => setAdjustment(parseInt(e.target.value) || 0)}
+                value={units}
+                onChange={(e) => setUnits(parseInt(e.target.value) || 0)}
                 className="w-24 h-9 text-center text-sm border border-stone-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#8d3038]/30 focus:border-[#8d3038] tabular-nums [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
               />
               <button
                 type="button"
-                onClick={() => setAdjustment((a) => a + 1)}
+                onClick={() => setUnits((a) => a + 1)}
                 className="w-9 h-9 rounded-lg bg-stone-100 hover:bg-stone-200 flex items-center justify-center transition"
               >
                 <Plus size={16} className="text-stone-600" />
@@ -430,15 +570,15 @@ function AdjustmentModal({
             </div>
           </div>
 
-          {/* Reason */}
+          {/* Note */}
           <div>
             <label className="block text-sm font-medium text-stone-700 mb-1.5">
-              Reason <span className="text-stone-400 font-normal">(optional)</span>
+              Note <span className="text-stone-400 font-normal">(optional)</span>
             </label>
             <textarea
               value={reason}
               onChange={(e) => setReason(e.target.value)}
-              placeholder="e.g., Damaged, Restocked, Inventory count..."
+              placeholder="e.g., Clasp broke in the studio, New batch from the kiln..."
               rows={3}
               className="w-full border border-stone-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#8d3038]/30 focus:border-[#8d3038] resize-none"
             />
@@ -459,7 +599,7 @@ function AdjustmentModal({
             </button>
             <button
               type="submit"
-              disabled={saving || adjustment === 0}
+              disabled={saving || adjustment === 0 || (product.variantCount > 0 && !variantId)}
               className="px-4 py-2 text-sm font-medium rounded-lg bg-[#8d3038] hover:bg-[#6b2228] text-white transition disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center gap-2"
             >
               {saving && <Loader2 size={14} className="animate-spin" />}
@@ -472,12 +612,719 @@ function AdjustmentModal({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Low-stock thresholds
+// ---------------------------------------------------------------------------
+
+/** Blank means "use the fallback"; anything else must be a whole number. */
+function thresholdInput(value: string): number | null {
+  return value.trim() === '' ? null : Math.max(0, parseInt(value) || 0);
+}
+
+function ThresholdModal({
+  product,
+  defaultThreshold,
+  accessToken,
+  onClose,
+  onSaved,
+}: {
+  product: InventoryProduct;
+  defaultThreshold: number;
+  accessToken: string | null;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [threshold, setThreshold] = useState(product.lowStockThreshold?.toString() ?? '');
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [variantThresholds, setVariantThresholds] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!product.variantCount) return;
+    fetch(`${API_BASE}/products/${product.id}/variants`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data) => {
+        const loaded: ProductVariant[] = data.variants || [];
+        setVariants(loaded);
+        setVariantThresholds(
+          Object.fromEntries(loaded.map((v) => [v.id, v.lowStockThreshold?.toString() ?? '']))
+        );
+      })
+      .catch(() => setError('Could not load variants.'));
+  }, [product.id, product.variantCount, accessToken]);
+
+  const productThreshold = thresholdInput(threshold) ?? defaultThreshold;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch(`${API_BASE}/inventory/${product.id}/threshold`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          lowStockThreshold: thresholdInput(threshold),
+          variants: Object.fromEntries(
+            Object.entries(variantThresholds).map(([id, value]) => [id, thresholdInput(value)])
+          ),
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Could not save alert level');
+      }
+      onSaved();
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Could not save alert level.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-stone-200">
+          <h3 className="font-serif text-lg font-semibold text-stone-900">Low-Stock Alert</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-stone-100 rounded-lg transition"
+          >
+            <X size={18} className="text-stone-400" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="px-6 py-5 space-y-4">
+          <p className="text-sm text-stone-500">
+            <span className="font-medium text-stone-700">{product.name}</span> needs reordering once
+            stock falls to this level. Leave blank to use the shop default ({defaultThreshold}); 0 turns
+            alerts off.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1.5">
+              {product.variantCount > 0 ? 'Alert level for every variant' : 'Alert level'}
+            </label>
+            <input
+              type="number"
+              min={0}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              placeholder={`Shop default (${defaultThreshold})`}
+              className="w-full border border-stone-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#8d3038]/30 focus:border-[#8d3038]"
+            />
+          </div>
+
+          {variants.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-stone-700 mb-1.5">
+                Per variant <span className="text-stone-400 font-normal">(optional)</span>
+              </label>
+              <div className="border border-stone-200 rounded-lg divide-y divide-stone-100 max-h-64 overflow-y-auto">
+                {variants.map((v) => (
+                  <div key={v.id} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-stone-800 truncate">{v.title}</p>
+                      <p className="text-xs text-stone-400">{v.quantity} in stock</p>
+                    </div>
+                    <input
+                      type="number"
+                      min={0}
+                      value={variantThresholds[v.id] ?? ''}
+                      onChange={(e) =>
+                        setVariantThresholds((prev) => ({ ...prev, [v.id]: e.target.value }))
+                      }
+                      placeholder={String(productThreshold)}
+                      className="w-20 border border-stone-200 rounded-lg px-2 py-1.5 text-sm text-center focus:outline-none focus:ring-2 focus:ring-[#8d3038]/30 focus:border-[#8d3038]"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-stone-600 hover:text-stone-800 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium rounded-lg bg-[#8d3038] hover:bg-[#6b2228] text-white transition disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center gap-2"
+            >
+              {saving && <Loader2 size={14} className="animate-spin" />}
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function AlertSettingsModal({
+  settings,
+  accessToken,
+  onClose,
+  onSaved,
+}: {
+  settings: InventorySettings;
+  accessToken: string | null;
+  onClose: () => void;
+  onSaved: (settings: InventorySettings) => void;
+}) {
+  const [threshold, setThreshold] = useState(settings.lowStockThreshold);
+  const [digest, setDigest] = useState(settings.lowStockDigest);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    const next = { lowStockThreshold: Math.max(0, threshold || 0), lowStockDigest: digest };
+    try {
+      const res = await fetch(`${API_BASE}/settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ inventory: next }),
+      });
+      if (!res.ok) throw new Error('Could not save alert settings');
+      onSaved(next);
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Could not save alert settings.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-stone-200">
+          <h3 className="font-serif text-lg font-semibold text-stone-900">Low-Stock Alerts</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 hover:bg-stone-100 rounded-lg transition"
+          >
+            <X size={18} className="text-stone-400" />
+          </button>
+        </div>
+
+        {/* Body */}
+        <form onSubmit={handleSubmit} className="px-6 py-5 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-stone-700 mb-1.5">Shop default alert level</label>
+            <input
+              type="number"
+              min={0}
+              value={threshold}
+              onChange={(e) => setThreshold(parseInt(e.target.value) || 0)}
+              className="w-24 border border-stone-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#8d3038]/30 focus:border-[#8d3038]"
+            />
+            <p className="text-xs text-stone-400 mt-1">
+              Used by products without their own level. Keep it at 0 if most pieces are one of a kind,
+              and set levels only on what you restock.
+            </p>
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-stone-700">
+            <input
+              type="checkbox"
+              checked={digest}
+              onChange={(e) => setDigest(e.target.checked)}
+              className="mt-0.5 rounded border-stone-300"
+            />
+            <span>
+              Email me a daily digest
+              <span className="block text-xs text-stone-400">
+                Sent each morning when anything has run low or sold out since the day before.
+              </span>
+            </span>
+          </label>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-stone-600 hover:text-stone-800 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm font-medium rounded-lg bg-[#8d3038] hover:bg-[#6b2228] text-white transition disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center gap-2"
+            >
+              {saving && <Loader2 size={14} className="animate-spin" />}
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Stock History Panel
+// ---------------------------------------------------------------------------
+
+const MOVEMENT_STYLES: Record<MovementType, { label: string; className: string }> = {
+  sale: { label: 'Sale', className: 'bg-blue-100 text-blue-700' },
+  return: { label: 'Return', className: 'bg-purple-100 text-purple-700' },
+  adjustment: { label: 'Adjustment', className: 'bg-stone-100 text-stone-600' },
+  restock: { label: 'Restock', className: 'bg-green-100 text-green-700' },
+  damaged: { label: 'Damaged', className: 'bg-red-100 text-red-700' },
+  stocktake: { label: 'Stocktake', className: 'bg-amber-100 text-amber-700' },
+};
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function StockHistoryPanel({
+  product,
+  accessToken,
+  onClose,
+}: {
+  product: InventoryProduct;
+  accessToken: string | null;
+  onClose: () => void;
+}) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [reservations, setReservations] = useState<StockReservation[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    fetch(`${API_BASE}/inventory/${product.id}/movements?page=${page}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then((data) => {
+        setMovements((prev) => (page === 1 ? data.movements : [...prev, ...data.movements]));
+        setReservations(data.reservations || []);
+        setTotalPages(data.pagination?.totalPages || 1);
+      })
+      .catch(() => setError('Could not load stock history.'))
+      .finally(() => setLoading(false));
+  }, [product.id, page, accessToken]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+
+      <div className="relative bg-white w-full max-w-lg shadow-xl overflow-y-auto">
+        <div className="sticky top-0 z-10 bg-white border-b border-stone-200 px-6 py-4 flex items-center justify-between">
+          <div>
+            <h2 className="font-serif text-lg font-semibold text-stone-900">Stock History</h2>
+            <p className="text-xs text-stone-500 mt-0.5">{product.name}</p>
+          </div>
+          <button onClick={onClose} className="p-1.5 hover:bg-stone-100 rounded transition">
+            <X size={18} className="text-stone-500" />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-5">
+          {reservations.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-xs font-medium text-amber-800 uppercase tracking-wider mb-1.5">Held in checkout</p>
+              {reservations.map((r) => (
+                <p key={r.id} className="text-sm text-amber-900">
+                  {r.quantity} {r.variantTitle ? `× ${r.variantTitle}` : r.quantity === 1 ? 'unit' : 'units'}
+                  <span className="text-amber-700"> until {formatDateTime(r.expiresAt)}</span>
+                </p>
+              ))}
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {!loading && movements.length === 0 && !error ? (
+            <div className="py-10 text-center">
+              <History size={24} className="text-stone-300 mx-auto mb-2" />
+              <p className="text-sm text-stone-500">No stock changes recorded yet.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-stone-100">
+              {movements.map((m) => {
+                const style = MOVEMENT_STYLES[m.type] || MOVEMENT_STYLES.adjustment;
+                return (
+                  <li key={m.id} className="py-3 flex items-start gap-3">
+                    <span className={`text-[11px] font-medium px-2 py-0.5 rounded-full shrink-0 ${style.className}`}>
+                      {style.label}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-stone-800">
+                        {m.note || style.label}
+                        {m.variantTitle && <span className="text-stone-500"> · {m.variantTitle}</span>}
+                      </p>
+                      <p className="text-xs text-stone-400 mt-0.5">
+                        {formatDateTime(m.createdAt)}
+                        {m.userName && ` · ${m.userName}`}
+                        {m.orderNumber && ` · ${m.orderNumber}`}
+                      </p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className={`text-sm font-medium tabular-nums ${m.quantityChange > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                        {m.quantityChange > 0 ? `+${m.quantityChange}` : m.quantityChange}
+                      </p>
+                      <p className="text-xs text-stone-400 tabular-nums">→ {m.quantityAfter}</p>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {loading && (
+            <div className="py-4 text-center">
+              <Loader2 size={18} className="animate-spin text-stone-400 mx-auto" />
+            </div>
+          )}
+
+          {!loading && page < totalPages && (
+            <button
+              onClick={() => setPage((p) => p + 1)}
+              className="w-full text-sm font-medium py-2 rounded-lg border border-stone-200 text-stone-600 hover:bg-stone-50 transition"
+            >
+              Load older changes
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Stocktake Import
+// ---------------------------------------------------------------------------
+
+/** Parse a count sheet into rows keyed by the lower-cased header. */
+function parseStocktakeCsv(text: string): Record<string, string>[] {
+  const parseRow = (line: string): string[] => {
+    const result: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    for (const char of line) {
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (char === ',' && !inQuotes) {
+        result.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    result.push(current.trim());
+    return result;
+  };
+
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length === 0) return [];
+
+  const headers = parseRow(lines[0]).map((h) => h.toLowerCase());
+  return lines.slice(1).map((line) => {
+    const cells = parseRow(line);
+    return Object.fromEntries(headers.map((h, i) => [h, cells[i] ?? '']));
+  });
+}
+
+function StocktakeModal({
+  accessToken,
+  onClose,
+  onApplied,
+}: {
+  accessToken: string | null;
+  onClose: () => void;
+  onApplied: (changed: number) => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [rows, setRows] = useState<Record<string, string>[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [note, setNote] = useState('');
+  const [preview, setPreview] = useState<StocktakeResult | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const submit = async (sheet: Record<string, string>[], apply: boolean) => {
+    setWorking(true);
+    setError('');
+    try {
+      const res = await fetch(`${API_BASE}/inventory/stocktake`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          // Rows left blank weren't counted, so they're left out
+          rows: sheet
+            .map((r, i) => ({
+              row: i + 2,
+              product: r.product || r.slug || r.id || r.name,
+              variant: r.variant,
+              sku: r.sku,
+              counted: r.counted ?? r.quantity ?? r.count ?? '',
+            }))
+            .filter((r) => r.counted.trim() !== ''),
+          note: note.trim() || undefined,
+          apply,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Stocktake failed');
+      if (apply) {
+        onApplied(data.summary.changed);
+        onClose();
+      } else {
+        setPreview(data);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Stocktake failed.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFile = (file: File) => {
+    if (!file.name.toLowerCase().endsWith('.csv')) {
+      setError('Please upload a CSV file.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      const parsed = parseStocktakeCsv(String(reader.result || ''));
+      if (parsed.length === 0) {
+        setError('The CSV file appears to be empty.');
+        return;
+      }
+      setRows(parsed);
+      setFileName(file.name);
+      submit(parsed, false);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleDownloadSheet = async () => {
+    try {
+      const res = await fetch(`${API_BASE}/inventory/stocktake/export`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!res.ok) throw new Error('Download failed');
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `stocktake-${new Date().toISOString().slice(0, 10)}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.message || 'Download failed.');
+    }
+  };
+
+  const shownRows = preview ? preview.rows.filter((r) => r.status !== 'match') : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-stone-200">
+          <h3 className="font-serif text-lg font-semibold text-stone-900">Stocktake</h3>
+          <button onClick={onClose} className="p-1.5 hover:bg-stone-100 rounded-lg transition">
+            <X size={18} className="text-stone-400" />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-4 overflow-y-auto">
+          <p className="text-sm text-stone-600">
+            Download the count sheet, fill in the <span className="font-medium">counted</span> column and
+            upload it. You'll see every difference before anything changes. Products left off the sheet
+            aren't touched.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={handleDownloadSheet}
+              className="inline-flex items-center gap-1.5 text-sm font-medium px-3 py-2 rounded-lg border border-stone-200 text-stone-700 hover:bg-stone-50 transition"
+            >
+              <Download size={14} />
+              Download count sheet
+            </button>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="inline-flex items-center gap-1.5 text-sm font-medium px-3 py-2 rounded-lg border border-stone-200 text-stone-700 hover:bg-stone-50 transition"
+            >
+              <Upload size={14} />
+              {fileName || 'Upload counts'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {working && !preview && (
+            <div className="py-4 text-center">
+              <Loader2 size={18} className="animate-spin text-stone-400 mx-auto" />
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <div className="grid grid-cols-4 gap-3 text-center">
+                {[
+                  { label: 'Counted', value: preview.summary.counted },
+                  { label: 'Match', value: preview.summary.matched },
+                  { label: 'Differ', value: preview.summary.changed },
+                  { label: 'Problems', value: preview.summary.errors },
+                ].map((stat) => (
+                  <div key={stat.label} className="p-2 bg-stone-50 rounded-lg">
+                    <p className="text-lg font-semibold text-stone-900 tabular-nums">{stat.value}</p>
+                    <p className="text-[11px] text-stone-500 uppercase tracking-wider">{stat.label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {shownRows.length > 0 ? (
+                <div className="border border-stone-200 rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-stone-50/80">
+                        {['Row', 'Product', 'Expected', 'Counted', 'Difference'].map((h) => (
+                          <th key={h} className="px-3 py-2 text-left text-[11px] font-medium text-stone-500 uppercase tracking-wider">
+                            {h}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-stone-100">
+                      {shownRows.map((r) => (
+                        <tr key={r.row} className={r.status === 'error' ? 'bg-red-50/60' : ''}>
+                          <td className="px-3 py-2 text-stone-400 tabular-nums">{r.row}</td>
+                          <td className="px-3 py-2 text-stone-800">
+                            {r.name || '—'}
+                            {r.variant && <span className="text-stone-500"> · {r.variant}</span>}
+                            {r.error && <p className="text-xs text-red-600">{r.error}</p>}
+                          </td>
+                          <td className="px-3 py-2 tabular-nums text-stone-600">{r.expected ?? '—'}</td>
+                          <td className="px-3 py-2 tabular-nums text-stone-600">{r.counted ?? '—'}</td>
+                          <td className={`px-3 py-2 tabular-nums font-medium ${r.difference > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                            {r.status === 'change' ? (r.difference > 0 ? `+${r.difference}` : r.difference) : ''}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-green-700 flex items-center gap-1.5">
+                  <CheckCircle size={14} />
+                  Every count matches the stock on record.
+                </p>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-stone-700 mb-1.5">
+                  Note <span className="text-stone-400 font-normal">(optional)</span>
+                </label>
+                <input
+                  type="text"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g., End of year count"
+                  className="w-full border border-stone-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[#8d3038]/30 focus:border-[#8d3038]"
+                />
+              </div>
+            </>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-6 py-4 border-t border-stone-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-stone-600 hover:text-stone-800 transition"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => submit(rows, true)}
+            disabled={working || !preview || preview.summary.changed === 0}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-[#8d3038] hover:bg-[#6b2228] text-white transition disabled:opacity-50 disabled:cursor-not-allowed inline-flex items-center gap-2"
+          >
+            {working && preview && <Loader2 size={14} className="animate-spin" />}
+            {preview?.summary.changed
+              ? `Update ${preview.summary.changed} count${preview.summary.changed === 1 ? '' : 's'}`
+              : 'Update counts'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main Component
 // ---------------------------------------------------------------------------
 
 export default function InventoryManager() {
   const { accessToken } = useAuth();
+  const [searchParams] = useSearchParams();
 
   // Data
   const [products, setProducts] = useState<InventoryProduct[]>([]);
@@ -486,20 +1333,29 @@ export default function InventoryManager() {
     inStock: 0,
     lowStock: 0,
     outOfStock: 0,
+    needsReorder: 0,
     totalUnits: 0,
   });
+  const [settings, setSettings] = useState<InventorySettings>({ lowStockThreshold: 0, lowStockDigest: true });
   const [loading, setLoading] = useState(true);
 
-  // Filters
-  const [stockFilter, setStockFilter] = useState<StockFilter>('all');
+  // Filters (the dashboard links straight to ?filter=reorder)
+  const [stockFilter, setStockFilter] = useState<StockFilter>(() => {
+    const initial = searchParams.get('filter') as StockFilter;
+    return STOCK_FILTERS.includes(initial) ? initial : 'all';
+  });
   const [typeFilter, setTypeFilter] = useState<string>('all');
   const [sortOption, setSortOption] = useState<SortOption>('stock-asc');
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedSearch, setDebouncedSearch] = useState('');
   const searchTimeout = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
 
-  // Modal
+  // Modals
   const [adjustProduct, setAdjustProduct] = useState<InventoryProduct | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<InventoryProduct | null>(null);
+  const [stocktakeOpen, setStocktakeOpen] = useState(false);
+  const [thresholdProduct, setThresholdProduct] = useState<InventoryProduct | null>(null);
+  const [alertSettingsOpen, setAlertSettingsOpen] = useState(false);
 
   // Toast
   const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
@@ -548,9 +1404,11 @@ export default function InventoryManager() {
           inStock: 0,
           lowStock: 0,
           outOfStock: 0,
+          needsReorder: 0,
           totalUnits: 0,
         }
       );
+      if (data.settings) setSettings(data.settings);
     } catch {
       showToast('error', 'Could not load inventory. Please try again.');
     } finally {
@@ -583,6 +1441,7 @@ export default function InventoryManager() {
 
   const getRowBg = (product: InventoryProduct) => {
     if (product.quantity === 0) return 'bg-red-50/60';
+    if (product.needsReorder) return 'bg-amber-50/50';
     return '';
   };
 
@@ -591,11 +1450,29 @@ export default function InventoryManager() {
   return (
     <div>
       {/* Header */}
-      <div className="mb-6">
-        <h1 className="font-serif text-xl font-semibold text-stone-900">Inventory</h1>
-        <p className="text-sm text-stone-500 mt-0.5">
-          {stats.totalUnits} total units across {stats.totalTracked} tracked products
-        </p>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="font-serif text-xl font-semibold text-stone-900">Inventory</h1>
+          <p className="text-sm text-stone-500 mt-0.5">
+            {stats.totalUnits} total units across {stats.totalTracked} tracked products
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setAlertSettingsOpen(true)}
+            className="inline-flex items-center gap-1.5 text-sm font-medium px-4 h-9 rounded-md border border-stone-200 bg-white text-stone-700 hover:bg-stone-50 transition"
+          >
+            <Settings size={16} />
+            Alerts
+          </button>
+          <button
+            onClick={() => setStocktakeOpen(true)}
+            className="inline-flex items-center gap-1.5 text-sm font-medium px-4 h-9 rounded-md border border-stone-200 bg-white text-stone-700 hover:bg-stone-50 transition"
+          >
+            <ClipboardCheck size={16} />
+            Stocktake
+          </button>
+        </div>
       </div>
 
       {/* Stats cards */}
@@ -618,6 +1495,15 @@ export default function InventoryManager() {
           active={stockFilter === 'in'}
           onClick={() => handleStatClick('in')}
         />
+        <StatCard
+          icon={AlertTriangle}
+          label="Needs Reorder"
+          value={stats.needsReorder}
+          accent="bg-amber-100"
+          iconColor="text-amber-600"
+          active={stockFilter === 'reorder'}
+          onClick={() => handleStatClick('reorder')}
+        />
         <StatCard
           icon={XCircle}
           label="Out of Stock"
@@ -651,6 +1537,19 @@ export default function InventoryManager() {
           )}
         </div>
 
+        {/* Stock level dropdown */}
+        <select
+          value={stockFilter}
+          onChange={(e) => setStockFilter(e.target.value as StockFilter)}
+          className="bg-white border border-stone-200 rounded-md px-3 py-2 text-sm text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-400"
+        >
+          <option value="all">All Stock Levels</option>
+          <option value="in">In Stock</option>
+          <option value="low">Low Stock</option>
+          <option value="out">Out of Stock</option>
+          <option value="reorder">Needs Reorder</option>
+        </select>
+
         {/* Product type dropdown */}
         <select
           value={typeFilter}
@@ -758,6 +1657,17 @@ export default function InventoryManager() {
                     {/* Stock Level */}
                     <td className="px-4 py-3">
                       <StockLevelBar quantity={product.quantity} />
+                      {product.reserved > 0 && (
+                        <p className="text-[11px] text-amber-700 mt-1">
+                          {product.reserved} held in checkout
+                        </p>
+                      )}
+                      {product.needsReorder && (
+                        <p className="text-[11px] font-medium text-amber-700 mt-1 inline-flex items-center gap-1">
+                          <AlertTriangle size={11} />
+                          {product.variantCount > 0 && product.quantity > 0 ? 'Variant needs reorder' : 'Needs reorder'}
+                        </p>
+                      )}
                     </td>
 
                     {/* Availability */}
@@ -768,12 +1678,18 @@ export default function InventoryManager() {
                     {/* Actions */}
                     <td className="px-4 py-3">
                       <div className="flex items-center gap-3">
-                        <InlineQuantityEditor
-                          productId={product.id}
-                          currentQuantity={product.quantity}
-                          accessToken={accessToken}
-                          onSaved={(newQty) => handleInlineSave(product.id, newQty)}
-                        />
+                        {product.variantCount > 0 ? (
+                          <span className="text-xs text-stone-400" title="Stock is kept per variant">
+                            {product.variantCount} variants
+                          </span>
+                        ) : (
+                          <InlineQuantityEditor
+                            productId={product.id}
+                            currentQuantity={product.quantity}
+                            accessToken={accessToken}
+                            onSaved={(newQty) => handleInlineSave(product.id, newQty)}
+                          />
+                        )}
                         <button
                           onClick={(e) => {
                             e.stopPropagation();
@@ -783,6 +1699,29 @@ export default function InventoryManager() {
                         >
                           Adjust
                         </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setHistoryProduct(product);
+                          }}
+                          className="p-1 rounded text-stone-400 hover:text-stone-700 hover:bg-stone-100 transition"
+                          title="Stock history"
+                        >
+                          <History size={14} />
+                        </button>
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setThresholdProduct(product);
+                          }}
+                          className="inline-flex items-center gap-1 p-1 rounded text-stone-400 hover:text-stone-700 hover:bg-stone-100 transition"
+                          title="Low-stock alert level"
+                        >
+                          <Bell size={14} />
+                          <span className="text-[11px] tabular-nums">
+                            {product.lowStockThreshold ?? settings.lowStockThreshold}
+                          </span>
+                        </button>
                       </div>
                     </td>
                   </tr>
@@ -806,6 +1745,53 @@ export default function InventoryManager() {
         />
       )}
 
+      {/* Stock History Panel */}
+      {historyProduct && (
+        <StockHistoryPanel
+          product={historyProduct}
+          accessToken={accessToken}
+          onClose={() => setHistoryProduct(null)}
+        />
+      )}
+
+      {/* Low-Stock Alert Modals */}
+      {thresholdProduct && (
+        <ThresholdModal
+          product={thresholdProduct}
+          defaultThreshold={settings.lowStockThreshold}
+          accessToken={accessToken}
+          onClose={() => setThresholdProduct(null)}
+          onSaved={() => {
+            fetchInventory();
+            showToast('success', `Alert level saved for "${thresholdProduct.name}".`);
+          }}
+        />
+      )}
+      {alertSettingsOpen && (
+        <AlertSettingsModal
+          settings={settings}
+          accessToken={accessToken}
+          onClose={() => setAlertSettingsOpen(false)}
+          onSaved={(next) => {
+            setSettings(next);
+            fetchInventory();
+            showToast('success', 'Low-stock alert settings saved.');
+          }}
+        />
+      )}
+
+      {/* Stocktake Modal */}
+      {stocktakeOpen && (
+        <StocktakeModal
+          accessToken={accessToken}
+          onClose={() => setStocktakeOpen(false)}
+          onApplied={(changed) => {
+            fetchInventory();
+            showToast('success', `Stocktake saved: ${changed} count${changed === 1 ? '' : 's'} updated.`);
+          }}
+        />
+      )}
+
       {/* Toast */}
       {toast && (
         <div className="fixed bottom-6 right-6 z-50 animate-in slide-in-from-bottom-2">
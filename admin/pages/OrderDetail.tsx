@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { API_BASE, resolveImageUrl } from '../config/api';
 import {
@@ -12,11 +12,15 @@ import {
   CreditCard,
   MapPin,
   Phone,
+  Mail,
   Save,
   Loader2,
   ExternalLink,
   StickyNote,
   CircleDot,
+  FileText,
+  RotateCcw,
+  X,
 } from 'lucide-react';
 
 // ---------------------------------------------------------------------------
@@ -24,7 +28,7 @@ import {
 // ---------------------------------------------------------------------------
 
 type OrderStatus = 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
-type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded';
+type PaymentStatus = 'pending' | 'paid' | 'failed' | 'disputed' | 'partially_refunded' | 'refunded';
 
 interface Order {
   id: string;
@@ -33,6 +37,14 @@ interface Order {
   subtotal: string;
   shipping: string;
   tax: string;
+  taxName: string | null;
+  taxRate: string;
+  taxInclusive: boolean;
+  giftCardCode: string | null;
+  giftCardAmount: string;
+  discountCode: string | null;
+  discountAmount: string;
+  promotions: { id: string; name: string; amount: string }[] | null;
   total: string;
   currency: string;
   shippingFirstName: string;
@@ -44,6 +56,8 @@ interface Order {
   shippingCountry: string;
   shippingPhone: string | null;
   paymentStatus: PaymentStatus;
+  refundedAmount: string;
+  giftCardRefundedAmount: string;
   stripePaymentIntentId: string | null;
   stripeCheckoutSessionId: string | null;
   trackingNumber: string | null;
@@ -54,14 +68,51 @@ interface Order {
   shippedAt: string | null;
   deliveredAt: string | null;
   cancelledAt: string | null;
+  refundedAt: string | null;
 }
 
 interface OrderItem {
   id: string;
   productName: string;
+  variantTitle: string | null;
   productImage: string | null;
   price: string;
   quantity: number;
+  tax: string;
+  refundedQuantity: number;
+  itemType: 'product' | 'coaching' | 'learn' | 'cohort';
+  itemId: string | null;
+}
+
+// Where to manage what a coaching, course or workshop line was for
+const SERVICE_ITEM_LINKS: Record<string, { label: string; href: (id: string) => string }> = {
+  coaching: { label: 'Coaching booking', href: () => '/admin/bookings' },
+  learn: { label: 'Course enrolment', href: (id) => `/admin/workshops/${id}` },
+  cohort: { label: 'Workshop seat', href: (id) => `/admin/cohorts/${id}` },
+};
+
+type RefundReason = 'requested_by_customer' | 'damaged' | 'wrong_item' | 'not_as_described' | 'duplicate' | 'fraudulent' | 'other';
+
+interface OrderCustomer {
+  id: string;
+  email: string;
+  firstName: string;
+  lastName: string;
+  authProvider: 'email' | 'google' | 'none';
+}
+
+interface Refund {
+  id: string;
+  amount: string;
+  giftCardAmount: string;
+  reason: RefundReason;
+  note: string | null;
+  status: 'pending' | 'succeeded' | 'failed' | 'canceled';
+  source: 'admin' | 'stripe';
+  restocked: boolean;
+  createdBy: string | null;
+  createdAt: string;
+  items: Array<{ orderItemId: string; quantity: number; amount: string }>;
 }
 
 // ---------------------------------------------------------------------------
@@ -106,9 +157,21 @@ const PAYMENT_STATUS_CONFIG: Record<PaymentStatus, { label: string; bg: string;
   pending: { label: 'Payment Pending', bg: 'bg-stone-100', text: 'text-stone-700' },
   paid: { label: 'Paid', bg: 'bg-green-100', text: 'text-green-700' },
   failed: { label: 'Payment Failed', bg: 'bg-red-100', text: 'text-red-700' },
+  disputed: { label: 'Disputed', bg: 'bg-amber-100', text: 'text-amber-700' },
+  partially_refunded: { label: 'Partially Refunded', bg: 'bg-purple-100', text: 'text-purple-700' },
   refunded: { label: 'Refunded', bg: 'bg-purple-100', text: 'text-purple-700' },
 };
 
+const REFUND_REASON_LABELS: Record<RefundReason, string> = {
+  requested_by_customer: 'Customer request',
+  damaged: 'Damaged',
+  wrong_item: 'Wrong item sent',
+  not_as_described: 'Not as described',
+  duplicate: 'Duplicate charge',
+  fraudulent: 'Fraudulent',
+  other: 'Other',
+};
+
 // ---------------------------------------------------------------------------
 // Toast Component
 // ---------------------------------------------------------------------------
@@ -176,6 +239,9 @@ export default function OrderDetail() {
 
   const [order, setOrder] = useState<Order | null>(null);
   const [items, setItems] = useState<OrderItem[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [customer, setCustomer] = useState<OrderCustomer | null>(null);
+  const [showRefund, setShowRefund] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -219,6 +285,8 @@ export default function OrderDetail() {
       const data = await res.json();
       setOrder(data.order);
       setItems(data.items || []);
+      setRefunds(data.refunds || []);
+      setCustomer(data.customer || null);
       setTrackingNumber(data.order.trackingNumber || '');
       setTrackingUrl(data.order.trackingUrl || '');
       setNotes(data.order.notes || '');
@@ -320,6 +388,55 @@ export default function OrderDetail() {
     }
   };
 
+  // -------------------------------------------------------------------------
+  // Refund
+  // -------------------------------------------------------------------------
+
+  const submitRefund = async (payload: RefundPayload) => {
+    if (!id || !accessToken) return;
+    const res = await fetch(`${API_BASE}/orders/${id}/refunds`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify(payload),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to issue refund');
+    }
+    addToast('Refund issued', 'success');
+    setShowRefund(false);
+    await fetchOrder();
+  };
+
+  // -------------------------------------------------------------------------
+  // Tax invoice
+  // -------------------------------------------------------------------------
+
+  const openInvoice = async () => {
+    if (!id || !accessToken) return;
+    // Open the window synchronously so popup blockers allow it
+    const invoiceWindow = window.open('', '_blank');
+    try {
+      const res = await fetch(`${API_BASE}/orders/${id}/invoice`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!res.ok) throw new Error('Failed to generate invoice');
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      if (invoiceWindow) {
+        invoiceWindow.location.href = url;
+      } else {
+        window.open(url, '_blank');
+      }
+    } catch (err: any) {
+      invoiceWindow?.close();
+      addToast(err.message || 'Failed to generate invoice', 'error');
+    }
+  };
+
   // -------------------------------------------------------------------------
   // Loading / Error states
   // -------------------------------------------------------------------------
@@ -359,6 +476,14 @@ export default function OrderDetail() {
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6">
       <ToastContainer toasts={toasts} />
+      {showRefund && (
+        <RefundModal
+          order={order}
+          items={items}
+          onClose={() => setShowRefund(false)}
+          onSubmit={submitRefund}
+        />
+      )}
 
       {/* Back navigation */}
       <button
@@ -378,9 +503,18 @@ export default function OrderDetail() {
           <StatusBadge status={order.status} />
           <PaymentBadge status={order.paymentStatus} />
         </div>
-        <p className="text-sm text-stone-500">
-          Placed on {formatDateTime(order.createdAt)}
-        </p>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-stone-500">
+            Placed on {formatDateTime(order.createdAt)}
+          </p>
+          <button
+            onClick={openInvoice}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-stone-700 bg-white border border-stone-200 rounded-lg hover:bg-stone-50 transition-colors"
+          >
+            <FileText className="w-4 h-4" />
+            Tax Invoice
+          </button>
+        </div>
       </div>
 
       {/* Two-column layout */}
@@ -417,8 +551,21 @@ export default function OrderDetail() {
                   {/* Name */}
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium text-stone-800 truncate">{item.productName}</p>
+                    {item.variantTitle && (
+                      <p className="text-xs text-stone-500 truncate">{item.variantTitle}</p>
+                    )}
+                    {item.itemId && SERVICE_ITEM_LINKS[item.itemType] && (
+                      <Link
+                        to={SERVICE_ITEM_LINKS[item.itemType].href(item.itemId)}
+                        className="text-xs text-clay hover:underline"
+                      >
+                        {SERVICE_ITEM_LINKS[item.itemType].label}
+                      </Link>
+                    )}
                     <p className="text-xs text-stone-500">
                       {formatCurrency(item.price, currency)} x {item.quantity}
+                      {item.refundedQuantity > 0 && <span className="text-purple-600"> · {item.refundedQuantity} refunded</span>}
+                      {parseFloat(item.tax) > 0 && ` · ${order.taxInclusive ? 'incl.' : '+'} ${order.taxName || 'tax'} ${formatCurrency(item.tax, currency)}`}
                     </p>
                   </div>
 
@@ -436,21 +583,116 @@ export default function OrderDetail() {
                 <span>Subtotal</span>
                 <span>{formatCurrency(order.subtotal, currency)}</span>
               </div>
+              {(order.promotions || []).map(promotion => (
+                <div key={promotion.id} className="flex justify-between text-sm text-stone-600">
+                  <span>{promotion.name}</span>
+                  <span>-{formatCurrency(promotion.amount, currency)}</span>
+                </div>
+              ))}
+              {parseFloat(order.discountAmount) > 0 && (
+                <div className="flex justify-between text-sm text-stone-600">
+                  <span>Discount {order.discountCode && <span className="font-mono">{order.discountCode}</span>}</span>
+                  <span>-{formatCurrency(order.discountAmount, currency)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm text-stone-600">
                 <span>Shipping</span>
                 <span>{formatCurrency(order.shipping, currency)}</span>
               </div>
               <div className="flex justify-between text-sm text-stone-600">
-                <span>Tax</span>
+                <span>
+                  {order.taxName || 'Tax'}
+                  {parseFloat(order.taxRate) > 0 && ` (${parseFloat(order.taxRate)}%${order.taxInclusive ? ', included' : ''})`}
+                </span>
                 <span>{formatCurrency(order.tax, currency)}</span>
               </div>
+              {parseFloat(order.giftCardAmount) > 0 && (
+                <div className="flex justify-between text-sm text-stone-600">
+                  <span>Gift card <span className="font-mono">{order.giftCardCode}</span></span>
+                  <span>-{formatCurrency(order.giftCardAmount, currency)}</span>
+                </div>
+              )}
               <div className="flex justify-between text-sm font-bold text-stone-900 pt-2 border-t border-stone-100">
                 <span>Total</span>
                 <span>{formatCurrency(order.total, currency)}</span>
               </div>
+              {parseFloat(order.giftCardRefundedAmount || '0') > 0 && (
+                <div className="flex justify-between text-sm text-purple-700">
+                  <span>Returned to gift card</span>
+                  <span>{formatCurrency(order.giftCardRefundedAmount, currency)}</span>
+                </div>
+              )}
+              {parseFloat(order.refundedAmount) > 0 && (
+                <>
+                  <div className="flex justify-between text-sm text-purple-700">
+                    <span>Refunded</span>
+                    <span>-{formatCurrency(order.refundedAmount, currency)}</span>
+                  </div>
+                  <div className="flex justify-between text-sm font-medium text-stone-900">
+                    <span>Net payment</span>
+                    <span>{formatCurrency(parseFloat(order.total) - parseFloat(order.refundedAmount), currency)}</span>
+                  </div>
+                </>
+              )}
             </div>
           </div>
 
+          {/* Refunds */}
+          {refunds.length > 0 && (
+            <div className="bg-white rounded-xl border border-stone-200 p-6">
+              <h2 className="text-sm font-semibold text-stone-800 mb-4 flex items-center gap-2">
+                <RotateCcw className="w-4 h-4" />
+                Refunds
+              </h2>
+
+              <div className="space-y-3">
+                {refunds.map((refund) => (
+                  <div key={refund.id} className="py-3 border-b border-stone-100 last:border-0">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium text-stone-800">
+                          {REFUND_REASON_LABELS[refund.reason] || refund.reason}
+                          {refund.status !== 'succeeded' && (
+                            <span className={`ml-2 text-xs font-normal ${refund.status === 'pending' ? 'text-amber-600' : 'text-red-600'}`}>
+                              {refund.status}
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-xs text-stone-500">
+                          {formatDateTime(refund.createdAt)}
+                          {refund.source === 'stripe' ? ' · via Stripe dashboard' : refund.createdBy ? ` · by ${refund.createdBy}` : ''}
+                          {refund.restocked && ' · restocked'}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        {parseFloat(refund.amount) > 0 && (
+                          <p className="text-sm font-medium text-purple-700">-{formatCurrency(refund.amount, currency)}</p>
+                        )}
+                        {parseFloat(refund.giftCardAmount || '0') > 0 && (
+                          <p className="text-xs text-purple-700">{formatCurrency(refund.giftCardAmount, currency)} to gift card</p>
+                        )}
+                      </div>
+                    </div>
+                    {refund.items.length > 0 && (
+                      <ul className="mt-1.5 text-xs text-stone-500 space-y-0.5">
+                        {refund.items.map((line) => {
+                          const item = items.find((i) => i.id === line.orderItemId);
+                          return (
+                            <li key={line.orderItemId}>
+                              {line.quantity} x {item ? item.productName : 'Removed item'}
+                              {item?.variantTitle ? ` (${item.variantTitle})` : ''}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                    {refund.note && <p className="mt-1.5 text-xs text-stone-500 italic">{refund.note}</p>}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Tracking Information */}
           <div className="bg-white rounded-xl border border-stone-200 p-6">
             <h2 className="text-sm font-semibold text-stone-800 mb-4 flex items-center gap-2">
@@ -636,6 +878,16 @@ export default function OrderDetail() {
                   No further status changes available.
                 </p>
               )}
+
+              {(order.stripePaymentIntentId || order.giftCardCode) && (order.paymentStatus === 'paid' || order.paymentStatus === 'partially_refunded') && (
+                <button
+                  onClick={() => setShowRefund(true)}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-md text-sm font-medium text-purple-700 border border-purple-300 hover:bg-purple-50 transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  Issue Refund
+                </button>
+              )}
             </div>
           </div>
 
@@ -651,6 +903,17 @@ export default function OrderDetail() {
                 <p className="text-sm font-medium text-stone-800">
                   {order.shippingFirstName} {order.shippingLastName}
                 </p>
+                {customer && (
+                  <div className="flex items-center gap-2 text-sm text-stone-600 mt-1">
+                    <Mail className="w-3.5 h-3.5 text-stone-400" />
+                    <Link to={`/admin/customers/${customer.id}`} className="hover:text-clay hover:underline truncate">
+                      {customer.email}
+                    </Link>
+                    {customer.authProvider === 'none' && (
+                      <span className="text-[11px] px-1.5 py-0.5 rounded-full bg-stone-100 text-stone-500">Guest</span>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div className="text-sm text-stone-600 leading-relaxed">
@@ -715,6 +978,16 @@ export default function OrderDetail() {
                   active={!!order.deliveredAt}
                 />
 
+                {/* Refunded */}
+                {order.refundedAt && (
+                  <TimelineEntry
+                    label={order.paymentStatus === 'refunded' ? 'Refunded' : 'Partially refunded'}
+                    date={order.refundedAt}
+                    color="bg-purple-500"
+                    active
+                  />
+                )}
+
                 {/* Cancelled */}
                 {order.cancelledAt && (
                   <TimelineEntry
@@ -778,3 +1051,207 @@ function TimelineEntry({
     </div>
   );
 }
+
+// ---------------------------------------------------------------------------
+// Refund Modal
+// ---------------------------------------------------------------------------
+
+interface RefundPayload {
+  items: Array<{ orderItemId: string; quantity: number }>;
+  shippingAmount: number;
+  amount?: number;
+  reason: RefundReason;
+  note: string;
+  restock: boolean;
+}
+
+function RefundModal({
+  order,
+  items,
+  onClose,
+  onSubmit,
+}: {
+  order: Order;
+  items: OrderItem[];
+  onClose: () => void;
+  onSubmit: (payload: RefundPayload) => Promise<void>;
+}) {
+  const currency = order.currency || 'AUD';
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [shippingAmount, setShippingAmount] = useState('');
+  const [customAmount, setCustomAmount] = useState('');
+  const [reason, setReason] = useState<RefundReason>('requested_by_customer');
+  const [note, setNote] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Mirrors the server: the Stripe charge is refunded first, then the gift card part
+  const stripeRefundable = order.stripePaymentIntentId
+    ? parseFloat(order.total) - parseFloat(order.refundedAmount || '0')
+    : 0;
+  const giftCardRefundable = order.giftCardCode
+    ? parseFloat(order.giftCardAmount || '0') - parseFloat(order.giftCardRefundedAmount || '0')
+    : 0;
+  const refundable = stripeRefundable + giftCardRefundable;
+
+  // Mirrors the server: exclusive tax is refunded with its line
+  const lineAmount = (item: OrderItem, qty: number) => {
+    let amount = (parseFloat(item.price) || 0) * qty;
+    if (!order.taxInclusive) amount += (parseFloat(item.tax) || 0) * qty / item.quantity;
+    return amount;
+  };
+
+  const calculated = items.reduce((sum, item) => sum + lineAmount(item, quantities[item.id] || 0), 0)
+    + (parseFloat(shippingAmount) || 0);
+  const amount = customAmount !== '' ? parseFloat(customAmount) || 0 : calculated;
+  const hasLines = Object.values(quantities).some((q) => q > 0);
+  const toGiftCard = Math.max(0, amount - stripeRefundable);
+
+  const handleSubmit = async () => {
+    setError(null);
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        items: Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([orderItemId, quantity]) => ({ orderItemId, quantity })),
+        shippingAmount: parseFloat(shippingAmount) || 0,
+        ...(customAmount !== '' ? { amount: parseFloat(customAmount) || 0 } : {}),
+        reason,
+        note,
+        restock,
+      });
+    } catch (err: any) {
+      setError(err.message || 'Failed to issue refund');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-6 py-4 border-b border-stone-200">
+          <h2 className="text-base font-semibold text-stone-900">Issue Refund</h2>
+          <button onClick={onClose} className="p-1 text-stone-400 hover:text-stone-700">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="px-6 py-5 space-y-5">
+          {/* Line items */}
+          <div className="space-y-2">
+            {items.map((item) => {
+              const remaining = item.quantity - item.refundedQuantity;
+              return (
+                <div key={item.id} className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm text-stone-800 truncate">{item.productName}</p>
+                    <p className="text-xs text-stone-500">
+                      {item.variantTitle ? `${item.variantTitle} · ` : ''}
+                      {formatCurrency(item.price, currency)} each · {remaining} of {item.quantity} refundable
+                    </p>
+                  </div>
+                  <input
+                    type="number"
+                    min="0"
+                    max={remaining}
+                    disabled={remaining === 0}
+                    value={quantities[item.id] || 0}
+                    onChange={(e) => {
+                      const qty = Math.max(0, Math.min(remaining, parseInt(e.target.value) || 0));
+                      setQuantities((prev) => ({ ...prev, [item.id]: qty }));
+                    }}
+                    className="w-16 px-2 py-1.5 border border-stone-300 rounded-md text-sm text-right disabled:bg-stone-50"
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-stone-600 mb-1">
+                Refund shipping (max {formatCurrency(order.shipping, currency)})
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                max={order.shipping}
+                value={shippingAmount}
+                onChange={(e) => setShippingAmount(e.target.value)}
+                placeholder="0.00"
+                className="w-full px-3 py-2 border border-stone-300 rounded-md text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-stone-600 mb-1">Custom amount (optional)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={customAmount}
+                onChange={(e) => setCustomAmount(e.target.value)}
+                placeholder={calculated.toFixed(2)}
+                className="w-full px-3 py-2 border border-stone-300 rounded-md text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-stone-600 mb-1">Reason</label>
+            <select
+              value={reason}
+              onChange={(e) => setReason(e.target.value as RefundReason)}
+              className="w-full px-3 py-2 border border-stone-300 rounded-md text-sm"
+            >
+              {(Object.keys(REFUND_REASON_LABELS) as RefundReason[]).map((r) => (
+                <option key={r} value={r}>{REFUND_REASON_LABELS[r]}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-stone-600 mb-1">Note</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              placeholder="Internal note about this return"
+              className="w-full px-3 py-2 border border-stone-300 rounded-md text-sm resize-none"
+            />
+          </div>
+
+          {hasLines && (
+            <label className="flex items-center gap-2 text-sm text-stone-700">
+              <input type="checkbox" checked={restock} onChange={(e) => setRestock(e.target.checked)} />
+              Return refunded items to stock
+            </label>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="flex items-center justify-between px-6 py-4 border-t border-stone-200 bg-stone-50 rounded-b-xl">
+          <p className="text-sm text-stone-600">
+            Refund <span className="font-semibold text-stone-900">{formatCurrency(amount, currency)}</span>
+            <span className="text-xs text-stone-400"> of {formatCurrency(refundable, currency)}</span>
+            {toGiftCard > 0.001 && (
+              <span className="block text-xs text-stone-500">{formatCurrency(toGiftCard, currency)} goes back on the gift card</span>
+            )}
+          </p>
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || amount <= 0 || amount > refundable + 0.001}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 transition-colors disabled:opacity-50"
+          >
+            {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            {stripeRefundable > 0 ? 'Refund via Stripe' : 'Refund to gift card'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
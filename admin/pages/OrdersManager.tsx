@@ -22,7 +22,7 @@ import {
 // ---------------------------------------------------------------------------
 
 type OrderStatus = 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
-type PaymentStatus = 'paid' | 'pending';
+type PaymentStatus = 'paid' | 'pending' | 'failed' | 'disputed' | 'partially_refunded' | 'refunded';
 
 interface Order {
   id: string;
@@ -143,14 +143,22 @@ function PaymentBadge({ status }: { status: PaymentStatus }) {
   const styles: Record<PaymentStatus, string> = {
     paid: 'bg-green-100 text-green-700',
     pending: 'bg-amber-100 text-amber-700',
+    failed: 'bg-red-100 text-red-700',
+    disputed: 'bg-amber-100 text-amber-700',
+    partially_refunded: 'bg-purple-100 text-purple-700',
+    refunded: 'bg-purple-100 text-purple-700',
   };
   const labels: Record<PaymentStatus, string> = {
     paid: 'Paid',
     pending: 'Pending',
+    failed: 'Failed',
+    disputed: 'Disputed',
+    partially_refunded: 'Part Refunded',
+    refunded: 'Refunded',
   };
   return (
-    <span className={`text-[11px] font-medium px-2 py-0.5 rounded-full ${styles[status]}`}>
-      {labels[status]}
+    <span className={`text-[11px] font-medium px-2 py-0.5 rounded-full ${styles[status] || styles.pending}`}>
+      {labels[status] || status}
     </span>
   );
 }
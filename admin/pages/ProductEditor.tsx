@@ -19,13 +19,14 @@ import {
   Check,
   AlertCircle,
   Image as ImageIcon,
+  Plus,
 } from 'lucide-react';
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-type ProductType = 'wearable' | 'wall-art';
+type ProductType = 'wearable' | 'wall-art' | 'gift-card';
 type ProductStatus = 'draft' | 'active' | 'scheduled' | 'archived' | 'discontinued';
 
 interface MediaItem {
@@ -37,9 +38,27 @@ interface MediaItem {
   sortOrder: number;
 }
 
+interface OptionDraft {
+  name: string;
+  valuesText: string; // comma-separated while editing
+}
+
+interface VariantRow {
+  id?: string;
+  title: string;
+  sku: string;
+  options: Record<string, string>;
+  price: string;
+  compareAtPrice: string;
+  quantity: number;
+  image: string;
+  active: boolean;
+}
+
 interface ProductData {
   id?: string;
   productType: ProductType;
+  giftCardDenominations: number[];
   name: string;
   slug: string;
   price: string;
@@ -68,11 +87,14 @@ interface ProductData {
   ogImage: string;
   status: ProductStatus;
   publishedAt: string | null;
+  scheduledFor: string | null;
+  archiveAt: string | null;
   displayOrder: number;
 }
 
 const EMPTY_PRODUCT: ProductData = {
   productType: 'wearable',
+  giftCardDenominations: [],
   name: '',
   slug: '',
   price: '0',
@@ -101,11 +123,14 @@ const EMPTY_PRODUCT: ProductData = {
   ogImage: '',
   status: 'draft',
   publishedAt: null,
+  scheduledFor: null,
+  archiveAt: null,
   displayOrder: 0,
 };
 
 const WEARABLE_CATEGORIES = ['Earrings', 'Brooches', 'Necklaces'];
 const WALL_ART_CATEGORIES = ['Prints', 'Originals', 'Mixed Media'];
+const GIFT_CARD_CATEGORIES = ['Gift Cards'];
 const BADGES = ['ONE OF A KIND', 'LIMITED EDITION', 'NEW', 'BESTSELLER'];
 
 const DEFAULT_MATERIALS = ['Polymer Clay', 'Sterling Silver', 'Stainless Steel', 'Resin', 'Acrylic', 'Glass', 'Wood', 'Brass', 'Gold Plated', 'Leather'];
@@ -137,6 +162,14 @@ function StatusBadge({ status }: { status: ProductStatus }) {
   );
 }
 
+/** ISO string to the local YYYY-MM-DDTHH:MM a datetime-local input expects */
+function toDatetimeLocal(iso: string | null): string {
+  if (!iso) return '';
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
 function Card({ title, children }: { title: string; children: React.ReactNode }) {
   return (
     <div className="bg-white rounded-lg border border-stone-200">
@@ -454,6 +487,246 @@ function MediaSection({
   );
 }
 
+// ---------------------------------------------------------------------------
+// Variants Section
+// ---------------------------------------------------------------------------
+
+const parseOptionValues = (text: string) =>
+  text.split(',').map(v => v.trim()).filter(Boolean);
+
+function VariantsSection({
+  productId,
+  media,
+  accessToken,
+  onStockChange,
+}: {
+  productId: string | undefined;
+  media: MediaItem[];
+  accessToken: string | null;
+  onStockChange: (totalStock: number | null) => void;
+}) {
+  const [options, setOptions] = useState<OptionDraft[]>([]);
+  const [variants, setVariants] = useState<VariantRow[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyResponse = (data: any) => {
+    setOptions((data.options || []).map((o: any) => ({ name: o.name, valuesText: (o.values || []).join(', ') })));
+    const rows: VariantRow[] = (data.variants || []).map((v: any) => ({
+      id: v.id,
+      title: v.title,
+      sku: v.sku || '',
+      options: v.options || {},
+      price: v.price || '',
+      compareAtPrice: v.compareAtPrice || '',
+      quantity: v.quantity ?? 0,
+      image: v.image || '',
+      active: v.active !== false,
+    }));
+    setVariants(rows);
+    const activeRows = rows.filter(r => r.active);
+    onStockChange(activeRows.length > 0 ? activeRows.reduce((sum, r) => sum + r.quantity, 0) : null);
+  };
+
+  useEffect(() => {
+    if (!productId) return;
+    fetch(`${API_BASE}/products/${productId}/variants`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => { if (data) applyResponse(data); })
+      .catch(() => {});
+  }, [productId, accessToken]);
+
+  const updateOption = (index: number, patch: Partial<OptionDraft>) => {
+    setOptions(prev => prev.map((o, i) => (i === index ? { ...o, ...patch } : o)));
+    setIsDirty(true);
+  };
+
+  const updateVariant = (index: number, patch: Partial<VariantRow>) => {
+    setVariants(prev => prev.map((v, i) => (i === index ? { ...v, ...patch } : v)));
+    setIsDirty(true);
+  };
+
+  // Build one variant per combination of option values, keeping rows that already exist
+  const generateVariants = () => {
+    const defined = options
+      .map(o => ({ name: o.name.trim(), values: parseOptionValues(o.valuesText) }))
+      .filter(o => o.name && o.values.length > 0);
+
+    if (defined.length === 0) {
+      setVariants([]);
+      setIsDirty(true);
+      return;
+    }
+
+    const combos = defined.reduce<Record<string, string>[]>(
+      (acc, o) => acc.flatMap(combo => o.values.map(value => ({ ...combo, [o.name]: value }))),
+      [{}],
+    );
+
+    setVariants(combos.map(combo => {
+      const title = defined.map(o => combo[o.name]).join(' / ');
+      const existing = variants.find(v => v.title === title);
+      return existing
+        ? { ...existing, options: combo }
+        : { title, sku: '', options: combo, price: '', compareAtPrice: '', quantity: 0, image: '', active: true };
+    }));
+    setIsDirty(true);
+  };
+
+  const saveVariants = async () => {
+    if (!productId) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`${API_BASE}/products/${productId}/variants`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          options: options
+            .filter(o => o.name.trim())
+            .map(o => ({ name: o.name.trim(), values: parseOptionValues(o.valuesText) })),
+          variants,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Could not save variants');
+      applyResponse(data);
+      setIsDirty(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save variants');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!productId) {
+    return <p className="text-sm text-stone-400">Save the product first to add variants.</p>;
+  }
+
+  const inputClass = 'w-full px-2.5 py-1.5 text-sm border border-stone-200 rounded-md focus:outline-none focus:ring-2 focus:ring-stone-400';
+
+  return (
+    <div className="space-y-3">
+      {/* Option definitions */}
+      {options.map((option, i) => (
+        <div key={i} className="flex gap-2 items-start">
+          <input
+            type="text"
+            value={option.name}
+            onChange={(e) => updateOption(i, { name: e.target.value })}
+            placeholder="Option (e.g. Size)"
+            className={`${inputClass} w-32 flex-shrink-0`}
+          />
+          <input
+            type="text"
+            value={option.valuesText}
+            onChange={(e) => updateOption(i, { valuesText: e.target.value })}
+            placeholder="Values, comma separated (e.g. Small, Large)"
+            className={inputClass}
+          />
+          <button
+            onClick={() => { setOptions(prev => prev.filter((_, j) => j !== i)); setIsDirty(true); }}
+            className="p-2 text-stone-400 hover:text-red-600 transition"
+            title="Remove option"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        {options.length < 3 && (
+          <button
+            onClick={() => setOptions(prev => [...prev, { name: '', valuesText: '' }])}
+            className="flex items-center gap-1 text-xs text-stone-600 hover:text-stone-900 px-2 py-1 border border-stone-200 rounded hover:bg-stone-50 transition"
+          >
+            <Plus size={12} /> Add option
+          </button>
+        )}
+        {options.length > 0 && (
+          <button
+            onClick={generateVariants}
+            className="text-xs text-stone-600 hover:text-stone-900 px-2 py-1 border border-stone-200 rounded hover:bg-stone-50 transition"
+          >
+            Generate variants
+          </button>
+        )}
+      </div>
+
+      {/* Variant rows */}
+      {variants.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-stone-500 border-b border-stone-100">
+                <th className="py-1.5 pr-2 font-medium">Variant</th>
+                <th className="py-1.5 pr-2 font-medium">SKU</th>
+                <th className="py-1.5 pr-2 font-medium">Price</th>
+                <th className="py-1.5 pr-2 font-medium">Sale price</th>
+                <th className="py-1.5 pr-2 font-medium">Stock</th>
+                <th className="py-1.5 pr-2 font-medium">Image</th>
+                <th className="py-1.5 font-medium">Active</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variants.map((variant, i) => (
+                <tr key={variant.id || variant.title} className="border-b border-stone-50">
+                  <td className="py-1.5 pr-2 text-stone-800 whitespace-nowrap">{variant.title}</td>
+                  <td className="py-1.5 pr-2">
+                    <input type="text" value={variant.sku} onChange={(e) => updateVariant(i, { sku: e.target.value })} className={`${inputClass} w-24`} />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <input type="number" step="0.01" min="0" value={variant.price} onChange={(e) => updateVariant(i, { price: e.target.value })} placeholder="Default" className={`${inputClass} w-20`} />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <input type="number" step="0.01" min="0" value={variant.compareAtPrice} onChange={(e) => updateVariant(i, { compareAtPrice: e.target.value })} className={`${inputClass} w-20`} />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <input type="number" min="0" value={variant.quantity} onChange={(e) => updateVariant(i, { quantity: parseInt(e.target.value) || 0 })} className={`${inputClass} w-16`} />
+                  </td>
+                  <td className="py-1.5 pr-2">
+                    <select value={variant.image} onChange={(e) => updateVariant(i, { image: e.target.value })} className={`${inputClass} w-28`}>
+                      <option value="">Default</option>
+                      {media.map((m, idx) => (
+                        <option key={m.id} value={m.url}>{m.altText || `Image ${idx + 1}`}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1.5 text-center">
+                    <input type="checkbox" checked={variant.active} onChange={(e) => updateVariant(i, { active: e.target.checked })} className="rounded border-stone-300" />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-stone-400 mt-1.5">Leave price blank to use the product price.</p>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 flex items-center gap-1"><AlertCircle size={12} /> {error}</p>
+      )}
+
+      {isDirty && (
+        <button
+          onClick={saveVariants}
+          disabled={isSaving}
+          className="flex items-center gap-1.5 px-3 py-1.5 bg-stone-900 text-white text-xs font-medium rounded-md hover:bg-stone-800 transition disabled:opacity-50"
+        >
+          {isSaving ? <Loader2 size={12} className="animate-spin" /> : <Save size={12} />}
+          Save variants
+        </button>
+      )}
+    </div>
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main Component
 // ---------------------------------------------------------------------------
@@ -467,6 +740,7 @@ export default function ProductEditor() {
   // Product state
   const [product, setProduct] = useState<ProductData>({ ...EMPTY_PRODUCT });
   const [media, setMedia] = useState<MediaItem[]>([]);
+  const [variantStock, setVariantStock] = useState<number | null>(null);
   const [productId, setProductId] = useState<string | undefined>(isNew ? undefined : id);
 
   // UI state
@@ -475,10 +749,12 @@ export default function ProductEditor() {
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
   const [errors, setErrors] = useState<string[]>([]);
   const [errorFields, setErrorFields] = useState<Set<string>>(new Set());
+  const [denominationsText, setDenominationsText] = useState(''); // comma-separated while editing
   const [showQuantityWarning, setShowQuantityWarning] = useState(false);
   const [pendingQuantity, setPendingQuantity] = useState<number | null>(null);
   const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
   const [actionsMenuOpen, setActionsMenuOpen] = useState(false);
+  const [scheduleInput, setScheduleInput] = useState('');
   const actionsRef = useRef<HTMLDivElement>(null);
 
   // Autosave
@@ -523,6 +799,7 @@ export default function ProductEditor() {
         const productData: ProductData = {
           id: data.id,
           productType: data.productType || 'wearable',
+          giftCardDenominations: Array.isArray(data.giftCardDenominations) ? data.giftCardDenominations : [],
           name: data.name || '',
           slug: data.slug || '',
           price: data.price || '0',
@@ -551,10 +828,13 @@ export default function ProductEditor() {
           ogImage: data.ogImage || '',
           status: data.status || 'draft',
           publishedAt: data.publishedAt || null,
+          scheduledFor: data.scheduledFor || null,
+          archiveAt: data.archiveAt || null,
           displayOrder: data.displayOrder || 0,
         };
 
         setProduct(productData);
+        setDenominationsText(productData.giftCardDenominations.join(', '));
 
         // Use media records if available, otherwise build from image/detailImages fields
         let mediaItems = data.media || [];
@@ -654,6 +934,7 @@ export default function ProductEditor() {
       const payload: Record<string, any> = { ...product };
       delete payload.id;
       delete payload.publishedAt;
+      delete payload.scheduledFor;
 
       const res = await fetch(url, {
         method,
@@ -695,7 +976,7 @@ export default function ProductEditor() {
 
   // ---------- Publish ----------
 
-  const handlePublish = async () => {
+  const handlePublish = async (scheduledFor?: string) => {
     // First save current changes
     const savedId = await saveProduct(false);
     if (!savedId) return;
@@ -707,7 +988,7 @@ export default function ProductEditor() {
           'Content-Type': 'application/json',
           Authorization: `Bearer ${accessToken}`,
         },
-        body: JSON.stringify({ status: 'active' }),
+        body: JSON.stringify(scheduledFor ? { status: 'scheduled', scheduledFor } : { status: 'active' }),
       });
 
       if (!res.ok) {
@@ -732,15 +1013,40 @@ export default function ProductEditor() {
       }
 
       const updated = await res.json();
-      setProduct(prev => ({ ...prev, status: updated.status, publishedAt: updated.publishedAt }));
+      setProduct(prev => ({ ...prev, status: updated.status, publishedAt: updated.publishedAt, scheduledFor: updated.scheduledFor }));
       setErrors([]);
       setErrorFields(new Set());
-      showToast('success', 'Product is now live!');
+      setScheduleInput('');
+      showToast('success', scheduledFor
+        ? `Product will go live ${new Date(updated.scheduledFor).toLocaleString()}.`
+        : 'Product is now live!');
     } catch (err: any) {
       showToast('error', err.message || 'Could not publish product.');
     }
   };
 
+  const handleCancelSchedule = async () => {
+    if (!productId) return;
+    try {
+      const res = await fetch(`${API_BASE}/products/${productId}/status`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ status: 'draft' }),
+      });
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error);
+      }
+      setProduct(prev => ({ ...prev, status: 'draft', scheduledFor: null }));
+      showToast('success', 'Schedule cancelled.');
+    } catch (err: any) {
+      showToast('error', err.message || 'Could not cancel schedule.');
+    }
+  };
+
   // ---------- Duplicate ----------
 
   const handleDuplicate = async () => {
@@ -807,6 +1113,7 @@ export default function ProductEditor() {
   // ---------- Category options ----------
 
   const categoryOptions = useMemo(() => {
+    if (product.productType === 'gift-card') return GIFT_CARD_CATEGORIES;
     return product.productType === 'wearable' ? WEARABLE_CATEGORIES : WALL_ART_CATEGORIES;
   }, [product.productType]);
 
@@ -876,9 +1183,9 @@ export default function ProductEditor() {
               Save & Update
             </button>
 
-            {(product.status === 'draft' || product.status === 'archived') && (
+            {(product.status === 'draft' || product.status === 'archived' || product.status === 'scheduled') && (
               <button
-                onClick={handlePublish}
+                onClick={() => handlePublish()}
                 disabled={saving}
                 className="bg-white border border-stone-200 text-stone-700 hover:bg-stone-50 rounded-md px-4 h-8 text-sm font-medium transition-colors disabled:opacity-50"
               >
@@ -1023,6 +1330,19 @@ export default function ProductEditor() {
               />
             </Card>
 
+            {/* Variants */}
+            <Card title="Variants">
+              <VariantsSection
+                productId={productId}
+                media={media}
+                accessToken={accessToken}
+                onStockChange={(total) => {
+                  setVariantStock(total);
+                  if (total !== null) setProduct(prev => ({ ...prev, quantity: total }));
+                }}
+              />
+            </Card>
+
           </div>
 
           {/* RIGHT COLUMN (40%) */}
@@ -1038,6 +1358,59 @@ export default function ProductEditor() {
                   </span>
                 )}
               </div>
+
+              {product.status === 'draft' && (
+                <div className="pt-3 border-t border-stone-100">
+                  <FieldLabel label="Schedule publish" htmlFor="schedule-input" />
+                  <input
+                    id="schedule-input"
+                    type="datetime-local"
+                    value={scheduleInput}
+                    onChange={(e) => setScheduleInput(e.target.value)}
+                    min={toDatetimeLocal(new Date().toISOString())}
+                    className="w-full px-3 py-2 border border-stone-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-stone-400 focus:ring-offset-1"
+                  />
+                  <button
+                    onClick={() => handlePublish(new Date(scheduleInput).toISOString())}
+                    disabled={saving || !scheduleInput}
+                    className="mt-2 w-full bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 rounded-md px-3 py-1.5 text-sm font-medium transition-colors disabled:opacity-50"
+                  >
+                    Schedule
+                  </button>
+                </div>
+              )}
+
+              {product.status === 'scheduled' && (
+                <div className="pt-3 border-t border-stone-100 space-y-2">
+                  {product.scheduledFor && (
+                    <p className="text-xs text-blue-600">
+                      Goes live {new Date(product.scheduledFor).toLocaleString()}
+                    </p>
+                  )}
+                  <button
+                    onClick={handleCancelSchedule}
+                    disabled={saving}
+                    className="w-full bg-white text-stone-700 border border-stone-200 hover:bg-stone-50 rounded-md px-3 py-1.5 text-sm font-medium transition-colors disabled:opacity-50"
+                  >
+                    Cancel Schedule
+                  </button>
+                </div>
+              )}
+
+              {(product.status === 'active' || product.status === 'scheduled') && (
+                <div className="pt-3 border-t border-stone-100">
+                  <FieldLabel label="Archive on" htmlFor="archive-input" />
+                  <input
+                    id="archive-input"
+                    type="datetime-local"
+                    value={toDatetimeLocal(product.archiveAt)}
+                    onChange={(e) => updateField('archiveAt', e.target.value ? new Date(e.target.value).toISOString() : null)}
+                    min={toDatetimeLocal(new Date().toISOString())}
+                    className="w-full px-3 py-2 border border-stone-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-stone-400 focus:ring-offset-1"
+                  />
+                  <p className="text-xs text-stone-400 mt-1">Taken out of the shop automatically at this time. Saved with the product.</p>
+                </div>
+              )}
             </Card>
 
             {/* Pricing */}
@@ -1079,6 +1452,24 @@ export default function ProductEditor() {
                   On sale: <span className="line-through text-stone-400">${parseFloat(product.price).toFixed(2)}</span> → ${parseFloat(product.compareAtPrice).toFixed(2)}
                 </p>
               )}
+              {product.productType === 'gift-card' && (
+                <div>
+                  <FieldLabel label="Gift card amounts" htmlFor="gift-card-denominations" />
+                  <input
+                    id="gift-card-denominations"
+                    type="text"
+                    value={denominationsText}
+                    onChange={(e) => {
+                      setDenominationsText(e.target.value);
+                      const amounts = e.target.value.split(',').map(v => parseFloat(v)).filter(n => n > 0);
+                      updateField('giftCardDenominations', Array.from(new Set(amounts)).sort((a, b) => a - b));
+                    }}
+                    placeholder="25, 50, 100, 200"
+                    className="w-full px-3 py-2 border border-stone-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-stone-400 focus:ring-offset-1"
+                  />
+                  <p className="text-xs text-stone-400 mt-1">Comma-separated AUD amounts customers can choose from. Leave empty to sell at the price above.</p>
+                </div>
+              )}
             </Card>
 
             {/* Organisation */}
@@ -1097,6 +1488,7 @@ export default function ProductEditor() {
                   >
                     <option value="wearable">Wearable Art</option>
                     <option value="wall-art">Wall Art</option>
+                    <option value="gift-card">Gift Card</option>
                   </select>
                   {product.publishedAt && (
                     <p className="text-xs text-stone-400 mt-1">Cannot change type after publishing.</p>
@@ -1178,6 +1570,7 @@ export default function ProductEditor() {
                   <input
                     type="number"
                     value={product.quantity}
+                    disabled={variantStock !== null}
                     onChange={(e) => {
                       const val = parseInt(e.target.value) || 0;
                       if (val > 1) {
@@ -1188,8 +1581,11 @@ export default function ProductEditor() {
                       updateField('quantity', val);
                     }}
                     min="0"
-                    className="w-full px-3 py-2 border border-stone-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-stone-400"
+                    className="w-full px-3 py-2 border border-stone-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-stone-400 disabled:bg-stone-50 disabled:text-stone-500"
                   />
+                  {variantStock !== null && (
+                    <p className="mt-1 text-xs text-stone-400">Total across variants</p>
+                  )}
                   <div className={`mt-1.5 flex items-center gap-1.5 text-xs ${
                     product.quantity <= 0 ? 'text-red-600' : 'text-green-600'
                   }`}>
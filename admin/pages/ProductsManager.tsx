@@ -19,6 +19,8 @@ import {
   Package,
   FileText,
   AlertTriangle,
+  Save,
+  Loader2,
 } from 'lucide-react';
 
 // ---------------------------------------------------------------------------
@@ -260,6 +262,41 @@ export default function ProductsManager() {
     setTimeout(() => setToast(null), 3500);
   };
 
+  // Scheduled publishing settings
+  const [newArrivalCampaign, setNewArrivalCampaign] = useState(false);
+  const [settingsSaving, setSettingsSaving] = useState(false);
+
+  useEffect(() => {
+    fetch(`${API_BASE}/settings`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.publishing) setNewArrivalCampaign(!!data.publishing.newArrivalCampaign);
+      })
+      .catch(() => {});
+  }, [accessToken]);
+
+  const saveSettings = async () => {
+    setSettingsSaving(true);
+    try {
+      const res = await fetch(`${API_BASE}/settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ publishing: { newArrivalCampaign } }),
+      });
+      if (!res.ok) throw new Error('Failed to save settings');
+      showToast('success', 'Publishing settings saved.');
+    } catch {
+      showToast('error', 'Could not save publishing settings. Please try again.');
+    } finally {
+      setSettingsSaving(false);
+    }
+  };
+
   // ---------- Debounced search ----------
 
   useEffect(() => {
@@ -527,6 +564,43 @@ export default function ProductsManager() {
         </div>
       )}
 
+      {/* Scheduled publishing */}
+      <div className="bg-white rounded-lg border border-stone-200 p-4 mb-4">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+          <div className="flex-1">
+            <p className="text-sm font-medium text-stone-900">Scheduled publishing</p>
+            <p className="text-xs text-stone-500 mt-0.5">
+              Scheduled products go live within a few minutes of their date and are taken out of the shop on their archive date.
+              Each change is recorded in the activity log.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-stone-700">
+            <input
+              type="checkbox"
+              checked={newArrivalCampaign}
+              onChange={(e) => setNewArrivalCampaign(e.target.checked)}
+              className="rounded border-stone-300"
+            />
+            Draft a "new arrivals" campaign when products go live
+          </label>
+          <button
+            onClick={saveSettings}
+            disabled={settingsSaving}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white rounded-md transition-colors disabled:opacity-50 flex-shrink-0"
+            style={{ backgroundColor: '#8d3038' }}
+            onMouseEnter={(e) => {
+              if (!settingsSaving) e.currentTarget.style.backgroundColor = '#6b2228';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = '#8d3038';
+            }}
+          >
+            {settingsSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+            Save
+          </button>
+        </div>
+      </div>
+
       {/* Status & Inventory tabs */}
       <div className="flex items-center gap-1 mb-4 border-b border-stone-200">
         {statusTabs.map((tab) => (
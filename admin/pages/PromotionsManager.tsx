@@ -1,4 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { API_BASE } from '../config/api';
 import {
@@ -611,14 +612,22 @@ export default function PromotionsManager() {
           <h1 className="text-xl font-semibold text-stone-900">Promotions</h1>
           <p className="text-sm text-stone-500 mt-0.5">Manage discount codes and promotional offers</p>
         </div>
-        <button
-          onClick={openCreateModal}
-          className="text-white hover:opacity-90 rounded-md px-4 h-9 text-sm font-medium transition-colors inline-flex items-center gap-1.5"
-          style={{ backgroundColor: '#8d3038' }}
-        >
-          <Plus size={16} />
-          Create Code
-        </button>
+        <div className="flex items-center gap-2">
+          <Link
+            to="/admin/promotions/automatic"
+            className="border border-stone-200 text-stone-700 hover:bg-stone-50 rounded-md px-4 h-9 text-sm font-medium transition-colors inline-flex items-center"
+          >
+            Automatic Sales
+          </Link>
+          <button
+            onClick={openCreateModal}
+            className="text-white hover:opacity-90 rounded-md px-4 h-9 text-sm font-medium transition-colors inline-flex items-center gap-1.5"
+            style={{ backgroundColor: '#8d3038' }}
+          >
+            <Plus size={16} />
+            Create Code
+          </button>
+        </div>
       </div>
 
       {/* Stats cards */}
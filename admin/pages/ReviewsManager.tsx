@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useAuth } from '../context/AuthContext';
-import { API_BASE } from '../config/api';
+import { API_BASE, resolveImageUrl } from '../config/api';
 import {
   AlertTriangle,
   MessageSquare,
@@ -15,6 +15,8 @@ import {
   ShieldCheck,
   User,
   X,
+  Image as ImageIcon,
+  Save,
 } from 'lucide-react';
 
 // ---------------------------------------------------------------------------
@@ -23,6 +25,12 @@ import {
 
 type ReviewStatus = 'pending' | 'approved' | 'rejected';
 
+interface ReviewPhoto {
+  id: string;
+  url: string;
+  status: ReviewStatus;
+}
+
 interface Review {
   id: string;
   productId: string;
@@ -38,6 +46,8 @@ interface Review {
   theme: string | null;
   adminResponse: string | null;
   respondedAt: string | null;
+  orderId: string | null;
+  photos: ReviewPhoto[];
   createdAt: string;
   updatedAt: string;
 }
@@ -48,8 +58,16 @@ interface ReviewStats {
   approved: number;
   rejected: number;
   averageRating: number;
+  pendingPhotos: number;
 }
 
+interface ReviewSettings {
+  requestsEnabled: boolean;
+  requestDelayDays: number;
+}
+
+const DEFAULT_SETTINGS: ReviewSettings = { requestsEnabled: true, requestDelayDays: 7 };
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -188,9 +206,14 @@ export default function ReviewsManager() {
     approved: 0,
     rejected: 0,
     averageRating: 0,
+    pendingPhotos: 0,
   });
   const [loading, setLoading] = useState(true);
 
+  // Review request settings
+  const [settings, setSettings] = useState<ReviewSettings>(DEFAULT_SETTINGS);
+  const [settingsSaving, setSettingsSaving] = useState(false);
+
   // Filters
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [ratingFilter, setRatingFilter] = useState<string>('all');
@@ -251,7 +274,7 @@ export default function ReviewsManager() {
 
       const data = await res.json();
       setReviews(data.reviews || []);
-      setStats(data.stats || { total: 0, pending: 0, approved: 0, rejected: 0, averageRating: 0 });
+      setStats(data.stats || { total: 0, pending: 0, approved: 0, rejected: 0, averageRating: 0, pendingPhotos: 0 });
     } catch {
       showToast('Could not load reviews. Please try again.', 'error');
     } finally {
@@ -263,6 +286,42 @@ export default function ReviewsManager() {
     fetchReviews();
   }, [fetchReviews]);
 
+  useEffect(() => {
+    fetch(`${API_BASE}/settings`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.reviews) setSettings({ ...DEFAULT_SETTINGS, ...data.reviews });
+      })
+      .catch(() => {});
+  }, [accessToken]);
+
+  const saveSettings = async () => {
+    setSettingsSaving(true);
+    try {
+      const res = await fetch(`${API_BASE}/settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          reviews: { ...settings, requestDelayDays: Math.min(60, Math.max(0, Math.round(settings.requestDelayDays) || 0)) },
+        }),
+      });
+
+      if (!res.ok) throw new Error('Failed to save settings');
+      showToast('Review request settings saved.');
+    } catch {
+      showToast('Could not save review request settings. Please try again.', 'error');
+    } finally {
+      setSettingsSaving(false);
+    }
+  };
+
   // ---------- Actions ----------
 
   const updateStatus = async (id: string, status: ReviewStatus) => {
@@ -365,6 +424,64 @@ export default function ReviewsManager() {
     }
   };
 
+  const updatePhotoStatus = async (reviewId: string, photo: ReviewPhoto, status: ReviewStatus) => {
+    setActionLoading(photo.id);
+    try {
+      const res = await fetch(`${API_BASE}/reviews/${reviewId}/photos/${photo.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({ status }),
+      });
+      if (!res.ok) throw new Error('Failed to update photo');
+
+      setReviews((prev) =>
+        prev.map((r) =>
+          r.id === reviewId
+            ? { ...r, photos: r.photos.map((p) => (p.id === photo.id ? { ...p, status } : p)) }
+            : r
+        )
+      );
+      if (photo.status === 'pending') {
+        setStats((prev) => ({ ...prev, pendingPhotos: Math.max(0, prev.pendingPhotos - 1) }));
+      }
+      showToast(`Photo ${status}.`);
+    } catch {
+      showToast('Could not update the photo. Please try again.', 'error');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const deletePhoto = async (reviewId: string, photo: ReviewPhoto) => {
+    if (!window.confirm('Delete this photo? This cannot be undone.')) return;
+
+    setActionLoading(photo.id);
+    try {
+      const res = await fetch(`${API_BASE}/reviews/${reviewId}/photos/${photo.id}`, {
+        method: 'DELETE',
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+        },
+      });
+      if (!res.ok) throw new Error('Failed to delete photo');
+
+      setReviews((prev) =>
+        prev.map((r) => (r.id === reviewId ? { ...r, photos: r.photos.filter((p) => p.id !== photo.id) } : r))
+      );
+      if (photo.status === 'pending') {
+        setStats((prev) => ({ ...prev, pendingPhotos: Math.max(0, prev.pendingPhotos - 1) }));
+      }
+      showToast('Photo deleted.');
+    } catch {
+      showToast('Could not delete the photo. Please try again.', 'error');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
   const updateTheme = async (id: string, theme: string | null) => {
     setActionLoading(id);
     try {
@@ -442,7 +559,7 @@ export default function ReviewsManager() {
   // ---------- Displayed reviews (filtered by Action Required) ----------
 
   const displayedReviews = actionRequired
-    ? reviews.filter(r => r.status === 'pending')
+    ? reviews.filter(r => r.status === 'pending' || r.photos.some(p => p.status === 'pending'))
     : reviews;
 
   // ---------- Render ----------
@@ -467,6 +584,9 @@ export default function ReviewsManager() {
         <h1 className="text-xl font-serif font-semibold text-stone-900">Reviews</h1>
         <p className="text-sm text-stone-500 mt-0.5">
           {stats.total} review{stats.total !== 1 ? 's' : ''} from your customers
+          {stats.pendingPhotos > 0 && (
+            <span className="text-amber-700"> · {stats.pendingPhotos} photo{stats.pendingPhotos !== 1 ? 's' : ''} awaiting approval</span>
+          )}
         </p>
       </div>
 
@@ -509,6 +629,56 @@ export default function ReviewsManager() {
         />
       </div>
 
+      {/* Review requests */}
+      <div className="bg-white rounded-lg border border-stone-200 shadow-sm p-4 mb-6">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+          <div className="flex-1">
+            <p className="text-sm font-medium text-stone-900">Review requests</p>
+            <p className="text-xs text-stone-500 mt-0.5">
+              Buyers are emailed a personal link to review what they bought once their order has been
+              marked delivered. Reviews left through it are verified purchases and can include up to 5 photos.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-stone-700">
+            <input
+              type="checkbox"
+              checked={settings.requestsEnabled}
+              onChange={(e) => setSettings((prev) => ({ ...prev, requestsEnabled: e.target.checked }))}
+              className="rounded border-stone-300"
+            />
+            Send review requests
+          </label>
+          <label className="flex items-center gap-2 text-sm text-stone-700">
+            Send
+            <input
+              type="number"
+              min={0}
+              max={60}
+              value={settings.requestDelayDays}
+              disabled={!settings.requestsEnabled}
+              onChange={(e) => setSettings((prev) => ({ ...prev, requestDelayDays: Number(e.target.value) }))}
+              className="w-16 bg-white border border-stone-200 rounded-md px-2 py-1.5 text-sm disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-stone-400 focus:ring-offset-1"
+            />
+            days after delivery
+          </label>
+          <button
+            onClick={saveSettings}
+            disabled={settingsSaving}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white rounded-md transition-colors disabled:opacity-50 flex-shrink-0"
+            style={{ backgroundColor: '#8d3038' }}
+            onMouseEnter={(e) => {
+              if (!settingsSaving) e.currentTarget.style.backgroundColor = '#6b2228';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = '#8d3038';
+            }}
+          >
+            {settingsSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+            Save
+          </button>
+        </div>
+      </div>
+
       {/* Toolbar */}
       <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
         {/* Search */}
@@ -659,6 +829,13 @@ export default function ReviewsManager() {
 
                   <ThemeBadge theme={review.theme} />
 
+                  {review.photos.length > 0 && (
+                    <span className="inline-flex items-center gap-1 text-[11px] font-medium px-2 py-0.5 rounded-full bg-stone-100 text-stone-600">
+                      <ImageIcon size={12} />
+                      {review.photos.length} photo{review.photos.length !== 1 ? 's' : ''}
+                    </span>
+                  )}
+
                   {review.featured && (
                     <span className="inline-flex items-center gap-1 text-[11px] font-medium px-2 py-0.5 rounded-full bg-amber-50 text-amber-700">
                       <Star size={12} className="fill-amber-400" />
@@ -683,6 +860,59 @@ export default function ReviewsManager() {
                   {review.body}
                 </p>
 
+                {/* Photos */}
+                {review.photos.length > 0 && (
+                  <div className="flex flex-wrap gap-3 mb-3">
+                    {review.photos.map((photo) => (
+                      <div key={photo.id} className="w-28">
+                        <a
+                          href={resolveImageUrl(photo.url)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={`block w-28 h-28 rounded-md overflow-hidden bg-stone-100 border ${
+                            photo.status === 'pending' ? 'border-amber-300' : 'border-stone-200'
+                          } ${photo.status === 'rejected' ? 'opacity-40' : ''}`}
+                        >
+                          <img src={resolveImageUrl(photo.url)} alt="Customer photo" className="w-full h-full object-cover" />
+                        </a>
+                        <div className="flex items-center justify-between mt-1">
+                          <StatusBadge status={photo.status} />
+                          <div className="flex items-center">
+                            {photo.status !== 'approved' && (
+                              <button
+                                onClick={() => updatePhotoStatus(review.id, photo, 'approved')}
+                                disabled={actionLoading === photo.id}
+                                className="p-1 text-green-700 hover:bg-green-50 rounded disabled:opacity-50"
+                                title="Approve photo"
+                              >
+                                <CheckCircle size={14} />
+                              </button>
+                            )}
+                            {photo.status !== 'rejected' && (
+                              <button
+                                onClick={() => updatePhotoStatus(review.id, photo, 'rejected')}
+                                disabled={actionLoading === photo.id}
+                                className="p-1 text-red-700 hover:bg-red-50 rounded disabled:opacity-50"
+                                title="Reject photo"
+                              >
+                                <XCircle size={14} />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => deletePhoto(review.id, photo)}
+                              disabled={actionLoading === photo.id}
+                              className="p-1 text-stone-400 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                              title="Delete photo"
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Product */}
                 <p className="text-xs text-stone-400 mb-4">
                   on <span className="text-stone-500 font-medium">{review.productName}</span>
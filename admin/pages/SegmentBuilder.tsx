@@ -12,7 +12,7 @@ import { ArrowLeft, Plus, Trash2, Users, Save, Loader2, AlertCircle, X } from 'l
 interface FieldDef {
   value: string;
   label: string;
-  type: 'text' | 'array' | 'number' | 'enum';
+  type: 'text' | 'array' | 'number' | 'enum' | 'campaign' | 'cohort';
   options?: string[];
 }
 
@@ -30,6 +30,17 @@ const FIELDS: FieldDef[] = [
   { value: 'emails_received', label: 'Emails Received', type: 'number' },
   { value: 'last_emailed_days_ago', label: 'Last Emailed Days Ago', type: 'number' },
   { value: 'last_opened_days_ago', label: 'Last Opened Days Ago', type: 'number' },
+  { value: 'opened_campaign', label: 'Opened Campaign', type: 'campaign' },
+  { value: 'clicked_campaign', label: 'Clicked Campaign', type: 'campaign' },
+  { value: 'purchase_count', label: 'Purchase Count', type: 'number' },
+  { value: 'total_spent', label: 'Total Spent ($)', type: 'number' },
+  { value: 'cohort_enrollment', label: 'Enrolled in Cohort', type: 'cohort' },
+  {
+    value: 'coaching_status',
+    label: 'Coaching Status',
+    type: 'enum',
+    options: ['none', 'prospect', 'discovery', 'active', 'paused', 'completed'],
+  },
 ];
 
 const OPERATORS_BY_TYPE: Record<string, { value: string; label: string }[]> = {
@@ -54,6 +65,14 @@ const OPERATORS_BY_TYPE: Record<string, { value: string; label: string }[]> = {
     { value: 'greater_than', label: 'greater than' },
     { value: 'less_than', label: 'less than' },
   ],
+  campaign: [
+    { value: 'equals', label: 'is' },
+    { value: 'not_equals', label: 'is not' },
+  ],
+  cohort: [
+    { value: 'equals', label: 'is' },
+    { value: 'not_equals', label: 'is not' },
+  ],
 };
 
 interface Condition {
@@ -63,6 +82,11 @@ interface Condition {
   value: string | string[];
 }
 
+interface Option {
+  id: string;
+  label: string;
+}
+
 interface PreviewSubscriber {
   id: string;
   email: string;
@@ -114,6 +138,8 @@ export default function SegmentBuilder() {
   // Data for dropdowns
   const [availableTags, setAvailableTags] = useState<string[]>([]);
   const [availableSources, setAvailableSources] = useState<string[]>([]);
+  const [availableCampaigns, setAvailableCampaigns] = useState<Option[]>([]);
+  const [availableCohorts, setAvailableCohorts] = useState<Option[]>([]);
 
   // Preview
   const [previewCount, setPreviewCount] = useState<number | null>(null);
@@ -135,9 +161,11 @@ export default function SegmentBuilder() {
   useEffect(() => {
     async function loadMeta() {
       try {
-        const [tagsRes, sourcesRes] = await Promise.all([
+        const [tagsRes, sourcesRes, campaignsRes, cohortsRes] = await Promise.all([
           fetch(`${API_BASE}/subscribers/tags`, { headers: { Authorization: `Bearer ${token}` } }),
           fetch(`${API_BASE}/subscribers/sources`, { headers: { Authorization: `Bearer ${token}` } }),
+          fetch(`${API_BASE}/campaigns?status=sent`, { headers: { Authorization: `Bearer ${token}` } }),
+          fetch(`${API_BASE}/cohorts?pageSize=100`, { headers: { Authorization: `Bearer ${token}` } }),
         ]);
         if (tagsRes.ok) {
           const tags = await tagsRes.json();
@@ -147,6 +175,14 @@ export default function SegmentBuilder() {
           const sources = await sourcesRes.json();
           setAvailableSources(Array.isArray(sources) ? sources : []);
         }
+        if (campaignsRes.ok) {
+          const data = await campaignsRes.json();
+          setAvailableCampaigns((data.campaigns || []).map((c: any) => ({ id: c.id, label: c.subject })));
+        }
+        if (cohortsRes.ok) {
+          const data = await cohortsRes.json();
+          setAvailableCohorts((data.items || []).map((c: any) => ({ id: c.id, label: c.title })));
+        }
       } catch {
         // Non-critical — dropdowns will just be text inputs
       }
@@ -316,7 +352,7 @@ export default function SegmentBuilder() {
       });
       if (!res.ok) {
         const errData = await res.json().catch(() => ({}));
-        throw new Error(errData.message || 'Failed to save segment');
+        throw new Error(errData.error || errData.message || 'Failed to save segment');
       }
       toast.success(isEditing ? 'Segment updated' : 'Segment created');
       navigate('/admin/segments');
@@ -452,6 +488,26 @@ export default function SegmentBuilder() {
       );
     }
 
+    // Campaign / cohort picker
+    if (fieldDef.type === 'campaign' || fieldDef.type === 'cohort') {
+      const options = fieldDef.type === 'campaign' ? availableCampaigns : availableCohorts;
+      return (
+        <select
+          value={cond.value as string}
+          onChange={(e) => updateCondition(cond.id, { value: e.target.value })}
+          className="flex-1 min-w-[160px] rounded-lg border border-stone-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-stone-400"
+        >
+          <option value="">Select...</option>
+          {fieldDef.type === 'cohort' && <option value="any">Any cohort</option>}
+          {options.map((opt) => (
+            <option key={opt.id} value={opt.id}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+      );
+    }
+
     // Source dropdown (if sources available)
     if (fieldDef.value === 'source' && availableSources.length > 0) {
       return (
@@ -3,6 +3,7 @@ import {
   Save, Eye, Loader2, Check, ChevronRight, AlertCircle,
   Home, User, Palette, GraduationCap, Mail, ShoppingBag,
   Globe, Search, ToggleLeft, PanelRightOpen, PanelRightClose,
+  Truck, Plus, Trash2, Receipt,
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { useToast } from '../context/ToastContext';
@@ -16,6 +17,24 @@ import { ImageUploadField } from '../components/FormModal';
 // Types
 // ---------------------------------------------------------------------------
 
+interface ShippingZone {
+  id: string;
+  name: string;
+  countries: string[];
+  rateType: 'flat' | 'weight';
+  flatRate: number;
+  baseRate: number;
+  perKgRate: number;
+  freeShippingThreshold: number | null;
+}
+
+interface TaxRate {
+  country: string;
+  name: string;
+  rate: number;
+  inclusive: boolean;
+}
+
 interface SiteSettings {
   hero: {
     headline: string;
@@ -104,6 +123,17 @@ interface SiteSettings {
     blog: { title: string; description: string; image: string };
     faq: { title: string; description: string; image: string };
   };
+  shipping: {
+    defaultWeightGrams: number;
+    zones: ShippingZone[];
+  };
+  tax: {
+    businessName: string;
+    abn: string;
+    businessAddress: string;
+    taxShipping: boolean;
+    rates: TaxRate[];
+  };
 }
 
 const defaultSettings: SiteSettings = {
@@ -226,6 +256,22 @@ const defaultSettings: SiteSettings = {
     blog: { title: '', description: '', image: '' },
     faq: { title: '', description: '', image: '' },
   },
+  shipping: {
+    defaultWeightGrams: 100,
+    zones: [
+      {
+        id: 'domestic', name: 'Australia', countries: ['AU'], rateType: 'flat',
+        flatRate: 15, baseRate: 0, perKgRate: 0, freeShippingThreshold: 100,
+      },
+    ],
+  },
+  tax: {
+    businessName: 'Lyne Tilt Studio',
+    abn: '',
+    businessAddress: '',
+    taxShipping: true,
+    rates: [{ country: 'AU', name: 'GST', rate: 10, inclusive: true }],
+  },
 };
 
 // ---------------------------------------------------------------------------
@@ -328,6 +374,20 @@ const globalSections: NavPage[] = [
     id: 'visibility', label: 'Visibility', icon: ToggleLeft, previewUrl: '/',
     sections: [],
   },
+  {
+    id: 'shipping', label: 'Shipping', icon: Truck, previewUrl: '/#/checkout',
+    sections: [
+      { id: 'shippingDefaults', label: 'Defaults' },
+      { id: 'shippingZones', label: 'Zones & Rates' },
+    ],
+  },
+  {
+    id: 'tax', label: 'Tax', icon: Receipt, previewUrl: '/#/checkout',
+    sections: [
+      { id: 'taxBusiness', label: 'Business Details' },
+      { id: 'taxRates', label: 'Rates' },
+    ],
+  },
 ];
 
 // ---------------------------------------------------------------------------
@@ -1274,6 +1334,188 @@ export default function SiteSettingsManager() {
               </div>
             </SectionCard>
           )}
+
+          {/* ============================================================= */}
+          {/* SHIPPING                                                       */}
+          {/* ============================================================= */}
+          {activePage === 'shipping' && (
+            <>
+              <SectionCard id="shippingDefaults" title="Defaults" description="Used by weight-based rates when a product has no weight set">
+                <div className="max-w-xs">
+                  <FieldLabel label="Default product weight (grams)" />
+                  <input
+                    type="number"
+                    min="0"
+                    value={settings.shipping.defaultWeightGrams}
+                    onChange={(e) => updateSettings('shipping.defaultWeightGrams', parseInt(e.target.value) || 0)}
+                    className={inputClass}
+                  />
+                </div>
+              </SectionCard>
+
+              <SectionCard id="shippingZones" title="Zones & Rates" description="Checkout only offers countries listed in a zone. Rates are calculated on the server for both the checkout preview and Stripe.">
+                {settings.shipping.zones.map((zone, i) => {
+                  const updateZone = (patch: Partial<ShippingZone>) =>
+                    updateSettings('shipping.zones', settings.shipping.zones.map((z, j) => (j === i ? { ...z, ...patch } : z)));
+                  return (
+                    <div key={zone.id} className="p-4 bg-stone-50 rounded-lg space-y-3">
+                      <div className="flex items-center justify-between">
+                        <h4 className="text-xs font-semibold text-stone-500 uppercase tracking-wide">{zone.name || 'Untitled zone'}</h4>
+                        <button
+                          onClick={() => updateSettings('shipping.zones', settings.shipping.zones.filter((_, j) => j !== i))}
+                          className="p-1 text-stone-400 hover:text-red-600 transition"
+                          title="Remove zone"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <FieldLabel label="Zone name" />
+                          <input type="text" value={zone.name} onChange={(e) => updateZone({ name: e.target.value })} placeholder="e.g. International" className={inputClass} />
+                        </div>
+                        <div>
+                          <FieldLabel label="Countries" hint="Two-letter codes, comma separated (e.g. NZ, US, GB)" />
+                          <input
+                            type="text"
+                            defaultValue={zone.countries.join(', ')}
+                            onBlur={(e) => updateZone({ countries: e.target.value.split(',').map(c => c.trim().toUpperCase()).filter(Boolean) })}
+                            className={inputClass}
+                          />
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-4 gap-3">
+                        <div>
+                          <FieldLabel label="Rate type" />
+                          <select value={zone.rateType} onChange={(e) => updateZone({ rateType: e.target.value as ShippingZone['rateType'] })} className={inputClass}>
+                            <option value="flat">Flat rate</option>
+                            <option value="weight">By weight</option>
+                          </select>
+                        </div>
+                        {zone.rateType === 'flat' ? (
+                          <div>
+                            <FieldLabel label="Flat rate (A$)" />
+                            <input type="number" step="0.01" min="0" value={zone.flatRate} onChange={(e) => updateZone({ flatRate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                          </div>
+                        ) : (
+                          <>
+                            <div>
+                              <FieldLabel label="First kg (A$)" />
+                              <input type="number" step="0.01" min="0" value={zone.baseRate} onChange={(e) => updateZone({ baseRate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                            </div>
+                            <div>
+                              <FieldLabel label="Each extra kg (A$)" />
+                              <input type="number" step="0.01" min="0" value={zone.perKgRate} onChange={(e) => updateZone({ perKgRate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                            </div>
+                          </>
+                        )}
+                        <div>
+                          <FieldLabel label="Free over (A$)" />
+                          <input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={zone.freeShippingThreshold ?? ''}
+                            onChange={(e) => updateZone({ freeShippingThreshold: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                            placeholder="Never"
+                            className={inputClass}
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+                <button
+                  onClick={() => updateSettings('shipping.zones', [
+                    ...settings.shipping.zones,
+                    {
+                      id: crypto.randomUUID(), name: '', countries: [], rateType: 'flat',
+                      flatRate: 0, baseRate: 0, perKgRate: 0, freeShippingThreshold: null,
+                    },
+                  ])}
+                  className="flex items-center gap-1.5 text-sm text-stone-600 hover:text-stone-900 px-3 py-1.5 border border-stone-200 rounded-md hover:bg-stone-50 transition"
+                >
+                  <Plus size={14} /> Add zone
+                </button>
+              </SectionCard>
+            </>
+          )}
+
+          {/* ============================================================= */}
+          {/* TAX                                                            */}
+          {/* ============================================================= */}
+          {activePage === 'tax' && (
+            <>
+              <SectionCard id="taxBusiness" title="Business Details" description="Printed on tax invoices">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <FieldLabel label="Business name" />
+                    <input type="text" value={settings.tax.businessName} onChange={(e) => updateSettings('tax.businessName', e.target.value)} className={inputClass} />
+                  </div>
+                  <div>
+                    <FieldLabel label="ABN" hint="Required for a valid Australian tax invoice" />
+                    <input type="text" value={settings.tax.abn} onChange={(e) => updateSettings('tax.abn', e.target.value)} placeholder="12 345 678 901" className={inputClass} />
+                  </div>
+                </div>
+                <div>
+                  <FieldLabel label="Business address" />
+                  <textarea value={settings.tax.businessAddress} onChange={(e) => updateSettings('tax.businessAddress', e.target.value)} rows={3} className={`${inputClass} resize-none`} />
+                </div>
+              </SectionCard>
+
+              <SectionCard id="taxRates" title="Rates" description="Tax is charged by shipping country. Countries without a rate are tax-free (e.g. GST-free exports). Products marked as not taxable are always excluded.">
+                <Toggle
+                  checked={settings.tax.taxShipping}
+                  onChange={(v) => updateSettings('tax.taxShipping', v)}
+                  label="Tax shipping"
+                  description="Apply the rate to shipping charges as well as products"
+                />
+                {settings.tax.rates.map((rate, i) => {
+                  const updateRate = (patch: Partial<TaxRate>) =>
+                    updateSettings('tax.rates', settings.tax.rates.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+                  return (
+                    <div key={i} className="p-4 bg-stone-50 rounded-lg grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-3 items-end">
+                      <div>
+                        <FieldLabel label="Country" hint="Two-letter code" />
+                        <input type="text" value={rate.country} onChange={(e) => updateRate({ country: e.target.value.trim().toUpperCase() })} maxLength={2} className={inputClass} />
+                      </div>
+                      <div>
+                        <FieldLabel label="Name" />
+                        <input type="text" value={rate.name} onChange={(e) => updateRate({ name: e.target.value })} placeholder="e.g. GST" className={inputClass} />
+                      </div>
+                      <div>
+                        <FieldLabel label="Rate (%)" />
+                        <input type="number" step="0.01" min="0" value={rate.rate} onChange={(e) => updateRate({ rate: parseFloat(e.target.value) || 0 })} className={inputClass} />
+                      </div>
+                      <div>
+                        <FieldLabel label="Prices" />
+                        <select value={rate.inclusive ? 'inclusive' : 'exclusive'} onChange={(e) => updateRate({ inclusive: e.target.value === 'inclusive' })} className={inputClass}>
+                          <option value="inclusive">Include tax</option>
+                          <option value="exclusive">Add tax at checkout</option>
+                        </select>
+                      </div>
+                      <button
+                        onClick={() => updateSettings('tax.rates', settings.tax.rates.filter((_, j) => j !== i))}
+                        className="p-2 text-stone-400 hover:text-red-600 transition"
+                        title="Remove rate"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  );
+                })}
+                <button
+                  onClick={() => updateSettings('tax.rates', [
+                    ...settings.tax.rates,
+                    { country: '', name: 'Tax', rate: 0, inclusive: true },
+                  ])}
+                  className="flex items-center gap-1.5 text-sm text-stone-600 hover:text-stone-900 px-3 py-1.5 border border-stone-200 rounded-md hover:bg-stone-50 transition"
+                >
+                  <Plus size={14} /> Add rate
+                </button>
+              </SectionCard>
+            </>
+          )}
         </main>
 
         {/* Preview panel */}
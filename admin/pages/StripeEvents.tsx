@@ -0,0 +1,365 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Webhook,
+  RefreshCw,
+  RotateCw,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Search,
+  AlertCircle,
+  Loader2,
+} from 'lucide-react';
+import { useAuth } from '../context/AuthContext';
+import { API_BASE } from '../config/api';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+type EventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  status: EventStatus;
+  objectId: string | null;
+  orderId: string | null;
+  orderNumber: string | null;
+  error: string | null;
+  attempts: number;
+  livemode: boolean;
+  stripeCreatedAt: string;
+  receivedAt: string;
+  lastAttemptAt: string;
+  processedAt: string | null;
+}
+
+const STATUS_CONFIG: Record<EventStatus, { label: string; bg: string; text: string }> = {
+  processing: { label: 'Processing', bg: 'bg-blue-100', text: 'text-blue-700' },
+  processed: { label: 'Processed', bg: 'bg-green-100', text: 'text-green-700' },
+  ignored: { label: 'Ignored', bg: 'bg-stone-100', text: 'text-stone-600' },
+  failed: { label: 'Failed', bg: 'bg-red-100', text: 'text-red-700' },
+};
+
+const STATUS_TABS: Array<{ value: string; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'failed', label: 'Failed' },
+  { value: 'processed', label: 'Processed' },
+  { value: 'ignored', label: 'Ignored' },
+  { value: 'processing', label: 'Processing' },
+];
+
+const PAGE_SIZE = 50;
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString('en-AU', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Main Component
+// ---------------------------------------------------------------------------
+
+export default function StripeEvents() {
+  const { accessToken } = useAuth();
+
+  const [events, setEvents] = useState<StripeEvent[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [types, setTypes] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [payloads, setPayloads] = useState<Record<string, unknown>>({});
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const showToast = (type: 'success' | 'error', message: string) => {
+    setToast({ type, message });
+    setTimeout(() => setToast(null), 3500);
+  };
+
+  // ---------- Data fetching ----------
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      if (typeFilter) params.set('type', typeFilter);
+      if (search.trim()) params.set('search', search.trim());
+      params.set('page', String(page));
+      params.set('pageSize', String(PAGE_SIZE));
+
+      const res = await fetch(`${API_BASE}/stripe-events?${params}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!res.ok) throw new Error('Failed to load events');
+
+      const data = await res.json();
+      setEvents(data.events || []);
+      setCounts(data.counts || {});
+      setTypes(data.types || []);
+      setTotal(data.total || 0);
+    } catch {
+      showToast('error', 'Could not load payment events.');
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken, statusFilter, typeFilter, search, page]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const toggleExpanded = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    if (payloads[id]) return;
+
+    try {
+      const res = await fetch(`${API_BASE}/stripe-events/${id}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (!res.ok) throw new Error();
+      const data = await res.json();
+      setPayloads(prev => ({ ...prev, [id]: data.payload }));
+    } catch {
+      showToast('error', 'Could not load event payload.');
+    }
+  };
+
+  const handleReplay = async (event: StripeEvent) => {
+    setReplayingId(event.id);
+    try {
+      const res = await fetch(`${API_BASE}/stripe-events/${event.id}/replay`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Replay failed');
+      showToast('success', `Replayed ${event.type} (${STATUS_CONFIG[data.event.status as EventStatus]?.label || data.event.status})`);
+    } catch (err: any) {
+      showToast('error', err.message || 'Replay failed');
+    } finally {
+      setReplayingId(null);
+      fetchEvents();
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const allCount = Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-serif text-stone-800">Payment Events</h1>
+          <p className="text-stone-500 mt-1">Stripe webhook deliveries and how each one was handled</p>
+        </div>
+        <button
+          onClick={fetchEvents}
+          className="flex items-center gap-2 px-3 py-2 text-stone-600 hover:bg-stone-100 rounded-lg transition"
+        >
+          <RefreshCw size={18} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Failed banner */}
+      {(counts.failed || 0) > 0 && statusFilter !== 'failed' && (
+        <button
+          onClick={() => { setStatusFilter('failed'); setPage(1); }}
+          className="w-full flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 hover:bg-red-100 transition text-left"
+        >
+          <AlertCircle size={16} />
+          {counts.failed} event{counts.failed === 1 ? '' : 's'} failed to process. Review and replay them once the cause is fixed.
+        </button>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm p-4 flex flex-wrap items-center gap-3">
+        <div className="flex flex-wrap gap-1">
+          {STATUS_TABS.map(tab => {
+            const count = tab.value === 'all' ? allCount : counts[tab.value] || 0;
+            return (
+              <button
+                key={tab.value}
+                onClick={() => { setStatusFilter(tab.value); setPage(1); }}
+                className={`px-3 py-1.5 rounded-md text-sm transition ${
+                  statusFilter === tab.value ? 'bg-stone-900 text-white' : 'text-stone-600 hover:bg-stone-100'
+                }`}
+              >
+                {tab.label} <span className="opacity-60">{count}</span>
+              </button>
+            );
+          })}
+        </div>
+        <select
+          value={typeFilter}
+          onChange={(e) => { setTypeFilter(e.target.value); setPage(1); }}
+          className="px-3 py-2 border border-stone-200 rounded-lg text-sm"
+        >
+          <option value="">All event types</option>
+          {types.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <div className="relative flex-1 min-w-[200px]">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-stone-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); setPage(1); }}
+            placeholder="Search event, session or charge id"
+            className="w-full pl-9 pr-3 py-2 border border-stone-200 rounded-lg text-sm"
+          />
+        </div>
+      </div>
+
+      {/* Event List */}
+      <div className="bg-white rounded-lg shadow-sm">
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="w-8 h-8 border-4 border-stone-300 border-t-clay rounded-full animate-spin mx-auto mb-4" />
+            <p className="text-stone-500">Loading events...</p>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="p-8 text-center">
+            <Webhook size={32} className="mx-auto text-stone-300 mb-2" />
+            <p className="text-stone-500">No webhook events recorded</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-stone-100">
+            {events.map(event => {
+              const cfg = STATUS_CONFIG[event.status] || STATUS_CONFIG.processing;
+              const expanded = expandedId === event.id;
+              return (
+                <div key={event.id}>
+                  <div className="p-4 flex items-start gap-4 hover:bg-stone-50 transition">
+                    <button
+                      onClick={() => toggleExpanded(event.id)}
+                      className="mt-0.5 text-stone-400 hover:text-stone-600"
+                      aria-label={expanded ? 'Hide payload' : 'Show payload'}
+                    >
+                      <ChevronDown size={16} className={`transition-transform ${expanded ? 'rotate-180' : ''}`} />
+                    </button>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium text-stone-800 font-mono">{event.type}</span>
+                        <span className={`inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium ${cfg.bg} ${cfg.text}`}>
+                          {cfg.label}
+                        </span>
+                        {!event.livemode && (
+                          <span className="inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium bg-amber-50 text-amber-700">Test</span>
+                        )}
+                        {event.attempts > 1 && (
+                          <span className="text-xs text-stone-400">{event.attempts} attempts</span>
+                        )}
+                      </div>
+                      <p className="text-xs text-stone-400 mt-0.5 font-mono truncate">
+                        {event.id}{event.objectId && ` · ${event.objectId}`}
+                      </p>
+                      {event.orderId && (
+                        <Link to={`/admin/orders/${event.orderId}`} className="text-xs text-clay hover:underline">
+                          Order {event.orderNumber || event.orderId}
+                        </Link>
+                      )}
+                      {event.error && (
+                        <p className="text-xs text-red-600 mt-1">{event.error}</p>
+                      )}
+                    </div>
+
+                    <div className="text-right whitespace-nowrap">
+                      <p className="text-xs text-stone-500">{formatDateTime(event.receivedAt)}</p>
+                      {event.processedAt && (
+                        <p className="text-xs text-stone-300">Handled {formatDateTime(event.processedAt)}</p>
+                      )}
+                    </div>
+
+                    <button
+                      onClick={() => handleReplay(event)}
+                      disabled={replayingId === event.id}
+                      className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-xs font-medium transition disabled:opacity-50 ${
+                        event.status === 'failed'
+                          ? 'bg-stone-900 text-white hover:bg-stone-700'
+                          : 'text-stone-500 hover:bg-stone-100'
+                      }`}
+                      title="Run this event again from its stored payload"
+                    >
+                      {replayingId === event.id ? <Loader2 size={12} className="animate-spin" /> : <RotateCw size={12} />}
+                      Replay
+                    </button>
+                  </div>
+
+                  {expanded && (
+                    <div className="px-4 pb-4 pl-12">
+                      {payloads[event.id] ? (
+                        <pre className="text-xs bg-stone-50 border border-stone-200 rounded-md p-3 overflow-x-auto max-h-96">
+                          {JSON.stringify(payloads[event.id], null, 2)}
+                        </pre>
+                      ) : (
+                        <Loader2 size={16} className="animate-spin text-stone-400" />
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-between text-sm text-stone-500">
+          <span>{total} events</span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page === 1}
+              className="p-1.5 rounded hover:bg-stone-100 disabled:opacity-40"
+            >
+              <ChevronLeft size={16} />
+            </button>
+            <span>Page {page} of {totalPages}</span>
+            <button
+              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              disabled={page === totalPages}
+              className="p-1.5 rounded hover:bg-stone-100 disabled:opacity-40"
+            >
+              <ChevronRight size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Toast */}
+      {toast && (
+        <div className={`fixed bottom-6 right-6 z-50 px-4 py-3 rounded-lg shadow-lg text-sm ${
+          toast.type === 'success' ? 'bg-stone-900 text-white' : 'bg-red-600 text-white'
+        }`}>
+          {toast.message}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -32,6 +32,7 @@ interface Subscriber {
   lastClickedAt: string | null;
   bounceCount: number;
   lastBounceAt: string | null;
+  customFields: Record<string, string> | null;
   createdAt: string;
 }
 
@@ -155,6 +156,9 @@ export default function SubscriberDetail() {
   const [tagDropdownOpen, setTagDropdownOpen] = useState(false);
   const [newTagValue, setNewTagValue] = useState('');
 
+  const [newFieldKey, setNewFieldKey] = useState('');
+  const [newFieldValue, setNewFieldValue] = useState('');
+
   const [editingName, setEditingName] = useState(false);
   const [editFirstName, setEditFirstName] = useState('');
   const [editLastName, setEditLastName] = useState('');
@@ -264,6 +268,34 @@ export default function SubscriberDetail() {
     }
   };
 
+  // -- custom fields --------------------------------------------------------
+  const handleSetField = async () => {
+    if (!subscriber) return;
+    const key = newFieldKey.trim().toLowerCase().replace(/[^a-z0-9_]+/g, '_');
+    if (!key || !newFieldValue.trim()) return;
+    try {
+      const updated = await updateSubscriber({
+        customFields: { ...(subscriber.customFields || {}), [key]: newFieldValue.trim() },
+      });
+      setSubscriber(updated);
+      setNewFieldKey('');
+      setNewFieldValue('');
+    } catch (err: any) {
+      toast.error(err.message);
+    }
+  };
+
+  const handleRemoveField = async (key: string) => {
+    if (!subscriber) return;
+    const { [key]: _removed, ...rest } = subscriber.customFields || {};
+    try {
+      const updated = await updateSubscriber({ customFields: Object.keys(rest).length > 0 ? rest : null });
+      setSubscriber(updated);
+    } catch (err: any) {
+      toast.error(err.message);
+    }
+  };
+
   // -- tags -----------------------------------------------------------------
   const handleAddTag = async (tag: string) => {
     if (!subscriber || !tag.trim()) return;
@@ -652,6 +684,54 @@ export default function SubscriberDetail() {
               </div>
             </div>
 
+            {/* --- Custom fields ------------------------------------------ */}
+            <div className="mb-6">
+              <h3 className="text-sm font-semibold text-stone-700 mb-1">Custom Fields</h3>
+              <p className="text-xs text-stone-400 mb-2">
+                Use in campaigns as a merge tag, e.g. <code>{'{{custom.field_name}}'}</code>
+              </p>
+              <dl className="space-y-1 mb-2">
+                {Object.entries(subscriber.customFields || {}).map(([key, value]) => (
+                  <div key={key} className="flex items-center gap-3 text-sm">
+                    <dt className="text-stone-400 font-mono text-xs w-36 truncate">{key}</dt>
+                    <dd className="text-stone-700 flex-1 truncate">{value}</dd>
+                    <button
+                      onClick={() => handleRemoveField(key)}
+                      className="text-stone-400 hover:text-red-500 transition-colors"
+                      title={`Remove "${key}"`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </div>
+                ))}
+              </dl>
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={newFieldKey}
+                  onChange={e => setNewFieldKey(e.target.value)}
+                  placeholder="Field name"
+                  className="border border-stone-200 rounded px-2 py-1.5 text-xs w-36 focus:outline-none focus:ring-1 focus:ring-[#8d3038]/30 focus:border-[#8d3038]"
+                />
+                <input
+                  type="text"
+                  value={newFieldValue}
+                  onChange={e => setNewFieldValue(e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') handleSetField(); }}
+                  placeholder="Value"
+                  className="border border-stone-200 rounded px-2 py-1.5 text-xs flex-1 focus:outline-none focus:ring-1 focus:ring-[#8d3038]/30 focus:border-[#8d3038]"
+                />
+                <button
+                  onClick={handleSetField}
+                  disabled={!newFieldKey.trim() || !newFieldValue.trim()}
+                  className="inline-flex items-center gap-1 text-xs text-stone-500 hover:text-[#8d3038] disabled:opacity-50 transition-colors px-2 py-1.5 rounded border border-dashed border-stone-300 hover:border-[#8d3038]"
+                >
+                  <Plus className="w-3 h-3" />
+                  Set
+                </button>
+              </div>
+            </div>
+
             {/* --- Dates -------------------------------------------------- */}
             <div className="mb-6 border-t border-stone-100 pt-4">
               <h3 className="text-sm font-semibold text-stone-700 mb-2">Key Dates</h3>
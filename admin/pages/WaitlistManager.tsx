@@ -14,6 +14,10 @@ import {
   X,
   BellRing,
   Users,
+  ShoppingBag,
+  TrendingUp,
+  Lock,
+  Save,
 } from 'lucide-react';
 
 // ---------------------------------------------------------------------------
@@ -31,15 +35,35 @@ interface WaitlistEntry {
   customerName: string | null;
   status: WaitlistStatus;
   notifiedAt: string | null;
+  holdExpiresAt: string | null;
+  purchasedAt: string | null;
+  orderNumber: string | null;
   createdAt: string;
 }
 
 interface WaitlistStats {
   totalWaiting: number;
   totalNotified: number;
+  totalPurchased: number;
+  conversionRate: number;
   totalProducts: number;
 }
 
+interface WaitlistSettings {
+  firstComeOnly: boolean;
+  holdHours: number;
+}
+
+const DEFAULT_SETTINGS: WaitlistSettings = { firstComeOnly: false, holdHours: 24 };
+
+const EMPTY_STATS: WaitlistStats = {
+  totalWaiting: 0,
+  totalNotified: 0,
+  totalPurchased: 0,
+  conversionRate: 0,
+  totalProducts: 0,
+};
+
 interface ProductGroup {
   productId: string;
   productName: string;
@@ -112,7 +136,7 @@ function StatCard({
 }: {
   icon: React.ElementType;
   label: string;
-  value: number;
+  value: number | string;
   accent: string;
   iconColor: string;
 }) {
@@ -271,6 +295,22 @@ function ProductGroupCard({
                     </span>
                   )}
 
+                  {/* First-come hold */}
+                  {entry.status === 'notified' && entry.holdExpiresAt && new Date(entry.holdExpiresAt) > new Date() && (
+                    <span className="inline-flex items-center gap-1 text-[11px] font-medium px-2 py-0.5 rounded-full bg-stone-100 text-stone-600">
+                      <Lock size={10} />
+                      Held until {new Date(entry.holdExpiresAt).toLocaleString('en-AU', { dateStyle: 'medium', timeStyle: 'short' })}
+                    </span>
+                  )}
+
+                  {/* Purchase */}
+                  {entry.purchasedAt && (
+                    <span className="text-xs text-stone-400">
+                      Bought {relativeTime(entry.purchasedAt)}
+                      {entry.orderNumber && ` · ${entry.orderNumber}`}
+                    </span>
+                  )}
+
                   {/* Signed up date */}
                   <span className="text-xs text-stone-400">
                     Signed up {relativeTime(entry.createdAt)}
@@ -328,13 +368,13 @@ export default function WaitlistManager() {
 
   // Data
   const [entries, setEntries] = useState<WaitlistEntry[]>([]);
-  const [stats, setStats] = useState<WaitlistStats>({
-    totalWaiting: 0,
-    totalNotified: 0,
-    totalProducts: 0,
-  });
+  const [stats, setStats] = useState<WaitlistStats>(EMPTY_STATS);
   const [loading, setLoading] = useState(true);
 
+  // Automatic notification settings
+  const [settings, setSettings] = useState<WaitlistSettings>(DEFAULT_SETTINGS);
+  const [settingsSaving, setSettingsSaving] = useState(false);
+
   // Filters
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [searchQuery, setSearchQuery] = useState('');
@@ -386,13 +426,7 @@ export default function WaitlistManager() {
 
       const data = await res.json();
       setEntries(data.entries || []);
-      setStats(
-        data.stats || {
-          totalWaiting: 0,
-          totalNotified: 0,
-          totalProducts: 0,
-        }
-      );
+      setStats({ ...EMPTY_STATS, ...data.stats });
     } catch {
       showToast('Could not load waitlist. Please try again.', 'error');
     } finally {
@@ -404,6 +438,42 @@ export default function WaitlistManager() {
     fetchWaitlist();
   }, [fetchWaitlist]);
 
+  useEffect(() => {
+    fetch(`${API_BASE}/settings`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.waitlist) setSettings({ ...DEFAULT_SETTINGS, ...data.waitlist });
+      })
+      .catch(() => {});
+  }, [accessToken]);
+
+  const saveSettings = async () => {
+    setSettingsSaving(true);
+    try {
+      const res = await fetch(`${API_BASE}/settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          waitlist: { ...settings, holdHours: Math.min(168, Math.max(1, Math.round(settings.holdHours) || 24)) },
+        }),
+      });
+
+      if (!res.ok) throw new Error('Failed to save settings');
+      showToast('Waitlist settings saved.');
+    } catch {
+      showToast('Could not save waitlist settings. Please try again.', 'error');
+    } finally {
+      setSettingsSaving(false);
+    }
+  };
+
   // ---------- Toggle group expansion ----------
 
   const toggleGroup = (productId: string) => {
@@ -581,7 +651,7 @@ export default function WaitlistManager() {
       </div>
 
       {/* Stats cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+      <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-5 gap-4 mb-6">
         <StatCard
           icon={Clock}
           label="Waiting"
@@ -596,6 +666,20 @@ export default function WaitlistManager() {
           accent="bg-green-100"
           iconColor="text-green-600"
         />
+        <StatCard
+          icon={ShoppingBag}
+          label="Purchased"
+          value={stats.totalPurchased}
+          accent="bg-blue-100"
+          iconColor="text-blue-600"
+        />
+        <StatCard
+          icon={TrendingUp}
+          label="Conversion Rate"
+          value={`${stats.conversionRate}%`}
+          accent="bg-rose-100"
+          iconColor="text-rose-700"
+        />
         <StatCard
           icon={Package}
           label="Products with Waitlists"
@@ -605,6 +689,56 @@ export default function WaitlistManager() {
         />
       </div>
 
+      {/* Automatic notifications */}
+      <div className="bg-white rounded-lg border border-stone-200 shadow-sm p-4 mb-6">
+        <div className="flex flex-col lg:flex-row lg:items-center gap-4">
+          <div className="flex-1">
+            <p className="text-sm font-medium text-stone-900">Automatic notifications</p>
+            <p className="text-xs text-stone-500 mt-0.5">
+              Waiting customers are emailed as soon as a sold-out product is restocked, refunded back
+              into stock or counted in a stocktake. Conversion counts notified customers who went on to buy.
+            </p>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-stone-700">
+            <input
+              type="checkbox"
+              checked={settings.firstComeOnly}
+              onChange={(e) => setSettings((prev) => ({ ...prev, firstComeOnly: e.target.checked }))}
+              className="rounded border-stone-300"
+            />
+            One-of-a-kind pieces go to the first in line
+          </label>
+          <label className="flex items-center gap-2 text-sm text-stone-700">
+            Hold for
+            <input
+              type="number"
+              min={1}
+              max={168}
+              value={settings.holdHours}
+              disabled={!settings.firstComeOnly}
+              onChange={(e) => setSettings((prev) => ({ ...prev, holdHours: Number(e.target.value) }))}
+              className="w-16 bg-white border border-stone-200 rounded-md px-2 py-1.5 text-sm disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-stone-400 focus:ring-offset-1"
+            />
+            hours
+          </label>
+          <button
+            onClick={saveSettings}
+            disabled={settingsSaving}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white rounded-md transition-colors disabled:opacity-50 flex-shrink-0"
+            style={{ backgroundColor: '#8d3038' }}
+            onMouseEnter={(e) => {
+              if (!settingsSaving) e.currentTarget.style.backgroundColor = '#6b2228';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = '#8d3038';
+            }}
+          >
+            {settingsSaving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />}
+            Save
+          </button>
+        </div>
+      </div>
+
       {/* Toolbar */}
       <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
         {/* Search */}
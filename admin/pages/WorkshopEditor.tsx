@@ -55,6 +55,7 @@ interface WorkshopData {
   tags: string[];
   publishedAt: string | null;
   scheduledAt: string | null;
+  archiveAt: string | null;
   displayOrder: number;
   enrolledCount: number;
 }
@@ -75,7 +76,7 @@ const EMPTY_WORKSHOP: WorkshopData = {
   startAt: '', endAt: '', timezone: 'Australia/Sydney', evergreen: false,
   ticketingUrl: '', includes: [], outcomes: [], modules: [],
   seoTitle: '', seoDescription: '', ogImageUrl: '', canonicalUrl: '',
-  tags: [], publishedAt: null, scheduledAt: null, displayOrder: 0, enrolledCount: 0,
+  tags: [], publishedAt: null, scheduledAt: null, archiveAt: null, displayOrder: 0, enrolledCount: 0,
 };
 
 const TIMEZONES = [
@@ -299,6 +300,7 @@ export default function WorkshopEditor() {
               : [],
           publishedAt: raw.publishedAt || null,
           scheduledAt: raw.scheduledAt || null,
+          archiveAt: raw.archiveAt || null,
           displayOrder: raw.displayOrder || 0,
           enrolledCount: raw.enrolledCount || 0,
         };
@@ -984,6 +986,19 @@ export default function WorkshopEditor() {
                   </button>
                 )}
               </div>
+
+              {data.status !== 'archived' && (
+                <div className="pt-3 border-t border-stone-100">
+                  <FieldLabel label="Archive on" />
+                  <input
+                    type="datetime-local"
+                    value={toDatetimeLocal(data.archiveAt || '')}
+                    onChange={(e) => updateField('archiveAt', fromDatetimeLocal(e.target.value) || null)}
+                    className={inputClass}
+                  />
+                  <p className="text-xs text-stone-400 mt-1">Taken off the site automatically at this time.</p>
+                </div>
+              )}
             </Card>
 
             {/* Schedule & Dates */}
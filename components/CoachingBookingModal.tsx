@@ -0,0 +1,157 @@
+import React, { useState, useEffect } from 'react';
+import { X, CalendarDays, AlertCircle, Loader2 } from 'lucide-react';
+import { API_BASE } from '../config/api';
+import { CoachingPackage } from '../types';
+import { useCustomerAuth } from '../context/CustomerAuthContext';
+import { startServiceCheckout } from '../lib/checkout';
+
+interface CoachingBookingModalProps {
+  item: CoachingPackage | null;
+  onClose: () => void;
+}
+
+interface Slot {
+  startTime: string;
+  endTime: string;
+  available: boolean;
+}
+
+const todayISO = () => new Date().toISOString().slice(0, 10);
+
+const CoachingBookingModal: React.FC<CoachingBookingModalProps> = ({ item, onClose }) => {
+  const { accessToken } = useCustomerAuth();
+  const [date, setDate] = useState('');
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [selected, setSelected] = useState<Slot | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  // Reset whenever a different package is opened
+  useEffect(() => {
+    setDate('');
+    setSlots([]);
+    setSelected(null);
+    setError('');
+  }, [item?.id]);
+
+  useEffect(() => {
+    if (!date) return;
+    let cancelled = false;
+    setLoadingSlots(true);
+    setSelected(null);
+    fetch(`${API_BASE}/bookings/slots/${date}`)
+      .then(res => res.ok ? res.json() : { slots: [] })
+      .then(data => { if (!cancelled) setSlots(data.slots || []); })
+      .catch(() => { if (!cancelled) setSlots([]); })
+      .finally(() => { if (!cancelled) setLoadingSlots(false); });
+    return () => { cancelled = true; };
+  }, [date]);
+
+  if (!item) return null;
+
+  const handleCheckout = async () => {
+    if (!selected) return;
+    setSubmitting(true);
+    setError('');
+    try {
+      await startServiceCheckout([{
+        type: 'coaching',
+        id: item.id,
+        slot: { sessionDate: date, startTime: selected.startTime, endTime: selected.endTime },
+      }], accessToken);
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong. Please try again.');
+      setSubmitting(false);
+    }
+  };
+
+  const availableSlots = slots.filter(s => s.available);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center px-4 pt-24 pb-4">
+      <div className="absolute inset-0 bg-stone-900/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="relative bg-white w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl animate-fade-in-up rounded-2xl">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-stone-400 hover:text-stone-800 transition-colors z-10"
+        >
+          <X size={24} />
+        </button>
+
+        <div className="p-8 md:p-10">
+          <div className="text-center mb-8">
+            <p className="text-xs uppercase tracking-[0.3em] text-stone-400 mb-2">Book Your First Session</p>
+            <h2 className="font-serif text-2xl md:text-3xl text-stone-900 mb-3">{item.title}</h2>
+            {item.price && <p className="text-sm text-stone-500">{item.price}</p>}
+          </div>
+
+          <label htmlFor="session-date" className="text-xs font-bold uppercase tracking-widest text-stone-500 block mb-1">
+            Date
+          </label>
+          <input
+            type="date"
+            id="session-date"
+            min={todayISO()}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-full border-b border-stone-300 py-2 focus:border-clay focus:outline-none transition-colors bg-transparent mb-6"
+          />
+
+          {date && (
+            <div className="mb-6">
+              <p className="text-xs font-bold uppercase tracking-widest text-stone-500 mb-3">Time</p>
+              {loadingSlots ? (
+                <div className="flex items-center gap-2 text-sm text-stone-400">
+                  <Loader2 size={16} className="animate-spin" /> Checking availability...
+                </div>
+              ) : availableSlots.length === 0 ? (
+                <p className="text-sm text-stone-500 flex items-center gap-2">
+                  <CalendarDays size={16} className="text-stone-400" /> No times available on this day — please try another date.
+                </p>
+              ) : (
+                <div className="grid grid-cols-3 gap-2">
+                  {availableSlots.map(slot => (
+                    <button
+                      key={slot.startTime}
+                      type="button"
+                      onClick={() => setSelected(slot)}
+                      className={`py-2 text-sm border transition-colors ${
+                        selected?.startTime === slot.startTime
+                          ? 'bg-stone-900 text-white border-stone-900'
+                          : 'border-stone-200 text-stone-700 hover:border-clay'
+                      }`}
+                    >
+                      {slot.startTime}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-6 p-3 bg-red-50 border border-red-200 flex items-start gap-2">
+              <AlertCircle size={16} className="text-red-600 shrink-0 mt-0.5" />
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <button
+            onClick={handleCheckout}
+            disabled={!selected || submitting}
+            className="w-full bg-clay text-white py-4 uppercase tracking-widest text-xs font-bold hover:bg-stone-900 transition-colors disabled:bg-stone-300 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Redirecting to payment...' : 'Continue to Payment'}
+          </button>
+          <p className="text-[11px] text-stone-400 text-center mt-3">
+            Your session is confirmed once payment is complete.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CoachingBookingModal;
@@ -7,9 +7,10 @@ import { useNavigate } from 'react-router-dom';
 interface CoachingCardProps {
   item: CoachingPackage;
   onApply?: (packageName: string) => void;
+  onBook?: (item: CoachingPackage) => void;
 }
 
-const CoachingCard: React.FC<CoachingCardProps> = ({ item, onApply }) => {
+const CoachingCard: React.FC<CoachingCardProps> = ({ item, onApply, onBook }) => {
   const isPopular = item.badge === 'MOST POPULAR';
   const navigate = useNavigate();
 
@@ -42,6 +43,9 @@ const CoachingCard: React.FC<CoachingCardProps> = ({ item, onApply }) => {
 
   const upfront = getUpfrontInfo();
 
+  // Packages with a set price can be booked and paid for online
+  const bookable = !!onBook && !!item.priceAmount && (item.priceType === 'fixed' || item.priceType === 'from');
+
   return (
     <div className={`flex flex-col h-full bg-white border relative card-lift ${isPopular ? 'border-stone-800 shadow-md z-10' : 'border-stone-200'}`}>
 
@@ -103,6 +107,15 @@ const CoachingCard: React.FC<CoachingCardProps> = ({ item, onApply }) => {
           >
             {item.ctaText}
           </button>
+          {bookable && (
+            <button
+              onClick={() => onBook!(item)}
+              aria-label={`Book and pay for ${item.title}`}
+              className="flex items-center justify-center w-full py-3 mt-2 text-[10px] uppercase tracking-widest font-bold transition-colors border bg-white text-stone-900 border-stone-300 hover:border-stone-900"
+            >
+              Book &amp; Pay Online
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { X, CheckCircle, AlertCircle, Loader2, CalendarDays, MapPin } from 'lucide-react';
+import { API_BASE } from '../config/api';
+import { LearnItem } from '../types';
+import { useCustomerAuth } from '../context/CustomerAuthContext';
+import { startServiceCheckout } from '../lib/checkout';
+
+interface EnrolModalProps {
+  item: LearnItem | null;
+  onClose: () => void;
+}
+
+interface CohortOption {
+  id: string;
+  title: string;
+  startAt: string | null;
+  endAt: string | null;
+  timezone: string;
+  locationLabel: string | null;
+  price: string | null;
+  compareAtPrice: string | null;
+  earlyBird: boolean;
+  earlyBirdEndsAt: string | null;
+  spotsLeft: number | null;
+  full: boolean;
+  waitlistOpen: boolean;
+}
+
+const formatDate = (iso: string | null, timezone: string) => {
+  if (!iso) return 'Date to be confirmed';
+  return new Date(iso).toLocaleDateString('en-AU', {
+    weekday: 'short', day: 'numeric', month: 'long', year: 'numeric', timeZone: timezone,
+  });
+};
+
+const formatPrice = (amount: string | null) => amount ? `$${parseFloat(amount).toFixed(2)}` : '';
+
+const EnrolModal: React.FC<EnrolModalProps> = ({ item, onClose }) => {
+  const { user, accessToken, isAuthenticated } = useCustomerAuth();
+  const [cohorts, setCohorts] = useState<CohortOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  // Waitlist form for a full date
+  const [waitlistFor, setWaitlistFor] = useState<CohortOption | null>(null);
+  const [waitlistName, setWaitlistName] = useState('');
+  const [waitlistEmail, setWaitlistEmail] = useState('');
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!item) return;
+    let cancelled = false;
+    setLoading(true);
+    setError('');
+    setWaitlistFor(null);
+    setWaitlistPosition(null);
+    fetch(`${API_BASE}/learn/${item.id}/cohorts`)
+      .then(res => res.ok ? res.json() : [])
+      .then(data => { if (!cancelled) setCohorts(Array.isArray(data) ? data : []); })
+      .catch(() => { if (!cancelled) setCohorts([]); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [item?.id]);
+
+  if (!item) return null;
+
+  const buy = async (type: 'learn' | 'cohort', id: string) => {
+    setSubmittingId(id);
+    setError('');
+    try {
+      await startServiceCheckout([{ type, id }], accessToken);
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong. Please try again.');
+      setSubmittingId(null);
+    }
+  };
+
+  const joinWaitlist = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!waitlistFor) return;
+    setSubmittingId(waitlistFor.id);
+    setError('');
+    try {
+      const response = await fetch(`${API_BASE}/cohorts/${waitlistFor.id}/waitlist`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(isAuthenticated && accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+        },
+        body: JSON.stringify({ name: waitlistName, email: waitlistEmail }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Something went wrong');
+      setWaitlistPosition(data.position);
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong. Please try again.');
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  // Self-paced courses without scheduled dates are bought directly
+  const directPurchase = !loading && cohorts.length === 0 && item.type === 'ONLINE' && !!item.priceAmount;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-white w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-xl">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-stone-400 hover:text-stone-900 transition-colors"
+        >
+          <X size={20} />
+        </button>
+
+        <div className="p-8">
+          <p className="text-xs uppercase tracking-[0.3em] text-stone-400 mb-2">
+            {item.type === 'ONLINE' ? 'Enrol' : 'Reserve Your Spot'}
+          </p>
+          <h3 className="text-xl font-serif text-stone-900 mb-6">{item.title}</h3>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 flex items-start gap-2">
+              <AlertCircle size={16} className="text-red-600 shrink-0 mt-0.5" />
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          {waitlistPosition !== null ? (
+            <div className="text-center py-6">
+              <div className="w-12 h-12 bg-clay/10 rounded-full flex items-center justify-center mx-auto mb-4">
+                <CheckCircle size={24} className="text-clay" />
+              </div>
+              <h4 className="text-lg font-serif text-stone-900 mb-2">You're on the waitlist</h4>
+              <p className="text-stone-500 text-sm">
+                You're number {waitlistPosition} for {waitlistFor?.title}. We'll be in touch if a spot opens up.
+              </p>
+            </div>
+          ) : waitlistFor ? (
+            <form onSubmit={joinWaitlist} className="space-y-4">
+              <p className="text-stone-500 text-sm">
+                {waitlistFor.title} is full. Join the waitlist and we'll contact you if a spot opens up.
+              </p>
+              {!isAuthenticated && (
+                <>
+                  <input
+                    type="text"
+                    value={waitlistName}
+                    onChange={(e) => setWaitlistName(e.target.value)}
+                    placeholder="Your name"
+                    required
+                    className="w-full border border-stone-200 px-4 py-3 text-sm text-stone-900 placeholder:text-stone-300 focus:outline-none focus:border-clay transition-colors"
+                  />
+                  <input
+                    type="email"
+                    value={waitlistEmail}
+                    onChange={(e) => setWaitlistEmail(e.target.value)}
+                    placeholder="your@email.com"
+                    required
+                    className="w-full border border-stone-200 px-4 py-3 text-sm text-stone-900 placeholder:text-stone-300 focus:outline-none focus:border-clay transition-colors"
+                  />
+                </>
+              )}
+              {isAuthenticated && user && (
+                <p className="text-sm text-stone-600">Joining as {user.email}</p>
+              )}
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => setWaitlistFor(null)}
+                  className="flex-1 border border-stone-200 py-3 uppercase tracking-widest text-xs font-bold text-stone-600 hover:border-stone-900 transition-colors"
+                >
+                  Back
+                </button>
+                <button
+                  type="submit"
+                  disabled={submittingId === waitlistFor.id}
+                  className="flex-1 bg-stone-900 text-white py-3 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors disabled:bg-stone-400"
+                >
+                  {submittingId === waitlistFor.id ? 'Joining...' : 'Join Waitlist'}
+                </button>
+              </div>
+            </form>
+          ) : loading ? (
+            <div className="flex items-center gap-2 text-sm text-stone-400 py-6 justify-center">
+              <Loader2 size={16} className="animate-spin" /> Loading dates...
+            </div>
+          ) : directPurchase ? (
+            <div>
+              <p className="text-2xl font-serif text-stone-900 mb-1">{formatPrice(item.priceAmount!)}</p>
+              <p className="text-xs text-stone-400 mb-6">Lifetime access</p>
+              <button
+                onClick={() => buy('learn', item.id)}
+                disabled={submittingId !== null}
+                className="w-full bg-stone-900 text-white py-3 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors disabled:bg-stone-400"
+              >
+                {submittingId ? 'Redirecting to payment...' : 'Continue to Payment'}
+              </button>
+            </div>
+          ) : cohorts.length === 0 ? (
+            <div className="text-center py-4">
+              <p className="text-stone-500 text-sm mb-6">
+                Bookings for upcoming dates aren't open online yet. Get in touch and we'll reserve a place for you.
+              </p>
+              <Link
+                to={`/contact?subject=${encodeURIComponent(item.title)}`}
+                className="inline-block bg-stone-900 text-white px-6 py-3 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors"
+              >
+                Contact Us
+              </Link>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {cohorts.map(cohort => (
+                <div key={cohort.id} className="border border-stone-200 p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="text-sm font-medium text-stone-900">{cohort.title}</p>
+                      <p className="text-xs text-stone-500 flex items-center gap-1 mt-1">
+                        <CalendarDays size={12} /> {formatDate(cohort.startAt, cohort.timezone)}
+                      </p>
+                      {cohort.locationLabel && (
+                        <p className="text-xs text-stone-500 flex items-center gap-1 mt-1">
+                          <MapPin size={12} /> {cohort.locationLabel}
+                        </p>
+                      )}
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="text-lg font-serif text-stone-900">{formatPrice(cohort.price)}</p>
+                      {cohort.compareAtPrice && (
+                        <p className="text-xs text-stone-400 line-through">{formatPrice(cohort.compareAtPrice)}</p>
+                      )}
+                      {cohort.earlyBird && (
+                        <p className="text-[10px] uppercase tracking-widest text-clay font-bold">
+                          Early bird{cohort.earlyBirdEndsAt ? ` until ${new Date(cohort.earlyBirdEndsAt).toLocaleDateString('en-AU')}` : ''}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between mt-4">
+                    <p className="text-[10px] uppercase tracking-widest text-stone-400">
+                      {cohort.full ? 'Fully booked' : cohort.spotsLeft !== null ? `${cohort.spotsLeft} spots left` : 'Spots available'}
+                    </p>
+                    {!cohort.full ? (
+                      <button
+                        onClick={() => buy('cohort', cohort.id)}
+                        disabled={submittingId !== null || !cohort.price}
+                        className="bg-clay text-white px-5 py-2 uppercase tracking-widest text-[10px] font-bold hover:bg-stone-900 transition-colors disabled:bg-stone-300"
+                      >
+                        {submittingId === cohort.id ? 'Redirecting...' : 'Book Now'}
+                      </button>
+                    ) : cohort.waitlistOpen ? (
+                      <button
+                        onClick={() => setWaitlistFor(cohort)}
+                        className="border border-stone-900 text-stone-900 px-5 py-2 uppercase tracking-widest text-[10px] font-bold hover:bg-stone-900 hover:text-white transition-colors"
+                      >
+                        Join Waitlist
+                      </button>
+                    ) : (
+                      <span className="text-[10px] uppercase tracking-widest text-stone-400 font-bold">Sold Out</span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EnrolModal;
@@ -489,6 +489,7 @@ const Layout = () => {
                   <li><Link to="/about" className="hover:text-clay transition-colors link-underline">About Lyne</Link></li>
                   <li><Link to="/contact" className="hover:text-clay transition-colors link-underline">Contact</Link></li>
                   <li><Link to="/faq" className="hover:text-clay transition-colors link-underline">Policies & FAQs</Link></li>
+                  <li><Link to="/orders/lookup" className="hover:text-clay transition-colors link-underline">Track an Order</Link></li>
                   <li><Link to="/admin" className="hover:text-clay transition-colors link-underline">Admin</Link></li>
                 </ul>
               </div>
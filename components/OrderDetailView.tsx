@@ -0,0 +1,290 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Check, Circle, FileText, Loader2, RotateCcw, Truck, XCircle } from 'lucide-react';
+import { CustomerOrder, CustomerOrderItem, Product, ProductCategory, ProductVariant } from '../types';
+import { resolveImageUrl } from '../config/api';
+import { useCart } from '../context/CartContext';
+
+interface OrderDetailViewProps {
+  order: CustomerOrder;
+  // Fetches the invoice HTML; signed-in and guest lookups authenticate differently
+  fetchInvoice: () => Promise<Response>;
+  onBack?: () => void;
+}
+
+export const ORDER_STATUS_LABELS: Record<CustomerOrder['status'], string> = {
+  pending: 'Awaiting payment',
+  confirmed: 'Processing',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export const formatOrderDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-AU', { day: 'numeric', month: 'long', year: 'numeric' });
+
+const money = (amount: string | number, currency: string) =>
+  `$${parseFloat(String(amount || 0)).toFixed(2)} ${currency}`;
+
+// Rebuild a cart-ready product from the order line's current shop listing
+const toCartProduct = (reorder: NonNullable<CustomerOrderItem['reorder']>): { product: Product; variant?: ProductVariant } => {
+  const { product, variant } = reorder;
+  return {
+    product: {
+      id: product.id,
+      name: product.name,
+      price: parseFloat(product.price),
+      currency: product.currency || 'AUD',
+      category: product.category as ProductCategory,
+      colours: [],
+      shortDescription: product.shortDescription || '',
+      longDescription: '',
+      image: product.image,
+      detailImages: [],
+      availability: product.availability,
+      productType: product.productType,
+    },
+    variant: variant ? {
+      id: variant.id,
+      title: variant.title,
+      options: variant.options,
+      price: parseFloat(variant.price),
+      image: variant.image || undefined,
+      available: true,
+    } : undefined,
+  };
+};
+
+const OrderDetailView: React.FC<OrderDetailViewProps> = ({ order, fetchInvoice, onBack }) => {
+  const navigate = useNavigate();
+  const { addToCart } = useCart();
+  const [downloading, setDownloading] = useState(false);
+  const [invoiceError, setInvoiceError] = useState('');
+
+  const reorderable = order.items.filter(i => i.reorder?.available);
+  const unavailable = order.items.filter(i => i.reorder && !i.reorder.available);
+
+  const handleInvoice = async () => {
+    setDownloading(true);
+    setInvoiceError('');
+    try {
+      const response = await fetchInvoice();
+      if (!response.ok) throw new Error('Failed to load invoice');
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, '_blank');
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch {
+      setInvoiceError('Unable to load the invoice. Please try again.');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleBuyAgain = () => {
+    for (const item of reorderable) {
+      const { product, variant } = toCartProduct(item.reorder!);
+      addToCart(product, variant);
+    }
+    navigate('/checkout');
+  };
+
+  const discountAmount = parseFloat(order.discountAmount || '0');
+  const giftCardAmount = parseFloat(order.giftCardAmount || '0');
+  const refundedAmount = parseFloat(order.refundedAmount || '0');
+  const address = order.shippingAddress;
+
+  return (
+    <div className="space-y-8">
+      {onBack && (
+        <button
+          onClick={onBack}
+          className="flex items-center gap-2 text-sm text-stone-500 hover:text-stone-900 transition-colors"
+        >
+          <ArrowLeft size={16} /> All orders
+        </button>
+      )}
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div>
+          <p className="text-xs uppercase tracking-widest text-stone-500 mb-1">Order</p>
+          <h3 className="text-2xl font-serif text-stone-900">{order.orderNumber}</h3>
+          <p className="text-sm text-stone-500 mt-1">
+            Placed {formatOrderDate(order.createdAt)} · {ORDER_STATUS_LABELS[order.status]}
+          </p>
+        </div>
+        <div className="flex gap-3">
+          {order.paymentStatus !== 'pending' && order.paidAt && (
+            <button
+              onClick={handleInvoice}
+              disabled={downloading}
+              className="flex items-center gap-2 border border-stone-300 text-stone-600 px-4 py-2 uppercase tracking-widest text-[10px] font-bold hover:border-stone-900 hover:text-stone-900 transition-colors disabled:opacity-50"
+            >
+              {downloading ? <Loader2 size={14} className="animate-spin" /> : <FileText size={14} />}
+              Invoice
+            </button>
+          )}
+          {reorderable.length > 0 && (
+            <button
+              onClick={handleBuyAgain}
+              className="flex items-center gap-2 bg-stone-900 text-white px-4 py-2 uppercase tracking-widest text-[10px] font-bold hover:bg-clay transition-colors"
+            >
+              <RotateCcw size={14} /> Buy again
+            </button>
+          )}
+        </div>
+      </div>
+
+      {invoiceError && <p className="text-sm text-red-600">{invoiceError}</p>}
+
+      {/* Status timeline */}
+      <ol className="flex flex-col sm:flex-row gap-4 sm:gap-0 bg-stone-50 border border-stone-100 p-6">
+        {order.timeline.map((step, idx) => {
+          const done = !!step.at;
+          const negative = step.key === 'cancelled' || step.key === 'refunded';
+          return (
+            <li key={step.key} className="flex-1 flex sm:flex-col items-center sm:items-start gap-3 sm:gap-2 relative">
+              <span className={`w-7 h-7 rounded-full flex items-center justify-center shrink-0 ${
+                !done ? 'bg-white border border-stone-300 text-stone-300'
+                  : negative ? 'bg-red-100 text-red-600'
+                  : 'bg-clay text-white'
+              }`}>
+                {!done ? <Circle size={10} /> : negative ? <XCircle size={14} /> : <Check size={14} />}
+              </span>
+              {idx < order.timeline.length - 1 && (
+                <span className={`hidden sm:block absolute top-3.5 left-9 right-2 h-px ${done ? 'bg-clay' : 'bg-stone-200'}`} />
+              )}
+              <div>
+                <p className={`text-sm font-medium ${done ? 'text-stone-900' : 'text-stone-400'}`}>{step.label}</p>
+                {step.at && <p className="text-xs text-stone-500">{formatOrderDate(step.at)}</p>}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* Tracking */}
+      {order.trackingNumber && (
+        <div className="flex items-start gap-3 p-4 border border-stone-200">
+          <Truck size={18} className="text-clay shrink-0 mt-0.5" />
+          <div className="text-sm">
+            <p className="text-stone-900">
+              Tracking number: <span className="font-medium">{order.trackingNumber}</span>
+            </p>
+            {order.trackingUrl && (
+              <a
+                href={order.trackingUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-clay hover:underline"
+              >
+                Track your parcel
+              </a>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Items */}
+      <div className="divide-y divide-stone-100 border-y border-stone-100">
+        {order.items.map(item => (
+          <div key={item.id} className="flex gap-4 py-4">
+            <div className="w-16 h-16 bg-stone-100 overflow-hidden shrink-0">
+              {item.productImage && (
+                <img src={resolveImageUrl(item.productImage)} alt={item.productName} className="w-full h-full object-cover" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              {item.slug && item.reorder ? (
+                <Link to={`/shop/${item.slug}`} className="text-sm font-medium text-stone-900 hover:text-clay transition-colors">
+                  {item.productName}
+                </Link>
+              ) : (
+                <p className="text-sm font-medium text-stone-900">{item.productName}</p>
+              )}
+              {item.variantTitle && <p className="text-xs text-stone-500">{item.variantTitle}</p>}
+              <p className="text-xs text-stone-500 mt-1">Qty {item.quantity}</p>
+              {item.refundedQuantity > 0 && (
+                <p className="text-[10px] uppercase tracking-wider text-stone-400 font-medium mt-1">
+                  {item.refundedQuantity === item.quantity ? 'Refunded' : `${item.refundedQuantity} refunded`}
+                </p>
+              )}
+            </div>
+            <p className="text-sm text-stone-900 whitespace-nowrap">
+              {money(parseFloat(item.price) * item.quantity, order.currency)}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      {unavailable.length > 0 && reorderable.length > 0 && (
+        <p className="text-xs text-stone-500">
+          {unavailable.map(i => i.productName).join(', ')} {unavailable.length === 1 ? 'is' : 'are'} no longer available and won't be added to your cart.
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {/* Shipping address */}
+        {address.address && (
+          <div>
+            <p className="text-xs uppercase tracking-widest text-stone-500 mb-2">Shipping to</p>
+            <p className="text-sm text-stone-900">{address.firstName} {address.lastName}</p>
+            <p className="text-sm text-stone-600">{address.address}</p>
+            <p className="text-sm text-stone-600">
+              {[address.city, address.state, address.postcode].filter(Boolean).join(' ')}
+            </p>
+            <p className="text-sm text-stone-600">{address.country}</p>
+          </div>
+        )}
+
+        {/* Totals */}
+        <div className="space-y-2 text-sm md:col-start-2">
+          <div className="flex justify-between text-stone-600">
+            <span>Subtotal</span>
+            <span>{money(order.subtotal, order.currency)}</span>
+          </div>
+          {(order.promotions || []).map(promotion => (
+            <div key={promotion.id} className="flex justify-between text-stone-600">
+              <span>{promotion.name}</span>
+              <span>−{money(promotion.amount, order.currency)}</span>
+            </div>
+          ))}
+          {discountAmount > 0 && (
+            <div className="flex justify-between text-stone-600">
+              <span>Discount{order.discountCode ? ` (${order.discountCode})` : ''}</span>
+              <span>−{money(discountAmount, order.currency)}</span>
+            </div>
+          )}
+          <div className="flex justify-between text-stone-600">
+            <span>Shipping</span>
+            <span>{parseFloat(order.shipping) > 0 ? money(order.shipping, order.currency) : 'Free'}</span>
+          </div>
+          {parseFloat(order.tax) > 0 && (
+            <div className="flex justify-between text-stone-500 text-xs">
+              <span>{order.taxInclusive ? `Includes ${order.taxName || 'tax'}` : order.taxName || 'Tax'}</span>
+              <span>{money(order.tax, order.currency)}</span>
+            </div>
+          )}
+          {giftCardAmount > 0 && (
+            <div className="flex justify-between text-stone-600">
+              <span>Gift card</span>
+              <span>−{money(giftCardAmount, order.currency)}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-medium text-stone-900 pt-2 border-t border-stone-200">
+            <span>Total</span>
+            <span>{money(order.total, order.currency)}</span>
+          </div>
+          {refundedAmount > 0 && (
+            <div className="flex justify-between text-stone-500">
+              <span>Refunded</span>
+              <span>−{money(refundedAmount, order.currency)}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OrderDetailView;
@@ -18,11 +18,15 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
   const { isInWishlist, toggleWishlist } = useWishlist();
   const { isAuthenticated, openAuthModal } = useCustomerAuth();
   const isSoldOut = product.availability === 'Sold out';
-  const isInCart = cart.some(item => item.id === product.id);
+  // Variants and gift cards need choices on the detail page before they can be added
+  const needsOptions = product.hasVariants || product.productType === 'gift-card';
+  const isInCart = !needsOptions && cart.some(item => item.id === product.id);
   const isOnSale = product.compareAtPrice && product.compareAtPrice < product.price;
   const wishlisted = isInWishlist(product.id);
 
   const handleAddToCart = (e: React.MouseEvent) => {
+    // Products with options need a choice first — let the card link through to the detail page
+    if (needsOptions) return;
     e.preventDefault();
     e.stopPropagation();
     if (!isSoldOut) {
@@ -48,9 +52,9 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
       onMouseLeave={() => setIsHovered(false)}
     >
       <div className={`relative overflow-hidden bg-stone-200 aspect-[4/5] mb-4 ${isSoldOut ? 'opacity-60 grayscale-[50%]' : ''}`}>
-        {(product.badge || isOnSale) && (
-          <span className={`absolute top-2 left-2 text-white px-2 py-1 text-[10px] uppercase tracking-widest z-10 ${isOnSale && !product.badge ? 'bg-clay/90' : 'bg-stone-900/90'}`}>
-            {product.badge || 'Sale'}
+        {(product.badge || product.promotionLabel || isOnSale) && (
+          <span className={`absolute top-2 left-2 text-white px-2 py-1 text-[10px] uppercase tracking-widest z-10 ${!product.badge ? 'bg-clay/90' : 'bg-stone-900/90'}`}>
+            {product.badge || product.promotionLabel || 'Sale'}
           </span>
         )}
 
@@ -89,7 +93,7 @@ const ProductCard: React.FC<ProductCardProps> = ({ product }) => {
                   ? 'bg-green-600 text-white'
                   : 'bg-white/90 text-stone-700 hover:bg-clay hover:text-white shadow-sm'
               }`}
-              title={isInCart ? 'Remove from cart' : 'Add to cart'}
+              title={needsOptions ? 'Choose options' : isInCart ? 'Remove from cart' : 'Add to cart'}
             >
               {isInCart || justAdded ? <Check size={18} /> : <ShoppingBag size={18} />}
             </button>
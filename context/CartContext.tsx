@@ -1,11 +1,21 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
-import { Product } from '../types';
+import { Product, ProductVariant, GiftCardDetails } from '../types';
 import { trackEvent } from '../lib/analytics';
 
 interface CartItem extends Product {
   quantity: number;
+  variantId?: string;
+  variantTitle?: string;
+  giftCard?: GiftCardDetails & { key: string };
 }
 
+// Identifies a cart line within a product: its variant, or the individual gift card
+export const cartLineKey = (item: CartItem) => item.variantId || item.giftCard?.key;
+
+// A product bought in two variants (or as two gift cards) is two separate cart lines
+const isSameLine = (item: CartItem, productId: string, lineKey?: string) =>
+  item.id === productId && (cartLineKey(item) || undefined) === (lineKey || undefined);
+
 interface CartNotification {
   product: Product;
   timestamp: number;
@@ -13,9 +23,9 @@ interface CartNotification {
 
 interface CartContextType {
   cart: CartItem[];
-  addToCart: (product: Product) => void;
-  removeFromCart: (productId: string) => void;
-  updateQuantity: (productId: string, quantity: number) => void;
+  addToCart: (product: Product, variant?: ProductVariant, giftCard?: GiftCardDetails) => void;
+  removeFromCart: (productId: string, lineKey?: string) => void;
+  updateQuantity: (productId: string, quantity: number, lineKey?: string) => void;
   clearCart: () => void;
   cartCount: number;
   cartTotal: number;
@@ -51,10 +61,32 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const dismissNotification = () => setCartNotification(null);
 
-  const addToCart = (product: Product) => {
+  const addToCart = (product: Product, variant?: ProductVariant, giftCard?: GiftCardDetails) => {
+    // Every gift card is its own line, even for the same amount
+    if (giftCard) {
+      const key = crypto.randomUUID();
+      trackEvent('add_to_cart', {
+        entityType: 'product',
+        entityId: product.id,
+        metadata: { quantity: 1, giftCardAmount: giftCard.amount },
+      });
+      setCart(prevCart => [
+        ...prevCart,
+        {
+          ...product,
+          price: giftCard.amount,
+          variantTitle: `For ${giftCard.recipientName || giftCard.recipientEmail}`,
+          giftCard: { ...giftCard, key },
+          quantity: 1,
+        },
+      ]);
+      setCartNotification({ product, timestamp: Date.now() });
+      return;
+    }
+
     setCart(prevCart => {
       // Each piece is one of a kind - only allow 1 in cart
-      const existingItem = prevCart.find(item => item.id === product.id);
+      const existingItem = prevCart.find(item => isSameLine(item, product.id, variant?.id));
       if (existingItem) {
         return prevCart; // Already in cart, don't add again
       }
@@ -63,27 +95,37 @@ export const CartProvider: React.FC<{ children: React.ReactNode }> = ({ children
       trackEvent('add_to_cart', {
         entityType: 'product',
         entityId: product.id,
-        metadata: { quantity: 1 },
+        metadata: { quantity: 1, ...(variant && { variantId: variant.id }) },
       });
-      return [...prevCart, { ...product, quantity: 1 }];
+      const item: CartItem = variant
+        ? {
+            ...product,
+            price: variant.price,
+            image: variant.image || product.image,
+            variantId: variant.id,
+            variantTitle: variant.title,
+            quantity: 1,
+          }
+        : { ...product, quantity: 1 };
+      return [...prevCart, item];
     });
     // Show notification
     setCartNotification({ product, timestamp: Date.now() });
   };
 
-  const removeFromCart = (productId: string) => {
-    setCart(prevCart => prevCart.filter(item => item.id !== productId));
+  const removeFromCart = (productId: string, lineKey?: string) => {
+    setCart(prevCart => prevCart.filter(item => !isSameLine(item, productId, lineKey)));
   };
 
-  const updateQuantity = (productId: string, quantity: number) => {
+  const updateQuantity = (productId: string, quantity: number, lineKey?: string) => {
     if (quantity <= 0) {
-      removeFromCart(productId);
+      removeFromCart(productId, lineKey);
       return;
     }
 
     setCart(prevCart =>
       prevCart.map(item =>
-        item.id === productId ? { ...item, quantity } : item
+        isSameLine(item, productId, lineKey) ? { ...item, quantity } : item
       )
     );
   };
@@ -0,0 +1,42 @@
+import { API_BASE } from '../config/api';
+
+const countryNames = typeof Intl !== 'undefined' && 'DisplayNames' in Intl
+  ? new Intl.DisplayNames(['en-AU'], { type: 'region' })
+  : null;
+
+/** Display name for an ISO country code, e.g. "AU" → "Australia". */
+export const countryName = (code: string) => countryNames?.of(code) || code;
+
+export interface ServiceCheckoutItem {
+  type: 'coaching' | 'learn' | 'cohort';
+  id: string;
+  slot?: { sessionDate: string; startTime: string; endTime: string };
+}
+
+/**
+ * Send the customer straight to Stripe for a coaching session, course or
+ * workshop date. These skip the shop cart, so the success page is told to
+ * leave the cart alone. Throws with the API's message if the item can't be
+ * booked (sold out, registration closed, slot taken, ...).
+ */
+export async function startServiceCheckout(items: ServiceCheckoutItem[], accessToken?: string | null): Promise<void> {
+  const response = await fetch(`${API_BASE}/checkout/create-session`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify({
+      items,
+      successUrl: `${window.location.origin}/#/checkout/success?session_id={CHECKOUT_SESSION_ID}&keep_cart=1`,
+      cancelUrl: window.location.href,
+    }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok || !data.url) {
+    throw new Error(data.error || 'Failed to start checkout');
+  }
+
+  window.location.href = data.url;
+}
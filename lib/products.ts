@@ -0,0 +1,15 @@
+/**
+ * Sale price for a product from the API, or one of its variants. A running
+ * automatic promotion takes precedence over a sale price set on the product.
+ * Like the rest of the storefront, this is carried in compareAtPrice.
+ */
+export function salePrice(product: any, variant?: any): number | undefined {
+  const promotion = product.promotion;
+  if (variant) {
+    const price = promotion?.variantPrices?.[variant.id] ?? (!variant.price ? promotion?.price : null);
+    if (price) return parseFloat(price);
+    return variant.compareAtPrice ? parseFloat(variant.compareAtPrice) : undefined;
+  }
+  if (promotion?.price) return parseFloat(promotion.price);
+  return product.compareAtPrice ? parseFloat(product.compareAtPrice) : undefined;
+}
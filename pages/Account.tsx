@@ -1,9 +1,12 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useSearchParams, useNavigate, Link } from 'react-router-dom';
-import { User, Package, Heart, MapPin, Lock, Mail, AlertCircle, CheckCircle, Loader2, Trash2 } from 'lucide-react';
+import { User, Package, Heart, MapPin, Lock, Mail, AlertCircle, CheckCircle, Loader2, Trash2, ChevronRight, Plus } from 'lucide-react';
 import { useCustomerAuth } from '../context/CustomerAuthContext';
 import { useWishlist } from '../context/WishlistContext';
 import { API_BASE, resolveImageUrl } from '../config/api';
+import { CustomerOrder, CustomerOrderSummary, SavedAddress } from '../types';
+import { countryName } from '../lib/checkout';
+import OrderDetailView, { ORDER_STATUS_LABELS, formatOrderDate } from '../components/OrderDetailView';
 
 type TabType = 'profile' | 'orders' | 'wishlist' | 'addresses';
 
@@ -216,17 +219,121 @@ const ProfileTab = ({ user, onLogout }: { user: any; onLogout: () => void }) =>
 
 // Orders Tab
 const OrdersTab = () => {
+  const { accessToken } = useCustomerAuth();
+  const [orders, setOrders] = useState<CustomerOrderSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<CustomerOrder | null>(null);
+  const [loadingOrder, setLoadingOrder] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    if (!accessToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/customer/orders`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setOrders(data.orders || []);
+      }
+    } catch {
+      // Silently fail
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(() => { fetchOrders(); }, [fetchOrders]);
+
+  const openOrder = async (orderNumber: string) => {
+    setLoadingOrder(orderNumber);
+    try {
+      const res = await fetch(`${API_BASE}/customer/orders/${encodeURIComponent(orderNumber)}`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        setSelected(await res.json());
+        window.scrollTo(0, 0);
+      }
+    } catch {
+      // Silently fail
+    } finally {
+      setLoadingOrder(null);
+    }
+  };
+
+  if (selected) {
+    return (
+      <OrderDetailView
+        order={selected}
+        onBack={() => setSelected(null)}
+        fetchInvoice={() => fetch(`${API_BASE}/customer/orders/${encodeURIComponent(selected.orderNumber)}/invoice`, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+        })}
+      />
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <Loader2 size={24} className="mx-auto text-stone-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (orders.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Package size={48} className="mx-auto text-stone-300 mb-4" />
+        <h3 className="font-serif text-xl text-stone-900 mb-2">No orders yet</h3>
+        <p className="text-stone-500 mb-6">When you place an order, it will appear here.</p>
+        <Link
+          to="/shop"
+          className="inline-block bg-stone-900 text-white px-8 py-3 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors"
+        >
+          Start Shopping
+        </Link>
+      </div>
+    );
+  }
+
   return (
-    <div className="text-center py-12">
-      <Package size={48} className="mx-auto text-stone-300 mb-4" />
-      <h3 className="font-serif text-xl text-stone-900 mb-2">No orders yet</h3>
-      <p className="text-stone-500 mb-6">When you place an order, it will appear here.</p>
-      <Link
-        to="/shop"
-        className="inline-block bg-stone-900 text-white px-8 py-3 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors"
-      >
-        Start Shopping
-      </Link>
+    <div className="space-y-4">
+      <p className="text-sm text-stone-500">{orders.length} order{orders.length !== 1 ? 's' : ''}</p>
+      {orders.map((order) => (
+        <button
+          key={order.orderNumber}
+          onClick={() => openOrder(order.orderNumber)}
+          disabled={loadingOrder !== null}
+          className="w-full flex gap-4 bg-white border border-stone-200 p-4 text-left hover:border-stone-300 transition-colors"
+        >
+          <div className="w-16 h-16 bg-stone-100 overflow-hidden flex-shrink-0">
+            {order.image && <img src={resolveImageUrl(order.image)} alt="" className="w-full h-full object-cover" />}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-3">
+              <span className="font-medium text-stone-900 text-sm">{order.orderNumber}</span>
+              <span className={`text-[10px] uppercase tracking-wider font-medium px-2 py-0.5 ${
+                order.status === 'cancelled' ? 'bg-stone-100 text-stone-500'
+                  : order.status === 'delivered' ? 'bg-green-100 text-green-700'
+                  : 'bg-clay/10 text-clay'
+              }`}>
+                {order.paymentStatus === 'refunded' ? 'Refunded' : ORDER_STATUS_LABELS[order.status]}
+              </span>
+            </div>
+            <p className="text-stone-500 text-xs mt-1 truncate">{order.itemNames}</p>
+            <p className="text-stone-500 text-xs mt-1">
+              {formatOrderDate(order.createdAt)} · {order.itemCount} item{order.itemCount !== 1 ? 's' : ''}
+            </p>
+          </div>
+          <div className="text-right flex flex-col items-end justify-between">
+            <span className="text-sm text-stone-900">${parseFloat(order.total).toFixed(2)}</span>
+            {loadingOrder === order.orderNumber
+              ? <Loader2 size={16} className="text-stone-400 animate-spin" />
+              : <ChevronRight size={16} className="text-stone-400" />}
+          </div>
+        </button>
+      ))}
     </div>
   );
 };
@@ -319,15 +426,218 @@ const WishlistTab = () => {
 };
 
 // Addresses Tab
+const EMPTY_ADDRESS = {
+  firstName: '',
+  lastName: '',
+  address: '',
+  city: '',
+  state: '',
+  postcode: '',
+  country: 'AU',
+  phone: '',
+  isDefault: false,
+};
+
 const AddressesTab = () => {
+  const { accessToken } = useCustomerAuth();
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [countries, setCountries] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState(EMPTY_ADDRESS);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const authHeaders = { 'Content-Type': 'application/json', Authorization: `Bearer ${accessToken}` };
+
+  const fetchAddresses = useCallback(async () => {
+    if (!accessToken) return;
+    try {
+      const res = await fetch(`${API_BASE}/customer/addresses`, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+      if (res.ok) {
+        const data = await res.json();
+        setAddresses(data.addresses || []);
+        setCountries(data.countries || []);
+      }
+    } catch {
+      // Silently fail
+    } finally {
+      setLoading(false);
+    }
+  }, [accessToken]);
+
+  useEffect(() => { fetchAddresses(); }, [fetchAddresses]);
+
+  const openForm = (address?: SavedAddress) => {
+    setError('');
+    if (address) {
+      setForm({ ...address, phone: address.phone || '' });
+      setEditingId(address.id);
+    } else {
+      setForm({ ...EMPTY_ADDRESS, country: countries[0] || 'AU', isDefault: addresses.length === 0 });
+      setEditingId('new');
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch(
+        editingId === 'new' ? `${API_BASE}/customer/addresses` : `${API_BASE}/customer/addresses/${editingId}`,
+        { method: editingId === 'new' ? 'POST' : 'PUT', headers: authHeaders, body: JSON.stringify(form) },
+      );
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save address');
+      setEditingId(null);
+      await fetchAddresses();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save address');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Remove this address?')) return;
+    await fetch(`${API_BASE}/customer/addresses/${id}`, { method: 'DELETE', headers: authHeaders });
+    await fetchAddresses();
+  };
+
+  const handleMakeDefault = async (id: string) => {
+    await fetch(`${API_BASE}/customer/addresses/${id}/default`, { method: 'POST', headers: authHeaders });
+    await fetchAddresses();
+  };
+
+  const update = (field: keyof typeof EMPTY_ADDRESS) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  const inputClass = 'w-full border border-stone-200 px-4 py-3 text-sm text-stone-900 placeholder:text-stone-300 focus:outline-none focus:border-clay transition-colors';
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <Loader2 size={24} className="mx-auto text-stone-400 animate-spin" />
+      </div>
+    );
+  }
+
+  if (editingId) {
+    // Keep an address's existing country selectable even if it's no longer shipped to
+    const countryOptions = countries.includes(form.country) ? countries : [form.country, ...countries];
+    return (
+      <form onSubmit={handleSave} className="space-y-4 max-w-xl">
+        <h3 className="text-lg font-serif text-stone-900">{editingId === 'new' ? 'Add Address' : 'Edit Address'}</h3>
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 flex items-start gap-2">
+            <AlertCircle size={16} className="text-red-600 shrink-0 mt-0.5" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <input value={form.firstName} onChange={update('firstName')} placeholder="First name" required className={inputClass} />
+          <input value={form.lastName} onChange={update('lastName')} placeholder="Last name" required className={inputClass} />
+        </div>
+        <input value={form.address} onChange={update('address')} placeholder="Street address" required className={inputClass} />
+        <div className="grid grid-cols-2 gap-4">
+          <input value={form.city} onChange={update('city')} placeholder="City / suburb" required className={inputClass} />
+          <input value={form.state} onChange={update('state')} placeholder="State" required className={inputClass} />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <input value={form.postcode} onChange={update('postcode')} placeholder="Postcode" required className={inputClass} />
+          <select value={form.country} onChange={update('country')} className={inputClass}>
+            {countryOptions.map(code => (
+              <option key={code} value={code}>{countryName(code)}</option>
+            ))}
+          </select>
+        </div>
+        <input value={form.phone} onChange={update('phone')} placeholder="Phone (optional)" className={inputClass} />
+        <label className="flex items-center gap-2 text-sm text-stone-600">
+          <input
+            type="checkbox"
+            checked={form.isDefault}
+            onChange={(e) => setForm(prev => ({ ...prev, isDefault: e.target.checked }))}
+            className="accent-clay"
+          />
+          Use as my default shipping address
+        </label>
+        <div className="flex gap-3 pt-2">
+          <button
+            type="button"
+            onClick={() => setEditingId(null)}
+            className="border border-stone-200 px-6 py-3 uppercase tracking-widest text-xs font-bold text-stone-600 hover:border-stone-900 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-stone-900 text-white px-8 py-3 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors disabled:bg-stone-400"
+          >
+            {saving ? 'Saving...' : 'Save Address'}
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  if (addresses.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <MapPin size={48} className="mx-auto text-stone-300 mb-4" />
+        <h3 className="font-serif text-xl text-stone-900 mb-2">No saved addresses</h3>
+        <p className="text-stone-500 mb-6">Add a shipping address for faster checkout.</p>
+        <button
+          onClick={() => openForm()}
+          className="inline-block bg-stone-900 text-white px-8 py-3 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors"
+        >
+          Add Address
+        </button>
+      </div>
+    );
+  }
+
   return (
-    <div className="text-center py-12">
-      <MapPin size={48} className="mx-auto text-stone-300 mb-4" />
-      <h3 className="font-serif text-xl text-stone-900 mb-2">No saved addresses</h3>
-      <p className="text-stone-500 mb-6">Add a shipping address for faster checkout.</p>
-      <button className="inline-block bg-stone-900 text-white px-8 py-3 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors">
-        Add Address
-      </button>
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-stone-500">{addresses.length} saved address{addresses.length !== 1 ? 'es' : ''}</p>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center gap-2 text-xs uppercase tracking-widest font-bold text-stone-900 hover:text-clay transition-colors"
+        >
+          <Plus size={14} /> Add Address
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {addresses.map((address) => (
+          <div key={address.id} className={`border p-4 text-sm ${address.isDefault ? 'border-clay' : 'border-stone-200'}`}>
+            <div className="flex items-start justify-between gap-2 mb-2">
+              <p className="font-medium text-stone-900">{address.firstName} {address.lastName}</p>
+              {address.isDefault && (
+                <span className="text-[10px] uppercase tracking-wider font-medium bg-clay/10 text-clay px-2 py-0.5">Default</span>
+              )}
+            </div>
+            <p className="text-stone-600">{address.address}</p>
+            <p className="text-stone-600">{address.city} {address.state} {address.postcode}</p>
+            <p className="text-stone-600">{countryName(address.country)}</p>
+            {address.phone && <p className="text-stone-500 mt-1">{address.phone}</p>}
+            <div className="flex gap-4 mt-4 text-xs">
+              <button onClick={() => openForm(address)} className="text-stone-600 hover:text-stone-900 transition-colors">Edit</button>
+              {!address.isDefault && (
+                <button onClick={() => handleMakeDefault(address.id)} className="text-stone-600 hover:text-stone-900 transition-colors">
+                  Set as default
+                </button>
+              )}
+              <button onClick={() => handleDelete(address.id)} className="text-stone-400 hover:text-red-500 transition-colors ml-auto">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
     </div>
   );
 };
@@ -1,10 +1,12 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { useCart } from '../context/CartContext';
+import { useCart, cartLineKey } from '../context/CartContext';
 import { useCustomerAuth } from '../context/CustomerAuthContext';
 import { Link, useSearchParams } from 'react-router-dom';
-import { Trash2, ShoppingBag, Lock, AlertCircle, Mail, Loader2, CreditCard, User, LogIn } from 'lucide-react';
+import { Trash2, ShoppingBag, Lock, AlertCircle, Mail, Loader2, CreditCard, User, LogIn, Gift, Tag, X } from 'lucide-react';
 import { API_BASE, STRIPE_PUBLIC_KEY, isStripeConfigured, resolveImageUrl } from '../config/api';
 import { trackEvent } from '../lib/analytics';
+import { countryName } from '../lib/checkout';
+import { SavedAddress } from '../types';
 import { loadStripe } from '@stripe/stripe-js';
 
 // Initialize Stripe
@@ -12,9 +14,40 @@ const stripePromise = STRIPE_PUBLIC_KEY ? loadStripe(STRIPE_PUBLIC_KEY) : null;
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
+interface CheckoutQuote {
+  subtotal: string;
+  shipping: {
+    zoneName: string;
+    country: string;
+    amount: string;
+    free: boolean;
+    freeShippingThreshold: string | null;
+  } | null;
+  tax: {
+    name: string | null;
+    rate: number;
+    inclusive: boolean;
+    amount: string;
+  };
+  giftCard: { code: string; applied: string; balance: string } | null;
+  giftCardError: string | null;
+  promotions: { name: string; label: string | null; amount: string }[];
+  discount: {
+    code: string;
+    name: string;
+    type: 'percentage' | 'fixed_amount' | 'free_shipping';
+    items: string;
+    shipping: string;
+    amount: string;
+  } | null;
+  discountError: string | null;
+  total: string;
+  countries: string[];
+}
+
 const Checkout = () => {
   const { cart, removeFromCart, cartTotal, clearCart, addToCart } = useCart();
-  const { user, isAuthenticated, isVerified, resendVerification, openAuthModal } = useCustomerAuth();
+  const { user, accessToken, isAuthenticated, isVerified, resendVerification, openAuthModal } = useCustomerAuth();
   const [searchParams, setSearchParams] = useSearchParams();
 
   useEffect(() => { document.title = 'Checkout | Lyne Tilt'; }, []);
@@ -27,7 +60,19 @@ const Checkout = () => {
   const [recoveryNotice, setRecoveryNotice] = useState(false);
   const [guestEmail, setGuestEmail] = useState('');
   const [guestName, setGuestName] = useState('');
+  const [marketingOptIn, setMarketingOptIn] = useState(false);
   const [guestCheckoutChosen, setGuestCheckoutChosen] = useState(false);
+  const [country, setCountry] = useState('AU');
+  const [quote, setQuote] = useState<CheckoutQuote | null>(null);
+  const [quoteLoading, setQuoteLoading] = useState(false);
+  const [giftCardInput, setGiftCardInput] = useState('');
+  const [giftCardCode, setGiftCardCode] = useState('');
+  const [discountInput, setDiscountInput] = useState('');
+  const [discountCode, setDiscountCode] = useState('');
+  const [discountChecking, setDiscountChecking] = useState(false);
+  const [discountInputError, setDiscountInputError] = useState('');
+  const [addresses, setAddresses] = useState<SavedAddress[]>([]);
+  const [addressId, setAddressId] = useState('');
 
   // --- Abandoned cart capture ---
   const capturedEmailRef = useRef<string | null>(null);
@@ -50,7 +95,7 @@ const Checkout = () => {
             price: String(item.price),
             quantity: item.quantity,
             image: item.image || undefined,
-            variant: (item as any).selectedVariant || (item as any).variant || undefined,
+            variant: item.variantTitle || undefined,
           })),
         }),
       });
@@ -66,6 +111,31 @@ const Checkout = () => {
     }
   }, [isAuthenticated, user?.email, cart.length, captureAbandonedCart]);
 
+  // --- Saved addresses: ship to the default unless another is picked ---
+  useEffect(() => {
+    if (!isAuthenticated || !accessToken) return;
+    fetch(`${API_BASE}/customer/addresses`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    })
+      .then(res => res.ok ? res.json() : { addresses: [] })
+      .then(data => {
+        const saved: SavedAddress[] = data.addresses || [];
+        setAddresses(saved);
+        const preferred = saved.find(a => a.isDefault) || saved[0];
+        if (preferred) {
+          setAddressId(preferred.id);
+          setCountry(preferred.country);
+        }
+      })
+      .catch(() => {});
+  }, [isAuthenticated, accessToken]);
+
+  const handleAddressChange = (id: string) => {
+    setAddressId(id);
+    const address = addresses.find(a => a.id === id);
+    if (address) setCountry(address.country);
+  };
+
   // --- Cart recovery from ?recover=TOKEN ---
   useEffect(() => {
     const token = searchParams.get('recover');
@@ -102,6 +172,91 @@ const Checkout = () => {
     })();
   }, []); // Run once on mount
 
+  // --- Server-side price quote (subtotal + shipping for the chosen country) ---
+  const cartKey = cart.map(item => `${item.id}:${cartLineKey(item) || ''}:${item.quantity}`).join(',');
+
+  // Gift card purchase details travel with their line; the local key stays in the browser
+  const checkoutItems = cart.map(item => ({
+    id: item.id,
+    type: 'product' as const,
+    quantity: item.quantity,
+    variantId: item.variantId,
+    giftCard: item.giftCard && {
+      amount: item.giftCard.amount,
+      recipientName: item.giftCard.recipientName,
+      recipientEmail: item.giftCard.recipientEmail,
+      message: item.giftCard.message,
+      deliveryDate: item.giftCard.deliveryDate,
+    },
+  }));
+
+  useEffect(() => {
+    if (cart.length === 0) return;
+    let cancelled = false;
+    setQuoteLoading(true);
+
+    fetch(`${API_BASE}/checkout/quote`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(isAuthenticated && accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      body: JSON.stringify({
+        items: checkoutItems,
+        country,
+        giftCardCode: giftCardCode || undefined,
+        discountCode: discountCode || undefined,
+      }),
+    })
+      .then(async res => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (res.ok) {
+          setQuote(data);
+          setError(null);
+        } else {
+          setQuote(null);
+          setError(data.error || 'Unable to calculate shipping');
+        }
+      })
+      .catch(() => { if (!cancelled) setQuote(null); })
+      .finally(() => { if (!cancelled) setQuoteLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [cartKey, country, giftCardCode, discountCode]);
+
+  // Check a discount code before applying it; the quote then prices it in
+  const handleApplyDiscount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = discountInput.trim();
+    if (!code) return;
+
+    setDiscountChecking(true);
+    setDiscountInputError('');
+    try {
+      const response = await fetch(`${API_BASE}/promotions/validate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(isAuthenticated && accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+        },
+        body: JSON.stringify({
+          code,
+          items: checkoutItems,
+          country,
+          email: isAuthenticated ? undefined : guestEmail || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!data.valid) throw new Error(data.error || 'This discount code is not valid');
+      setDiscountCode(data.code);
+    } catch (err) {
+      setDiscountInputError(err instanceof Error ? err.message : 'Unable to check this code');
+    } finally {
+      setDiscountChecking(false);
+    }
+  };
+
   const handleResendVerification = async () => {
     setSendingVerification(true);
     try {
@@ -136,21 +291,23 @@ const Checkout = () => {
     setError(null);
 
     try {
-      // Prepare cart items for the API
-      const items = cart.map(item => ({
-        id: item.id,
-        type: 'product' as const,
-        quantity: item.quantity,
-      }));
-
       // Create Stripe Checkout session
+      // Signed-in customers send their token so the order is linked to their account
       const response = await fetch(`${API_BASE}/checkout/create-session`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(isAuthenticated && accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
         },
         body: JSON.stringify({
-          items,
+          items: checkoutItems,
+          country,
+          giftCardCode: quote?.giftCard ? giftCardCode : undefined,
+          discountCode: quote?.discount ? discountCode : undefined,
+          email: isAuthenticated ? undefined : guestEmail || undefined,
+          addressId: isAuthenticated ? addressId : undefined,
+          customerName: isAuthenticated ? undefined : guestName.trim(),
+          marketingOptIn,
           successUrl: `${window.location.origin}/#/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
           cancelUrl: `${window.location.origin}/#/checkout`,
         }),
@@ -175,11 +332,16 @@ const Checkout = () => {
     }
   };
 
-  // Shipping: flat $15 for physical products under $100, free over $100
-  // All products in this store are physical (jewellery/wall art), so shipping always applies once per order
-  const hasPhysicalProducts = cart.length > 0;
-  const shippingCost = hasPhysicalProducts && cartTotal < 100 ? 15 : 0;
-  const totalWithShipping = cartTotal + shippingCost;
+  // Shipping is quoted by the server from the configured zones; fall back to the cart total while loading
+  const subtotal = quote ? parseFloat(quote.subtotal) : cartTotal;
+  const shippingCost = quote?.shipping ? parseFloat(quote.shipping.amount) : 0;
+  const totalWithShipping = quote ? parseFloat(quote.total) : cartTotal;
+  const taxAmount = quote?.tax ? parseFloat(quote.tax.amount) : 0;
+  const giftCardApplied = quote?.giftCard ? parseFloat(quote.giftCard.applied) : 0;
+  const discountApplied = quote?.discount ? parseFloat(quote.discount.amount) : 0;
+  const needsShipping = !quote || !!quote.shipping;
+  const freeThreshold = quote?.shipping?.freeShippingThreshold ? parseFloat(quote.shipping.freeShippingThreshold) : null;
+  const countries = quote?.countries?.length ? quote.countries : [country];
 
   if (cart.length === 0) {
     return (
@@ -322,19 +484,27 @@ const Checkout = () => {
 
             <div className="space-y-6">
               {cart.map(item => (
-                <div key={item.id} className="flex gap-4 pb-6 border-b border-stone-200 last:border-b-0 last:pb-0">
+                <div key={`${item.id}-${cartLineKey(item) || ''}`} className="flex gap-4 pb-6 border-b border-stone-200 last:border-b-0 last:pb-0">
                   <Link to={`/shop/${item.id}`} className="w-24 h-24 bg-stone-200 overflow-hidden flex-shrink-0 hover:opacity-80 transition-opacity">
                     <img src={resolveImageUrl(item.image)} alt={item.name} className="w-full h-full object-cover" />
                   </Link>
                   <div className="flex-1">
                     <Link to={`/shop/${item.id}`} className="text-lg font-medium text-stone-900 mb-1 hover:text-clay transition-colors">{item.name}</Link>
+                    {item.variantTitle && <p className="text-sm text-stone-500 mb-1">{item.variantTitle}</p>}
                     <p className="text-stone-600 mb-2">${item.price} AUD</p>
-                    <p className="text-xs text-clay uppercase tracking-wide">One of a kind</p>
+                    {item.giftCard ? (
+                      <p className="text-xs text-stone-500">
+                        Emailed to {item.giftCard.recipientEmail}
+                        {item.giftCard.deliveryDate ? ` on ${new Date(`${item.giftCard.deliveryDate}T00:00:00`).toLocaleDateString('en-AU', { day: 'numeric', month: 'long' })}` : ' after payment'}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-clay uppercase tracking-wide">One of a kind</p>
+                    )}
                   </div>
                   <div className="text-right flex flex-col justify-between">
                     <p className="font-medium text-stone-900">${item.price.toFixed(2)} AUD</p>
                     <button
-                      onClick={() => removeFromCart(item.id)}
+                      onClick={() => removeFromCart(item.id, cartLineKey(item))}
                       className="text-stone-400 hover:text-red-600 transition-colors self-end"
                     >
                       <Trash2 size={18} />
@@ -366,28 +536,172 @@ const Checkout = () => {
             <div className="space-y-3 mb-6">
               <div className="flex justify-between text-sm">
                 <span className="text-stone-600">Subtotal ({cart.length} {cart.length === 1 ? 'piece' : 'pieces'})</span>
-                <span className="font-medium text-stone-900">${cartTotal.toFixed(2)} AUD</span>
+                <span className="font-medium text-stone-900">${subtotal.toFixed(2)} AUD</span>
+              </div>
+              {needsShipping && (<>
+              {addresses.length > 0 && (
+                <div className="flex justify-between items-center text-sm gap-3">
+                  <label htmlFor="shipping-address" className="text-stone-600">Address</label>
+                  <select
+                    id="shipping-address"
+                    value={addressId}
+                    onChange={(e) => handleAddressChange(e.target.value)}
+                    className="text-sm bg-transparent border-b border-stone-300 py-1 text-stone-900 focus:outline-none focus:border-clay max-w-[60%] truncate"
+                  >
+                    {addresses.map(a => (
+                      <option key={a.id} value={a.id}>{a.address}, {a.city}</option>
+                    ))}
+                    <option value="">A different address</option>
+                  </select>
+                </div>
+              )}
+              <div className="flex justify-between items-center text-sm gap-3">
+                <label htmlFor="shipping-country" className="text-stone-600">Ship to</label>
+                <select
+                  id="shipping-country"
+                  value={country}
+                  onChange={(e) => {
+                    setCountry(e.target.value);
+                    // A saved address in another country no longer applies
+                    if (addresses.find(a => a.id === addressId)?.country !== e.target.value) setAddressId('');
+                  }}
+                  className="text-sm bg-transparent border-b border-stone-300 py-1 text-stone-900 focus:outline-none focus:border-clay"
+                >
+                  {countries.map(code => (
+                    <option key={code} value={code}>{countryName(code)}</option>
+                  ))}
+                </select>
               </div>
               <div className="flex justify-between text-sm">
                 <span className="text-stone-600">Shipping</span>
                 <span className="font-medium text-stone-900">
-                  {shippingCost === 0 ? 'FREE' : `$${shippingCost.toFixed(2)} AUD`}
+                  {quoteLoading && !quote ? (
+                    <Loader2 size={14} className="animate-spin text-stone-400" />
+                  ) : shippingCost === 0 ? 'FREE' : `$${shippingCost.toFixed(2)} AUD`}
                 </span>
               </div>
-              {cartTotal < 100 && (
+              {freeThreshold !== null && shippingCost > 0 && subtotal < freeThreshold && (
                 <p className="text-xs text-stone-500 italic">
-                  Add ${(100 - cartTotal).toFixed(2)} more for free shipping
+                  Add ${(freeThreshold - subtotal).toFixed(2)} more for free shipping
                 </p>
               )}
+              </>)}
+              {quote?.promotions?.map(promotion => (
+                <div key={promotion.name} className="flex justify-between text-sm">
+                  <span className="text-stone-600 flex items-center gap-1.5">
+                    <Tag size={14} /> {promotion.label || promotion.name}
+                  </span>
+                  <span className="font-medium text-stone-900">-${parseFloat(promotion.amount).toFixed(2)} AUD</span>
+                </div>
+              ))}
+              {quote?.discount && (
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-stone-600 flex items-center gap-1.5">
+                    <Tag size={14} /> {quote.discount.type === 'free_shipping' ? 'Free shipping' : 'Discount'} ({quote.discount.code})
+                    <button
+                      type="button"
+                      onClick={() => { setDiscountCode(''); setDiscountInput(''); }}
+                      className="text-stone-400 hover:text-red-600 transition-colors"
+                      aria-label="Remove discount code"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                  <span className="font-medium text-stone-900">-${discountApplied.toFixed(2)} AUD</span>
+                </div>
+              )}
+              {!quote?.discount && (
+                <form onSubmit={handleApplyDiscount} className="pt-1">
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={discountInput}
+                      onChange={(e) => { setDiscountInput(e.target.value.toUpperCase()); setDiscountInputError(''); }}
+                      placeholder="Discount code"
+                      className="flex-1 min-w-0 px-3 py-2 text-sm bg-white border border-stone-300 focus:outline-none focus:border-clay font-mono"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!discountInput.trim() || discountChecking || quoteLoading}
+                      className="px-4 py-2 text-xs uppercase tracking-widest font-bold border border-stone-900 text-stone-900 hover:bg-stone-900 hover:text-white transition-colors disabled:opacity-40"
+                    >
+                      {discountChecking ? <Loader2 size={14} className="animate-spin" /> : 'Apply'}
+                    </button>
+                  </div>
+                  {(discountInputError || (discountCode && quote?.discountError)) && (
+                    <p className="text-xs text-red-600 mt-1.5">{discountInputError || quote?.discountError}</p>
+                  )}
+                </form>
+              )}
+              {quote?.tax && taxAmount > 0 && !quote.tax.inclusive && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-stone-600">{quote.tax.name || 'Tax'} ({quote.tax.rate}%)</span>
+                  <span className="font-medium text-stone-900">${taxAmount.toFixed(2)} AUD</span>
+                </div>
+              )}
+              {giftCardApplied > 0 && (
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-stone-600 flex items-center gap-1.5">
+                    <Gift size={14} /> Gift card ····{quote!.giftCard!.code.slice(-4)}
+                    <button
+                      type="button"
+                      onClick={() => { setGiftCardCode(''); setGiftCardInput(''); }}
+                      className="text-stone-400 hover:text-red-600 transition-colors"
+                      aria-label="Remove gift card"
+                    >
+                      <X size={12} />
+                    </button>
+                  </span>
+                  <span className="font-medium text-stone-900">-${giftCardApplied.toFixed(2)} AUD</span>
+                </div>
+              )}
+              {!quote?.giftCard && (
+                <form
+                  onSubmit={(e) => { e.preventDefault(); setGiftCardCode(giftCardInput.trim()); }}
+                  className="pt-1"
+                >
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={giftCardInput}
+                      onChange={(e) => setGiftCardInput(e.target.value.toUpperCase())}
+                      placeholder="Gift card code"
+                      className="flex-1 min-w-0 px-3 py-2 text-sm bg-white border border-stone-300 focus:outline-none focus:border-clay font-mono"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!giftCardInput.trim() || quoteLoading}
+                      className="px-4 py-2 text-xs uppercase tracking-widest font-bold border border-stone-900 text-stone-900 hover:bg-stone-900 hover:text-white transition-colors disabled:opacity-40"
+                    >
+                      Apply
+                    </button>
+                  </div>
+                  {giftCardCode && quote?.giftCardError && (
+                    <p className="text-xs text-red-600 mt-1.5">{quote.giftCardError}</p>
+                  )}
+                </form>
+              )}
               <div className="flex justify-between text-lg font-serif pt-3 border-t border-stone-300">
                 <span className="text-stone-900">Estimated Total</span>
                 <span className="font-bold text-stone-900">${totalWithShipping.toFixed(2)} AUD</span>
               </div>
               <p className="text-xs text-stone-500">
-                Final total will be calculated at checkout including applicable taxes.
+                {quote?.tax && taxAmount > 0 && quote.tax.inclusive
+                  ? `Includes ${quote.tax.name || 'tax'} of $${taxAmount.toFixed(2)} AUD.`
+                  : 'Final total will be calculated at checkout including applicable taxes.'}
               </p>
             </div>
 
+            <label className="flex items-start gap-2 mb-4 text-sm text-stone-600 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={marketingOptIn}
+                onChange={(e) => setMarketingOptIn(e.target.checked)}
+                className="mt-0.5 accent-stone-900"
+              />
+              Email me about new pieces, workshops and studio news
+            </label>
+
             <button
               onClick={handleCheckout}
               disabled={isProcessing || (isAuthenticated && !isVerified) || (!isAuthenticated && !guestCheckoutChosen)}
@@ -3,9 +3,11 @@ import { Link, useSearchParams } from 'react-router-dom';
 import { CheckCircle, Package, Loader2, AlertCircle } from 'lucide-react';
 import { API_BASE } from '../config/api';
 import { useCart } from '../context/CartContext';
+import { useCustomerAuth } from '../context/CustomerAuthContext';
 
 interface OrderDetails {
   id: string;
+  orderNumber: string | null;
   status: string;
   customerEmail: string | null;
   amountTotal: number | null;
@@ -20,7 +22,10 @@ interface OrderDetails {
 const CheckoutSuccess = () => {
   const [searchParams] = useSearchParams();
   const sessionId = searchParams.get('session_id');
+  // Coaching and workshop bookings go straight to Stripe without using the cart
+  const keepCart = searchParams.get('keep_cart') === '1';
   const { clearCart } = useCart();
+  const { isAuthenticated } = useCustomerAuth();
 
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -47,7 +52,7 @@ const CheckoutSuccess = () => {
         setOrderDetails(data);
 
         // Clear the cart after successful payment
-        clearCart();
+        if (!keepCart) clearCart();
       } catch (err) {
         setError('Unable to load order details. Your order was still processed successfully.');
       } finally {
@@ -56,7 +61,7 @@ const CheckoutSuccess = () => {
     };
 
     fetchOrderDetails();
-  }, [sessionId, clearCart]);
+  }, [sessionId, keepCart, clearCart]);
 
   if (loading) {
     return (
@@ -98,6 +103,12 @@ const CheckoutSuccess = () => {
               Order Summary
             </h2>
 
+            {orderDetails.orderNumber && (
+              <p className="text-sm text-stone-600 mb-4">
+                Order number: <span className="font-medium text-stone-900">{orderDetails.orderNumber}</span>
+              </p>
+            )}
+
             {orderDetails.lineItems && orderDetails.lineItems.length > 0 && (
               <div className="space-y-2 mb-4 pb-4 border-b border-stone-200">
                 {orderDetails.lineItems.map((item, idx) => (
@@ -138,12 +149,13 @@ const CheckoutSuccess = () => {
           >
             Continue Shopping
           </Link>
-          {/* Only show account link if we have auth context later */}
           <Link
-            to="/"
+            to={isAuthenticated
+              ? '/account?tab=orders'
+              : `/orders/lookup${orderDetails?.orderNumber ? `?order=${encodeURIComponent(orderDetails.orderNumber)}` : ''}`}
             className="inline-block border border-stone-300 text-stone-600 px-8 py-4 uppercase tracking-widest text-xs font-bold hover:border-stone-900 hover:text-stone-900 transition-colors"
           >
-            Back to Home
+            {isAuthenticated ? 'View Your Orders' : 'Track Your Order'}
           </Link>
         </div>
       </div>
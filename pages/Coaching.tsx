@@ -3,6 +3,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import CoachingCard from '../components/CoachingCard';
 import CoachingApplicationModal from '../components/CoachingApplicationModal';
+import CoachingBookingModal from '../components/CoachingBookingModal';
 import SubNav from '../components/SubNav';
 import { CheckCircle, ChevronDown, Eye, Compass, Heart, Award, Users, BookOpen, ArrowRight } from 'lucide-react';
 import { useSettings } from '../context/SettingsContext';
@@ -88,6 +89,7 @@ const Coaching = () => {
     fetchData();
   }, []);
   const [selectedPackage, setSelectedPackage] = useState<string | undefined>(undefined);
+  const [bookingPackage, setBookingPackage] = useState<CoachingPackage | null>(null);
   const [openFaq, setOpenFaq] = useState<number | null>(null);
 
   useEffect(() => { document.title = 'Creative Coaching | Lyne Tilt'; }, []);
@@ -294,7 +296,7 @@ const Coaching = () => {
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:gap-8 max-w-4xl mx-auto">
             {coachingPackages.map(pkg => (
-              <CoachingCard key={pkg.id} item={pkg} onApply={handleApply} />
+              <CoachingCard key={pkg.id} item={pkg} onApply={handleApply} onBook={setBookingPackage} />
             ))}
           </div>
         </div>
@@ -396,6 +398,9 @@ const Coaching = () => {
         onClose={() => setIsModalOpen(false)}
         preselectedPackage={selectedPackage}
       />
+
+      {/* Book & pay for a package */}
+      <CoachingBookingModal item={bookingPackage} onClose={() => setBookingPackage(null)} />
     </div>
   );
 };
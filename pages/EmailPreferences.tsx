@@ -0,0 +1,248 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { CheckCircle, XCircle, Loader2, PauseCircle } from 'lucide-react';
+import { API_BASE } from '../config/api';
+
+type Frequency = 'all' | 'weekly' | 'monthly';
+
+interface Topic {
+  name: string;
+  description: string | null;
+  subscribed: boolean;
+}
+
+interface Preferences {
+  email: string;
+  subscribed: boolean;
+  canResubscribe: boolean;
+  frequency: Frequency;
+  pausedUntil: string | null;
+  topics: Topic[];
+}
+
+const FREQUENCY_OPTIONS: { value: Frequency; label: string }[] = [
+  { value: 'all', label: 'Every email we send' },
+  { value: 'weekly', label: 'At most once a week' },
+  { value: 'monthly', label: 'At most once a month' },
+];
+
+const EmailPreferences = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [prefs, setPrefs] = useState<Preferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+
+  const [topics, setTopics] = useState<string[]>([]);
+  const [frequency, setFrequency] = useState<Frequency>('all');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => { document.title = 'Email Preferences | Lyne Tilt'; }, []);
+
+  const applyPreferences = (data: Preferences) => {
+    setPrefs(data);
+    setTopics(data.topics.filter(t => t.subscribed).map(t => t.name));
+    setFrequency(data.frequency);
+  };
+
+  useEffect(() => {
+    if (!token) {
+      setLoadError('This link is incomplete. Please use the link from one of our emails.');
+      setLoading(false);
+      return;
+    }
+
+    fetch(`${API_BASE}/newsletter/preferences/${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || 'This link is invalid');
+        return data as Preferences;
+      })
+      .then(applyPreferences)
+      .catch((err) => setLoadError(err.message))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const update = async (changes: Record<string, unknown>, successMessage: string) => {
+    if (!token) return;
+    setSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      const res = await fetch(`${API_BASE}/newsletter/preferences/${encodeURIComponent(token)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Could not save your preferences. Please try again.');
+      applyPreferences(data);
+      setMessage(successMessage);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleTopic = (name: string) => {
+    setTopics(prev => (prev.includes(name) ? prev.filter(t => t !== name) : [...prev, name]));
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pt-32 pb-20 px-6 flex items-center justify-center">
+        <Loader2 size={32} className="animate-spin text-stone-400" />
+      </div>
+    );
+  }
+
+  if (loadError || !prefs) {
+    return (
+      <div className="min-h-screen pt-32 pb-20 px-6 bg-white/80 flex items-center justify-center">
+        <div className="max-w-md w-full text-center">
+          <div className="w-20 h-20 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <XCircle size={40} className="text-red-600" />
+          </div>
+          <h1 className="font-serif text-2xl text-stone-900 mb-2">Link Not Valid</h1>
+          <p className="text-stone-500 mb-8">{loadError}</p>
+          <Link
+            to="/"
+            className="inline-block w-full bg-stone-900 text-white py-4 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors"
+          >
+            Back to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-32 pb-20 px-6 bg-white/80">
+      <div className="max-w-xl mx-auto">
+        <h1 className="font-serif text-3xl text-stone-900 mb-2 text-center">Email Preferences</h1>
+        <p className="text-stone-500 text-sm text-center mb-10">{prefs.email}</p>
+
+        {message && (
+          <div className="mb-8 p-4 bg-stone-50 border border-stone-200 flex items-center justify-center gap-2">
+            <CheckCircle size={18} className="text-green-600" />
+            <p className="text-sm text-stone-700">{message}</p>
+          </div>
+        )}
+        {error && <p className="mb-6 text-xs text-red-600 text-center">{error}</p>}
+
+        {!prefs.subscribed ? (
+          <div className="text-center space-y-6">
+            <p className="text-sm text-stone-600">You're not subscribed to our emails.</p>
+            {prefs.canResubscribe && (
+              <button
+                type="button"
+                onClick={() => update({ subscribed: true }, 'Welcome back! You\'re subscribed again.')}
+                disabled={saving}
+                className="w-full py-4 bg-stone-900 text-white uppercase tracking-[0.2em] text-xs font-bold hover:bg-clay transition-colors disabled:opacity-50"
+              >
+                Resubscribe
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-10">
+            {prefs.pausedUntil && (
+              <div className="p-4 border border-stone-200 bg-stone-50 flex items-center justify-between gap-4">
+                <p className="text-sm text-stone-600 flex items-center gap-2">
+                  <PauseCircle size={16} className="text-stone-400" />
+                  Emails are paused until {new Date(prefs.pausedUntil).toLocaleDateString()}.
+                </p>
+                <button
+                  type="button"
+                  onClick={() => update({ pause: false }, 'Emails resumed.')}
+                  disabled={saving}
+                  className="text-xs uppercase tracking-wider text-clay hover:underline disabled:opacity-50"
+                >
+                  Resume
+                </button>
+              </div>
+            )}
+
+            {prefs.topics.length > 0 && (
+              <section>
+                <h2 className="text-xs uppercase tracking-wider text-stone-400 mb-3">Topics</h2>
+                <div className="space-y-2">
+                  {prefs.topics.map(topic => (
+                    <label key={topic.name} className="flex items-start gap-3 p-3 border border-stone-200 bg-white cursor-pointer hover:border-clay transition-colors">
+                      <input
+                        type="checkbox"
+                        checked={topics.includes(topic.name)}
+                        onChange={() => toggleTopic(topic.name)}
+                        className="mt-0.5"
+                        style={{ accentColor: '#8d3038' }}
+                      />
+                      <span>
+                        <span className="block text-sm text-stone-800">{topic.name}</span>
+                        {topic.description && <span className="block text-xs text-stone-500 mt-0.5">{topic.description}</span>}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h2 className="text-xs uppercase tracking-wider text-stone-400 mb-3">How often</h2>
+              <div className="space-y-2">
+                {FREQUENCY_OPTIONS.map(option => (
+                  <label key={option.value} className="flex items-center gap-3 p-3 border border-stone-200 bg-white cursor-pointer hover:border-clay transition-colors">
+                    <input
+                      type="radio"
+                      name="frequency"
+                      checked={frequency === option.value}
+                      onChange={() => setFrequency(option.value)}
+                      style={{ accentColor: '#8d3038' }}
+                    />
+                    <span className="text-sm text-stone-800">{option.label}</span>
+                  </label>
+                ))}
+              </div>
+            </section>
+
+            <button
+              type="button"
+              onClick={() => update({ topics, frequency }, 'Your preferences have been saved.')}
+              disabled={saving}
+              className="w-full py-4 bg-stone-900 text-white uppercase tracking-[0.2em] text-xs font-bold hover:bg-clay transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {saving && <Loader2 size={14} className="animate-spin" />}
+              Save Preferences
+            </button>
+
+            <div className="border-t border-stone-200 pt-8 space-y-3 text-center">
+              {!prefs.pausedUntil && (
+                <button
+                  type="button"
+                  onClick={() => update({ pause: true }, 'Emails paused for 30 days.')}
+                  disabled={saving}
+                  className="w-full py-3 border border-stone-300 text-stone-700 uppercase tracking-widest text-xs font-bold hover:border-clay hover:text-clay transition-colors disabled:opacity-50"
+                >
+                  Take a Break for 30 Days
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => update({ subscribed: false }, 'You\'ve been unsubscribed. Sorry to see you go.')}
+                disabled={saving}
+                className="w-full py-3 text-stone-500 uppercase tracking-widest text-xs font-bold hover:text-red-600 transition-colors disabled:opacity-50"
+              >
+                Unsubscribe from All Emails
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EmailPreferences;
@@ -7,6 +7,7 @@ import { Link } from 'react-router-dom';
 import { Star, ArrowRight, ChevronLeft, ChevronRight } from 'lucide-react';
 import { useSettings } from '../context/SettingsContext';
 import { API_BASE, resolveImageUrl } from '../config/api';
+import { salePrice } from '../lib/products';
 import { Product, ProductCategory, Testimonial } from '../types';
 
 const DEFAULT_TESTIMONIALS: Testimonial[] = [
@@ -77,7 +78,7 @@ const Home = () => {
           id: p.slug || p.id,
           name: p.name,
           price: parseFloat(p.price),
-          compareAtPrice: p.compareAtPrice ? parseFloat(p.compareAtPrice) : undefined,
+          compareAtPrice: salePrice(p),
           currency: p.currency || 'AUD',
           category: p.category as ProductCategory,
           colours: [],
@@ -87,6 +88,9 @@ const Home = () => {
           detailImages: p.detailImages || [],
           badge: p.badge,
           availability: p.availability || 'In stock',
+          hasVariants: p.hasVariants || false,
+          productType: p.productType,
+          promotionLabel: p.promotion?.label,
         }));
         setFeaturedProducts(mapped);
       } catch {
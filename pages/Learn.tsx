@@ -1,5 +1,4 @@
 import React, { useState, useEffect, useMemo } from 'react';
-import { Link } from 'react-router-dom';
 import SubNav from '../components/SubNav';
 import {
   ArrowRight,
@@ -15,6 +14,7 @@ import {
 import { useSettings } from '../context/SettingsContext';
 import { API_BASE } from '../config/api';
 import { LearnItem, Testimonial, FAQItem } from '../types';
+import EnrolModal from '../components/EnrolModal';
 
 const Learn = () => {
   const { settings } = useSettings();
@@ -82,6 +82,8 @@ const Learn = () => {
   const [subscribing, setSubscribing] = useState(false);
   const [subscribeError, setSubscribeError] = useState('');
 
+  const [enrolItem, setEnrolItem] = useState<LearnItem | null>(null);
+
   // Register Interest modal state
   const [interestModal, setInterestModal] = useState<{ open: boolean; title: string }>({ open: false, title: '' });
   const [interestName, setInterestName] = useState('');
@@ -387,8 +389,8 @@ const Learn = () => {
                       Register Interest
                     </button>
                   ) : (
-                    <Link
-                      to={`/contact?subject=${encodeURIComponent(item.title)}`}
+                    <button
+                      onClick={() => setEnrolItem(item)}
                       className={`inline-block px-6 py-2 uppercase tracking-widest text-[10px] font-bold transition-colors text-center ${
                         item.type === 'ONLINE'
                           ? 'bg-stone-900 text-white hover:bg-clay'
@@ -396,7 +398,7 @@ const Learn = () => {
                       }`}
                     >
                       {item.type === 'ONLINE' ? 'Enrol Now' : 'Reserve Spot'}
-                    </Link>
+                    </button>
                   )}
                 </div>
               </div>
@@ -506,6 +508,9 @@ const Learn = () => {
         </div>
       </section>
 
+      {/* Dates, pricing and checkout */}
+      <EnrolModal item={enrolItem} onClose={() => setEnrolItem(null)} />
+
       {/* Register Interest Modal */}
       {interestModal.open && (
         <div className="fixed inset-0 z-50 flex items-center justify-center px-4">
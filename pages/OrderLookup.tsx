@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { Search, Loader2, AlertCircle } from 'lucide-react';
+import { API_BASE } from '../config/api';
+import { CustomerOrder } from '../types';
+import { useCustomerAuth } from '../context/CustomerAuthContext';
+import OrderDetailView from '../components/OrderDetailView';
+
+const OrderLookup = () => {
+  const [searchParams] = useSearchParams();
+  const { isAuthenticated } = useCustomerAuth();
+
+  const [orderNumber, setOrderNumber] = useState(searchParams.get('order') || '');
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [order, setOrder] = useState<CustomerOrder | null>(null);
+
+  useEffect(() => { document.title = 'Find Your Order | Lyne Tilt'; }, []);
+
+  const lookupBody = () => JSON.stringify({ orderNumber: orderNumber.trim(), email: email.trim() });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`${API_BASE}/customer/orders/lookup`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: lookupBody(),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "We couldn't find that order");
+      setOrder(data);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (order) {
+    return (
+      <div className="min-h-screen pt-32 pb-20 px-6 bg-white/80">
+        <div className="max-w-4xl mx-auto">
+          <OrderDetailView
+            order={order}
+            onBack={() => setOrder(null)}
+            fetchInvoice={() => fetch(`${API_BASE}/customer/orders/lookup/invoice`, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: lookupBody(),
+            })}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-32 pb-20 px-6 bg-white/80 flex items-center justify-center">
+      <div className="max-w-md w-full text-center">
+        <div className="w-20 h-20 bg-stone-100 rounded-full flex items-center justify-center mx-auto mb-6">
+          <Search size={36} className="text-stone-600" />
+        </div>
+        <h1 className="font-serif text-2xl text-stone-900 mb-2">Find Your Order</h1>
+        <p className="text-stone-500 mb-8">
+          Enter your order number and the email you used at checkout to see its status.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 flex items-start gap-2 text-left">
+            <AlertCircle size={16} className="text-red-600 shrink-0 mt-0.5" />
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4 text-left">
+          <div>
+            <label className="block text-xs font-medium text-stone-500 uppercase tracking-wider mb-1">
+              Order Number
+            </label>
+            <input
+              type="text"
+              value={orderNumber}
+              onChange={(e) => setOrderNumber(e.target.value)}
+              placeholder="LT-..."
+              required
+              className="w-full px-4 py-3 border border-stone-300 text-stone-900 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/20 focus:border-stone-900 transition-colors"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-stone-500 uppercase tracking-wider mb-1">
+              Email
+            </label>
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="your@email.com"
+              required
+              className="w-full px-4 py-3 border border-stone-300 text-stone-900 placeholder-stone-400 focus:outline-none focus:ring-2 focus:ring-stone-900/20 focus:border-stone-900 transition-colors"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full flex items-center justify-center gap-2 bg-stone-900 text-white py-4 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors disabled:bg-stone-400"
+          >
+            {loading && <Loader2 size={14} className="animate-spin" />}
+            Find Order
+          </button>
+        </form>
+
+        {isAuthenticated && (
+          <p className="text-sm text-stone-500 mt-6">
+            Signed in? All your orders are in{' '}
+            <Link to="/account?tab=orders" className="text-clay hover:underline">your account</Link>.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OrderLookup;
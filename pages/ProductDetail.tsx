@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useLocation, Link } from 'react-router-dom';
-import { ShieldCheck, Plus, Minus, Check, Loader2, BellRing } from 'lucide-react';
+import { ShieldCheck, Plus, Minus, Check, Loader2, BellRing, Star, X } from 'lucide-react';
 import { useCart } from '../context/CartContext';
 import { API_BASE, resolveImageUrl } from '../config/api';
+import { salePrice } from '../lib/products';
 import { trackEvent } from '../lib/analytics';
-import { Product, ProductCategory } from '../types';
+import { Product, ProductCategory, ProductVariant } from '../types';
 
 const DEFAULT_CARE_DESCRIPTION = `Treat it with love, but not stress.\n\n• Avoid dropping, bending, or scratching\n• Wipe with a soft, damp cloth\n• Avoid chemical exposure (including perfumes or sprays)\n• Store in original packaging to prevent damage or loss`;
 
@@ -33,8 +34,17 @@ const ProductDetail = () => {
   const [loading, setLoading] = useState(true);
   const [openSection, setOpenSection] = useState<string | null>('description');
   const [addedToCart, setAddedToCart] = useState(false);
+  const [selectedOptions, setSelectedOptions] = useState<Record<string, string>>({});
   const { addToCart } = useCart();
 
+  // Gift card purchase details
+  const [giftCardAmount, setGiftCardAmount] = useState<number | null>(null);
+  const [giftCardRecipientName, setGiftCardRecipientName] = useState('');
+  const [giftCardRecipientEmail, setGiftCardRecipientEmail] = useState('');
+  const [giftCardMessage, setGiftCardMessage] = useState('');
+  const [giftCardDeliveryDate, setGiftCardDeliveryDate] = useState('');
+  const [giftCardError, setGiftCardError] = useState('');
+
   // Waitlist state
   const [waitlistEmail, setWaitlistEmail] = useState('');
   const [waitlistName, setWaitlistName] = useState('');
@@ -46,6 +56,10 @@ const ProductDetail = () => {
   // Care description from API
   const [careDescription, setCareDescription] = useState<string | null>(null);
 
+  // Customer photos from approved reviews
+  const [reviewPhotos, setReviewPhotos] = useState<Array<{ id: string; url: string; customerName: string; rating: number; title: string | null }>>([]);
+  const [openPhoto, setOpenPhoto] = useState<number | null>(null);
+
   useEffect(() => {
     if (product) document.title = `${product.name} | Lyne Tilt`;
   }, [product]);
@@ -75,11 +89,38 @@ const ProductDetail = () => {
 
           setCareDescription(data.careDescription || null);
 
+          fetch(`${API_BASE}/reviews/product/${data.id}/photos`)
+            .then(r => (r.ok ? r.json() : []))
+            .then(setReviewPhotos)
+            .catch(() => setReviewPhotos([]));
+
+          // Only active variants are purchasable; sold out when tracked stock runs out
+          const variants: ProductVariant[] = (data.variants || [])
+            .filter((v: any) => v.active)
+            .map((v: any) => ({
+              id: v.id,
+              title: v.title,
+              options: v.options || {},
+              price: v.price ? parseFloat(v.price) : parseFloat(data.price),
+              compareAtPrice: salePrice(data, v),
+              image: v.image || data.media?.find((m: any) => m.variantId === v.id)?.url,
+              available: !(data.trackInventory && !data.continueSelling && v.quantity <= 0),
+            }));
+
+          // Preselect the first in-stock variant
+          const firstAvailable = variants.find(v => v.available);
+          setSelectedOptions(firstAvailable ? { ...firstAvailable.options } : {});
+
+          const denominations: number[] = data.productType === 'gift-card'
+            ? (data.giftCardDenominations?.length ? data.giftCardDenominations : [parseFloat(data.price)])
+            : [];
+          setGiftCardAmount(denominations[0] ?? null);
+
           setProduct({
             id: data.slug || data.id,
             name: data.name,
             price: parseFloat(data.price),
-            compareAtPrice: data.compareAtPrice ? parseFloat(data.compareAtPrice) : undefined,
+            compareAtPrice: salePrice(data),
             currency: data.currency || 'AUD',
             category: data.category as ProductCategory,
             colours: [],
@@ -90,6 +131,12 @@ const ProductDetail = () => {
             detailImages: images,
             badge: data.badge,
             availability: data.availability || 'In stock',
+            hasVariants: variants.length > 0,
+            options: variants.length > 0 ? (data.options || []).map((o: any) => ({ name: o.name, values: o.values || [] })) : [],
+            variants,
+            productType: data.productType,
+            giftCardDenominations: denominations,
+            promotionLabel: data.promotion?.label,
           });
           trackEvent('product_view', { entityType: 'product', entityId: data.slug || data.id });
         } else {
@@ -149,12 +196,59 @@ const ProductDetail = () => {
     setOpenSection(openSection === section ? null : section);
   };
 
+  const options = product?.options || [];
+  const selectedVariant = product?.hasVariants
+    ? product.variants?.find(v => options.every(o => v.options[o.name] === selectedOptions[o.name]))
+    : undefined;
+
+  // A value is selectable if some in-stock variant matches it alongside the other current choices
+  const isValueAvailable = (optionName: string, value: string) =>
+    !!product?.variants?.some(v =>
+      v.available &&
+      v.options[optionName] === value &&
+      options.every(o => o.name === optionName || !selectedOptions[o.name] || v.options[o.name] === selectedOptions[o.name])
+    );
+
+  const isGiftCard = product?.productType === 'gift-card';
+  const today = new Date().toLocaleDateString('en-CA');
+
   const handleAddToCart = () => {
-    // Use sale price if applicable
-    const effectiveProduct = product.compareAtPrice && product.compareAtPrice < product.price
-      ? { ...product, price: product.compareAtPrice }
-      : product;
-    addToCart(effectiveProduct);
+    if (isGiftCard) {
+      const recipientEmail = giftCardRecipientEmail.trim();
+      if (!giftCardAmount) {
+        setGiftCardError('Please choose an amount');
+        return;
+      }
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipientEmail)) {
+        setGiftCardError("Please enter the recipient's email address");
+        return;
+      }
+      setGiftCardError('');
+      addToCart(product, undefined, {
+        amount: giftCardAmount,
+        recipientName: giftCardRecipientName.trim(),
+        recipientEmail,
+        message: giftCardMessage.trim(),
+        deliveryDate: giftCardDeliveryDate && giftCardDeliveryDate > today ? giftCardDeliveryDate : null,
+      });
+      setGiftCardRecipientName('');
+      setGiftCardRecipientEmail('');
+      setGiftCardMessage('');
+      setGiftCardDeliveryDate('');
+    } else if (product.hasVariants) {
+      if (!selectedVariant || !selectedVariant.available) return;
+      // Use sale price if applicable
+      const effectiveVariant = selectedVariant.compareAtPrice && selectedVariant.compareAtPrice < selectedVariant.price
+        ? { ...selectedVariant, price: selectedVariant.compareAtPrice }
+        : selectedVariant;
+      addToCart(product, effectiveVariant);
+    } else {
+      // Use sale price if applicable
+      const effectiveProduct = product.compareAtPrice && product.compareAtPrice < product.price
+        ? { ...product, price: product.compareAtPrice }
+        : product;
+      addToCart(effectiveProduct);
+    }
     setAddedToCart(true);
     setTimeout(() => setAddedToCart(false), 3000);
   };
@@ -179,6 +273,12 @@ const ProductDetail = () => {
   // Resolve care text: per-product override > default
   const careText = careDescription || DEFAULT_CARE_DESCRIPTION;
 
+  // Price and image follow the selected variant
+  const displayPrice = isGiftCard && giftCardAmount ? giftCardAmount : selectedVariant?.price ?? product.price;
+  const displayCompareAt = selectedVariant ? selectedVariant.compareAtPrice : product.compareAtPrice;
+  const displayImage = selectedVariant?.image || product.image;
+  const variantUnavailable = product.hasVariants && (!selectedVariant || !selectedVariant.available);
+
   return (
     <div className="pt-32 pb-24 px-6 max-w-7xl mx-auto">
       {/* Breadcrumbs */}
@@ -196,7 +296,7 @@ const ProductDetail = () => {
         {/* Gallery (Left column) */}
         <div className="space-y-3 mx-auto lg:mx-0 max-w-lg">
           <div className="aspect-[4/5] bg-stone-100 overflow-hidden">
-            <img src={resolveImageUrl(product.image)} alt={product.name} className="w-full h-full object-cover" />
+            <img src={resolveImageUrl(displayImage)} alt={selectedVariant ? `${product.name} — ${selectedVariant.title}` : product.name} className="w-full h-full object-cover" />
           </div>
           {product.detailImages.length > 0 && (
             <div className="grid grid-cols-2 gap-3">
@@ -212,14 +312,118 @@ const ProductDetail = () => {
         {/* Info (Right column) */}
         <div className="lg:sticky lg:top-32 h-fit">
           <h1 className="text-2xl md:text-3xl font-serif text-stone-900 mb-3">{product.name}</h1>
-          {product.compareAtPrice && product.compareAtPrice < product.price ? (
+          {displayCompareAt && displayCompareAt < displayPrice ? (
             <div className="flex items-center gap-3 mb-6">
-              <span className="text-lg font-light text-stone-400 line-through">${product.price}</span>
-              <span className="text-lg font-bold text-clay">${product.compareAtPrice}</span>
-              <span className="text-xs bg-clay/10 text-clay px-2 py-0.5 rounded-full font-medium uppercase tracking-wide">Sale</span>
+              <span className="text-lg font-light text-stone-400 line-through">${displayPrice}</span>
+              <span className="text-lg font-bold text-clay">${displayCompareAt}</span>
+              <span className="text-xs bg-clay/10 text-clay px-2 py-0.5 rounded-full font-medium uppercase tracking-wide">{product.promotionLabel || 'Sale'}</span>
             </div>
           ) : (
-            <p className="text-lg font-light text-stone-500 mb-6">${product.price}</p>
+            <div className="flex items-center gap-3 mb-6">
+              <p className="text-lg font-light text-stone-500">${displayPrice}</p>
+              {product.promotionLabel && (
+                <span className="text-xs bg-clay/10 text-clay px-2 py-0.5 rounded-full font-medium uppercase tracking-wide">{product.promotionLabel}</span>
+              )}
+            </div>
+          )}
+
+          {/* Option selectors (size / colour / finish) */}
+          {product.hasVariants && product.availability !== 'Sold out' && options.map(option => (
+            <div key={option.name} className="mb-6">
+              <span className="text-xs uppercase tracking-wider text-stone-400 block mb-2">
+                {option.name}{selectedOptions[option.name] && <span className="text-stone-700 normal-case tracking-normal ml-2">{selectedOptions[option.name]}</span>}
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {option.values.map(value => {
+                  const selected = selectedOptions[option.name] === value;
+                  const available = isValueAvailable(option.name, value);
+                  return (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => setSelectedOptions(prev => ({ ...prev, [option.name]: value }))}
+                      className={`px-4 py-2 text-xs border transition-colors ${
+                        selected
+                          ? 'border-stone-900 bg-stone-900 text-white'
+                          : 'border-stone-200 text-stone-700 hover:border-stone-400'
+                      } ${!available ? 'opacity-40 line-through' : ''}`}
+                    >
+                      {value}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          {/* Gift card amount and recipient */}
+          {isGiftCard && product.availability !== 'Sold out' && (
+            <div className="mb-6 space-y-4">
+              <div>
+                <span className="text-xs uppercase tracking-wider text-stone-400 block mb-2">Amount</span>
+                <div className="flex flex-wrap gap-2">
+                  {(product.giftCardDenominations || []).map(amount => (
+                    <button
+                      key={amount}
+                      type="button"
+                      onClick={() => setGiftCardAmount(amount)}
+                      className={`px-4 py-2 text-xs border transition-colors ${
+                        giftCardAmount === amount
+                          ? 'border-stone-900 bg-stone-900 text-white'
+                          : 'border-stone-200 text-stone-700 hover:border-stone-400'
+                      }`}
+                    >
+                      ${amount}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-col sm:flex-row gap-3">
+                <input
+                  type="text"
+                  value={giftCardRecipientName}
+                  onChange={(e) => setGiftCardRecipientName(e.target.value)}
+                  placeholder="Recipient name"
+                  maxLength={100}
+                  className="flex-1 px-4 py-3 border border-stone-200 bg-white text-sm text-stone-800 placeholder-stone-400 focus:outline-none focus:border-clay transition-colors"
+                />
+                <input
+                  type="email"
+                  value={giftCardRecipientEmail}
+                  onChange={(e) => setGiftCardRecipientEmail(e.target.value)}
+                  placeholder="Recipient email *"
+                  className="flex-1 px-4 py-3 border border-stone-200 bg-white text-sm text-stone-800 placeholder-stone-400 focus:outline-none focus:border-clay transition-colors"
+                />
+              </div>
+              <div>
+                <textarea
+                  value={giftCardMessage}
+                  onChange={(e) => setGiftCardMessage(e.target.value)}
+                  placeholder="Personal message (optional)"
+                  maxLength={200}
+                  rows={3}
+                  className="w-full px-4 py-3 border border-stone-200 bg-white text-sm text-stone-800 placeholder-stone-400 focus:outline-none focus:border-clay transition-colors resize-none"
+                />
+                <p className="text-xs text-stone-400 text-right">{giftCardMessage.length}/200</p>
+              </div>
+              <div>
+                <label htmlFor="gift-card-delivery" className="text-xs uppercase tracking-wider text-stone-400 block mb-2">Delivery date</label>
+                <input
+                  id="gift-card-delivery"
+                  type="date"
+                  value={giftCardDeliveryDate}
+                  min={today}
+                  onChange={(e) => setGiftCardDeliveryDate(e.target.value)}
+                  className="px-4 py-3 border border-stone-200 bg-white text-sm text-stone-800 focus:outline-none focus:border-clay transition-colors"
+                />
+                <p className="text-xs text-stone-400 mt-1">
+                  {giftCardDeliveryDate && giftCardDeliveryDate > today
+                    ? 'Emailed to the recipient on the morning of this date.'
+                    : 'Emailed to the recipient as soon as your order is paid.'}
+                </p>
+              </div>
+              {giftCardError && <p className="text-xs text-red-600">{giftCardError}</p>}
+            </div>
           )}
 
           {product.availability === 'Sold out' ? (
@@ -282,6 +486,10 @@ const ProductDetail = () => {
                 )}
               </div>
             </div>
+          ) : variantUnavailable ? (
+            <div className="w-full py-5 uppercase tracking-[0.2em] text-xs font-bold bg-stone-200 text-stone-500 flex items-center justify-center cursor-not-allowed mb-10">
+              {selectedVariant ? 'Sold Out' : 'Select an Option'}
+            </div>
           ) : (
             <button
               onClick={handleAddToCart}
@@ -370,6 +578,46 @@ const ProductDetail = () => {
           </div>
         </div>
       </div>
+
+      {/* Customer photos */}
+      {reviewPhotos.length > 0 && (
+        <div className="mt-20 pt-10 border-t border-stone-200">
+          <h2 className="font-serif text-2xl text-stone-900 mb-2">As Worn &amp; Loved</h2>
+          <p className="text-sm text-stone-500 mb-6">Photos from customers who reviewed this piece.</p>
+          <div className="grid grid-cols-3 sm:grid-cols-4 lg:grid-cols-6 gap-3">
+            {reviewPhotos.map((photo, idx) => (
+              <button
+                key={photo.id}
+                type="button"
+                onClick={() => setOpenPhoto(idx)}
+                className="aspect-square bg-stone-100 overflow-hidden cursor-zoom-in"
+              >
+                <img src={resolveImageUrl(photo.url)} alt={`Photo by ${photo.customerName}`} className="w-full h-full object-cover hover:scale-105 transition-transform duration-700" />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {openPhoto !== null && reviewPhotos[openPhoto] && (
+        <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-6" onClick={() => setOpenPhoto(null)}>
+          <button type="button" className="absolute top-6 right-6 text-white/80 hover:text-white" aria-label="Close">
+            <X size={24} />
+          </button>
+          <div className="max-w-2xl w-full" onClick={(e) => e.stopPropagation()}>
+            <img src={resolveImageUrl(reviewPhotos[openPhoto].url)} alt={`Photo by ${reviewPhotos[openPhoto].customerName}`} className="w-full max-h-[75vh] object-contain" />
+            <div className="mt-4 text-white flex items-center gap-3">
+              <div className="flex items-center gap-0.5">
+                {[1, 2, 3, 4, 5].map(i => (
+                  <Star key={i} size={14} className={i <= reviewPhotos[openPhoto].rating ? 'text-amber-400 fill-amber-400' : 'text-white/30'} />
+                ))}
+              </div>
+              <span className="text-sm">{reviewPhotos[openPhoto].customerName}</span>
+              {reviewPhotos[openPhoto].title && <span className="text-sm text-white/70">— {reviewPhotos[openPhoto].title}</span>}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
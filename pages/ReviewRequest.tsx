@@ -0,0 +1,307 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { CheckCircle, XCircle, Loader2, Star, ShieldCheck, ImagePlus, X } from 'lucide-react';
+import { API_BASE, resolveImageUrl } from '../config/api';
+
+interface ReviewableItem {
+  productId: string;
+  productName: string;
+  productImage: string | null;
+  reviewed: boolean;
+}
+
+interface ReviewRequestDetails {
+  orderNumber: string;
+  customerName: string;
+  items: ReviewableItem[];
+  maxPhotos: number;
+}
+
+const ReviewRequest = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+
+  const [request, setRequest] = useState<ReviewRequestDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+
+  const [productId, setProductId] = useState<string | null>(null);
+  const [rating, setRating] = useState(0);
+  const [hoverRating, setHoverRating] = useState(0);
+  const [name, setName] = useState('');
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [justReviewed, setJustReviewed] = useState<string | null>(null);
+
+  useEffect(() => { document.title = 'Leave a Review | Lyne Tilt'; }, []);
+
+  useEffect(() => {
+    if (!token) {
+      setLoadError('This review link is incomplete. Please use the link from your email.');
+      setLoading(false);
+      return;
+    }
+
+    fetch(`${API_BASE}/reviews/request/${encodeURIComponent(token)}`)
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(data.error || 'This review link is invalid or has expired');
+        return data as ReviewRequestDetails;
+      })
+      .then((data) => {
+        setRequest(data);
+        setName(data.customerName || '');
+        const requested = searchParams.get('product');
+        const first = data.items.find(i => i.productId === requested && !i.reviewed)
+          || data.items.find(i => !i.reviewed);
+        setProductId(first?.productId || null);
+      })
+      .catch((err) => setLoadError(err.message))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  // Object URLs for the photo previews
+  const [previews, setPreviews] = useState<string[]>([]);
+  useEffect(() => {
+    const urls = photos.map(p => URL.createObjectURL(p));
+    setPreviews(urls);
+    return () => urls.forEach(u => URL.revokeObjectURL(u));
+  }, [photos]);
+
+  const maxPhotos = request?.maxPhotos || 5;
+  const item = request?.items.find(i => i.productId === productId);
+  const remaining = request?.items.filter(i => !i.reviewed) || [];
+
+  const addPhotos = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    setPhotos(prev => [...prev, ...files].slice(0, maxPhotos));
+    if (photos.length + files.length > maxPhotos) {
+      setError(`You can add up to ${maxPhotos} photos`);
+    }
+  };
+
+  const startReview = (id: string) => {
+    setProductId(id);
+    setRating(0);
+    setTitle('');
+    setBody('');
+    setPhotos([]);
+    setError('');
+    setJustReviewed(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item || !token) return;
+    if (rating < 1) {
+      setError('Please choose a star rating');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      const form = new FormData();
+      form.append('productId', item.productId);
+      form.append('rating', String(rating));
+      form.append('customerName', name.trim());
+      if (title.trim()) form.append('title', title.trim());
+      if (body.trim()) form.append('body', body.trim());
+      photos.forEach(photo => form.append('photos', photo));
+
+      const res = await fetch(`${API_BASE}/reviews/request/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        body: form,
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || 'Could not send your review. Please try again.');
+
+      setRequest(prev => prev && {
+        ...prev,
+        items: prev.items.map(i => (i.productId === item.productId ? { ...i, reviewed: true } : i)),
+      });
+      setJustReviewed(item.productName);
+      setProductId(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pt-32 pb-20 px-6 flex items-center justify-center">
+        <Loader2 size={32} className="animate-spin text-stone-400" />
+      </div>
+    );
+  }
+
+  if (loadError || !request) {
+    return (
+      <div className="min-h-screen pt-32 pb-20 px-6 bg-white/80 flex items-center justify-center">
+        <div className="max-w-md w-full text-center">
+          <div className="w-20 h-20 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <XCircle size={40} className="text-red-600" />
+          </div>
+          <h1 className="font-serif text-2xl text-stone-900 mb-2">Link Not Valid</h1>
+          <p className="text-stone-500 mb-8">{loadError}</p>
+          <Link
+            to="/shop"
+            className="inline-block w-full bg-stone-900 text-white py-4 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors"
+          >
+            Back to Shop
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-32 pb-20 px-6 bg-white/80">
+      <div className="max-w-xl mx-auto">
+        <h1 className="font-serif text-3xl text-stone-900 mb-2 text-center">Leave a Review</h1>
+        <p className="text-stone-500 text-sm text-center mb-10">
+          Order {request.orderNumber} · <span className="inline-flex items-center gap-1"><ShieldCheck size={14} className="text-clay" /> Verified purchase</span>
+        </p>
+
+        {justReviewed && (
+          <div className="mb-8 p-6 bg-stone-50 border border-stone-200 text-center">
+            <CheckCircle size={24} className="mx-auto text-green-600 mb-3" />
+            <p className="text-sm text-stone-700 font-medium">Thank you for reviewing {justReviewed}!</p>
+            <p className="text-xs text-stone-400 mt-1">It will appear on the product page once it has been checked.</p>
+          </div>
+        )}
+
+        {item ? (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="flex items-center gap-4">
+              {item.productImage && (
+                <img src={resolveImageUrl(item.productImage)} alt={item.productName} className="w-16 h-16 object-cover bg-stone-100" />
+              )}
+              <p className="font-serif text-xl text-stone-900">{item.productName}</p>
+            </div>
+
+            <div>
+              <span className="text-xs uppercase tracking-wider text-stone-400 block mb-2">Your rating *</span>
+              <div className="flex items-center gap-1" onMouseLeave={() => setHoverRating(0)}>
+                {[1, 2, 3, 4, 5].map(i => (
+                  <button
+                    key={i}
+                    type="button"
+                    onClick={() => setRating(i)}
+                    onMouseEnter={() => setHoverRating(i)}
+                    aria-label={`${i} star${i === 1 ? '' : 's'}`}
+                  >
+                    <Star
+                      size={28}
+                      className={i <= (hoverRating || rating) ? 'text-amber-400 fill-amber-400' : 'text-stone-300'}
+                    />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name shown with your review"
+              maxLength={100}
+              className="w-full px-4 py-3 border border-stone-200 bg-white text-sm text-stone-800 placeholder-stone-400 focus:outline-none focus:border-clay transition-colors"
+            />
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Headline (optional)"
+              maxLength={120}
+              className="w-full px-4 py-3 border border-stone-200 bg-white text-sm text-stone-800 placeholder-stone-400 focus:outline-none focus:border-clay transition-colors"
+            />
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="What did you think?"
+              rows={5}
+              maxLength={2000}
+              className="w-full px-4 py-3 border border-stone-200 bg-white text-sm text-stone-800 placeholder-stone-400 focus:outline-none focus:border-clay transition-colors resize-none"
+            />
+
+            <div>
+              <span className="text-xs uppercase tracking-wider text-stone-400 block mb-2">
+                Photos ({photos.length}/{maxPhotos})
+              </span>
+              <div className="flex flex-wrap gap-3">
+                {previews.map((url, idx) => (
+                  <div key={url} className="relative w-20 h-20 bg-stone-100">
+                    <img src={url} alt={`Photo ${idx + 1}`} className="w-full h-full object-cover" />
+                    <button
+                      type="button"
+                      onClick={() => setPhotos(prev => prev.filter((_, i) => i !== idx))}
+                      className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-stone-900 text-white flex items-center justify-center"
+                      aria-label="Remove photo"
+                    >
+                      <X size={12} />
+                    </button>
+                  </div>
+                ))}
+                {photos.length < maxPhotos && (
+                  <label className="w-20 h-20 border border-dashed border-stone-300 flex items-center justify-center cursor-pointer text-stone-400 hover:border-clay hover:text-clay transition-colors">
+                    <ImagePlus size={20} />
+                    <input type="file" accept="image/jpeg,image/png,image/webp" multiple onChange={addPhotos} className="hidden" />
+                  </label>
+                )}
+              </div>
+              <p className="text-xs text-stone-400 mt-2">JPG, PNG or WebP, up to 5MB each.</p>
+            </div>
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+
+            <button
+              type="submit"
+              disabled={submitting}
+              className="w-full py-4 bg-stone-900 text-white uppercase tracking-[0.2em] text-xs font-bold hover:bg-clay transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+            >
+              {submitting && <Loader2 size={14} className="animate-spin" />}
+              Submit Review
+            </button>
+          </form>
+        ) : remaining.length > 0 ? (
+          <div className="space-y-3">
+            <p className="text-sm text-stone-600 mb-2">Would you like to review anything else from this order?</p>
+            {remaining.map(i => (
+              <button
+                key={i.productId}
+                type="button"
+                onClick={() => startReview(i.productId)}
+                className="w-full flex items-center gap-4 p-4 border border-stone-200 bg-white hover:border-clay transition-colors text-left"
+              >
+                {i.productImage && (
+                  <img src={resolveImageUrl(i.productImage)} alt={i.productName} className="w-12 h-12 object-cover bg-stone-100" />
+                )}
+                <span className="flex-1 text-sm text-stone-800">{i.productName}</span>
+                <span className="text-xs uppercase tracking-wider text-clay">Review</span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center">
+            {!justReviewed && <p className="text-sm text-stone-600 mb-6">You've reviewed everything from this order. Thank you!</p>}
+            <Link
+              to="/shop"
+              className="inline-block w-full bg-stone-900 text-white py-4 uppercase tracking-widest text-xs font-bold hover:bg-clay transition-colors"
+            >
+              Back to Shop
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewRequest;
@@ -5,6 +5,7 @@ import { ProductCategory, ProductColour, PriceRange, Availability, Product } fro
 import ProductCard from '../components/ProductCard';
 import FilterDropdown from '../components/FilterDropdown';
 import { API_BASE } from '../config/api';
+import { salePrice } from '../lib/products';
 
 const Shop = () => {
   const [searchParams] = useSearchParams();
@@ -28,18 +29,23 @@ const Shop = () => {
   useEffect(() => {
     const fetchProducts = async () => {
       try {
-        const response = await fetch(`${API_BASE}/products?productType=wearable&limit=100`);
+        const [response, giftCardResponse] = await Promise.all([
+          fetch(`${API_BASE}/products?productType=wearable&limit=100`),
+          fetch(`${API_BASE}/products?productType=gift-card&limit=20`),
+        ]);
         if (!response.ok) {
           throw new Error(`API error: ${response.status}`);
         }
         const data = await response.json();
-        const items = data.products || data;
+        // Gift cards are listed after the pieces; the shop still works without them
+        const giftCardData = giftCardResponse.ok ? await giftCardResponse.json() : { products: [] };
+        const items = [...(data.products || data), ...(giftCardData.products || [])];
         // Map API response to match frontend Product type
         const mappedProducts: Product[] = items.map((p: any) => ({
           id: p.slug || p.id,
           name: p.name,
           price: parseFloat(p.price),
-          compareAtPrice: p.compareAtPrice ? parseFloat(p.compareAtPrice) : undefined,
+          compareAtPrice: salePrice(p),
           currency: p.currency || 'AUD',
           category: p.category as ProductCategory,
           colours: [],
@@ -49,6 +55,9 @@ const Shop = () => {
           detailImages: p.detailImages || [],
           badge: p.badge,
           availability: p.availability || 'In stock',
+          hasVariants: p.hasVariants || false,
+          productType: p.productType,
+          promotionLabel: p.promotion?.label,
         }));
         setProducts(mappedProducts);
         setError(null);
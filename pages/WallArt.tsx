@@ -6,6 +6,7 @@ import { ShoppingBag, Loader2 } from 'lucide-react';
 import { useCart } from '../context/CartContext';
 import FilterDropdown from '../components/FilterDropdown';
 import { API_BASE, resolveImageUrl } from '../config/api';
+import { salePrice } from '../lib/products';
 
 const WallArt = () => {
   const [wallArtProducts, setWallArtProducts] = useState<WallArtProduct[]>([]);
@@ -30,6 +31,7 @@ const WallArt = () => {
           id: p.slug || p.id,
           name: p.name,
           price: parseFloat(p.price),
+          compareAtPrice: salePrice(p),
           currency: p.currency || 'AUD',
           category: p.category as WallArtCategory,
           colours: [],
@@ -40,6 +42,7 @@ const WallArt = () => {
           detailImages: p.detailImages || [],
           badge: p.badge,
           availability: p.availability || 'In stock',
+          promotionLabel: p.promotion?.label,
         }));
         setWallArtProducts(mapped);
         setError(null);
@@ -129,8 +132,12 @@ const WallArt = () => {
     setAvailabilityFilter(Availability.All);
   };
 
+  const isOnSale = (product: WallArtProduct) => !!product.compareAtPrice && product.compareAtPrice < product.price;
+
   const handleAddToCart = (product: WallArtProduct) => {
-    addToCart(product as unknown as Product);
+    // Use sale price if applicable
+    const effectiveProduct = isOnSale(product) ? { ...product, price: product.compareAtPrice! } : product;
+    addToCart(effectiveProduct as unknown as Product);
   };
 
   const isSoldOut = (product: WallArtProduct) => product.availability === 'Sold out';
@@ -213,9 +220,9 @@ const WallArt = () => {
                 alt={product.name}
                 className={`w-full h-full object-cover transition-transform duration-700 group-hover:scale-105 ${isSoldOut(product) ? 'opacity-60' : ''}`}
               />
-              {product.badge && (
+              {(product.badge || product.promotionLabel) && (
                 <span className="absolute top-3 left-3 bg-white/90 backdrop-blur-sm text-[9px] uppercase tracking-widest font-bold text-stone-900 px-2 py-1">
-                  {product.badge}
+                  {product.badge || product.promotionLabel}
                 </span>
               )}
               {isSoldOut(product) && (
@@ -238,7 +245,14 @@ const WallArt = () => {
               {product.dimensions && (
                 <p className="text-xs text-stone-400 mb-2">{product.dimensions}</p>
               )}
-              <p className="text-lg font-medium text-stone-900 mb-3">${product.price} {product.currency}</p>
+              {isOnSale(product) ? (
+                <p className="text-lg mb-3">
+                  <span className="line-through text-stone-400 font-normal mr-2">${product.price}</span>
+                  <span className="text-clay font-medium">${product.compareAtPrice} {product.currency}</span>
+                </p>
+              ) : (
+                <p className="text-lg font-medium text-stone-900 mb-3">${product.price} {product.currency}</p>
+              )}
 
               {!isSoldOut(product) ? (
                 <button
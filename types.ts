@@ -54,6 +54,35 @@ export interface Product {
   rating?: number;
   reviewCount?: number;
   availability?: string;
+  hasVariants?: boolean;
+  options?: ProductOption[];
+  variants?: ProductVariant[];
+  productType?: string;
+  giftCardDenominations?: number[];
+  promotionLabel?: string; // running automatic promotion, e.g. "Buy 2 get 1 free"
+}
+
+export interface GiftCardDetails {
+  amount: number;
+  recipientName: string;
+  recipientEmail: string;
+  message: string;
+  deliveryDate: string | null;
+}
+
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  id: string;
+  title: string;
+  options: Record<string, string>;
+  price: number;
+  compareAtPrice?: number;
+  image?: string;
+  available: boolean;
 }
 
 export interface CoachingPackage {
@@ -67,6 +96,7 @@ export interface CoachingPackage {
   coverImageUrl?: string;
   price?: string;
   priceAmount?: string;
+  priceType?: 'fixed' | 'from' | 'free' | 'inquiry';
   currency?: string;
   recurring?: boolean;
   recurringInterval?: string;
@@ -78,6 +108,7 @@ export interface LearnItem {
   title: string;
   type: 'ONLINE' | 'WORKSHOP';
   price: string;
+  priceAmount?: string;
   image: string;
   description: string;
   // Enhanced fields
@@ -134,4 +165,102 @@ export interface WallArtProduct {
   rating?: number;
   reviewCount?: number;
   availability?: string;
+  compareAtPrice?: number;
+  promotionLabel?: string;
+}
+
+export interface OrderTimelineStep {
+  key: 'placed' | 'paid' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+  label: string;
+  at: string | null;
+}
+
+export interface CustomerOrderItem {
+  id: string;
+  itemType: 'product' | 'coaching' | 'learn' | 'cohort';
+  productName: string;
+  variantTitle: string | null;
+  productImage: string | null;
+  price: string;
+  quantity: number;
+  refundedQuantity: number;
+  slug: string | null;
+  // Present for products that can be reordered
+  reorder: {
+    available: boolean;
+    product: {
+      id: string;
+      name: string;
+      price: string;
+      currency: string;
+      category: string;
+      image: string;
+      shortDescription: string | null;
+      availability: string;
+      productType: string;
+    };
+    variant: {
+      id: string;
+      title: string;
+      options: Record<string, string>;
+      price: string;
+      image: string | null;
+    } | null;
+  } | null;
+}
+
+export interface CustomerOrderSummary {
+  orderNumber: string;
+  status: 'pending' | 'confirmed' | 'shipped' | 'delivered' | 'cancelled';
+  paymentStatus: string | null;
+  subtotal: string;
+  shipping: string;
+  tax: string;
+  taxName: string | null;
+  taxInclusive: boolean;
+  giftCardAmount: string;
+  discountCode: string | null;
+  discountAmount: string;
+  promotions: { id: string; name: string; amount: string }[];
+  refundedAmount: string;
+  total: string;
+  currency: string;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  createdAt: string;
+  paidAt: string | null;
+  shippedAt: string | null;
+  deliveredAt: string | null;
+  cancelledAt: string | null;
+  // List view only
+  itemCount?: number;
+  itemNames?: string;
+  image?: string | null;
+}
+
+export interface CustomerOrder extends CustomerOrderSummary {
+  shippingAddress: {
+    firstName: string;
+    lastName: string;
+    address: string;
+    city: string;
+    state: string;
+    postcode: string;
+    country: string;
+  };
+  items: CustomerOrderItem[];
+  timeline: OrderTimelineStep[];
+}
+
+export interface SavedAddress {
+  id: string;
+  firstName: string;
+  lastName: string;
+  address: string;
+  city: string;
+  state: string;
+  postcode: string;
+  country: string; // ISO code, e.g. "AU"
+  phone: string | null;
+  isDefault: boolean;
 }
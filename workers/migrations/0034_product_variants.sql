@@ -0,0 +1,39 @@
+-- Migration: Product variants (size / colour / finish)
+-- Option definitions per product, plus one variant row per purchasable
+-- combination with its own SKU, price override, stock and images.
+-- When a product has variants, products.quantity is kept as the sum of
+-- variant stock so inventory listings keep working unchanged.
+
+CREATE TABLE IF NOT EXISTS product_options (
+  id TEXT PRIMARY KEY,
+  product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,                   -- e.g. "Size", "Colour", "Finish"
+  option_values TEXT NOT NULL DEFAULT '[]', -- JSON array e.g. ["Small","Large"]
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS product_options_product_id_idx ON product_options(product_id);
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id TEXT PRIMARY KEY,
+  product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,                  -- e.g. "Large / Gold"
+  sku TEXT,
+  options TEXT NOT NULL DEFAULT '{}',   -- JSON map e.g. {"Size":"Large","Finish":"Gold"}
+  price TEXT,                           -- overrides products.price when set
+  compare_at_price TEXT,
+  quantity INTEGER NOT NULL DEFAULT 0,
+  image TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS product_variants_product_id_idx ON product_variants(product_id);
+CREATE UNIQUE INDEX IF NOT EXISTS product_variants_sku_idx ON product_variants(sku);
+
+-- Order lines record which variant was bought
+ALTER TABLE order_items ADD COLUMN variant_id TEXT REFERENCES product_variants(id) ON DELETE SET NULL;
+ALTER TABLE order_items ADD COLUMN variant_title TEXT;
@@ -0,0 +1,10 @@
+-- Migration: GST / tax on orders
+-- Tax is calculated per line item (respecting products.taxable) and stored
+-- alongside the order total. Australian prices are GST-inclusive, so for
+-- inclusive rates the tax is the GST component already inside the price.
+
+ALTER TABLE order_items ADD COLUMN tax TEXT NOT NULL DEFAULT '0';
+
+ALTER TABLE orders ADD COLUMN tax_name TEXT;                              -- e.g. "GST"
+ALTER TABLE orders ADD COLUMN tax_rate TEXT NOT NULL DEFAULT '0';         -- percentage, e.g. "10"
+ALTER TABLE orders ADD COLUMN tax_inclusive INTEGER NOT NULL DEFAULT 1;   -- tax already included in prices
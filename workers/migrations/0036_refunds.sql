@@ -0,0 +1,39 @@
+-- Migration: Refunds and returns
+-- One refunds row per Stripe refund (issued from the admin or directly in the
+-- Stripe dashboard), with optional per-line refund_items recording quantities
+-- returned and whether they were put back into stock.
+-- orders.refunded_amount and order_items.refunded_quantity are running totals
+-- so the order page can show what is still refundable.
+
+CREATE TABLE IF NOT EXISTS refunds (
+  id TEXT PRIMARY KEY,
+  order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  stripe_refund_id TEXT UNIQUE,
+  amount TEXT NOT NULL,
+  reason TEXT NOT NULL DEFAULT 'requested_by_customer', -- requested_by_customer | damaged | wrong_item | not_as_described | duplicate | fraudulent | other
+  note TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',                -- pending | succeeded | failed | canceled
+  source TEXT NOT NULL DEFAULT 'admin',                  -- admin | stripe
+  restocked INTEGER NOT NULL DEFAULT 0,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS refunds_order_id_idx ON refunds(order_id);
+CREATE INDEX IF NOT EXISTS refunds_created_at_idx ON refunds(created_at);
+
+CREATE TABLE IF NOT EXISTS refund_items (
+  id TEXT PRIMARY KEY,
+  refund_id TEXT NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+  order_item_id TEXT NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL,
+  amount TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS refund_items_refund_id_idx ON refund_items(refund_id);
+
+ALTER TABLE order_items ADD COLUMN refunded_quantity INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE orders ADD COLUMN refunded_amount TEXT NOT NULL DEFAULT '0';
+ALTER TABLE orders ADD COLUMN refunded_at TEXT;
@@ -0,0 +1,17 @@
+-- Migration: Gift cards in checkout
+-- Gift cards become a purchasable product type (product_type = 'gift-card')
+-- with a fixed list of denominations. Purchased cards are issued on payment
+-- and emailed to the recipient on their chosen delivery date.
+-- Orders record the gift card redeemed against them.
+
+ALTER TABLE products ADD COLUMN gift_card_denominations TEXT;  -- JSON array e.g. [25,50,100]
+
+ALTER TABLE gift_cards ADD COLUMN deliver_at TEXT;              -- purchased cards: when to email the recipient
+ALTER TABLE gift_cards ADD COLUMN delivered_at TEXT;
+
+CREATE INDEX IF NOT EXISTS gift_cards_deliver_at_idx ON gift_cards(deliver_at);
+
+ALTER TABLE orders ADD COLUMN gift_card_code TEXT;
+ALTER TABLE orders ADD COLUMN gift_card_amount TEXT NOT NULL DEFAULT '0';
+
+ALTER TABLE order_items ADD COLUMN gift_card_id TEXT REFERENCES gift_cards(id) ON DELETE SET NULL;
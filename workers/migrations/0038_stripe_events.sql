@@ -0,0 +1,28 @@
+-- Migration: Stripe webhook event ledger
+-- Every verified webhook event is recorded by its Stripe event id before it is
+-- handled, so retries and duplicate deliveries are acknowledged without being
+-- processed twice. The stored payload lets admins replay an event after fixing
+-- whatever made it fail.
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id TEXT PRIMARY KEY,                          -- Stripe event id (evt_...)
+  type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing',    -- processing | processed | ignored | failed
+  object_id TEXT,                               -- id of the session / charge / payment intent
+  order_id TEXT REFERENCES orders(id) ON DELETE SET NULL,
+  payload TEXT NOT NULL,                        -- full event JSON
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  livemode INTEGER NOT NULL DEFAULT 0,
+  stripe_created_at TEXT NOT NULL,
+  received_at TEXT NOT NULL DEFAULT (datetime('now')),
+  last_attempt_at TEXT NOT NULL DEFAULT (datetime('now')),
+  processed_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS stripe_events_type_idx ON stripe_events(type);
+CREATE INDEX IF NOT EXISTS stripe_events_status_idx ON stripe_events(status);
+CREATE INDEX IF NOT EXISTS stripe_events_received_at_idx ON stripe_events(received_at);
+
+-- Orders are looked up by checkout session for async payments and duplicate checks
+CREATE INDEX IF NOT EXISTS orders_checkout_session_idx ON orders(stripe_checkout_session_id);
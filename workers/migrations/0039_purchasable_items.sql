@@ -0,0 +1,14 @@
+-- Migration: Coaching, courses and workshop cohorts in checkout
+-- Order items can now be something other than a shop product. item_type says
+-- what was bought and item_id points at the coaching package, learn item or
+-- cohort (product lines keep using product_id). Paid coaching creates a
+-- client record and, when a time was picked, a booking linked to the order.
+
+ALTER TABLE order_items ADD COLUMN item_type TEXT NOT NULL DEFAULT 'product';  -- product | coaching | learn | cohort
+ALTER TABLE order_items ADD COLUMN item_id TEXT;
+
+CREATE INDEX IF NOT EXISTS order_items_item_idx ON order_items(item_type, item_id);
+
+ALTER TABLE coaching_bookings ADD COLUMN order_id TEXT REFERENCES orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS bookings_order_id_idx ON coaching_bookings(order_id);
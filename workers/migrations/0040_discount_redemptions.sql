@@ -0,0 +1,27 @@
+-- Migration: Native discount codes
+-- Discount codes are now checked and applied by the worker instead of Stripe
+-- promotion codes. Each order that used a code gets a discount_redemptions
+-- row, which is what per-customer limits and discount_codes.usage_count are
+-- counted from. The order keeps the code and total discount; each line keeps
+-- its share so refunds return what was actually paid.
+
+CREATE TABLE IF NOT EXISTS discount_redemptions (
+  id TEXT PRIMARY KEY,
+  discount_code_id TEXT REFERENCES discount_codes(id) ON DELETE SET NULL,
+  code TEXT NOT NULL,
+  order_id TEXT NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  customer_id TEXT REFERENCES customer_users(id) ON DELETE SET NULL,
+  email TEXT,
+  amount TEXT NOT NULL,               -- items + shipping discount
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS discount_redemptions_order_idx ON discount_redemptions(order_id);
+CREATE INDEX IF NOT EXISTS discount_redemptions_code_idx ON discount_redemptions(discount_code_id);
+CREATE INDEX IF NOT EXISTS discount_redemptions_customer_idx ON discount_redemptions(customer_id);
+CREATE INDEX IF NOT EXISTS discount_redemptions_email_idx ON discount_redemptions(email);
+
+ALTER TABLE orders ADD COLUMN discount_code TEXT;
+ALTER TABLE orders ADD COLUMN discount_amount TEXT NOT NULL DEFAULT '0';  -- off the items; shipping is stored after its discount
+
+ALTER TABLE order_items ADD COLUMN discount TEXT NOT NULL DEFAULT '0';  -- share of the order discount for price × quantity
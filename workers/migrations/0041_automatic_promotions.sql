@@ -0,0 +1,32 @@
+-- Migration: Automatic promotions
+-- Code-less promotions applied at checkout while they are scheduled: a
+-- percentage or fixed amount off matching items, buy X get Y, or tiered spend
+-- discounts. Higher priority promotions apply first; a promotion that isn't
+-- stackable only applies on its own, and combines_with_codes decides whether
+-- a discount code can be used on top. Orders keep the promotions they got.
+
+CREATE TABLE IF NOT EXISTS automatic_promotions (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  label TEXT,                          -- badge shown on products, e.g. "Weekend sale"
+  type TEXT NOT NULL,                  -- percentage | fixed_amount | buy_x_get_y | spend_threshold
+  value REAL NOT NULL DEFAULT 0,       -- % or $ off each item; % off the "get" items for buy_x_get_y
+  buy_quantity INTEGER NOT NULL DEFAULT 0,
+  get_quantity INTEGER NOT NULL DEFAULT 0,
+  tiers TEXT DEFAULT '[]',             -- spend_threshold: [{"minSpend":200,"amountOff":30}]
+  applicable_to TEXT NOT NULL DEFAULT 'all',
+  product_ids TEXT DEFAULT '[]',
+  categories TEXT DEFAULT '[]',
+  starts_at TEXT,
+  ends_at TEXT,
+  priority INTEGER NOT NULL DEFAULT 0,
+  stackable INTEGER NOT NULL DEFAULT 0,
+  combines_with_codes INTEGER NOT NULL DEFAULT 1,
+  active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS automatic_promotions_active_idx ON automatic_promotions(active);
+
+ALTER TABLE orders ADD COLUMN promotions TEXT DEFAULT '[]';  -- [{"id","name","amount"}] applied at checkout
@@ -0,0 +1,39 @@
+-- Migration: Inventory ledger and stock reservations
+-- Every change to products.quantity or product_variants.quantity now writes an
+-- inventory_movements row saying why (sale, return, adjustment, restock,
+-- damaged or stocktake) and what the stock was left at, so the history of a
+-- piece can be audited. Variant movements carry the variant id and its own
+-- quantity_after.
+-- Units in an open Stripe Checkout session are held in stock_reservations
+-- until the session completes or expires, so a one-of-a-kind piece can't be
+-- bought twice at once.
+
+CREATE TABLE IF NOT EXISTS inventory_movements (
+  id TEXT PRIMARY KEY,
+  product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id TEXT REFERENCES product_variants(id) ON DELETE SET NULL,
+  type TEXT NOT NULL,                  -- sale | return | adjustment | restock | damaged | stocktake
+  quantity_change INTEGER NOT NULL,
+  quantity_after INTEGER NOT NULL,
+  note TEXT,
+  order_id TEXT REFERENCES orders(id) ON DELETE SET NULL,
+  user_id TEXT,                        -- admin who made the change; null for checkout and webhooks
+  user_name TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS inventory_movements_product_idx ON inventory_movements(product_id, created_at);
+CREATE INDEX IF NOT EXISTS inventory_movements_order_idx ON inventory_movements(order_id);
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id TEXT PRIMARY KEY,
+  product_id TEXT NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  variant_id TEXT REFERENCES product_variants(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL,
+  session_id TEXT NOT NULL,            -- Stripe Checkout session holding the units
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS stock_reservations_product_idx ON stock_reservations(product_id, expires_at);
+CREATE INDEX IF NOT EXISTS stock_reservations_session_idx ON stock_reservations(session_id);
@@ -0,0 +1,13 @@
+-- Migration: Waitlist automation
+-- Waitlists are now emailed automatically when a product's stock goes from
+-- zero to positive. For one-of-a-kind pieces the shop can offer the piece to
+-- the earliest sign-up only and hold it for them: hold_expires_at is when that
+-- hold lapses and the piece is offered to the next person in line.
+-- When a notified email later orders the product, the entry becomes
+-- 'purchased' with the order it converted on.
+
+ALTER TABLE waitlist ADD COLUMN hold_expires_at TEXT;
+ALTER TABLE waitlist ADD COLUMN purchased_at TEXT;
+ALTER TABLE waitlist ADD COLUMN order_id TEXT REFERENCES orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS waitlist_hold_expires_idx ON waitlist(hold_expires_at);
@@ -0,0 +1,10 @@
+-- Migration: Low-stock thresholds
+-- A product or variant is low on stock once its quantity falls to its
+-- threshold or below. Variants without their own threshold use the product's,
+-- and products without one use the shop default (site_settings 'inventory').
+-- NULL means "use the fallback"; a threshold of 0 turns alerts off.
+-- Low stock replaces the fixed "fewer than 5" rule the inventory page used,
+-- which flagged every one-of-a-kind piece.
+
+ALTER TABLE products ADD COLUMN low_stock_threshold INTEGER;
+ALTER TABLE product_variants ADD COLUMN low_stock_threshold INTEGER;
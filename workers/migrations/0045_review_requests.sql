@@ -0,0 +1,28 @@
+-- Migration: Review requests and photo reviews
+-- A few days after an order is delivered the buyer is emailed a signed link to
+-- review what they bought. review_requested_at records that the email went out
+-- so it's only ever sent once per order. Reviews left through the link carry
+-- the order they came from and are verified purchases by construction.
+-- Reviews can now include a handful of photos, stored in R2 under uploads/.
+-- Each photo is moderated on its own: only approved photos of approved reviews
+-- appear in the product page gallery.
+
+ALTER TABLE orders ADD COLUMN review_requested_at TEXT;
+ALTER TABLE product_reviews ADD COLUMN order_id TEXT REFERENCES orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS orders_delivered_at_idx ON orders(delivered_at);
+CREATE INDEX IF NOT EXISTS reviews_order_idx ON product_reviews(order_id);
+
+CREATE TABLE IF NOT EXISTS review_photos (
+  id TEXT PRIMARY KEY,
+  review_id TEXT NOT NULL REFERENCES product_reviews(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,                   -- /api/upload/<filename>
+  filename TEXT NOT NULL,
+  file_size INTEGER,
+  mime_type TEXT,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending | approved | rejected
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS review_photos_review_idx ON review_photos(review_id, sort_order);
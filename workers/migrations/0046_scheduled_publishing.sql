@@ -0,0 +1,11 @@
+-- Migration: Scheduled publishing
+-- Scheduled products, blog posts, coaching offers and workshops are now
+-- published by the cron job when their date arrives, instead of only when
+-- someone happened to load a list page. archive_at takes a live item off the
+-- site on a given date (a limited run, a workshop whose bookings close).
+-- Both dates are cleared once the cron job has acted on them.
+
+ALTER TABLE products ADD COLUMN archive_at TEXT;
+ALTER TABLE blog_posts ADD COLUMN archive_at TEXT;
+ALTER TABLE coaching_packages ADD COLUMN archive_at TEXT;
+ALTER TABLE learn_items ADD COLUMN archive_at TEXT;
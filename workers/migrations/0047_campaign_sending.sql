@@ -0,0 +1,16 @@
+-- Migration: Campaign sending from cron
+-- Campaigns are sent by the cron job in batches rather than in a single
+-- request, so a large list no longer times out half way through. When a send
+-- starts the audience is resolved and frozen in recipient_snapshot;
+-- send_offset is how far through the snapshot we've got, and only moves once
+-- a batch has been handed to Resend. A tick that dies mid-batch retries the
+-- same batch with the same idempotency key, so nobody is emailed twice.
+-- send_locked_until stops two overlapping ticks working on one campaign.
+-- scheduled_for is now stored in UTC; scheduled_timezone is kept for display.
+
+ALTER TABLE campaigns ADD COLUMN send_offset INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE campaigns ADD COLUMN failed_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE campaigns ADD COLUMN send_attempts INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE campaigns ADD COLUMN send_error TEXT;
+ALTER TABLE campaigns ADD COLUMN send_started_at TEXT;
+ALTER TABLE campaigns ADD COLUMN send_locked_until TEXT;
@@ -0,0 +1,13 @@
+-- Migration: Resend delivery webhooks
+-- Resend reports deliveries, bounces and complaints to /api/webhooks/resend.
+-- Campaign emails are matched by the campaign_id tag sent with each batch (or
+-- by the Resend email id on the "delivered" event recorded at send time);
+-- automation emails by the Resend email id now kept on the queue item.
+-- delivery_status is the latest of delivered / bounced / complained.
+
+ALTER TABLE automation_queue ADD COLUMN resend_email_id TEXT;
+ALTER TABLE automation_queue ADD COLUMN delivery_status TEXT;
+ALTER TABLE automation_queue ADD COLUMN delivery_updated_at TEXT;
+
+CREATE INDEX automation_queue_resend_email_id_idx ON automation_queue (resend_email_id);
+CREATE INDEX campaign_events_email_id_idx ON campaign_events (json_extract(metadata, '$.emailId'));
@@ -0,0 +1,10 @@
+-- Migration: Campaign personalisation and tracking
+-- Campaign emails are now rendered per recipient: merge tags such as
+-- {{first_name}} are filled in, links go through
+-- /api/newsletter/track/campaign/... and an open pixel is added, all recorded
+-- as campaign_events. custom_fields holds extra per-subscriber values for
+-- merge tags ({{custom.key}}), as a JSON object of strings.
+
+ALTER TABLE subscribers ADD COLUMN custom_fields TEXT;
+
+CREATE INDEX campaign_events_campaign_subscriber_idx ON campaign_events (campaign_id, subscriber_id, event_type);
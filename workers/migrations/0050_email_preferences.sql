@@ -0,0 +1,9 @@
+-- Migration: Email preference centre
+-- Unsubscribe links now open a preference page, signed per address, where a
+-- subscriber can pick topics (their tags, from the subscriber_tags list),
+-- hear from us less often, pause campaigns for 30 days or unsubscribe.
+-- email_frequency holds back campaigns until a week or month has passed
+-- since last_emailed_at; paused_until holds them back entirely until then.
+
+ALTER TABLE subscribers ADD COLUMN email_frequency TEXT NOT NULL DEFAULT 'all';
+ALTER TABLE subscribers ADD COLUMN paused_until TEXT;
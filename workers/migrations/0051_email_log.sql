@@ -0,0 +1,30 @@
+-- Migration: Outbound email log
+-- Every email now goes out through the gateway in utils/emailGateway.ts,
+-- which checks the suppression list (and, for marketing email, that the
+-- address hasn't unsubscribed) and records the outcome here: sent with the
+-- Resend email id, skipped with the reason, or failed with the error.
+-- kind is what sent it (campaign, automation, waitlist, ...) and
+-- reference_id the record it was about, where there is one.
+-- Automation queue items whose recipient can't be emailed become 'skipped',
+-- and campaigns count the recipients left out for that reason.
+
+CREATE TABLE IF NOT EXISTS email_log (
+  id TEXT PRIMARY KEY,
+  recipient_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  category TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  reference_id TEXT,
+  status TEXT NOT NULL,
+  skip_reason TEXT,
+  error TEXT,
+  provider_id TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS email_log_recipient_email_idx ON email_log (recipient_email);
+CREATE INDEX IF NOT EXISTS email_log_kind_reference_idx ON email_log (kind, reference_id);
+CREATE INDEX IF NOT EXISTS email_log_provider_id_idx ON email_log (provider_id);
+CREATE INDEX IF NOT EXISTS email_log_created_at_idx ON email_log (created_at);
+
+ALTER TABLE campaigns ADD COLUMN skipped_count INTEGER NOT NULL DEFAULT 0;
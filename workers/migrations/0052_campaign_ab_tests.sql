@@ -0,0 +1,16 @@
+-- Migration: Campaign A/B tests
+-- A campaign's own subject and body are variant A; variants holds B to D as
+-- JSON, each overriding the subject, the body or both. When sending starts
+-- ab_test_percent of the audience is dealt out across the variants and sent
+-- first (ab_test_size is that count). ab_test_window_hours after the last
+-- test batch the cron job picks the variant with the best open or click rate
+-- (ab_winner_metric), records it in ab_winner and sends it to everyone else.
+-- Test recipients' campaign_events carry the variant in their metadata.
+
+ALTER TABLE campaigns ADD COLUMN variants TEXT;
+ALTER TABLE campaigns ADD COLUMN ab_test_percent INTEGER NOT NULL DEFAULT 20;
+ALTER TABLE campaigns ADD COLUMN ab_winner_metric TEXT NOT NULL DEFAULT 'open_rate';
+ALTER TABLE campaigns ADD COLUMN ab_test_window_hours INTEGER NOT NULL DEFAULT 4;
+ALTER TABLE campaigns ADD COLUMN ab_test_size INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE campaigns ADD COLUMN ab_test_ends_at TEXT;
+ALTER TABLE campaigns ADD COLUMN ab_winner TEXT;
@@ -0,0 +1,44 @@
+-- Migration: Automation workflows
+-- An automation can now hold a workflow: a graph of nodes (wait, send email,
+-- condition, add/remove tag, update client status, notify admin, exit) run
+-- one contact at a time by the cron job. Automations without one keep
+-- queueing their template or step list as before.
+-- extra_triggers lists triggers besides `trigger` that enrol contacts, and
+-- goal (cart recovered, purchased, has tag) takes a contact out of the
+-- workflow as soon as it's met.
+-- automation_enrollments records each contact's progress: the next node to
+-- run and when, the trigger's placeholder values, and what ran so far.
+-- Workflow emails still go out through automation_queue, linked to their
+-- enrolment, with opens and clicks tracked for condition nodes.
+
+ALTER TABLE email_automations ADD COLUMN workflow TEXT;
+ALTER TABLE email_automations ADD COLUMN extra_triggers TEXT DEFAULT '[]';
+ALTER TABLE email_automations ADD COLUMN goal TEXT;
+
+CREATE TABLE IF NOT EXISTS automation_enrollments (
+  id TEXT PRIMARY KEY,
+  automation_id TEXT NOT NULL REFERENCES email_automations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  name TEXT,
+  trigger TEXT NOT NULL,
+  context TEXT,
+  status TEXT NOT NULL DEFAULT 'active',
+  current_node_id TEXT,
+  next_run_at TEXT,
+  history TEXT DEFAULT '[]',
+  purchased_at TEXT,
+  error TEXT,
+  completed_at TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS automation_enrollments_automation_id_idx ON automation_enrollments (automation_id);
+CREATE INDEX IF NOT EXISTS automation_enrollments_email_idx ON automation_enrollments (email);
+CREATE INDEX IF NOT EXISTS automation_enrollments_due_idx ON automation_enrollments (status, next_run_at);
+
+ALTER TABLE automation_queue ADD COLUMN enrollment_id TEXT REFERENCES automation_enrollments(id) ON DELETE CASCADE;
+ALTER TABLE automation_queue ADD COLUMN opened_at TEXT;
+ALTER TABLE automation_queue ADD COLUMN clicked_at TEXT;
+
+CREATE INDEX IF NOT EXISTS automation_queue_enrollment_id_idx ON automation_queue (enrollment_id);
@@ -0,0 +1,10 @@
+-- Migration: Gift card refunds
+-- Refunds can return the part of an order paid by gift card to that card as
+-- well as refunding the Stripe charge. refunds.amount stays the Stripe part
+-- (what revenue reports subtract); refunds.gift_card_amount is credited back
+-- to the card with a 'refund' gift_card_transactions row.
+-- orders.gift_card_refunded_amount is the running total credited back, like
+-- orders.refunded_amount is for Stripe.
+
+ALTER TABLE refunds ADD COLUMN gift_card_amount TEXT NOT NULL DEFAULT '0';
+ALTER TABLE orders ADD COLUMN gift_card_refunded_amount TEXT NOT NULL DEFAULT '0';
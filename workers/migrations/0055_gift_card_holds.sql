@@ -0,0 +1,16 @@
+-- Migration: Gift card holds
+-- The gift card balance applied to a Checkout session is taken off the card
+-- when the session is created, with a conditional update so it can't be
+-- spent twice by two open sessions. gift_card_holds records what each
+-- session took: the order's redemption replaces it, and an expired session
+-- puts it back on the card.
+
+CREATE TABLE IF NOT EXISTS gift_card_holds (
+  id TEXT PRIMARY KEY,
+  gift_card_id TEXT NOT NULL REFERENCES gift_cards(id) ON DELETE CASCADE,
+  session_id TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS gift_card_holds_session_idx ON gift_card_holds (session_id);
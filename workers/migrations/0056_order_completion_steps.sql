@@ -0,0 +1,11 @@
+-- Migration: Order completion steps
+-- The checkout webhook saves an order and then takes its stock, releases the
+-- session's holds and runs the follow-ups (customer link, services, waitlist,
+-- automations). Recording when each is done lets a retried webhook finish an
+-- order whose first attempt failed part-way instead of skipping it.
+-- Orders placed before this have already been through every step.
+
+ALTER TABLE orders ADD COLUMN stock_deducted_at TEXT;
+ALTER TABLE orders ADD COLUMN followed_up_at TEXT;
+
+UPDATE orders SET stock_deducted_at = created_at, followed_up_at = created_at;
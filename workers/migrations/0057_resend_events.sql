@@ -0,0 +1,13 @@
+-- Migration: Resend events
+-- Resend retries a webhook until it gets a 2xx, so the same bounce can arrive
+-- more than once. Recording each email's event as it's applied means a
+-- bounce is only counted against the address once, whatever sent the email.
+
+CREATE TABLE IF NOT EXISTS resend_events (
+  id TEXT PRIMARY KEY,
+  email_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS resend_events_email_event_idx ON resend_events (email_id, event_type);
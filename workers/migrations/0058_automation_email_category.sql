@@ -0,0 +1,10 @@
+-- Migration: Automation email category
+-- Automation emails are marketing unless the automation is set to send them
+-- as transactional, which is only allowed for order receipts and shipping
+-- notices (order placed / fulfilled triggers). Transactional emails skip the
+-- unsubscribe check, so this is an explicit choice rather than worked out
+-- from the trigger. The built-in order confirmation is a receipt.
+
+ALTER TABLE email_automations ADD COLUMN email_category TEXT NOT NULL DEFAULT 'marketing';
+
+UPDATE email_automations SET email_category = 'transactional' WHERE id = 'order-confirmation';
@@ -98,7 +98,7 @@ export const shippingAddresses = sqliteTable('shipping_addresses', {
 
 export const products = sqliteTable('products', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
-  productType: text('product_type', { enum: ['wearable', 'wall-art', 'digital'] }).notNull().default('wearable'),
+  productType: text('product_type', { enum: ['wearable', 'wall-art', 'digital', 'gift-card'] }).notNull().default('wearable'),
   name: text('name').notNull(),
   slug: text('slug').notNull().unique(),
 
@@ -108,6 +108,7 @@ export const products = sqliteTable('products', {
   costPrice: text('cost_price'),
   currency: text('currency').notNull().default('AUD'),
   taxable: integer('taxable', { mode: 'boolean' }).notNull().default(true),
+  giftCardDenominations: text('gift_card_denominations', { mode: 'json' }).$type<number[]>(), // gift-card products only
 
   // Descriptions
   shortDescription: text('short_description'),
@@ -132,6 +133,7 @@ export const products = sqliteTable('products', {
   quantity: integer('quantity').notNull().default(1),
   continueSelling: integer('continue_selling', { mode: 'boolean' }).notNull().default(false),
   availability: text('availability').notNull().default('In stock'),
+  lowStockThreshold: integer('low_stock_threshold'), // null = shop default
 
   // Media (primary image shortcut for listings)
   image: text('image').notNull().default(''),
@@ -154,6 +156,7 @@ export const products = sqliteTable('products', {
   status: text('status', { enum: ['draft', 'active', 'scheduled', 'archived', 'discontinued'] }).notNull().default('draft'),
   publishedAt: text('published_at'),
   scheduledFor: text('scheduled_for'),
+  archiveAt: text('archive_at'), // taken off the site by the cron job at this time
   displayOrder: integer('display_order').default(0),
 
   // Backward compat (kept during transition)
@@ -228,6 +231,76 @@ export const productMedia = sqliteTable('product_media', {
   sortOrderIdx: index('product_media_sort_order_idx').on(table.sortOrder),
 }));
 
+// ============================================
+// PRODUCT OPTIONS & VARIANTS
+// ============================================
+
+export const productOptions = sqliteTable('product_options', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(), // e.g. "Size", "Colour", "Finish"
+  values: text('option_values', { mode: 'json' }).$type<string[]>().notNull().default([]),
+  sortOrder: integer('sort_order').notNull().default(0),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  productIdIdx: index('product_options_product_id_idx').on(table.productId),
+}));
+
+export const productVariants = sqliteTable('product_variants', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  title: text('title').notNull(), // e.g. "Large / Gold"
+  sku: text('sku'),
+  options: text('options', { mode: 'json' }).$type<Record<string, string>>().notNull().default({}),
+  price: text('price'), // overrides products.price when set
+  compareAtPrice: text('compare_at_price'),
+  quantity: integer('quantity').notNull().default(0),
+  lowStockThreshold: integer('low_stock_threshold'), // null = the product's threshold
+  image: text('image'),
+  sortOrder: integer('sort_order').notNull().default(0),
+  active: integer('active', { mode: 'boolean' }).notNull().default(true),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  productIdIdx: index('product_variants_product_id_idx').on(table.productId),
+  skuIdx: uniqueIndex('product_variants_sku_idx').on(table.sku),
+}));
+
+// ============================================
+// INVENTORY
+// ============================================
+
+export const inventoryMovements = sqliteTable('inventory_movements', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  variantId: text('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
+  type: text('type', { enum: ['sale', 'return', 'adjustment', 'restock', 'damaged', 'stocktake'] }).notNull(),
+  quantityChange: integer('quantity_change').notNull(),
+  quantityAfter: integer('quantity_after').notNull(), // the variant's stock for variant movements
+  note: text('note'),
+  orderId: text('order_id').references(() => orders.id, { onDelete: 'set null' }),
+  userId: text('user_id'), // admin who made the change; null for checkout and webhooks
+  userName: text('user_name'),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  productIdx: index('inventory_movements_product_idx').on(table.productId, table.createdAt),
+  orderIdx: index('inventory_movements_order_idx').on(table.orderId),
+}));
+
+// Units held by an open Stripe Checkout session until it completes or expires
+export const stockReservations = sqliteTable('stock_reservations', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  productId: text('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  variantId: text('variant_id').references(() => productVariants.id, { onDelete: 'cascade' }),
+  quantity: integer('quantity').notNull(),
+  sessionId: text('session_id').notNull(),
+  expiresAt: text('expires_at').notNull(),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  productIdx: index('stock_reservations_product_idx').on(table.productId, table.expiresAt),
+  sessionIdx: index('stock_reservations_session_idx').on(table.sessionId),
+}));
+
 // ============================================
 // SLUG REDIRECTS
 // ============================================
@@ -268,6 +341,14 @@ export const orders = sqliteTable('orders', {
   subtotal: text('subtotal').notNull(),
   shipping: text('shipping').notNull().default('0'),
   tax: text('tax').notNull().default('0'),
+  taxName: text('tax_name'), // e.g. "GST"
+  taxRate: text('tax_rate').notNull().default('0'), // percentage
+  taxInclusive: integer('tax_inclusive', { mode: 'boolean' }).notNull().default(true),
+  giftCardCode: text('gift_card_code'),
+  giftCardAmount: text('gift_card_amount').notNull().default('0'), // paid by gift card, not included in total
+  discountCode: text('discount_code'),
+  discountAmount: text('discount_amount').notNull().default('0'), // off the items; a shipping discount is already out of shipping
+  promotions: text('promotions', { mode: 'json' }).$type<Array<{ id: string; name: string; amount: string }>>().default([]),
   total: text('total').notNull(),
   currency: text('currency').notNull().default('AUD'),
   shippingFirstName: text('shipping_first_name').notNull(),
@@ -280,7 +361,11 @@ export const orders = sqliteTable('orders', {
   shippingPhone: text('shipping_phone'),
   stripePaymentIntentId: text('stripe_payment_intent_id'),
   stripeCheckoutSessionId: text('stripe_checkout_session_id'),
-  paymentStatus: text('payment_status').default('pending'),
+  paymentStatus: text('payment_status').default('pending'), // pending | paid | failed | disputed | partially_refunded | refunded
+  refundedAmount: text('refunded_amount').notNull().default('0'),
+  giftCardRefundedAmount: text('gift_card_refunded_amount').notNull().default('0'), // credited back to the gift card
+  stockDeductedAt: text('stock_deducted_at'), // set once the order's stock is taken, so a retried webhook doesn't take it twice
+  followedUpAt: text('followed_up_at'), // customer link, services, waitlist and automations done
   trackingNumber: text('tracking_number'),
   trackingUrl: text('tracking_url'),
   notes: text('notes'),
@@ -291,25 +376,95 @@ export const orders = sqliteTable('orders', {
   shippedAt: text('shipped_at'),
   deliveredAt: text('delivered_at'),
   cancelledAt: text('cancelled_at'),
+  refundedAt: text('refunded_at'),
+  reviewRequestedAt: text('review_requested_at'), // when the review request email went out
 }, (table) => ({
   orderNumberIdx: uniqueIndex('orders_order_number_idx').on(table.orderNumber),
   userIdIdx: index('orders_user_id_idx').on(table.userId),
   statusIdx: index('orders_status_idx').on(table.status),
   createdAtIdx: index('orders_created_at_idx').on(table.createdAt),
   sourceIdx: index('orders_source_idx').on(table.source),
+  checkoutSessionIdx: index('orders_checkout_session_idx').on(table.stripeCheckoutSessionId),
+  deliveredAtIdx: index('orders_delivered_at_idx').on(table.deliveredAt),
 }));
 
 export const orderItems = sqliteTable('order_items', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
   orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
   productId: text('product_id').references(() => products.id, { onDelete: 'set null' }),
+  variantId: text('variant_id').references(() => productVariants.id, { onDelete: 'set null' }),
   productName: text('product_name').notNull(),
+  variantTitle: text('variant_title'),
   productImage: text('product_image'),
   price: text('price').notNull(),
   quantity: integer('quantity').notNull().default(1),
+  tax: text('tax').notNull().default('0'), // tax component of price × quantity
+  discount: text('discount').notNull().default('0'), // share of the order discount for price × quantity
+  refundedQuantity: integer('refunded_quantity').notNull().default(0),
+  giftCardId: text('gift_card_id'), // card issued for a gift-card line
+  itemType: text('item_type', { enum: ['product', 'coaching', 'learn', 'cohort'] }).notNull().default('product'),
+  itemId: text('item_id'), // coaching package, learn item or cohort (products use productId)
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
   orderIdIdx: index('order_items_order_id_idx').on(table.orderId),
+  itemIdx: index('order_items_item_idx').on(table.itemType, table.itemId),
+}));
+
+// ============================================
+// STRIPE EVENTS
+// ============================================
+
+export const stripeEvents = sqliteTable('stripe_events', {
+  id: text('id').primaryKey(), // Stripe event id
+  type: text('type').notNull(),
+  status: text('status', { enum: ['processing', 'processed', 'ignored', 'failed'] }).notNull().default('processing'),
+  objectId: text('object_id'),
+  orderId: text('order_id').references(() => orders.id, { onDelete: 'set null' }),
+  payload: text('payload', { mode: 'json' }).notNull(),
+  error: text('error'),
+  attempts: integer('attempts').notNull().default(1),
+  livemode: integer('livemode', { mode: 'boolean' }).notNull().default(false),
+  stripeCreatedAt: text('stripe_created_at').notNull(),
+  receivedAt: text('received_at').notNull().$defaultFn(() => new Date().toISOString()),
+  lastAttemptAt: text('last_attempt_at').notNull().$defaultFn(() => new Date().toISOString()),
+  processedAt: text('processed_at'),
+}, (table) => ({
+  typeIdx: index('stripe_events_type_idx').on(table.type),
+  statusIdx: index('stripe_events_status_idx').on(table.status),
+  receivedAtIdx: index('stripe_events_received_at_idx').on(table.receivedAt),
+}));
+
+// ============================================
+// REFUNDS
+// ============================================
+
+export const refunds = sqliteTable('refunds', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  stripeRefundId: text('stripe_refund_id').unique(),
+  amount: text('amount').notNull(), // refunded through Stripe
+  giftCardAmount: text('gift_card_amount').notNull().default('0'), // credited back to the order's gift card
+  reason: text('reason', { enum: ['requested_by_customer', 'damaged', 'wrong_item', 'not_as_described', 'duplicate', 'fraudulent', 'other'] }).notNull().default('requested_by_customer'),
+  note: text('note'),
+  status: text('status', { enum: ['pending', 'succeeded', 'failed', 'canceled'] }).notNull().default('pending'),
+  source: text('source', { enum: ['admin', 'stripe'] }).notNull().default('admin'),
+  restocked: integer('restocked', { mode: 'boolean' }).notNull().default(false),
+  createdBy: text('created_by'),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  orderIdIdx: index('refunds_order_id_idx').on(table.orderId),
+  createdAtIdx: index('refunds_created_at_idx').on(table.createdAt),
+}));
+
+export const refundItems = sqliteTable('refund_items', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  refundId: text('refund_id').notNull().references(() => refunds.id, { onDelete: 'cascade' }),
+  orderItemId: text('order_item_id').notNull().references(() => orderItems.id, { onDelete: 'cascade' }),
+  quantity: integer('quantity').notNull(),
+  amount: text('amount').notNull(),
+}, (table) => ({
+  refundIdIdx: index('refund_items_refund_id_idx').on(table.refundId),
 }));
 
 // ============================================
@@ -352,6 +507,7 @@ export const coachingPackages = sqliteTable('coaching_packages', {
   tags: text('tags', { mode: 'json' }).$type<string[]>().default([]),
   publishedAt: text('published_at'),
   scheduledAt: text('scheduled_at'),
+  archiveAt: text('archive_at'),
   previousSlugs: text('previous_slugs', { mode: 'json' }).$type<string[]>().default([]),
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
@@ -426,6 +582,7 @@ export const learnItems = sqliteTable('learn_items', {
   tags: text('tags', { mode: 'json' }).$type<string[]>().default([]),
   publishedAt: text('published_at'),
   scheduledAt: text('scheduled_at'),
+  archiveAt: text('archive_at'),
   previousSlugs: text('previous_slugs', { mode: 'json' }).$type<string[]>().default([]),
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
@@ -488,6 +645,7 @@ export const blogPosts = sqliteTable('blog_posts', {
   published: integer('published', { mode: 'boolean' }).notNull().default(false),
   publishedAt: text('published_at'),
   scheduledAt: text('scheduled_at'),
+  archiveAt: text('archive_at'),
   authorId: text('author_id').references(() => users.id, { onDelete: 'set null' }),
   authorName: text('author_name'),
   metaTitle: text('meta_title'),
@@ -608,6 +766,46 @@ export const discountCodes = sqliteTable('discount_codes', {
   activeIdx: index('discount_codes_active_idx').on(table.active),
 }));
 
+export const discountRedemptions = sqliteTable('discount_redemptions', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  discountCodeId: text('discount_code_id').references(() => discountCodes.id, { onDelete: 'set null' }),
+  code: text('code').notNull(),
+  orderId: text('order_id').notNull().references(() => orders.id, { onDelete: 'cascade' }),
+  customerId: text('customer_id').references(() => customerUsers.id, { onDelete: 'set null' }),
+  email: text('email'),
+  amount: text('amount').notNull(), // items + shipping discount
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  orderIdx: uniqueIndex('discount_redemptions_order_idx').on(table.orderId),
+  codeIdx: index('discount_redemptions_code_idx').on(table.discountCodeId),
+  customerIdx: index('discount_redemptions_customer_idx').on(table.customerId),
+  emailIdx: index('discount_redemptions_email_idx').on(table.email),
+}));
+
+export const automaticPromotions = sqliteTable('automatic_promotions', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  name: text('name').notNull(),
+  label: text('label'), // badge shown on products
+  type: text('type', { enum: ['percentage', 'fixed_amount', 'buy_x_get_y', 'spend_threshold'] }).notNull(),
+  value: real('value').notNull().default(0), // % or $ off each item; % off the "get" items for buy_x_get_y
+  buyQuantity: integer('buy_quantity').notNull().default(0),
+  getQuantity: integer('get_quantity').notNull().default(0),
+  tiers: text('tiers', { mode: 'json' }).$type<Array<{ minSpend: number; amountOff: number }>>().default([]),
+  applicableTo: text('applicable_to', { enum: ['all', 'specific_products', 'specific_categories'] }).notNull().default('all'),
+  productIds: text('product_ids', { mode: 'json' }).$type<string[]>().default([]),
+  categories: text('categories', { mode: 'json' }).$type<string[]>().default([]),
+  startsAt: text('starts_at'),
+  endsAt: text('ends_at'),
+  priority: integer('priority').notNull().default(0), // higher applies first
+  stackable: integer('stackable', { mode: 'boolean' }).notNull().default(false),
+  combinesWithCodes: integer('combines_with_codes', { mode: 'boolean' }).notNull().default(true),
+  active: integer('active', { mode: 'boolean' }).notNull().default(true),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  activeIdx: index('automatic_promotions_active_idx').on(table.active),
+}));
+
 // ============================================
 // NEWSLETTER SUBSCRIBERS
 // ============================================
@@ -631,6 +829,9 @@ export const subscribers = sqliteTable('subscribers', {
   lastClickedAt: text('last_clicked_at'),
   bounceCount: integer('bounce_count').default(0),
   lastBounceAt: text('last_bounce_at'),
+  customFields: text('custom_fields', { mode: 'json' }).$type<Record<string, string>>(),
+  emailFrequency: text('email_frequency', { enum: ['all', 'weekly', 'monthly'] }).notNull().default('all'),
+  pausedUntil: text('paused_until'),
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
@@ -706,6 +907,13 @@ export const emailEvents = sqliteTable('email_events', {
 // CAMPAIGNS (unified draft + sent lifecycle)
 // ============================================
 
+export interface CampaignVariant {
+  id: string; // 'B', 'C' or 'D'
+  subject?: string | null; // null: same as variant A
+  body?: string | null;
+  bodyHtml?: string | null;
+}
+
 export const campaigns = sqliteTable('campaigns', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
   subject: text('subject').notNull(),
@@ -720,9 +928,26 @@ export const campaigns = sqliteTable('campaigns', {
   scheduledTimezone: text('scheduled_timezone'),
   sentAt: text('sent_at'),
   recipientCount: integer('recipient_count'),
-  recipientSnapshot: text('recipient_snapshot', { mode: 'json' }).$type<{ email: string; subscriberId: string }[]>(),
+  recipientSnapshot: text('recipient_snapshot', { mode: 'json' }).$type<{ email: string; subscriberId: string; variant?: string }[]>(),
   deliveredCount: integer('delivered_count').default(0),
+  // Batched sending: position in recipientSnapshot, and consecutive failed batches
+  sendOffset: integer('send_offset').notNull().default(0),
+  failedCount: integer('failed_count').notNull().default(0),
+  skippedCount: integer('skipped_count').notNull().default(0),
+  sendAttempts: integer('send_attempts').notNull().default(0),
+  sendError: text('send_error'),
+  sendStartedAt: text('send_started_at'),
+  sendLockedUntil: text('send_locked_until'),
   testSentTo: text('test_sent_to', { mode: 'json' }).$type<string[]>(),
+  // A/B testing: the subject and body above are variant A; these are B, C and D
+  variants: text('variants', { mode: 'json' }).$type<CampaignVariant[]>(),
+  abTestPercent: integer('ab_test_percent').notNull().default(20),
+  abWinnerMetric: text('ab_winner_metric', { enum: ['open_rate', 'click_rate'] }).notNull().default('open_rate'),
+  abTestWindowHours: integer('ab_test_window_hours').notNull().default(4),
+  // Frozen when sending starts: the first abTestSize recipients are the test
+  abTestSize: integer('ab_test_size').notNull().default(0),
+  abTestEndsAt: text('ab_test_ends_at'),
+  abWinner: text('ab_winner'),
   createdBy: text('created_by').references(() => users.id, { onDelete: 'set null' }),
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
@@ -743,7 +968,7 @@ export const campaignEvents = sqliteTable('campaign_events', {
   subscriberId: text('subscriber_id').references(() => subscribers.id, { onDelete: 'set null' }),
   email: text('email').notNull(),
   eventType: text('event_type', { enum: ['delivered', 'opened', 'clicked', 'bounced', 'complained', 'unsubscribed'] }).notNull(),
-  metadata: text('metadata', { mode: 'json' }).$type<{ url?: string; linkIndex?: number; bounceType?: string; reason?: string }>(),
+  metadata: text('metadata', { mode: 'json' }).$type<{ url?: string; linkIndex?: number; bounceType?: string; reason?: string; emailId?: string; variant?: string }>(),
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
   campaignIdIdx: index('campaign_events_campaign_id_idx').on(table.campaignId),
@@ -751,6 +976,7 @@ export const campaignEvents = sqliteTable('campaign_events', {
   eventTypeIdx: index('campaign_events_event_type_idx').on(table.eventType),
   createdAtIdx: index('campaign_events_created_at_idx').on(table.createdAt),
   campaignEventIdx: index('campaign_events_campaign_event_idx').on(table.campaignId, table.eventType),
+  campaignSubscriberIdx: index('campaign_events_campaign_subscriber_idx').on(table.campaignId, table.subscriberId, table.eventType),
 }));
 
 // ============================================
@@ -812,6 +1038,39 @@ export const suppressionList = sqliteTable('suppression_list', {
   reasonIdx: index('suppression_list_reason_idx').on(table.reason),
 }));
 
+// ============================================
+// EMAIL LOG
+// ============================================
+
+export const emailLog = sqliteTable('email_log', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  recipientEmail: text('recipient_email').notNull(),
+  subject: text('subject').notNull(),
+  category: text('category', { enum: ['transactional', 'marketing'] }).notNull(),
+  kind: text('kind').notNull(),
+  referenceId: text('reference_id'),
+  status: text('status', { enum: ['sent', 'skipped', 'failed'] }).notNull(),
+  skipReason: text('skip_reason', { enum: ['suppressed', 'unsubscribed'] }),
+  error: text('error'),
+  providerId: text('provider_id'),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  recipientEmailIdx: index('email_log_recipient_email_idx').on(table.recipientEmail),
+  kindReferenceIdx: index('email_log_kind_reference_idx').on(table.kind, table.referenceId),
+  providerIdIdx: index('email_log_provider_id_idx').on(table.providerId),
+  createdAtIdx: index('email_log_created_at_idx').on(table.createdAt),
+}));
+
+// Each Resend email event applied by the webhook, so retries are only applied once
+export const resendEvents = sqliteTable('resend_events', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  emailId: text('email_id').notNull(), // Resend email id
+  eventType: text('event_type', { enum: ['delivered', 'bounced', 'complained'] }).notNull(),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  emailEventIdx: uniqueIndex('resend_events_email_event_idx').on(table.emailId, table.eventType),
+}));
+
 // ============================================
 // CONTACT SUBMISSIONS
 // ============================================
@@ -903,6 +1162,38 @@ export interface AutomationStep {
   body: string;
 }
 
+export type AutomationTrigger =
+  | 'newsletter_signup' | 'purchase' | 'coaching_inquiry' | 'contact_form' | 'manual'
+  | 'form_submission_received' | 'order_placed' | 'order_fulfilled_or_delivered' | 'cart_abandoned';
+
+/** What a condition node checks about the contact it's running for. */
+export type WorkflowCondition =
+  | { type: 'opened' | 'clicked' | 'purchased' }
+  | { type: 'has_tag'; tag: string };
+
+/**
+ * One step of a workflow. Nodes point at the node that runs after them;
+ * conditions branch to `yes` or `no`. A missing or null pointer ends the run.
+ */
+export type WorkflowNode =
+  | { id: string; type: 'wait'; days: number; hours: number; next?: string | null }
+  | { id: string; type: 'send_email'; subject: string; body: string; next?: string | null }
+  | { id: string; type: 'condition'; condition: WorkflowCondition; yes?: string | null; no?: string | null }
+  | { id: string; type: 'add_tag' | 'remove_tag'; tag: string; next?: string | null }
+  | { id: string; type: 'update_client_status'; status: 'prospect' | 'discovery' | 'active' | 'paused' | 'completed'; next?: string | null }
+  | { id: string; type: 'notify_admin'; subject: string; body?: string; next?: string | null }
+  | { id: string; type: 'exit' };
+
+export interface AutomationWorkflow {
+  startNodeId: string | null;
+  nodes: WorkflowNode[];
+}
+
+/** Reaching the goal takes a contact out of the workflow wherever they are in it. */
+export type AutomationGoal =
+  | { type: 'cart_recovered' | 'purchased' }
+  | { type: 'has_tag'; tag: string };
+
 export const emailAutomations = sqliteTable('email_automations', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
   name: text('name').notNull(),
@@ -913,6 +1204,12 @@ export const emailAutomations = sqliteTable('email_automations', {
   ] }).notNull().default('manual'),
   status: text('status', { enum: ['active', 'paused'] }).notNull().default('paused'),
   steps: text('steps', { mode: 'json' }).$type<AutomationStep[]>().default([]),
+  workflow: text('workflow', { mode: 'json' }).$type<AutomationWorkflow>(),
+  // Triggers besides `trigger` that also enrol contacts in the workflow
+  extraTriggers: text('extra_triggers', { mode: 'json' }).$type<AutomationTrigger[]>().default([]),
+  goal: text('goal', { mode: 'json' }).$type<AutomationGoal>(),
+  // Transactional skips the unsubscribe check: only for order receipts and shipping notices
+  emailCategory: text('email_category', { enum: ['transactional', 'marketing'] }).notNull().default('marketing'),
   subject: text('subject'),
   previewText: text('preview_text'),
   bodyText: text('body_text'),
@@ -940,27 +1237,63 @@ export const automationQueue = sqliteTable('automation_queue', {
   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
   automationId: text('automation_id').notNull().references(() => emailAutomations.id, { onDelete: 'cascade' }),
   automationName: text('automation_name'),
+  enrollmentId: text('enrollment_id').references(() => automationEnrollments.id, { onDelete: 'cascade' }),
   stepId: text('step_id').notNull(),
   stepOrder: integer('step_order').notNull(),
   recipientEmail: text('recipient_email').notNull(),
   recipientName: text('recipient_name'),
   subject: text('subject').notNull(),
   body: text('body').notNull(),
-  status: text('status', { enum: ['scheduled', 'sent', 'failed', 'cancelled'] }).notNull().default('scheduled'),
+  status: text('status', { enum: ['scheduled', 'sent', 'failed', 'cancelled', 'skipped'] }).notNull().default('scheduled'),
   scheduledFor: text('scheduled_for').notNull(),
   sentAt: text('sent_at'),
   error: text('error'),
   retryCount: integer('retry_count').default(0),
   maxRetries: integer('max_retries').default(3),
   lastAttemptAt: text('last_attempt_at'),
+  resendEmailId: text('resend_email_id'),
+  deliveryStatus: text('delivery_status', { enum: ['delivered', 'bounced', 'complained'] }),
+  deliveryUpdatedAt: text('delivery_updated_at'),
+  // Workflow emails are tracked so conditions can branch on them
+  openedAt: text('opened_at'),
+  clickedAt: text('clicked_at'),
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
   automationIdIdx: index('automation_queue_automation_id_idx').on(table.automationId),
+  enrollmentIdIdx: index('automation_queue_enrollment_id_idx').on(table.enrollmentId),
+  resendEmailIdIdx: index('automation_queue_resend_email_id_idx').on(table.resendEmailId),
   recipientEmailIdx: index('automation_queue_recipient_email_idx').on(table.recipientEmail),
   statusIdx: index('automation_queue_status_idx').on(table.status),
   scheduledForIdx: index('automation_queue_scheduled_for_idx').on(table.scheduledFor),
 }));
 
+/**
+ * A contact's way through a workflow automation. `currentNodeId` is the next
+ * node to run, at `nextRunAt`; the trigger's placeholder values are kept in
+ * `context` for the emails along the way.
+ */
+export const automationEnrollments = sqliteTable('automation_enrollments', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  automationId: text('automation_id').notNull().references(() => emailAutomations.id, { onDelete: 'cascade' }),
+  email: text('email').notNull(),
+  name: text('name'),
+  trigger: text('trigger').notNull(),
+  context: text('context', { mode: 'json' }).$type<Record<string, string | undefined>>(),
+  status: text('status', { enum: ['active', 'completed', 'goal_reached', 'cancelled', 'failed'] }).notNull().default('active'),
+  currentNodeId: text('current_node_id'),
+  nextRunAt: text('next_run_at'),
+  history: text('history', { mode: 'json' }).$type<Array<{ nodeId: string; type: string; at: string; result?: string }>>().default([]),
+  purchasedAt: text('purchased_at'),
+  error: text('error'),
+  completedAt: text('completed_at'),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  automationIdIdx: index('automation_enrollments_automation_id_idx').on(table.automationId),
+  emailIdx: index('automation_enrollments_email_idx').on(table.email),
+  dueIdx: index('automation_enrollments_due_idx').on(table.status, table.nextRunAt),
+}));
+
 // ============================================
 // ANALYTICS & TRACKING
 // ============================================
@@ -1152,6 +1485,7 @@ export const productReviews = sqliteTable('product_reviews', {
   theme: text('theme'),
   adminResponse: text('admin_response'),
   respondedAt: text('responded_at'),
+  orderId: text('order_id').references(() => orders.id, { onDelete: 'set null' }), // set when left from a review request link
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
@@ -1160,6 +1494,22 @@ export const productReviews = sqliteTable('product_reviews', {
   customerIdx: index('reviews_customer_idx').on(table.customerId),
   featuredIdx: index('reviews_featured_idx').on(table.featured),
   themeIdx: index('reviews_theme_idx').on(table.theme),
+  orderIdx: index('reviews_order_idx').on(table.orderId),
+}));
+
+// Photos attached to a review, each moderated separately
+export const reviewPhotos = sqliteTable('review_photos', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  reviewId: text('review_id').notNull().references(() => productReviews.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  filename: text('filename').notNull(),
+  fileSize: integer('file_size'),
+  mimeType: text('mime_type'),
+  status: text('status', { enum: ['pending', 'approved', 'rejected'] }).notNull().default('pending'),
+  sortOrder: integer('sort_order').notNull().default(0),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  reviewIdx: index('review_photos_review_idx').on(table.reviewId, table.sortOrder),
 }));
 
 // ============================================
@@ -1180,11 +1530,14 @@ export const giftCards = sqliteTable('gift_cards', {
   personalMessage: text('personal_message'),
   orderId: text('order_id'),
   expiresAt: text('expires_at'),
+  deliverAt: text('deliver_at'), // purchased cards: when to email the recipient
+  deliveredAt: text('delivered_at'),
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
   codeIdx: index('gift_cards_code_idx').on(table.code),
   statusIdx: index('gift_cards_status_idx').on(table.status),
+  deliverAtIdx: index('gift_cards_deliver_at_idx').on(table.deliverAt),
 }));
 
 export const giftCardTransactions = sqliteTable('gift_card_transactions', {
@@ -1200,6 +1553,19 @@ export const giftCardTransactions = sqliteTable('gift_card_transactions', {
   cardIdx: index('gc_transactions_card_idx').on(table.giftCardId),
 }));
 
+// Balance taken off a card for an open Checkout session, so two sessions
+// can't both spend it. Becomes a redemption when the order is created, or
+// goes back on the card when the session expires.
+export const giftCardHolds = sqliteTable('gift_card_holds', {
+  id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+  giftCardId: text('gift_card_id').notNull().references(() => giftCards.id, { onDelete: 'cascade' }),
+  sessionId: text('session_id').notNull(),
+  amount: text('amount').notNull(),
+  createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
+}, (table) => ({
+  sessionIdx: index('gift_card_holds_session_idx').on(table.sessionId),
+}));
+
 // ============================================
 // WAITLIST
 // ============================================
@@ -1212,12 +1578,16 @@ export const waitlist = sqliteTable('waitlist', {
   customerId: text('customer_id').references(() => customerUsers.id),
   status: text('status', { enum: ['waiting', 'notified', 'purchased', 'cancelled'] }).notNull().default('waiting'),
   notifiedAt: text('notified_at'),
+  holdExpiresAt: text('hold_expires_at'), // first-come holds on one-of-a-kind pieces
+  purchasedAt: text('purchased_at'),
+  orderId: text('order_id').references(() => orders.id, { onDelete: 'set null' }),
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
   productIdx: index('waitlist_product_idx').on(table.productId),
   emailIdx: index('waitlist_email_idx').on(table.email),
   statusIdx: index('waitlist_status_idx').on(table.status),
   productEmailIdx: uniqueIndex('waitlist_product_email_idx').on(table.productId, table.email),
+  holdExpiresIdx: index('waitlist_hold_expires_idx').on(table.holdExpiresAt),
 }));
 
 // ============================================
@@ -1421,6 +1791,7 @@ export const coachingBookings = sqliteTable('coaching_bookings', {
   cancelledAt: text('cancelled_at'),
   cancelReason: text('cancel_reason'),
   clientId: text('client_id').references(() => coachingClients.id, { onDelete: 'set null' }),
+  orderId: text('order_id').references(() => orders.id, { onDelete: 'set null' }),
   createdAt: text('created_at').notNull().$defaultFn(() => new Date().toISOString()),
   updatedAt: text('updated_at').notNull().$defaultFn(() => new Date().toISOString()),
 }, (table) => ({
@@ -1428,6 +1799,7 @@ export const coachingBookings = sqliteTable('coaching_bookings', {
   statusIdx: index('bookings_status_idx').on(table.status),
   customerIdx: index('bookings_customer_idx').on(table.customerId),
   clientIdIdx: index('bookings_client_id_idx').on(table.clientId),
+  orderIdIdx: index('bookings_order_id_idx').on(table.orderId),
 }));
 
 // ============================================
@@ -1450,22 +1822,46 @@ export const customerUsersRelations = relations(customerUsers, ({ many }) => ({
 
 export const productsRelations = relations(products, ({ many }) => ({
   media: many(productMedia),
+  options: many(productOptions),
+  variants: many(productVariants),
   wishlistItems: many(wishlistItems),
   orderItems: many(orderItems),
 }));
 
 export const productMediaRelations = relations(productMedia, ({ one }) => ({
   product: one(products, { fields: [productMedia.productId], references: [products.id] }),
+  variant: one(productVariants, { fields: [productMedia.variantId], references: [productVariants.id] }),
+}));
+
+export const productOptionsRelations = relations(productOptions, ({ one }) => ({
+  product: one(products, { fields: [productOptions.productId], references: [products.id] }),
+}));
+
+export const productVariantsRelations = relations(productVariants, ({ one, many }) => ({
+  product: one(products, { fields: [productVariants.productId], references: [products.id] }),
+  media: many(productMedia),
 }));
 
 export const ordersRelations = relations(orders, ({ one, many }) => ({
   user: one(customerUsers, { fields: [orders.userId], references: [customerUsers.id] }),
   items: many(orderItems),
+  refunds: many(refunds),
 }));
 
 export const orderItemsRelations = relations(orderItems, ({ one }) => ({
   order: one(orders, { fields: [orderItems.orderId], references: [orders.id] }),
   product: one(products, { fields: [orderItems.productId], references: [products.id] }),
+  variant: one(productVariants, { fields: [orderItems.variantId], references: [productVariants.id] }),
+}));
+
+export const refundsRelations = relations(refunds, ({ one, many }) => ({
+  order: one(orders, { fields: [refunds.orderId], references: [orders.id] }),
+  items: many(refundItems),
+}));
+
+export const refundItemsRelations = relations(refundItems, ({ one }) => ({
+  refund: one(refunds, { fields: [refundItems.refundId], references: [refunds.id] }),
+  orderItem: one(orderItems, { fields: [refundItems.orderItemId], references: [orderItems.id] }),
 }));
 
 export const sentEmailsRelations = relations(sentEmails, ({ many }) => ({
@@ -44,7 +44,13 @@ import { giftCardsRoutes } from './routes/gift-cards';
 import { waitlistRoutes } from './routes/waitlist';
 import { wishlistRoutes } from './routes/wishlist';
 import { dataExportRoutes } from './routes/data-export';
-import { processScheduledDrafts, processAutomationQueue, processAbandonedCarts } from './utils/scheduled';
+import { stripeEventsRoutes } from './routes/stripe-events';
+import { webhooksRoutes } from './routes/webhooks';
+import { customerOrdersRoutes } from './routes/customer-orders';
+import { customerAddressesRoutes } from './routes/customer-addresses';
+import { automaticPromotionsRoutes } from './routes/automatic-promotions';
+import { processScheduledDrafts, processAutomationQueue, processAbandonedCarts, processGiftCardDeliveries, processWaitlistHolds, processLowStockDigest, processReviewRequests, processScheduledPublishing, processCampaignSends } from './utils/scheduled';
+import { processAutomationWorkflows } from './utils/workflows';
 
 // Environment bindings type
 export type Bindings = {
@@ -54,6 +60,7 @@ export type Bindings = {
   STRIPE_SECRET_KEY: string;
   STRIPE_WEBHOOK_SECRET: string;
   RESEND_API_KEY: string;
+  RESEND_WEBHOOK_SECRET: string;
   ADMIN_EMAIL: string;
   ADMIN_PASSWORD: string;
   FRONTEND_URL: string;
@@ -106,6 +113,8 @@ app.get('/api/health', (c) => {
 // Mount routes
 app.route('/api/auth', authRoutes);
 app.route('/api/customer', customerAuthRoutes);
+app.route('/api/customer/orders', customerOrdersRoutes);
+app.route('/api/customer/addresses', customerAddressesRoutes);
 app.route('/api/products', productsRoutes);
 app.route('/api/blog', blogRoutes);
 app.route('/api/testimonials', testimonialsRoutes);
@@ -131,6 +140,7 @@ app.route('/api/campaigns', campaignsRoutes);
 app.route('/api/subscribers', subscribersRoutes);
 app.route('/api/feedback', feedbackRoutes);
 app.route('/api/promotions', promotionsRoutes);
+app.route('/api/automatic-promotions', automaticPromotionsRoutes);
 app.route('/api/orders', ordersRoutes);
 app.route('/api/customers', customersRoutes);
 app.route('/api/inventory', inventoryRoutes);
@@ -142,6 +152,8 @@ app.route('/api/gift-cards', giftCardsRoutes);
 app.route('/api/waitlist', waitlistRoutes);
 app.route('/api/wishlist', wishlistRoutes);
 app.route('/api/data-export', dataExportRoutes);
+app.route('/api/stripe-events', stripeEventsRoutes);
+app.route('/api/webhooks', webhooksRoutes);
 
 // ═══════════════════════════════════════════
 // PUBLIC CONTRACT ENDPOINTS (no auth required)
@@ -268,8 +280,15 @@ export default {
     const db = drizzle(env.DB, { schema });
     ctx.waitUntil(Promise.all([
       processScheduledDrafts(env, db),
-      processAutomationQueue(env, db),
+      // Workflow steps first, so the emails they queue go out in the same run
+      processAutomationWorkflows(env, db).then(() => processAutomationQueue(env, db)),
       processAbandonedCarts(env, db),
+      processGiftCardDeliveries(env, db),
+      processWaitlistHolds(env, db),
+      processLowStockDigest(env, db),
+      processReviewRequests(env, db),
+      processScheduledPublishing(env, db),
+      processCampaignSends(env, db),
     ]));
   },
 };
@@ -3,7 +3,7 @@ import { eq, and, desc, sql, lte, isNotNull } from 'drizzle-orm';
 import { abandonedCarts, abandonedCartItems, orders } from '../db/schema';
 import { adminAuth } from '../middleware/auth';
 import { triggerAutomation } from '../utils/automations';
-import { sendEmail } from '../utils/email';
+import { deliverEmail } from '../utils/emailGateway';
 import type { Bindings, Variables } from '../index';
 
 export const abandonedCartsRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
@@ -282,6 +282,7 @@ abandonedCartsRoutes.post('/:id/send-reminder', adminAuth, async (c) => {
 
   try {
     const queued = await triggerAutomation(db, 'cart_abandoned', cart.email, cart.customerName || undefined, {
+      cart_id: cart.id,
       cart_recovery_url: recoveryUrl,
       product_name: firstItem.productName,
       price: cart.totalValue,
@@ -292,11 +293,10 @@ abandonedCartsRoutes.post('/:id/send-reminder', adminAuth, async (c) => {
     if (!queued) {
       const customerName = cart.customerName || 'there';
       const itemSummary = items.map((i: any) => `${i.productName} ($${i.price})`).join(', ');
-      await sendEmail(
-        c.env,
-        cart.email,
-        `You left something behind — ${firstItem.productName}`,
-        `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+      const result = await deliverEmail(c.env, db, {
+        to: cart.email,
+        subject: `You left something behind — ${firstItem.productName}`,
+        html: `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
           <h1 style="color: #1c1917; font-size: 24px;">Hi ${customerName},</h1>
           <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
             It looks like you left something in your cart: <strong>${itemSummary}</strong>
@@ -310,8 +310,15 @@ abandonedCartsRoutes.post('/:id/send-reminder', adminAuth, async (c) => {
           <p style="color: #a8a29e; font-size: 12px; margin-top: 32px;">
             If you have any questions, feel free to reply to this email.
           </p>
-        </div>`
-      );
+        </div>`,
+        category: 'marketing',
+        kind: 'abandoned_cart',
+        referenceId: cart.id,
+      });
+      if (result.status === 'skipped') {
+        return c.json({ error: `Cannot send to ${cart.email} — this recipient has unsubscribed or is on the suppression list. They need to re-subscribe first.` }, 422);
+      }
+      if (result.status === 'failed') throw new Error(result.error);
     }
 
     // Update email tracking
@@ -327,7 +334,7 @@ abandonedCartsRoutes.post('/:id/send-reminder', adminAuth, async (c) => {
     return c.json({ success: true, message: queued ? 'Recovery email queued via automation' : 'Recovery email sent directly' });
   } catch (err: any) {
     const msg = err?.message || '';
-    // Resend returns specific errors for unsubscribed/blocked recipients
+    // Resend keeps its own suppression list, which ours may not have caught up with
     if (msg.includes('unsubscribe') || msg.includes('complaint') || msg.includes('bounced') || msg.includes('suppressed')) {
       return c.json({ error: `Cannot send to ${cart.email} — this recipient has unsubscribed or been blocked by the email provider. They need to re-subscribe first.` }, 422);
     }
@@ -1,8 +1,9 @@
 import { Hono } from 'hono';
-import { eq, and, gte, lte, sql, desc, notInArray } from 'drizzle-orm';
+import { eq, and, gte, lte, sql, desc, notInArray, inArray } from 'drizzle-orm';
 import {
   orders,
   orderItems,
+  refunds,
   products,
   campaigns,
   campaignEvents,
@@ -648,6 +649,7 @@ analyticsRoutes.get('/revenue', adminAuth, async (c) => {
     productTypeParam
       ? db.select({
           totalRevenue: sql<number>`COALESCE(SUM(CAST(${orderItems.price} AS REAL) * ${orderItems.quantity}), 0)`,
+          totalTax: sql<number>`COALESCE(SUM(CAST(${orderItems.tax} AS REAL)), 0)`,
           totalOrders: sql<number>`COUNT(DISTINCT ${orders.id})`,
         })
           .from(orderItems)
@@ -657,6 +659,7 @@ analyticsRoutes.get('/revenue', adminAuth, async (c) => {
           .get()
       : db.select({
           totalRevenue: sql<number>`COALESCE(SUM(CAST(${orders.total} AS REAL)), 0)`,
+          totalTax: sql<number>`COALESCE(SUM(CAST(${orders.tax} AS REAL)), 0)`,
           totalOrders: sql<number>`count(*)`,
         })
           .from(orders)
@@ -664,7 +667,40 @@ analyticsRoutes.get('/revenue', adminAuth, async (c) => {
           .get(),
   ]);
 
+  // Refunds are counted in the period they were issued, not when the order was placed
+  const refundConditions = [
+    gte(refunds.createdAt, from),
+    lte(refunds.createdAt, to),
+    inArray(refunds.status, ['pending', 'succeeded']),
+  ];
+  const [refundStats, recentRefunds] = await Promise.all([
+    db.select({
+      totalRefunds: sql<number>`COALESCE(SUM(CAST(${refunds.amount} AS REAL)), 0)`,
+      refundCount: sql<number>`count(*)`,
+    })
+      .from(refunds)
+      .where(and(...refundConditions))
+      .get(),
+
+    db.select({
+      id: refunds.id,
+      orderId: refunds.orderId,
+      orderNumber: orders.orderNumber,
+      amount: sql<number>`CAST(${refunds.amount} AS REAL)`,
+      reason: refunds.reason,
+      createdAt: refunds.createdAt,
+    })
+      .from(refunds)
+      .innerJoin(orders, eq(refunds.orderId, orders.id))
+      .where(and(...refundConditions))
+      .orderBy(desc(refunds.createdAt))
+      .limit(10)
+      .all(),
+  ]);
+
   const totalRevenue = totalStats?.totalRevenue ?? 0;
+  const totalTax = totalStats?.totalTax ?? 0;
+  const totalRefunds = refundStats?.totalRefunds ?? 0;
   const totalOrders = totalStats?.totalOrders ?? 0;
   const avgOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
 
@@ -684,6 +720,10 @@ analyticsRoutes.get('/revenue', adminAuth, async (c) => {
   return c.json({
     summary: {
       totalRevenue,
+      totalTax,
+      totalRefunds,
+      refundCount: refundStats?.refundCount ?? 0,
+      netRevenue: totalRevenue - totalRefunds,
       totalOrders,
       avgOrderValue,
     },
@@ -703,6 +743,7 @@ analyticsRoutes.get('/revenue', adminAuth, async (c) => {
       { aov: 0 } as any,
     ),
     lowStock,
+    recentRefunds,
   });
 });
 
@@ -0,0 +1,191 @@
+import { Hono } from 'hono';
+import { eq, desc, asc } from 'drizzle-orm';
+import { automaticPromotions } from '../db/schema';
+import { logActivity } from '../utils/activityLog';
+import { adminAuth } from '../middleware/auth';
+import type { Bindings, Variables } from '../index';
+
+export const automaticPromotionsRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+automaticPromotionsRoutes.use('*', adminAuth);
+
+const TYPES = ['percentage', 'fixed_amount', 'buy_x_get_y', 'spend_threshold'] as const;
+const APPLICABLE_TO = ['all', 'specific_products', 'specific_categories'] as const;
+
+/**
+ * Validate a promotion from the request body. When updating, fields that
+ * aren't sent keep their current values from `existing`.
+ */
+function parsePromotion(body: any, existing?: any): { values?: Record<string, any>; error?: string } {
+  const merged = { ...existing, ...body };
+
+  const name = String(merged.name ?? '').trim();
+  if (!name) {
+    return { error: 'name is required' };
+  }
+  if (!TYPES.includes(merged.type)) {
+    return { error: `type must be one of ${TYPES.join(', ')}` };
+  }
+  const applicableTo = merged.applicableTo || 'all';
+  if (!APPLICABLE_TO.includes(applicableTo)) {
+    return { error: `applicableTo must be one of ${APPLICABLE_TO.join(', ')}` };
+  }
+
+  const value = Number(merged.value) || 0;
+  const buyQuantity = Math.floor(Number(merged.buyQuantity) || 0);
+  const getQuantity = Math.floor(Number(merged.getQuantity) || 0);
+  const tiers = (Array.isArray(merged.tiers) ? merged.tiers : [])
+    .map((t: any) => ({ minSpend: Number(t.minSpend) || 0, amountOff: Number(t.amountOff) || 0 }))
+    .filter((t: any) => t.amountOff > 0)
+    .sort((a: any, b: any) => a.minSpend - b.minSpend);
+
+  if (merged.type === 'percentage' && (value <= 0 || value > 100)) {
+    return { error: 'Percentage must be between 0 and 100' };
+  }
+  if (merged.type === 'fixed_amount' && value <= 0) {
+    return { error: 'Amount off must be greater than 0' };
+  }
+  if (merged.type === 'buy_x_get_y') {
+    if (buyQuantity < 1 || getQuantity < 1) {
+      return { error: 'Buy and get quantities must be at least 1' };
+    }
+    if (value <= 0 || value > 100) {
+      return { error: 'Discount on the free items must be between 0 and 100%' };
+    }
+  }
+  if (merged.type === 'spend_threshold' && tiers.length === 0) {
+    return { error: 'Add at least one spend tier' };
+  }
+
+  const startsAt = merged.startsAt || null;
+  const endsAt = merged.endsAt || null;
+  if (startsAt && endsAt && startsAt >= endsAt) {
+    return { error: 'End date must be after start date' };
+  }
+
+  return {
+    values: {
+      name: name.slice(0, 100),
+      label: merged.label ? String(merged.label).trim().slice(0, 40) || null : null,
+      type: merged.type,
+      value,
+      buyQuantity,
+      getQuantity,
+      tiers,
+      applicableTo,
+      productIds: Array.isArray(merged.productIds) ? merged.productIds.map(String) : [],
+      categories: Array.isArray(merged.categories) ? merged.categories.map(String) : [],
+      startsAt,
+      endsAt,
+      priority: Math.floor(Number(merged.priority) || 0),
+      stackable: !!merged.stackable,
+      combinesWithCodes: merged.combinesWithCodes !== false,
+      active: merged.active !== false,
+    },
+  };
+}
+
+// ─── GET / — All automatic promotions, highest priority first ──
+automaticPromotionsRoutes.get('/', async (c) => {
+  const db = c.get('db');
+
+  const promotions = await db
+    .select()
+    .from(automaticPromotions)
+    .orderBy(desc(automaticPromotions.priority), asc(automaticPromotions.createdAt))
+    .all();
+
+  return c.json({ promotions });
+});
+
+// ─── POST / — Create a promotion ─────────────────────────
+automaticPromotionsRoutes.post('/', async (c) => {
+  const db = c.get('db');
+  const user = c.get('user');
+  const body = await c.req.json();
+
+  const { values, error } = parsePromotion(body);
+  if (error || !values) {
+    return c.json({ error }, 400);
+  }
+
+  const promotion = await db
+    .insert(automaticPromotions)
+    .values(values as typeof automaticPromotions.$inferInsert)
+    .returning()
+    .get();
+
+  await logActivity(db, 'create', 'automatic_promotion', promotion, user);
+
+  return c.json(promotion, 201);
+});
+
+// ─── PUT /:id — Update a promotion ───────────────────────
+automaticPromotionsRoutes.put('/:id', async (c) => {
+  const db = c.get('db');
+  const user = c.get('user');
+  const id = c.req.param('id');
+  const body = await c.req.json();
+
+  const existing = await db.select().from(automaticPromotions).where(eq(automaticPromotions.id, id)).get();
+  if (!existing) {
+    return c.json({ error: 'Promotion not found' }, 404);
+  }
+
+  const { values, error } = parsePromotion(body, existing);
+  if (error || !values) {
+    return c.json({ error }, 400);
+  }
+
+  const promotion = await db
+    .update(automaticPromotions)
+    .set({ ...values, updatedAt: new Date().toISOString() })
+    .where(eq(automaticPromotions.id, id))
+    .returning()
+    .get();
+
+  await logActivity(db, 'update', 'automatic_promotion', promotion, user);
+
+  return c.json(promotion);
+});
+
+// ─── POST /:id/toggle — Turn a promotion on or off ───────
+automaticPromotionsRoutes.post('/:id/toggle', async (c) => {
+  const db = c.get('db');
+  const user = c.get('user');
+  const id = c.req.param('id');
+
+  const existing = await db.select().from(automaticPromotions).where(eq(automaticPromotions.id, id)).get();
+  if (!existing) {
+    return c.json({ error: 'Promotion not found' }, 404);
+  }
+
+  const promotion = await db
+    .update(automaticPromotions)
+    .set({ active: !existing.active, updatedAt: new Date().toISOString() })
+    .where(eq(automaticPromotions.id, id))
+    .returning()
+    .get();
+
+  await logActivity(db, 'update', 'automatic_promotion', promotion, user);
+
+  return c.json(promotion);
+});
+
+// ─── DELETE /:id — Delete a promotion ────────────────────
+automaticPromotionsRoutes.delete('/:id', async (c) => {
+  const db = c.get('db');
+  const user = c.get('user');
+  const id = c.req.param('id');
+
+  const existing = await db.select().from(automaticPromotions).where(eq(automaticPromotions.id, id)).get();
+  if (!existing) {
+    return c.json({ error: 'Promotion not found' }, 404);
+  }
+
+  await db.delete(automaticPromotions).where(eq(automaticPromotions.id, id));
+
+  await logActivity(db, 'delete', 'automatic_promotion', existing, user);
+
+  return c.json({ success: true });
+});
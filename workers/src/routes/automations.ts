@@ -1,13 +1,32 @@
 import { Hono } from 'hono';
 import { eq, desc, sql, and } from 'drizzle-orm';
-import { emailAutomations, automationQueue } from '../db/schema';
+import { emailAutomations, automationQueue, automationEnrollments } from '../db/schema';
 import { logActivity } from '../utils/activityLog';
 import { adminAuth } from '../middleware/auth';
-import { triggerAutomation } from '../utils/automations';
+import { triggerAutomation, TRIGGER_TYPES, validateEmailCategory } from '../utils/automations';
+import { validateWorkflow, validateGoal, endEnrollment } from '../utils/workflows';
 import type { Bindings, Variables } from '../index';
 
 export const automationsRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
+/** Check the workflow fields of a create or update body; undefined ones are left alone. */
+function validateWorkflowFields(body: any): string | null {
+  if (body.workflow) {
+    const error = validateWorkflow(body.workflow);
+    if (error) return error;
+  }
+  if (body.extraTriggers !== undefined) {
+    if (!Array.isArray(body.extraTriggers) || body.extraTriggers.some((t: unknown) => !TRIGGER_TYPES.includes(t as any))) {
+      return 'extraTriggers must be a list of known triggers';
+    }
+  }
+  if (body.goal) {
+    const error = validateGoal(body.goal);
+    if (error) return error;
+  }
+  return null;
+}
+
 // GET / — list all automations
 automationsRoutes.get('/', adminAuth, async (c) => {
   const db = c.get('db');
@@ -23,7 +42,7 @@ automationsRoutes.get('/queue/stats', adminAuth, async (c) => {
     count: sql<number>`COUNT(*)`,
   }).from(automationQueue).groupBy(automationQueue.status).all();
 
-  const result = { scheduled: 0, sent: 0, failed: 0, cancelled: 0 };
+  const result = { scheduled: 0, sent: 0, failed: 0, cancelled: 0, skipped: 0 };
   for (const row of stats) {
     if (row.status in result) result[row.status as keyof typeof result] = row.count;
   }
@@ -98,6 +117,21 @@ automationsRoutes.delete('/queue/:id', adminAuth, async (c) => {
   return c.json(updated);
 });
 
+// POST /enrollments/:id/cancel — take a contact out of a workflow
+automationsRoutes.post('/enrollments/:id/cancel', adminAuth, async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+
+  const enrollment = await db.select().from(automationEnrollments).where(eq(automationEnrollments.id, id)).get();
+  if (!enrollment) return c.json({ error: 'Enrolment not found' }, 404);
+  if (enrollment.status !== 'active') return c.json({ error: 'Only active enrolments can be cancelled' }, 400);
+
+  await endEnrollment(db, id, 'cancelled');
+
+  const updated = await db.select().from(automationEnrollments).where(eq(automationEnrollments.id, id)).get();
+  return c.json(updated);
+});
+
 // POST /seed — seed 4 system email automation templates
 automationsRoutes.post('/seed', adminAuth, async (c) => {
   const db = c.get('db');
@@ -126,13 +160,42 @@ automationsRoutes.get('/:id', adminAuth, async (c) => {
   return c.json(result);
 });
 
+// GET /:id/enrollments — workflow enrolment counts by status and the latest enrolments
+automationsRoutes.get('/:id/enrollments', adminAuth, async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+
+  const stats = await db.select({
+    status: automationEnrollments.status,
+    count: sql<number>`COUNT(*)`,
+  }).from(automationEnrollments)
+    .where(eq(automationEnrollments.automationId, id))
+    .groupBy(automationEnrollments.status).all();
+
+  const counts = { active: 0, completed: 0, goal_reached: 0, cancelled: 0, failed: 0 };
+  for (const row of stats) {
+    if (row.status in counts) counts[row.status as keyof typeof counts] = row.count;
+  }
+
+  const enrollments = await db.select().from(automationEnrollments)
+    .where(eq(automationEnrollments.automationId, id))
+    .orderBy(desc(automationEnrollments.createdAt))
+    .limit(100).all();
+
+  return c.json({ counts, enrollments });
+});
+
 // POST / — create automation
 automationsRoutes.post('/', adminAuth, async (c) => {
   const db = c.get('db');
   const body = await c.req.json();
-  const { name, description, trigger, steps, subject, previewText, bodyText, bodyHtml, ctaLabel, ctaUrl, footerText, sendDelayDays, sendDelayHours, oneTimePerRecipient } = body;
+  const { name, description, trigger, steps, subject, previewText, bodyText, bodyHtml, ctaLabel, ctaUrl, footerText, sendDelayDays, sendDelayHours, oneTimePerRecipient, workflow, extraTriggers, goal, emailCategory } = body;
 
   if (!name) return c.json({ error: 'name is required' }, 400);
+  const workflowError = validateWorkflowFields(body);
+  if (workflowError) return c.json({ error: workflowError }, 400);
+  const categoryError = validateEmailCategory(emailCategory || 'marketing', [trigger || 'manual', ...(extraTriggers || [])]);
+  if (categoryError) return c.json({ error: categoryError }, 400);
 
   const result = await db.insert(emailAutomations).values({
     id: body.id || undefined,
@@ -150,6 +213,10 @@ automationsRoutes.post('/', adminAuth, async (c) => {
     sendDelayDays: sendDelayDays ?? 0,
     sendDelayHours: sendDelayHours ?? 0,
     oneTimePerRecipient: oneTimePerRecipient ?? false,
+    workflow: workflow || null,
+    extraTriggers: extraTriggers || [],
+    goal: goal || null,
+    emailCategory: emailCategory || 'marketing',
     status: 'paused',
   }).returning().get();
 
@@ -164,8 +231,21 @@ automationsRoutes.put('/:id', adminAuth, async (c) => {
   const id = c.req.param('id');
   const body = await c.req.json();
 
+  const workflowError = validateWorkflowFields(body);
+  if (workflowError) return c.json({ error: workflowError }, 400);
+
+  const existing = await db.select().from(emailAutomations).where(eq(emailAutomations.id, id)).get();
+  if (!existing) return c.json({ error: 'Automation not found' }, 404);
+
+  // Changing the triggers can make a transactional automation invalid too
+  const categoryError = validateEmailCategory(body.emailCategory ?? existing.emailCategory, [
+    body.trigger ?? existing.trigger,
+    ...(body.extraTriggers ?? existing.extraTriggers ?? []),
+  ]);
+  if (categoryError) return c.json({ error: categoryError }, 400);
+
   const updates: Record<string, any> = { updatedAt: new Date().toISOString() };
-  const fields = ['name', 'description', 'trigger', 'steps', 'subject', 'previewText', 'bodyText', 'bodyHtml', 'ctaLabel', 'ctaUrl', 'footerText', 'enabled', 'sendDelayDays', 'sendDelayHours', 'oneTimePerRecipient'];
+  const fields = ['name', 'description', 'trigger', 'steps', 'subject', 'previewText', 'bodyText', 'bodyHtml', 'ctaLabel', 'ctaUrl', 'footerText', 'enabled', 'sendDelayDays', 'sendDelayHours', 'oneTimePerRecipient', 'workflow', 'extraTriggers', 'goal', 'emailCategory'];
 
   for (const field of fields) {
     if (body[field] !== undefined) updates[field] = body[field];
@@ -257,6 +337,11 @@ automationsRoutes.post('/:id/trigger', adminAuth, async (c) => {
 
   await triggerAutomation(db, automation.trigger, email, name, context);
 
+  // Workflows send nothing up front; the contact is enrolled and the cron job runs it
+  if (automation.workflow?.nodes?.length) {
+    return c.json({ success: true, stepsQueued: 0, enrolled: true });
+  }
+
   const steps = (automation.steps || []) as any[];
   const queued = automation.subject ? 1 : steps.length;
   return c.json({ success: true, stepsQueued: queued });
@@ -344,6 +429,7 @@ Lyne x`,
       description: 'Sent immediately when an order is placed',
       trigger: 'order_placed' as const,
       status: 'active' as const,
+      emailCategory: 'transactional' as const,
       subject: 'Thank you for your order',
       previewText: 'Your order is confirmed. I will keep you updated as it moves.',
       bodyText: `Hi lovely,
@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import { eq, desc, asc, and, or, sql, count, like } from 'drizzle-orm';
 import { blogPosts, blogPostVersions, blogPostRedirects, users } from '../db/schema';
 import { logActivity } from '../utils/activityLog';
+import { publishDueBlogPosts } from '../utils/publishing';
 import { adminAuth, optionalAdminAuth } from '../middleware/auth';
 import type { Bindings, Variables } from '../index';
 
@@ -16,31 +17,14 @@ function generateSlug(title: string): string {
     .replace(/(^-|-$)/g, '');
 }
 
-/** Auto-publish scheduled posts whose scheduledAt has passed (ISO string comparison) */
-async function autoPublishScheduledPosts(db: any) {
-  const now = new Date().toISOString();
-  await db.update(blogPosts)
-    .set({
-      status: 'published',
-      published: true,
-      publishedAt: now,
-      updatedAt: now,
-    })
-    .where(
-      and(
-        eq(blogPosts.status, 'scheduled'),
-        sql`${blogPosts.scheduledAt} <= ${now}`
-      )
-    );
-}
-
 // ─── GET / — List posts with pagination, filter, search ──
 
 blogRoutes.get('/', optionalAdminAuth, async (c) => {
   const db = c.get('db');
   const user = c.get('user');
 
-  await autoPublishScheduledPosts(db);
+  // The cron job runs every few minutes; this catches anything due since
+  await publishDueBlogPosts(db, new Date().toISOString());
 
   const {
     status,
@@ -152,7 +136,8 @@ blogRoutes.get('/:idOrSlug', optionalAdminAuth, async (c) => {
   const user = c.get('user');
   const idOrSlug = c.req.param('idOrSlug');
 
-  await autoPublishScheduledPosts(db);
+  // The cron job runs every few minutes; this catches anything due since
+  await publishDueBlogPosts(db, new Date().toISOString());
 
   // Try by ID first, then by slug
   let post = await db.select().from(blogPosts).where(eq(blogPosts.id, idOrSlug)).get();
@@ -287,6 +272,7 @@ blogRoutes.put('/:id', adminAuth, async (c) => {
   if (body.ogImageUrl !== undefined) updateData.ogImageUrl = body.ogImageUrl;
   if (body.canonicalUrl !== undefined) updateData.canonicalUrl = body.canonicalUrl;
   if (body.authorName !== undefined) updateData.authorName = body.authorName;
+  if (body.archiveAt !== undefined) updateData.archiveAt = body.archiveAt || null;
 
   // Handle status changes
   if (body.status !== undefined) {
@@ -447,6 +433,7 @@ blogRoutes.post('/:id/archive', adminAuth, async (c) => {
       status: 'archived',
       published: false,
       scheduledAt: null,
+      archiveAt: null,
       updatedAt: new Date().toISOString(),
     })
     .where(eq(blogPosts.id, id))
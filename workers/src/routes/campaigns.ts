@@ -1,8 +1,22 @@
 import { Hono } from 'hono';
 import { eq, desc, and, sql } from 'drizzle-orm';
-import { campaigns, campaignEvents, subscribers } from '../db/schema';
+import { campaigns, campaignEvents, subscribers, segments } from '../db/schema';
 import { adminAuth } from '../middleware/auth';
 import { logActivity } from '../utils/activityLog';
+import {
+  resolveCampaignRecipients,
+  startCampaignSend,
+  continueCampaignSend,
+  zonedTimeToUtc,
+  renderCampaignHtml,
+  validateAbTest,
+  campaignVariantIds,
+  campaignVariantContent,
+  variantResults,
+} from '../utils/campaigns';
+import { countSegment, refreshSegmentCount, type SegmentRules } from '../utils/segments';
+import { unsubscribeLinks, receivesCampaignsNow } from '../utils/preferences';
+import { deliverEmail } from '../utils/emailGateway';
 import type { Bindings, Variables } from '../index';
 
 export const campaignsRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
@@ -30,6 +44,9 @@ campaignsRoutes.post('/', adminAuth, async (c) => {
   const body = await c.req.json();
   const user = c.get('user');
 
+  const abTestError = validateAbTest(body);
+  if (abTestError) return c.json({ error: abTestError }, 400);
+
   const result = await db.insert(campaigns).values({
     subject: body.subject || 'Untitled Campaign',
     preheader: body.preheader || null,
@@ -38,6 +55,10 @@ campaignsRoutes.post('/', adminAuth, async (c) => {
     audience: body.audience || 'all',
     segmentId: body.segmentId || null,
     segmentFilters: body.segmentFilters || null,
+    variants: body.variants?.length ? body.variants : null,
+    abTestPercent: body.abTestPercent ?? undefined,
+    abWinnerMetric: body.abWinnerMetric ?? undefined,
+    abTestWindowHours: body.abTestWindowHours ?? undefined,
     createdBy: user?.id,
   }).returning().get();
 
@@ -66,6 +87,9 @@ campaignsRoutes.put('/:id', adminAuth, async (c) => {
   const existing = await db.select().from(campaigns).where(eq(campaigns.id, id)).get();
   if (!existing) return c.json({ error: 'Campaign not found' }, 404);
 
+  const abTestError = validateAbTest(body);
+  if (abTestError) return c.json({ error: abTestError }, 400);
+
   const result = await db.update(campaigns)
     .set({
       subject: body.subject ?? existing.subject,
@@ -75,6 +99,10 @@ campaignsRoutes.put('/:id', adminAuth, async (c) => {
       audience: body.audience ?? existing.audience,
       segmentId: body.segmentId !== undefined ? body.segmentId : existing.segmentId,
       segmentFilters: body.segmentFilters !== undefined ? body.segmentFilters : existing.segmentFilters,
+      variants: body.variants !== undefined ? (body.variants?.length ? body.variants : null) : existing.variants,
+      abTestPercent: body.abTestPercent ?? existing.abTestPercent,
+      abWinnerMetric: body.abWinnerMetric ?? existing.abWinnerMetric,
+      abTestWindowHours: body.abTestWindowHours ?? existing.abTestWindowHours,
       updatedAt: new Date().toISOString(),
     })
     .where(eq(campaigns.id, id))
@@ -117,7 +145,13 @@ campaignsRoutes.post('/preview-recipients', adminAuth, async (c) => {
 
   let count = allSubscribers.length;
 
-  if (body.audience === 'segment' && body.segmentFilters) {
+  if (body.audience === 'segment' && body.segmentId) {
+    const segment = await db.select().from(segments).where(eq(segments.id, body.segmentId)).get();
+    if (!segment) return c.json({ error: 'Segment not found' }, 404);
+    count = (await refreshSegmentCount(db, segment)).subscriberCount;
+  } else if (body.audience === 'segment' && Array.isArray(body.segmentFilters?.conditions)) {
+    count = await countSegment(db, body.segmentFilters as SegmentRules);
+  } else if (body.audience === 'segment' && body.segmentFilters) {
     const filters = body.segmentFilters;
     let filtered = allSubscribers;
 
@@ -156,25 +190,41 @@ campaignsRoutes.post('/:id/send-test', adminAuth, async (c) => {
   const campaign = await db.select().from(campaigns).where(eq(campaigns.id, id)).get();
   if (!campaign) return c.json({ error: 'Campaign not found' }, 404);
   if (!campaign.bodyHtml) return c.json({ error: 'Campaign has no HTML content' }, 400);
-
-  // Send via Resend
-  const resendRes = await fetch('https://api.resend.com/emails', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${c.env.RESEND_API_KEY}`,
-    },
-    body: JSON.stringify({
-      from: `Lyne Tilt <${c.env.ADMIN_EMAIL}>`,
-      to: [email],
-      subject: `[TEST] ${campaign.subject}`,
-      html: campaign.bodyHtml,
-    }),
+  if (body.variant && !campaignVariantIds(campaign).includes(body.variant)) {
+    return c.json({ error: `Campaign has no variant ${body.variant}` }, 400);
+  }
+  const content = campaignVariantContent(campaign, body.variant);
+
+  // Merge tags are filled in from the subscriber with this address, if there is one; tests aren't tracked
+  const unsubscribe = await unsubscribeLinks(c.env, email);
+  const subscriber = await db.select().from(subscribers).where(eq(subscribers.email, email.toLowerCase().trim())).get();
+  const html = renderCampaignHtml({ id: campaign.id, bodyHtml: content.bodyHtml }, {
+    email,
+    name: subscriber?.name,
+    firstName: subscriber?.firstName,
+    lastName: subscriber?.lastName,
+    source: subscriber?.source,
+    customFields: subscriber?.customFields,
+  }, unsubscribe.url);
+
+  const result = await deliverEmail(c.env, db, {
+    from: `Lyne Tilt <${c.env.ADMIN_EMAIL}>`,
+    to: email,
+    subject: body.variant && campaign.variants?.length
+      ? `[TEST ${body.variant}] ${content.subject}`
+      : `[TEST] ${content.subject}`,
+    html,
+    headers: unsubscribe.headers,
+    category: 'transactional',
+    kind: 'test',
+    referenceId: campaign.id,
   });
 
-  if (!resendRes.ok) {
-    const err = await resendRes.text();
-    console.error('Resend test email error:', err);
+  if (result.status === 'skipped') {
+    return c.json({ error: `${email} can't be emailed: it's on the suppression list` }, 400);
+  }
+  if (result.status === 'failed') {
+    console.error('Resend test email error:', result.error);
     return c.json({ error: 'Failed to send test email' }, 500);
   }
 
@@ -199,21 +249,25 @@ campaignsRoutes.get('/:id/preflight', adminAuth, async (c) => {
 
   const hasSubject = !!campaign.subject && campaign.subject !== 'Untitled Campaign';
   const hasContent = !!campaign.bodyHtml && campaign.bodyHtml.length > 50;
-  const hasUnsubscribeLink = !!campaign.bodyHtml && campaign.bodyHtml.toLowerCase().includes('unsubscribe');
+  // Every variant with its own content needs an unsubscribe link too
+  const hasUnsubscribeLink = campaignVariantIds(campaign).every((variantId) => {
+    const { bodyHtml } = campaignVariantContent(campaign, variantId);
+    return !!bodyHtml && bodyHtml.toLowerCase().includes('unsubscribe');
+  });
   const testSent = !!(campaign.testSentTo && campaign.testSentTo.length > 0);
-  const audienceSelected = campaign.audience === 'all' || !!campaign.segmentFilters;
+  const audienceSelected = campaign.audience === 'all' || !!campaign.segmentId || !!campaign.segmentFilters;
 
   // Count recipients
   let recipientCount = 0;
   if (campaign.audience === 'all') {
     const result = await db.select({ count: sql<number>`count(*)` })
       .from(subscribers)
-      .where(eq(subscribers.subscribed, true))
+      .where(and(eq(subscribers.subscribed, true), receivesCampaignsNow()))
       .get();
     recipientCount = result?.count ?? 0;
   } else {
     // For segments, count filtered subscribers
-    recipientCount = await countSegmentRecipients(db, campaign.segmentFilters);
+    recipientCount = (await resolveCampaignRecipients(db, campaign)).length;
   }
 
   const checks = { hasSubject, hasContent, hasUnsubscribeLink, testSent, audienceSelected };
@@ -226,6 +280,10 @@ campaignsRoutes.get('/:id/preflight', adminAuth, async (c) => {
       preheader: campaign.preheader,
       bodyHtml: campaign.bodyHtml,
       audience: campaign.audience,
+      variants: campaign.variants,
+      abTestPercent: campaign.abTestPercent,
+      abWinnerMetric: campaign.abWinnerMetric,
+      abTestWindowHours: campaign.abTestWindowHours,
     },
     checks,
     allPassed,
@@ -244,10 +302,15 @@ campaignsRoutes.post('/:id/schedule', adminAuth, async (c) => {
   if (!campaign) return c.json({ error: 'Campaign not found' }, 404);
   if (campaign.status !== 'draft') return c.json({ error: 'Only draft campaigns can be scheduled' }, 400);
 
+  // The date and time are wall-clock in the chosen timezone; the cron job compares in UTC
+  const scheduledFor = zonedTimeToUtc(body.scheduledFor, body.timezone);
+  if (!scheduledFor) return c.json({ error: 'A valid date, time and timezone are required' }, 400);
+  if (scheduledFor <= new Date()) return c.json({ error: 'Scheduled time must be in the future' }, 400);
+
   const result = await db.update(campaigns)
     .set({
       status: 'scheduled',
-      scheduledFor: body.scheduledFor,
+      scheduledFor: scheduledFor.toISOString(),
       scheduledTimezone: body.timezone || null,
       updatedAt: new Date().toISOString(),
     })
@@ -260,6 +323,8 @@ campaignsRoutes.post('/:id/schedule', adminAuth, async (c) => {
 });
 
 // ─── POST /:id/send — Send campaign now ─────────────────
+// Starts the send and works through the first batches straight away; the
+// cron job sends the rest. A failed campaign resumes where it stopped.
 campaignsRoutes.post('/:id/send', adminAuth, async (c) => {
   const db = c.get('db');
   const id = c.req.param('id');
@@ -267,78 +332,29 @@ campaignsRoutes.post('/:id/send', adminAuth, async (c) => {
 
   const campaign = await db.select().from(campaigns).where(eq(campaigns.id, id)).get();
   if (!campaign) return c.json({ error: 'Campaign not found' }, 404);
-  if (!['draft', 'scheduled'].includes(campaign.status)) {
+  if (!['draft', 'scheduled', 'failed'].includes(campaign.status)) {
     return c.json({ error: 'Campaign cannot be sent in its current status' }, 400);
   }
   if (!campaign.bodyHtml) return c.json({ error: 'Campaign has no HTML content' }, 400);
 
-  // Mark as sending
-  await db.update(campaigns)
-    .set({ status: 'sending', updatedAt: new Date().toISOString() })
-    .where(eq(campaigns.id, id));
-
-  // Get recipients
-  let recipientEmails: { email: string; subscriberId: string }[];
-  if (campaign.audience === 'all') {
-    const subs = await db.select({ id: subscribers.id, email: subscribers.email })
-      .from(subscribers)
-      .where(eq(subscribers.subscribed, true))
-      .all();
-    recipientEmails = subs.map(s => ({ email: s.email, subscriberId: s.id }));
+  let result;
+  if (campaign.status === 'failed' && campaign.recipientSnapshot) {
+    result = await db.update(campaigns)
+      .set({ status: 'sending', sendAttempts: 0, sendError: null, updatedAt: new Date().toISOString() })
+      .where(and(eq(campaigns.id, id), eq(campaigns.status, 'failed')))
+      .returning()
+      .get();
+    if (result) {
+      await logActivity(db, 'send', 'campaign', result, user, { status: { old: 'failed', new: 'sending' } });
+    }
   } else {
-    recipientEmails = await getSegmentRecipients(db, campaign.segmentFilters);
-  }
-
-  let successCount = 0;
-  const batchSize = 50;
-
-  for (let i = 0; i < recipientEmails.length; i += batchSize) {
-    const batch = recipientEmails.slice(i, i + batchSize);
-    const results = await Promise.allSettled(
-      batch.map(async (recipient) => {
-        const res = await fetch('https://api.resend.com/emails', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${c.env.RESEND_API_KEY}`,
-          },
-          body: JSON.stringify({
-            from: `Lyne Tilt <${c.env.ADMIN_EMAIL}>`,
-            to: [recipient.email],
-            subject: campaign.subject,
-            html: campaign.bodyHtml,
-          }),
-        });
-        if (res.ok) {
-          successCount++;
-          await db.insert(campaignEvents).values({
-            campaignId: id,
-            subscriberId: recipient.subscriberId,
-            email: recipient.email,
-            eventType: 'delivered',
-          });
-        }
-      })
-    );
+    result = await startCampaignSend(db, campaign, user);
   }
+  if (!result) return c.json({ error: 'Campaign is already sending' }, 409);
 
-  // Mark as sent
-  const now = new Date().toISOString();
-  const result = await db.update(campaigns)
-    .set({
-      status: 'sent',
-      sentAt: now,
-      recipientCount: recipientEmails.length,
-      deliveredCount: successCount,
-      recipientSnapshot: recipientEmails,
-      updatedAt: now,
-    })
-    .where(eq(campaigns.id, id))
-    .returning()
-    .get();
+  c.executionCtx.waitUntil(continueCampaignSend(c.env, db, id));
 
-  await logActivity(db, 'send', 'campaign', result, user);
-  return c.json({ success: true, recipientCount: recipientEmails.length, delivered: successCount });
+  return c.json({ success: true, recipientCount: result.recipientCount ?? 0, remaining: (result.recipientCount ?? 0) - result.sendOffset });
 });
 
 // ─── GET /:id/analytics — Campaign analytics ────────────
@@ -408,6 +424,18 @@ campaignsRoutes.get('/:id/analytics', adminAuth, async (c) => {
     .limit(50)
     .all();
 
+  const abTest = campaign.variants?.length
+    ? {
+        percent: campaign.abTestPercent,
+        winnerMetric: campaign.abWinnerMetric,
+        windowHours: campaign.abTestWindowHours,
+        testSize: campaign.abTestSize,
+        endsAt: campaign.abTestEndsAt,
+        winner: campaign.abWinner,
+        variants: await variantResults(db, campaign),
+      }
+    : null;
+
   return c.json({
     campaign: {
       id: campaign.id,
@@ -415,6 +443,10 @@ campaignsRoutes.get('/:id/analytics', adminAuth, async (c) => {
       status: campaign.status,
       sentAt: campaign.sentAt,
       recipientCount: campaign.recipientCount ?? 0,
+      sendOffset: campaign.sendOffset,
+      failedCount: campaign.failedCount,
+      skippedCount: campaign.skippedCount,
+      sendError: campaign.sendError,
     },
     summary: {
       delivered,
@@ -426,37 +458,9 @@ campaignsRoutes.get('/:id/analytics', adminAuth, async (c) => {
       complained,
       unsubscribed,
     },
+    abTest,
     clickBreakdown: clickBreakdown.filter(r => r.url),
     timeline,
     recentEvents,
   });
 });
-
-// ─── Helpers ─────────────────────────────────────────────
-
-async function countSegmentRecipients(db: any, segmentFilters: any): Promise<number> {
-  const recipients = await getSegmentRecipients(db, segmentFilters);
-  return recipients.length;
-}
-
-async function getSegmentRecipients(db: any, segmentFilters: any): Promise<{ email: string; subscriberId: string }[]> {
-  if (!segmentFilters) return [];
-  const subs = await db.select({ id: subscribers.id, email: subscribers.email, source: subscribers.source, tags: subscribers.tags })
-    .from(subscribers)
-    .where(eq(subscribers.subscribed, true))
-    .all();
-
-  let filtered = subs;
-  if (segmentFilters.sources?.length) {
-    const sourceSet = new Set(segmentFilters.sources);
-    filtered = filtered.filter((s: any) => s.source && sourceSet.has(s.source));
-  }
-  if (segmentFilters.tags?.length) {
-    const tagSet = new Set(segmentFilters.tags);
-    filtered = filtered.filter((s: any) => {
-      const subTags = (s.tags as string[]) || [];
-      return subTags.some((t: string) => tagSet.has(t));
-    });
-  }
-  return filtered.map((s: any) => ({ email: s.email, subscriberId: s.id }));
-}
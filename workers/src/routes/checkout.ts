@@ -1,109 +1,224 @@
 import { Hono } from 'hono';
-import { eq, inArray, or, sql } from 'drizzle-orm';
 import Stripe from 'stripe';
-import { products, coachingPackages, orders, orderItems } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { orders } from '../db/schema';
+import { quoteCheckout, type CheckoutQuote } from '../utils/pricing';
+import { claimStripeEvent, runStripeEvent } from '../utils/stripeEvents';
+import { getCheckoutAddress, syncStripeCustomer } from '../utils/stripeCustomers';
+import { lineDiscountMetadata } from '../utils/discounts';
+import { RESERVATION_MINUTES, reserveStock, assignReservations, releaseReservations } from '../utils/inventory';
+import { holdGiftCard, assignGiftCardHold, releaseGiftCardHold } from '../utils/giftCards';
+import { claimWaitlistHolds } from '../utils/waitlist';
+import { optionalCustomerAuth } from '../middleware/auth';
 import type { Bindings, Variables } from '../index';
 
 export const checkoutRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
 // Helper to get Stripe instance
-function getStripe(secretKey: string): Stripe {
+export function getStripe(secretKey: string): Stripe {
   return new Stripe(secretKey, {
     apiVersion: '2024-12-18.acacia',
   });
 }
 
+// Serialize a quote for the storefront (amounts in dollars)
+function formatQuote(quote: CheckoutQuote) {
+  return {
+    items: quote.productLines.map(l => ({
+      id: l.product.id,
+      variantId: l.variant?.id || null,
+      name: l.name,
+      unitPrice: (l.unitCents / 100).toFixed(2),
+      quantity: l.quantity,
+      giftCard: l.giftCard,
+    })),
+    services: quote.serviceLines.map(l => ({
+      type: l.type,
+      id: l.item.id,
+      name: l.name,
+      price: (l.unitCents / 100).toFixed(2),
+      slot: l.slot,
+    })),
+    subtotal: (quote.subtotalCents / 100).toFixed(2),
+    shipping: quote.shipping && {
+      zoneName: quote.shipping.zoneName,
+      country: quote.shipping.country,
+      amount: (quote.shipping.amountCents / 100).toFixed(2),
+      free: quote.shipping.free,
+      freeShippingThreshold: quote.shipping.freeShippingThresholdCents !== null
+        ? (quote.shipping.freeShippingThresholdCents / 100).toFixed(2)
+        : null,
+    },
+    tax: {
+      name: quote.tax.name,
+      rate: quote.tax.rate,
+      inclusive: quote.tax.inclusive,
+      amount: (quote.tax.totalTaxCents / 100).toFixed(2),
+    },
+    giftCard: quote.giftCard && {
+      code: quote.giftCard.code,
+      applied: (quote.giftCard.appliedCents / 100).toFixed(2),
+      balance: (quote.giftCard.balanceCents / 100).toFixed(2),
+    },
+    giftCardError: quote.giftCardError,
+    promotions: quote.promotions.map(p => ({
+      name: p.name,
+      label: p.label,
+      amount: (p.amountCents / 100).toFixed(2),
+    })),
+    discount: quote.discount && {
+      code: quote.discount.code,
+      name: quote.discount.name,
+      type: quote.discount.type,
+      items: (quote.discount.itemsDiscountCents / 100).toFixed(2),
+      shipping: (quote.discount.shippingDiscountCents / 100).toFixed(2),
+      amount: (quote.discount.totalCents / 100).toFixed(2),
+    },
+    discountError: quote.discountError,
+    total: (quote.totalCents / 100).toFixed(2),
+    countries: quote.countries,
+  };
+}
+
+// POST /api/checkout/quote - Price a cart (subtotal, shipping, total) for the checkout preview
+checkoutRoutes.post('/quote', optionalCustomerAuth, async (c) => {
+  const db = c.get('db');
+  const customer = c.get('customerUser');
+  const { items, country, giftCardCode, discountCode, email } = await c.req.json();
+
+  if (!items || items.length === 0) {
+    return c.json({ error: 'No items provided' }, 400);
+  }
+
+  // Guests may not have typed their email yet; create-session checks the code again
+  const { quote, error } = await quoteCheckout(db, items, country, giftCardCode, discountCode ? {
+    code: discountCode,
+    buyer: { customerId: customer?.id, email: customer?.email || email },
+    requireBuyer: false,
+  } : undefined);
+  if (error || !quote) {
+    return c.json({ error }, 400);
+  }
+
+  return c.json(formatQuote(quote));
+});
+
 // POST /api/checkout/create-session - Create Stripe checkout session
-checkoutRoutes.post('/create-session', async (c) => {
+checkoutRoutes.post('/create-session', optionalCustomerAuth, async (c) => {
   const db = c.get('db');
   const stripe = getStripe(c.env.STRIPE_SECRET_KEY);
+  const customer = c.get('customerUser');
   const body = await c.req.json();
-  const { items, successUrl, cancelUrl } = body;
+  const { items, country, giftCardCode, discountCode, successUrl, cancelUrl, email, customerName, marketingOptIn, addressId } = body;
 
   if (!items || items.length === 0) {
     return c.json({ error: 'No items provided' }, 400);
   }
 
-  const productIds = items.filter((i: any) => i.type === 'product').map((i: any) => i.id);
-  const coachingIds = items.filter((i: any) => i.type === 'coaching').map((i: any) => i.id);
-
-  // Fetch products by id OR slug (frontend may send slugs as identifiers)
-  const fetchedProducts = productIds.length > 0
-    ? await db.select().from(products).where(
-        or(inArray(products.id, productIds), inArray(products.slug, productIds))
-      ).all()
-    : [];
+  // Signed-in buyers are linked to their account; guests are matched by email in the webhook
+  const guestEmail = typeof email === 'string' && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())
+    ? email.trim().toLowerCase()
+    : '';
+  const buyerEmail = customer?.email || guestEmail;
+
+  const { quote, error } = await quoteCheckout(db, items, country, giftCardCode, discountCode ? {
+    code: discountCode,
+    buyer: { customerId: customer?.id, email: buyerEmail },
+  } : undefined);
+  if (error || !quote) {
+    return c.json({ error }, 400);
+  }
+  if (quote.giftCardError) {
+    return c.json({ error: quote.giftCardError }, 400);
+  }
+  if (quote.discountError) {
+    return c.json({ error: quote.discountError }, 400);
+  }
 
-  const fetchedCoaching = coachingIds.length > 0
-    ? await db.select().from(coachingPackages).where(inArray(coachingPackages.id, coachingIds)).all()
-    : [];
+  const apiBaseUrl = 'https://lyne-tilt-api.verdant-digital-co.workers.dev';
 
-  // Build quantity map (map both id and slug to quantity for lookup)
-  const quantityMap = new Map<string, number>(items.map((i: any) => [i.id, i.quantity || 1]));
+  // Stripe requires absolute URLs for product images
+  const stripeImage = (image: string | null | undefined): string[] | undefined => {
+    if (image?.startsWith('http')) return [image];
+    if (image?.startsWith('/')) return [`${apiBaseUrl}${image}`];
+    return undefined;
+  };
 
   // Build line items for Stripe
   const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [];
 
-  let subtotalCents = 0;
-  for (const product of fetchedProducts) {
-    // Look up quantity by id or slug since frontend may send either
-    const quantity = quantityMap.get(product.id) || quantityMap.get(product.slug) || 1;
-    const priceInCents = Math.round(parseFloat(product.price) * 100);
-    subtotalCents += priceInCents * quantity;
-
-    // Stripe requires absolute URLs for product images
-    let imageUrl: string | undefined;
-    if (product.image) {
-      if (product.image.startsWith('http')) {
-        imageUrl = product.image;
-      } else if (product.image.startsWith('/')) {
-        imageUrl = `${apiBaseUrl}${product.image}`;
+  // Quantities for webhook lookup: plain products keyed by id and slug, variants by variant id
+  const quantitiesForMeta: Record<string, number> = {};
+  const variantQuantities: Record<string, number> = {};
+  const orderedProductIds = new Set<string>();
+  // Gift card and service purchases go one per metadata key (Stripe caps values at 500 chars)
+  const giftCardMeta: Record<string, string> = {};
+  const serviceMeta: Record<string, string> = {};
+
+  for (const line of quote.productLines) {
+    const { product, variant, quantity } = line;
+
+    if (line.giftCard) {
+      const index = Object.keys(giftCardMeta).length;
+      if (index >= 10) {
+        return c.json({ error: 'A maximum of 10 gift cards can be bought per order' }, 400);
       }
+      giftCardMeta[`giftCard${index}`] = JSON.stringify({
+        p: product.id,
+        a: line.giftCard.amount,
+        n: line.giftCard.recipientName,
+        e: line.giftCard.recipientEmail,
+        m: line.giftCard.message,
+        d: line.giftCard.deliveryDate,
+      });
+    } else if (variant) {
+      variantQuantities[variant.id] = (variantQuantities[variant.id] || 0) + quantity;
+    } else {
+      // The same product can be on more than one cart line
+      quantitiesForMeta[product.id] = (quantitiesForMeta[product.id] || 0) + quantity;
+      quantitiesForMeta[product.slug] = (quantitiesForMeta[product.slug] || 0) + quantity;
     }
+    orderedProductIds.add(product.id);
 
     lineItems.push({
       price_data: {
         currency: product.currency.toLowerCase(),
         product_data: {
-          name: product.name,
-          description: product.shortDescription || undefined,
-          images: imageUrl ? [imageUrl] : undefined,
+          name: line.name,
+          description: line.giftCard
+            ? `For ${line.giftCard.recipientName || line.giftCard.recipientEmail}`
+            : product.shortDescription || undefined,
+          images: stripeImage(variant?.image || product.image),
         },
-        unit_amount: priceInCents,
+        unit_amount: line.unitCents,
       },
       quantity,
     });
   }
 
-  // Add shipping as a line item for physical products (once per order)
-  if (fetchedProducts.length > 0) {
-    const subtotalDollars = subtotalCents / 100;
-    if (subtotalDollars < 100) {
-      lineItems.push({
-        price_data: {
-          currency: 'aud',
-          product_data: {
-            name: 'Shipping',
-          },
-          unit_amount: 1500, // $15.00 AUD
-        },
-        quantity: 1,
-      });
+  for (const line of quote.serviceLines) {
+    const index = Object.keys(serviceMeta).length;
+    if (index >= 10) {
+      return c.json({ error: 'A maximum of 10 coaching sessions, courses and workshops can be bought per order' }, 400);
     }
-  }
-
-  for (const coaching of fetchedCoaching) {
-    if (!coaching.priceAmount) continue;
-    const priceInCents = Math.round(parseFloat(coaching.priceAmount) * 100);
+    serviceMeta[`service${index}`] = JSON.stringify({
+      t: line.type,
+      i: line.item.id,
+      a: (line.unitCents / 100).toFixed(2),
+      ...(line.slot && { d: line.slot.sessionDate, s: line.slot.startTime, e: line.slot.endTime }),
+    });
 
     lineItems.push({
       price_data: {
-        currency: (coaching.currency || 'AUD').toLowerCase(),
+        currency: (line.item.currency || 'AUD').toLowerCase(),
         product_data: {
-          name: coaching.title,
-          description: coaching.description || undefined,
+          name: line.name,
+          description: line.slot
+            ? `Session on ${line.slot.sessionDate} at ${line.slot.startTime}`
+            : line.description || undefined,
+          images: stripeImage(line.image),
         },
-        unit_amount: priceInCents,
+        unit_amount: line.unitCents,
       },
       quantity: 1,
     });
@@ -113,34 +228,155 @@ checkoutRoutes.post('/create-session', async (c) => {
     return c.json({ error: 'No valid items found. Please try again.' }, 400);
   }
 
+  // Exclusive tax rates are charged on top of prices
+  if (quote.tax.additionalCents > 0) {
+    lineItems.push({
+      price_data: {
+        currency: 'aud',
+        product_data: {
+          name: `${quote.tax.name || 'Tax'} (${quote.tax.rate}%)`,
+        },
+        unit_amount: quote.tax.additionalCents,
+      },
+      quantity: 1,
+    });
+  }
+
   // Create checkout session
   const baseUrl = c.env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
-  const apiBaseUrl = 'https://lyne-tilt-api.verdant-digital-co.workers.dev';
+  const { shipping, giftCard, discount, promotions } = quote;
+  const shippingCents = (shipping?.amountCents ?? 0) - (discount?.shippingDiscountCents ?? 0);
+
+  // Automatic promotions, the discount code's item discount and any gift card
+  // balance go to Stripe as one single-use coupon (a session takes only one).
+  // Coupons don't discount shipping options, so with a gift card shipping
+  // becomes a line item it can cover.
+  const couponCents = quote.promotionsCents + (discount?.itemsDiscountCents ?? 0) + (giftCard?.appliedCents ?? 0);
+  let coupon: Stripe.Coupon | null = null;
+  if (couponCents > 0) {
+    if (giftCard && shipping && shippingCents > 0) {
+      lineItems.push({
+        price_data: {
+          currency: 'aud',
+          product_data: { name: `Shipping (${shipping.zoneName})` },
+          unit_amount: shippingCents,
+        },
+        quantity: 1,
+      });
+    }
+    const couponName = [
+      ...promotions.map(p => p.label || p.name),
+      discount && discount.itemsDiscountCents > 0 ? discount.code : null,
+      giftCard ? `Gift card ${giftCard.code.slice(-4)}` : null,
+    ].filter(Boolean).join(' + ');
+    coupon = await stripe.coupons.create({
+      name: couponName.slice(0, 40),
+      amount_off: couponCents,
+      currency: 'aud',
+      duration: 'once',
+      max_redemptions: 1,
+      redeem_by: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
+    });
+  }
+  const shippingAsOption = shipping && !(coupon && giftCard);
+
+  // Signed-in buyers check out as their Stripe customer so the saved address is prefilled
+  let stripeCustomerId: string | null = null;
+  if (customer) {
+    try {
+      // An empty addressId means the buyer chose to enter a different address
+      const address = shipping && addressId !== '' ? await getCheckoutAddress(db, customer.id, addressId) : null;
+      stripeCustomerId = await syncStripeCustomer(db, stripe, customer, address);
+    } catch (err: any) {
+      console.error('Failed to sync Stripe customer:', err.message);
+    }
+  }
 
-  // Build quantities map using real product IDs and slugs for webhook lookup
-  const quantitiesForMeta: Record<string, number> = {};
-  for (const product of fetchedProducts) {
-    const qty = quantityMap.get(product.id) || quantityMap.get(product.slug) || 1;
-    quantitiesForMeta[product.id] = qty;
-    quantitiesForMeta[product.slug] = qty;
+  // Hold limited stock while the buyer is in Checkout; such sessions expire
+  // early so an abandoned one doesn't keep a one-of-a-kind piece off sale
+  // A waitlist customer checking out the piece held for them takes over its hold
+  if (buyerEmail) {
+    await claimWaitlistHolds(db, buyerEmail, quote.productLines.map(l => l.product.id));
+  }
+  const reservation = `pending:${crypto.randomUUID()}`;
+  // The hold runs a minute past the session so it can't lapse while the session is open
+  const holdUntil = new Date(Date.now() + (RESERVATION_MINUTES + 1) * 60 * 1000).toISOString();
+  const { held, error: stockError } = await reserveStock(db, reservation, quote.productLines, holdUntil);
+  if (stockError) {
+    return c.json({ error: stockError }, 409);
   }
 
-  const session = await stripe.checkout.sessions.create({
-    mode: 'payment',
-    line_items: lineItems,
-    success_url: successUrl || `${baseUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
-    cancel_url: cancelUrl || `${baseUrl}/checkout`,
-    allow_promotion_codes: true,
-    billing_address_collection: 'required',
-    shipping_address_collection: fetchedProducts.length > 0 ? {
-      allowed_countries: ['AU'],
-    } : undefined,
-    metadata: {
-      productIds: fetchedProducts.map(p => p.id).join(','),
-      coachingIds: coachingIds.join(','),
-      productQuantities: JSON.stringify(quantitiesForMeta),
-    },
-  });
+  // The gift card balance is taken now so another open session can't spend it too
+  if (giftCard && !(await holdGiftCard(db, giftCard.id, reservation, giftCard.appliedCents))) {
+    await releaseReservations(db, reservation);
+    return c.json({ error: 'This gift card no longer has enough balance. Please check the card and try again.' }, 409);
+  }
+
+  // Worked out after the database work above so Stripe sees the full margin
+  const expiresAt = Math.floor(Date.now() / 1000) + RESERVATION_MINUTES * 60;
+  let session: Stripe.Checkout.Session;
+  try {
+    session = await stripe.checkout.sessions.create({
+      mode: 'payment',
+      line_items: lineItems,
+      success_url: successUrl || `${baseUrl}/checkout/success?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: cancelUrl || `${baseUrl}/checkout`,
+      expires_at: held ? expiresAt : undefined,
+      // Discount codes are applied above, so Stripe's own promotion code box stays off
+      discounts: coupon ? [{ coupon: coupon.id }] : undefined,
+      customer: stripeCustomerId || undefined,
+      customer_email: stripeCustomerId ? undefined : buyerEmail || undefined,
+      billing_address_collection: 'required',
+      // The rate was quoted for one destination, so the address must be in that country
+      shipping_address_collection: shipping ? {
+        allowed_countries: [shipping.country as Stripe.Checkout.SessionCreateParams.ShippingAddressCollection.AllowedCountry],
+      } : undefined,
+      shipping_options: shippingAsOption ? [{
+        shipping_rate_data: {
+          type: 'fixed_amount',
+          display_name: shipping.free || shippingCents === 0 ? `Free shipping (${shipping.zoneName})` : `Shipping (${shipping.zoneName})`,
+          fixed_amount: { amount: shippingCents, currency: 'aud' },
+        },
+      }] : undefined,
+      metadata: {
+        productIds: [...orderedProductIds].join(','),
+        productQuantities: JSON.stringify(quantitiesForMeta),
+        variantQuantities: JSON.stringify(variantQuantities),
+        shippingZone: shipping?.zoneName || '',
+        shippingAmount: shipping ? (shippingCents / 100).toFixed(2) : '0',
+        subtotal: (quote.subtotalCents / 100).toFixed(2),
+        taxCountry: quote.taxCountry,
+        giftCardId: giftCard?.id || '',
+        giftCardAmount: giftCard ? (giftCard.appliedCents / 100).toFixed(2) : '0',
+        discountCodeId: discount?.id || '',
+        discountCode: discount?.code || '',
+        discountAmount: discount ? (discount.itemsDiscountCents / 100).toFixed(2) : '0',
+        shippingDiscount: discount ? (discount.shippingDiscountCents / 100).toFixed(2) : '0',
+        promotions: promotions.length > 0
+          ? JSON.stringify(promotions.map(p => ({ i: p.id, n: p.name.slice(0, 40), a: (p.amountCents / 100).toFixed(2) })))
+          : '',
+        customerId: customer?.id || '',
+        customerName: customer ? `${customer.firstName} ${customer.lastName}`.trim() : String(customerName || '').slice(0, 100),
+        marketingOptIn: marketingOptIn ? '1' : '',
+        ...giftCardMeta,
+        ...serviceMeta,
+        ...lineDiscountMetadata([
+          ...quote.productLines.map((l, i): [string, number] => [l.variant?.id || l.product.id, quote.lineDiscountCents[i]]),
+          ...quote.serviceLines.map((l, i): [string, number] => [l.item.id, quote.lineDiscountCents[quote.productLines.length + i]]),
+        ]),
+      },
+    });
+  } catch (err) {
+    await releaseReservations(db, reservation);
+    await releaseGiftCardHold(db, reservation);
+    throw err;
+  }
+  if (held) {
+    await assignReservations(db, reservation, session.id);
+  }
+  if (giftCard) {
+    await assignGiftCardHold(db, reservation, session.id);
+  }
 
   return c.json({
     sessionId: session.id,
@@ -157,8 +393,16 @@ checkoutRoutes.get('/session/:sessionId', async (c) => {
     expand: ['line_items'],
   });
 
+  // The order is created by the webhook, which may not have arrived yet
+  const order = await c.get('db')
+    .select({ orderNumber: orders.orderNumber })
+    .from(orders)
+    .where(eq(orders.stripeCheckoutSessionId, session.id))
+    .get();
+
   return c.json({
     id: session.id,
+    orderNumber: order?.orderNumber ?? null,
     status: session.status,
     paymentStatus: session.payment_status,
     customerEmail: session.customer_details?.email,
@@ -193,81 +437,15 @@ checkoutRoutes.post('/webhook', async (c) => {
     return c.json({ error: 'Webhook Error' }, 400);
   }
 
-  if (event.type === 'checkout.session.completed') {
-    const session = event.data.object as Stripe.Checkout.Session;
-    const metadata = session.metadata || {};
-
-    const productIds = metadata.productIds ? metadata.productIds.split(',').filter(Boolean) : [];
-
-    if (productIds.length > 0) {
-      let productQuantities: Record<string, number> = {};
-      try {
-        productQuantities = metadata.productQuantities ? JSON.parse(metadata.productQuantities) : {};
-      } catch {}
-
-      const orderedProducts = await db.select().from(products)
-        .where(or(inArray(products.id, productIds), inArray(products.slug, productIds)))
-        .all();
-
-      // Generate order number
-      const orderNumber = `LT-${Date.now()}-${Math.random().toString(36).substr(2, 4).toUpperCase()}`;
-
-      // Create order
-      const order = await db.insert(orders).values({
-        orderNumber,
-        status: 'confirmed',
-        subtotal: ((session.amount_subtotal || 0) / 100).toString(),
-        total: ((session.amount_total || 0) / 100).toString(),
-        currency: (session.currency || 'AUD').toUpperCase(),
-        stripeCheckoutSessionId: session.id,
-        stripePaymentIntentId: session.payment_intent as string,
-        paymentStatus: 'paid',
-        paidAt: new Date().toISOString(),
-        shippingFirstName: session.customer_details?.name?.split(' ')[0] || '',
-        shippingLastName: session.customer_details?.name?.split(' ').slice(1).join(' ') || '',
-        shippingAddress: session.shipping_details?.address?.line1 || '',
-        shippingCity: session.shipping_details?.address?.city || '',
-        shippingState: session.shipping_details?.address?.state || '',
-        shippingPostcode: session.shipping_details?.address?.postal_code || '',
-        shippingCountry: session.shipping_details?.address?.country || 'AU',
-      }).returning().get();
-
-      // Create order items
-      for (const product of orderedProducts) {
-        const quantity = productQuantities[product.id] || productQuantities[product.slug] || 1;
-
-        await db.insert(orderItems).values({
-          orderId: order.id,
-          productId: product.id,
-          productName: product.name,
-          productImage: product.image,
-          price: product.price,
-          quantity,
-        });
-      }
-
-      // Deduct inventory and update availability
-      for (const product of orderedProducts) {
-        const qty = productQuantities[product.id] || productQuantities[product.slug] || 1;
-
-        if (product.trackInventory) {
-          const newQuantity = Math.max(0, product.quantity - qty);
-          const updates: Record<string, any> = {
-            quantity: newQuantity,
-            updatedAt: new Date().toISOString(),
-          };
-
-          // Mark sold out if inventory hits zero and continueSelling is off
-          if (newQuantity <= 0 && !product.continueSelling) {
-            updates.availability = 'Sold out';
-          }
-
-          await db.update(products).set(updates).where(eq(products.id, product.id));
-        }
-      }
+  // Stripe retries deliveries; each event is only ever handled once
+  if (!(await claimStripeEvent(db, event))) {
+    return c.json({ received: true, duplicate: true });
+  }
 
-      console.log('Order created:', order.orderNumber);
-    }
+  const result = await runStripeEvent(c.env, db, stripe, event);
+  if (result.status === 'failed') {
+    // A non-2xx response makes Stripe retry; the error is kept for replay in the admin
+    return c.json({ error: 'Webhook handler failed' }, 500);
   }
 
   return c.json({ received: true });
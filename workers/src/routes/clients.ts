@@ -2,7 +2,7 @@ import { Hono } from 'hono';
 import { eq, and, sql, desc, asc, or } from 'drizzle-orm';
 import { coachingClients, clientNotes, coachingBookings, coachingPackages, coachingContracts } from '../db/schema';
 import { adminAuth } from '../middleware/auth';
-import { sendEmail } from '../utils/email';
+import { deliverEmail } from '../utils/emailGateway';
 import type { Bindings, Variables } from '../index';
 
 export const clientsRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
@@ -549,43 +549,44 @@ clientsRoutes.post('/:id/contracts/:contractId/send', adminAuth, async (c) => {
   const contractUrl = `${frontendUrl}/#/contract/${contract.paymentToken}`;
   const firstName = (client.name || 'there').split(' ')[0];
 
-  try {
-    await sendEmail(
-      c.env,
-      client.email,
-      `${contract.title} — Contract & Payment`,
-      `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1c1917;">
-        <h1 style="font-size: 24px; margin-bottom: 8px; color: #8d3038;">Lyne Tilt Studio</h1>
-        <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
-          Hi ${firstName},
-        </p>
-        <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
-          Please review the following contract for <strong>${contract.title}</strong>.
-        </p>
-        <div style="background: #fafaf9; border: 1px solid #e7e5e4; border-radius: 8px; padding: 20px; margin: 24px 0;">
-          <p style="color: #1c1917; font-size: 18px; font-weight: 600; margin: 0 0 4px 0;">${contract.title}</p>
-          ${contract.description ? `<p style="color: #57534e; font-size: 14px; margin: 0 0 12px 0;">${contract.description}</p>` : ''}
-          <p style="color: #8d3038; font-size: 24px; font-weight: 700; margin: 0;">$${contract.amount} ${contract.currency}</p>
-        </div>
-        <div style="text-align: center; margin: 32px 0;">
-          <a href="${contractUrl}" style="background-color: #8d3038; color: #fff; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-size: 16px; font-weight: 600; display: inline-block;">
-            Review Contract
-          </a>
-        </div>
-        <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
-          If you have any questions, just reply to this email.
-        </p>
-        <p style="color: #57534e; font-size: 16px; line-height: 1.6; margin-top: 24px;">
-          Warm regards,<br/>
-          <strong>Lyne</strong>
-        </p>
-        <p style="color: #a8a29e; font-size: 12px; margin-top: 32px; border-top: 1px solid #e7e5e4; padding-top: 16px;">
-          Lyne Tilt Studio &mdash; Wearable Art &amp; Creative Coaching
-        </p>
-      </div>`,
-    );
-  } catch (err) {
-    console.error('Failed to send contract email:', err);
+  const result = await deliverEmail(c.env, db, {
+    to: client.email,
+    subject: `${contract.title} — Contract & Payment`,
+    html: `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1c1917;">
+      <h1 style="font-size: 24px; margin-bottom: 8px; color: #8d3038;">Lyne Tilt Studio</h1>
+      <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
+        Hi ${firstName},
+      </p>
+      <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
+        Please review the following contract for <strong>${contract.title}</strong>.
+      </p>
+      <div style="background: #fafaf9; border: 1px solid #e7e5e4; border-radius: 8px; padding: 20px; margin: 24px 0;">
+        <p style="color: #1c1917; font-size: 18px; font-weight: 600; margin: 0 0 4px 0;">${contract.title}</p>
+        ${contract.description ? `<p style="color: #57534e; font-size: 14px; margin: 0 0 12px 0;">${contract.description}</p>` : ''}
+        <p style="color: #8d3038; font-size: 24px; font-weight: 700; margin: 0;">$${contract.amount} ${contract.currency}</p>
+      </div>
+      <div style="text-align: center; margin: 32px 0;">
+        <a href="${contractUrl}" style="background-color: #8d3038; color: #fff; text-decoration: none; padding: 14px 32px; border-radius: 8px; font-size: 16px; font-weight: 600; display: inline-block;">
+          Review Contract
+        </a>
+      </div>
+      <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
+        If you have any questions, just reply to this email.
+      </p>
+      <p style="color: #57534e; font-size: 16px; line-height: 1.6; margin-top: 24px;">
+        Warm regards,<br/>
+        <strong>Lyne</strong>
+      </p>
+      <p style="color: #a8a29e; font-size: 12px; margin-top: 32px; border-top: 1px solid #e7e5e4; padding-top: 16px;">
+        Lyne Tilt Studio &mdash; Wearable Art &amp; Creative Coaching
+      </p>
+    </div>`,
+    category: 'transactional',
+    kind: 'coaching_contract',
+    referenceId: contract.id,
+  });
+  if (result.status !== 'sent') {
+    console.error('Failed to send contract email:', result.status === 'failed' ? result.error : result.reason);
     return c.json({ error: 'Failed to send email' }, 500);
   }
 
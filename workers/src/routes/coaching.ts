@@ -2,8 +2,9 @@ import { Hono } from 'hono';
 import { eq, desc, asc, sql, and, or, count } from 'drizzle-orm';
 import { coachingPackages, coachingRevisions, coachingApplications, coachingClients, coachingBookings, applicationNotes, siteSettings } from '../db/schema';
 import { logActivity } from '../utils/activityLog';
+import { publishDueCoaching } from '../utils/publishing';
 import { triggerAutomation } from '../utils/automations';
-import { sendEmail } from '../utils/email';
+import { deliverEmail } from '../utils/emailGateway';
 import { adminAuth, optionalAdminAuth } from '../middleware/auth';
 import type { Bindings, Variables } from '../index';
 
@@ -44,32 +45,14 @@ async function ensureUniqueSlug(db: any, baseSlug: string, excludeId?: string):
   }
 }
 
-/** Auto-publish scheduled coaching offers whose scheduledAt has passed. */
-async function autoPublishScheduled(db: any) {
-  const now = new Date().toISOString();
-  await db
-    .update(coachingPackages)
-    .set({
-      status: 'published',
-      archived: false,
-      publishedAt: now,
-      updatedAt: now,
-    })
-    .where(
-      and(
-        eq(coachingPackages.status, 'scheduled'),
-        sql`${coachingPackages.scheduledAt} <= ${now}`
-      )
-    );
-}
-
 // ─── GET / — List coaching offers (public + admin) ──────
 
 coachingRoutes.get('/', optionalAdminAuth, async (c) => {
   const db = c.get('db');
   const user = c.get('user');
 
-  await autoPublishScheduled(db);
+  // The cron job runs every few minutes; this catches anything due since
+  await publishDueCoaching(db, new Date().toISOString());
 
   const {
     status,
@@ -183,30 +166,31 @@ coachingRoutes.post('/apply', async (c) => {
   // If no automation configured, send a direct confirmation email
   if (!queued) {
     const firstName = (body.name || 'there').split(' ')[0];
-    try {
-      await sendEmail(
-        c.env,
-        body.email.toLowerCase().trim(),
-        'Your coaching enquiry has been received',
-        `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1c1917;">
-          <h1 style="font-size: 24px; margin-bottom: 8px;">Thanks, ${firstName}!</h1>
-          <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
-            I've received your coaching enquiry and I'm looking forward to connecting with you.
-          </p>
-          <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
-            I'll be in touch within 24&ndash;48 hours to arrange a time for your complimentary strategy call. In the meantime, feel free to reply to this email with any questions.
-          </p>
-          <p style="color: #57534e; font-size: 16px; line-height: 1.6; margin-top: 24px;">
-            Warm regards,<br/>
-            <strong>Lyne</strong>
-          </p>
-          <p style="color: #a8a29e; font-size: 12px; margin-top: 32px; border-top: 1px solid #e7e5e4; padding-top: 16px;">
-            Lyne Tilt Studio &mdash; Wearable Art &amp; Creative Coaching
-          </p>
-        </div>`,
-      );
-    } catch (err) {
-      console.error('Failed to send coaching confirmation email:', err);
+    const result = await deliverEmail(c.env, db, {
+      to: body.email.toLowerCase().trim(),
+      subject: 'Your coaching enquiry has been received',
+      html: `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1c1917;">
+        <h1 style="font-size: 24px; margin-bottom: 8px;">Thanks, ${firstName}!</h1>
+        <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
+          I've received your coaching enquiry and I'm looking forward to connecting with you.
+        </p>
+        <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
+          I'll be in touch within 24&ndash;48 hours to arrange a time for your complimentary strategy call. In the meantime, feel free to reply to this email with any questions.
+        </p>
+        <p style="color: #57534e; font-size: 16px; line-height: 1.6; margin-top: 24px;">
+          Warm regards,<br/>
+          <strong>Lyne</strong>
+        </p>
+        <p style="color: #a8a29e; font-size: 12px; margin-top: 32px; border-top: 1px solid #e7e5e4; padding-top: 16px;">
+          Lyne Tilt Studio &mdash; Wearable Art &amp; Creative Coaching
+        </p>
+      </div>`,
+      category: 'transactional',
+      kind: 'coaching_inquiry',
+      referenceId: application.id,
+    });
+    if (result.status !== 'sent') {
+      console.error('Failed to send coaching confirmation email:', result.status === 'failed' ? result.error : result.reason);
     }
   }
 
@@ -745,7 +729,8 @@ coachingRoutes.get('/:idOrSlug', optionalAdminAuth, async (c) => {
   const user = c.get('user');
   const idOrSlug = c.req.param('idOrSlug');
 
-  await autoPublishScheduled(db);
+  // The cron job runs every few minutes; this catches anything due since
+  await publishDueCoaching(db, new Date().toISOString());
 
   // Try by ID first, then by slug
   let item = await db.select().from(coachingPackages).where(eq(coachingPackages.id, idOrSlug)).get();
@@ -928,6 +913,7 @@ coachingRoutes.put('/:id', adminAuth, async (c) => {
   if (body.ogImageUrl !== undefined) updateData.ogImageUrl = body.ogImageUrl;
   if (body.canonicalUrl !== undefined) updateData.canonicalUrl = body.canonicalUrl;
   if (body.tags !== undefined) updateData.tags = body.tags;
+  if (body.archiveAt !== undefined) updateData.archiveAt = body.archiveAt || null;
 
   // Handle status changes via the update body (not lifecycle endpoints)
   if (body.status !== undefined) {
@@ -1094,6 +1080,7 @@ coachingRoutes.post('/:id/archive', adminAuth, async (c) => {
       status: 'archived',
       archived: true,
       scheduledAt: null,
+      archiveAt: null,
       updatedAt: new Date().toISOString(),
     })
     .where(eq(coachingPackages.id, id))
@@ -2,7 +2,8 @@ import { Hono } from 'hono';
 import { eq, desc, asc, sql, and, or, count } from 'drizzle-orm';
 import { cohorts, cohortSessions, cohortEnrollments, cohortAttendance, learnItems } from '../db/schema';
 import { logActivity } from '../utils/activityLog';
-import { adminAuth } from '../middleware/auth';
+import { cohortSpotsLeft, cohortWaitlistOpen } from '../utils/services';
+import { adminAuth, optionalCustomerAuth } from '../middleware/auth';
 import type { Bindings, Variables } from '../index';
 
 export const cohortsRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
@@ -1175,6 +1176,89 @@ cohortsRoutes.post('/:id/enrollments/:enrollmentId/cancel', adminAuth, async (c)
   return c.json(updated);
 });
 
+// POST /:id/waitlist — Join the waitlist for a full cohort (public)
+// Paid seats are bought through checkout; this only holds a place in the queue.
+cohortsRoutes.post('/:id/waitlist', optionalCustomerAuth, async (c) => {
+  const db = c.get('db');
+  const cohortId = c.req.param('id');
+  const customer = c.get('customerUser');
+  const body = await c.req.json().catch(() => ({}));
+
+  const email = String(customer?.email || body.email || '').trim().toLowerCase();
+  const name = customer ? `${customer.firstName} ${customer.lastName}`.trim() : String(body.name || '').trim().slice(0, 100);
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || !name) {
+    return c.json({ error: 'Please enter your name and a valid email' }, 400);
+  }
+
+  const cohort = await db
+    .select()
+    .from(cohorts)
+    .where(eq(cohorts.id, cohortId))
+    .get();
+
+  if (!cohort || cohort.status !== 'open') {
+    return c.json({ error: 'This workshop date is not open for registration' }, 404);
+  }
+
+  if (cohortSpotsLeft(cohort) !== 0) {
+    return c.json({ error: 'This workshop still has spots available' }, 400);
+  }
+
+  if (!cohortWaitlistOpen(cohort)) {
+    return c.json({ error: 'The waitlist for this workshop is full' }, 400);
+  }
+
+  const duplicate = await db
+    .select({ id: cohortEnrollments.id, status: cohortEnrollments.status })
+    .from(cohortEnrollments)
+    .where(
+      and(
+        eq(cohortEnrollments.cohortId, cohortId),
+        sql`LOWER(${cohortEnrollments.customerEmail}) = ${email}`
+      )
+    )
+    .get();
+
+  if (duplicate) {
+    return c.json({
+      error: duplicate.status === 'waitlisted'
+        ? "You're already on the waitlist for this workshop"
+        : 'This email is already registered for this workshop',
+    }, 409);
+  }
+
+  const now = new Date().toISOString();
+  const position = cohort.waitlistCount + 1;
+
+  await db
+    .insert(cohortEnrollments)
+    .values({
+      cohortId,
+      customerName: name,
+      customerEmail: email,
+      customerId: customer?.id || null,
+      status: 'waitlisted',
+      currency: cohort.currency || 'AUD',
+      waitlistPosition: position,
+      waitlistAddedAt: now,
+      enrolledBy: 'customer',
+      enrolledAt: now,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+  await db
+    .update(cohorts)
+    .set({
+      waitlistCount: sql`${cohorts.waitlistCount} + 1`,
+      updatedAt: now,
+    })
+    .where(eq(cohorts.id, cohortId));
+
+  return c.json({ success: true, position }, 201);
+});
+
 // ─── ATTENDANCE SUB-ROUTES ──────────────────────────────
 
 // GET /:id/sessions/:sessionId/attendance — Get attendance for session
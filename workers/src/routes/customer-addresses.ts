@@ -0,0 +1,191 @@
+import { Hono } from 'hono';
+import { eq, and, desc } from 'drizzle-orm';
+import { shippingAddresses } from '../db/schema';
+import { getShippingSettings, shippableCountries } from '../utils/pricing';
+import { customerAuth } from '../middleware/auth';
+import type { Bindings, Variables } from '../index';
+
+export const customerAddressesRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+type DB = Variables['db'];
+
+customerAddressesRoutes.use('*', customerAuth);
+
+const REQUIRED_FIELDS = ['firstName', 'lastName', 'address', 'city', 'state', 'postcode', 'country'] as const;
+
+type AddressInput = Record<typeof REQUIRED_FIELDS[number], string> & { phone: string | null };
+
+/**
+ * Validate an address from the request body. Countries are stored as ISO
+ * codes ("AU") so they match the shipping zones and Stripe.
+ */
+function parseAddress(body: any): { values?: AddressInput; error?: string } {
+  const values = { phone: null } as AddressInput;
+  for (const field of REQUIRED_FIELDS) {
+    const value = String(body?.[field] ?? '').trim();
+    if (!value) {
+      return { error: `${field} is required` };
+    }
+    values[field] = value.slice(0, 200);
+  }
+
+  values.country = values.country.toUpperCase();
+  if (!/^[A-Z]{2}$/.test(values.country)) {
+    return { error: 'country must be a two-letter country code' };
+  }
+
+  values.phone = body?.phone ? String(body.phone).trim().slice(0, 50) : null;
+  return { values };
+}
+
+/** Make one address the default and clear the flag on the customer's others. */
+async function setDefaultAddress(db: DB, userId: string, addressId: string) {
+  const now = new Date().toISOString();
+  await db
+    .update(shippingAddresses)
+    .set({ isDefault: false, updatedAt: now })
+    .where(and(eq(shippingAddresses.userId, userId), eq(shippingAddresses.isDefault, true)));
+  await db
+    .update(shippingAddresses)
+    .set({ isDefault: true, updatedAt: now })
+    .where(eq(shippingAddresses.id, addressId));
+}
+
+async function listAddresses(db: DB, userId: string) {
+  return db
+    .select()
+    .from(shippingAddresses)
+    .where(eq(shippingAddresses.userId, userId))
+    .orderBy(desc(shippingAddresses.isDefault), desc(shippingAddresses.updatedAt))
+    .all();
+}
+
+// ─── GET / — Saved addresses (default first) and shippable countries ──
+customerAddressesRoutes.get('/', async (c) => {
+  const db = c.get('db');
+  const user = c.get('customerUser');
+
+  const addresses = await listAddresses(db, user!.id);
+  const countries = shippableCountries(await getShippingSettings(db));
+
+  return c.json({ addresses, countries });
+});
+
+// ─── POST / — Add an address ─────────────────────────────
+customerAddressesRoutes.post('/', async (c) => {
+  const db = c.get('db');
+  const user = c.get('customerUser');
+  const body = await c.req.json();
+
+  const { values, error } = parseAddress(body);
+  if (error || !values) {
+    return c.json({ error }, 400);
+  }
+
+  // A customer's first address is always their default
+  const existing = await listAddresses(db, user!.id);
+
+  const address = await db
+    .insert(shippingAddresses)
+    .values({
+      ...values,
+      userId: user!.id,
+      isDefault: existing.length === 0,
+    })
+    .returning()
+    .get();
+
+  if (body.isDefault && existing.length > 0) {
+    await setDefaultAddress(db, user!.id, address.id);
+    address.isDefault = true;
+  }
+
+  return c.json(address, 201);
+});
+
+// ─── PUT /:id — Update an address ────────────────────────
+customerAddressesRoutes.put('/:id', async (c) => {
+  const db = c.get('db');
+  const user = c.get('customerUser');
+  const id = c.req.param('id');
+  const body = await c.req.json();
+
+  const existing = await db
+    .select()
+    .from(shippingAddresses)
+    .where(and(eq(shippingAddresses.id, id), eq(shippingAddresses.userId, user!.id)))
+    .get();
+
+  if (!existing) {
+    return c.json({ error: 'Address not found' }, 404);
+  }
+
+  const { values, error } = parseAddress(body);
+  if (error || !values) {
+    return c.json({ error }, 400);
+  }
+
+  const address = await db
+    .update(shippingAddresses)
+    .set({ ...values, updatedAt: new Date().toISOString() })
+    .where(eq(shippingAddresses.id, id))
+    .returning()
+    .get();
+
+  if (body.isDefault && !existing.isDefault) {
+    await setDefaultAddress(db, user!.id, id);
+    address.isDefault = true;
+  }
+
+  return c.json(address);
+});
+
+// ─── POST /:id/default — Make an address the default ─────
+customerAddressesRoutes.post('/:id/default', async (c) => {
+  const db = c.get('db');
+  const user = c.get('customerUser');
+  const id = c.req.param('id');
+
+  const existing = await db
+    .select({ id: shippingAddresses.id })
+    .from(shippingAddresses)
+    .where(and(eq(shippingAddresses.id, id), eq(shippingAddresses.userId, user!.id)))
+    .get();
+
+  if (!existing) {
+    return c.json({ error: 'Address not found' }, 404);
+  }
+
+  await setDefaultAddress(db, user!.id, id);
+
+  return c.json({ success: true });
+});
+
+// ─── DELETE /:id — Remove an address ─────────────────────
+customerAddressesRoutes.delete('/:id', async (c) => {
+  const db = c.get('db');
+  const user = c.get('customerUser');
+  const id = c.req.param('id');
+
+  const existing = await db
+    .select()
+    .from(shippingAddresses)
+    .where(and(eq(shippingAddresses.id, id), eq(shippingAddresses.userId, user!.id)))
+    .get();
+
+  if (!existing) {
+    return c.json({ error: 'Address not found' }, 404);
+  }
+
+  await db.delete(shippingAddresses).where(eq(shippingAddresses.id, id));
+
+  // Keep a default while any addresses remain
+  if (existing.isDefault) {
+    const [next] = await listAddresses(db, user!.id);
+    if (next) {
+      await setDefaultAddress(db, user!.id, next.id);
+    }
+  }
+
+  return c.json({ success: true });
+});
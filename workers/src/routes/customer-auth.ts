@@ -3,7 +3,7 @@ import { eq } from 'drizzle-orm';
 import { compare, hash } from 'bcryptjs';
 import { customerUsers, customerRefreshTokens } from '../db/schema';
 import { signJwt, customerAuth } from '../middleware/auth';
-import { sendEmail } from '../utils/email';
+import { deliverEmail } from '../utils/emailGateway';
 import type { Bindings, Variables } from '../index';
 
 function verificationEmailHtml(firstName: string, verifyUrl: string): string {
@@ -31,9 +31,9 @@ customerAuthRoutes.post('/register', async (c) => {
   const db = c.get('db');
   const { firstName, lastName, email, password } = await c.req.json();
 
-  // Check if user exists
+  // Check if user exists; guest customers created at checkout can claim their account
   const existing = await db.select().from(customerUsers).where(eq(customerUsers.email, email)).get();
-  if (existing) {
+  if (existing && existing.authProvider !== 'none') {
     return c.json({ error: 'Email already registered' }, 400);
   }
 
@@ -46,28 +46,40 @@ customerAuthRoutes.post('/register', async (c) => {
   const verificationToken = crypto.randomUUID();
   const verificationTokenExpiry = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
 
-  const user = await db.insert(customerUsers).values({
-    firstName,
-    lastName,
-    email,
-    passwordHash,
-    verificationToken,
-    verificationTokenExpiry,
-    emailVerified: false,
-  }).returning().get();
+  const user = existing
+    ? await db.update(customerUsers).set({
+        firstName,
+        lastName,
+        passwordHash,
+        verificationToken,
+        verificationTokenExpiry,
+        emailVerified: false,
+        authProvider: 'email',
+        updatedAt: new Date().toISOString(),
+      }).where(eq(customerUsers.id, existing.id)).returning().get()
+    : await db.insert(customerUsers).values({
+        firstName,
+        lastName,
+        email,
+        passwordHash,
+        verificationToken,
+        verificationTokenExpiry,
+        emailVerified: false,
+      }).returning().get();
 
   // Send verification email
   const baseUrl = c.env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
   const verifyUrl = `${baseUrl}/#/verify-email?token=${verificationToken}`;
-  try {
-    await sendEmail(
-      c.env,
-      email,
-      'Verify your Lyne Tilt account',
-      verificationEmailHtml(firstName || 'there', verifyUrl),
-    );
-  } catch (err) {
-    console.error('Failed to send verification email:', err);
+  const result = await deliverEmail(c.env, db, {
+    to: email,
+    subject: 'Verify your Lyne Tilt account',
+    html: verificationEmailHtml(firstName || 'there', verifyUrl),
+    category: 'transactional',
+    kind: 'email_verification',
+    referenceId: user.id,
+  });
+  if (result.status !== 'sent') {
+    console.error('Failed to send verification email:', result.status === 'failed' ? result.error : result.reason);
   }
 
   return c.json({
@@ -234,15 +246,16 @@ customerAuthRoutes.post('/resend-verification', customerAuth, async (c) => {
   // Send verification email
   const baseUrl = c.env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
   const verifyUrl = `${baseUrl}/#/verify-email?token=${verificationToken}`;
-  try {
-    await sendEmail(
-      c.env,
-      customerUser!.email,
-      'Verify your Lyne Tilt account',
-      verificationEmailHtml(customerUser!.firstName || 'there', verifyUrl),
-    );
-  } catch (err) {
-    console.error('Failed to send verification email:', err);
+  const result = await deliverEmail(c.env, db, {
+    to: customerUser!.email,
+    subject: 'Verify your Lyne Tilt account',
+    html: verificationEmailHtml(customerUser!.firstName || 'there', verifyUrl),
+    category: 'transactional',
+    kind: 'email_verification',
+    referenceId: customerUser!.id,
+  });
+  if (result.status !== 'sent') {
+    console.error('Failed to send verification email:', result.status === 'failed' ? result.error : result.reason);
   }
 
   return c.json({ success: true });
@@ -343,6 +356,8 @@ customerAuthRoutes.post('/google', async (c) => {
     await db.update(customerUsers)
       .set({
         emailVerified: true,
+        // Guest customers from checkout become Google accounts
+        authProvider: user.authProvider === 'none' ? 'google' : user.authProvider,
         lastLoginAt: now,
         updatedAt: now,
       })
@@ -0,0 +1,182 @@
+import { Hono } from 'hono';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { orders, orderItems, customerUsers } from '../db/schema';
+import { customerOrderSummary, customerOrderDetail } from '../utils/orders';
+import { getTaxSettings } from '../utils/tax';
+import { renderTaxInvoice, invoiceNumber } from '../utils/invoice';
+import { customerAuth } from '../middleware/auth';
+import type { Bindings, Variables } from '../index';
+
+export const customerOrdersRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+type DB = Variables['db'];
+
+function normalizeOrderNumber(value: unknown): string {
+  return String(value || '').trim().toUpperCase();
+}
+
+async function invoiceResponse(db: DB, order: any) {
+  const items = await db
+    .select()
+    .from(orderItems)
+    .where(eq(orderItems.orderId, order.id))
+    .all();
+
+  const html = renderTaxInvoice(order, items, await getTaxSettings(db));
+
+  return new Response(html, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Disposition': `inline; filename="${invoiceNumber(order)}.html"`,
+    },
+  });
+}
+
+/**
+ * Find a guest's order from the order number and the email it was placed
+ * with. Both must match, and a miss gives the same answer either way so
+ * order numbers can't be probed.
+ */
+async function findGuestOrder(db: DB, body: any) {
+  const orderNumber = normalizeOrderNumber(body?.orderNumber);
+  const email = String(body?.email || '').trim().toLowerCase();
+  if (!orderNumber || !email) return null;
+
+  const row = await db
+    .select({ order: orders })
+    .from(orders)
+    .innerJoin(customerUsers, eq(orders.userId, customerUsers.id))
+    .where(and(
+      eq(orders.orderNumber, orderNumber),
+      eq(customerUsers.email, email),
+    ))
+    .get();
+
+  return row?.order ?? null;
+}
+
+// ═══════════════════════════════════════════
+// GUEST ORDER LOOKUP (no auth required)
+// ═══════════════════════════════════════════
+
+// ─── POST /lookup — Order status by order number + email ─
+customerOrdersRoutes.post('/lookup', async (c) => {
+  const db = c.get('db');
+  const body = await c.req.json().catch(() => ({}));
+
+  if (!body.orderNumber || !body.email) {
+    return c.json({ error: 'Order number and email are required' }, 400);
+  }
+
+  const order = await findGuestOrder(db, body);
+  if (!order) {
+    return c.json({ error: "We couldn't find an order with those details" }, 404);
+  }
+
+  return c.json(await customerOrderDetail(db, order));
+});
+
+// ─── POST /lookup/invoice — Tax invoice for a looked-up order ─
+customerOrdersRoutes.post('/lookup/invoice', async (c) => {
+  const db = c.get('db');
+  const body = await c.req.json().catch(() => ({}));
+
+  const order = await findGuestOrder(db, body);
+  if (!order) {
+    return c.json({ error: "We couldn't find an order with those details" }, 404);
+  }
+
+  return invoiceResponse(db, order);
+});
+
+// ═══════════════════════════════════════════
+// SIGNED-IN CUSTOMERS
+// ═══════════════════════════════════════════
+
+customerOrdersRoutes.use('*', customerAuth);
+
+// ─── GET / — The customer's orders, newest first ─────────
+customerOrdersRoutes.get('/', async (c) => {
+  const db = c.get('db');
+  const user = c.get('customerUser');
+
+  const rows = await db
+    .select()
+    .from(orders)
+    .where(eq(orders.userId, user!.id))
+    .orderBy(desc(orders.createdAt))
+    .all();
+
+  // Item count and a thumbnail for each order (joined rather than listing
+  // the order ids, which D1's 100-parameter limit would cap)
+  const itemStats = rows.length > 0
+    ? await db
+        .select({
+          orderId: orderItems.orderId,
+          itemCount: sql<number>`SUM(${orderItems.quantity})`,
+          image: sql<string | null>`MAX(${orderItems.productImage})`,
+          names: sql<string>`GROUP_CONCAT(${orderItems.productName}, ', ')`,
+        })
+        .from(orderItems)
+        .innerJoin(orders, eq(orderItems.orderId, orders.id))
+        .where(eq(orders.userId, user!.id))
+        .groupBy(orderItems.orderId)
+        .all()
+    : [];
+  const statsMap = new Map(itemStats.map((s) => [s.orderId, s]));
+
+  return c.json({
+    orders: rows.map((order) => {
+      const stats = statsMap.get(order.id);
+      return {
+        ...customerOrderSummary(order),
+        itemCount: Number(stats?.itemCount || 0),
+        itemNames: stats?.names || '',
+        image: stats?.image || null,
+      };
+    }),
+  });
+});
+
+// ─── GET /:orderNumber — One of the customer's orders ────
+customerOrdersRoutes.get('/:orderNumber', async (c) => {
+  const db = c.get('db');
+  const user = c.get('customerUser');
+
+  const order = await db
+    .select()
+    .from(orders)
+    .where(and(
+      eq(orders.orderNumber, normalizeOrderNumber(c.req.param('orderNumber'))),
+      eq(orders.userId, user!.id),
+    ))
+    .get();
+
+  if (!order) {
+    return c.json({ error: 'Order not found' }, 404);
+  }
+
+  return c.json(await customerOrderDetail(db, order));
+});
+
+// ─── GET /:orderNumber/invoice — Printable tax invoice (HTML) ─
+customerOrdersRoutes.get('/:orderNumber/invoice', async (c) => {
+  const db = c.get('db');
+  const user = c.get('customerUser');
+
+  const order = await db
+    .select()
+    .from(orders)
+    .where(and(
+      eq(orders.orderNumber, normalizeOrderNumber(c.req.param('orderNumber'))),
+      eq(orders.userId, user!.id),
+    ))
+    .get();
+
+  if (!order) {
+    return c.json({ error: 'Order not found' }, 404);
+  }
+
+  return invoiceResponse(db, order);
+});
@@ -2,7 +2,7 @@ import { Hono } from 'hono';
 import { eq, desc, sql } from 'drizzle-orm';
 import { customerUsers, orders, shippingAddresses } from '../db/schema';
 import { adminAuth } from '../middleware/auth';
-import { sendEmail } from '../utils/email';
+import { deliverEmail } from '../utils/emailGateway';
 import type { Bindings, Variables } from '../index';
 
 export const customersRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
@@ -364,29 +364,30 @@ customersRoutes.post('/:id/send-reset', async (c) => {
   const baseUrl = c.env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
   const resetUrl = `${baseUrl}/#/reset-password?token=${resetToken}`;
 
-  try {
-    await sendEmail(
-      c.env,
-      customer.email,
-      'Reset your Lyne Tilt password',
-      `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1c1917;">
-        <h1 style="font-size: 24px; margin-bottom: 8px;">Password Reset</h1>
-        <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
-          Hi ${customer.firstName || 'there'}, a password reset was requested for your account. Click the button below to set a new password.
-        </p>
-        <a href="${resetUrl}" style="display: inline-block; background: #8d3038; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-size: 14px; font-weight: 600; margin: 24px 0;">
-          Reset Password
-        </a>
-        <p style="color: #a8a29e; font-size: 13px; line-height: 1.5;">
-          This link expires in 24 hours. If you didn&rsquo;t request this, you can safely ignore this email.
-        </p>
-        <p style="color: #a8a29e; font-size: 12px; margin-top: 32px; border-top: 1px solid #e7e5e4; padding-top: 16px;">
-          Lyne Tilt Studio &mdash; Wearable Art &amp; Creative Coaching
-        </p>
-      </div>`,
-    );
-  } catch (err) {
-    console.error('Failed to send reset email:', err);
+  const result = await deliverEmail(c.env, db, {
+    to: customer.email,
+    subject: 'Reset your Lyne Tilt password',
+    html: `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px; color: #1c1917;">
+      <h1 style="font-size: 24px; margin-bottom: 8px;">Password Reset</h1>
+      <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
+        Hi ${customer.firstName || 'there'}, a password reset was requested for your account. Click the button below to set a new password.
+      </p>
+      <a href="${resetUrl}" style="display: inline-block; background: #8d3038; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-size: 14px; font-weight: 600; margin: 24px 0;">
+        Reset Password
+      </a>
+      <p style="color: #a8a29e; font-size: 13px; line-height: 1.5;">
+        This link expires in 24 hours. If you didn&rsquo;t request this, you can safely ignore this email.
+      </p>
+      <p style="color: #a8a29e; font-size: 12px; margin-top: 32px; border-top: 1px solid #e7e5e4; padding-top: 16px;">
+        Lyne Tilt Studio &mdash; Wearable Art &amp; Creative Coaching
+      </p>
+    </div>`,
+    category: 'transactional',
+    kind: 'password_reset',
+    referenceId: customer.id,
+  });
+  if (result.status !== 'sent') {
+    console.error('Failed to send reset email:', result.status === 'failed' ? result.error : result.reason);
     return c.json({ error: 'Failed to send email' }, 500);
   }
 
@@ -19,6 +19,7 @@ import {
   coachingApplications,
   productReviews,
 } from '../db/schema';
+import { getInventorySettings, countLowStock } from '../utils/inventory';
 import { adminAuth } from '../middleware/auth';
 import type { Bindings, Variables } from '../index';
 
@@ -47,6 +48,7 @@ dashboardRoutes.get('/badge-counts', adminAuth, async (c) => {
     ordersToFulfill,
     unreadMessages,
     pendingBookings,
+    lowStock,
   ] = await Promise.all([
     db.select({ count: sql<number>`count(*)` })
       .from(coachingApplications)
@@ -68,6 +70,9 @@ dashboardRoutes.get('/badge-counts', adminAuth, async (c) => {
       .from(coachingBookings)
       .where(eq(coachingBookings.status, 'pending'))
       .get().catch(() => ({ count: 0 })),
+    getInventorySettings(db)
+      .then((settings) => countLowStock(db, settings.lowStockThreshold))
+      .catch(() => 0),
   ]);
 
   return c.json({
@@ -76,6 +81,7 @@ dashboardRoutes.get('/badge-counts', adminAuth, async (c) => {
     '/admin/orders': ordersToFulfill?.count ?? 0,
     '/admin/inbox': unreadMessages?.count ?? 0,
     '/admin/bookings': pendingBookings?.count ?? 0,
+    '/admin/inventory': lowStock,
   });
 });
 
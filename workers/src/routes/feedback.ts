@@ -1,5 +1,5 @@
 import { Hono } from 'hono';
-import { Resend } from 'resend';
+import { deliverEmail } from '../utils/emailGateway';
 import type { Bindings, Variables } from '../index';
 
 const app = new Hono<{ Bindings: Bindings; Variables: Variables }>();
@@ -58,14 +58,15 @@ app.post('/', async (c) => {
       </div>
     `;
 
-    const resend = new Resend(c.env.RESEND_API_KEY);
-    const { error: sendError } = await resend.emails.send({
+    const result = await deliverEmail(c.env, c.get('db'), {
       from: 'Lyne Tilt Feedback <onboarding@resend.dev>',
       to: 'thalya@verdantlabs.com.au',
       subject,
       html,
+      category: 'transactional',
+      kind: 'feedback',
     });
-    if (sendError) throw new Error(sendError.message);
+    if (result.status !== 'sent') throw new Error(result.status === 'failed' ? result.error : result.reason);
 
     return c.json({ success: true });
   } catch (err: any) {
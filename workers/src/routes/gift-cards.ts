@@ -2,21 +2,11 @@ import { Hono } from 'hono';
 import { eq, desc, asc, and, sql } from 'drizzle-orm';
 import { giftCards, giftCardTransactions } from '../db/schema';
 import { adminAuth } from '../middleware/auth';
+import { generateGiftCardCode } from '../utils/giftCards';
 import type { Bindings, Variables } from '../index';
 
 export const giftCardsRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
-// ─── Helper: generate a unique gift card code ─────────────
-function generateGiftCardCode(): string {
-  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no I,O,0,1 to avoid confusion
-  let code = '';
-  for (let i = 0; i < 16; i++) {
-    if (i > 0 && i % 4 === 0) code += '-';
-    code += chars[Math.floor(Math.random() * chars.length)];
-  }
-  return code; // Format: XXXX-XXXX-XXXX-XXXX
-}
-
 // ============================================
 // PUBLIC ENDPOINTS (no auth)
 // ============================================
@@ -1,11 +1,24 @@
 import { Hono } from 'hono';
-import { eq, and, sql, desc, asc } from 'drizzle-orm';
-import { products } from '../db/schema';
+import { eq, and, sql, desc, asc, gt, inArray, isNull } from 'drizzle-orm';
+import { products, productVariants, inventoryMovements, stockReservations, orders } from '../db/schema';
 import { adminAuth } from '../middleware/auth';
+import { logActivity } from '../utils/activityLog';
+import {
+  MOVEMENT_TYPES,
+  changeStock,
+  setStock,
+  getInventorySettings,
+  needsReorderSql,
+  parseThreshold,
+  type MovementType,
+} from '../utils/inventory';
+import { notifyIfRestocked } from '../utils/waitlist';
 import type { Bindings, Variables } from '../index';
 
 export const inventoryRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
+type DB = Variables['db'];
+
 // Apply admin auth to all routes
 inventoryRoutes.use('*', adminAuth);
 
@@ -18,20 +31,27 @@ inventoryRoutes.get('/', async (c) => {
   const type = c.req.query('type') || 'all';
   const sort = c.req.query('sort') || 'name';
 
+  const settings = await getInventorySettings(db);
+  const needsReorder = needsReorderSql(settings.lowStockThreshold);
+
   // ── Build filter conditions ─────────────────────────────
   const conditions: any[] = [
     eq(products.status, 'active'),
     eq(products.trackInventory, true),
   ];
 
-  // Stock level filter
+  // Stock level filter. Low is at or below the threshold but not sold out;
+  // reorder is both.
   if (filter === 'low') {
-    conditions.push(sql`${products.quantity} < 5`);
+    conditions.push(needsReorder);
     conditions.push(sql`${products.quantity} > 0`);
+  } else if (filter === 'reorder') {
+    conditions.push(needsReorder);
   } else if (filter === 'out') {
     conditions.push(eq(products.quantity, 0));
   } else if (filter === 'in') {
-    conditions.push(sql`${products.quantity} >= 5`);
+    conditions.push(sql`${products.quantity} > 0`);
+    conditions.push(sql`NOT ${needsReorder}`);
   }
 
   // Product type filter
@@ -80,6 +100,8 @@ inventoryRoutes.get('/', async (c) => {
       trackInventory: products.trackInventory,
       continueSelling: products.continueSelling,
       availability: products.availability,
+      lowStockThreshold: products.lowStockThreshold,
+      needsReorder: sql<number>`CASE WHEN ${needsReorder} THEN 1 ELSE 0 END`,
     })
     .from(products)
     .where(and(...conditions))
@@ -90,9 +112,10 @@ inventoryRoutes.get('/', async (c) => {
   const statsResult = await db
     .select({
       totalTracked: sql<number>`count(*)`,
-      inStock: sql<number>`SUM(CASE WHEN ${products.quantity} >= 5 THEN 1 ELSE 0 END)`,
-      lowStock: sql<number>`SUM(CASE WHEN ${products.quantity} > 0 AND ${products.quantity} < 5 THEN 1 ELSE 0 END)`,
+      inStock: sql<number>`SUM(CASE WHEN ${products.quantity} > 0 AND NOT ${needsReorder} THEN 1 ELSE 0 END)`,
+      lowStock: sql<number>`SUM(CASE WHEN ${products.quantity} > 0 AND ${needsReorder} THEN 1 ELSE 0 END)`,
       outOfStock: sql<number>`SUM(CASE WHEN ${products.quantity} = 0 THEN 1 ELSE 0 END)`,
+      needsReorder: sql<number>`SUM(CASE WHEN ${needsReorder} THEN 1 ELSE 0 END)`,
       totalUnits: sql<number>`COALESCE(SUM(${products.quantity}), 0)`,
     })
     .from(products)
@@ -102,15 +125,293 @@ inventoryRoutes.get('/', async (c) => {
     ))
     .get();
 
+  // ── Variant counts and stock held by open checkouts ─────
+  const productIds = productRows.map((p: any) => p.id);
+  const [variantCounts, reservations] = productIds.length > 0
+    ? await Promise.all([
+        db.select({ productId: productVariants.productId, count: sql<number>`count(*)` })
+          .from(productVariants)
+          .where(inArray(productVariants.productId, productIds))
+          .groupBy(productVariants.productId)
+          .all(),
+        db.select({ productId: stockReservations.productId, quantity: sql<number>`SUM(${stockReservations.quantity})` })
+          .from(stockReservations)
+          .where(and(
+            inArray(stockReservations.productId, productIds),
+            gt(stockReservations.expiresAt, new Date().toISOString()),
+          ))
+          .groupBy(stockReservations.productId)
+          .all(),
+      ])
+    : [[], []];
+
   return c.json({
-    products: productRows,
+    products: productRows.map((p: any) => ({
+      ...p,
+      needsReorder: !!p.needsReorder,
+      variantCount: Number(variantCounts.find((v: any) => v.productId === p.id)?.count || 0),
+      reserved: Number(reservations.find((r: any) => r.productId === p.id)?.quantity || 0),
+    })),
     stats: {
       totalTracked: statsResult?.totalTracked ?? 0,
       inStock: statsResult?.inStock ?? 0,
       lowStock: statsResult?.lowStock ?? 0,
       outOfStock: statsResult?.outOfStock ?? 0,
+      needsReorder: statsResult?.needsReorder ?? 0,
       totalUnits: statsResult?.totalUnits ?? 0,
     },
+    settings,
+  });
+});
+
+const stockFields = {
+  id: products.id,
+  name: products.name,
+  image: products.image,
+  productType: products.productType,
+  status: products.status,
+  price: products.price,
+  quantity: products.quantity,
+  trackInventory: products.trackInventory,
+  continueSelling: products.continueSelling,
+  availability: products.availability,
+};
+
+/** Stock for products with options lives on the variants and is changed there. */
+async function hasVariants(db: DB, productId: string): Promise<boolean> {
+  const row = await db.select({ count: sql<number>`count(*)` }).from(productVariants)
+    .where(eq(productVariants.productId, productId)).get();
+  return !!row?.count;
+}
+
+// ─── GET /stocktake/export — Count sheet CSV ─────────────
+inventoryRoutes.get('/stocktake/export', async (c) => {
+  const db = c.get('db');
+
+  const productRows = await db.select().from(products)
+    .where(and(eq(products.trackInventory, true), isNull(products.deletedAt)))
+    .orderBy(asc(products.name))
+    .all();
+  const variantRows = await db.select().from(productVariants)
+    .orderBy(asc(productVariants.sortOrder))
+    .all();
+
+  const header = 'product,name,variant,sku,expected,counted';
+  const lines: string[] = [];
+  for (const p of productRows) {
+    if (p.productType === 'gift-card') continue;
+    const variants = variantRows.filter((v: any) => v.productId === p.id);
+    const rows = variants.length > 0
+      ? variants.map((v: any) => [p.slug, p.name, v.title, v.sku || '', v.quantity, ''])
+      : [[p.slug, p.name, '', '', p.quantity, '']];
+    for (const row of rows) {
+      lines.push(row.map(v => `"${String(v).replace(/"/g, '""')}"`).join(','));
+    }
+  }
+
+  const csv = [header, ...lines].join('\n');
+
+  return new Response(csv, {
+    headers: {
+      'Content-Type': 'text/csv',
+      'Content-Disposition': `attachment; filename="stocktake-${new Date().toISOString().slice(0, 10)}.csv"`,
+    },
+  });
+});
+
+// ─── POST /stocktake — Reconcile counted stock ───────────
+// Rows name a variant by SKU, or a product by id, slug or name (plus the
+// variant title for products with options). Without `apply` this only
+// previews the differences; with it, every changed count is saved as a
+// stocktake movement. Products left off the sheet aren't touched.
+inventoryRoutes.post('/stocktake', async (c) => {
+  const db = c.get('db');
+  const user = c.get('user');
+  const body = await c.req.json();
+  const rows: any[] = Array.isArray(body.rows) ? body.rows : [];
+
+  if (rows.length === 0) {
+    return c.json({ error: 'No counted rows to import' }, 400);
+  }
+  if (rows.length > 2000) {
+    return c.json({ error: 'A stocktake can have at most 2000 rows' }, 400);
+  }
+
+  const productRows = await db.select().from(products)
+    .where(and(eq(products.trackInventory, true), isNull(products.deletedAt)))
+    .all();
+  const variantRows = await db.select().from(productVariants).all();
+
+  const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase();
+  const seen = new Set<string>();
+
+  const results = rows.map((row, index) => {
+    const result: Record<string, any> = {
+      row: Number(row.row) || index + 2, // spreadsheet line, after the header
+      name: String(row.product || row.sku || '').trim(),
+      variant: row.variant ? String(row.variant).trim() : null,
+      expected: null,
+      counted: null,
+      difference: 0,
+      status: 'error',
+      error: null,
+    };
+
+    const counted = Number(String(row.counted ?? '').trim());
+    if (String(row.counted ?? '').trim() === '' || !Number.isInteger(counted) || counted < 0) {
+      result.error = 'Counted must be a whole number';
+      return result;
+    }
+    result.counted = counted;
+
+    let product: any = null;
+    let variant: any = null;
+    const sku = normalize(row.sku);
+    if (sku) {
+      variant = variantRows.find((v: any) => normalize(v.sku) === sku) || null;
+      product = variant && productRows.find((p: any) => p.id === variant.productId);
+    } else {
+      const key = normalize(row.product);
+      product = productRows.find((p: any) => p.id === key || p.slug === key)
+        || productRows.find((p: any) => normalize(p.name) === key)
+        || null;
+      const options = product ? variantRows.filter((v: any) => v.productId === product.id) : [];
+      if (options.length > 0) {
+        variant = options.find((v: any) => normalize(v.title) === normalize(row.variant)) || null;
+        if (!variant) {
+          result.name = product.name;
+          result.error = `Choose a variant: ${options.map((v: any) => v.title).join(', ')}`;
+          return result;
+        }
+      }
+    }
+
+    if (!product) {
+      result.error = sku ? 'No variant with this SKU' : 'Product not found';
+      return result;
+    }
+
+    const target = variant?.id || product.id;
+    result.name = product.name;
+    result.variant = variant?.title || null;
+    result.productId = product.id;
+    result.variantId = variant?.id || null;
+    if (seen.has(target)) {
+      result.error = 'Counted more than once';
+      return result;
+    }
+    seen.add(target);
+
+    result.expected = variant ? variant.quantity : product.quantity;
+    result.difference = counted - result.expected;
+    result.status = result.difference === 0 ? 'match' : 'change';
+    return result;
+  });
+
+  let waitlistNotified = 0;
+  if (body.apply) {
+    const note = body.note ? `Stocktake: ${String(body.note).trim()}` : 'Stocktake';
+    const touched = new Set<string>();
+    for (const result of results) {
+      if (result.status !== 'change') continue;
+      await setStock(db, {
+        productId: result.productId,
+        variantId: result.variantId,
+        quantity: result.counted,
+        type: 'stocktake',
+        note,
+        user,
+      });
+      touched.add(result.productId);
+    }
+
+    // productRows still holds each product as it was before the count
+    for (const productId of touched) {
+      const before = productRows.find((p: any) => p.id === productId);
+      if (before) waitlistNotified += await notifyIfRestocked(c.env, db, productId, before);
+    }
+  }
+
+  return c.json({
+    applied: !!body.apply,
+    rows: results,
+    summary: {
+      counted: results.filter(r => r.status !== 'error').length,
+      matched: results.filter(r => r.status === 'match').length,
+      changed: results.filter(r => r.status === 'change').length,
+      errors: results.filter(r => r.status === 'error').length,
+      unitsDifference: results.reduce((sum, r) => sum + r.difference, 0),
+      waitlistNotified,
+    },
+  });
+});
+
+// ─── GET /:id/movements — Stock history and open holds ────
+inventoryRoutes.get('/:id/movements', async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+  const page = Math.max(1, parseInt(c.req.query('page') || '1'));
+  const limit = Math.min(100, parseInt(c.req.query('limit') || '50'));
+
+  const product = await db.select(stockFields).from(products).where(eq(products.id, id)).get();
+  if (!product) {
+    return c.json({ error: 'Product not found' }, 404);
+  }
+
+  const [movements, totalResult, reservations] = await Promise.all([
+    db.select({
+      id: inventoryMovements.id,
+      type: inventoryMovements.type,
+      quantityChange: inventoryMovements.quantityChange,
+      quantityAfter: inventoryMovements.quantityAfter,
+      note: inventoryMovements.note,
+      orderId: inventoryMovements.orderId,
+      orderNumber: orders.orderNumber,
+      variantId: inventoryMovements.variantId,
+      variantTitle: productVariants.title,
+      userName: inventoryMovements.userName,
+      createdAt: inventoryMovements.createdAt,
+    })
+      .from(inventoryMovements)
+      .leftJoin(orders, eq(inventoryMovements.orderId, orders.id))
+      .leftJoin(productVariants, eq(inventoryMovements.variantId, productVariants.id))
+      .where(eq(inventoryMovements.productId, id))
+      .orderBy(desc(inventoryMovements.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit)
+      .all(),
+    db.select({ count: sql<number>`count(*)` })
+      .from(inventoryMovements)
+      .where(eq(inventoryMovements.productId, id))
+      .get(),
+    db.select({
+      id: stockReservations.id,
+      quantity: stockReservations.quantity,
+      variantTitle: productVariants.title,
+      expiresAt: stockReservations.expiresAt,
+    })
+      .from(stockReservations)
+      .leftJoin(productVariants, eq(stockReservations.variantId, productVariants.id))
+      .where(and(
+        eq(stockReservations.productId, id),
+        gt(stockReservations.expiresAt, new Date().toISOString()),
+      ))
+      .orderBy(asc(stockReservations.expiresAt))
+      .all(),
+  ]);
+
+  const total = totalResult?.count ?? 0;
+
+  return c.json({
+    product,
+    movements,
+    reservations,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
   });
 });
 
@@ -118,8 +419,9 @@ inventoryRoutes.get('/', async (c) => {
 inventoryRoutes.patch('/:id/stock', async (c) => {
   const db = c.get('db');
   const id = c.req.param('id');
+  const user = c.get('user');
   const body = await c.req.json();
-  const { quantity, availability } = body;
+  const { quantity, availability, reason } = body;
 
   const existing = await db
     .select()
@@ -131,62 +433,63 @@ inventoryRoutes.patch('/:id/stock', async (c) => {
     return c.json({ error: 'Product not found' }, 404);
   }
 
-  const now = new Date().toISOString();
-  const updateData: Record<string, any> = {
-    updatedAt: now,
-  };
-
-  if (quantity !== undefined) {
-    updateData.quantity = quantity;
+  if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 0)) {
+    return c.json({ error: 'quantity must be a whole number of at least 0' }, 400);
+  }
+  if (quantity !== undefined && await hasVariants(db, id)) {
+    return c.json({ error: 'Stock for this product is set on each of its variants' }, 400);
   }
 
   if (availability !== undefined) {
-    updateData.availability = availability;
+    await db
+      .update(products)
+      .set({ availability, updatedAt: new Date().toISOString() })
+      .where(eq(products.id, id))
+      .run();
   }
 
-  // Auto-availability logic
-  const newQuantity = quantity ?? existing.quantity;
-  if (newQuantity <= 0 && !existing.continueSelling) {
-    updateData.availability = 'Sold out';
-  } else if (newQuantity > 0 && existing.availability === 'Sold out') {
-    updateData.availability = 'In stock';
-  }
+  // Setting stock also keeps availability in step with it
+  await setStock(db, {
+    productId: id,
+    quantity: quantity ?? existing.quantity,
+    type: 'adjustment',
+    note: reason ? String(reason) : 'Stock count edited',
+    user,
+  });
 
-  await db
-    .update(products)
-    .set(updateData)
-    .where(eq(products.id, id))
-    .run();
+  const waitlistNotified = await notifyIfRestocked(c.env, db, id, existing);
 
   const updated = await db
-    .select({
-      id: products.id,
-      name: products.name,
-      image: products.image,
-      productType: products.productType,
-      status: products.status,
-      price: products.price,
-      quantity: products.quantity,
-      trackInventory: products.trackInventory,
-      continueSelling: products.continueSelling,
-      availability: products.availability,
-    })
+    .select(stockFields)
     .from(products)
     .where(eq(products.id, id))
     .get();
 
-  return c.json(updated);
+  return c.json({ ...updated, waitlistNotified });
 });
 
 // ─── POST /:id/adjust — Adjust stock (add/subtract) ──────
+// type says why: restock and return add stock, damaged removes it, and a
+// plain adjustment can go either way. The reason is kept as the note.
 inventoryRoutes.post('/:id/adjust', async (c) => {
   const db = c.get('db');
   const id = c.req.param('id');
+  const user = c.get('user');
   const body = await c.req.json();
   const { adjustment, reason } = body;
+  const type: MovementType = body.type || 'adjustment';
 
-  if (typeof adjustment !== 'number') {
-    return c.json({ error: 'adjustment must be a number' }, 400);
+  if (typeof adjustment !== 'number' || !Number.isInteger(adjustment) || adjustment === 0) {
+    return c.json({ error: 'adjustment must be a whole number other than 0' }, 400);
+  }
+  if (!MOVEMENT_TYPES.includes(type) || type === 'sale' || type === 'stocktake') {
+    return c.json({ error: 'type must be adjustment, restock, return or damaged' }, 400);
+  }
+  if ((type === 'restock' || type === 'return') && adjustment < 0) {
+    return c.json({ error: `A ${type} adds stock` }, 400);
+  }
+  if (type === 'damaged' && adjustment > 0) {
+    return c.json({ error: 'Damaged stock is removed from stock' }, 400);
   }
 
   const existing = await db
@@ -199,44 +502,91 @@ inventoryRoutes.post('/:id/adjust', async (c) => {
     return c.json({ error: 'Product not found' }, 404);
   }
 
-  // Calculate new quantity, don't allow below 0
-  const newQuantity = Math.max(0, existing.quantity + adjustment);
-  const now = new Date().toISOString();
-
-  const updateData: Record<string, any> = {
-    quantity: newQuantity,
-    updatedAt: now,
-  };
-
-  // Auto-availability logic
-  if (newQuantity <= 0 && !existing.continueSelling) {
-    updateData.availability = 'Sold out';
-  } else if (newQuantity > 0 && existing.availability === 'Sold out') {
-    updateData.availability = 'In stock';
+  // Products with options are adjusted per variant
+  const variantId = body.variantId ? String(body.variantId) : null;
+  if (variantId) {
+    const variant = await db.select({ id: productVariants.id }).from(productVariants)
+      .where(and(eq(productVariants.id, variantId), eq(productVariants.productId, id)))
+      .get();
+    if (!variant) {
+      return c.json({ error: 'Variant not found' }, 404);
+    }
+  } else if (await hasVariants(db, id)) {
+    return c.json({ error: 'Choose which variant to adjust' }, 400);
   }
 
-  await db
-    .update(products)
-    .set(updateData)
-    .where(eq(products.id, id))
-    .run();
+  await changeStock(db, {
+    productId: id,
+    variantId,
+    change: adjustment,
+    type,
+    note: reason ? String(reason) : null,
+    user,
+  });
+
+  const waitlistNotified = await notifyIfRestocked(c.env, db, id, existing);
 
   const updated = await db
-    .select({
-      id: products.id,
-      name: products.name,
-      image: products.image,
-      productType: products.productType,
-      status: products.status,
-      price: products.price,
-      quantity: products.quantity,
-      trackInventory: products.trackInventory,
-      continueSelling: products.continueSelling,
-      availability: products.availability,
-    })
+    .select(stockFields)
     .from(products)
     .where(eq(products.id, id))
     .get();
 
-  return c.json(updated);
+  return c.json({ ...updated, waitlistNotified });
+});
+
+// ─── PATCH /:id/threshold — Set low-stock thresholds ─────
+// lowStockThreshold applies to the product; variants: { [variantId]: n }
+// overrides it per variant. null falls back (variant → product → shop).
+inventoryRoutes.patch('/:id/threshold', async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+  const user = c.get('user');
+  const body = await c.req.json();
+
+  const existing = await db.select().from(products).where(eq(products.id, id)).get();
+  if (!existing) {
+    return c.json({ error: 'Product not found' }, 404);
+  }
+
+  const isValid = (value: unknown) => value === null || value === '' || parseThreshold(value) !== null;
+  if (body.lowStockThreshold !== undefined && !isValid(body.lowStockThreshold)) {
+    return c.json({ error: 'lowStockThreshold must be a whole number of at least 0' }, 400);
+  }
+  const variantThresholds: Record<string, unknown> = body.variants && typeof body.variants === 'object' ? body.variants : {};
+  for (const value of Object.values(variantThresholds)) {
+    if (!isValid(value)) {
+      return c.json({ error: 'Variant thresholds must be whole numbers of at least 0' }, 400);
+    }
+  }
+
+  const now = new Date().toISOString();
+  const lowStockThreshold = body.lowStockThreshold !== undefined
+    ? parseThreshold(body.lowStockThreshold)
+    : existing.lowStockThreshold;
+  await db.update(products)
+    .set({ lowStockThreshold, updatedAt: now })
+    .where(eq(products.id, id));
+  for (const [variantId, value] of Object.entries(variantThresholds)) {
+    await db.update(productVariants)
+      .set({ lowStockThreshold: parseThreshold(value), updatedAt: now })
+      .where(and(eq(productVariants.id, variantId), eq(productVariants.productId, id)));
+  }
+
+  await logActivity(db, 'update', 'product', existing, user, {
+    lowStockThreshold: { old: existing.lowStockThreshold, new: lowStockThreshold },
+  });
+
+  const variants = await db.select({
+    id: productVariants.id,
+    title: productVariants.title,
+    quantity: productVariants.quantity,
+    lowStockThreshold: productVariants.lowStockThreshold,
+  })
+    .from(productVariants)
+    .where(eq(productVariants.productId, id))
+    .orderBy(asc(productVariants.sortOrder))
+    .all();
+
+  return c.json({ lowStockThreshold, variants });
 });
@@ -1,7 +1,9 @@
 import { Hono } from 'hono';
 import { eq, desc, asc, sql, and, or, count } from 'drizzle-orm';
-import { learnItems, workshopRevisions } from '../db/schema';
+import { learnItems, workshopRevisions, cohorts } from '../db/schema';
 import { logActivity } from '../utils/activityLog';
+import { currentCohortPrice, cohortSpotsLeft, cohortWaitlistOpen } from '../utils/services';
+import { parseScheduleDate } from '../utils/publishing';
 import { adminAuth } from '../middleware/auth';
 import type { Bindings, Variables } from '../index';
 
@@ -162,6 +164,65 @@ learnRoutes.get('/:idOrSlug', async (c) => {
   return c.json(item);
 });
 
+// ─── GET /:idOrSlug/cohorts — Upcoming dates open for booking (public) ─
+
+learnRoutes.get('/:idOrSlug/cohorts', async (c) => {
+  const db = c.get('db');
+  const idOrSlug = c.req.param('idOrSlug');
+
+  const item = await db
+    .select()
+    .from(learnItems)
+    .where(and(
+      or(eq(learnItems.id, idOrSlug), eq(learnItems.slug, idOrSlug)),
+      eq(learnItems.status, 'published'),
+    ))
+    .get();
+
+  if (!item) {
+    return c.json({ error: 'Learn item not found' }, 404);
+  }
+
+  const now = new Date().toISOString();
+  const rows = await db
+    .select()
+    .from(cohorts)
+    .where(and(
+      eq(cohorts.learnItemId, item.id),
+      eq(cohorts.status, 'open'),
+      sql`(${cohorts.registrationClosesAt} IS NULL OR ${cohorts.registrationClosesAt} > ${now})`,
+    ))
+    .orderBy(asc(cohorts.startAt))
+    .all();
+
+  return c.json(rows.map((cohort) => {
+    const price = currentCohortPrice(cohort, item, now);
+    const regularPrice = cohort.price || item.priceAmount;
+    const spotsLeft = cohortSpotsLeft(cohort);
+
+    return {
+      id: cohort.id,
+      title: cohort.title,
+      slug: cohort.slug,
+      description: cohort.description,
+      startAt: cohort.startAt,
+      endAt: cohort.endAt,
+      timezone: cohort.timezone,
+      deliveryMode: cohort.deliveryMode || item.deliveryMode,
+      locationLabel: cohort.locationLabel || item.locationLabel,
+      price,
+      compareAtPrice: cohort.compareAtPrice || (price !== regularPrice ? regularPrice : null),
+      earlyBird: !!cohort.earlyBirdPrice && price === cohort.earlyBirdPrice,
+      earlyBirdEndsAt: cohort.earlyBirdEndsAt,
+      currency: cohort.currency,
+      registrationOpensAt: cohort.registrationOpensAt,
+      spotsLeft,
+      full: spotsLeft === 0,
+      waitlistOpen: spotsLeft === 0 && cohortWaitlistOpen(cohort),
+    };
+  }));
+});
+
 // ─── POST / — Create item (admin only) ─────────────────
 
 learnRoutes.post('/', adminAuth, async (c) => {
@@ -293,7 +354,7 @@ learnRoutes.put('/:id', adminAuth, async (c) => {
     'status', 'summary', 'contentHtml', 'contentJson', 'coverImageUrl',
     'capacity', 'deliveryMode', 'locationLabel', 'startAt', 'endAt',
     'timezone', 'ticketingUrl', 'evergreen', 'seoTitle', 'seoDescription',
-    'ogImageUrl', 'canonicalUrl', 'tags', 'publishedAt', 'scheduledAt',
+    'ogImageUrl', 'canonicalUrl', 'tags', 'publishedAt', 'scheduledAt', 'archiveAt',
   ];
 
   for (const field of allowedFields) {
@@ -382,6 +443,11 @@ learnRoutes.post('/:id/schedule', adminAuth, async (c) => {
     return c.json({ error: 'scheduledAt is required' }, 400);
   }
 
+  const schedule = parseScheduleDate(body.scheduledAt, 'Scheduled date');
+  if (schedule.error) {
+    return c.json({ error: schedule.error }, 400);
+  }
+
   const existing = await db.select().from(learnItems).where(eq(learnItems.id, id)).get();
   if (!existing) {
     return c.json({ error: 'Learn item not found' }, 404);
@@ -390,7 +456,7 @@ learnRoutes.post('/:id/schedule', adminAuth, async (c) => {
   const item = await db.update(learnItems)
     .set({
       status: 'scheduled',
-      scheduledAt: body.scheduledAt,
+      scheduledAt: schedule.date,
       updatedAt: new Date().toISOString(),
     })
     .where(eq(learnItems.id, id))
@@ -419,6 +485,7 @@ learnRoutes.post('/:id/archive', adminAuth, async (c) => {
       status: 'archived',
       archived: true,
       scheduledAt: null,
+      archiveAt: null,
       updatedAt: new Date().toISOString(),
     })
     .where(eq(learnItems.id, id))
@@ -3,8 +3,12 @@ import { eq, desc, and, sql, gte, lte } from 'drizzle-orm';
 import { subscribers, emailDrafts, sentEmails, subscriberTags, emailEvents } from '../db/schema';
 import { logActivity } from '../utils/activityLog';
 import { adminAuth } from '../middleware/auth';
-import { sendEmail, sendBulkNewsletter } from '../utils/email';
+import { sendBulkNewsletter } from '../utils/email';
+import { deliverEmail } from '../utils/emailGateway';
 import { triggerAutomation } from '../utils/automations';
+import {
+  verifyPreferenceToken, getPreferences, unsubscribeAddress, recordPreferenceChange, EMAIL_FREQUENCIES, PAUSE_DAYS,
+} from '../utils/preferences';
 import type { Bindings, Variables } from '../index';
 
 export const newsletterRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
@@ -52,22 +56,100 @@ newsletterRoutes.post('/subscribe', async (c) => {
   return c.json({ success: true }, 201);
 });
 
-// POST /api/newsletter/unsubscribe - Public unsubscription
+// POST /api/newsletter/unsubscribe - Public unsubscription, with a signed token from an email
 newsletterRoutes.post('/unsubscribe', async (c) => {
   const db = c.get('db');
-  const { email } = await c.req.json();
+  const { token } = await c.req.json().catch(() => ({}));
 
-  await db.update(subscribers)
-    .set({
-      subscribed: false,
-      unsubscribedAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    })
-    .where(eq(subscribers.email, email));
+  const payload = await verifyPreferenceToken(c.env, token);
+  if (!payload) return c.json({ error: 'This link is invalid' }, 400);
 
+  await unsubscribeAddress(db, payload.email, payload.campaignId);
   return c.json({ success: true });
 });
 
+// POST /api/newsletter/unsubscribe/:token - RFC 8058 one-click unsubscribe (List-Unsubscribe-Post)
+newsletterRoutes.post('/unsubscribe/:token', async (c) => {
+  const db = c.get('db');
+
+  const payload = await verifyPreferenceToken(c.env, c.req.param('token'));
+  if (!payload) return c.json({ error: 'This link is invalid' }, 400);
+
+  await unsubscribeAddress(db, payload.email, payload.campaignId);
+  return c.json({ success: true });
+});
+
+// GET /api/newsletter/preferences/:token - Preference centre for the address in the token
+newsletterRoutes.get('/preferences/:token', async (c) => {
+  const db = c.get('db');
+
+  const payload = await verifyPreferenceToken(c.env, c.req.param('token'));
+  if (!payload) return c.json({ error: 'This link is invalid' }, 400);
+
+  return c.json(await getPreferences(db, payload.email));
+});
+
+// PUT /api/newsletter/preferences/:token - Update topics, frequency, pause or subscription
+newsletterRoutes.put('/preferences/:token', async (c) => {
+  const db = c.get('db');
+  const body = await c.req.json();
+
+  const payload = await verifyPreferenceToken(c.env, c.req.param('token'));
+  if (!payload) return c.json({ error: 'This link is invalid' }, 400);
+  const { email, campaignId } = payload;
+
+  if (body.subscribed === false) {
+    await unsubscribeAddress(db, email, campaignId);
+    return c.json(await getPreferences(db, email));
+  }
+
+  const subscriber = await db.select().from(subscribers).where(eq(subscribers.email, email)).get();
+  if (!subscriber) return c.json({ error: 'This address is not subscribed' }, 404);
+
+  const now = new Date().toISOString();
+  const updates: Record<string, any> = { updatedAt: now };
+  const changes: string[] = [];
+
+  if (body.subscribed === true && !subscriber.subscribed) {
+    updates.subscribed = true;
+    updates.subscribedAt = now;
+    updates.unsubscribedAt = null;
+  }
+
+  if (body.frequency !== undefined && body.frequency !== subscriber.emailFrequency) {
+    if (!EMAIL_FREQUENCIES.includes(body.frequency)) return c.json({ error: 'Invalid frequency' }, 400);
+    updates.emailFrequency = body.frequency;
+    changes.push(`frequency:${body.frequency}`);
+  }
+
+  if (body.pause === true) {
+    updates.pausedUntil = new Date(Date.now() + PAUSE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    changes.push('paused');
+  } else if (body.pause === false && subscriber.pausedUntil) {
+    updates.pausedUntil = null;
+  }
+
+  if (Array.isArray(body.topics)) {
+    // Only tags offered as topics can be changed here; any others are kept
+    const offered = new Set((await db.select({ name: subscriberTags.name }).from(subscriberTags).all()).map(t => t.name));
+    const current = (subscriber.tags as string[]) || [];
+    const chosen = body.topics.filter((t: string) => offered.has(t));
+    const tags = [...current.filter(t => !offered.has(t)), ...chosen];
+    const dropped = current.filter(t => offered.has(t) && !chosen.includes(t));
+    if (dropped.length > 0 || chosen.some((t: string) => !current.includes(t))) {
+      updates.tags = tags;
+      if (dropped.length > 0) changes.push(`topics:-${dropped.join(',')}`);
+    }
+  }
+
+  await db.update(subscribers).set(updates).where(eq(subscribers.id, subscriber.id));
+  for (const change of changes) {
+    await recordPreferenceChange(db, email, campaignId, change);
+  }
+
+  return c.json(await getPreferences(db, email));
+});
+
 // GET /api/newsletter/subscribers - List subscribers (admin only)
 newsletterRoutes.get('/subscribers', adminAuth, async (c) => {
   const db = c.get('db');
@@ -630,7 +712,7 @@ newsletterRoutes.post('/send', adminAuth, async (c) => {
 
   // Send via Resend
   const baseUrl = env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
-  const result = await sendBulkNewsletter(env, sentRecord.id, subject, preheader, bodyHtml, recipientEmails, baseUrl);
+  const result = await sendBulkNewsletter(env, db, sentRecord.id, subject, preheader, bodyHtml, recipientEmails, baseUrl);
 
   // Update subscribers' lastEmailedAt and emailsReceived
   const now = new Date().toISOString();
@@ -657,22 +739,32 @@ newsletterRoutes.post('/send', adminAuth, async (c) => {
     recipientCount: recipientEmails.length,
     sent: result.sent,
     failed: result.failed,
+    skipped: result.skipped,
   });
 });
 
 // POST /api/newsletter/send-test - Send test email (admin only)
 newsletterRoutes.post('/send-test', adminAuth, async (c) => {
   const env = c.env;
+  const db = c.get('db');
   const { email, subject, bodyHtml } = await c.req.json();
 
   if (!email || !subject || !bodyHtml) {
     return c.json({ error: 'email, subject, and bodyHtml are required' }, 400);
   }
 
-  try {
-    await sendEmail(env, email, `[TEST] ${subject}`, bodyHtml);
-    return c.json({ success: true });
-  } catch (err: any) {
-    return c.json({ error: err.message || 'Failed to send test email' }, 500);
+  const result = await deliverEmail(env, db, {
+    to: email,
+    subject: `[TEST] ${subject}`,
+    html: bodyHtml,
+    category: 'transactional',
+    kind: 'test',
+  });
+  if (result.status === 'skipped') {
+    return c.json({ error: `${email} can't be emailed: it's on the suppression list` }, 400);
   }
+  if (result.status === 'failed') {
+    return c.json({ error: result.error || 'Failed to send test email' }, 500);
+  }
+  return c.json({ success: true });
 });
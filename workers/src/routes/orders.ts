@@ -1,7 +1,22 @@
 import { Hono } from 'hono';
-import { eq, desc, asc, and, sql } from 'drizzle-orm';
-import { orders, orderItems } from '../db/schema';
+import { eq, desc, asc, and, sql, inArray } from 'drizzle-orm';
+import type Stripe from 'stripe';
+import { orders, orderItems, refunds, refundItems, customerUsers, giftCards } from '../db/schema';
 import { logActivity } from '../utils/activityLog';
+import { fireOrderAutomations, isFulfilmentTransition } from '../utils/orders';
+import { getStripe } from './checkout';
+import {
+  REFUND_REASONS,
+  toStripeReason,
+  toRefundStatus,
+  restockOrderItem,
+  recalculateOrderRefunds,
+  type RefundReason,
+} from '../utils/refunds';
+import { notifyIfRestocked } from '../utils/waitlist';
+import { creditGiftCard } from '../utils/giftCards';
+import { getTaxSettings } from '../utils/tax';
+import { renderTaxInvoice, invoiceNumber } from '../utils/invoice';
 import { adminAuth } from '../middleware/auth';
 import type { Bindings, Variables } from '../index';
 
@@ -276,6 +291,10 @@ ordersRoutes.post('/bulk', async (c) => {
         bulk: true,
       });
 
+      if (isFulfilmentTransition(existing.status, newStatus)) {
+        await fireOrderAutomations(db, { ...existing, ...updateData }, ['order_fulfilled_or_delivered']);
+      }
+
       results.updated++;
     } catch (err: any) {
       results.failed++;
@@ -307,7 +326,248 @@ ordersRoutes.get('/:id', async (c) => {
     .where(eq(orderItems.orderId, id))
     .all();
 
-  return c.json({ order, items });
+  const orderRefunds = await db
+    .select()
+    .from(refunds)
+    .where(eq(refunds.orderId, id))
+    .orderBy(desc(refunds.createdAt))
+    .all();
+
+  const customer = order.userId
+    ? await db
+        .select({
+          id: customerUsers.id,
+          email: customerUsers.email,
+          firstName: customerUsers.firstName,
+          lastName: customerUsers.lastName,
+          authProvider: customerUsers.authProvider,
+        })
+        .from(customerUsers)
+        .where(eq(customerUsers.id, order.userId))
+        .get()
+    : null;
+
+  const refundLines = orderRefunds.length > 0
+    ? await db
+        .select()
+        .from(refundItems)
+        .where(inArray(refundItems.refundId, orderRefunds.map((r) => r.id)))
+        .all()
+    : [];
+
+  return c.json({
+    order,
+    items,
+    customer,
+    refunds: orderRefunds.map((r) => ({
+      ...r,
+      items: refundLines.filter((l) => l.refundId === r.id),
+    })),
+  });
+});
+
+// ─── GET /:id/invoice — Printable tax invoice (HTML) ─────
+ordersRoutes.get('/:id/invoice', async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+
+  const order = await db
+    .select()
+    .from(orders)
+    .where(eq(orders.id, id))
+    .get();
+
+  if (!order) {
+    return c.json({ error: 'Order not found' }, 404);
+  }
+
+  const items = await db
+    .select()
+    .from(orderItems)
+    .where(eq(orderItems.orderId, id))
+    .all();
+
+  const html = renderTaxInvoice(order, items, await getTaxSettings(db));
+
+  return new Response(html, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Content-Disposition': `inline; filename="${invoiceNumber(order)}.html"`,
+    },
+  });
+});
+
+// ─── POST /:id/refunds — Refund line items and/or an amount via Stripe and the gift card ──
+ordersRoutes.post('/:id/refunds', async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+  const user = c.get('user');
+  const body = await c.req.json();
+
+  const order = await db
+    .select()
+    .from(orders)
+    .where(eq(orders.id, id))
+    .get();
+
+  if (!order) {
+    return c.json({ error: 'Order not found' }, 404);
+  }
+
+  if (order.paymentStatus !== 'paid' && order.paymentStatus !== 'partially_refunded') {
+    return c.json({ error: 'Only paid orders can be refunded' }, 400);
+  }
+
+  const reason: RefundReason = REFUND_REASONS.includes(body.reason) ? body.reason : 'requested_by_customer';
+  const restock = body.restock === true;
+
+  const items = await db
+    .select()
+    .from(orderItems)
+    .where(eq(orderItems.orderId, id))
+    .all();
+
+  // Validate requested lines against what is still refundable
+  const lines: Array<{ item: typeof items[number]; quantity: number; amountCents: number }> = [];
+  for (const requested of Array.isArray(body.items) ? body.items : []) {
+    const quantity = parseInt(requested?.quantity) || 0;
+    if (quantity <= 0) continue;
+
+    const item = items.find((i) => i.id === requested.orderItemId);
+    if (!item) {
+      return c.json({ error: 'Order item not found' }, 400);
+    }
+
+    const remaining = item.quantity - item.refundedQuantity;
+    if (quantity > remaining) {
+      return c.json({ error: `Only ${remaining} of ${item.productName} can be refunded` }, 400);
+    }
+
+    // Refund what was paid: less the line's discount share, plus exclusive tax charged on top
+    let amountCents = Math.round(parseFloat(item.price) * 100) * quantity
+      - Math.round(Math.round(parseFloat(item.discount) * 100) * quantity / item.quantity);
+    if (!order.taxInclusive) {
+      amountCents += Math.round(Math.round(parseFloat(item.tax) * 100) * quantity / item.quantity);
+    }
+
+    lines.push({ item, quantity, amountCents });
+  }
+
+  const shippingCents = Math.round((parseFloat(body.shippingAmount) || 0) * 100);
+  if (shippingCents < 0 || shippingCents > Math.round(parseFloat(order.shipping) * 100)) {
+    return c.json({ error: 'Shipping refund cannot exceed the shipping charged' }, 400);
+  }
+
+  // An explicit amount overrides the line total (e.g. goodwill partial refunds)
+  const amountCents = body.amount !== undefined && body.amount !== null && body.amount !== ''
+    ? Math.round(parseFloat(body.amount) * 100)
+    : lines.reduce((sum, l) => sum + l.amountCents, 0) + shippingCents;
+
+  // What's left on the Stripe charge, then what's left of the part paid by gift card
+  const stripeRefundableCents = order.stripePaymentIntentId
+    ? Math.round(parseFloat(order.total) * 100) - Math.round(parseFloat(order.refundedAmount) * 100)
+    : 0;
+  const giftCardRefundableCents = order.giftCardCode
+    ? Math.round(parseFloat(order.giftCardAmount) * 100) - Math.round(parseFloat(order.giftCardRefundedAmount) * 100)
+    : 0;
+  const refundableCents = stripeRefundableCents + giftCardRefundableCents;
+  if (!amountCents || amountCents <= 0) {
+    return c.json({ error: 'Refund amount must be greater than zero' }, 400);
+  }
+  if (amountCents > refundableCents) {
+    return c.json({ error: `Refund cannot exceed $${(refundableCents / 100).toFixed(2)}` }, 400);
+  }
+
+  // The Stripe charge is refunded first; whatever it can't cover goes back on the gift card
+  const stripeCents = Math.min(amountCents, stripeRefundableCents);
+  const giftCardCents = amountCents - stripeCents;
+  const card = giftCardCents > 0 && order.giftCardCode
+    ? await db.select().from(giftCards).where(eq(giftCards.code, order.giftCardCode)).get()
+    : null;
+  if (giftCardCents > 0 && !card) {
+    return c.json({ error: 'The gift card this order was paid with no longer exists' }, 400);
+  }
+
+  // Record the refund first so the charge.refunded webhook can match it
+  const refund = await db.insert(refunds).values({
+    orderId: id,
+    amount: (stripeCents / 100).toFixed(2),
+    giftCardAmount: (giftCardCents / 100).toFixed(2),
+    reason,
+    note: body.note || null,
+    status: stripeCents > 0 ? 'pending' : 'succeeded',
+    source: 'admin',
+    restocked: restock && lines.length > 0,
+    createdBy: user?.name || user?.email || null,
+  }).returning().get();
+
+  for (const line of lines) {
+    await db.insert(refundItems).values({
+      refundId: refund.id,
+      orderItemId: line.item.id,
+      quantity: line.quantity,
+      amount: (line.amountCents / 100).toFixed(2),
+    });
+    await db.update(orderItems)
+      .set({ refundedQuantity: line.item.refundedQuantity + line.quantity })
+      .where(eq(orderItems.id, line.item.id));
+  }
+
+  if (stripeCents > 0) {
+    let stripeRefund: Stripe.Refund;
+    try {
+      const stripe = getStripe(c.env.STRIPE_SECRET_KEY);
+      stripeRefund = await stripe.refunds.create({
+        payment_intent: order.stripePaymentIntentId!,
+        amount: stripeCents,
+        reason: toStripeReason(reason),
+        metadata: { orderId: id, refundId: refund.id, orderNumber: order.orderNumber },
+      }, { idempotencyKey: `refund-${refund.id}` });
+    } catch (err: any) {
+      // Roll back so the lines stay refundable
+      for (const line of lines) {
+        await db.update(orderItems)
+          .set({ refundedQuantity: line.item.refundedQuantity })
+          .where(eq(orderItems.id, line.item.id));
+      }
+      await db.delete(refunds).where(eq(refunds.id, refund.id));
+      console.error('Stripe refund failed:', err.message);
+      return c.json({ error: err.message || 'Stripe refund failed' }, 502);
+    }
+
+    await db.update(refunds).set({
+      stripeRefundId: stripeRefund.id,
+      status: toRefundStatus(stripeRefund.status),
+      updatedAt: new Date().toISOString(),
+    }).where(eq(refunds.id, refund.id));
+  }
+
+  if (card) {
+    await creditGiftCard(db, card.id, giftCardCents, {
+      type: 'refund',
+      orderId: id,
+      note: `Refunded on ${order.orderNumber}`,
+    });
+  }
+
+  if (restock) {
+    for (const line of lines) {
+      const before = await restockOrderItem(db, line.item, line.quantity, { note: `Refunded on ${order.orderNumber}`, user });
+      if (before) await notifyIfRestocked(c.env, db, before.id, before);
+    }
+  }
+
+  const updated = await recalculateOrderRefunds(db, id);
+
+  await logActivity(db, 'update', 'order', updated, user, {
+    refundedAmount: { old: order.refundedAmount, new: updated.refundedAmount },
+    giftCardRefundedAmount: { old: order.giftCardRefundedAmount, new: updated.giftCardRefundedAmount },
+    paymentStatus: { old: order.paymentStatus, new: updated.paymentStatus },
+  });
+
+  const saved = await db.select().from(refunds).where(eq(refunds.id, refund.id)).get();
+  return c.json({ order: updated, refund: saved }, 201);
 });
 
 // ─── PATCH /:id/status — Update order status ─────────────
@@ -363,6 +623,10 @@ ordersRoutes.patch('/:id/status', async (c) => {
     status: { old: existing.status, new: newStatus },
   });
 
+  if (isFulfilmentTransition(existing.status, newStatus)) {
+    await fireOrderAutomations(db, updated, ['order_fulfilled_or_delivered']);
+  }
+
   return c.json(updated);
 });
 
@@ -1,8 +1,12 @@
 import { Hono } from 'hono';
-import { eq, desc, and, or, like, isNull, ne, sql, asc } from 'drizzle-orm';
-import { products, productMedia, slugRedirects, waitlist } from '../db/schema';
+import { eq, desc, and, or, like, isNull, ne, sql, asc, inArray } from 'drizzle-orm';
+import { products, productMedia, productOptions, productVariants, slugRedirects } from '../db/schema';
 import { logActivity } from '../utils/activityLog';
-import { sendEmail } from '../utils/email';
+import { syncProductStockFromVariants } from '../utils/variants';
+import { recordMovement, parseThreshold } from '../utils/inventory';
+import { notifyIfRestocked } from '../utils/waitlist';
+import { getActivePromotions, productPromotion } from '../utils/promotions';
+import { validateForPublish, parseScheduleDate } from '../utils/publishing';
 import { adminAuth } from '../middleware/auth';
 import type { Bindings, Variables } from '../index';
 
@@ -31,24 +35,6 @@ async function resolveUniqueSlug(db: any, baseSlug: string, excludeId?: string):
   }
 }
 
-function validateForPublish(product: any): { valid: boolean; errors: string[]; warnings: string[] } {
-  const errors: string[] = [];
-  const warnings: string[] = [];
-
-  if (!product.name?.trim()) errors.push('Name is required');
-  if (!product.price || parseFloat(product.price) <= 0) errors.push('Price must be greater than $0');
-  if (!product.category?.trim()) errors.push('Category is required');
-  if (!product.shortDescription?.trim()) errors.push('Short description is required');
-  if (!product.image?.trim()) errors.push('At least one image is required');
-  if (!product.slug?.trim()) errors.push('URL slug is required');
-
-  if (!product.metaDescription) warnings.push('No meta description set (SEO)');
-  if (!product.longDescription) warnings.push('Long description is empty');
-  if (!product.compareAtPrice) warnings.push('No compare-at price set');
-
-  return { valid: errors.length === 0, errors, warnings };
-}
-
 const VALID_TRANSITIONS: Record<string, string[]> = {
   draft: ['active', 'scheduled', 'archived'],
   scheduled: ['draft', 'active'],
@@ -122,6 +108,17 @@ productsRoutes.get('/', async (c) => {
     db.select({ count: sql<number>`count(*)` }).from(products).where(where).get(),
   ]);
 
+  // Flag products that must be bought as a variant (storefront links to the detail page)
+  const variantRows = result.length > 0
+    ? await db.selectDistinct({ productId: productVariants.productId }).from(productVariants)
+        .where(and(inArray(productVariants.productId, result.map((p: any) => p.id)), eq(productVariants.active, true)))
+        .all()
+    : [];
+  const withVariants = new Set(variantRows.map((r: any) => r.productId));
+
+  // Running automatic promotions show as a label and sale price on each product
+  const promotions = result.length > 0 ? await getActivePromotions(db) : [];
+
   // Compute stats for admin dashboard tiles (only when admin requests drafts/archived)
   let stats = undefined;
   if (includeDrafts || includeArchived) {
@@ -165,7 +162,11 @@ productsRoutes.get('/', async (c) => {
   }
 
   return c.json({
-    products: result,
+    products: result.map((p: any) => ({
+      ...p,
+      hasVariants: withVariants.has(p.id),
+      promotion: productPromotion(promotions, p),
+    })),
     pagination: {
       page,
       limit,
@@ -207,7 +208,7 @@ productsRoutes.post('/bulk', adminAuth, async (c) => {
     try {
       if (action === 'archive') {
         await db.update(products).set({
-          status: 'archived', archived: true, updatedAt: new Date().toISOString(),
+          status: 'archived', archived: true, archiveAt: null, updatedAt: new Date().toISOString(),
         }).where(and(eq(products.id, id), isNull(products.deletedAt)));
       } else if (action === 'publish') {
         const product = await db.select().from(products).where(eq(products.id, id)).get();
@@ -215,7 +216,7 @@ productsRoutes.post('/bulk', adminAuth, async (c) => {
           const validation = validateForPublish(product);
           if (validation.valid) {
             await db.update(products).set({
-              status: 'active', archived: false, updatedAt: new Date().toISOString(),
+              status: 'active', archived: false, scheduledFor: null, updatedAt: new Date().toISOString(),
               publishedAt: product.publishedAt || new Date().toISOString(),
             }).where(eq(products.id, id));
           } else {
@@ -226,7 +227,7 @@ productsRoutes.post('/bulk', adminAuth, async (c) => {
         }
       } else if (action === 'draft') {
         await db.update(products).set({
-          status: 'draft', archived: false, updatedAt: new Date().toISOString(),
+          status: 'draft', archived: false, scheduledFor: null, updatedAt: new Date().toISOString(),
         }).where(and(eq(products.id, id), isNull(products.deletedAt)));
       } else if (action === 'delete') {
         await db.update(products).set({
@@ -234,8 +235,10 @@ productsRoutes.post('/bulk', adminAuth, async (c) => {
           updatedAt: new Date().toISOString(),
         }).where(and(eq(products.id, id), ne(products.status, 'active'), isNull(products.deletedAt)));
       } else if (action === 'update' && fields) {
+        // Stock only changes through paths that record it in the inventory ledger
+        const { quantity: _quantity, ...updates } = fields;
         await db.update(products).set({
-          ...fields, updatedAt: new Date().toISOString(),
+          ...updates, updatedAt: new Date().toISOString(),
         }).where(and(eq(products.id, id), isNull(products.deletedAt)));
       }
       results.updated++;
@@ -284,7 +287,24 @@ productsRoutes.get('/:idOrSlug', async (c) => {
     .where(eq(productMedia.productId, product.id))
     .orderBy(asc(productMedia.sortOrder)).all();
 
-  return c.json({ ...product, media });
+  // Fetch option definitions and variants
+  const [options, variants, promotions] = await Promise.all([
+    db.select().from(productOptions)
+      .where(eq(productOptions.productId, product.id))
+      .orderBy(asc(productOptions.sortOrder)).all(),
+    db.select().from(productVariants)
+      .where(eq(productVariants.productId, product.id))
+      .orderBy(asc(productVariants.sortOrder)).all(),
+    getActivePromotions(db),
+  ]);
+
+  return c.json({
+    ...product,
+    media,
+    options,
+    variants,
+    promotion: productPromotion(promotions, product, variants),
+  });
 });
 
 // ============================================
@@ -309,6 +329,7 @@ productsRoutes.post('/', adminAuth, async (c) => {
     costPrice: body.costPrice || null,
     currency: body.currency || 'AUD',
     taxable: body.taxable !== false,
+    giftCardDenominations: body.giftCardDenominations || null,
     shortDescription: body.shortDescription || '',
     longDescription: body.longDescription || '',
     careDescription: body.careDescription || null,
@@ -331,6 +352,17 @@ productsRoutes.post('/', adminAuth, async (c) => {
     displayOrder: body.displayOrder || 0,
   }).returning().get();
 
+  if (result.trackInventory) {
+    await recordMovement(db, {
+      productId: result.id,
+      type: 'adjustment',
+      quantityChange: result.quantity,
+      quantityAfter: result.quantity,
+      note: 'Opening stock',
+      user,
+    });
+  }
+
   await logActivity(db, 'create', 'product', result, user);
 
   return c.json(result, 201);
@@ -374,6 +406,29 @@ productsRoutes.put('/:id', adminAuth, async (c) => {
     delete body.productType;
   }
 
+  // Stock for products with variants is the sum of variant stock
+  const variantCount = await db.select({ count: sql<number>`count(*)` }).from(productVariants)
+    .where(eq(productVariants.productId, id)).get();
+  if (variantCount?.count) {
+    delete body.quantity;
+  }
+
+  if (body.lowStockThreshold !== undefined) {
+    body.lowStockThreshold = parseThreshold(body.lowStockThreshold);
+  }
+
+  if (body.archiveAt !== undefined && body.archiveAt !== null && body.archiveAt !== current.archiveAt) {
+    if (body.archiveAt === '') {
+      body.archiveAt = null;
+    } else {
+      const archive = parseScheduleDate(body.archiveAt, 'Archive date');
+      if (archive.error) {
+        return c.json({ error: archive.error }, 400);
+      }
+      body.archiveAt = archive.date;
+    }
+  }
+
   // Auto-update availability based on inventory
   if (body.quantity !== undefined && current.trackInventory && !current.continueSelling) {
     if (body.quantity <= 0 && current.availability !== 'Sold out') {
@@ -389,10 +444,10 @@ productsRoutes.put('/:id', adminAuth, async (c) => {
 
   const allowedFields = [
     'name', 'slug', 'productType', 'price', 'compareAtPrice', 'costPrice',
-    'currency', 'taxable', 'shortDescription', 'longDescription', 'careDescription', 'category',
+    'currency', 'taxable', 'giftCardDenominations', 'shortDescription', 'longDescription', 'careDescription', 'category',
     'tags', 'badge', 'materials', 'colours', 'weightGrams', 'dimensions', 'trackInventory', 'quantity',
-    'continueSelling', 'availability', 'image', 'detailImages', 'metaTitle',
-    'metaDescription', 'ogImage', 'displayOrder',
+    'continueSelling', 'availability', 'lowStockThreshold', 'image', 'detailImages', 'metaTitle',
+    'metaDescription', 'ogImage', 'displayOrder', 'archiveAt',
   ];
 
   for (const field of allowedFields) {
@@ -414,33 +469,20 @@ productsRoutes.put('/:id', adminAuth, async (c) => {
 
   await logActivity(db, 'update', 'product', result, user, changedFields);
 
-  // Auto-notify waitlist when product comes back in stock
-  if (body.availability === 'In stock' && current.availability === 'Sold out') {
-    const waitingEntries = await db.select().from(waitlist)
-      .where(and(eq(waitlist.productId, id), eq(waitlist.status, 'waiting')))
-      .all();
-
-    const baseUrl = c.env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
-    for (const entry of waitingEntries) {
-      try {
-        await sendEmail(c.env, entry.email,
-          `${current.name} is back in stock!`,
-          `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
-            <h1 style="color: #1c1917; font-size: 24px;">Great news!</h1>
-            <p style="color: #57534e; font-size: 16px; line-height: 1.6;">${current.name} is back in stock and ready to be yours.</p>
-            <a href="${baseUrl}/#/shop/${id}" style="display: inline-block; background: #8d3038; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-size: 14px; margin-top: 16px;">Shop Now</a>
-            <p style="color: #a8a29e; font-size: 12px; margin-top: 24px;">You received this email because you signed up to be notified.</p>
-          </div>`
-        );
-        await db.update(waitlist)
-          .set({ status: 'notified', notifiedAt: new Date().toISOString() })
-          .where(eq(waitlist.id, entry.id));
-      } catch (err) {
-        console.error(`Failed to notify waitlist entry ${entry.id}:`, err);
-      }
-    }
+  if (changedFields.quantity) {
+    await recordMovement(db, {
+      productId: id,
+      type: 'adjustment',
+      quantityChange: result.quantity - current.quantity,
+      quantityAfter: result.quantity,
+      note: 'Edited on the product page',
+      user,
+    });
   }
 
+  // Tell the waitlist when the product comes back in stock
+  await notifyIfRestocked(c.env, db, id, current);
+
   return c.json(result);
 });
 
@@ -448,7 +490,7 @@ productsRoutes.put('/:id', adminAuth, async (c) => {
 productsRoutes.patch('/:id/status', adminAuth, async (c) => {
   const db = c.get('db');
   const id = c.req.param('id');
-  const { status: newStatus } = await c.req.json();
+  const { status: newStatus, scheduledFor } = await c.req.json();
   const user = c.get('user');
 
   const current = await db.select().from(products)
@@ -467,8 +509,9 @@ productsRoutes.patch('/:id/status', adminAuth, async (c) => {
     }, 400);
   }
 
-  // Validate for publish
-  if (newStatus === 'active') {
+  // Validate for publish. Scheduled products are checked now as well as when
+  // they go live, so problems surface while someone is looking.
+  if (newStatus === 'active' || newStatus === 'scheduled') {
     const validation = validateForPublish(current);
     if (!validation.valid) {
       return c.json({ error: 'Publish validation failed', errors: validation.errors, warnings: validation.warnings }, 400);
@@ -477,9 +520,23 @@ productsRoutes.patch('/:id/status', adminAuth, async (c) => {
 
   const updateData: Record<string, any> = {
     status: newStatus,
+    scheduledFor: null,
     updatedAt: new Date().toISOString(),
   };
 
+  if (newStatus === 'scheduled') {
+    const schedule = parseScheduleDate(scheduledFor, 'Publish date');
+    if (schedule.error) {
+      return c.json({ error: schedule.error }, 400);
+    }
+    updateData.scheduledFor = schedule.date;
+  }
+
+  // A product that's been archived by hand shouldn't be archived again later
+  if (newStatus === 'archived' || newStatus === 'discontinued') {
+    updateData.archiveAt = null;
+  }
+
   // Set published_at on first publish
   if (newStatus === 'active' && !current.publishedAt) {
     updateData.publishedAt = new Date().toISOString();
@@ -502,9 +559,14 @@ productsRoutes.patch('/:id/status', adminAuth, async (c) => {
     : newStatus === 'draft' ? 'unpublish'
     : 'update';
 
-  await logActivity(db, action, 'product', result, user, {
+  const changedFields: Record<string, { old: unknown; new: unknown }> = {
     status: { old: current.status, new: newStatus },
-  });
+  };
+  if (newStatus === 'scheduled') {
+    changedFields.scheduledFor = { old: current.scheduledFor, new: result.scheduledFor };
+  }
+
+  await logActivity(db, action, 'product', result, user, changedFields);
 
   return c.json(result);
 });
@@ -568,6 +630,7 @@ productsRoutes.post('/:id/duplicate', adminAuth, async (c) => {
     costPrice: source.costPrice,
     currency: source.currency,
     taxable: source.taxable,
+    giftCardDenominations: source.giftCardDenominations,
     shortDescription: source.shortDescription,
     longDescription: source.longDescription,
     careDescription: source.careDescription,
@@ -609,6 +672,37 @@ productsRoutes.post('/:id/duplicate', adminAuth, async (c) => {
     });
   }
 
+  // Duplicate options and variants (stock starts at zero, SKUs must be re-entered)
+  const sourceOptions = await db.select().from(productOptions)
+    .where(eq(productOptions.productId, source.id)).all();
+
+  for (const o of sourceOptions) {
+    await db.insert(productOptions).values({
+      productId: result.id,
+      name: o.name,
+      values: o.values,
+      sortOrder: o.sortOrder,
+    });
+  }
+
+  const sourceVariants = await db.select().from(productVariants)
+    .where(eq(productVariants.productId, source.id)).all();
+
+  for (const v of sourceVariants) {
+    await db.insert(productVariants).values({
+      productId: result.id,
+      title: v.title,
+      sku: null,
+      options: v.options,
+      price: v.price,
+      compareAtPrice: v.compareAtPrice,
+      quantity: 0,
+      image: v.image,
+      sortOrder: v.sortOrder,
+      active: v.active,
+    });
+  }
+
   await logActivity(db, 'duplicate', 'product', result, user, {
     sourceProductId: { old: null, new: source.id },
   });
@@ -616,6 +710,166 @@ productsRoutes.post('/:id/duplicate', adminAuth, async (c) => {
   return c.json(result, 201);
 });
 
+// ============================================
+// VARIANT ENDPOINTS
+// ============================================
+
+// GET /api/products/:id/variants - List options and variants (admin only)
+productsRoutes.get('/:id/variants', adminAuth, async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+
+  const [options, variants] = await Promise.all([
+    db.select().from(productOptions)
+      .where(eq(productOptions.productId, id))
+      .orderBy(asc(productOptions.sortOrder)).all(),
+    db.select().from(productVariants)
+      .where(eq(productVariants.productId, id))
+      .orderBy(asc(productVariants.sortOrder)).all(),
+  ]);
+
+  return c.json({ options, variants });
+});
+
+// PUT /api/products/:id/variants - Replace options and sync variants (admin only)
+// Variants with an id are updated, new ones inserted, missing ones removed.
+productsRoutes.put('/:id/variants', adminAuth, async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+  const user = c.get('user');
+  const body = await c.req.json();
+  const options: { name: string; values: string[] }[] = body.options || [];
+  const variants: any[] = body.variants || [];
+
+  const product = await db.select().from(products)
+    .where(and(eq(products.id, id), isNull(products.deletedAt))).get();
+  if (!product) {
+    return c.json({ error: 'Product not found' }, 404);
+  }
+
+  // Validate options
+  const optionNames = new Set<string>();
+  for (const option of options) {
+    const name = option.name?.trim();
+    if (!name) {
+      return c.json({ error: 'Option name is required' }, 400);
+    }
+    if (optionNames.has(name.toLowerCase())) {
+      return c.json({ error: `Duplicate option "${name}"` }, 400);
+    }
+    optionNames.add(name.toLowerCase());
+    if (!option.values?.filter((v) => v?.trim()).length) {
+      return c.json({ error: `Option "${name}" needs at least one value` }, 400);
+    }
+  }
+
+  // Validate variants
+  const skus = new Set<string>();
+  for (const variant of variants) {
+    if (!variant.title?.trim()) {
+      return c.json({ error: 'Variant title is required' }, 400);
+    }
+    if (variant.price && !(parseFloat(variant.price) > 0)) {
+      return c.json({ error: `Price for "${variant.title}" must be greater than $0` }, 400);
+    }
+    const sku = variant.sku?.trim();
+    if (sku) {
+      if (skus.has(sku)) {
+        return c.json({ error: `SKU "${sku}" is used more than once` }, 400);
+      }
+      skus.add(sku);
+      const conflict = await db.select({ id: productVariants.id }).from(productVariants)
+        .where(and(eq(productVariants.sku, sku), ne(productVariants.productId, id))).get();
+      if (conflict) {
+        return c.json({ error: `SKU "${sku}" is already used by another product` }, 400);
+      }
+    }
+  }
+
+  // Replace option definitions
+  await db.delete(productOptions).where(eq(productOptions.productId, id));
+  for (let i = 0; i < options.length; i++) {
+    await db.insert(productOptions).values({
+      productId: id,
+      name: options[i].name.trim(),
+      values: options[i].values.map((v) => v.trim()).filter(Boolean),
+      sortOrder: i,
+    });
+  }
+
+  // Sync variants
+  const existing = await db.select().from(productVariants)
+    .where(eq(productVariants.productId, id)).all();
+  const keepIds = new Set(variants.filter((v) => v.id).map((v) => v.id));
+
+  for (const old of existing) {
+    if (!keepIds.has(old.id)) {
+      await db.delete(productVariants).where(eq(productVariants.id, old.id));
+    }
+  }
+
+  // Clear SKUs first so swapping SKUs between variants doesn't trip the unique index
+  await db.update(productVariants).set({ sku: null }).where(eq(productVariants.productId, id));
+
+  const now = new Date().toISOString();
+  for (let i = 0; i < variants.length; i++) {
+    const v = variants[i];
+    const previous = v.id ? existing.find((e: any) => e.id === v.id) : null;
+    const values = {
+      title: v.title.trim(),
+      sku: v.sku?.trim() || null,
+      options: v.options || {},
+      price: v.price || null,
+      compareAtPrice: v.compareAtPrice || null,
+      quantity: Math.max(0, parseInt(v.quantity) || 0),
+      lowStockThreshold: v.lowStockThreshold !== undefined
+        ? parseThreshold(v.lowStockThreshold)
+        : previous?.lowStockThreshold ?? null,
+      image: v.image || null,
+      sortOrder: i,
+      active: v.active !== false,
+      updatedAt: now,
+    };
+
+    let variantId = previous?.id;
+    if (previous) {
+      await db.update(productVariants).set(values).where(eq(productVariants.id, previous.id));
+    } else {
+      variantId = (await db.insert(productVariants).values({ productId: id, ...values }).returning().get()).id;
+    }
+
+    if (product.trackInventory) {
+      await recordMovement(db, {
+        productId: id,
+        variantId,
+        type: 'adjustment',
+        quantityChange: values.quantity - (previous?.quantity ?? 0),
+        quantityAfter: values.quantity,
+        note: previous ? 'Edited in the variant editor' : 'Opening stock',
+        user,
+      });
+    }
+  }
+
+  await syncProductStockFromVariants(db, id);
+  await notifyIfRestocked(c.env, db, id, product);
+
+  await logActivity(db, 'update', 'product', product, user, {
+    variants: { old: existing.length, new: variants.length },
+  });
+
+  const [savedOptions, savedVariants] = await Promise.all([
+    db.select().from(productOptions)
+      .where(eq(productOptions.productId, id))
+      .orderBy(asc(productOptions.sortOrder)).all(),
+    db.select().from(productVariants)
+      .where(eq(productVariants.productId, id))
+      .orderBy(asc(productVariants.sortOrder)).all(),
+  ]);
+
+  return c.json({ options: savedOptions, variants: savedVariants });
+});
+
 // ============================================
 // MEDIA ENDPOINTS
 // ============================================
@@ -710,6 +964,7 @@ productsRoutes.put('/:id/media/:mediaId', adminAuth, async (c) => {
   const updateData: Record<string, any> = {};
   if (body.altText !== undefined) updateData.altText = body.altText;
   if (body.sortOrder !== undefined) updateData.sortOrder = body.sortOrder;
+  if (body.variantId !== undefined) updateData.variantId = body.variantId || null;
 
   // Handle setting as primary
   if (body.isPrimary) {
@@ -3,15 +3,58 @@ import { eq, desc, and, like, sql } from 'drizzle-orm';
 import Stripe from 'stripe';
 import { discountCodes } from '../db/schema';
 import { logActivity } from '../utils/activityLog';
-import { adminAuth } from '../middleware/auth';
+import { quoteCheckout } from '../utils/pricing';
+import { adminAuth, optionalCustomerAuth } from '../middleware/auth';
 import type { Bindings, Variables } from '../index';
 
 export const promotionsRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
+// Codes are enforced by the discount engine (utils/discounts.ts) at checkout.
+// Codes created before that still have a Stripe promotion code, whose active
+// flag is kept in step with the code here.
 function getStripe(secretKey: string): Stripe {
   return new Stripe(secretKey, { apiVersion: '2024-12-18.acacia' });
 }
 
+// ─── POST /validate — Check a code against a cart (public) ──
+// Used by the Checkout page to apply a code. Per-customer limits are only
+// checked once a buyer is known; create-session checks the code again.
+promotionsRoutes.post('/validate', optionalCustomerAuth, async (c) => {
+  const db = c.get('db');
+  const customer = c.get('customerUser');
+  const { code, items, country, email } = await c.req.json();
+
+  if (!code || !String(code).trim()) {
+    return c.json({ valid: false, error: 'Enter a discount code' }, 400);
+  }
+  if (!items || items.length === 0) {
+    return c.json({ valid: false, error: 'No items provided' }, 400);
+  }
+
+  const { quote, error } = await quoteCheckout(db, items, country, undefined, {
+    code,
+    buyer: { customerId: customer?.id, email: customer?.email || email },
+    requireBuyer: false,
+  });
+  if (error || !quote) {
+    return c.json({ valid: false, error }, 400);
+  }
+  if (quote.discountError || !quote.discount) {
+    return c.json({ valid: false, error: quote.discountError || 'This discount code is not valid' });
+  }
+
+  const { discount } = quote;
+  return c.json({
+    valid: true,
+    code: discount.code,
+    name: discount.name,
+    type: discount.type,
+    items: (discount.itemsDiscountCents / 100).toFixed(2),
+    shipping: (discount.shippingDiscountCents / 100).toFixed(2),
+    amount: (discount.totalCents / 100).toFixed(2),
+  });
+});
+
 // ─── GET / — List all discount codes with filters ────────
 promotionsRoutes.get('/', adminAuth, async (c) => {
   const db = c.get('db');
@@ -99,7 +142,7 @@ promotionsRoutes.get('/', adminAuth, async (c) => {
   });
 });
 
-// ─── POST / — Create discount code + sync to Stripe ──────
+// ─── POST / — Create discount code ───────────────────────
 promotionsRoutes.post('/', adminAuth, async (c) => {
   const db = c.get('db');
   const user = c.get('user');
@@ -143,64 +186,6 @@ promotionsRoutes.post('/', adminAuth, async (c) => {
     return c.json({ error: 'A discount code with this code already exists' }, 409);
   }
 
-  // Stripe sync
-  let stripeCouponId: string | null = null;
-  let stripePromotionCodeId: string | null = null;
-
-  try {
-    const stripe = getStripe(c.env.STRIPE_SECRET_KEY);
-
-    // Create Stripe coupon
-    const couponParams: Stripe.CouponCreateParams = {
-      duration: 'once',
-      name: name,
-      currency: 'aud',
-    };
-
-    if (type === 'percentage') {
-      couponParams.percent_off = value;
-    } else if (type === 'fixed_amount') {
-      couponParams.amount_off = Math.round(value * 100);
-    } else if (type === 'free_shipping') {
-      // Free shipping: create a coupon with percent_off=0; actual shipping discount is handled via Stripe shipping rates
-      couponParams.percent_off = 0;
-    }
-
-    const stripeCoupon = await stripe.coupons.create(couponParams);
-    stripeCouponId = stripeCoupon.id;
-
-    // Create Stripe promotion code
-    const promoParams: Stripe.PromotionCodeCreateParams = {
-      coupon: stripeCoupon.id,
-      code: upperCode,
-    };
-
-    if (usageLimit) {
-      promoParams.max_redemptions = usageLimit;
-    }
-    if (expiresAt) {
-      promoParams.expires_at = Math.floor(new Date(expiresAt).getTime() / 1000);
-    }
-
-    const restrictions: Stripe.PromotionCodeCreateParams.Restrictions = {};
-    if (firstTimeOnly) {
-      restrictions.first_time_transaction = true;
-    }
-    if (minOrderAmount) {
-      restrictions.minimum_amount = Math.round(minOrderAmount * 100);
-      restrictions.minimum_amount_currency = 'aud';
-    }
-    if (Object.keys(restrictions).length > 0) {
-      promoParams.restrictions = restrictions;
-    }
-
-    const stripePromo = await stripe.promotionCodes.create(promoParams);
-    stripePromotionCodeId = stripePromo.id;
-  } catch (err) {
-    console.error('Stripe sync failed during code creation:', err);
-    // Continue saving to D1 without Stripe IDs
-  }
-
   // Save to D1
   const id = crypto.randomUUID();
   const now = new Date().toISOString();
@@ -223,8 +208,6 @@ promotionsRoutes.post('/', adminAuth, async (c) => {
     applicableTo: applicableTo || 'all',
     productIds: productIds || [],
     categories: categories || [],
-    stripeCouponId,
-    stripePromotionCodeId,
     active: true,
     createdAt: now,
     updatedAt: now,
@@ -397,62 +380,6 @@ promotionsRoutes.post('/:id/duplicate', adminAuth, async (c) => {
     return c.json({ error: `Duplicate code "${newCode}" already exists. Please rename the existing copy first.` }, 409);
   }
 
-  // Create new Stripe coupon + promotion code
-  let stripeCouponId: string | null = null;
-  let stripePromotionCodeId: string | null = null;
-
-  try {
-    const stripe = getStripe(c.env.STRIPE_SECRET_KEY);
-
-    // Create Stripe coupon
-    const couponParams: Stripe.CouponCreateParams = {
-      duration: 'once',
-      name: existing.name,
-      currency: 'aud',
-    };
-
-    if (existing.type === 'percentage') {
-      couponParams.percent_off = existing.value;
-    } else if (existing.type === 'fixed_amount') {
-      couponParams.amount_off = Math.round(existing.value * 100);
-    } else if (existing.type === 'free_shipping') {
-      couponParams.percent_off = 0;
-    }
-
-    const stripeCoupon = await stripe.coupons.create(couponParams);
-    stripeCouponId = stripeCoupon.id;
-
-    // Create Stripe promotion code
-    const promoParams: Stripe.PromotionCodeCreateParams = {
-      coupon: stripeCoupon.id,
-      code: newCode,
-    };
-
-    if (existing.usageLimit) {
-      promoParams.max_redemptions = existing.usageLimit;
-    }
-    if (existing.expiresAt) {
-      promoParams.expires_at = Math.floor(new Date(existing.expiresAt).getTime() / 1000);
-    }
-
-    const restrictions: Stripe.PromotionCodeCreateParams.Restrictions = {};
-    if (existing.firstTimeOnly) {
-      restrictions.first_time_transaction = true;
-    }
-    if (existing.minOrderAmount) {
-      restrictions.minimum_amount = Math.round(existing.minOrderAmount * 100);
-      restrictions.minimum_amount_currency = 'aud';
-    }
-    if (Object.keys(restrictions).length > 0) {
-      promoParams.restrictions = restrictions;
-    }
-
-    const stripePromo = await stripe.promotionCodes.create(promoParams);
-    stripePromotionCodeId = stripePromo.id;
-  } catch (err) {
-    console.error('Stripe sync failed during code duplication:', err);
-  }
-
   // Insert duplicate into D1
   const newId = crypto.randomUUID();
   const now = new Date().toISOString();
@@ -475,8 +402,6 @@ promotionsRoutes.post('/:id/duplicate', adminAuth, async (c) => {
     applicableTo: existing.applicableTo,
     productIds: (existing.productIds as string[]) || [],
     categories: (existing.categories as string[]) || [],
-    stripeCouponId,
-    stripePromotionCodeId,
     active: existing.active,
     createdAt: now,
     updatedAt: now,
@@ -1,11 +1,43 @@
 import { Hono } from 'hono';
 import { eq, and, desc, sql, like, or, count, avg } from 'drizzle-orm';
-import { productReviews, products, orders, orderItems, customerUsers } from '../db/schema';
+import { productReviews, reviewPhotos, products, orders, orderItems, customerUsers } from '../db/schema';
 import { adminAuth } from '../middleware/auth';
+import {
+  MAX_REVIEW_PHOTOS,
+  verifyReviewRequestToken,
+  getReviewableOrder,
+  validateReviewPhotos,
+  storeReviewPhotos,
+  deleteReviewPhotoFiles,
+  photosByReview,
+} from '../utils/reviews';
 import type { Bindings, Variables } from '../index';
 
 export const reviewsRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
+// ============================================
+// HELPER: Read a review form
+// ============================================
+
+// Reviews come in as JSON, or as multipart form data when photos are attached.
+async function readReviewSubmission(c: any): Promise<{ fields: Record<string, any>; photos: File[] }> {
+  const contentType = c.req.header('Content-Type') || '';
+  if (!contentType.includes('multipart/form-data')) {
+    return { fields: await c.req.json(), photos: [] };
+  }
+
+  const formData = await c.req.formData();
+  const fields: Record<string, any> = {};
+  for (const key of ['customerName', 'customerEmail', 'title', 'body', 'productId']) {
+    const value = formData.get(key);
+    if (typeof value === 'string') fields[key] = value;
+  }
+  if (formData.get('rating') !== null) fields.rating = Number(formData.get('rating'));
+
+  const photos = formData.getAll('photos').filter((p: unknown): p is File => p instanceof File && p.size > 0);
+  return { fields, photos };
+}
+
 // ============================================
 // HELPER: Recalculate product rating & reviewCount
 // ============================================
@@ -102,6 +134,8 @@ reviewsRoutes.get('/product/:productId', async (c) => {
     .orderBy(desc(productReviews.createdAt))
     .all();
 
+  const photos = await photosByReview(db, reviews.map(r => r.id), true);
+
   // Calculate summary
   const totalReviews = reviews.length;
   let averageRating = 0;
@@ -117,7 +151,10 @@ reviewsRoutes.get('/product/:productId', async (c) => {
   }
 
   return c.json({
-    reviews,
+    reviews: reviews.map(r => ({
+      ...r,
+      photos: (photos[r.id] || []).map((p: any) => ({ id: p.id, url: p.url })),
+    })),
     summary: {
       averageRating,
       totalReviews,
@@ -126,13 +163,43 @@ reviewsRoutes.get('/product/:productId', async (c) => {
   });
 });
 
+// GET /api/reviews/product/:productId/photos - Approved photos from approved reviews, for the gallery
+reviewsRoutes.get('/product/:productId/photos', async (c) => {
+  const db = c.get('db');
+  const productId = c.req.param('productId');
+
+  const photos = await db
+    .select({
+      id: reviewPhotos.id,
+      url: reviewPhotos.url,
+      reviewId: productReviews.id,
+      customerName: productReviews.customerName,
+      rating: productReviews.rating,
+      title: productReviews.title,
+      createdAt: productReviews.createdAt,
+    })
+    .from(reviewPhotos)
+    .innerJoin(productReviews, eq(reviewPhotos.reviewId, productReviews.id))
+    .where(
+      and(
+        eq(productReviews.productId, productId),
+        eq(productReviews.status, 'approved'),
+        eq(reviewPhotos.status, 'approved')
+      )
+    )
+    .orderBy(desc(productReviews.createdAt), reviewPhotos.sortOrder)
+    .all();
+
+  return c.json(photos);
+});
+
 // POST /api/reviews/product/:productId - Submit a review (guest reviews allowed)
 reviewsRoutes.post('/product/:productId', async (c) => {
   const db = c.get('db');
   const productId = c.req.param('productId');
-  const body = await c.req.json();
+  const { fields, photos } = await readReviewSubmission(c);
 
-  const { customerName, customerEmail, rating, title, body: reviewBody } = body;
+  const { customerName, customerEmail, rating, title, body: reviewBody } = fields;
 
   // Validate required fields
   if (!customerName || !customerEmail || !rating) {
@@ -144,6 +211,11 @@ reviewsRoutes.post('/product/:productId', async (c) => {
     return c.json({ error: 'Rating must be an integer between 1 and 5' }, 400);
   }
 
+  const photoError = validateReviewPhotos(photos);
+  if (photoError) {
+    return c.json({ error: photoError }, 400);
+  }
+
   // Verify the product exists
   const product = await db
     .select({ id: products.id, name: products.name, productType: products.productType })
@@ -205,7 +277,100 @@ reviewsRoutes.post('/product/:productId', async (c) => {
     .returning()
     .get();
 
-  return c.json(review, 201);
+  const stored = await storeReviewPhotos(c.env.UPLOADS, db, review.id, photos);
+
+  return c.json({ ...review, photos: stored }, 201);
+});
+
+// ============================================
+// REVIEW REQUEST LINKS
+// ============================================
+
+// GET /api/reviews/request/:token - What a review request link lets the buyer review
+reviewsRoutes.get('/request/:token', async (c) => {
+  const db = c.get('db');
+  const orderId = await verifyReviewRequestToken(c.env, c.req.param('token'));
+  const reviewable = orderId ? await getReviewableOrder(db, orderId) : null;
+
+  if (!reviewable) {
+    return c.json({ error: 'This review link is invalid or has expired' }, 404);
+  }
+
+  const { order, customer, items } = reviewable;
+  return c.json({
+    orderNumber: order.orderNumber,
+    customerName: [customer?.firstName, customer?.lastName].filter(Boolean).join(' ')
+      || [order.shippingFirstName, order.shippingLastName].filter(Boolean).join(' '),
+    items,
+    maxPhotos: MAX_REVIEW_PHOTOS,
+  });
+});
+
+// POST /api/reviews/request/:token - Review a product from the order, as a verified purchase
+reviewsRoutes.post('/request/:token', async (c) => {
+  const db = c.get('db');
+  const orderId = await verifyReviewRequestToken(c.env, c.req.param('token'));
+  const reviewable = orderId ? await getReviewableOrder(db, orderId) : null;
+
+  if (!reviewable) {
+    return c.json({ error: 'This review link is invalid or has expired' }, 404);
+  }
+
+  const { fields, photos } = await readReviewSubmission(c);
+  const { productId, customerName, rating, title, body: reviewBody } = fields;
+
+  const item = reviewable.items.find(i => i.productId === productId);
+  if (!item) {
+    return c.json({ error: 'That product is not part of this order' }, 400);
+  }
+  if (item.reviewed) {
+    return c.json({ error: "You've already reviewed this product" }, 409);
+  }
+
+  if (typeof rating !== 'number' || rating < 1 || rating > 5 || !Number.isInteger(rating)) {
+    return c.json({ error: 'Rating must be an integer between 1 and 5' }, 400);
+  }
+
+  const photoError = validateReviewPhotos(photos);
+  if (photoError) {
+    return c.json({ error: photoError }, 400);
+  }
+
+  const { order, customer } = reviewable;
+  if (!customer) {
+    return c.json({ error: 'This review link is invalid or has expired' }, 404);
+  }
+
+  const product = await db
+    .select({ name: products.name, productType: products.productType })
+    .from(products)
+    .where(eq(products.id, item.productId))
+    .get();
+
+  const review = await db
+    .insert(productReviews)
+    .values({
+      productId: item.productId,
+      productName: product?.name || item.productName,
+      customerId: customer.id,
+      customerName: String(customerName || '').trim()
+        || [customer.firstName, customer.lastName].filter(Boolean).join(' ')
+        || order.shippingFirstName,
+      customerEmail: customer.email,
+      rating,
+      title: title || null,
+      body: reviewBody || null,
+      status: 'pending',
+      isVerifiedPurchase: true,
+      theme: product?.productType || null,
+      orderId: order.id,
+    })
+    .returning()
+    .get();
+
+  const stored = await storeReviewPhotos(c.env.UPLOADS, db, review.id, photos);
+
+  return c.json({ ...review, photos: stored }, 201);
 });
 
 // ============================================
@@ -275,6 +440,7 @@ reviewsRoutes.get('/', adminAuth, async (c) => {
       theme: productReviews.theme,
       adminResponse: productReviews.adminResponse,
       respondedAt: productReviews.respondedAt,
+      orderId: productReviews.orderId,
       createdAt: productReviews.createdAt,
       updatedAt: productReviews.updatedAt,
     })
@@ -284,10 +450,13 @@ reviewsRoutes.get('/', adminAuth, async (c) => {
     .orderBy(desc(productReviews.createdAt))
     .all();
 
+  const photos = await photosByReview(db, reviews.map(r => r.id));
+
   // Map to use linked product name or stored product name
   const mappedReviews = reviews.map(r => ({
     ...r,
     productName: r.productName || r.storedProductName || 'Unknown product',
+    photos: photos[r.id] || [],
   }));
 
   // Calculate stats (all reviews, not filtered)
@@ -311,6 +480,12 @@ reviewsRoutes.get('/', adminAuth, async (c) => {
     averageRating = Math.round((sum / approvedReviews.length) * 10) / 10;
   }
 
+  const pendingPhotos = await db
+    .select({ total: count() })
+    .from(reviewPhotos)
+    .where(eq(reviewPhotos.status, 'pending'))
+    .get();
+
   return c.json({
     reviews: mappedReviews,
     stats: {
@@ -319,6 +494,7 @@ reviewsRoutes.get('/', adminAuth, async (c) => {
       approved,
       rejected,
       averageRating,
+      pendingPhotos: pendingPhotos?.total ?? 0,
     },
   });
 });
@@ -461,6 +637,55 @@ reviewsRoutes.patch('/:id/theme', adminAuth, async (c) => {
   return c.json(updated);
 });
 
+// PATCH /api/reviews/:id/photos/:photoId - Approve or reject a review photo
+reviewsRoutes.patch('/:id/photos/:photoId', adminAuth, async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+  const photoId = c.req.param('photoId');
+  const body = await c.req.json();
+
+  const { status } = body;
+
+  if (!status || !['approved', 'rejected'].includes(status)) {
+    return c.json({ error: 'Status must be "approved" or "rejected"' }, 400);
+  }
+
+  const updated = await db
+    .update(reviewPhotos)
+    .set({ status })
+    .where(and(eq(reviewPhotos.id, photoId), eq(reviewPhotos.reviewId, id)))
+    .returning()
+    .get();
+
+  if (!updated) {
+    return c.json({ error: 'Photo not found' }, 404);
+  }
+
+  return c.json(updated);
+});
+
+// DELETE /api/reviews/:id/photos/:photoId - Remove a review photo from R2
+reviewsRoutes.delete('/:id/photos/:photoId', adminAuth, async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+  const photoId = c.req.param('photoId');
+
+  const photo = await db
+    .select()
+    .from(reviewPhotos)
+    .where(and(eq(reviewPhotos.id, photoId), eq(reviewPhotos.reviewId, id)))
+    .get();
+
+  if (!photo) {
+    return c.json({ error: 'Photo not found' }, 404);
+  }
+
+  await deleteReviewPhotoFiles(c.env.UPLOADS, [photo]);
+  await db.delete(reviewPhotos).where(eq(reviewPhotos.id, photoId));
+
+  return c.json({ success: true });
+});
+
 // DELETE /api/reviews/:id - Delete a review (hard delete)
 reviewsRoutes.delete('/:id', adminAuth, async (c) => {
   const db = c.get('db');
@@ -476,6 +701,10 @@ reviewsRoutes.delete('/:id', adminAuth, async (c) => {
     return c.json({ error: 'Review not found' }, 404);
   }
 
+  // Photo rows go with the review; their files have to be removed from R2 here
+  const photos = await db.select().from(reviewPhotos).where(eq(reviewPhotos.reviewId, id)).all();
+  await deleteReviewPhotoFiles(c.env.UPLOADS, photos);
+
   await db.delete(productReviews).where(eq(productReviews.id, id));
 
   // Recalculate product rating after deletion
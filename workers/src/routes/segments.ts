@@ -2,6 +2,8 @@ import { Hono } from 'hono';
 import { eq, desc } from 'drizzle-orm';
 import { segments } from '../db/schema';
 import { adminAuth } from '../middleware/auth';
+import { logActivity } from '../utils/activityLog';
+import { validateSegmentRules, countSegment, segmentSubscribers, refreshSegmentCount, type SegmentRules } from '../utils/segments';
 import type { Bindings, Variables } from '../index';
 
 export const segmentsRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
@@ -13,10 +15,138 @@ segmentsRoutes.get('/', adminAuth, async (c) => {
   return c.json({ segments: result });
 });
 
+// POST /evaluate — count and sample subscribers for unsaved rules (segment builder live preview)
+segmentsRoutes.post('/evaluate', adminAuth, async (c) => {
+  const db = c.get('db');
+  const { rules } = await c.req.json();
+
+  const invalid = validateSegmentRules(rules);
+  if (invalid) return c.json({ error: invalid }, 400);
+
+  const count = await countSegment(db, rules);
+  const sample = await segmentSubscribers(db, rules, 10);
+
+  return c.json({
+    count,
+    subscribers: sample.map((s: any) => ({
+      id: s.id,
+      email: s.email,
+      name: s.name,
+      engagementLevel: s.engagementLevel,
+    })),
+  });
+});
+
+// POST / — create segment
+segmentsRoutes.post('/', adminAuth, async (c) => {
+  const db = c.get('db');
+  const user = c.get('user');
+  const { name, description, rules } = await c.req.json();
+
+  if (!name?.trim()) return c.json({ error: 'Name is required' }, 400);
+  const invalid = validateSegmentRules(rules);
+  if (invalid) return c.json({ error: invalid }, 400);
+
+  const now = new Date().toISOString();
+  const result = await db.insert(segments).values({
+    name: name.trim(),
+    description: description || null,
+    rules: { match: rules.match || 'all', conditions: rules.conditions },
+    subscriberCount: await countSegment(db, rules),
+    lastCalculatedAt: now,
+  }).returning().get();
+
+  await logActivity(db, 'create', 'segment', result, user);
+  return c.json(result, 201);
+});
+
+// GET /:id — single segment with a fresh subscriber count
+segmentsRoutes.get('/:id', adminAuth, async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+
+  const segment = await db.select().from(segments).where(eq(segments.id, id)).get();
+  if (!segment) return c.json({ error: 'Segment not found' }, 404);
+
+  const counted = await refreshSegmentCount(db, segment);
+  return c.json({ ...segment, ...counted });
+});
+
+// PUT /:id — update segment
+segmentsRoutes.put('/:id', adminAuth, async (c) => {
+  const db = c.get('db');
+  const user = c.get('user');
+  const id = c.req.param('id');
+  const { name, description, rules } = await c.req.json();
+
+  const existing = await db.select().from(segments).where(eq(segments.id, id)).get();
+  if (!existing) return c.json({ error: 'Segment not found' }, 404);
+
+  const updateData: Record<string, any> = { updatedAt: new Date().toISOString() };
+  if (name !== undefined) {
+    if (!name.trim()) return c.json({ error: 'Name is required' }, 400);
+    updateData.name = name.trim();
+  }
+  if (description !== undefined) updateData.description = description || null;
+  if (rules !== undefined) {
+    const invalid = validateSegmentRules(rules);
+    if (invalid) return c.json({ error: invalid }, 400);
+    updateData.rules = { match: rules.match || 'all', conditions: rules.conditions };
+    updateData.subscriberCount = await countSegment(db, rules);
+    updateData.lastCalculatedAt = updateData.updatedAt;
+  }
+
+  const result = await db.update(segments)
+    .set(updateData)
+    .where(eq(segments.id, id))
+    .returning()
+    .get();
+
+  await logActivity(db, 'update', 'segment', result, user);
+  return c.json(result);
+});
+
+// GET /:id/preview — paginated subscribers matching a saved segment
+segmentsRoutes.get('/:id/preview', adminAuth, async (c) => {
+  const db = c.get('db');
+  const id = c.req.param('id');
+  const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1);
+  const limit = Math.min(100, Math.max(1, parseInt(c.req.query('limit') || '25') || 25));
+
+  const segment = await db.select().from(segments).where(eq(segments.id, id)).get();
+  if (!segment) return c.json({ error: 'Segment not found' }, 404);
+
+  const rules = segment.rules as SegmentRules;
+  const total = await countSegment(db, rules);
+  const rows = await segmentSubscribers(db, rules, limit, (page - 1) * limit);
+
+  return c.json({
+    subscribers: rows.map((s: any) => ({
+      id: s.id,
+      email: s.email,
+      name: s.name,
+      source: s.source,
+      tags: s.tags,
+      engagementLevel: s.engagementLevel,
+      engagementScore: s.engagementScore,
+    })),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  });
+});
+
 // DELETE /:id — delete segment
 segmentsRoutes.delete('/:id', adminAuth, async (c) => {
   const db = c.get('db');
+  const user = c.get('user');
   const id = c.req.param('id');
+
+  const existing = await db.select().from(segments).where(eq(segments.id, id)).get();
+  if (!existing) return c.json({ error: 'Segment not found' }, 404);
+
   await db.delete(segments).where(eq(segments.id, id));
+  await logActivity(db, 'delete', 'segment', existing, user);
   return c.json({ success: true });
 });
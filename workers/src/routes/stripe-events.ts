@@ -0,0 +1,123 @@
+import { Hono } from 'hono';
+import { eq, and, desc, like, or, sql } from 'drizzle-orm';
+import type Stripe from 'stripe';
+import { stripeEvents, orders } from '../db/schema';
+import { adminAuth } from '../middleware/auth';
+import { logActivity } from '../utils/activityLog';
+import { runStripeEvent } from '../utils/stripeEvents';
+import { getStripe } from './checkout';
+import type { Bindings, Variables } from '../index';
+
+export const stripeEventsRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+stripeEventsRoutes.use('*', adminAuth);
+
+// ─── GET / — List webhook events ──────────────────────────
+stripeEventsRoutes.get('/', async (c) => {
+  const db = c.get('db');
+  const status = c.req.query('status') || '';
+  const type = c.req.query('type') || '';
+  const search = c.req.query('search') || '';
+  const page = Math.max(1, parseInt(c.req.query('page') || '1'));
+  const pageSize = Math.min(100, Math.max(1, parseInt(c.req.query('pageSize') || '50')));
+
+  const conditions = [];
+  if (status && status !== 'all') conditions.push(eq(stripeEvents.status, status as any));
+  if (type) conditions.push(eq(stripeEvents.type, type));
+  if (search) {
+    const pattern = `%${search}%`;
+    conditions.push(or(like(stripeEvents.id, pattern), like(stripeEvents.objectId, pattern)));
+  }
+  const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+  const [events, totalResult, statusCounts, types] = await Promise.all([
+    db.select({
+      id: stripeEvents.id,
+      type: stripeEvents.type,
+      status: stripeEvents.status,
+      objectId: stripeEvents.objectId,
+      orderId: stripeEvents.orderId,
+      orderNumber: orders.orderNumber,
+      error: stripeEvents.error,
+      attempts: stripeEvents.attempts,
+      livemode: stripeEvents.livemode,
+      stripeCreatedAt: stripeEvents.stripeCreatedAt,
+      receivedAt: stripeEvents.receivedAt,
+      lastAttemptAt: stripeEvents.lastAttemptAt,
+      processedAt: stripeEvents.processedAt,
+    })
+      .from(stripeEvents)
+      .leftJoin(orders, eq(stripeEvents.orderId, orders.id))
+      .where(whereClause)
+      .orderBy(desc(stripeEvents.receivedAt))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize)
+      .all(),
+    db.select({ count: sql<number>`COUNT(*)` }).from(stripeEvents).where(whereClause).get(),
+    db.select({ status: stripeEvents.status, count: sql<number>`COUNT(*)` })
+      .from(stripeEvents)
+      .groupBy(stripeEvents.status)
+      .all(),
+    db.selectDistinct({ type: stripeEvents.type }).from(stripeEvents).orderBy(stripeEvents.type).all(),
+  ]);
+
+  return c.json({
+    events,
+    total: totalResult?.count ?? 0,
+    page,
+    pageSize,
+    counts: Object.fromEntries(statusCounts.map((r: { status: string; count: number }) => [r.status, r.count])),
+    types: types.map((t: { type: string }) => t.type),
+  });
+});
+
+// ─── GET /:id — Event detail with payload ─────────────────
+stripeEventsRoutes.get('/:id', async (c) => {
+  const db = c.get('db');
+  const event = await db.select().from(stripeEvents).where(eq(stripeEvents.id, c.req.param('id'))).get();
+
+  if (!event) {
+    return c.json({ error: 'Event not found' }, 404);
+  }
+
+  return c.json(event);
+});
+
+// ─── POST /:id/replay — Re-run an event from its stored payload ──
+stripeEventsRoutes.post('/:id/replay', async (c) => {
+  const db = c.get('db');
+  const user = c.get('user');
+  const id = c.req.param('id');
+
+  const existing = await db.select().from(stripeEvents).where(eq(stripeEvents.id, id)).get();
+  if (!existing) {
+    return c.json({ error: 'Event not found' }, 404);
+  }
+
+  // Don't race a delivery that's being handled right now
+  if (existing.status === 'processing' && Date.now() - new Date(existing.lastAttemptAt).getTime() < 60 * 1000) {
+    return c.json({ error: 'Event is currently being processed' }, 409);
+  }
+
+  await db.update(stripeEvents).set({
+    status: 'processing',
+    attempts: existing.attempts + 1,
+    lastAttemptAt: new Date().toISOString(),
+  }).where(eq(stripeEvents.id, id));
+
+  // Handlers are idempotent, so replaying an event that already succeeded is safe
+  const stripe = getStripe(c.env.STRIPE_SECRET_KEY);
+  const result = await runStripeEvent(c.env, db, stripe, existing.payload as Stripe.Event);
+
+  const updated = (await db.select().from(stripeEvents).where(eq(stripeEvents.id, id)).get())!;
+
+  await logActivity(db, 'update', 'stripe_event', { ...updated, name: `${updated.type} (replay)` }, user, {
+    status: { old: existing.status, new: updated.status },
+  });
+
+  if (result.status === 'failed') {
+    return c.json({ error: result.error || 'Replay failed', event: updated }, 500);
+  }
+
+  return c.json({ event: updated });
+});
@@ -152,6 +152,7 @@ subscribersRoutes.post('/', adminAuth, async (c) => {
     lastName: body.lastName || null,
     source: body.source || 'manual',
     tags: body.tags || [],
+    customFields: body.customFields || null,
     subscribed: true,
   }).run();
 
@@ -293,6 +294,7 @@ subscribersRoutes.put('/:id', adminAuth, async (c) => {
       lastName: body.lastName !== undefined ? body.lastName : existing.lastName,
       source: body.source ?? existing.source,
       tags: body.tags ?? existing.tags,
+      customFields: body.customFields !== undefined ? body.customFields : existing.customFields,
       subscribed: body.subscribed !== undefined ? body.subscribed : existing.subscribed,
       unsubscribedAt: body.subscribed === false ? (existing.unsubscribedAt || new Date().toISOString()) : existing.unsubscribedAt,
       updatedAt: new Date().toISOString(),
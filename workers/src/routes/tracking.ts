@@ -1,7 +1,9 @@
 import { Hono } from 'hono';
-import { eq, and, sql } from 'drizzle-orm';
-import { emailEvents, sentEmails } from '../db/schema';
+import { eq, and, isNull, sql } from 'drizzle-orm';
+import { emailEvents, sentEmails, campaigns, campaignEvents, subscribers, automationQueue } from '../db/schema';
 import { adminAuth } from '../middleware/auth';
+import { campaignLinks, campaignVariantContent, recipientVariant } from '../utils/campaigns';
+import { renderMergeTags } from '../utils/email';
 import type { Bindings, Variables } from '../index';
 
 export const trackingRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
@@ -16,6 +18,180 @@ const TRACKING_PIXEL = new Uint8Array([
   0x01, 0x00, 0x3b,
 ]);
 
+function pixelResponse() {
+  return new Response(TRACKING_PIXEL, {
+    status: 200,
+    headers: {
+      'Content-Type': 'image/gif',
+      'Content-Length': String(TRACKING_PIXEL.length),
+      'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0',
+    },
+  });
+}
+
+// ============================================
+// CAMPAIGNS
+// ============================================
+
+type DB = any; // DrizzleD1Database type
+
+/**
+ * Record a campaign open, once per subscriber per campaign. Opens by an A/B
+ * test recipient are credited to the variant they were sent.
+ */
+async function recordCampaignOpen(
+  db: DB,
+  campaignId: string,
+  subscriber: { id: string; email: string },
+  variant: string | null,
+  now: string,
+) {
+  const existing = await db.select({ id: campaignEvents.id })
+    .from(campaignEvents)
+    .where(and(
+      eq(campaignEvents.campaignId, campaignId),
+      eq(campaignEvents.subscriberId, subscriber.id),
+      eq(campaignEvents.eventType, 'opened'),
+    ))
+    .get();
+
+  if (!existing) {
+    await db.insert(campaignEvents).values({
+      campaignId,
+      subscriberId: subscriber.id,
+      email: subscriber.email,
+      eventType: 'opened',
+      metadata: variant ? { variant } : null,
+    });
+  }
+  await db.update(subscribers)
+    .set({ lastOpenedAt: now })
+    .where(eq(subscribers.id, subscriber.id));
+}
+
+// GET /campaign/:campaignId/:subscriberId/open.gif - Track campaign open
+trackingRoutes.get('/campaign/:campaignId/:subscriberId/open.gif', async (c) => {
+  const db = c.get('db');
+  const { campaignId, subscriberId } = c.req.param();
+
+  try {
+    const campaign = await db.select({ id: campaigns.id, variants: campaigns.variants }).from(campaigns).where(eq(campaigns.id, campaignId)).get();
+    const subscriber = await db.select().from(subscribers).where(eq(subscribers.id, subscriberId)).get();
+    if (campaign && subscriber) {
+      const variant = campaign.variants?.length ? await recipientVariant(db, campaignId, subscriberId) : null;
+      await recordCampaignOpen(db, campaignId, subscriber, variant, new Date().toISOString());
+    }
+  } catch (err) {
+    // Silently fail - don't break the pixel response
+    console.error('Error tracking campaign open:', err);
+  }
+
+  return pixelResponse();
+});
+
+// GET /campaign/:campaignId/:subscriberId/click/:linkIndex - Track campaign click
+trackingRoutes.get('/campaign/:campaignId/:subscriberId/click/:linkIndex', async (c) => {
+  const db = c.get('db');
+  const { campaignId, subscriberId } = c.req.param();
+  const linkIndex = parseInt(c.req.param('linkIndex'), 10);
+
+  const campaign = await db.select().from(campaigns).where(eq(campaigns.id, campaignId)).get();
+  // Link indexes refer to the content this subscriber was sent: their test
+  // variant, or the winner if they got the rest of the send
+  const variant = campaign?.variants?.length ? await recipientVariant(db, campaignId, subscriberId) : null;
+  const { bodyHtml } = campaign ? campaignVariantContent(campaign, variant || campaign.abWinner) : { bodyHtml: null };
+  const link = bodyHtml ? campaignLinks(bodyHtml)[linkIndex] : undefined;
+  if (!link) {
+    return c.redirect(c.env.FRONTEND_URL || 'https://lyne-tilt.pages.dev', 302);
+  }
+
+  const subscriber = await db.select().from(subscribers).where(eq(subscribers.id, subscriberId)).get();
+  // Personalised links are filled in the same way as in the email
+  const url = (subscriber ? renderMergeTags(link, subscriber) : link).replace(/&amp;/g, '&');
+
+  if (subscriber) {
+    try {
+      const now = new Date().toISOString();
+      // Clicks are not deduplicated - each click is recorded
+      await db.insert(campaignEvents).values({
+        campaignId,
+        subscriberId,
+        email: subscriber.email,
+        eventType: 'clicked',
+        metadata: { url: link, linkIndex, ...(variant ? { variant } : {}) },
+      });
+      await db.update(subscribers)
+        .set({ lastClickedAt: now })
+        .where(eq(subscribers.id, subscriberId));
+      // A click means the email was opened, even if its images were blocked
+      await recordCampaignOpen(db, campaignId, subscriber, variant, now);
+    } catch (err) {
+      // Silently fail - still redirect the user
+      console.error('Error tracking campaign click:', err);
+    }
+  }
+
+  return c.redirect(url, 302);
+});
+
+// ============================================
+// AUTOMATION WORKFLOWS
+// ============================================
+
+/** Note the first open of a workflow email, which a click also counts as. */
+async function recordAutomationOpen(db: DB, queueId: string, now: string) {
+  await db.update(automationQueue)
+    .set({ openedAt: now })
+    .where(and(eq(automationQueue.id, queueId), isNull(automationQueue.openedAt)));
+}
+
+// GET /automation/:queueId/open.gif - Track workflow email open
+trackingRoutes.get('/automation/:queueId/open.gif', async (c) => {
+  const db = c.get('db');
+
+  try {
+    await recordAutomationOpen(db, c.req.param('queueId'), new Date().toISOString());
+  } catch (err) {
+    // Silently fail - don't break the pixel response
+    console.error('Error tracking automation open:', err);
+  }
+
+  return pixelResponse();
+});
+
+// GET /automation/:queueId/click/:linkIndex - Track workflow email click
+trackingRoutes.get('/automation/:queueId/click/:linkIndex', async (c) => {
+  const db = c.get('db');
+  const queueId = c.req.param('queueId');
+  const linkIndex = parseInt(c.req.param('linkIndex'), 10);
+
+  // The queued body is what was sent, placeholders filled in, so its links are the real ones
+  const item = await db.select().from(automationQueue).where(eq(automationQueue.id, queueId)).get();
+  const link = item ? campaignLinks(item.body)[linkIndex] : undefined;
+  if (!link) {
+    return c.redirect(c.env.FRONTEND_URL || 'https://lyne-tilt.pages.dev', 302);
+  }
+
+  try {
+    const now = new Date().toISOString();
+    await db.update(automationQueue)
+      .set({ clickedAt: now })
+      .where(and(eq(automationQueue.id, queueId), isNull(automationQueue.clickedAt)));
+    await recordAutomationOpen(db, queueId, now);
+  } catch (err) {
+    // Silently fail - still redirect the user
+    console.error('Error tracking automation click:', err);
+  }
+
+  return c.redirect(link.replace(/&amp;/g, '&'), 302);
+});
+
+// ============================================
+// NEWSLETTERS
+// ============================================
+
 // GET /open/:sentEmailId/:subscriberEmail - Track email open
 trackingRoutes.get('/open/:sentEmailId/:subscriberEmail', async (c) => {
   const db = c.get('db');
@@ -58,16 +234,7 @@ trackingRoutes.get('/open/:sentEmailId/:subscriberEmail', async (c) => {
   }
 
   // Always return the tracking pixel
-  return new Response(TRACKING_PIXEL, {
-    status: 200,
-    headers: {
-      'Content-Type': 'image/gif',
-      'Content-Length': String(TRACKING_PIXEL.length),
-      'Cache-Control': 'no-store, no-cache, must-revalidate, proxy-revalidate',
-      'Pragma': 'no-cache',
-      'Expires': '0',
-    },
-  });
+  return pixelResponse();
 });
 
 // GET /click/:sentEmailId/:linkIndex/:subscriberEmail - Track email click
@@ -1,25 +1,13 @@
 import { Hono } from 'hono';
 import { eq, and, desc, sql, or, like, count, countDistinct } from 'drizzle-orm';
-import { waitlist, products } from '../db/schema';
-import { sendEmail } from '../utils/email';
+import { waitlist, products, orders } from '../db/schema';
+import { deliverEmail, EMAIL_SKIP_REASON_LABELS } from '../utils/emailGateway';
+import { buildNotificationEmail } from '../utils/waitlist';
 import { adminAuth } from '../middleware/auth';
 import type { Bindings, Variables } from '../index';
 
 export const waitlistRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
 
-// ============================================
-// HELPERS
-// ============================================
-
-function buildNotificationEmail(productName: string, productId: string, baseUrl: string): string {
-  return `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
-    <h1 style="color: #1c1917; font-size: 24px;">Great news!</h1>
-    <p style="color: #57534e; font-size: 16px; line-height: 1.6;">${productName} is back in stock and ready to be yours.</p>
-    <a href="${baseUrl}/#/shop/${productId}" style="display: inline-block; background: #8d3038; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-size: 14px; margin-top: 16px;">Shop Now</a>
-    <p style="color: #a8a29e; font-size: 12px; margin-top: 24px;">You received this email because you signed up to be notified.</p>
-  </div>`;
-}
-
 // ============================================
 // PUBLIC ENDPOINTS
 // ============================================
@@ -124,29 +112,45 @@ waitlistRoutes.get('/', adminAuth, async (c) => {
       customerName: waitlist.customerName,
       status: waitlist.status,
       notifiedAt: waitlist.notifiedAt,
+      holdExpiresAt: waitlist.holdExpiresAt,
+      purchasedAt: waitlist.purchasedAt,
+      orderId: waitlist.orderId,
+      orderNumber: orders.orderNumber,
       createdAt: waitlist.createdAt,
     })
     .from(waitlist)
     .leftJoin(products, eq(waitlist.productId, products.id))
+    .leftJoin(orders, eq(waitlist.orderId, orders.id))
     .where(where)
     .orderBy(desc(waitlist.createdAt))
     .all();
 
   // Fetch stats
-  const [totalWaitingResult, totalNotifiedResult, totalProductsResult] = await Promise.all([
+  const [totalWaitingResult, totalNotifiedResult, totalPurchasedResult, totalProductsResult] = await Promise.all([
     db.select({ count: sql<number>`count(*)` }).from(waitlist)
       .where(eq(waitlist.status, 'waiting')).get(),
     db.select({ count: sql<number>`count(*)` }).from(waitlist)
       .where(eq(waitlist.status, 'notified')).get(),
+    db.select({ count: sql<number>`count(*)` }).from(waitlist)
+      .where(eq(waitlist.status, 'purchased')).get(),
     db.select({ count: countDistinct(waitlist.productId) }).from(waitlist)
       .where(eq(waitlist.status, 'waiting')).get(),
   ]);
 
+  // Conversion: of everyone told a product was back, how many went on to buy it
+  const totalNotified = totalNotifiedResult?.count || 0;
+  const totalPurchased = totalPurchasedResult?.count || 0;
+  const conversionRate = totalNotified + totalPurchased > 0
+    ? Math.round((totalPurchased / (totalNotified + totalPurchased)) * 1000) / 10
+    : 0;
+
   return c.json({
     entries,
     stats: {
       totalWaiting: totalWaitingResult?.count || 0,
-      totalNotified: totalNotifiedResult?.count || 0,
+      totalNotified,
+      totalPurchased,
+      conversionRate,
       totalProducts: totalProductsResult?.count || 0,
     },
   });
@@ -177,7 +181,20 @@ waitlistRoutes.post('/:id/notify', adminAuth, async (c) => {
   const subject = `${product.name} is back in stock!`;
   const htmlBody = buildNotificationEmail(product.name, entry.productId, baseUrl);
 
-  await sendEmail(c.env, entry.email, subject, htmlBody);
+  const result = await deliverEmail(c.env, db, {
+    to: entry.email,
+    subject,
+    html: htmlBody,
+    category: 'transactional',
+    kind: 'waitlist',
+    referenceId: entry.id,
+  });
+  if (result.status === 'skipped') {
+    return c.json({ error: `Cannot email ${entry.email}: ${EMAIL_SKIP_REASON_LABELS[result.reason].toLowerCase()}` }, 422);
+  }
+  if (result.status === 'failed') {
+    return c.json({ error: `Failed to send email: ${result.error}` }, 500);
+  }
 
   // Update status to notified
   await db.update(waitlist)
@@ -209,20 +226,31 @@ waitlistRoutes.post('/product/:productId/notify-all', adminAuth, async (c) => {
   const subject = `${product.name} is back in stock!`;
   let notified = 0;
 
+  let skipped = 0;
+
   for (const entry of entries) {
-    try {
-      const htmlBody = buildNotificationEmail(product.name, productId, baseUrl);
-      await sendEmail(c.env, entry.email, subject, htmlBody);
+    const htmlBody = buildNotificationEmail(product.name, productId, baseUrl);
+    const result = await deliverEmail(c.env, db, {
+      to: entry.email,
+      subject,
+      html: htmlBody,
+      category: 'transactional',
+      kind: 'waitlist',
+      referenceId: entry.id,
+    });
+    if (result.status === 'sent') {
       await db.update(waitlist)
         .set({ status: 'notified', notifiedAt: new Date().toISOString() })
         .where(eq(waitlist.id, entry.id));
       notified++;
-    } catch (err) {
-      console.error(`Failed to notify waitlist entry ${entry.id}:`, err);
+    } else if (result.status === 'skipped') {
+      skipped++;
+    } else {
+      console.error(`Failed to notify waitlist entry ${entry.id}:`, result.error);
     }
   }
 
-  return c.json({ notified });
+  return c.json({ notified, skipped });
 });
 
 // DELETE /api/waitlist/:id - Remove a waitlist entry (admin)
@@ -0,0 +1,42 @@
+import { Hono } from 'hono';
+import { verifyResendSignature, handleResendEvent, type ResendWebhookEvent } from '../utils/resendWebhooks';
+import type { Bindings, Variables } from '../index';
+
+export const webhooksRoutes = new Hono<{ Bindings: Bindings; Variables: Variables }>();
+
+// POST /api/webhooks/resend - Resend delivery, bounce and complaint events
+webhooksRoutes.post('/resend', async (c) => {
+  const db = c.get('db');
+  const webhookSecret = c.env.RESEND_WEBHOOK_SECRET;
+  const headers = {
+    id: c.req.header('svix-id'),
+    timestamp: c.req.header('svix-timestamp'),
+    signature: c.req.header('svix-signature'),
+  };
+
+  if (!headers.signature || !webhookSecret) {
+    return c.json({ error: 'Missing signature or webhook secret' }, 400);
+  }
+
+  const rawBody = await c.req.text();
+  if (!(await verifyResendSignature(webhookSecret, headers, rawBody))) {
+    console.error('Resend webhook signature verification failed');
+    return c.json({ error: 'Webhook Error' }, 400);
+  }
+
+  let event: ResendWebhookEvent;
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    return c.json({ error: 'Invalid payload' }, 400);
+  }
+
+  try {
+    const result = await handleResendEvent(db, event);
+    return c.json({ received: true, status: result.status });
+  } catch (err: any) {
+    // A non-2xx response makes Resend retry the delivery
+    console.error(`Resend webhook ${event.type} failed:`, err);
+    return c.json({ error: 'Webhook handler failed' }, 500);
+  }
+});
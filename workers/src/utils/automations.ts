@@ -1,23 +1,48 @@
-import { eq, and } from 'drizzle-orm';
-import { emailAutomations, automationQueue } from '../db/schema';
-import type { AutomationStep } from '../db/schema';
+import { eq, and, or, isNull, sql } from 'drizzle-orm';
+import { emailAutomations, automationQueue, automationEnrollments } from '../db/schema';
+import type { AutomationStep, AutomationTrigger } from '../db/schema';
 
 type DB = any; // DrizzleD1Database type
 
-type TriggerType =
-  | 'newsletter_signup'
-  | 'purchase'
-  | 'coaching_inquiry'
-  | 'contact_form'
-  | 'manual'
-  | 'form_submission_received'
-  | 'order_placed'
-  | 'order_fulfilled_or_delivered'
-  | 'cart_abandoned';
-
-interface TriggerContext {
+export type TriggerType = AutomationTrigger;
+
+export const TRIGGER_TYPES: TriggerType[] = [
+  'newsletter_signup',
+  'purchase',
+  'coaching_inquiry',
+  'contact_form',
+  'manual',
+  'form_submission_received',
+  'order_placed',
+  'order_fulfilled_or_delivered',
+  'cart_abandoned',
+];
+
+/**
+ * Triggers an automation can send transactional emails from: order receipts
+ * and shipping notices, which an address that has unsubscribed from
+ * marketing still gets. Anything else an automation sends is marketing.
+ */
+export const TRANSACTIONAL_TRIGGERS: TriggerType[] = ['order_placed', 'order_fulfilled_or_delivered'];
+
+/** Check an automation's email category against the triggers it runs on. */
+export function validateEmailCategory(category: unknown, triggers: string[]): string | null {
+  if (category !== 'transactional' && category !== 'marketing') {
+    return 'emailCategory must be "transactional" or "marketing"';
+  }
+  if (category === 'transactional' && triggers.some(t => !(TRANSACTIONAL_TRIGGERS as string[]).includes(t))) {
+    return 'Only order placed and order fulfilled automations can send transactional emails';
+  }
+  return null;
+}
+
+export interface TriggerContext {
+  cart_id?: string; // the abandoned cart, for the cart_recovered goal
   customer_first_name?: string;
   order_id?: string;
+  order_number?: string;
+  order_total?: string;
+  order_items?: string; // HTML list of the order's lines
   order_tracking_number?: string;
   order_tracking_url?: string;
   cart_recovery_url?: string;
@@ -29,12 +54,15 @@ interface TriggerContext {
   qty?: string;
 }
 
-function replacePlaceholders(text: string, name: string | undefined, ctx?: TriggerContext): string {
+export function replacePlaceholders(text: string, name: string | undefined, ctx?: TriggerContext): string {
   let result = text;
   result = result.replace(/\{\{name\}\}/g, name || 'there');
   result = result.replace(/\{\{customer_first_name\}\}/g, ctx?.customer_first_name || name || 'there');
   if (ctx) {
     result = result.replace(/\{\{order_id\}\}/g, ctx.order_id || '');
+    result = result.replace(/\{\{order_number\}\}/g, ctx.order_number || '');
+    result = result.replace(/\{\{order_total\}\}/g, ctx.order_total || '');
+    result = result.replace(/\{\{order_items\}\}/g, ctx.order_items || '');
     result = result.replace(/\{\{order_tracking_number\}\}/g, ctx.order_tracking_number || '');
     result = result.replace(/\{\{order_tracking_url\}\}/g, ctx.order_tracking_url || '#');
     result = result.replace(/\{\{cart_recovery_url\}\}/g, ctx.cart_recovery_url || '#');
@@ -58,7 +86,10 @@ export async function triggerAutomation(
   // Find active, enabled automations matching this trigger
   const activeAutomations = await db.select().from(emailAutomations)
     .where(and(
-      eq(emailAutomations.trigger, triggerType),
+      or(
+        eq(emailAutomations.trigger, triggerType),
+        sql`EXISTS (SELECT 1 FROM json_each(${emailAutomations.extraTriggers}) WHERE value = ${triggerType})`,
+      ),
       eq(emailAutomations.status, 'active'),
       eq(emailAutomations.enabled, true)
     ))
@@ -69,6 +100,12 @@ export async function triggerAutomation(
   let queued = false;
 
   for (const automation of activeAutomations) {
+    // Workflow automation: enrol the contact and let the cron job run it
+    if (automation.workflow?.nodes?.length) {
+      if (await enrollContact(db, automation, triggerType, email, name, ctx)) queued = true;
+      continue;
+    }
+
     // Check one-time-per-recipient constraint
     if (automation.oneTimePerRecipient) {
       const existing = await db.select().from(automationQueue)
@@ -135,3 +172,54 @@ export async function triggerAutomation(
 
   return queued;
 }
+
+/**
+ * Start a contact at the top of a workflow. Someone already part-way through
+ * it isn't enrolled again, and with one-time-per-recipient nor is anyone who
+ * has ever been through it. Returns whether they were enrolled.
+ */
+async function enrollContact(
+  db: DB,
+  automation: any,
+  triggerType: TriggerType,
+  email: string,
+  name?: string,
+  ctx?: TriggerContext,
+): Promise<boolean> {
+  const existing = await db.select({ id: automationEnrollments.id })
+    .from(automationEnrollments)
+    .where(and(
+      eq(automationEnrollments.automationId, automation.id),
+      eq(automationEnrollments.email, email),
+      automation.oneTimePerRecipient ? undefined : eq(automationEnrollments.status, 'active'),
+    ))
+    .get();
+  if (existing) return false;
+
+  const now = new Date().toISOString();
+  await db.insert(automationEnrollments).values({
+    automationId: automation.id,
+    email,
+    name: name || null,
+    trigger: triggerType,
+    context: ctx || null,
+    currentNodeId: automation.workflow.startNodeId,
+    nextRunAt: now,
+  });
+  return true;
+}
+
+/**
+ * Note a paid order against the buyer's workflows in progress, for the
+ * purchased goal and condition. Orders don't keep the buyer's email, so
+ * this is recorded when the purchase trigger fires rather than looked up.
+ */
+export async function recordWorkflowPurchase(db: DB, email: string) {
+  await db.update(automationEnrollments)
+    .set({ purchasedAt: new Date().toISOString(), updatedAt: new Date().toISOString() })
+    .where(and(
+      sql`lower(${automationEnrollments.email}) = ${email.toLowerCase()}`,
+      eq(automationEnrollments.status, 'active'),
+      isNull(automationEnrollments.purchasedAt),
+    ));
+}
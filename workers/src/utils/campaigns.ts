@@ -0,0 +1,622 @@
+import { eq, and, lte, or, isNull, inArray, sql } from 'drizzle-orm';
+import { campaigns, campaignEvents, subscribers, segments, type CampaignVariant } from '../db/schema';
+import { logActivity } from './activityLog';
+import { SCHEDULER_ACTOR } from './publishing';
+import { segmentRecipients, refreshSegmentCount, type SegmentRules } from './segments';
+import { API_BASE_URL, renderMergeTags, type MergeTagSubscriber } from './email';
+import { unsubscribeLinks, receivesCampaignsNow } from './preferences';
+import { deliverEmailBatch, type OutboundEmail } from './emailGateway';
+import type { Bindings } from '../index';
+
+type DB = any; // DrizzleD1Database type
+
+type Recipient = { email: string; subscriberId: string; variant?: string };
+
+/** Resend accepts up to 100 emails per batch request. */
+const CAMPAIGN_BATCH_SIZE = 100;
+
+/** Batches sent per cron tick, so one tick stays well inside the Worker's limits. */
+const CAMPAIGN_BATCHES_PER_RUN = 10;
+
+/** How long a tick holds a campaign. Longer than any tick can run, so a stale lock means the tick died. */
+const SEND_LOCK_MINUTES = 15;
+
+/** Consecutive failed batches before a campaign is marked failed. */
+const MAX_SEND_ATTEMPTS = 3;
+
+/** Ids for variants beyond the campaign's own content, which is variant A. */
+export const CAMPAIGN_VARIANT_IDS = ['B', 'C', 'D'];
+
+export const AB_WINNER_METRICS = ['open_rate', 'click_rate'] as const;
+export type AbWinnerMetric = typeof AB_WINNER_METRICS[number];
+
+// ============================================
+// SCHEDULING
+// ============================================
+
+/** Offset of a time zone from UTC at the given moment, in milliseconds. */
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - date.getTime();
+}
+
+/**
+ * The UTC instant for a wall-clock time ("2025-03-01T09:00") in a time zone,
+ * or null if either is invalid. Values that already carry an offset are
+ * taken as they are.
+ */
+export function zonedTimeToUtc(value: string, timeZone?: string | null): Date | null {
+  if (!value) return null;
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(value) || !timeZone) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const asUtc = new Date(`${value.length === 16 ? `${value}:00` : value}Z`);
+  if (isNaN(asUtc.getTime())) return null;
+
+  try {
+    // Second pass settles times either side of a daylight saving change
+    const first = new Date(asUtc.getTime() - timeZoneOffset(asUtc, timeZone));
+    return new Date(asUtc.getTime() - timeZoneOffset(first, timeZone));
+  } catch {
+    return null; // Unknown time zone
+  }
+}
+
+// ============================================
+// RECIPIENTS
+// ============================================
+
+/** Subscribers matching a campaign's legacy source/tag filters. */
+async function getSegmentRecipients(db: DB, segmentFilters: any): Promise<Recipient[]> {
+  if (!segmentFilters) return [];
+  const subs = await db.select({ id: subscribers.id, email: subscribers.email, source: subscribers.source, tags: subscribers.tags })
+    .from(subscribers)
+    .where(and(eq(subscribers.subscribed, true), receivesCampaignsNow()))
+    .all();
+
+  let filtered = subs;
+  if (segmentFilters.sources?.length) {
+    const sourceSet = new Set(segmentFilters.sources);
+    filtered = filtered.filter((s: any) => s.source && sourceSet.has(s.source));
+  }
+  if (segmentFilters.tags?.length) {
+    const tagSet = new Set(segmentFilters.tags);
+    filtered = filtered.filter((s: any) => {
+      const subTags = (s.tags as string[]) || [];
+      return subTags.some((t: string) => tagSet.has(t));
+    });
+  }
+  return filtered.map((s: any) => ({ email: s.email, subscriberId: s.id }));
+}
+
+/**
+ * Who a campaign goes to right now. Called when sending starts, not when it's
+ * scheduled. A saved segment is evaluated afresh (and its cached count
+ * updated); inline rules are evaluated the same way; anything else falls back
+ * to the legacy source/tag filters. Paused subscribers, and those who've
+ * asked to hear from us less often and were emailed recently, are left out.
+ */
+export async function resolveCampaignRecipients(db: DB, campaign: any): Promise<Recipient[]> {
+  if (campaign.audience === 'all') {
+    const subs = await db.select({ id: subscribers.id, email: subscribers.email })
+      .from(subscribers)
+      .where(and(eq(subscribers.subscribed, true), receivesCampaignsNow()))
+      .all();
+    return subs.map((s: any) => ({ email: s.email, subscriberId: s.id }));
+  }
+
+  if (campaign.segmentId) {
+    const segment = await db.select().from(segments).where(eq(segments.id, campaign.segmentId)).get();
+    if (!segment) return [];
+    await refreshSegmentCount(db, segment);
+    return segmentRecipients(db, segment.rules as SegmentRules, receivesCampaignsNow());
+  }
+
+  if (Array.isArray(campaign.segmentFilters?.conditions)) {
+    return segmentRecipients(db, campaign.segmentFilters as SegmentRules, receivesCampaignsNow());
+  }
+
+  return getSegmentRecipients(db, campaign.segmentFilters);
+}
+
+// ============================================
+// PERSONALISATION & TRACKING
+// ============================================
+
+const LINK_PATTERN = /<a\s([^>]*?)href=["']([^"']+)["']/gi;
+
+/** Links worth tracking: not mail/phone/anchor links, and not the unsubscribe link. */
+function isTrackedLink(url: string): boolean {
+  return !/^(mailto:|tel:|#)/i.test(url) && !url.includes('unsubscribe_url');
+}
+
+/**
+ * A campaign's tracked links in order, as written (merge tags and all). The
+ * click route looks links up here by index, so a tracking URL can only ever
+ * redirect to a link that's really in the campaign.
+ */
+export function campaignLinks(html: string): string[] {
+  const links: string[] = [];
+  for (const match of html.matchAll(LINK_PATTERN)) {
+    if (isTrackedLink(match[2])) links.push(match[2]);
+  }
+  return links;
+}
+
+/** Point an email's tracked links at `trackingUrl(index)`, numbered as in campaignLinks. */
+export function trackLinks(html: string, trackingUrl: (linkIndex: number) => string): string {
+  let linkIndex = 0;
+  return html.replace(LINK_PATTERN, (match, prefix, url) => {
+    if (!isTrackedLink(url)) return match;
+    return `<a ${prefix}href="${trackingUrl(linkIndex++)}"`;
+  });
+}
+
+/** Add a tracking pixel just inside </body>, or at the end if there isn't one. */
+export function addTrackingPixel(html: string, pixelUrl: string): string {
+  const pixel = `<img src="${pixelUrl}" width="1" height="1" style="display:block;width:1px;height:1px;border:0;" alt="" />`;
+  return html.includes('</body>') ? html.replace('</body>', `${pixel}</body>`) : html + pixel;
+}
+
+export function campaignTrackingUrl(campaignId: string, subscriberId: string, action: 'open' | 'click', linkIndex?: number): string {
+  const base = `${API_BASE_URL}/api/newsletter/track/campaign/${campaignId}/${subscriberId}`;
+  return action === 'open' ? `${base}/open.gif` : `${base}/click/${linkIndex}`;
+}
+
+/**
+ * One recipient's copy of a campaign: merge tags filled in and, when there's
+ * a subscriber to attribute them to, links routed through click tracking and
+ * an open pixel added.
+ */
+export function renderCampaignHtml(
+  campaign: { id: string; bodyHtml: string | null },
+  subscriber: MergeTagSubscriber & { id?: string },
+  unsubscribeUrl: string,
+): string {
+  let html = campaign.bodyHtml || '';
+
+  if (subscriber.id) {
+    html = trackLinks(html, linkIndex => campaignTrackingUrl(campaign.id, subscriber.id!, 'click', linkIndex));
+  }
+
+  html = renderMergeTags(html, subscriber, { unsubscribe_url: unsubscribeUrl });
+
+  if (subscriber.id) {
+    html = addTrackingPixel(html, campaignTrackingUrl(campaign.id, subscriber.id, 'open'));
+  }
+  return html;
+}
+
+// ============================================
+// A/B TESTS
+// ============================================
+
+/**
+ * Check A/B test settings from the compose page. Only the fields present are
+ * checked; `variants: null` turns testing off.
+ */
+export function validateAbTest(input: {
+  variants?: unknown;
+  abTestPercent?: unknown;
+  abWinnerMetric?: unknown;
+  abTestWindowHours?: unknown;
+}): string | null {
+  const { variants, abTestPercent, abWinnerMetric, abTestWindowHours } = input;
+
+  if (variants !== undefined && variants !== null) {
+    if (!Array.isArray(variants) || variants.length === 0 || variants.length > CAMPAIGN_VARIANT_IDS.length) {
+      return `An A/B test needs between 2 and ${CAMPAIGN_VARIANT_IDS.length + 1} variants`;
+    }
+    const seen = new Set<string>();
+    for (const variant of variants as CampaignVariant[]) {
+      if (!CAMPAIGN_VARIANT_IDS.includes(variant?.id) || seen.has(variant.id)) {
+        return `Variant ids must be unique and one of ${CAMPAIGN_VARIANT_IDS.join(', ')}`;
+      }
+      seen.add(variant.id);
+      if (!variant.subject?.trim() && !variant.bodyHtml) {
+        return `Variant ${variant.id} needs its own subject line or content`;
+      }
+      if (variant.subject && variant.subject.length > 150) {
+        return `Variant ${variant.id}'s subject line is too long`;
+      }
+    }
+  }
+
+  if (abTestPercent !== undefined) {
+    const percent = Number(abTestPercent);
+    if (!Number.isInteger(percent) || percent < 10 || percent > 100) {
+      return 'Test size must be a whole percentage between 10 and 100';
+    }
+  }
+  if (abWinnerMetric !== undefined && !AB_WINNER_METRICS.includes(abWinnerMetric as AbWinnerMetric)) {
+    return `Winner metric must be one of ${AB_WINNER_METRICS.join(', ')}`;
+  }
+  if (abTestWindowHours !== undefined) {
+    const hours = Number(abTestWindowHours);
+    if (!Number.isInteger(hours) || hours < 1 || hours > 168) {
+      return 'Test window must be between 1 and 168 hours';
+    }
+  }
+  return null;
+}
+
+/** Variant ids a campaign sends, A first. Just ['A'] when it isn't a test. */
+export function campaignVariantIds(campaign: { variants?: CampaignVariant[] | null }): string[] {
+  return ['A', ...(campaign.variants || []).map(v => v.id)];
+}
+
+/** What a variant sends: its own subject and body, or variant A's where it doesn't change them. */
+export function campaignVariantContent(
+  campaign: { subject: string; bodyHtml: string | null; variants?: CampaignVariant[] | null },
+  variantId?: string | null,
+): { subject: string; bodyHtml: string | null } {
+  const variant = variantId ? campaign.variants?.find(v => v.id === variantId) : undefined;
+  return {
+    subject: variant?.subject?.trim() || campaign.subject,
+    bodyHtml: variant?.bodyHtml || campaign.bodyHtml,
+  };
+}
+
+/**
+ * Shuffle the audience and deal the first `percent` of it out across the
+ * variants in turn. They're sent first; the rest wait for the winner. Every
+ * variant gets at least one recipient where the audience allows.
+ */
+function splitForAbTest(recipients: Recipient[], variantIds: string[], percent: number) {
+  const shuffled = [...recipients];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const testSize = Math.min(shuffled.length, Math.max(variantIds.length, Math.round(shuffled.length * percent / 100)));
+  return {
+    recipients: shuffled.map((r, i) => (i < testSize ? { ...r, variant: variantIds[i % variantIds.length] } : r)),
+    testSize,
+  };
+}
+
+export interface VariantResult {
+  id: string;
+  subject: string;
+  delivered: number;
+  opened: number;
+  clicked: number;
+  openRate: number;
+  clickRate: number;
+}
+
+/**
+ * How each variant did with its share of the test. Counts are of distinct
+ * subscribers, so repeat opens and clicks don't tip the result; the
+ * remainder sent to the winner isn't included.
+ */
+export async function variantResults(db: DB, campaign: any): Promise<VariantResult[]> {
+  const variantExpr = sql<string>`json_extract(${campaignEvents.metadata}, '$.variant')`;
+  const rows = await db.select({
+    variant: variantExpr,
+    eventType: campaignEvents.eventType,
+    count: sql<number>`COUNT(DISTINCT ${campaignEvents.subscriberId})`,
+  })
+    .from(campaignEvents)
+    .where(and(
+      eq(campaignEvents.campaignId, campaign.id),
+      inArray(campaignEvents.eventType, ['delivered', 'opened', 'clicked']),
+      sql`${variantExpr} IS NOT NULL`,
+    ))
+    .groupBy(variantExpr, campaignEvents.eventType)
+    .all();
+
+  return campaignVariantIds(campaign).map((id) => {
+    const count = (type: string) => rows.find((r: any) => r.variant === id && r.eventType === type)?.count ?? 0;
+    const delivered = count('delivered');
+    const opened = count('opened');
+    const clicked = count('clicked');
+    return {
+      id,
+      subject: campaignVariantContent(campaign, id).subject,
+      delivered,
+      opened,
+      clicked,
+      openRate: delivered > 0 ? (opened / delivered) * 100 : 0,
+      clickRate: delivered > 0 ? (clicked / delivered) * 100 : 0,
+    };
+  });
+}
+
+/** The variant a test recipient was sent, from their delivered event. Null for everyone else. */
+export async function recipientVariant(db: DB, campaignId: string, subscriberId: string): Promise<string | null> {
+  const delivered = await db.select({ metadata: campaignEvents.metadata })
+    .from(campaignEvents)
+    .where(and(
+      eq(campaignEvents.campaignId, campaignId),
+      eq(campaignEvents.subscriberId, subscriberId),
+      eq(campaignEvents.eventType, 'delivered'),
+    ))
+    .get();
+  return delivered?.metadata?.variant || null;
+}
+
+/**
+ * Move an A/B test on once its batches are out: start the clock, then when
+ * the window has passed pick the variant with the best rate for the
+ * campaign's metric (ties go to the earlier variant) so the rest can be sent.
+ */
+async function settleAbTest(db: DB, campaign: any) {
+  const now = new Date();
+
+  if (!campaign.abTestEndsAt) {
+    const endsAt = new Date(now.getTime() + campaign.abTestWindowHours * 60 * 60 * 1000).toISOString();
+    console.log(`[Cron] Campaign ${campaign.id} test batches sent; picking a winner at ${endsAt}`);
+    return db.update(campaigns)
+      .set({ abTestEndsAt: endsAt, updatedAt: now.toISOString() })
+      .where(eq(campaigns.id, campaign.id))
+      .returning().get();
+  }
+  if (campaign.abTestEndsAt > now.toISOString()) return campaign;
+
+  const rate = campaign.abWinnerMetric === 'click_rate' ? 'clickRate' : 'openRate';
+  const results = await variantResults(db, campaign);
+  const winner = results.reduce((best, result) => (result[rate] > best[rate] ? result : best));
+
+  const updated = await db.update(campaigns)
+    .set({ abWinner: winner.id, updatedAt: now.toISOString() })
+    .where(eq(campaigns.id, campaign.id))
+    .returning().get();
+  await logActivity(db, 'update', 'campaign', updated, SCHEDULER_ACTOR, { abWinner: { old: null, new: winner.id } });
+  console.log(`[Cron] Campaign ${campaign.id} A/B test won by variant ${winner.id} (${winner[rate].toFixed(1)}% ${campaign.abWinnerMetric.replace('_', ' ')})`);
+  return updated;
+}
+
+/** Subscriber details for merge tags, keyed by id. */
+async function loadMergeData(db: DB, batch: Recipient[]): Promise<Map<string, MergeTagSubscriber>> {
+  const byId = new Map<string, MergeTagSubscriber>();
+  const ids = batch.map(r => r.subscriberId).filter(Boolean);
+  // D1 allows 100 bound parameters per query
+  for (let i = 0; i < ids.length; i += 90) {
+    const rows = await db.select({
+      id: subscribers.id,
+      email: subscribers.email,
+      name: subscribers.name,
+      firstName: subscribers.firstName,
+      lastName: subscribers.lastName,
+      source: subscribers.source,
+      customFields: subscribers.customFields,
+    })
+      .from(subscribers)
+      .where(inArray(subscribers.id, ids.slice(i, i + 90)))
+      .all();
+    for (const row of rows) byId.set(row.id, row);
+  }
+  return byId;
+}
+
+// ============================================
+// SENDING
+// ============================================
+
+/**
+ * Freeze the audience and move a campaign to `sending`. The batches
+ * themselves go out from `continueCampaignSend`. Returns null if the campaign
+ * was already started elsewhere.
+ */
+export async function startCampaignSend(db: DB, campaign: any, user: any = SCHEDULER_ACTOR) {
+  const now = new Date().toISOString();
+
+  if (!campaign.bodyHtml) {
+    const failed = await db.update(campaigns)
+      .set({ status: 'failed', sendError: 'Campaign has no HTML content', updatedAt: now })
+      .where(and(eq(campaigns.id, campaign.id), eq(campaigns.status, campaign.status)))
+      .returning().get();
+    if (failed) {
+      await logActivity(db, 'update', 'campaign', failed, user, { status: { old: campaign.status, new: 'failed' } });
+    }
+    return null;
+  }
+
+  let recipients = await resolveCampaignRecipients(db, campaign);
+  let testSize = 0;
+  if (campaign.variants?.length) {
+    ({ recipients, testSize } = splitForAbTest(recipients, campaignVariantIds(campaign), campaign.abTestPercent));
+  }
+
+  const result = await db.update(campaigns)
+    .set({
+      status: 'sending',
+      recipientSnapshot: recipients,
+      recipientCount: recipients.length,
+      abTestSize: testSize,
+      abTestEndsAt: null,
+      abWinner: null,
+      sendOffset: 0,
+      deliveredCount: 0,
+      failedCount: 0,
+      skippedCount: 0,
+      sendAttempts: 0,
+      sendError: null,
+      sendStartedAt: now,
+      sendLockedUntil: null,
+      updatedAt: now,
+    })
+    .where(and(eq(campaigns.id, campaign.id), eq(campaigns.status, campaign.status)))
+    .returning().get();
+  if (!result) return null;
+
+  await logActivity(db, 'send', 'campaign', result, user);
+  return result;
+}
+
+/**
+ * Send one batch through the email gateway. Test recipients get their
+ * variant and everyone else the winner (or the campaign itself when it isn't
+ * a test). Returns the recipients Resend accepted and how many were left out
+ * for having unsubscribed or been suppressed since the audience was frozen.
+ */
+async function sendBatch(env: Bindings, db: DB, campaign: any, batch: Recipient[], offset: number, mergeData: Map<string, MergeTagSubscriber>) {
+  const unsubscribe = await Promise.all(batch.map(recipient => unsubscribeLinks(env, recipient.email, campaign.id)));
+
+  const emails: OutboundEmail[] = batch.map((recipient, i) => {
+    const content = campaignVariantContent(campaign, recipient.variant || campaign.abWinner);
+    return {
+      from: `Lyne Tilt <${env.ADMIN_EMAIL}>`,
+      to: recipient.email,
+      subject: content.subject,
+      html: renderCampaignHtml({ id: campaign.id, bodyHtml: content.bodyHtml }, {
+        ...(mergeData.get(recipient.subscriberId) || { email: recipient.email }),
+        id: recipient.subscriberId,
+      }, unsubscribe[i].url),
+      headers: unsubscribe[i].headers,
+      tags: [
+        { name: 'campaign_id', value: campaign.id },
+        { name: 'subscriber_id', value: recipient.subscriberId },
+      ],
+      category: 'marketing',
+      kind: 'campaign',
+      referenceId: campaign.id,
+    };
+  });
+
+  // A retried batch is recognised by Resend and not sent again
+  const { results, error, retryable } = await deliverEmailBatch(env, db, emails, `campaign-${campaign.id}-${offset}`);
+
+  const sent = batch.flatMap((recipient, i) => {
+    const result = results[i];
+    return result.status === 'sent' ? [{ ...recipient, emailId: result.providerId || undefined }] : [];
+  });
+  const skipped = results.filter(r => r.status === 'skipped').length;
+  return { sent, skipped, error, retryable };
+}
+
+async function recordDelivered(db: DB, campaignId: string, sent: Array<Recipient & { emailId?: string }>) {
+  if (sent.length === 0) return;
+  // D1 allows 100 bound parameters per query
+  for (let i = 0; i < sent.length; i += 12) {
+    await db.insert(campaignEvents).values(sent.slice(i, i + 12).map((recipient) => {
+      // Test recipients carry their variant so opens and clicks can be credited to it
+      const metadata = {
+        ...(recipient.emailId ? { emailId: recipient.emailId } : {}),
+        ...(recipient.variant ? { variant: recipient.variant } : {}),
+      };
+      return {
+        campaignId,
+        subscriberId: recipient.subscriberId,
+        email: recipient.email,
+        eventType: 'delivered' as const,
+        metadata: Object.keys(metadata).length > 0 ? metadata : null,
+      };
+    }));
+  }
+
+  // Frequency preferences are measured from the last email
+  const now = new Date().toISOString();
+  const ids = sent.map(r => r.subscriberId).filter(Boolean);
+  for (let i = 0; i < ids.length; i += 90) {
+    await db.update(subscribers)
+      .set({ lastEmailedAt: now, emailsReceived: sql`COALESCE(${subscribers.emailsReceived}, 0) + 1` })
+      .where(inArray(subscribers.id, ids.slice(i, i + 90)));
+  }
+}
+
+/**
+ * Work through the next few batches of a campaign that's sending. Progress is
+ * saved after every batch, so the next tick picks up where this one stopped.
+ * An A/B test sends its test cohort first and holds the rest until a winner
+ * is picked.
+ */
+export async function continueCampaignSend(env: Bindings, db: DB, campaignId: string) {
+  const now = new Date();
+  const lockedUntil = new Date(now.getTime() + SEND_LOCK_MINUTES * 60 * 1000).toISOString();
+
+  // Claim the campaign so an overlapping tick leaves it alone
+  let campaign = await db.update(campaigns)
+    .set({ sendLockedUntil: lockedUntil })
+    .where(and(
+      eq(campaigns.id, campaignId),
+      eq(campaigns.status, 'sending'),
+      or(isNull(campaigns.sendLockedUntil), lte(campaigns.sendLockedUntil, now.toISOString())),
+    ))
+    .returning().get();
+  if (!campaign) return;
+
+  const recipients: Recipient[] = campaign.recipientSnapshot || [];
+  const testing = () => campaign.abTestSize > 0 && !campaign.abWinner;
+
+  try {
+    for (let run = 0; run < CAMPAIGN_BATCHES_PER_RUN; run++) {
+      const end = testing() ? campaign.abTestSize : recipients.length;
+      const offset = campaign.sendOffset;
+      if (offset >= end) break;
+      const batch = recipients.slice(offset, Math.min(offset + CAMPAIGN_BATCH_SIZE, end));
+      const result = await sendBatch(env, db, campaign, batch, offset, await loadMergeData(db, batch));
+
+      if (result.error && result.retryable) {
+        const attempts = campaign.sendAttempts + 1;
+        const failed = attempts >= MAX_SEND_ATTEMPTS;
+        campaign = await db.update(campaigns)
+          .set({
+            sendAttempts: attempts,
+            sendError: result.error,
+            ...(failed ? { status: 'failed' } : {}),
+            updatedAt: new Date().toISOString(),
+          })
+          .where(eq(campaigns.id, campaignId))
+          .returning().get();
+        console.error(`[Cron] Campaign ${campaignId} batch at ${offset} failed (attempt ${attempts}): ${result.error}`);
+        if (failed) {
+          await logActivity(db, 'update', 'campaign', campaign, SCHEDULER_ACTOR, { status: { old: 'sending', new: 'failed' } });
+        }
+        return;
+      }
+
+      // A batch Resend rejected outright (a malformed address, say) is
+      // counted as failed and passed over rather than holding up everyone else
+      const sent = result.sent;
+      if (result.error) {
+        console.error(`[Cron] Campaign ${campaignId} batch at ${offset} rejected: ${result.error}`);
+      }
+      await recordDelivered(db, campaignId, sent);
+
+      campaign = await db.update(campaigns)
+        .set({
+          sendOffset: offset + batch.length,
+          deliveredCount: sql`${campaigns.deliveredCount} + ${sent.length}`,
+          failedCount: sql`${campaigns.failedCount} + ${batch.length - sent.length - result.skipped}`,
+          skippedCount: sql`${campaigns.skippedCount} + ${result.skipped}`,
+          sendAttempts: 0,
+          sendError: result.error || null,
+          updatedAt: new Date().toISOString(),
+        })
+        .where(eq(campaigns.id, campaignId))
+        .returning().get();
+    }
+
+    if (testing() && campaign.sendOffset >= campaign.abTestSize) {
+      campaign = await settleAbTest(db, campaign);
+    }
+
+    if (campaign.sendOffset >= recipients.length && !testing()) {
+      const finishedAt = new Date().toISOString();
+      await db.update(campaigns)
+        .set({ status: 'sent', sentAt: finishedAt, updatedAt: finishedAt })
+        .where(eq(campaigns.id, campaignId));
+      console.log(`[Cron] Campaign "${campaign.subject}" sent to ${campaign.deliveredCount} of ${recipients.length} recipient(s)`);
+    }
+  } finally {
+    await db.update(campaigns)
+      .set({ sendLockedUntil: null })
+      .where(eq(campaigns.id, campaignId));
+  }
+}
@@ -0,0 +1,308 @@
+import { eq, and, or, sql } from 'drizzle-orm';
+import { discountCodes, discountRedemptions, orders, customerUsers } from '../db/schema';
+
+type DB = any; // DrizzleD1Database type
+
+// Discount codes are checked and applied here rather than by Stripe, so the
+// rules on a code (which products, minimum spend, per-customer limits, first
+// order only) are actually enforced. Stripe only sees the resulting amount.
+
+/** A cart line as the discount engine sees it. */
+export interface DiscountableLine {
+  productId: string | null; // null for coaching, courses and cohorts
+  productSlug: string | null;
+  category: string | null;
+  amountCents: number;      // unit price × quantity
+  quantity: number;
+  giftCard: boolean;        // gift cards are never discounted
+}
+
+export interface DiscountBuyer {
+  customerId?: string | null;
+  email?: string | null;
+}
+
+export interface AppliedDiscount {
+  id: string;
+  code: string;
+  name: string;
+  type: 'percentage' | 'fixed_amount' | 'free_shipping';
+  /** Each line's share of itemsDiscountCents, in the order the lines were given. */
+  lineDiscountCents: number[];
+  itemsDiscountCents: number;
+  shippingDiscountCents: number;
+  totalCents: number;
+}
+
+function toCents(amount: number | string): number {
+  return Math.round(parseFloat(String(amount)) * 100);
+}
+
+export function normalizeDiscountCode(code: string): string {
+  return String(code || '').trim().toUpperCase();
+}
+
+// ============================================
+// LINE ALLOCATION
+// ============================================
+
+/**
+ * Whether a code (or automatic promotion, which has the same targeting) applies
+ * to a cart line. Codes without a row (deleted since) apply to everything.
+ */
+export function isLineEligible(code: any | null, line: DiscountableLine): boolean {
+  if (line.giftCard) return false;
+  if (!code || code.applicableTo === 'all') return true;
+
+  if (code.applicableTo === 'specific_products') {
+    const ids: string[] = code.productIds || [];
+    return !!line.productId && (ids.includes(line.productId) || (!!line.productSlug && ids.includes(line.productSlug)));
+  }
+  if (code.applicableTo === 'specific_categories') {
+    const categories: string[] = (code.categories || []).map((c: string) => c.toLowerCase());
+    return !!line.category && categories.includes(line.category.toLowerCase());
+  }
+  return false;
+}
+
+/**
+ * Split an order discount across the lines it applies to, in proportion to
+ * their amounts. Rounding leftovers go to the largest line so the shares add
+ * up exactly. Used when quoting and again when the order is recorded.
+ */
+export function allocateDiscount(totalCents: number, lines: DiscountableLine[], code: any | null): number[] {
+  const shares = lines.map(() => 0);
+  const eligible = lines.map(l => isLineEligible(code, l));
+  const baseCents = lines.reduce((sum, l, i) => (eligible[i] ? sum + l.amountCents : sum), 0);
+  if (baseCents <= 0 || totalCents <= 0) return shares;
+
+  const discountCents = Math.min(totalCents, baseCents);
+  let allocated = 0;
+  let largest = -1;
+  lines.forEach((line, i) => {
+    if (!eligible[i]) return;
+    shares[i] = Math.floor(discountCents * line.amountCents / baseCents);
+    allocated += shares[i];
+    if (largest < 0 || line.amountCents > lines[largest].amountCents) largest = i;
+  });
+  shares[largest] += discountCents - allocated;
+
+  return shares;
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+export async function findDiscountCode(db: DB, code: string) {
+  const normalized = normalizeDiscountCode(code);
+  if (!normalized) return null;
+  return db.select().from(discountCodes).where(eq(discountCodes.code, normalized)).get() ?? null;
+}
+
+/** How often this buyer has used the code, and whether they've paid for an order before. */
+async function buyerHistory(db: DB, codeId: string, buyer: DiscountBuyer) {
+  const email = buyer.email?.trim().toLowerCase() || null;
+
+  const redemptionMatch: any[] = [];
+  const orderMatch: any[] = [];
+  if (buyer.customerId) {
+    redemptionMatch.push(eq(discountRedemptions.customerId, buyer.customerId));
+    orderMatch.push(eq(orders.userId, buyer.customerId));
+  }
+  if (email) {
+    redemptionMatch.push(eq(discountRedemptions.email, email));
+    orderMatch.push(eq(customerUsers.email, email));
+  }
+
+  const redemptions = await db.select({ count: sql<number>`count(*)` })
+    .from(discountRedemptions)
+    .where(and(eq(discountRedemptions.discountCodeId, codeId), or(...redemptionMatch)))
+    .get();
+
+  const priorOrder = await db.select({ id: orders.id })
+    .from(orders)
+    .leftJoin(customerUsers, eq(orders.userId, customerUsers.id))
+    .where(and(
+      sql`${orders.paymentStatus} IN ('paid', 'partially_refunded', 'refunded')`,
+      or(...orderMatch),
+    ))
+    .get();
+
+  return { timesUsed: Number(redemptions?.count || 0), hasOrdered: !!priorOrder };
+}
+
+/**
+ * Check a code against a cart and buyer and work out what it takes off.
+ * Per-customer limits and first-order codes need to know who is buying; when
+ * requireBuyer is false (previewing a quote before the guest has typed their
+ * email) those checks are skipped and left to create-session.
+ */
+export async function evaluateDiscount(
+  db: DB,
+  codeInput: string,
+  lines: DiscountableLine[],
+  shippingCents: number | null,
+  buyer: DiscountBuyer,
+  requireBuyer = true,
+): Promise<{ discount?: AppliedDiscount; error?: string }> {
+  const code = await findDiscountCode(db, codeInput);
+  const now = new Date().toISOString();
+
+  if (!code || !code.active) {
+    return { error: 'This discount code is not valid' };
+  }
+  if (code.startsAt && now < code.startsAt) {
+    return { error: 'This discount code is not active yet' };
+  }
+  if (code.expiresAt && now >= code.expiresAt) {
+    return { error: 'This discount code has expired' };
+  }
+  if (code.usageLimit && code.usageCount >= code.usageLimit) {
+    return { error: 'This discount code has reached its usage limit' };
+  }
+
+  const subtotalCents = lines.filter(l => !l.giftCard).reduce((sum, l) => sum + l.amountCents, 0);
+  if (code.minOrderAmount && subtotalCents < toCents(code.minOrderAmount)) {
+    return { error: `Spend at least $${Number(code.minOrderAmount).toFixed(2)} to use this code` };
+  }
+
+  const hasBuyer = !!(buyer.customerId || buyer.email);
+  const limitsBuyer = code.firstTimeOnly || code.perCustomerLimit > 0;
+  if (limitsBuyer && !hasBuyer && requireBuyer) {
+    return { error: 'Please enter your email to use this discount code' };
+  }
+  if (limitsBuyer && hasBuyer) {
+    const { timesUsed, hasOrdered } = await buyerHistory(db, code.id, buyer);
+    if (code.firstTimeOnly && hasOrdered) {
+      return { error: 'This discount code is only for your first order' };
+    }
+    if (code.perCustomerLimit > 0 && timesUsed >= code.perCustomerLimit) {
+      return { error: "You've already used this discount code" };
+    }
+  }
+
+  let itemsDiscountCents = 0;
+  let shippingDiscountCents = 0;
+
+  if (code.type === 'free_shipping') {
+    if (shippingCents === null) {
+      return { error: 'This code gives free shipping, but nothing in your cart is shipped' };
+    }
+    shippingDiscountCents = shippingCents;
+  } else {
+    const eligibleCents = lines.reduce((sum, l) => (isLineEligible(code, l) ? sum + l.amountCents : sum), 0);
+    if (eligibleCents <= 0) {
+      return { error: "This discount code doesn't apply to anything in your cart" };
+    }
+
+    itemsDiscountCents = code.type === 'percentage'
+      ? Math.round(eligibleCents * code.value / 100)
+      : Math.min(toCents(code.value), eligibleCents);
+    if (code.maxDiscountAmount) {
+      itemsDiscountCents = Math.min(itemsDiscountCents, toCents(code.maxDiscountAmount));
+    }
+  }
+
+  return {
+    discount: {
+      id: code.id,
+      code: code.code,
+      name: code.name,
+      type: code.type,
+      lineDiscountCents: allocateDiscount(itemsDiscountCents, lines, code),
+      itemsDiscountCents,
+      shippingDiscountCents,
+      totalCents: itemsDiscountCents + shippingDiscountCents,
+    },
+  };
+}
+
+/**
+ * Per-line discounts for the checkout session metadata, keyed by variant,
+ * product or service item id. The webhook builds its lines in a different
+ * order, so they can't go by position. Long maps spill over into
+ * lineDiscounts1, lineDiscounts2… to stay under Stripe's 500 character limit.
+ */
+export function lineDiscountMetadata(entries: Array<[string, number]>): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  let chunk: Record<string, number> = {};
+
+  const flush = () => {
+    if (Object.keys(chunk).length === 0) return;
+    const index = Object.keys(metadata).length;
+    metadata[index === 0 ? 'lineDiscounts' : `lineDiscounts${index}`] = JSON.stringify(chunk);
+    chunk = {};
+  };
+
+  for (const [key, cents] of entries) {
+    if (cents <= 0) continue;
+    const next = { ...chunk, [key]: (chunk[key] || 0) + cents };
+    if (JSON.stringify(next).length > 500) {
+      flush();
+      chunk = { [key]: cents };
+    } else {
+      chunk = next;
+    }
+  }
+  flush();
+
+  return metadata;
+}
+
+export function parseLineDiscountMetadata(metadata: Record<string, string>): Record<string, number> {
+  const cents: Record<string, number> = {};
+  for (const [key, value] of Object.entries(metadata)) {
+    if (!/^lineDiscounts\d*$/.test(key)) continue;
+    try {
+      for (const [id, amount] of Object.entries(JSON.parse(value))) {
+        cents[id] = (cents[id] || 0) + Number(amount);
+      }
+    } catch {}
+  }
+  return cents;
+}
+
+// ============================================
+// REDEMPTIONS
+// ============================================
+
+/**
+ * Statements recording that an order used a code, for the order's batch.
+ * usage_count is bumped in the same batch so limits can't drift from the
+ * redemptions they count.
+ */
+export function redemptionStatements(
+  db: DB,
+  redemption: { discountCodeId: string | null; code: string; orderId: string; customerId: string | null; email: string | null; amount: string },
+): any[] {
+  const statements: any[] = [
+    db.insert(discountRedemptions).values({
+      ...redemption,
+      email: redemption.email?.trim().toLowerCase() || null,
+    }),
+  ];
+  if (redemption.discountCodeId) {
+    statements.push(
+      db.update(discountCodes)
+        .set({ usageCount: sql`${discountCodes.usageCount} + 1` })
+        .where(eq(discountCodes.id, redemption.discountCodeId)),
+    );
+  }
+  return statements;
+}
+
+/** Give a code use back when an order's payment fails. */
+export async function releaseRedemption(db: DB, orderId: string) {
+  const redemption = await db.select().from(discountRedemptions)
+    .where(eq(discountRedemptions.orderId, orderId))
+    .get();
+  if (!redemption) return;
+
+  await db.delete(discountRedemptions).where(eq(discountRedemptions.id, redemption.id));
+  if (redemption.discountCodeId) {
+    await db.update(discountCodes)
+      .set({ usageCount: sql`MAX(0, ${discountCodes.usageCount} - 1)` })
+      .where(eq(discountCodes.id, redemption.discountCodeId));
+  }
+}
@@ -1,31 +1,94 @@
 import { Resend } from 'resend';
+import { unsubscribeLinks } from './preferences';
+import { deliverEmail } from './emailGateway';
 import type { Bindings } from '../index';
 
-export async function sendEmail(env: Bindings, to: string, subject: string, html: string) {
+/** Public URL of this API, for links and images in emails. */
+export const API_BASE_URL = 'https://lyne-tilt-api.verdant-digital-co.workers.dev';
+
+const DEFAULT_FROM = 'Lyne Tilt <hello@lynetilt.com>';
+
+export interface SendEmailOptions {
+  from?: string;
+  headers?: Record<string, string>;
+  tags?: { name: string; value: string }[];
+}
+
+/**
+ * Send straight through Resend. Senders should use deliverEmail in
+ * ./emailGateway instead, which checks the recipient can be emailed and logs it.
+ */
+export async function sendEmail(env: Bindings, to: string, subject: string, html: string, options: SendEmailOptions = {}) {
   const resend = new Resend(env.RESEND_API_KEY);
   const { data, error } = await resend.emails.send({
-    from: 'Lyne Tilt <hello@lynetilt.com>',
+    from: options.from || DEFAULT_FROM,
     to,
     subject,
     html,
+    ...(options.headers ? { headers: options.headers } : {}),
+    ...(options.tags ? { tags: options.tags } : {}),
   });
   if (error) throw new Error(`Resend error: ${error.message}`);
   return data;
 }
 
-export function rewriteLinksForTracking(html: string, sentEmailId: string, subscriberEmail: string, baseUrl: string): string {
+/**
+ * Send up to 100 emails through Resend's batch endpoint. Returns the Resend
+ * ids in the same order, or the error and whether it's worth retrying (rate
+ * limits and server errors are; anything else is a problem with the batch).
+ * `alreadySent` means Resend has already accepted a batch under this
+ * idempotency key with a different payload, i.e. this is a retry of a batch
+ * that went out. Like sendEmail, this is for ./emailGateway to call.
+ */
+export async function sendEmailBatch(
+  env: Bindings,
+  emails: Array<SendEmailOptions & { to: string; subject: string; html: string }>,
+  idempotencyKey?: string,
+): Promise<{ ids: Array<string | undefined> } | { error: string; retryable: boolean; alreadySent?: boolean }> {
+  const res = await fetch('https://api.resend.com/emails/batch', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${env.RESEND_API_KEY}`,
+      ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {}),
+    },
+    body: JSON.stringify(emails.map(email => ({
+      from: email.from || DEFAULT_FROM,
+      to: [email.to],
+      subject: email.subject,
+      html: email.html,
+      ...(email.headers ? { headers: email.headers } : {}),
+      ...(email.tags ? { tags: email.tags } : {}),
+    }))),
+  });
+
+  if (res.ok) {
+    const data = await res.json() as { data?: { id: string }[] };
+    return { ids: emails.map((_, i) => data.data?.[i]?.id) };
+  }
+
+  const error = await res.text();
+  return {
+    error: `Resend ${res.status}: ${error.slice(0, 500)}`,
+    // The first request with this key is still being processed
+    retryable: res.status === 429 || res.status >= 500 || error.includes('concurrent_idempotent_requests'),
+    alreadySent: res.status === 409 && error.includes('invalid_idempotent_request'),
+  };
+}
+
+export function rewriteLinksForTracking(html: string, sentEmailId: string, subscriberEmail: string, baseUrl: string, unsubscribeUrl: string): string {
   // Rewrite <a href="..."> tags to tracking URLs
   let linkIndex = 0;
   let rewritten = html.replace(/<a\s([^>]*?)href=["']([^"']+)["']/gi, (match, prefix, url) => {
-    // Skip mailto: and # links
+    // Skip mailto: and # links, and the unsubscribe link (filled in below, untracked)
     if (url.startsWith('mailto:') || url.startsWith('#') || url.startsWith('tel:')) return match;
+    if (url.includes('unsubscribe_url')) return match;
     const trackUrl = `${baseUrl}/api/newsletter/track/click/${sentEmailId}/${linkIndex}?url=${encodeURIComponent(url)}&email=${encodeURIComponent(subscriberEmail)}`;
     linkIndex++;
     return `<a ${prefix}href="${trackUrl}"`;
   });
 
   // Replace {{unsubscribe_url}} placeholder
-  const unsubscribeUrl = `${baseUrl}/api/newsletter/unsubscribe?email=${encodeURIComponent(subscriberEmail)}`;
   rewritten = rewritten.replace(/\{\{unsubscribe_url\}\}/g, unsubscribeUrl);
 
   // Inject tracking pixel before </body>
@@ -41,16 +104,17 @@ export function rewriteLinksForTracking(html: string, sentEmailId: string, subsc
 
 export async function sendBulkNewsletter(
   env: Bindings,
+  db: any,
   sentEmailId: string,
   subject: string,
   preheader: string | null,
   bodyHtml: string,
   recipientEmails: string[],
   baseUrl: string
-): Promise<{ sent: number; failed: number }> {
-  const resend = new Resend(env.RESEND_API_KEY);
+): Promise<{ sent: number; failed: number; skipped: number }> {
   let sent = 0;
   let failed = 0;
+  let skipped = 0;
 
   // Inject preheader if provided
   let htmlWithPreheader = bodyHtml;
@@ -64,20 +128,86 @@ export async function sendBulkNewsletter(
   }
 
   for (const email of recipientEmails) {
-    try {
-      const personalizedHtml = rewriteLinksForTracking(htmlWithPreheader, sentEmailId, email, baseUrl);
-      await resend.emails.send({
-        from: 'Lyne Tilt <hello@lynetilt.com>',
-        to: email,
-        subject,
-        html: personalizedHtml,
-      });
+    const unsubscribe = await unsubscribeLinks(env, email);
+    const personalizedHtml = rewriteLinksForTracking(htmlWithPreheader, sentEmailId, email, baseUrl, unsubscribe.url);
+    const result = await deliverEmail(env, db, {
+      to: email,
+      subject,
+      html: personalizedHtml,
+      headers: unsubscribe.headers,
+      category: 'marketing',
+      kind: 'newsletter',
+      referenceId: sentEmailId,
+    });
+    if (result.status === 'sent') {
       sent++;
-    } catch (err) {
-      console.error(`Failed to send to ${email}:`, err);
+    } else if (result.status === 'skipped') {
+      skipped++;
+    } else {
+      console.error(`Failed to send to ${email}:`, result.error);
       failed++;
     }
   }
 
-  return { sent, failed };
+  return { sent, failed, skipped };
+}
+
+// ============================================
+// MERGE TAGS
+// ============================================
+
+export interface MergeTagSubscriber {
+  email: string;
+  name?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  source?: string | null;
+  customFields?: Record<string, string> | null;
+}
+
+/** What a tag becomes when the subscriber has no value for it. Matches the editor's merge tag menu. */
+const MERGE_TAG_FALLBACKS: Record<string, string> = {
+  first_name: 'there',
+  subscriber_name: 'Subscriber',
+};
+
+// {{first_name}}, {{ first_name | friend }}, {{custom.favourite_colour}}
+const MERGE_TAG_PATTERN = /\{\{\s*([a-zA-Z0-9_.]+)\s*(?:\|([^}]*))?\}\}/g;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function mergeTagValue(tag: string, subscriber: MergeTagSubscriber, extra: Record<string, string>): string | null {
+  if (extra[tag] !== undefined) return extra[tag];
+
+  const fullName = subscriber.name || [subscriber.firstName, subscriber.lastName].filter(Boolean).join(' ');
+  switch (tag) {
+    case 'first_name': return subscriber.firstName || fullName.split(' ')[0] || null;
+    case 'last_name': return subscriber.lastName || null;
+    case 'subscriber_name':
+    case 'name': return fullName || null;
+    case 'email': return subscriber.email;
+    case 'source': return subscriber.source || null;
+  }
+
+  const key = tag.startsWith('custom.') ? tag.slice('custom.'.length) : tag;
+  return subscriber.customFields?.[key] || null;
+}
+
+/**
+ * Fill in merge tags for one subscriber. A fallback written after a pipe
+ * wins over the default one; a tag with neither becomes empty. `extra`
+ * supplies per-email values such as the unsubscribe link, which are used as-is.
+ */
+export function renderMergeTags(html: string, subscriber: MergeTagSubscriber, extra: Record<string, string> = {}): string {
+  return html.replace(MERGE_TAG_PATTERN, (_match, tag: string, fallback?: string) => {
+    const value = mergeTagValue(tag, subscriber, extra);
+    if (value) return extra[tag] !== undefined ? value : escapeHtml(value);
+    return fallback !== undefined ? fallback.trim() : (MERGE_TAG_FALLBACKS[tag] ?? '');
+  });
 }
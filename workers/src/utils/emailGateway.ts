@@ -0,0 +1,221 @@
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { emailLog, subscribers, suppressionList } from '../db/schema';
+import { sendEmail, sendEmailBatch } from './email';
+import type { Bindings } from '../index';
+
+type DB = any; // DrizzleD1Database type
+
+// Every email the shop sends goes out through here rather than straight
+// through utils/email.ts, so nobody who's unsubscribed or suppressed gets
+// mail they shouldn't, and there's one record of what was sent to whom.
+
+/**
+ * Transactional email is something the recipient asked for or needs to
+ * receive: receipts, password resets, gift cards, waitlist notices, admin
+ * alerts. Everything else (campaigns, automations, nudges) is marketing.
+ */
+export type EmailCategory = 'transactional' | 'marketing';
+
+export type EmailSkipReason = 'suppressed' | 'unsubscribed';
+
+export const EMAIL_SKIP_REASON_LABELS: Record<EmailSkipReason, string> = {
+  suppressed: 'Address is on the suppression list',
+  unsubscribed: 'Recipient has unsubscribed',
+};
+
+export interface OutboundEmail {
+  to: string;
+  subject: string;
+  html: string;
+  category: EmailCategory;
+  /** What sent it, for the log: 'campaign', 'automation', 'waitlist', ... */
+  kind: string;
+  /** The record the email is about (campaign, order, queue item), if any. */
+  referenceId?: string | null;
+  from?: string;
+  headers?: Record<string, string>;
+  tags?: { name: string; value: string }[];
+}
+
+export type EmailSendResult =
+  | { status: 'sent'; providerId: string | null }
+  | { status: 'skipped'; reason: EmailSkipReason }
+  | { status: 'failed'; error: string };
+
+// ============================================
+// CONSENT
+// ============================================
+
+/**
+ * Suppression reasons that mean the address can't take mail at all, so
+ * transactional email is held back too. Complaints and unsubscribes only
+ * stop marketing: a customer who reported a newsletter still gets receipts.
+ */
+const UNDELIVERABLE_REASONS = ['hard_bounce', 'consecutive_soft_bounce'];
+
+function normaliseEmail(email: string): string {
+  return email.toLowerCase().trim();
+}
+
+/**
+ * Which of these addresses can't be sent this category of email, and why.
+ * Marketing needs the address not to be suppressed or unsubscribed. Addresses
+ * with no subscriber record (customers emailed by an automation, say) are
+ * fine until they use the unsubscribe link, which suppresses them.
+ */
+export async function blockedRecipients(db: DB, emails: string[], category: EmailCategory): Promise<Map<string, EmailSkipReason>> {
+  const blocked = new Map<string, EmailSkipReason>();
+  const unique = [...new Set(emails.map(normaliseEmail))];
+
+  // D1 allows 100 bound parameters per query
+  for (let i = 0; i < unique.length; i += 90) {
+    const chunk = unique.slice(i, i + 90);
+
+    const suppressed = await db.select({ email: suppressionList.email, reason: suppressionList.reason })
+      .from(suppressionList)
+      .where(inArray(sql`lower(${suppressionList.email})`, chunk))
+      .all();
+    for (const row of suppressed) {
+      if (category === 'marketing' || UNDELIVERABLE_REASONS.includes(row.reason)) {
+        blocked.set(normaliseEmail(row.email), 'suppressed');
+      }
+    }
+
+    if (category === 'marketing') {
+      const unsubscribed = await db.select({ email: subscribers.email })
+        .from(subscribers)
+        .where(and(inArray(sql`lower(${subscribers.email})`, chunk), eq(subscribers.subscribed, false)))
+        .all();
+      for (const row of unsubscribed) {
+        const email = normaliseEmail(row.email);
+        if (!blocked.has(email)) blocked.set(email, 'unsubscribed');
+      }
+    }
+  }
+
+  return blocked;
+}
+
+// ============================================
+// LOG
+// ============================================
+
+/**
+ * Record what happened to each email. A log write that fails is reported but
+ * not thrown: the email has already gone, and failing here would make the
+ * sender think it hadn't and send it again.
+ */
+async function logEmails(db: DB, entries: Array<{ email: OutboundEmail; result: EmailSendResult }>) {
+  const rows = entries.map(({ email, result }) => ({
+    recipientEmail: normaliseEmail(email.to),
+    subject: email.subject,
+    category: email.category,
+    kind: email.kind,
+    referenceId: email.referenceId || null,
+    status: result.status,
+    skipReason: result.status === 'skipped' ? result.reason : null,
+    error: result.status === 'failed' ? result.error.slice(0, 1000) : null,
+    providerId: result.status === 'sent' ? result.providerId : null,
+  }));
+
+  try {
+    // D1 allows 100 bound parameters per query; a log row has 11 columns
+    for (let i = 0; i < rows.length; i += 9) {
+      await db.insert(emailLog).values(rows.slice(i, i + 9));
+    }
+  } catch (err) {
+    console.error('Failed to write email log:', err);
+  }
+}
+
+// ============================================
+// SENDING
+// ============================================
+
+/** Send one email if its recipient can receive it, and log the outcome. Never throws. */
+export async function deliverEmail(env: Bindings, db: DB, email: OutboundEmail): Promise<EmailSendResult> {
+  const blocked = await blockedRecipients(db, [email.to], email.category);
+  const reason = blocked.get(normaliseEmail(email.to));
+
+  let result: EmailSendResult;
+  if (reason) {
+    result = { status: 'skipped', reason };
+  } else {
+    try {
+      const sent = await sendEmail(env, email.to, email.subject, email.html, {
+        from: email.from,
+        headers: email.headers,
+        tags: email.tags,
+      });
+      result = { status: 'sent', providerId: sent?.id || null };
+    } catch (err: any) {
+      result = { status: 'failed', error: err?.message || 'Unknown error' };
+    }
+  }
+
+  await logEmails(db, [{ email, result }]);
+  return result;
+}
+
+/**
+ * Send up to 100 emails in a single Resend request, leaving out recipients
+ * who can't receive them. Results line up with `emails`. If Resend turns the
+ * whole batch down, every email sent in it comes back failed with the error,
+ * and `retryable` says whether trying again later might work.
+ */
+export async function deliverEmailBatch(
+  env: Bindings,
+  db: DB,
+  emails: OutboundEmail[],
+  idempotencyKey?: string,
+): Promise<{ results: EmailSendResult[]; error?: string; retryable?: boolean }> {
+  const blocked = new Map<string, EmailSkipReason>();
+  for (const category of ['transactional', 'marketing'] as const) {
+    const addresses = emails.filter(e => e.category === category).map(e => e.to);
+    if (addresses.length === 0) continue;
+    for (const [address, reason] of await blockedRecipients(db, addresses, category)) {
+      blocked.set(`${category}:${address}`, reason);
+    }
+  }
+
+  const results: EmailSendResult[] = emails.map((email) => {
+    const reason = blocked.get(`${email.category}:${normaliseEmail(email.to)}`);
+    return reason ? { status: 'skipped', reason } : { status: 'sent', providerId: null };
+  });
+  const sendable = emails.map((email, i) => ({ email, i })).filter(({ i }) => results[i].status === 'sent');
+
+  let error: string | undefined;
+  let retryable: boolean | undefined;
+  if (sendable.length > 0) {
+    const response = await sendEmailBatch(
+      env,
+      sendable.map(({ email }) => ({
+        to: email.to,
+        subject: email.subject,
+        html: email.html,
+        from: email.from,
+        headers: email.headers,
+        tags: email.tags,
+      })),
+      idempotencyKey,
+    );
+
+    if ('error' in response && response.alreadySent) {
+      // A retry whose payload changed since the first attempt (someone was
+      // suppressed in between, say). Resend sent the first attempt, so this
+      // one mustn't go out again; its ids are only in that response.
+      console.warn(`Email batch ${idempotencyKey} was already sent: ${response.error}`);
+      for (const { i } of sendable) results[i] = { status: 'sent', providerId: null };
+    } else if ('error' in response) {
+      ({ error, retryable } = response);
+      for (const { i } of sendable) results[i] = { status: 'failed', error: response.error };
+    } else {
+      sendable.forEach(({ i }, n) => {
+        results[i] = { status: 'sent', providerId: response.ids[n] || null };
+      });
+    }
+  }
+
+  await logEmails(db, emails.map((email, i) => ({ email, result: results[i] })));
+  return { results, error, retryable };
+}
@@ -0,0 +1,304 @@
+import { eq, and, sql } from 'drizzle-orm';
+import { giftCards, giftCardTransactions, giftCardHolds } from '../db/schema';
+import { deliverEmail } from './emailGateway';
+import type { Bindings } from '../index';
+
+type DB = any; // DrizzleD1Database type
+
+/** Generate a gift card code in the format XXXX-XXXX-XXXX-XXXX. */
+export function generateGiftCardCode(): string {
+  const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no I,O,0,1 to avoid confusion
+  // 32 characters, so each random byte maps onto one evenly
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  let code = '';
+  for (let i = 0; i < 16; i++) {
+    if (i > 0 && i % 4 === 0) code += '-';
+    code += chars[bytes[i] % chars.length];
+  }
+  return code;
+}
+
+/** Codes to try before giving up on finding one that isn't taken. */
+const CODE_ATTEMPTS = 10;
+
+// ============================================
+// PURCHASE
+// ============================================
+
+/** Details a customer enters when buying a gift card. */
+export interface GiftCardPurchase {
+  amount: number;
+  recipientName: string;
+  recipientEmail: string;
+  message: string;
+  deliveryDate: string | null; // YYYY-MM-DD (sent 9am AEST), null = send now
+}
+
+export const GIFT_CARD_MESSAGE_MAX = 200;
+
+/** Denominations offered by a gift-card product, falling back to its price. */
+export function giftCardDenominations(product: { price: string; giftCardDenominations?: number[] | null }): number[] {
+  const list = (product.giftCardDenominations || []).map(Number).filter(n => n > 0);
+  return list.length > 0 ? list : [parseFloat(product.price)];
+}
+
+/**
+ * Validate the purchase details sent from the storefront against the product.
+ */
+export function parseGiftCardPurchase(
+  product: { name: string; price: string; giftCardDenominations?: number[] | null },
+  input: any,
+): { purchase: GiftCardPurchase; error?: undefined } | { purchase?: undefined; error: string } {
+  const amount = Number(input?.amount);
+  if (!giftCardDenominations(product).includes(amount)) {
+    return { error: `Please choose an amount for ${product.name}` };
+  }
+
+  const recipientEmail = String(input?.recipientEmail || '').trim().toLowerCase();
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipientEmail)) {
+    return { error: `Please enter a valid recipient email for ${product.name}` };
+  }
+
+  const deliveryDate = /^\d{4}-\d{2}-\d{2}$/.test(String(input?.deliveryDate || ''))
+    ? String(input.deliveryDate)
+    : null;
+
+  return {
+    purchase: {
+      amount,
+      recipientName: String(input?.recipientName || '').trim().slice(0, 100),
+      recipientEmail,
+      message: String(input?.message || '').trim().slice(0, GIFT_CARD_MESSAGE_MAX),
+      deliveryDate,
+    },
+  };
+}
+
+/**
+ * Create a purchased gift card with its opening transaction. A code that's
+ * already taken is replaced with a fresh one. Cards with no delivery date
+ * (or one already passed) are emailed straight away; later ones are left
+ * for the cron.
+ */
+export async function issueGiftCard(
+  env: Bindings,
+  db: DB,
+  purchase: GiftCardPurchase,
+  purchaser: { email: string | null; name: string | null },
+  orderId: string,
+) {
+  const now = new Date().toISOString();
+  // Always set so the cron retries if the immediate send fails
+  const deliverAt = purchase.deliveryDate ? new Date(`${purchase.deliveryDate}T09:00:00+10:00`).toISOString() : now;
+  const balance = purchase.amount.toFixed(2);
+
+  let card: any = null;
+  for (let attempt = 0; attempt < CODE_ATTEMPTS && !card; attempt++) {
+    card = await db.insert(giftCards).values({
+      code: generateGiftCardCode(),
+      initialBalance: balance,
+      currentBalance: balance,
+      currency: 'AUD',
+      status: 'active',
+      purchaserEmail: purchaser.email,
+      purchaserName: purchaser.name,
+      recipientEmail: purchase.recipientEmail,
+      recipientName: purchase.recipientName || null,
+      personalMessage: purchase.message || null,
+      orderId,
+      deliverAt,
+      createdAt: now,
+      updatedAt: now,
+    }).onConflictDoNothing({ target: giftCards.code }).returning().get();
+  }
+  if (!card) throw new Error('Could not generate a unique gift card code');
+
+  await db.insert(giftCardTransactions).values({
+    giftCardId: card.id,
+    type: 'purchase',
+    amount: balance,
+    balanceAfter: balance,
+    orderId,
+    note: 'Purchased online',
+    createdAt: now,
+  });
+
+  if (deliverAt <= now) {
+    await deliverGiftCard(env, db, card);
+  }
+
+  return card;
+}
+
+// ============================================
+// REDEMPTION
+// ============================================
+
+/**
+ * Look up a card that can be spent right now, by code (case-insensitive).
+ */
+export async function findRedeemableGiftCard(db: DB, code: string) {
+  const card = await db.select()
+    .from(giftCards)
+    .where(sql`UPPER(${giftCards.code}) = ${code.toUpperCase().trim()}`)
+    .get();
+
+  if (!card) return { error: 'Gift card not found' };
+  if (card.status === 'disabled') return { error: 'Gift card has been disabled' };
+  if (card.status === 'depleted' || parseFloat(card.currentBalance) <= 0) {
+    return { error: 'Gift card has no remaining balance' };
+  }
+  if (card.status !== 'active' || (card.expiresAt && card.expiresAt < new Date().toISOString())) {
+    return { error: 'Gift card has expired' };
+  }
+
+  return { card };
+}
+
+/**
+ * Take the amount off a card for a checkout, if the card is active and its
+ * balance still covers it (checked in the same UPDATE, so two checkouts
+ * can't both spend the same balance). The hold is recorded against the
+ * reference; returns false when the balance no longer covers it.
+ */
+export async function holdGiftCard(db: DB, cardId: string, reference: string, amountCents: number): Promise<boolean> {
+  const balanceCents = sql`ROUND(CAST(${giftCards.currentBalance} AS REAL) * 100)`;
+  const card = await db.update(giftCards).set({
+    currentBalance: sql`printf('%.2f', (${balanceCents} - ${amountCents}) / 100.0)`,
+    status: sql`CASE WHEN ${balanceCents} = ${amountCents} THEN 'depleted' ELSE ${giftCards.status} END`,
+    updatedAt: new Date().toISOString(),
+  }).where(and(
+    eq(giftCards.id, cardId),
+    eq(giftCards.status, 'active'),
+    sql`${balanceCents} >= ${amountCents}`,
+  )).returning({ id: giftCards.id }).get();
+  if (!card) return false;
+
+  await db.insert(giftCardHolds).values({
+    giftCardId: cardId,
+    sessionId: reference,
+    amount: (amountCents / 100).toFixed(2),
+  });
+  return true;
+}
+
+/** Move holds made before the Checkout session existed onto its id. */
+export async function assignGiftCardHold(db: DB, reference: string, sessionId: string) {
+  await db.update(giftCardHolds).set({ sessionId }).where(eq(giftCardHolds.sessionId, reference));
+}
+
+export async function findGiftCardHold(db: DB, sessionId: string) {
+  return db.select().from(giftCardHolds).where(eq(giftCardHolds.sessionId, sessionId)).get();
+}
+
+/**
+ * Put a session's held balance back on the card, e.g. when the session
+ * expires. The hold is deleted first so a repeated event can't credit twice.
+ */
+export async function releaseGiftCardHold(db: DB, sessionId: string) {
+  const holds = await db.delete(giftCardHolds).where(eq(giftCardHolds.sessionId, sessionId)).returning().all();
+  for (const hold of holds) {
+    const now = new Date().toISOString();
+    await db.update(giftCards).set({
+      currentBalance: sql`printf('%.2f', CAST(${giftCards.currentBalance} AS REAL) + ${parseFloat(hold.amount)})`,
+      status: sql`CASE WHEN ${giftCards.status} = 'depleted' THEN 'active' ELSE ${giftCards.status} END`,
+      updatedAt: now,
+    }).where(eq(giftCards.id, hold.giftCardId));
+  }
+}
+
+/**
+ * Put money back on a card, e.g. a refund of an order it paid for, and
+ * record the transaction. The balance is added to in SQL so two credits at
+ * once can't overwrite each other. Returns the updated card, or null if it
+ * no longer exists.
+ */
+export async function creditGiftCard(
+  db: DB,
+  cardId: string,
+  amountCents: number,
+  entry: { type: 'refund' | 'adjustment'; orderId?: string | null; note: string },
+) {
+  const now = new Date().toISOString();
+  const card = await db.update(giftCards).set({
+    currentBalance: sql`printf('%.2f', CAST(${giftCards.currentBalance} AS REAL) + ${amountCents / 100})`,
+    status: sql`CASE WHEN ${giftCards.status} = 'depleted' THEN 'active' ELSE ${giftCards.status} END`,
+    updatedAt: now,
+  }).where(eq(giftCards.id, cardId)).returning().get();
+  if (!card) return null;
+
+  await db.insert(giftCardTransactions).values({
+    giftCardId: card.id,
+    type: entry.type,
+    amount: (amountCents / 100).toFixed(2),
+    balanceAfter: card.currentBalance,
+    orderId: entry.orderId ?? null,
+    note: entry.note,
+    createdAt: now,
+  });
+  return card;
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Email a gift card to its recipient and mark it delivered. If the address
+ * can't be emailed (it has bounced before) the delivery date is cleared so
+ * the cron stops trying; the card itself still works.
+ */
+export async function deliverGiftCard(env: Bindings, db: DB, card: any) {
+  const to = card.recipientEmail || card.purchaserEmail;
+  if (!to) return;
+
+  const baseUrl = env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
+  const greeting = card.recipientName ? `Hi ${escapeHtml(card.recipientName)},` : 'Hi there,';
+  const from = card.purchaserName ? escapeHtml(card.purchaserName) : 'Someone special';
+
+  const result = await deliverEmail(env, db, {
+    to,
+    subject: `${card.purchaserName || 'Someone'} sent you a Lyne Tilt gift card`,
+    html: `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+      <h1 style="color: #1c1917; font-size: 24px;">${greeting}</h1>
+      <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
+        ${from} has sent you a <strong>$${parseFloat(card.initialBalance).toFixed(2)} ${card.currency}</strong> Lyne Tilt gift card.
+      </p>
+      ${card.personalMessage ? `<blockquote style="color: #57534e; font-size: 16px; line-height: 1.6; font-style: italic; border-left: 3px solid #e7e5e4; margin: 24px 0; padding-left: 16px;">${escapeHtml(card.personalMessage)}</blockquote>` : ''}
+      <div style="background: #f5f5f4; border-radius: 8px; padding: 20px; text-align: center; margin: 24px 0;">
+        <p style="color: #78716c; font-size: 12px; text-transform: uppercase; letter-spacing: 0.1em; margin: 0 0 8px;">Your code</p>
+        <p style="color: #1c1917; font-size: 22px; font-family: monospace; letter-spacing: 0.1em; margin: 0;">${card.code}</p>
+      </div>
+      <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
+        Enter the code at checkout to use your balance.
+      </p>
+      <a href="${baseUrl}/#/shop" style="display: inline-block; background: #8d3038; color: white; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-size: 14px; font-weight: 600; margin-top: 16px;">
+        Start Shopping
+      </a>
+      ${card.expiresAt ? `<p style="color: #a8a29e; font-size: 12px; margin-top: 32px;">Valid until ${new Date(card.expiresAt).toLocaleDateString('en-AU')}.</p>` : ''}
+    </div>`,
+    category: 'transactional',
+    kind: 'gift_card',
+    referenceId: card.id,
+  });
+  if (result.status === 'failed') throw new Error(result.error);
+  if (result.status === 'skipped') {
+    await db.update(giftCards)
+      .set({ deliverAt: null, updatedAt: new Date().toISOString() })
+      .where(eq(giftCards.id, card.id));
+    console.warn(`Gift card ${card.id} not emailed to ${to}: ${result.reason}`);
+    return;
+  }
+
+  await db.update(giftCards)
+    .set({ deliveredAt: new Date().toISOString(), updatedAt: new Date().toISOString() })
+    .where(eq(giftCards.id, card.id));
+}
@@ -0,0 +1,375 @@
+import { eq, and, gt, lte, inArray, isNull, sql, type SQL } from 'drizzle-orm';
+import { products, productVariants, inventoryMovements, stockReservations, siteSettings } from '../db/schema';
+import { syncProductStockFromVariants } from './variants';
+
+type DB = any; // DrizzleD1Database type
+
+export const MOVEMENT_TYPES = ['sale', 'return', 'adjustment', 'restock', 'damaged', 'stocktake'] as const;
+
+export type MovementType = typeof MOVEMENT_TYPES[number];
+
+/**
+ * Minutes a Checkout session holds its stock. Stripe rejects an expiry less
+ * than 30 minutes after it creates the session, so this leaves a margin.
+ */
+export const RESERVATION_MINUTES = 32;
+
+export interface StockMovement {
+  productId: string;
+  variantId?: string | null;
+  type: MovementType;
+  quantityChange: number;
+  quantityAfter: number;
+  note?: string | null;
+  orderId?: string | null;
+  user?: { id: string; name?: string | null } | null;
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+/**
+ * Write a ledger row for a stock change that has already been saved. Paths
+ * that set stock themselves (the product form, the variant editor) use this;
+ * everything else goes through changeStock.
+ */
+export async function recordMovement(db: DB, movement: StockMovement) {
+  if (movement.quantityChange === 0) return;
+
+  await db.insert(inventoryMovements).values({
+    productId: movement.productId,
+    variantId: movement.variantId || null,
+    type: movement.type,
+    quantityChange: movement.quantityChange,
+    quantityAfter: movement.quantityAfter,
+    note: movement.note?.trim().slice(0, 500) || null,
+    orderId: movement.orderId || null,
+    userId: movement.user?.id || null,
+    userName: movement.user?.name || null,
+  });
+}
+
+/**
+ * Set a product's or variant's stock in SQL, from its current level, and
+ * record the change. The level before is read in the same batch (a
+ * transaction), so a sale, restock or stocktake running at the same time
+ * can't be lost or leave the ledger out of step. Plain products keep
+ * availability in step with the new level; variant products re-sync their
+ * total from the variants. Returns the quantity left, or null when the
+ * product or variant is gone.
+ */
+async function updateStock(
+  db: DB,
+  movement: Omit<StockMovement, 'quantityChange' | 'quantityAfter'>,
+  newQuantity: (current: SQL) => SQL,
+): Promise<number | null> {
+  const now = new Date().toISOString();
+
+  if (movement.variantId) {
+    const [[before], [after]] = await db.batch([
+      db.select({ quantity: productVariants.quantity }).from(productVariants)
+        .where(eq(productVariants.id, movement.variantId)),
+      db.update(productVariants)
+        .set({ quantity: newQuantity(sql`${productVariants.quantity}`), updatedAt: now })
+        .where(eq(productVariants.id, movement.variantId))
+        .returning({ quantity: productVariants.quantity, productId: productVariants.productId }),
+    ]);
+    if (!before || !after) return null;
+
+    await syncProductStockFromVariants(db, after.productId);
+    await recordMovement(db, {
+      ...movement,
+      productId: after.productId,
+      quantityChange: after.quantity - before.quantity,
+      quantityAfter: after.quantity,
+    });
+    return after.quantity;
+  }
+
+  const quantityAfter = newQuantity(sql`${products.quantity}`);
+  const [[before], [after]] = await db.batch([
+    db.select({ quantity: products.quantity }).from(products)
+      .where(eq(products.id, movement.productId)),
+    db.update(products)
+      .set({
+        quantity: quantityAfter,
+        availability: sql`CASE
+          WHEN ${quantityAfter} <= 0 AND NOT ${products.continueSelling} THEN 'Sold out'
+          WHEN ${quantityAfter} > 0 AND ${products.availability} = 'Sold out' THEN 'In stock'
+          ELSE ${products.availability} END`,
+        updatedAt: now,
+      })
+      .where(eq(products.id, movement.productId))
+      .returning({ quantity: products.quantity }),
+  ]);
+  if (!before || !after) return null;
+
+  await recordMovement(db, { ...movement, quantityChange: after.quantity - before.quantity, quantityAfter: after.quantity });
+  return after.quantity;
+}
+
+/**
+ * Add (or with a negative change, remove) units of a product or variant and
+ * record why. Stock never goes below zero, and the ledger records the change
+ * that was actually made.
+ */
+export async function changeStock(
+  db: DB,
+  change: Omit<StockMovement, 'quantityChange' | 'quantityAfter'> & { change: number },
+): Promise<number | null> {
+  const { change: requested, ...movement } = change;
+  return updateStock(db, movement, current => sql`MAX(0, ${current} + ${requested})`);
+}
+
+/** Set stock to a counted level, recording the difference. */
+export async function setStock(
+  db: DB,
+  count: Omit<StockMovement, 'quantityChange' | 'quantityAfter'> & { quantity: number },
+): Promise<number | null> {
+  const { quantity, ...movement } = count;
+  return updateStock(db, movement, () => sql`${Math.max(0, quantity)}`);
+}
+
+// ============================================
+// RESERVATIONS
+// ============================================
+
+/** A checkout line as reservations see it. */
+export interface ReservableLine {
+  product: { id: string; name: string; quantity: number; trackInventory: boolean; continueSelling: boolean };
+  variant: { id: string; quantity: number } | null;
+  name: string;
+  quantity: number;
+  giftCard: unknown | null;
+}
+
+/** Only tracked stock that can't be oversold is held; gift cards never are. */
+function holdsStock(line: ReservableLine): boolean {
+  return !line.giftCard && line.product.trackInventory && !line.product.continueSelling;
+}
+
+/**
+ * Units held by open checkouts, keyed by variant id (or product id for plain
+ * products). A reference's own holds can be left out.
+ */
+export async function reservedStock(db: DB, productIds: string[], excludeSessionId?: string): Promise<Record<string, number>> {
+  if (productIds.length === 0) return {};
+
+  const conditions: any[] = [
+    inArray(stockReservations.productId, productIds),
+    gt(stockReservations.expiresAt, new Date().toISOString()),
+  ];
+  if (excludeSessionId) {
+    conditions.push(sql`${stockReservations.sessionId} != ${excludeSessionId}`);
+  }
+
+  const rows = await db
+    .select({
+      key: sql<string>`COALESCE(${stockReservations.variantId}, ${stockReservations.productId})`,
+      quantity: sql<number>`SUM(${stockReservations.quantity})`,
+    })
+    .from(stockReservations)
+    .where(and(...conditions))
+    .groupBy(sql`COALESCE(${stockReservations.variantId}, ${stockReservations.productId})`)
+    .all();
+
+  return Object.fromEntries(rows.map((r: any) => [r.key, Number(r.quantity) || 0]));
+}
+
+/**
+ * Hold the cart's stock for a checkout that's about to open. The holds go in
+ * first and are then checked against everyone else's, so two buyers racing
+ * for the last piece can't both get through (at worst both are asked to try
+ * again). On a shortfall nothing is held and the error says what's missing;
+ * held is false when nothing in the cart needed holding.
+ */
+export async function reserveStock(
+  db: DB,
+  reference: string,
+  lines: ReservableLine[],
+  expiresAt: string,
+): Promise<{ held?: boolean; error?: string }> {
+  const held = lines.filter(holdsStock);
+  if (held.length === 0) return { held: false };
+
+  await db.delete(stockReservations).where(lte(stockReservations.expiresAt, new Date().toISOString()));
+
+  await db.batch(held.map(line => db.insert(stockReservations).values({
+    productId: line.product.id,
+    variantId: line.variant?.id || null,
+    quantity: line.quantity,
+    sessionId: reference,
+    expiresAt,
+  })) as [any, ...any[]]);
+
+  const reserved = await reservedStock(db, [...new Set(held.map(l => l.product.id))], reference);
+
+  const requested: Record<string, number> = {};
+  for (const line of held) {
+    const key = line.variant?.id || line.product.id;
+    requested[key] = (requested[key] || 0) + line.quantity;
+  }
+
+  for (const line of held) {
+    const key = line.variant?.id || line.product.id;
+    const inStock = line.variant ? line.variant.quantity : line.product.quantity;
+    const available = Math.max(0, inStock - (reserved[key] || 0));
+    if (requested[key] <= available) continue;
+
+    await releaseReservations(db, reference);
+    if (available > 0) {
+      return { error: `Only ${available} of ${line.name} ${available === 1 ? 'is' : 'are'} available` };
+    }
+    return {
+      error: inStock > 0
+        ? `${line.name} is on hold for another customer right now. Please try again later.`
+        : `${line.name} is out of stock`,
+    };
+  }
+
+  return { held: true };
+}
+
+/**
+ * Hold units of a plain product for someone outside of checkout (a waitlist
+ * customer given first refusal). Checkouts count it like any other hold.
+ */
+export async function holdStock(db: DB, reference: string, productId: string, quantity: number, expiresAt: string) {
+  await db.insert(stockReservations).values({
+    productId,
+    variantId: null,
+    quantity,
+    sessionId: reference,
+    expiresAt,
+  });
+}
+
+/** Move holds made under a provisional reference onto the Stripe session. */
+export async function assignReservations(db: DB, reference: string, sessionId: string) {
+  await db.update(stockReservations)
+    .set({ sessionId })
+    .where(eq(stockReservations.sessionId, reference));
+}
+
+/** Let go of a checkout's (or waitlist customer's) holds once they're used or lapse. */
+export async function releaseReservations(db: DB, sessionId: string) {
+  await db.delete(stockReservations).where(eq(stockReservations.sessionId, sessionId));
+}
+
+// ============================================
+// LOW STOCK
+// ============================================
+
+export interface InventorySettings {
+  /** Used by products without their own threshold. 0 means no alerts. */
+  lowStockThreshold: number;
+  /** Email the admin a daily digest of stock that has run low. */
+  lowStockDigest: boolean;
+}
+
+export const DEFAULT_INVENTORY_SETTINGS: InventorySettings = {
+  lowStockThreshold: 0,
+  lowStockDigest: true,
+};
+
+export async function getInventorySettings(db: DB): Promise<InventorySettings> {
+  const row = await db.select().from(siteSettings).where(eq(siteSettings.key, 'inventory')).get();
+  if (!row) return DEFAULT_INVENTORY_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(row.value);
+    return {
+      lowStockThreshold: parseThreshold(parsed?.lowStockThreshold) ?? DEFAULT_INVENTORY_SETTINGS.lowStockThreshold,
+      lowStockDigest: parsed?.lowStockDigest !== false,
+    };
+  } catch {
+    return DEFAULT_INVENTORY_SETTINGS;
+  }
+}
+
+/** A threshold from a form: a whole number of at least 0, or null to fall back. */
+export function parseThreshold(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+/**
+ * Whether a product needs reordering: it (or, for products with options, any
+ * active variant) is at or below a threshold above zero. Sold-out stock counts;
+ * pieces with no threshold never do.
+ */
+export function needsReorderSql(defaultThreshold: number): SQL {
+  const productThreshold = sql`COALESCE(${products.lowStockThreshold}, ${defaultThreshold})`;
+  return sql`(
+    (NOT EXISTS (SELECT 1 FROM product_variants pv WHERE pv.product_id = ${products.id} AND pv.active = 1)
+      AND ${productThreshold} > 0 AND ${products.quantity} <= ${productThreshold})
+    OR EXISTS (SELECT 1 FROM product_variants pv WHERE pv.product_id = ${products.id} AND pv.active = 1
+      AND COALESCE(pv.low_stock_threshold, ${productThreshold}) > 0
+      AND pv.quantity <= COALESCE(pv.low_stock_threshold, ${productThreshold}))
+  )`;
+}
+
+/** Tracked, active products that need reordering. */
+export async function countLowStock(db: DB, defaultThreshold: number): Promise<number> {
+  const row = await db.select({ count: sql<number>`count(*)` })
+    .from(products)
+    .where(and(
+      eq(products.status, 'active'),
+      eq(products.trackInventory, true),
+      isNull(products.deletedAt),
+      needsReorderSql(defaultThreshold),
+    ))
+    .get();
+  return Number(row?.count || 0);
+}
+
+export interface LowStockItem {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  variantTitle: string | null;
+  sku: string | null;
+  quantity: number;
+  threshold: number;
+}
+
+/**
+ * Products and variants whose stock fell to their threshold (or sold out)
+ * since a point in time and hasn't been topped back up, read from the ledger.
+ */
+export async function newlyLowStock(db: DB, since: string, defaultThreshold: number): Promise<LowStockItem[]> {
+  const threshold = sql<number>`COALESCE(${productVariants.lowStockThreshold}, ${products.lowStockThreshold}, ${defaultThreshold})`;
+  const quantity = sql<number>`COALESCE(${productVariants.quantity}, ${products.quantity})`;
+
+  const rows = await db
+    .select({
+      productId: inventoryMovements.productId,
+      variantId: inventoryMovements.variantId,
+      name: products.name,
+      variantTitle: productVariants.title,
+      sku: productVariants.sku,
+      quantity,
+      threshold,
+    })
+    .from(inventoryMovements)
+    .innerJoin(products, eq(inventoryMovements.productId, products.id))
+    .leftJoin(productVariants, eq(inventoryMovements.variantId, productVariants.id))
+    .where(and(
+      gt(inventoryMovements.createdAt, since),
+      eq(products.status, 'active'),
+      eq(products.trackInventory, true),
+      isNull(products.deletedAt),
+      sql`${inventoryMovements.quantityChange} < 0`,
+      sql`${threshold} > 0`,
+      sql`${inventoryMovements.quantityAfter} <= ${threshold}`,
+      sql`${inventoryMovements.quantityAfter} - ${inventoryMovements.quantityChange} > ${threshold}`,
+      sql`${quantity} <= ${threshold}`,
+    ))
+    .groupBy(inventoryMovements.productId, inventoryMovements.variantId)
+    .orderBy(quantity, products.name)
+    .all();
+
+  return rows.map((r: any) => ({ ...r, quantity: Number(r.quantity), threshold: Number(r.threshold) }));
+}
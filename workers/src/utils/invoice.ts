@@ -0,0 +1,132 @@
+import type { TaxSettings } from './tax';
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function money(amount: number | string, currency: string): string {
+  return `$${parseFloat(String(amount || 0)).toFixed(2)} ${currency}`;
+}
+
+/** Invoice numbers are derived from the order number so they never need storing. */
+export function invoiceNumber(order: { orderNumber: string }): string {
+  return `INV-${order.orderNumber.replace(/^LT-/, '')}`;
+}
+
+/**
+ * Printable tax invoice for an order. Rendered as standalone HTML so admins
+ * can print or "Save as PDF" from the browser.
+ */
+export function renderTaxInvoice(order: any, items: any[], settings: TaxSettings): string {
+  const currency = order.currency || 'AUD';
+  const taxLabel = order.taxName || 'Tax';
+  const taxAmount = parseFloat(order.tax || '0');
+  const issued = new Date(order.paidAt || order.createdAt).toLocaleDateString('en-AU', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+  });
+
+  const customer = `${order.shippingFirstName} ${order.shippingLastName}`.trim();
+  const addressLines = [
+    customer,
+    order.shippingAddress,
+    [order.shippingCity, order.shippingState, order.shippingPostcode].filter(Boolean).join(' '),
+    order.shippingCountry,
+  ].filter(Boolean);
+
+  const rows = items.map(item => {
+    const lineTotal = parseFloat(item.price) * item.quantity;
+    const name = item.variantTitle ? `${item.productName} — ${item.variantTitle}` : item.productName;
+    return `
+      <tr>
+        <td>${escapeHtml(name)}</td>
+        <td class="num">${item.quantity}</td>
+        <td class="num">${money(item.price, currency)}</td>
+        <td class="num">${money(item.tax || 0, currency)}</td>
+        <td class="num">${money(lineTotal, currency)}</td>
+      </tr>`;
+  }).join('');
+
+  const taxSummary = taxAmount > 0
+    ? order.taxInclusive
+      ? `Total includes ${escapeHtml(taxLabel)} of ${money(taxAmount, currency)}`
+      : `${escapeHtml(taxLabel)} (${escapeHtml(order.taxRate)}%) of ${money(taxAmount, currency)} added to total`
+    : `No ${escapeHtml(taxLabel)} has been charged on this order`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Tax Invoice ${escapeHtml(invoiceNumber(order))}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #292524; max-width: 760px; margin: 40px auto; padding: 0 24px; font-size: 14px; }
+    h1 { font-size: 24px; margin: 0 0 4px; letter-spacing: 0.02em; }
+    .muted { color: #78716c; }
+    .header { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 32px; }
+    .header .right { text-align: right; }
+    table { width: 100%; border-collapse: collapse; margin: 24px 0; }
+    th { text-align: left; font-size: 12px; text-transform: uppercase; letter-spacing: 0.05em; color: #78716c; border-bottom: 1px solid #d6d3d1; padding: 8px 6px; }
+    td { padding: 10px 6px; border-bottom: 1px solid #f5f5f4; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .totals { margin-left: auto; width: 300px; }
+    .totals td { border: none; padding: 4px 6px; }
+    .totals .grand td { border-top: 1px solid #d6d3d1; font-weight: 600; padding-top: 8px; }
+    .note { margin-top: 24px; padding: 12px; background: #f5f5f4; border-radius: 4px; }
+    .actions { margin-bottom: 24px; }
+    @media print { .actions { display: none; } body { margin: 0 auto; } }
+  </style>
+</head>
+<body>
+  <div class="actions"><button onclick="window.print()">Print / Save as PDF</button></div>
+  <div class="header">
+    <div>
+      <h1>Tax Invoice</h1>
+      <div><strong>${escapeHtml(settings.businessName)}</strong></div>
+      ${settings.abn ? `<div>ABN ${escapeHtml(settings.abn)}</div>` : ''}
+      ${settings.businessAddress ? `<div class="muted" style="white-space: pre-line;">${escapeHtml(settings.businessAddress)}</div>` : ''}
+    </div>
+    <div class="right">
+      <div><strong>${escapeHtml(invoiceNumber(order))}</strong></div>
+      <div class="muted">Order ${escapeHtml(order.orderNumber)}</div>
+      <div class="muted">Issued ${escapeHtml(issued)}</div>
+    </div>
+  </div>
+
+  <div>
+    <div class="muted" style="font-size: 12px; text-transform: uppercase; letter-spacing: 0.05em;">Bill to</div>
+    ${addressLines.map(line => `<div>${escapeHtml(String(line))}</div>`).join('')}
+  </div>
+
+  <table>
+    <thead>
+      <tr>
+        <th>Item</th>
+        <th class="num">Qty</th>
+        <th class="num">Unit price</th>
+        <th class="num">${escapeHtml(taxLabel)}</th>
+        <th class="num">Amount</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+
+  <table class="totals">
+    <tr><td>Subtotal</td><td class="num">${money(order.subtotal, currency)}</td></tr>
+    ${(order.promotions || []).map((p: any) => `<tr><td>${escapeHtml(p.name)}</td><td class="num">-${money(p.amount, currency)}</td></tr>`).join('')}
+    ${parseFloat(order.discountAmount || '0') > 0 ? `<tr><td>Discount${order.discountCode ? ` (${escapeHtml(order.discountCode)})` : ''}</td><td class="num">-${money(order.discountAmount, currency)}</td></tr>` : ''}
+    <tr><td>Shipping</td><td class="num">${money(order.shipping, currency)}</td></tr>
+    <tr><td>${escapeHtml(taxLabel)}${order.taxInclusive ? ' (included)' : ''}</td><td class="num">${money(taxAmount, currency)}</td></tr>
+    ${parseFloat(order.giftCardAmount || '0') > 0 ? `<tr><td>Gift card ${escapeHtml(String(order.giftCardCode || '').slice(-4))}</td><td class="num">-${money(order.giftCardAmount, currency)}</td></tr>` : ''}
+    <tr class="grand"><td>Total paid</td><td class="num">${money(order.total, currency)}</td></tr>
+  </table>
+
+  <div class="note">${taxSummary}</div>
+</body>
+</html>`;
+}
@@ -0,0 +1,313 @@
+import { eq, inArray } from 'drizzle-orm';
+import { orders, orderItems, customerUsers, subscribers, products, productVariants } from '../db/schema';
+import { triggerAutomation, recordWorkflowPurchase, type TriggerType, type TriggerContext } from './automations';
+
+type DB = any; // DrizzleD1Database type
+
+function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function splitName(name: string | null | undefined): { firstName: string; lastName: string } {
+  const parts = (name || '').trim().split(/\s+/).filter(Boolean);
+  return { firstName: parts[0] || '', lastName: parts.slice(1).join(' ') };
+}
+
+// ============================================
+// CUSTOMERS
+// ============================================
+
+/**
+ * Attach an order to a customer account. Signed-in buyers are linked by id;
+ * otherwise the buyer's email is matched to an existing account, or a guest
+ * customer (no login) is created so their orders are grouped together.
+ */
+export async function attachOrderCustomer(
+  db: DB,
+  orderId: string,
+  buyer: { customerId?: string | null; email: string | null; name: string | null },
+) {
+  let customer = buyer.customerId
+    ? await db.select().from(customerUsers).where(eq(customerUsers.id, buyer.customerId)).get()
+    : null;
+
+  const email = buyer.email?.trim().toLowerCase();
+  if (!customer && email) {
+    customer = await db.select().from(customerUsers).where(eq(customerUsers.email, email)).get();
+  }
+
+  if (!customer && email) {
+    const { firstName, lastName } = splitName(buyer.name);
+    customer = await db.insert(customerUsers).values({
+      email,
+      passwordHash: '', // Guests have no login until they register
+      firstName,
+      lastName,
+      authProvider: 'none',
+      source: 'checkout',
+    }).onConflictDoNothing().returning().get()
+      // Lost a race with another order for the same email
+      ?? await db.select().from(customerUsers).where(eq(customerUsers.email, email)).get();
+  }
+
+  if (!customer) return null;
+
+  await db.update(orders)
+    .set({ userId: customer.id, updatedAt: new Date().toISOString() })
+    .where(eq(orders.id, orderId));
+
+  return customer;
+}
+
+/**
+ * Add a buyer who ticked the marketing box at checkout to the subscriber list.
+ * Existing subscribers who had unsubscribed are resubscribed, since they've
+ * just opted in again.
+ */
+export async function subscribeBuyer(db: DB, email: string, name: string | null) {
+  const normalized = email.trim().toLowerCase();
+  const now = new Date().toISOString();
+  const existing = await db.select().from(subscribers).where(eq(subscribers.email, normalized)).get();
+
+  if (existing) {
+    if (existing.subscribed) return;
+    await db.update(subscribers).set({
+      subscribed: true,
+      subscribedAt: now,
+      unsubscribedAt: null,
+      updatedAt: now,
+    }).where(eq(subscribers.id, existing.id));
+  } else {
+    const { firstName, lastName } = splitName(name);
+    await db.insert(subscribers).values({
+      email: normalized,
+      name: name || null,
+      firstName: firstName || null,
+      lastName: lastName || null,
+      source: 'checkout',
+      tags: ['customer'],
+      subscribed: true,
+    });
+  }
+
+  await triggerAutomation(db, 'newsletter_signup', normalized, name || undefined);
+}
+
+// ============================================
+// AUTOMATIONS
+// ============================================
+
+/** Placeholder values for order emails: ids, totals, tracking and line items. */
+export async function orderTriggerContext(db: DB, order: any): Promise<TriggerContext> {
+  const items = await db.select().from(orderItems).where(eq(orderItems.orderId, order.id)).all();
+  const currency = order.currency || 'AUD';
+  const first = items[0];
+
+  const list = items.map((item: any) => {
+    const name = item.variantTitle ? `${item.productName} — ${item.variantTitle}` : item.productName;
+    const lineTotal = (parseFloat(item.price) * item.quantity).toFixed(2);
+    return `<li>${escapeHtml(name)} × ${item.quantity} — $${lineTotal} ${currency}</li>`;
+  }).join('');
+
+  return {
+    customer_first_name: order.shippingFirstName || undefined,
+    order_id: order.id,
+    order_number: order.orderNumber,
+    order_total: `$${parseFloat(order.total).toFixed(2)} ${currency}`,
+    order_items: list ? `<ul>${list}</ul>` : '',
+    order_tracking_number: order.trackingNumber || undefined,
+    order_tracking_url: order.trackingUrl || undefined,
+    product_name: first?.productName,
+    price: first ? `$${parseFloat(first.price).toFixed(2)}` : undefined,
+    variant: first?.variantTitle || undefined,
+    qty: first ? String(first.quantity) : undefined,
+  };
+}
+
+/**
+ * Fulfilment emails go out once per order: when it ships, or when it's marked
+ * delivered without having been marked shipped first.
+ */
+export function isFulfilmentTransition(oldStatus: string, newStatus: string): boolean {
+  if (oldStatus === 'shipped' || oldStatus === 'delivered') return false;
+  return newStatus === 'shipped' || newStatus === 'delivered';
+}
+
+/**
+ * Queue the order automations for the buyer. Orders don't store an email, so
+ * the linked customer account supplies it unless one is passed in.
+ */
+export async function fireOrderAutomations(db: DB, order: any, triggers: TriggerType[], email?: string | null) {
+  let recipient = email;
+  if (!recipient && order.userId) {
+    const customer = await db.select().from(customerUsers).where(eq(customerUsers.id, order.userId)).get();
+    recipient = customer?.email;
+  }
+  if (!recipient) return;
+
+  const ctx = await orderTriggerContext(db, order);
+  const name = [order.shippingFirstName, order.shippingLastName].filter(Boolean).join(' ') || undefined;
+
+  // Before enrolling anyone, so the purchase only counts towards workflows already under way
+  if (triggers.includes('purchase')) await recordWorkflowPurchase(db, recipient);
+
+  for (const trigger of triggers) {
+    await triggerAutomation(db, trigger, recipient, name, ctx);
+  }
+}
+
+// ============================================
+// CUSTOMER VIEW
+// ============================================
+
+/** One step of an order's progress as shown to the buyer. */
+export interface OrderTimelineStep {
+  key: 'placed' | 'paid' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
+  label: string;
+  at: string | null; // null while the step hasn't happened yet
+}
+
+/**
+ * Progress steps for the buyer's order page. Orders with nothing to post
+ * (coaching, courses, e-gift cards, digital products) end once paid; cancelled
+ * and fully refunded orders end with that instead of the remaining steps.
+ */
+export function orderTimeline(order: any, shippable: boolean): OrderTimelineStep[] {
+  const steps: OrderTimelineStep[] = [
+    { key: 'placed', label: 'Order placed', at: order.createdAt },
+    { key: 'paid', label: 'Payment received', at: order.paidAt },
+  ];
+
+  if (order.status === 'cancelled') {
+    steps.push({ key: 'cancelled', label: 'Cancelled', at: order.cancelledAt || order.updatedAt });
+  } else if (shippable) {
+    steps.push({ key: 'shipped', label: 'Shipped', at: order.shippedAt });
+    steps.push({ key: 'delivered', label: 'Delivered', at: order.deliveredAt });
+  }
+
+  if (order.paymentStatus === 'refunded') {
+    steps.push({ key: 'refunded', label: 'Refunded', at: order.refundedAt });
+  }
+
+  return steps;
+}
+
+/** The parts of an order a buyer may see: no internal notes, Stripe ids or source. */
+export function customerOrderSummary(order: any) {
+  return {
+    orderNumber: order.orderNumber,
+    status: order.status,
+    paymentStatus: order.paymentStatus,
+    subtotal: order.subtotal,
+    shipping: order.shipping,
+    tax: order.tax,
+    taxName: order.taxName,
+    taxInclusive: order.taxInclusive,
+    giftCardAmount: order.giftCardAmount,
+    discountCode: order.discountCode,
+    discountAmount: order.discountAmount,
+    promotions: order.promotions || [],
+    refundedAmount: order.refundedAmount,
+    total: order.total,
+    currency: order.currency,
+    trackingNumber: order.trackingNumber,
+    trackingUrl: order.trackingUrl,
+    createdAt: order.createdAt,
+    paidAt: order.paidAt,
+    shippedAt: order.shippedAt,
+    deliveredAt: order.deliveredAt,
+    cancelledAt: order.cancelledAt,
+  };
+}
+
+/**
+ * Full order for the buyer: line items, shipping details and progress. Product
+ * lines carry what "buy again" needs — the product as it's sold today and
+ * whether that product (and variant) can still be bought.
+ */
+export async function customerOrderDetail(db: DB, order: any) {
+  const items = await db.select().from(orderItems).where(eq(orderItems.orderId, order.id)).all();
+
+  const productIds = [...new Set(items.map((i: any) => i.productId).filter(Boolean))] as string[];
+  const variantIds = [...new Set(items.map((i: any) => i.variantId).filter(Boolean))] as string[];
+
+  const productRows = productIds.length > 0
+    ? await db.select().from(products).where(inArray(products.id, productIds)).all()
+    : [];
+  const variantRows = variantIds.length > 0
+    ? await db.select().from(productVariants).where(inArray(productVariants.id, variantIds)).all()
+    : [];
+  const productMap = new Map<string, any>(productRows.map((p: any) => [p.id, p]));
+  const variantMap = new Map<string, any>(variantRows.map((v: any) => [v.id, v]));
+
+  let shippable = false;
+
+  const lines = items.map((item: any) => {
+    const product = item.productId ? productMap.get(item.productId) : null;
+    const variant = item.variantId ? variantMap.get(item.variantId) : null;
+
+    if (item.itemType === 'product' && !item.giftCardId && product?.productType !== 'digital' && product?.productType !== 'gift-card') {
+      shippable = true;
+    }
+
+    // Gift cards carry a recipient and message, so they're bought fresh from the product page
+    let reorder = null;
+    if (item.itemType === 'product' && product && product.productType !== 'gift-card') {
+      const stock = variant ?? product;
+      const inStock = !product.trackInventory || product.continueSelling || stock.quantity > 0;
+      reorder = {
+        available: product.status === 'active' && (!item.variantId || !!variant?.active) && inStock,
+        product: {
+          id: product.slug || product.id,
+          name: product.name,
+          price: product.price,
+          currency: product.currency,
+          category: product.category,
+          image: product.image,
+          shortDescription: product.shortDescription,
+          availability: product.availability,
+          productType: product.productType,
+        },
+        variant: variant ? {
+          id: variant.id,
+          title: variant.title,
+          options: variant.options || {},
+          price: variant.price || product.price,
+          image: variant.image,
+        } : null,
+      };
+    }
+
+    return {
+      id: item.id,
+      itemType: item.itemType,
+      productName: item.productName,
+      variantTitle: item.variantTitle,
+      productImage: item.productImage,
+      price: item.price,
+      quantity: item.quantity,
+      refundedQuantity: item.refundedQuantity,
+      slug: product?.slug ?? null,
+      reorder,
+    };
+  });
+
+  return {
+    ...customerOrderSummary(order),
+    shippingAddress: {
+      firstName: order.shippingFirstName,
+      lastName: order.shippingLastName,
+      address: order.shippingAddress,
+      city: order.shippingCity,
+      state: order.shippingState,
+      postcode: order.shippingPostcode,
+      country: order.shippingCountry,
+    },
+    items: lines,
+    timeline: orderTimeline(order, shippable),
+  };
+}
@@ -0,0 +1,202 @@
+import { eq, and, or, isNull, lt, lte, desc, type SQL } from 'drizzle-orm';
+import { subscribers, subscriberTags, campaigns, campaignEvents, suppressionList } from '../db/schema';
+import { API_BASE_URL } from './email';
+import type { Bindings } from '../index';
+
+type DB = any; // DrizzleD1Database type
+
+export type EmailFrequency = 'all' | 'weekly' | 'monthly';
+
+export const EMAIL_FREQUENCIES: EmailFrequency[] = ['all', 'weekly', 'monthly'];
+
+/** Days a "weekly" or "monthly" subscriber waits between campaigns. */
+const FREQUENCY_DAYS: Record<EmailFrequency, number> = { all: 0, weekly: 7, monthly: 30 };
+
+/** How long "take a break" pauses campaigns for. */
+export const PAUSE_DAYS = 30;
+
+// ============================================
+// TOKENS
+// ============================================
+
+// Preference links carry the address (and the campaign they came from, if
+// any) with an HMAC over both, so only someone holding the email can use
+// them. They don't expire: an unsubscribe link has to keep working for as
+// long as the email sits in someone's inbox. Addresses rather than
+// subscriber ids are signed so automation emails to non-subscribers get a
+// working link too.
+
+interface PreferenceTokenPayload {
+  email: string;
+  campaignId?: string;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function sign(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(`email-preferences:${secret}`),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data))));
+}
+
+export async function createPreferenceToken(env: Bindings, email: string, campaignId?: string): Promise<string> {
+  const payload: PreferenceTokenPayload = { email: email.toLowerCase().trim(), ...(campaignId ? { campaignId } : {}) };
+  const data = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  return `${data}.${await sign(env.JWT_SECRET, data)}`;
+}
+
+/** The address and campaign a token was issued for, or null if it's been tampered with. */
+export async function verifyPreferenceToken(env: Bindings, token: string): Promise<PreferenceTokenPayload | null> {
+  const [data, signature] = (token || '').split('.');
+  if (!data || !signature) return null;
+
+  const expected = await sign(env.JWT_SECRET, data);
+  if (expected.length !== signature.length) return null;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  if (diff !== 0) return null;
+
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(data)));
+    return typeof payload?.email === 'string' ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================
+// LINKS & HEADERS
+// ============================================
+
+export function preferenceCentreUrl(env: Bindings, token: string): string {
+  const baseUrl = env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
+  return `${baseUrl}/#/email-preferences?token=${encodeURIComponent(token)}`;
+}
+
+/** Where mail clients POST an RFC 8058 one-click unsubscribe. */
+export function oneClickUnsubscribeUrl(token: string): string {
+  return `${API_BASE_URL}/api/newsletter/unsubscribe/${encodeURIComponent(token)}`;
+}
+
+/**
+ * The unsubscribe link for {{unsubscribe_url}} and the List-Unsubscribe
+ * headers for one recipient of a marketing email.
+ */
+export async function unsubscribeLinks(env: Bindings, email: string, campaignId?: string) {
+  const token = await createPreferenceToken(env, email, campaignId);
+  return {
+    url: preferenceCentreUrl(env, token),
+    headers: {
+      'List-Unsubscribe': `<${oneClickUnsubscribeUrl(token)}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
+  };
+}
+
+// ============================================
+// PREFERENCES
+// ============================================
+
+/**
+ * Subscribers a campaign can go to right now: not paused, and not emailed
+ * more recently than their chosen frequency allows.
+ */
+export function receivesCampaignsNow(now = new Date()): SQL {
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+  return and(
+    or(isNull(subscribers.pausedUntil), lte(subscribers.pausedUntil, now.toISOString())),
+    or(
+      eq(subscribers.emailFrequency, 'all'),
+      isNull(subscribers.lastEmailedAt),
+      and(eq(subscribers.emailFrequency, 'weekly'), lt(subscribers.lastEmailedAt, daysAgo(FREQUENCY_DAYS.weekly))),
+      and(eq(subscribers.emailFrequency, 'monthly'), lt(subscribers.lastEmailedAt, daysAgo(FREQUENCY_DAYS.monthly))),
+    ),
+  )!;
+}
+
+/** What the preference centre shows: the address's subscription and the topics on offer. */
+export async function getPreferences(db: DB, email: string) {
+  const subscriber = await db.select().from(subscribers).where(eq(subscribers.email, email)).get();
+  const topics = await db.select().from(subscriberTags).orderBy(subscriberTags.name).all();
+  const chosen = new Set<string>((subscriber?.tags as string[]) || []);
+
+  return {
+    email,
+    subscribed: !!subscriber?.subscribed,
+    // Addresses that were only ever emailed by automations have no subscription to restore
+    canResubscribe: !!subscriber,
+    frequency: (subscriber?.emailFrequency || 'all') as EmailFrequency,
+    pausedUntil: subscriber?.pausedUntil && subscriber.pausedUntil > new Date().toISOString() ? subscriber.pausedUntil : null,
+    topics: topics.map((t: any) => ({ name: t.name, description: t.description, subscribed: chosen.has(t.name) })),
+  };
+}
+
+/**
+ * Record a preference change as an `unsubscribed` campaign event with the
+ * change as its reason. It's attributed to the campaign the link came from,
+ * or else the last campaign the address was sent; with neither there's
+ * nothing to attribute it to and no event is written.
+ */
+export async function recordPreferenceChange(db: DB, email: string, campaignId: string | undefined, reason: string) {
+  const subscriber = await db.select({ id: subscribers.id }).from(subscribers).where(eq(subscribers.email, email)).get();
+
+  // The campaign may have been deleted since the email went out
+  let attributedTo = campaignId
+    ? (await db.select({ id: campaigns.id }).from(campaigns).where(eq(campaigns.id, campaignId)).get())?.id
+    : undefined;
+  if (!attributedTo) {
+    const last = await db.select({ campaignId: campaignEvents.campaignId })
+      .from(campaignEvents)
+      .where(and(eq(campaignEvents.email, email), eq(campaignEvents.eventType, 'delivered')))
+      .orderBy(desc(campaignEvents.createdAt))
+      .get();
+    attributedTo = last?.campaignId;
+  }
+  if (!attributedTo) return;
+
+  await db.insert(campaignEvents).values({
+    campaignId: attributedTo,
+    subscriberId: subscriber?.id || null,
+    email,
+    eventType: 'unsubscribed',
+    metadata: { reason },
+  });
+}
+
+/**
+ * Unsubscribe an address from everything. Addresses that were never
+ * subscribers (automation emails to customers, say) are added to the
+ * suppression list instead, so they're not emailed again either.
+ */
+export async function unsubscribeAddress(db: DB, email: string, campaignId?: string) {
+  const now = new Date().toISOString();
+  const updated = await db.update(subscribers)
+    .set({ subscribed: false, unsubscribedAt: now, pausedUntil: null, updatedAt: now })
+    .where(eq(subscribers.email, email))
+    .returning({ id: subscribers.id })
+    .all();
+
+  if (updated.length === 0) {
+    await db.insert(suppressionList)
+      .values({ email, reason: 'manual', source: 'unsubscribe_link' })
+      .onConflictDoNothing();
+  }
+
+  await recordPreferenceChange(db, email, campaignId, 'unsubscribed');
+}
@@ -0,0 +1,512 @@
+import { eq, and, inArray, or } from 'drizzle-orm';
+import { products, productVariants, coachingPackages, learnItems, cohorts, siteSettings } from '../db/schema';
+import { resolveUnitPrice } from './variants';
+import { getTaxSettings, calculateTax, type TaxBreakdown } from './tax';
+import { parseGiftCardPurchase, findRedeemableGiftCard, type GiftCardPurchase } from './giftCards';
+import { currentCohortPrice, checkCohortOpen, checkBookingSlot, type ServiceType, type BookingSlot } from './services';
+import { evaluateDiscount, type AppliedDiscount, type DiscountBuyer, type DiscountableLine } from './discounts';
+import { getActivePromotions, evaluatePromotions, type AppliedPromotion } from './promotions';
+
+type DB = any; // DrizzleD1Database type
+
+// ============================================
+// SHIPPING SETTINGS
+// ============================================
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  countries: string[];                 // ISO 3166-1 alpha-2, e.g. ['AU']
+  rateType: 'flat' | 'weight';
+  flatRate: number;                    // flat: charge per order
+  baseRate: number;                    // weight: charge for the first kg
+  perKgRate: number;                   // weight: each additional kg or part thereof
+  freeShippingThreshold: number | null; // subtotal at which shipping is free
+}
+
+export interface ShippingSettings {
+  defaultWeightGrams: number;          // used for products without weightGrams
+  zones: ShippingZone[];
+}
+
+/** Matches the original hard-coded behaviour: AU only, $15 flat, free over $100. */
+export const DEFAULT_SHIPPING_SETTINGS: ShippingSettings = {
+  defaultWeightGrams: 100,
+  zones: [
+    {
+      id: 'domestic',
+      name: 'Australia',
+      countries: ['AU'],
+      rateType: 'flat',
+      flatRate: 15,
+      baseRate: 0,
+      perKgRate: 0,
+      freeShippingThreshold: 100,
+    },
+  ],
+};
+
+/**
+ * Load shipping zones from the `shipping` site setting, falling back to defaults.
+ */
+export async function getShippingSettings(db: DB): Promise<ShippingSettings> {
+  const row = await db.select().from(siteSettings).where(eq(siteSettings.key, 'shipping')).get();
+  if (!row) return DEFAULT_SHIPPING_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(row.value);
+    const zones = Array.isArray(parsed?.zones) ? parsed.zones.filter((z: any) => z?.countries?.length) : [];
+    if (zones.length === 0) return DEFAULT_SHIPPING_SETTINGS;
+    return {
+      defaultWeightGrams: Number(parsed.defaultWeightGrams) || DEFAULT_SHIPPING_SETTINGS.defaultWeightGrams,
+      zones: zones.map((z: any) => ({
+        id: String(z.id || z.name),
+        name: String(z.name || ''),
+        countries: z.countries.map((c: string) => String(c).trim().toUpperCase()).filter(Boolean),
+        rateType: z.rateType === 'weight' ? 'weight' : 'flat',
+        flatRate: Number(z.flatRate) || 0,
+        baseRate: Number(z.baseRate) || 0,
+        perKgRate: Number(z.perKgRate) || 0,
+        freeShippingThreshold: z.freeShippingThreshold === null || z.freeShippingThreshold === '' || z.freeShippingThreshold === undefined
+          ? null
+          : Number(z.freeShippingThreshold),
+      })),
+    };
+  } catch {
+    return DEFAULT_SHIPPING_SETTINGS;
+  }
+}
+
+/** Every country any zone ships to, for Stripe's allowed_countries and the checkout picker. */
+export function shippableCountries(settings: ShippingSettings): string[] {
+  return [...new Set(settings.zones.flatMap(z => z.countries))];
+}
+
+// ============================================
+// QUOTE
+// ============================================
+
+export interface CheckoutItemInput {
+  id: string;
+  type: 'product' | ServiceType;
+  quantity?: number;
+  variantId?: string;
+  giftCard?: Partial<GiftCardPurchase>; // gift-card products only
+  slot?: Partial<BookingSlot>;          // coaching only: the session time picked
+}
+
+export interface PricedProductLine {
+  product: any;
+  variant: any | null;
+  name: string;
+  unitCents: number;
+  quantity: number;
+  weightGrams: number;
+  giftCard: GiftCardPurchase | null;
+}
+
+/** A coaching package, course or workshop cohort. Always quantity 1, never shipped. */
+export interface PricedServiceLine {
+  type: ServiceType;
+  item: any; // coaching package, learn item or cohort row
+  name: string;
+  description: string | null;
+  image: string | null;
+  unitCents: number;
+  slot: BookingSlot | null;
+}
+
+export interface ShippingQuote {
+  zoneId: string;
+  zoneName: string;
+  country: string;
+  amountCents: number;
+  free: boolean;
+  freeShippingThresholdCents: number | null;
+  weightGrams: number;
+}
+
+export interface GiftCardRedemption {
+  id: string;
+  code: string;
+  balanceCents: number;
+  appliedCents: number;
+}
+
+/** A discount code to apply, and who is buying for its per-customer rules. */
+export interface DiscountRequest {
+  code: string;
+  buyer: DiscountBuyer;
+  requireBuyer?: boolean;
+}
+
+export interface CheckoutQuote {
+  productLines: PricedProductLine[];
+  serviceLines: PricedServiceLine[];
+  subtotalCents: number;
+  shipping: ShippingQuote | null;
+  promotions: AppliedPromotion[];
+  promotionsCents: number;
+  /** lineDiscountCents covers productLines followed by serviceLines, in order. */
+  discount: AppliedDiscount | null;
+  discountError: string | null;
+  /** Promotions plus the code's share per line: productLines followed by serviceLines. */
+  lineDiscountCents: number[];
+  /** lineTaxCents covers productLines followed by serviceLines, in order. */
+  tax: TaxBreakdown;
+  taxCountry: string;
+  giftCard: GiftCardRedemption | null;
+  giftCardError: string | null;
+  totalCents: number;
+  countries: string[];
+}
+
+export type QuoteResult =
+  | { quote: CheckoutQuote; error?: undefined }
+  | { quote?: undefined; error: string };
+
+function toCents(amount: number | string): number {
+  return Math.round(parseFloat(String(amount)) * 100);
+}
+
+/**
+ * Shipping for one zone. Weight-based rates charge baseRate for the first kg
+ * and perKgRate for each additional kg or part thereof.
+ */
+export function calculateShipping(zone: ShippingZone, subtotalCents: number, weightGrams: number) {
+  const thresholdCents = zone.freeShippingThreshold !== null ? toCents(zone.freeShippingThreshold) : null;
+  if (thresholdCents !== null && subtotalCents >= thresholdCents) {
+    return { amountCents: 0, free: true, freeShippingThresholdCents: thresholdCents };
+  }
+
+  let amountCents: number;
+  if (zone.rateType === 'weight') {
+    const extraKg = Math.max(0, Math.ceil(weightGrams / 1000) - 1);
+    amountCents = toCents(zone.baseRate) + extraKg * toCents(zone.perKgRate);
+  } else {
+    amountCents = toCents(zone.flatRate);
+  }
+
+  return { amountCents, free: amountCents === 0, freeShippingThresholdCents: thresholdCents };
+}
+
+/**
+ * Price a cart server-side. Used by both the checkout preview and the Stripe
+ * session so the customer sees exactly what they will be charged.
+ */
+export async function quoteCheckout(
+  db: DB,
+  items: CheckoutItemInput[],
+  country?: string,
+  giftCardCode?: string,
+  discountRequest?: DiscountRequest,
+): Promise<QuoteResult> {
+  const productItems = items.filter(i => i.type === 'product');
+  // A bad quantity would flow into the totals and the stock holds
+  if (productItems.some(i => i.quantity != null && (!Number.isInteger(i.quantity) || i.quantity < 1))) {
+    return { error: 'Item quantities must be whole numbers of at least 1' };
+  }
+  const productIds = productItems.map(i => i.id);
+
+  // Fetch products by id OR slug (frontend may send slugs as identifiers)
+  const fetchedProducts = productIds.length > 0
+    ? await db.select().from(products).where(
+        or(inArray(products.id, productIds), inArray(products.slug, productIds))
+      ).all()
+    : [];
+
+  // Active variants for the fetched products — a product with variants must be bought as one
+  const fetchedVariants = fetchedProducts.length > 0
+    ? await db.select().from(productVariants).where(and(
+        inArray(productVariants.productId, fetchedProducts.map((p: any) => p.id)),
+        eq(productVariants.active, true),
+      )).all()
+    : [];
+
+  const [settings, taxSettings] = await Promise.all([getShippingSettings(db), getTaxSettings(db)]);
+
+  const productLines: PricedProductLine[] = [];
+  for (const item of productItems) {
+    const product = fetchedProducts.find((p: any) => p.id === item.id || p.slug === item.id);
+    if (!product) continue;
+
+    // Each gift card is its own line with the buyer's chosen amount and recipient
+    if (product.productType === 'gift-card') {
+      const { purchase, error } = parseGiftCardPurchase(product, item.giftCard);
+      if (error || !purchase) return { error: error! };
+
+      productLines.push({
+        product,
+        variant: null,
+        name: `${product.name} — $${purchase.amount.toFixed(2)}`,
+        unitCents: toCents(purchase.amount),
+        quantity: 1,
+        weightGrams: 0,
+        giftCard: purchase,
+      });
+      continue;
+    }
+
+    const quantity = item.quantity ?? 1;
+    const productVariantRows = fetchedVariants.filter((v: any) => v.productId === product.id);
+    let variant: any | null = null;
+
+    if (productVariantRows.length > 0) {
+      variant = productVariantRows.find((v: any) => v.id === item.variantId) || null;
+      if (!variant) {
+        return { error: `Please choose an option for ${product.name}` };
+      }
+      if (product.trackInventory && !product.continueSelling && variant.quantity < quantity) {
+        return { error: `${product.name} — ${variant.title} is out of stock` };
+      }
+    }
+
+    productLines.push({
+      product,
+      variant,
+      name: variant ? `${product.name} — ${variant.title}` : product.name,
+      unitCents: toCents(resolveUnitPrice(product, variant)),
+      quantity,
+      weightGrams: (product.weightGrams || settings.defaultWeightGrams) * quantity,
+      giftCard: null,
+    });
+  }
+
+  const { serviceLines, error: serviceError } = await priceServiceLines(db, items);
+  if (serviceError) return { error: serviceError };
+
+  const subtotalCents = productLines.reduce((sum, l) => sum + l.unitCents * l.quantity, 0)
+    + serviceLines.reduce((sum, l) => sum + l.unitCents, 0);
+
+  // Shipping applies once per order when there are physical products (gift cards are emailed)
+  const countries = shippableCountries(settings);
+  const physicalLines = productLines.filter(l => !l.giftCard);
+  let shipping: ShippingQuote | null = null;
+
+  if (physicalLines.length > 0) {
+    const destination = (country || countries[0] || 'AU').toUpperCase();
+    const zone = settings.zones.find(z => z.countries.includes(destination));
+    if (!zone) {
+      return { error: `Sorry, we don't currently ship to ${destination}` };
+    }
+
+    const productSubtotalCents = physicalLines.reduce((sum, l) => sum + l.unitCents * l.quantity, 0);
+    const weightGrams = physicalLines.reduce((sum, l) => sum + l.weightGrams, 0);
+    const rate = calculateShipping(zone, productSubtotalCents, weightGrams);
+
+    shipping = {
+      zoneId: zone.id,
+      zoneName: zone.name,
+      country: destination,
+      weightGrams,
+      ...rate,
+    };
+  }
+
+  // Automatic promotions first, then any discount code on what's left of each line.
+  // Line shares come off before tax; free shipping comes off our own shipping line.
+  const discountLines: DiscountableLine[] = [
+    ...productLines.map(l => ({
+      productId: l.product.id,
+      productSlug: l.product.slug,
+      category: l.product.category,
+      amountCents: l.unitCents * l.quantity,
+      quantity: l.quantity,
+      giftCard: !!l.giftCard,
+    })),
+    ...serviceLines.map(l => ({ productId: null, productSlug: null, category: null, amountCents: l.unitCents, quantity: 1, giftCard: false })),
+  ];
+  const promotions = evaluatePromotions(await getActivePromotions(db), discountLines);
+
+  let discount: AppliedDiscount | null = null;
+  let discountError: string | null = null;
+  if (discountRequest?.code?.trim()) {
+    const exclusive = promotions.applied.find(p => !p.combinesWithCodes);
+    const result = exclusive
+      ? { error: `Discount codes can't be used with ${exclusive.label || exclusive.name}` }
+      : await evaluateDiscount(
+          db,
+          discountRequest.code,
+          discountLines.map((l, i) => ({ ...l, amountCents: l.amountCents - promotions.lineDiscountCents[i] })),
+          shipping?.amountCents ?? null,
+          discountRequest.buyer,
+          discountRequest.requireBuyer,
+        );
+    if (result.error || !result.discount) {
+      discountError = result.error || 'This discount code is not valid';
+    } else {
+      discount = result.discount;
+    }
+  }
+  const lineDiscountCents = promotions.lineDiscountCents.map((cents, i) => cents + (discount?.lineDiscountCents[i] ?? 0));
+  const shippingChargedCents = (shipping?.amountCents ?? 0) - (discount?.shippingDiscountCents ?? 0);
+
+  // Tax by destination (orders with nothing to ship use the home country)
+  const taxCountry = shipping?.country || (country || countries[0] || 'AU').toUpperCase();
+  const tax = calculateTax(
+    taxSettings,
+    taxCountry,
+    [
+      // Gift cards are taxed when redeemed, not when sold
+      ...productLines.map((l, i) => ({
+        amountCents: l.unitCents * l.quantity - lineDiscountCents[i],
+        taxable: !l.giftCard && l.product.taxable !== false,
+      })),
+      ...serviceLines.map((l, i) => ({ amountCents: l.unitCents - lineDiscountCents[productLines.length + i], taxable: true })),
+    ],
+    shippingChargedCents,
+  );
+
+  const totalCents = subtotalCents - promotions.totalCents - (discount?.itemsDiscountCents ?? 0)
+    + shippingChargedCents + tax.additionalCents;
+
+  // A gift card pays for anything except other gift cards
+  let giftCard: GiftCardRedemption | null = null;
+  let giftCardError: string | null = null;
+  if (giftCardCode?.trim()) {
+    const { card, error } = await findRedeemableGiftCard(db, giftCardCode);
+    if (error || !card) {
+      giftCardError = error || 'Gift card not found';
+    } else {
+      const giftCardLinesCents = productLines.filter(l => l.giftCard).reduce((sum, l) => sum + l.unitCents, 0);
+      const balanceCents = toCents(card.currentBalance);
+      const appliedCents = Math.min(balanceCents, Math.max(0, totalCents - giftCardLinesCents));
+      if (appliedCents <= 0) {
+        giftCardError = 'Gift cards cannot be used to buy other gift cards';
+      } else {
+        giftCard = { id: card.id, code: card.code, balanceCents, appliedCents };
+      }
+    }
+  }
+
+  return {
+    quote: {
+      productLines,
+      serviceLines,
+      subtotalCents,
+      shipping,
+      promotions: promotions.applied,
+      promotionsCents: promotions.totalCents,
+      discount,
+      discountError,
+      lineDiscountCents,
+      tax,
+      taxCountry,
+      giftCard,
+      giftCardError,
+      totalCents: totalCents - (giftCard?.appliedCents ?? 0),
+      countries,
+    },
+  };
+}
+
+/**
+ * Price the coaching, course and cohort items in a cart. Each can be bought
+ * once per order; anything that isn't published, has no online price, or
+ * (for cohorts) isn't taking registrations is rejected with a message the
+ * storefront can show.
+ */
+async function priceServiceLines(
+  db: DB,
+  items: CheckoutItemInput[],
+): Promise<{ serviceLines: PricedServiceLine[]; error?: string }> {
+  const serviceLines: PricedServiceLine[] = [];
+  const seen = new Set<string>();
+
+  for (const input of items) {
+    if (input.type === 'product' || seen.has(`${input.type}:${input.id}`)) continue;
+    seen.add(`${input.type}:${input.id}`);
+
+    if (input.type === 'coaching') {
+      const pkg = await db.select().from(coachingPackages)
+        .where(or(eq(coachingPackages.id, input.id), eq(coachingPackages.slug, input.id)))
+        .get();
+      if (!pkg || pkg.status !== 'published' || pkg.archived) {
+        return { serviceLines, error: 'This coaching package is no longer available' };
+      }
+      if (!pkg.priceAmount || pkg.priceType === 'free' || pkg.priceType === 'inquiry') {
+        return { serviceLines, error: `${pkg.title} can't be booked online — please get in touch` };
+      }
+
+      let slot: BookingSlot | null = null;
+      if (input.slot) {
+        const checked = await checkBookingSlot(db, input.slot);
+        if (checked.error || !checked.slot) return { serviceLines, error: checked.error };
+        slot = checked.slot;
+      }
+
+      serviceLines.push({
+        type: 'coaching',
+        item: pkg,
+        name: pkg.title,
+        description: pkg.summary || pkg.description || null,
+        image: pkg.coverImageUrl || pkg.image || null,
+        unitCents: toCents(pkg.priceAmount),
+        slot,
+      });
+      continue;
+    }
+
+    if (input.type === 'learn') {
+      const course = await db.select().from(learnItems)
+        .where(or(eq(learnItems.id, input.id), eq(learnItems.slug, input.id)))
+        .get();
+      if (!course || course.status !== 'published' || course.archived) {
+        return { serviceLines, error: 'This course is no longer available' };
+      }
+      // Workshops run as cohorts, so a date has to be picked
+      if (course.type === 'WORKSHOP') {
+        return { serviceLines, error: `Please choose a date for ${course.title}` };
+      }
+      if (!course.priceAmount) {
+        return { serviceLines, error: `${course.title} can't be bought online — please get in touch` };
+      }
+      if (course.capacity && (course.enrolledCount || 0) >= course.capacity) {
+        return { serviceLines, error: `${course.title} is sold out` };
+      }
+
+      serviceLines.push({
+        type: 'learn',
+        item: course,
+        name: course.title,
+        description: course.summary || course.subtitle || null,
+        image: course.coverImageUrl || course.image || null,
+        unitCents: toCents(course.priceAmount),
+        slot: null,
+      });
+      continue;
+    }
+
+    if (input.type === 'cohort') {
+      const row = await db.select({ cohort: cohorts, learnItem: learnItems })
+        .from(cohorts)
+        .leftJoin(learnItems, eq(cohorts.learnItemId, learnItems.id))
+        .where(or(eq(cohorts.id, input.id), eq(cohorts.slug, input.id)))
+        .get();
+      if (!row) {
+        return { serviceLines, error: 'This workshop date is no longer available' };
+      }
+
+      const { cohort, learnItem } = row;
+      const { error } = checkCohortOpen(cohort);
+      if (error) return { serviceLines, error };
+
+      const price = currentCohortPrice(cohort, learnItem);
+      if (!price) {
+        return { serviceLines, error: `${cohort.title} can't be booked online — please get in touch` };
+      }
+
+      serviceLines.push({
+        type: 'cohort',
+        item: cohort,
+        name: learnItem ? `${learnItem.title} — ${cohort.title}` : cohort.title,
+        description: cohort.description || learnItem?.summary || null,
+        image: learnItem?.coverImageUrl || learnItem?.image || null,
+        unitCents: toCents(price),
+        slot: null,
+      });
+    }
+  }
+
+  return { serviceLines };
+}
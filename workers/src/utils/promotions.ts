@@ -0,0 +1,171 @@
+import { eq, and, asc, desc, sql } from 'drizzle-orm';
+import { automaticPromotions } from '../db/schema';
+import { isLineEligible, allocateDiscount, type DiscountableLine } from './discounts';
+
+type DB = any; // DrizzleD1Database type
+
+// Automatic promotions apply at checkout without a code while they are
+// scheduled. They are worked out before any discount code, which then
+// applies to what is left of each line.
+
+export interface AppliedPromotion {
+  id: string;
+  name: string;
+  label: string | null;
+  amountCents: number;
+  stackable: boolean;
+  combinesWithCodes: boolean;
+}
+
+export interface PromotionResult {
+  applied: AppliedPromotion[];
+  /** Each line's share of totalCents, in the order the lines were given. */
+  lineDiscountCents: number[];
+  totalCents: number;
+}
+
+function toCents(amount: number | string): number {
+  return Math.round(parseFloat(String(amount)) * 100);
+}
+
+/** Promotions running right now, highest priority first. */
+export async function getActivePromotions(db: DB) {
+  const now = new Date().toISOString();
+  return db.select().from(automaticPromotions)
+    .where(and(
+      eq(automaticPromotions.active, true),
+      sql`(${automaticPromotions.startsAt} IS NULL OR ${automaticPromotions.startsAt} <= ${now})`,
+      sql`(${automaticPromotions.endsAt} IS NULL OR ${automaticPromotions.endsAt} > ${now})`,
+    ))
+    .orderBy(desc(automaticPromotions.priority), asc(automaticPromotions.createdAt))
+    .all();
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+/** What one promotion takes off each line, given what's left of the lines. */
+function promotionShares(promotion: any, lines: DiscountableLine[]): number[] {
+  const none = lines.map(() => 0);
+
+  switch (promotion.type) {
+    case 'percentage': {
+      const percent = Math.min(Math.max(promotion.value, 0), 100);
+      return lines.map(l => (isLineEligible(promotion, l) ? Math.round(l.amountCents * percent / 100) : 0));
+    }
+
+    case 'fixed_amount':
+      // An amount off each unit, never more than the line is worth
+      return lines.map(l => (isLineEligible(promotion, l) ? Math.min(toCents(promotion.value) * l.quantity, l.amountCents) : 0));
+
+    case 'spend_threshold': {
+      const eligibleCents = lines.reduce((sum, l) => (isLineEligible(promotion, l) ? sum + l.amountCents : sum), 0);
+      const tier = [...(promotion.tiers || [])]
+        .sort((a: any, b: any) => b.minSpend - a.minSpend)
+        .find((t: any) => eligibleCents >= toCents(t.minSpend));
+      return tier ? allocateDiscount(toCents(tier.amountOff), lines, promotion) : none;
+    }
+
+    case 'buy_x_get_y': {
+      const buy = promotion.buyQuantity;
+      const get = promotion.getQuantity;
+      if (buy < 1 || get < 1) return none;
+
+      // Every matching unit, dearest first; the cheapest get-units of each full group are discounted
+      const units: Array<{ line: number; cents: number }> = [];
+      lines.forEach((l, i) => {
+        if (!isLineEligible(promotion, l) || l.quantity < 1) return;
+        const unitCents = Math.floor(l.amountCents / l.quantity);
+        for (let n = 0; n < l.quantity; n++) units.push({ line: i, cents: unitCents });
+      });
+      units.sort((a, b) => b.cents - a.cents || a.line - b.line);
+
+      const discounted = Math.floor(units.length / (buy + get)) * get;
+      const percent = Math.min(promotion.value > 0 ? promotion.value : 100, 100);
+      const shares = [...none];
+      for (const unit of units.slice(units.length - discounted)) {
+        shares[unit.line] += Math.round(unit.cents * percent / 100);
+      }
+      return shares;
+    }
+  }
+
+  return none;
+}
+
+/**
+ * Apply promotions to a cart in priority order. Each one works on what the
+ * ones before it left. A promotion that isn't stackable only applies when
+ * nothing else has, and stops anything after it.
+ */
+export function evaluatePromotions(promotions: any[], lines: DiscountableLine[]): PromotionResult {
+  const lineDiscountCents = lines.map(() => 0);
+  const applied: AppliedPromotion[] = [];
+
+  for (const promotion of promotions) {
+    if (applied.length > 0 && (!promotion.stackable || applied.some(a => !a.stackable))) continue;
+
+    const remaining = lines.map((l, i) => ({ ...l, amountCents: l.amountCents - lineDiscountCents[i] }));
+    const shares = promotionShares(promotion, remaining);
+    const amountCents = shares.reduce((sum, s) => sum + s, 0);
+    if (amountCents <= 0) continue;
+
+    shares.forEach((share, i) => { lineDiscountCents[i] += share; });
+    applied.push({
+      id: promotion.id,
+      name: promotion.name,
+      label: promotion.label || null,
+      amountCents,
+      stackable: !!promotion.stackable,
+      combinesWithCodes: !!promotion.combinesWithCodes,
+    });
+  }
+
+  return {
+    applied,
+    lineDiscountCents,
+    totalCents: lineDiscountCents.reduce((sum, s) => sum + s, 0),
+  };
+}
+
+// ============================================
+// STOREFRONT
+// ============================================
+
+/**
+ * How promotions show on a product: the label of the first one covering it,
+ * and the sale price when a straight percentage or amount off applies (buy X
+ * get Y and spend thresholds depend on the cart, so they only get the label).
+ */
+export function productPromotion(promotions: any[], product: any, variants: any[] = []) {
+  const line = (price: string): DiscountableLine => ({
+    productId: product.id,
+    productSlug: product.slug,
+    category: product.category,
+    amountCents: toCents(price),
+    quantity: 1,
+    giftCard: product.productType === 'gift-card',
+  });
+
+  const covering = promotions.filter(p => isLineEligible(p, line(product.price)));
+  if (covering.length === 0) return null;
+
+  const sales = covering.filter(p => p.type === 'percentage' || p.type === 'fixed_amount');
+  const salePrice = (price: string): string | null => {
+    const { totalCents } = evaluatePromotions(sales, [line(price)]);
+    return totalCents > 0 ? ((toCents(price) - totalCents) / 100).toFixed(2) : null;
+  };
+
+  const variantPrices: Record<string, string> = {};
+  for (const variant of variants) {
+    const price = variant.price ? salePrice(variant.price) : null;
+    if (price) variantPrices[variant.id] = price;
+  }
+
+  return {
+    label: covering[0].label || covering[0].name,
+    price: salePrice(product.price),
+    variantPrices,
+  };
+}
@@ -0,0 +1,320 @@
+import { eq, and, lte, isNull, isNotNull, inArray } from 'drizzle-orm';
+import { products, blogPosts, blogPostVersions, coachingPackages, learnItems, campaigns, siteSettings } from '../db/schema';
+import { logActivity } from './activityLog';
+import { API_BASE_URL } from './email';
+import type { Bindings } from '../index';
+
+type DB = any; // DrizzleD1Database type
+
+/** Activity log entries written by the cron job are attributed to the scheduler. */
+export const SCHEDULER_ACTOR = { name: 'Scheduler' };
+
+export interface PublishingSettings {
+  /** Draft a "new arrivals" campaign when scheduled products go live. */
+  newArrivalCampaign: boolean;
+}
+
+export const DEFAULT_PUBLISHING_SETTINGS: PublishingSettings = {
+  newArrivalCampaign: false,
+};
+
+export async function getPublishingSettings(db: DB): Promise<PublishingSettings> {
+  const row = await db.select().from(siteSettings).where(eq(siteSettings.key, 'publishing')).get();
+  if (!row) return DEFAULT_PUBLISHING_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(row.value);
+    return { newArrivalCampaign: !!parsed?.newArrivalCampaign };
+  } catch {
+    return DEFAULT_PUBLISHING_SETTINGS;
+  }
+}
+
+export function validateForPublish(product: any): { valid: boolean; errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!product.name?.trim()) errors.push('Name is required');
+  if (!product.price || parseFloat(product.price) <= 0) errors.push('Price must be greater than $0');
+  if (!product.category?.trim()) errors.push('Category is required');
+  if (!product.shortDescription?.trim()) errors.push('Short description is required');
+  if (!product.image?.trim()) errors.push('At least one image is required');
+  if (!product.slug?.trim()) errors.push('URL slug is required');
+
+  if (!product.metaDescription) warnings.push('No meta description set (SEO)');
+  if (!product.longDescription) warnings.push('Long description is empty');
+  if (!product.compareAtPrice) warnings.push('No compare-at price set');
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/** A future date for scheduling, as an ISO string, or an error message. */
+export function parseScheduleDate(value: unknown, label: string): { date?: string; error?: string } {
+  const date = new Date(String(value || ''));
+  if (!value || isNaN(date.getTime())) {
+    return { error: `${label} must be a valid date` };
+  }
+  if (date <= new Date()) {
+    return { error: `${label} must be in the future` };
+  }
+  return { date: date.toISOString() };
+}
+
+// ============================================
+// PUBLISHING
+// ============================================
+
+/**
+ * Publish scheduled products whose date has arrived. A product that no longer
+ * passes publish validation goes back to draft, with the reason in the
+ * activity log, rather than being retried every run.
+ */
+export async function publishDueProducts(db: DB, now: string) {
+  const due = await db.select().from(products)
+    .where(and(
+      eq(products.status, 'scheduled'),
+      isNotNull(products.scheduledFor),
+      lte(products.scheduledFor, now),
+      isNull(products.deletedAt),
+    ))
+    .all();
+
+  const published: any[] = [];
+  for (const product of due) {
+    const validation = validateForPublish(product);
+    if (!validation.valid) {
+      const reverted = await db.update(products)
+        .set({ status: 'draft', scheduledFor: null, updatedAt: now })
+        .where(eq(products.id, product.id))
+        .returning().get();
+      await logActivity(db, 'update', 'product', reverted, SCHEDULER_ACTOR, {
+        status: { old: 'scheduled', new: 'draft' },
+        publishErrors: { old: null, new: validation.errors },
+      });
+      console.error(`[Cron] Could not publish product ${product.id}: ${validation.errors.join(', ')}`);
+      continue;
+    }
+
+    const result = await db.update(products)
+      .set({
+        status: 'active',
+        archived: false,
+        publishedAt: product.publishedAt || now,
+        scheduledFor: null,
+        updatedAt: now,
+      })
+      .where(and(eq(products.id, product.id), eq(products.status, 'scheduled')))
+      .returning().get();
+    if (!result) continue;
+
+    await logActivity(db, 'publish', 'product', result, SCHEDULER_ACTOR, {
+      status: { old: 'scheduled', new: 'active' },
+    });
+    published.push(result);
+  }
+  return published;
+}
+
+export async function publishDueBlogPosts(db: DB, now: string) {
+  const due = await db.select().from(blogPosts)
+    .where(and(eq(blogPosts.status, 'scheduled'), isNotNull(blogPosts.scheduledAt), lte(blogPosts.scheduledAt, now)))
+    .all();
+
+  for (const existing of due) {
+    const post = await db.update(blogPosts)
+      .set({
+        status: 'published',
+        published: true,
+        publishedAt: existing.publishedAt || now,
+        scheduledAt: null,
+        updatedAt: now,
+      })
+      .where(and(eq(blogPosts.id, existing.id), eq(blogPosts.status, 'scheduled')))
+      .returning().get();
+    if (!post) continue;
+
+    // Same version snapshot as publishing by hand
+    await db.insert(blogPostVersions).values({
+      postId: post.id,
+      title: post.title,
+      content: post.content,
+      contentJson: post.contentJson || null,
+      excerpt: post.excerpt || '',
+      createdBy: null,
+    });
+    await logActivity(db, 'publish', 'blog_post', post, SCHEDULER_ACTOR);
+  }
+  return due.length;
+}
+
+export async function publishDueCoaching(db: DB, now: string) {
+  const due = await db.select().from(coachingPackages)
+    .where(and(eq(coachingPackages.status, 'scheduled'), isNotNull(coachingPackages.scheduledAt), lte(coachingPackages.scheduledAt, now)))
+    .all();
+
+  for (const existing of due) {
+    const item = await db.update(coachingPackages)
+      .set({
+        status: 'published',
+        archived: false,
+        publishedAt: existing.publishedAt || now,
+        scheduledAt: null,
+        updatedAt: now,
+      })
+      .where(and(eq(coachingPackages.id, existing.id), eq(coachingPackages.status, 'scheduled')))
+      .returning().get();
+    if (item) await logActivity(db, 'publish', 'coaching_package', item, SCHEDULER_ACTOR);
+  }
+  return due.length;
+}
+
+export async function publishDueLearnItems(db: DB, now: string) {
+  const due = await db.select().from(learnItems)
+    .where(and(eq(learnItems.status, 'scheduled'), isNotNull(learnItems.scheduledAt), lte(learnItems.scheduledAt, now)))
+    .all();
+
+  for (const existing of due) {
+    const item = await db.update(learnItems)
+      .set({
+        status: 'published',
+        archived: false,
+        publishedAt: existing.publishedAt || now,
+        scheduledAt: null,
+        updatedAt: now,
+      })
+      .where(and(eq(learnItems.id, existing.id), eq(learnItems.status, 'scheduled')))
+      .returning().get();
+    if (item) await logActivity(db, 'publish', 'learn_item', item, SCHEDULER_ACTOR);
+  }
+  return due.length;
+}
+
+// ============================================
+// ARCHIVING
+// ============================================
+
+/** Take live items off the site once their archive date has passed. */
+export async function archiveDueContent(db: DB, now: string) {
+  let archived = 0;
+
+  const dueProducts = await db.select().from(products)
+    .where(and(
+      inArray(products.status, ['active', 'scheduled']),
+      isNotNull(products.archiveAt),
+      lte(products.archiveAt, now),
+      isNull(products.deletedAt),
+    ))
+    .all();
+  for (const existing of dueProducts) {
+    const result = await db.update(products)
+      .set({ status: 'archived', archived: true, archiveAt: null, scheduledFor: null, updatedAt: now })
+      .where(eq(products.id, existing.id))
+      .returning().get();
+    await logActivity(db, 'archive', 'product', result, SCHEDULER_ACTOR, {
+      status: { old: existing.status, new: 'archived' },
+    });
+    archived++;
+  }
+
+  const duePosts = await db.select().from(blogPosts)
+    .where(and(inArray(blogPosts.status, ['published', 'scheduled']), isNotNull(blogPosts.archiveAt), lte(blogPosts.archiveAt, now)))
+    .all();
+  for (const existing of duePosts) {
+    const post = await db.update(blogPosts)
+      .set({ status: 'archived', published: false, archiveAt: null, scheduledAt: null, updatedAt: now })
+      .where(eq(blogPosts.id, existing.id))
+      .returning().get();
+    await logActivity(db, 'archive', 'blog_post', post, SCHEDULER_ACTOR);
+    archived++;
+  }
+
+  const dueCoaching = await db.select().from(coachingPackages)
+    .where(and(inArray(coachingPackages.status, ['published', 'scheduled']), isNotNull(coachingPackages.archiveAt), lte(coachingPackages.archiveAt, now)))
+    .all();
+  for (const existing of dueCoaching) {
+    const item = await db.update(coachingPackages)
+      .set({ status: 'archived', archived: true, archiveAt: null, scheduledAt: null, updatedAt: now })
+      .where(eq(coachingPackages.id, existing.id))
+      .returning().get();
+    await logActivity(db, 'archive', 'coaching_package', item, SCHEDULER_ACTOR);
+    archived++;
+  }
+
+  const dueLearn = await db.select().from(learnItems)
+    .where(and(inArray(learnItems.status, ['published', 'scheduled']), isNotNull(learnItems.archiveAt), lte(learnItems.archiveAt, now)))
+    .all();
+  for (const existing of dueLearn) {
+    const item = await db.update(learnItems)
+      .set({ status: 'archived', archived: true, archiveAt: null, scheduledAt: null, updatedAt: now })
+      .where(eq(learnItems.id, existing.id))
+      .returning().get();
+    await logActivity(db, 'archive', 'learn_item', item, SCHEDULER_ACTOR);
+    archived++;
+  }
+
+  return archived;
+}
+
+// ============================================
+// NEW ARRIVAL CAMPAIGNS
+// ============================================
+
+function productUrl(baseUrl: string, product: any): string {
+  return `${baseUrl}/#/${product.productType === 'wall-art' ? 'wall-art' : 'shop'}/${product.slug || product.id}`;
+}
+
+// Uploaded images are served by the API, so emails need its absolute URL
+function absoluteImageUrl(image: string): string {
+  return image?.startsWith('/') ? `${API_BASE_URL}${image}` : image;
+}
+
+/**
+ * Draft a campaign announcing products that have just gone live, for the
+ * admin to review and send. Nothing is sent automatically.
+ */
+export async function draftNewArrivalCampaign(env: Bindings, db: DB, published: any[]) {
+  if (published.length === 0) return null;
+
+  const baseUrl = env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
+  const blockId = (n: number) => `block-${Date.now()}-${n}`;
+  const names = published.map(p => p.name);
+
+  const blocks = [
+    { id: blockId(1), type: 'header', props: { brandName: 'LYNE TILT', tagline: 'Wearable Art & Creative Coaching', bgColor: '#ffffff', textColor: '#1c1917' } },
+    {
+      id: blockId(2),
+      type: 'richtext',
+      props: {
+        html: published.length === 1
+          ? `<h2>Just Arrived: ${names[0]}</h2><p>${published[0].shortDescription || ''}</p>`
+          : `<h2>New Arrivals</h2><p>${published.length} new pieces have just landed in the shop.</p>`,
+      },
+    },
+    ...published.map((product, i) => ({
+      id: blockId(10 + i),
+      type: 'product',
+      props: {
+        productId: product.id,
+        productName: product.name,
+        productPrice: `$${parseFloat(product.price).toFixed(2)}`,
+        productImage: absoluteImageUrl(product.image),
+        productUrl: productUrl(baseUrl, product),
+      },
+    })),
+    {
+      id: blockId(3),
+      type: 'cta',
+      props: { text: 'Shop Now', url: published.length === 1 ? productUrl(baseUrl, published[0]) : `${baseUrl}/#/shop`, bgColor: '#8d3038', textColor: '#ffffff', borderRadius: 6, alignment: 'center' },
+    },
+  ];
+
+  const campaign = await db.insert(campaigns).values({
+    subject: published.length === 1 ? `Just arrived: ${names[0]}` : `New arrivals: ${names.slice(0, 3).join(', ')}${names.length > 3 ? ' and more' : ''}`,
+    preheader: 'Fresh from the studio',
+    body: JSON.stringify(blocks),
+    audience: 'all',
+  }).returning().get();
+
+  await logActivity(db, 'create', 'campaign', campaign, SCHEDULER_ACTOR);
+  return campaign;
+}
@@ -0,0 +1,172 @@
+import { eq, sql } from 'drizzle-orm';
+import type Stripe from 'stripe';
+import { orders, orderItems, products, productVariants, refunds, refundItems } from '../db/schema';
+import { changeStock } from './inventory';
+
+type DB = any; // DrizzleD1Database type
+
+export const REFUND_REASONS = [
+  'requested_by_customer',
+  'damaged',
+  'wrong_item',
+  'not_as_described',
+  'duplicate',
+  'fraudulent',
+  'other',
+] as const;
+
+export type RefundReason = typeof REFUND_REASONS[number];
+
+/** Stripe only accepts three reasons; everything else is recorded locally. */
+export function toStripeReason(reason: RefundReason): Stripe.RefundCreateParams.Reason | undefined {
+  if (reason === 'duplicate' || reason === 'fraudulent' || reason === 'requested_by_customer') return reason;
+  return undefined;
+}
+
+/** Map a Stripe refund status onto the statuses we store. */
+export function toRefundStatus(status: string | null | undefined): 'pending' | 'succeeded' | 'failed' | 'canceled' {
+  if (status === 'succeeded' || status === 'failed' || status === 'canceled') return status;
+  return 'pending';
+}
+
+/**
+ * Put returned units back into stock and record the return in the inventory
+ * ledger. Variant lines go back to the variant and the product total is
+ * re-synced; products that don't track inventory are skipped. Returns the
+ * product as it was before the restock, or null when nothing was restocked.
+ */
+export async function restockOrderItem(
+  db: DB,
+  item: { orderId: string; productId: string | null; variantId: string | null },
+  quantity: number,
+  context: { note?: string; user?: { id: string; name?: string | null } | null } = {},
+) {
+  if (!item.productId || quantity <= 0) return null;
+
+  const product = await db.select().from(products).where(eq(products.id, item.productId)).get();
+  if (!product || !product.trackInventory) return null;
+
+  const variant = item.variantId
+    ? await db.select({ id: productVariants.id }).from(productVariants).where(eq(productVariants.id, item.variantId)).get()
+    : null;
+
+  await changeStock(db, {
+    productId: product.id,
+    variantId: variant?.id ?? null,
+    change: quantity,
+    type: 'return',
+    orderId: item.orderId,
+    note: context.note,
+    user: context.user,
+  });
+  return product;
+}
+
+/**
+ * Recompute orders.refundedAmount, giftCardRefundedAmount and paymentStatus
+ * from the refunds table. Pending refunds count so the same amount can't be
+ * refunded twice while Stripe is still processing. An order is fully refunded
+ * once both its Stripe charge and its gift card part have been returned.
+ */
+export async function recalculateOrderRefunds(db: DB, orderId: string) {
+  const order = await db.select().from(orders).where(eq(orders.id, orderId)).get();
+  if (!order) return null;
+
+  const totals = await db
+    .select({
+      amount: sql<number>`COALESCE(SUM(CASE WHEN ${refunds.status} IN ('pending', 'succeeded') THEN CAST(${refunds.amount} AS REAL) ELSE 0 END), 0)`,
+      // Gift card credits are made straight away and stand even if the Stripe part later fails
+      giftCardAmount: sql<number>`COALESCE(SUM(CAST(${refunds.giftCardAmount} AS REAL)), 0)`,
+    })
+    .from(refunds)
+    .where(eq(refunds.orderId, orderId))
+    .get();
+
+  const refundedCents = Math.round((totals?.amount ?? 0) * 100);
+  const giftCardRefundedCents = Math.round((totals?.giftCardAmount ?? 0) * 100);
+  const totalCents = Math.round(parseFloat(order.total) * 100);
+  const giftCardCents = Math.round(parseFloat(order.giftCardAmount || '0') * 100);
+  const anyRefunded = refundedCents + giftCardRefundedCents > 0;
+
+  let paymentStatus = order.paymentStatus;
+  if (anyRefunded && refundedCents >= totalCents && giftCardRefundedCents >= giftCardCents) {
+    paymentStatus = 'refunded';
+  } else if (anyRefunded) {
+    paymentStatus = 'partially_refunded';
+  } else if (order.paymentStatus === 'refunded' || order.paymentStatus === 'partially_refunded') {
+    paymentStatus = 'paid';
+  }
+
+  const now = new Date().toISOString();
+  await db.update(orders).set({
+    refundedAmount: (refundedCents / 100).toFixed(2),
+    giftCardRefundedAmount: (giftCardRefundedCents / 100).toFixed(2),
+    paymentStatus,
+    refundedAt: anyRefunded ? (order.refundedAt || now) : null,
+    updatedAt: now,
+  }).where(eq(orders.id, orderId));
+
+  return db.select().from(orders).where(eq(orders.id, orderId)).get();
+}
+
+/**
+ * Release the line quantities held by a refund that Stripe failed or cancelled,
+ * so they can be refunded again.
+ */
+async function releaseRefundItems(db: DB, refundId: string) {
+  const lines = await db.select().from(refundItems).where(eq(refundItems.refundId, refundId)).all();
+  for (const line of lines) {
+    await db.update(orderItems)
+      .set({ refundedQuantity: sql`MAX(0, ${orderItems.refundedQuantity} - ${line.quantity})` })
+      .where(eq(orderItems.id, line.orderItemId));
+  }
+}
+
+/**
+ * Reconcile a Stripe refund (from the charge.refunded webhook) with our records.
+ * Refunds issued from the admin are matched by metadata.refundId; refunds made
+ * directly in the Stripe dashboard are recorded as new rows.
+ */
+export async function syncStripeRefund(db: DB, refund: Stripe.Refund) {
+  const paymentIntentId = typeof refund.payment_intent === 'string'
+    ? refund.payment_intent
+    : refund.payment_intent?.id;
+  if (!paymentIntentId) return;
+
+  const order = await db.select().from(orders).where(eq(orders.stripePaymentIntentId, paymentIntentId)).get();
+  if (!order) return;
+
+  const status = toRefundStatus(refund.status);
+  const now = new Date().toISOString();
+
+  let existing = await db.select().from(refunds).where(eq(refunds.stripeRefundId, refund.id)).get();
+  if (!existing && refund.metadata?.refundId) {
+    existing = await db.select().from(refunds).where(eq(refunds.id, refund.metadata.refundId)).get();
+  }
+
+  if (existing) {
+    const wasActive = existing.status === 'pending' || existing.status === 'succeeded';
+    if (wasActive && (status === 'failed' || status === 'canceled')) {
+      await releaseRefundItems(db, existing.id);
+    }
+    await db.update(refunds).set({
+      stripeRefundId: refund.id,
+      status,
+      updatedAt: now,
+    }).where(eq(refunds.id, existing.id));
+  } else {
+    await db.insert(refunds).values({
+      orderId: order.id,
+      stripeRefundId: refund.id,
+      amount: (refund.amount / 100).toFixed(2),
+      reason: refund.reason === 'duplicate' || refund.reason === 'fraudulent' ? refund.reason : 'requested_by_customer',
+      note: 'Refunded in Stripe',
+      status,
+      source: 'stripe',
+      createdAt: new Date(refund.created * 1000).toISOString(),
+      updatedAt: now,
+    });
+  }
+
+  await recalculateOrderRefunds(db, order.id);
+}
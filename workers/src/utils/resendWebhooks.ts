@@ -0,0 +1,281 @@
+import { eq, and, sql } from 'drizzle-orm';
+import { campaignEvents, subscribers, suppressionList, automationQueue, resendEvents } from '../db/schema';
+
+type DB = any; // DrizzleD1Database type
+
+/** Soft bounces in a row (with no delivery in between) before an address is suppressed. */
+export const SOFT_BOUNCE_LIMIT = 3;
+
+/** Signed deliveries older or newer than this are rejected as replays. */
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface ResendWebhookEvent {
+  type: string;
+  created_at: string;
+  data: {
+    email_id: string;
+    to?: string[] | string;
+    subject?: string;
+    tags?: Record<string, string> | Array<{ name: string; value: string }>;
+    bounce?: { type?: string; subType?: string; message?: string };
+  };
+}
+
+export interface ResendWebhookResult {
+  status: 'processed' | 'ignored';
+  campaignId?: string | null;
+  automationQueueId?: string | null;
+}
+
+// ============================================
+// SIGNATURES
+// ============================================
+
+// Resend signs webhooks the Svix way: an HMAC-SHA256 over
+// "<svix-id>.<svix-timestamp>.<body>" with the base64 part of the whsec_ secret,
+// sent as one or more space-separated "v1,<base64 signature>" values.
+
+function base64ToBytes(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function bytesToBase64(bytes: ArrayBuffer): string {
+  let binary = '';
+  for (const byte of new Uint8Array(bytes)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export async function verifyResendSignature(
+  secret: string,
+  headers: { id?: string; timestamp?: string; signature?: string },
+  rawBody: string,
+): Promise<boolean> {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature) return false;
+
+  const sentAt = parseInt(timestamp, 10);
+  if (!Number.isFinite(sentAt) || Math.abs(Date.now() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base64ToBytes(secret.replace(/^whsec_/, '')),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const expected = bytesToBase64(
+    await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${id}.${timestamp}.${rawBody}`)),
+  );
+
+  return signature.split(' ').some((part) => {
+    const [version, value] = part.split(',');
+    return version === 'v1' && !!value && timingSafeEqual(value, expected);
+  });
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+function eventTag(event: ResendWebhookEvent, name: string): string | null {
+  const tags = event.data.tags;
+  if (!tags) return null;
+  if (Array.isArray(tags)) return tags.find(t => t.name === name)?.value || null;
+  return tags[name] || null;
+}
+
+function recipientEmail(event: ResendWebhookEvent): string | null {
+  const to = Array.isArray(event.data.to) ? event.data.to[0] : event.data.to;
+  return to ? to.toLowerCase() : null;
+}
+
+/**
+ * The campaign an email belongs to: from the tag sent with the batch, or
+ * failing that the "delivered" event recorded with its Resend id at send time.
+ */
+async function findCampaignId(db: DB, event: ResendWebhookEvent): Promise<string | null> {
+  const tagged = eventTag(event, 'campaign_id');
+  if (tagged) return tagged;
+
+  const sent = await db.select({ campaignId: campaignEvents.campaignId })
+    .from(campaignEvents)
+    .where(sql`json_extract(${campaignEvents.metadata}, '$.emailId') = ${event.data.email_id}`)
+    .get();
+  return sent?.campaignId || null;
+}
+
+// ============================================
+// SUBSCRIBERS
+// ============================================
+
+async function suppress(db: DB, email: string, reason: 'hard_bounce' | 'complaint' | 'consecutive_soft_bounce', details: string | null) {
+  await db.insert(suppressionList)
+    .values({ email, reason, source: 'resend_webhook', details })
+    .onConflictDoNothing();
+
+  const now = new Date().toISOString();
+  await db.update(subscribers)
+    .set({ subscribed: false, unsubscribedAt: now, updatedAt: now })
+    .where(and(eq(subscribers.email, email), eq(subscribers.subscribed, true)));
+}
+
+/**
+ * Count a bounce against the address. Hard bounces are suppressed straight
+ * away; soft bounces only once they've happened SOFT_BOUNCE_LIMIT times in a
+ * row. A delivery in between resets the count (see recordDelivery).
+ */
+async function recordBounce(db: DB, email: string, hard: boolean, details: string | null) {
+  const now = new Date().toISOString();
+  const subscriber = await db.update(subscribers)
+    .set({
+      bounceCount: sql`COALESCE(${subscribers.bounceCount}, 0) + 1`,
+      lastBounceAt: now,
+      updatedAt: now,
+    })
+    .where(eq(subscribers.email, email))
+    .returning()
+    .get();
+
+  if (hard) {
+    await suppress(db, email, 'hard_bounce', details);
+  } else if ((subscriber?.bounceCount ?? 0) >= SOFT_BOUNCE_LIMIT) {
+    await suppress(db, email, 'consecutive_soft_bounce', details);
+  }
+}
+
+async function recordDelivery(db: DB, email: string) {
+  await db.update(subscribers)
+    .set({ bounceCount: 0 })
+    .where(and(eq(subscribers.email, email), sql`COALESCE(${subscribers.bounceCount}, 0) > 0`));
+}
+
+// ============================================
+// EVENTS
+// ============================================
+
+type DeliveryEvent = 'delivered' | 'bounced' | 'complained';
+
+const DELIVERY_EVENTS: Record<string, DeliveryEvent> = {
+  'email.delivered': 'delivered',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+};
+
+/**
+ * Record that an email's event is being applied. Returns false if it already
+ * has been, i.e. this is one of Resend's retries.
+ */
+async function claimResendEvent(db: DB, emailId: string, eventType: DeliveryEvent): Promise<boolean> {
+  const inserted = await db.insert(resendEvents)
+    .values({ emailId, eventType })
+    .onConflictDoNothing()
+    .returning({ id: resendEvents.id })
+    .all();
+  return inserted.length > 0;
+}
+
+/** Forget a claimed event that failed part-way, so Resend's retry applies it. */
+async function releaseResendEvent(db: DB, emailId: string, eventType: DeliveryEvent) {
+  await db.delete(resendEvents)
+    .where(and(eq(resendEvents.emailId, emailId), eq(resendEvents.eventType, eventType)));
+}
+
+/**
+ * Apply a Resend webhook event. Deliveries, bounces and complaints are
+ * recorded against the campaign or automation email they came from; bounces
+ * and complaints also count against the address, whatever sent the email.
+ * Opens and clicks come from our own tracking, so those events are ignored.
+ * Each email's event is only applied once (see claimResendEvent), so
+ * Resend's retries are harmless.
+ */
+export async function handleResendEvent(db: DB, event: ResendWebhookEvent): Promise<ResendWebhookResult> {
+  const eventType = DELIVERY_EVENTS[event.type];
+  const email = recipientEmail(event);
+  const emailId = event.data?.email_id;
+  if (!eventType || !email || !emailId) return { status: 'ignored' };
+
+  const hard = eventType === 'bounced' && event.data.bounce?.type === 'Permanent';
+  const details = event.data.bounce?.message || event.data.bounce?.subType || null;
+  const firstTime = await claimResendEvent(db, emailId, eventType);
+
+  try {
+    return await applyResendEvent(db, event, { eventType, email, emailId, hard, details, firstTime });
+  } catch (err) {
+    if (firstTime) await releaseResendEvent(db, emailId, eventType);
+    throw err;
+  }
+}
+
+async function applyResendEvent(
+  db: DB,
+  event: ResendWebhookEvent,
+  { eventType, email, emailId, hard, details, firstTime }: {
+    eventType: DeliveryEvent;
+    email: string;
+    emailId: string;
+    hard: boolean;
+    details: string | null;
+    firstTime: boolean;
+  },
+): Promise<ResendWebhookResult> {
+  const campaignId = await findCampaignId(db, event);
+  if (campaignId) {
+    const existing = await db.select({ id: campaignEvents.id }).from(campaignEvents)
+      .where(and(
+        eq(campaignEvents.campaignId, campaignId),
+        eq(campaignEvents.eventType, eventType),
+        sql`json_extract(${campaignEvents.metadata}, '$.emailId') = ${emailId}`,
+      ))
+      .get();
+
+    if (!existing) {
+      const subscriberId = eventTag(event, 'subscriber_id')
+        || (await db.select({ id: subscribers.id }).from(subscribers).where(eq(subscribers.email, email)).get())?.id
+        || null;
+      await db.insert(campaignEvents).values({
+        campaignId,
+        subscriberId,
+        email,
+        eventType,
+        metadata: {
+          emailId,
+          ...(eventType === 'bounced' ? { bounceType: hard ? 'hard' : 'soft', reason: details || undefined } : {}),
+        },
+      });
+    }
+  }
+
+  const queued = campaignId ? null : await db.select().from(automationQueue)
+    .where(eq(automationQueue.resendEmailId, emailId))
+    .get();
+  if (queued) {
+    if (queued.deliveryStatus !== eventType) {
+      // A complaint or bounce outranks the delivery it may arrive after
+      const keep = queued.deliveryStatus && queued.deliveryStatus !== 'delivered' && eventType === 'delivered';
+      if (!keep) {
+        await db.update(automationQueue)
+          .set({ deliveryStatus: eventType, deliveryUpdatedAt: new Date().toISOString() })
+          .where(eq(automationQueue.id, queued.id));
+      }
+    }
+  }
+
+  // Clearing the bounce count and suppressing are safe to repeat; counting a bounce isn't
+  if (eventType === 'delivered') await recordDelivery(db, email);
+  if (eventType === 'bounced' && firstTime) await recordBounce(db, email, hard, details);
+  if (eventType === 'complained') await suppress(db, email, 'complaint', null);
+
+  return { status: 'processed', campaignId, automationQueueId: queued?.id || null };
+}
@@ -0,0 +1,231 @@
+import { eq, and, inArray } from 'drizzle-orm';
+import { orders, orderItems, customerUsers, productReviews, reviewPhotos, siteSettings } from '../db/schema';
+import { signJwt, verifyJwt } from '../middleware/auth';
+import { deliverEmail } from './emailGateway';
+import type { Bindings } from '../index';
+
+type DB = any; // DrizzleD1Database type
+
+/** Photos a customer can attach to one review. */
+export const MAX_REVIEW_PHOTOS = 5;
+
+const REVIEW_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const REVIEW_PHOTO_MAX_BYTES = 5 * 1024 * 1024;
+
+export interface ReviewSettings {
+  /** Email buyers a review link after their order is delivered. */
+  requestsEnabled: boolean;
+  requestDelayDays: number;
+}
+
+export const DEFAULT_REVIEW_SETTINGS: ReviewSettings = {
+  requestsEnabled: true,
+  requestDelayDays: 7,
+};
+
+export async function getReviewSettings(db: DB): Promise<ReviewSettings> {
+  const row = await db.select().from(siteSettings).where(eq(siteSettings.key, 'reviews')).get();
+  if (!row) return DEFAULT_REVIEW_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(row.value);
+    const delay = Number(parsed?.requestDelayDays);
+    return {
+      requestsEnabled: parsed?.requestsEnabled !== undefined ? !!parsed.requestsEnabled : DEFAULT_REVIEW_SETTINGS.requestsEnabled,
+      requestDelayDays: delay >= 0 ? Math.min(Math.round(delay), 60) : DEFAULT_REVIEW_SETTINGS.requestDelayDays,
+    };
+  } catch {
+    return DEFAULT_REVIEW_SETTINGS;
+  }
+}
+
+// ============================================
+// REQUEST LINKS
+// ============================================
+
+// The link is a JWT over the order id, signed with the same secret as logins
+// but with its own type, so it can never pass for an admin or customer token.
+// Holding it is proof of purchase: reviews left through it are verified.
+
+export async function createReviewRequestToken(env: Bindings, orderId: string): Promise<string> {
+  return signJwt({ sub: orderId, type: 'review_request' }, env.JWT_SECRET, '90d');
+}
+
+/** The order id a review request token was issued for, or null if it's invalid or expired. */
+export async function verifyReviewRequestToken(env: Bindings, token: string): Promise<string | null> {
+  const payload = await verifyJwt(token, env.JWT_SECRET);
+  if (!payload || payload.type !== 'review_request' || !payload.sub) return null;
+  return payload.sub;
+}
+
+export function reviewRequestUrl(baseUrl: string, token: string, productId?: string): string {
+  const product = productId ? `&product=${encodeURIComponent(productId)}` : '';
+  return `${baseUrl}/#/review?token=${encodeURIComponent(token)}${product}`;
+}
+
+/**
+ * A delivered order as the review form sees it: the buyer, and each product
+ * they kept with whether they've reviewed it from this order yet. Fully
+ * refunded lines and services are left out.
+ */
+export async function getReviewableOrder(db: DB, orderId: string) {
+  const order = await db.select().from(orders).where(eq(orders.id, orderId)).get();
+  if (!order || order.status === 'cancelled') return null;
+
+  const customer = order.userId
+    ? await db.select().from(customerUsers).where(eq(customerUsers.id, order.userId)).get()
+    : null;
+
+  const lines = await db.select().from(orderItems).where(eq(orderItems.orderId, orderId)).all();
+  const reviewed = await db.select({ productId: productReviews.productId }).from(productReviews)
+    .where(eq(productReviews.orderId, orderId))
+    .all();
+  const reviewedIds = new Set(reviewed.map((r: any) => r.productId));
+
+  const items: Array<{ productId: string; productName: string; productImage: string | null; reviewed: boolean }> = [];
+  for (const line of lines) {
+    if (line.itemType !== 'product' || !line.productId || line.giftCardId) continue;
+    if (line.refundedQuantity >= line.quantity) continue;
+    if (items.some(i => i.productId === line.productId)) continue;
+    items.push({
+      productId: line.productId,
+      productName: line.productName,
+      productImage: line.productImage,
+      reviewed: reviewedIds.has(line.productId),
+    });
+  }
+
+  return { order, customer, items };
+}
+
+// ============================================
+// REQUEST EMAILS
+// ============================================
+
+export function buildReviewRequestEmail(
+  firstName: string | null,
+  items: Array<{ productId: string; productName: string }>,
+  baseUrl: string,
+  token: string,
+): string {
+  const rows = items.map(item => `<tr>
+      <td style="padding: 12px 0; border-bottom: 1px solid #e7e5e4; color: #1c1917; font-size: 15px;">${item.productName}</td>
+      <td style="padding: 12px 0; border-bottom: 1px solid #e7e5e4; text-align: right;">
+        <a href="${reviewRequestUrl(baseUrl, token, item.productId)}" style="color: #8d3038; font-size: 14px; text-decoration: none;">Review &rarr;</a>
+      </td>
+    </tr>`).join('');
+
+  return `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+    <h1 style="color: #1c1917; font-size: 24px;">How are you finding it${firstName ? `, ${firstName}` : ''}?</h1>
+    <p style="color: #57534e; font-size: 16px; line-height: 1.6;">Your order arrived a little while ago and we'd love to hear what you think. A few words (and a photo, if you're wearing or hanging it) helps other people find the right piece.</p>
+    <table style="width: 100%; border-collapse: collapse; margin: 16px 0;">${rows}</table>
+    <a href="${reviewRequestUrl(baseUrl, token)}" style="display: inline-block; background: #8d3038; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-size: 14px; margin-top: 16px;">Leave a Review</a>
+    <p style="color: #a8a29e; font-size: 12px; margin-top: 24px;">You received this email because you ordered from Lyne Tilt. This link is just for you and works for 90 days.</p>
+  </div>`;
+}
+
+/**
+ * Email the buyer of a delivered order a link to review what they bought.
+ * The order is marked as requested even when there's nobody to email,
+ * nothing left to review or the buyer has unsubscribed, so it isn't looked
+ * at again. Returns whether an
+ * email was sent.
+ */
+export async function sendReviewRequest(env: Bindings, db: DB, orderId: string): Promise<boolean> {
+  const reviewable = await getReviewableOrder(db, orderId);
+  const pending = reviewable?.items.filter(i => !i.reviewed) || [];
+  const email = reviewable?.customer?.email;
+
+  let sent = false;
+  if (email && pending.length > 0) {
+    const baseUrl = env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
+    const token = await createReviewRequestToken(env, orderId);
+    const result = await deliverEmail(env, db, {
+      to: email,
+      subject: pending.length === 1 ? `How are you finding ${pending[0].productName}?` : 'How are you finding your order?',
+      html: buildReviewRequestEmail(reviewable!.customer.firstName || null, pending, baseUrl, token),
+      category: 'marketing',
+      kind: 'review_request',
+      referenceId: orderId,
+    });
+    // A failed send is retried next run; a skipped one is as done as it will be
+    if (result.status === 'failed') throw new Error(result.error);
+    sent = result.status === 'sent';
+  }
+
+  await db.update(orders)
+    .set({ reviewRequestedAt: new Date().toISOString() })
+    .where(eq(orders.id, orderId));
+
+  return sent;
+}
+
+// ============================================
+// PHOTOS
+// ============================================
+
+/** Check photos from a review form before anything is saved. */
+export function validateReviewPhotos(files: File[]): string | null {
+  if (files.length > MAX_REVIEW_PHOTOS) {
+    return `You can add up to ${MAX_REVIEW_PHOTOS} photos`;
+  }
+  for (const file of files) {
+    if (!REVIEW_PHOTO_TYPES.includes(file.type)) {
+      return 'Photos must be JPG, PNG or WebP';
+    }
+    if (file.size > REVIEW_PHOTO_MAX_BYTES) {
+      return 'Each photo must be under 5MB';
+    }
+  }
+  return null;
+}
+
+/** Upload a review's photos to R2. They start out pending moderation. */
+export async function storeReviewPhotos(bucket: Bindings['UPLOADS'], db: DB, reviewId: string, files: File[]) {
+  const stored = [];
+  for (const [index, file] of files.entries()) {
+    const ext = file.name.split('.').pop() || '';
+    const filename = `review-${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${ext}`;
+
+    await bucket.put(`uploads/${filename}`, await file.arrayBuffer(), {
+      httpMetadata: { contentType: file.type },
+    });
+
+    stored.push(await db.insert(reviewPhotos).values({
+      reviewId,
+      url: `/api/upload/${filename}`,
+      filename,
+      fileSize: file.size,
+      mimeType: file.type,
+      sortOrder: index,
+    }).returning().get());
+  }
+  return stored;
+}
+
+export async function deleteReviewPhotoFiles(bucket: Bindings['UPLOADS'], photos: Array<{ filename: string }>) {
+  for (const photo of photos) {
+    await bucket.delete(`uploads/${photo.filename}`);
+  }
+}
+
+/** Photos for a set of reviews, grouped by review id. */
+export async function photosByReview(db: DB, reviewIds: string[], approvedOnly = false) {
+  const grouped: Record<string, any[]> = {};
+
+  // D1 allows 100 bound parameters per query
+  for (let i = 0; i < reviewIds.length; i += 90) {
+    const conditions = [inArray(reviewPhotos.reviewId, reviewIds.slice(i, i + 90))];
+    if (approvedOnly) conditions.push(eq(reviewPhotos.status, 'approved'));
+
+    const photos = await db.select().from(reviewPhotos)
+      .where(and(...conditions))
+      .orderBy(reviewPhotos.sortOrder)
+      .all();
+
+    for (const photo of photos) {
+      (grouped[photo.reviewId] ||= []).push(photo);
+    }
+  }
+  return grouped;
+}
@@ -1,7 +1,16 @@
 import { eq, and, lte, isNotNull, sql } from 'drizzle-orm';
-import { emailDrafts, sentEmails, subscribers, automationQueue, abandonedCarts, abandonedCartItems } from '../db/schema';
-import { sendEmail, sendBulkNewsletter } from './email';
+import { emailDrafts, sentEmails, subscribers, automationQueue, emailAutomations, abandonedCarts, abandonedCartItems, giftCards, waitlist, siteSettings, orders, campaigns } from '../db/schema';
+import { sendBulkNewsletter } from './email';
+import { deliverEmail, EMAIL_SKIP_REASON_LABELS } from './emailGateway';
+import { unsubscribeLinks } from './preferences';
 import { triggerAutomation } from './automations';
+import { trackAutomationEmail } from './workflows';
+import { deliverGiftCard } from './giftCards';
+import { releaseReservations, getInventorySettings, newlyLowStock, countLowStock } from './inventory';
+import { notifyWaitlist, waitlistHoldReference } from './waitlist';
+import { getReviewSettings, sendReviewRequest } from './reviews';
+import { startCampaignSend, continueCampaignSend } from './campaigns';
+import { publishDueProducts, publishDueBlogPosts, publishDueCoaching, publishDueLearnItems, archiveDueContent, getPublishingSettings, draftNewArrivalCampaign } from './publishing';
 import type { Bindings } from '../index';
 
 type DB = any;
@@ -65,7 +74,7 @@ export async function processScheduledDrafts(env: Bindings, db: DB) {
       // Send emails
       const baseUrl = env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
       const bodyHtml = draft.bodyHtml || draft.body || '';
-      await sendBulkNewsletter(env, sentRecord.id, draft.subject, draft.preheader, bodyHtml, recipientEmails, baseUrl);
+      await sendBulkNewsletter(env, db, sentRecord.id, draft.subject, draft.preheader, bodyHtml, recipientEmails, baseUrl);
 
       // Update subscribers
       const timestamp = new Date().toISOString();
@@ -92,8 +101,10 @@ export async function processScheduledDrafts(env: Bindings, db: DB) {
 export async function processAutomationQueue(env: Bindings, db: DB) {
   const now = new Date().toISOString();
 
-  // Find queue items that are due
-  const dueItems = await db.select().from(automationQueue)
+  // Find queue items that are due, with the category their automation sends as
+  const dueItems = await db.select({ item: automationQueue, category: emailAutomations.emailCategory })
+    .from(automationQueue)
+    .leftJoin(emailAutomations, eq(automationQueue.automationId, emailAutomations.id))
     .where(and(
       eq(automationQueue.status, 'scheduled'),
       lte(automationQueue.scheduledFor, now)
@@ -102,25 +113,54 @@ export async function processAutomationQueue(env: Bindings, db: DB) {
 
   console.log(`[Cron] Found ${dueItems.length} automation queue item(s) to process`);
 
-  for (const item of dueItems) {
-    try {
-      await sendEmail(env, item.recipientEmail, item.subject, item.body);
+  for (const { item, category } of dueItems) {
+    // Its automation has been deleted since it was queued
+    if (!category) {
+      await db.update(automationQueue)
+        .set({ status: 'cancelled', error: 'The automation was deleted' })
+        .where(eq(automationQueue.id, item.id));
+      continue;
+    }
 
+    const unsubscribe = await unsubscribeLinks(env, item.recipientEmail);
+    const body = item.enrollmentId ? trackAutomationEmail(item.id, item.body) : item.body;
+    const html = body.replace(/\{\{unsubscribe_url\}\}/g, unsubscribe.url);
+    const result = await deliverEmail(env, db, {
+      to: item.recipientEmail,
+      subject: item.subject,
+      html,
+      headers: unsubscribe.headers,
+      category,
+      kind: 'automation',
+      referenceId: item.id,
+    });
+
+    if (result.status === 'sent') {
       await db.update(automationQueue)
         .set({
           status: 'sent',
           sentAt: new Date().toISOString(),
+          resendEmailId: result.providerId,
         })
         .where(eq(automationQueue.id, item.id));
 
       console.log(`[Cron] Sent automation email "${item.subject}" to ${item.recipientEmail}`);
-    } catch (err: any) {
-      console.error(`[Cron] Failed automation email ${item.id}:`, err);
+    } else if (result.status === 'skipped') {
+      await db.update(automationQueue)
+        .set({
+          status: 'skipped',
+          error: EMAIL_SKIP_REASON_LABELS[result.reason],
+        })
+        .where(eq(automationQueue.id, item.id));
+
+      console.log(`[Cron] Skipped automation email ${item.id}: ${result.reason}`);
+    } else {
+      console.error(`[Cron] Failed automation email ${item.id}:`, result.error);
 
       await db.update(automationQueue)
         .set({
           status: 'failed',
-          error: err?.message || 'Unknown error',
+          error: result.error,
         })
         .where(eq(automationQueue.id, item.id));
     }
@@ -165,6 +205,7 @@ export async function processAbandonedCarts(env: Bindings, db: DB) {
       const recoveryUrl = `${baseUrl}/#/checkout?recover=${cart.recoveryToken}`;
 
       const queued = await triggerAutomation(db, 'cart_abandoned', cart.email, cart.customerName || undefined, {
+        cart_id: cart.id,
         cart_recovery_url: recoveryUrl,
         product_name: firstItem.productName,
         price: cart.totalValue,
@@ -174,11 +215,10 @@ export async function processAbandonedCarts(env: Bindings, db: DB) {
       // If no automation configured, send direct email
       if (!queued) {
         const customerName = cart.customerName || 'there';
-        await sendEmail(
-          env,
-          cart.email,
-          `You left something behind — ${firstItem.productName}`,
-          `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+        const result = await deliverEmail(env, db, {
+          to: cart.email,
+          subject: `You left something behind — ${firstItem.productName}`,
+          html: `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
             <h1 style="color: #1c1917; font-size: 24px;">Hi ${customerName},</h1>
             <p style="color: #57534e; font-size: 16px; line-height: 1.6;">
               It looks like you left something in your cart: <strong>${firstItem.productName}</strong>
@@ -192,8 +232,13 @@ export async function processAbandonedCarts(env: Bindings, db: DB) {
             <p style="color: #a8a29e; font-size: 12px; margin-top: 32px;">
               If you have any questions, feel free to reply to this email.
             </p>
-          </div>`
-        );
+          </div>`,
+          category: 'marketing',
+          kind: 'abandoned_cart',
+          referenceId: cart.id,
+        });
+        // A failed send is tried again next run; a skipped one isn't worth retrying
+        if (result.status === 'failed') throw new Error(result.error);
       }
 
       // Mark as emailed
@@ -220,3 +265,250 @@ export async function processAbandonedCarts(env: Bindings, db: DB) {
       lte(abandonedCarts.lastActivityAt, thirtyDaysAgo),
     ));
 }
+
+export async function processGiftCardDeliveries(env: Bindings, db: DB) {
+  const now = new Date().toISOString();
+
+  // Purchased cards whose delivery date has arrived (or whose first send failed)
+  const dueCards = await db.select().from(giftCards)
+    .where(and(
+      isNotNull(giftCards.deliverAt),
+      lte(giftCards.deliverAt, now),
+      sql`${giftCards.deliveredAt} IS NULL`,
+      eq(giftCards.status, 'active'),
+    ))
+    .limit(50)
+    .all();
+
+  for (const card of dueCards) {
+    try {
+      await deliverGiftCard(env, db, card);
+      console.log(`[Cron] Delivered gift card ${card.id}`);
+    } catch (err) {
+      console.error(`[Cron] Error delivering gift card ${card.id}:`, err);
+    }
+  }
+}
+
+/**
+ * First-come waitlist holds that lapsed without a purchase: let go of the
+ * piece and offer it to the next person in line. If it sold in the meantime
+ * there's nothing to offer and the hold is just cleared.
+ */
+export async function processWaitlistHolds(env: Bindings, db: DB) {
+  const now = new Date().toISOString();
+
+  const lapsed = await db.select().from(waitlist)
+    .where(and(
+      eq(waitlist.status, 'notified'),
+      isNotNull(waitlist.holdExpiresAt),
+      lte(waitlist.holdExpiresAt, now),
+    ))
+    .limit(50)
+    .all();
+
+  for (const entry of lapsed) {
+    await releaseReservations(db, waitlistHoldReference(entry.id));
+    await db.update(waitlist).set({ holdExpiresAt: null }).where(eq(waitlist.id, entry.id));
+  }
+
+  const productIds = [...new Set<string>(lapsed.map((e: any) => e.productId))];
+  for (const productId of productIds) {
+    try {
+      await notifyWaitlist(env, db, productId);
+    } catch (err) {
+      console.error(`[Cron] Error offering product ${productId} to its waitlist:`, err);
+    }
+  }
+}
+
+/** Local hour (Sydney time) from which the day's low-stock digest goes out. */
+const LOW_STOCK_DIGEST_HOUR = 8;
+
+/**
+ * Once a day, email the admin what has run low or sold out since the last
+ * digest, for products and variants with a threshold. Quiet days send nothing.
+ * The last run is kept in site_settings under 'lowStockDigest'.
+ */
+export async function processLowStockDigest(env: Bindings, db: DB) {
+  if (!env.ADMIN_EMAIL) return;
+
+  const settings = await getInventorySettings(db);
+  if (!settings.lowStockDigest) return;
+
+  const now = new Date();
+  const local = Object.fromEntries(
+    new Intl.DateTimeFormat('en-CA', {
+      timeZone: 'Australia/Sydney',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(now).map(part => [part.type, part.value]),
+  );
+  if (Number(local.hour) < LOW_STOCK_DIGEST_HOUR) return;
+  const today = `${local.year}-${local.month}-${local.day}`;
+
+  const state = await db.select().from(siteSettings).where(eq(siteSettings.key, 'lowStockDigest')).get();
+  let last: { sentOn?: string; checkedAt?: string } = {};
+  try {
+    last = state ? JSON.parse(state.value) : {};
+  } catch {}
+  if (last.sentOn === today) return;
+
+  const since = last.checkedAt || new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
+  const items = await newlyLowStock(db, since, settings.lowStockThreshold);
+  const totalLow = await countLowStock(db, settings.lowStockThreshold);
+
+  // Mark the day done before sending, so a failed send isn't retried every 5 minutes
+  const value = JSON.stringify({ sentOn: today, checkedAt: now.toISOString() });
+  await db.insert(siteSettings)
+    .values({ key: 'lowStockDigest', value })
+    .onConflictDoUpdate({ target: siteSettings.key, set: { value, updatedAt: now.toISOString() } });
+
+  if (items.length === 0) return;
+
+  const baseUrl = env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
+  const rows = items.map(item => `<tr>
+      <td style="padding: 6px 8px; border-bottom: 1px solid #e7e5e4;">${item.name}${item.variantTitle ? ` — ${item.variantTitle}` : ''}${item.sku ? ` <span style="color: #a8a29e;">(${item.sku})</span>` : ''}</td>
+      <td style="padding: 6px 8px; border-bottom: 1px solid #e7e5e4; text-align: right; color: ${item.quantity === 0 ? '#b91c1c' : '#b45309'};">${item.quantity === 0 ? 'Sold out' : `${item.quantity} left`}</td>
+      <td style="padding: 6px 8px; border-bottom: 1px solid #e7e5e4; text-align: right; color: #78716c;">${item.threshold}</td>
+    </tr>`).join('');
+
+  const result = await deliverEmail(env, db, {
+    to: env.ADMIN_EMAIL,
+    subject: `Low stock: ${items.length} item${items.length === 1 ? '' : 's'} to reorder`,
+    html: `<div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+        <p>These ran low or sold out since the last digest:</p>
+        <table style="width: 100%; border-collapse: collapse; font-size: 14px;">
+          <tr style="color: #78716c; font-size: 12px; text-align: left;">
+            <th style="padding: 6px 8px;">Item</th>
+            <th style="padding: 6px 8px; text-align: right;">Stock</th>
+            <th style="padding: 6px 8px; text-align: right;">Alert at</th>
+          </tr>
+          ${rows}
+        </table>
+        <p style="margin-top: 16px;">${totalLow} product${totalLow === 1 ? ' needs' : 's need'} reordering in total.
+          <a href="${baseUrl}/#/admin/inventory?filter=reorder">View inventory</a></p>
+      </div>`,
+    category: 'transactional',
+    kind: 'low_stock_digest',
+  });
+  if (result.status === 'sent') {
+    console.log(`[Cron] Sent low-stock digest (${items.length} items)`);
+  } else {
+    console.error('[Cron] Low-stock digest not sent:', result.status === 'failed' ? result.error : result.reason);
+  }
+}
+
+/** How far back delivered orders are still asked for a review, so turning requests on doesn't email old customers. */
+const REVIEW_REQUEST_WINDOW_DAYS = 30;
+
+/**
+ * Ask buyers to review their order once it has been delivered for the
+ * configured number of days. Each order is asked once; a failed send is
+ * retried on the next run.
+ */
+export async function processReviewRequests(env: Bindings, db: DB) {
+  const settings = await getReviewSettings(db);
+  if (!settings.requestsEnabled) return;
+
+  const day = 24 * 60 * 60 * 1000;
+  const dueBy = new Date(Date.now() - settings.requestDelayDays * day);
+  const oldest = new Date(dueBy.getTime() - REVIEW_REQUEST_WINDOW_DAYS * day);
+
+  const dueOrders = await db.select({ id: orders.id, orderNumber: orders.orderNumber }).from(orders)
+    .where(and(
+      eq(orders.status, 'delivered'),
+      isNotNull(orders.deliveredAt),
+      lte(orders.deliveredAt, dueBy.toISOString()),
+      sql`${orders.deliveredAt} >= ${oldest.toISOString()}`,
+      sql`${orders.reviewRequestedAt} IS NULL`,
+    ))
+    .limit(50)
+    .all();
+
+  for (const order of dueOrders) {
+    try {
+      if (await sendReviewRequest(env, db, order.id)) {
+        console.log(`[Cron] Sent review request for order ${order.orderNumber}`);
+      }
+    } catch (err) {
+      console.error(`[Cron] Error sending review request for order ${order.orderNumber}:`, err);
+    }
+  }
+}
+
+/**
+ * Put scheduled products, posts, coaching packages and learn items live once
+ * their date arrives, and take down anything whose archive date has passed.
+ */
+export async function processScheduledPublishing(env: Bindings, db: DB) {
+  const now = new Date().toISOString();
+
+  const products = await publishDueProducts(db, now);
+  const posts = await publishDueBlogPosts(db, now);
+  const coaching = await publishDueCoaching(db, now);
+  const learn = await publishDueLearnItems(db, now);
+  const total = products.length + posts + coaching + learn;
+  if (total > 0) {
+    console.log(`[Cron] Published ${total} scheduled item(s)`);
+  }
+
+  const archived = await archiveDueContent(db, now);
+  if (archived > 0) {
+    console.log(`[Cron] Archived ${archived} item(s)`);
+  }
+
+  if (products.length > 0) {
+    const settings = await getPublishingSettings(db);
+    if (settings.newArrivalCampaign) {
+      try {
+        const campaign = await draftNewArrivalCampaign(env, db, products);
+        console.log(`[Cron] Drafted new arrival campaign ${campaign.id}`);
+      } catch (err) {
+        console.error('[Cron] Error drafting new arrival campaign:', err);
+      }
+    }
+  }
+}
+
+/**
+ * Start campaigns whose scheduled time has come, then send the next batches
+ * of every campaign that's part way through.
+ */
+export async function processCampaignSends(env: Bindings, db: DB) {
+  const now = new Date().toISOString();
+
+  const due = await db.select().from(campaigns)
+    .where(and(
+      eq(campaigns.status, 'scheduled'),
+      isNotNull(campaigns.scheduledFor),
+      lte(campaigns.scheduledFor, now),
+    ))
+    .all();
+
+  for (const campaign of due) {
+    try {
+      const started = await startCampaignSend(db, campaign);
+      if (started) {
+        console.log(`[Cron] Started campaign "${campaign.subject}" to ${started.recipientCount} recipient(s)`);
+      }
+    } catch (err) {
+      console.error(`[Cron] Error starting campaign ${campaign.id}:`, err);
+    }
+  }
+
+  const sending = await db.select({ id: campaigns.id }).from(campaigns)
+    .where(eq(campaigns.status, 'sending'))
+    .all();
+
+  for (const campaign of sending) {
+    try {
+      await continueCampaignSend(env, db, campaign.id);
+    } catch (err) {
+      console.error(`[Cron] Error sending campaign ${campaign.id}:`, err);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import { eq, and, or, sql, asc, type SQL } from 'drizzle-orm';
+import { subscribers, segments } from '../db/schema';
+
+type DB = any; // DrizzleD1Database type
+
+export interface SegmentCondition {
+  field: string;
+  operator: string;
+  value: string | number | string[];
+}
+
+export interface SegmentRules {
+  match: 'all' | 'any';
+  conditions: SegmentCondition[];
+}
+
+type FieldType = 'text' | 'array' | 'number' | 'enum' | 'campaign' | 'cohort';
+
+const OPERATORS: Record<FieldType, string[]> = {
+  text: ['equals', 'not_equals', 'in', 'not_in'],
+  enum: ['equals', 'not_equals', 'in', 'not_in'],
+  array: ['contains', 'not_contains'],
+  number: ['equals', 'greater_than', 'less_than'],
+  // "is" / "is not": opened, clicked or enrolled in the chosen one
+  campaign: ['equals', 'not_equals'],
+  cohort: ['equals', 'not_equals'],
+};
+
+// Orders count towards purchases once they've been paid for
+const PAID_ORDER = sql.raw(`o.payment_status IN ('paid', 'partially_refunded') AND o.status != 'cancelled'`);
+
+const daysSince = (column: SQL | any) => sql`CAST(julianday('now') - julianday(${column}) AS INTEGER)`;
+
+/**
+ * The fields a segment can filter on, each as a SQL expression evaluated
+ * per subscriber. Purchases, cohorts and coaching are matched to the
+ * subscriber by email address.
+ */
+const FIELDS: Record<string, { type: FieldType; expression?: SQL; nullable?: boolean }> = {
+  source: { type: 'text', expression: sql`${subscribers.source}` },
+  tags: { type: 'array' },
+  subscribed_days_ago: { type: 'number', expression: daysSince(subscribers.subscribedAt) },
+  engagement_score: { type: 'number', expression: sql`COALESCE(${subscribers.engagementScore}, 0)` },
+  engagement_level: { type: 'enum', expression: sql`COALESCE(${subscribers.engagementLevel}, 'new')` },
+  emails_received: { type: 'number', expression: sql`COALESCE(${subscribers.emailsReceived}, 0)` },
+  last_emailed_days_ago: { type: 'number', expression: daysSince(subscribers.lastEmailedAt), nullable: true },
+  last_opened_days_ago: { type: 'number', expression: daysSince(subscribers.lastOpenedAt), nullable: true },
+  opened_campaign: { type: 'campaign' },
+  clicked_campaign: { type: 'campaign' },
+  purchase_count: {
+    type: 'number',
+    expression: sql`(SELECT COUNT(*) FROM orders o JOIN customer_users cu ON cu.id = o.user_id
+      WHERE lower(cu.email) = lower(${subscribers.email}) AND ${PAID_ORDER})`,
+  },
+  total_spent: {
+    type: 'number',
+    expression: sql`(SELECT COALESCE(SUM(CAST(o.total AS REAL) - CAST(o.refunded_amount AS REAL)), 0) FROM orders o JOIN customer_users cu ON cu.id = o.user_id
+      WHERE lower(cu.email) = lower(${subscribers.email}) AND ${PAID_ORDER})`,
+  },
+  cohort_enrollment: { type: 'cohort' },
+  coaching_status: {
+    type: 'enum',
+    expression: sql`COALESCE((SELECT cc.status FROM coaching_clients cc
+      WHERE lower(cc.email) = lower(${subscribers.email}) ORDER BY cc.updated_at DESC LIMIT 1), 'none')`,
+  },
+};
+
+/** Why a set of rules can't be evaluated, or null if they're fine. */
+export function validateSegmentRules(rules: any): string | null {
+  if (!rules || !Array.isArray(rules.conditions)) return 'Rules are required';
+  if (rules.match && rules.match !== 'all' && rules.match !== 'any') return 'Match must be "all" or "any"';
+
+  for (const condition of rules.conditions) {
+    const field = FIELDS[condition?.field];
+    if (!field) return `Unknown field: ${condition?.field}`;
+    if (!OPERATORS[field.type].includes(condition.operator)) {
+      return `"${condition.operator}" can't be used with ${condition.field}`;
+    }
+    if (field.type === 'number' && !Number.isFinite(Number(condition.value))) {
+      return `${condition.field} needs a number`;
+    }
+    if ((condition.operator === 'in' || condition.operator === 'not_in') && !Array.isArray(condition.value)) {
+      return `"${condition.operator}" needs a list of values`;
+    }
+  }
+  return null;
+}
+
+function compileCondition({ field, operator, value }: SegmentCondition): SQL {
+  const def = FIELDS[field];
+
+  if (field === 'tags') {
+    const hasTag = sql`EXISTS (SELECT 1 FROM json_each(${subscribers.tags}) WHERE json_each.value = ${String(value)})`;
+    return operator === 'contains' ? hasTag : sql`NOT ${hasTag}`;
+  }
+
+  if (def.type === 'campaign') {
+    const eventType = field === 'opened_campaign' ? 'opened' : 'clicked';
+    const did = sql`EXISTS (SELECT 1 FROM campaign_events ce WHERE ce.campaign_id = ${String(value)}
+      AND ce.event_type = ${eventType} AND (ce.subscriber_id = ${subscribers.id} OR ce.email = ${subscribers.email}))`;
+    return operator === 'equals' ? did : sql`NOT ${did}`;
+  }
+
+  if (def.type === 'cohort') {
+    // Any cohort when no particular one is chosen
+    const cohort = value && value !== 'any' ? sql` AND ce.cohort_id = ${String(value)}` : sql``;
+    const enrolled = sql`EXISTS (SELECT 1 FROM cohort_enrollments ce WHERE lower(ce.customer_email) = lower(${subscribers.email})
+      AND ce.status IN ('active', 'completed')${cohort})`;
+    return operator === 'equals' ? enrolled : sql`NOT ${enrolled}`;
+  }
+
+  const expression = def.expression!;
+
+  if (def.type === 'number') {
+    const n = Number(value);
+    const comparison = operator === 'greater_than' ? sql`${expression} > ${n}`
+      : operator === 'less_than' ? sql`${expression} < ${n}`
+      : sql`${expression} = ${n}`;
+    if (!def.nullable) return comparison;
+    // Never emailed or opened counts as longer ago than any number of days
+    const column = field === 'last_emailed_days_ago' ? subscribers.lastEmailedAt : subscribers.lastOpenedAt;
+    return operator === 'greater_than'
+      ? sql`(${column} IS NULL OR ${comparison})`
+      : sql`(${column} IS NOT NULL AND ${comparison})`;
+  }
+
+  // Text and enum fields
+  if (operator === 'in' || operator === 'not_in') {
+    const values = (value as string[]).map(String);
+    if (values.length === 0) return operator === 'in' ? sql`0` : sql`1`;
+    const list = sql.join(values.map(v => sql`${v}`), sql`, `);
+    return operator === 'in' ? sql`${expression} IN (${list})` : sql`${expression} NOT IN (${list})`;
+  }
+  return operator === 'equals' ? sql`${expression} = ${String(value)}` : sql`${expression} != ${String(value)}`;
+}
+
+/** Subscribed subscribers matching the rules, as a WHERE clause. No conditions matches everyone. */
+export function segmentWhere(rules: SegmentRules): SQL {
+  const conditions = (rules.conditions || []).map(compileCondition);
+  const subscribed = eq(subscribers.subscribed, true);
+  if (conditions.length === 0) return subscribed;
+  return and(subscribed, rules.match === 'any' ? or(...conditions) : and(...conditions))!;
+}
+
+export async function countSegment(db: DB, rules: SegmentRules): Promise<number> {
+  const result = await db.select({ count: sql<number>`count(*)` })
+    .from(subscribers)
+    .where(segmentWhere(rules))
+    .get();
+  return result?.count ?? 0;
+}
+
+/** A page of matching subscribers, oldest first so pages stay stable. */
+export async function segmentSubscribers(db: DB, rules: SegmentRules, limit?: number, offset = 0) {
+  let query = db.select().from(subscribers)
+    .where(segmentWhere(rules))
+    .orderBy(asc(subscribers.subscribedAt), asc(subscribers.id));
+  if (limit !== undefined) query = query.limit(limit).offset(offset);
+  return query.all();
+}
+
+/** Every matching subscriber's id and email, for sending, optionally narrowed further. */
+export async function segmentRecipients(db: DB, rules: SegmentRules, also?: SQL): Promise<{ email: string; subscriberId: string }[]> {
+  const rows = await db.select({ id: subscribers.id, email: subscribers.email })
+    .from(subscribers)
+    .where(also ? and(segmentWhere(rules), also) : segmentWhere(rules))
+    .all();
+  return rows.map((s: any) => ({ email: s.email, subscriberId: s.id }));
+}
+
+/** Recount a saved segment and cache the result on it. */
+export async function refreshSegmentCount(db: DB, segment: { id: string; rules: SegmentRules }) {
+  const subscriberCount = await countSegment(db, segment.rules);
+  const lastCalculatedAt = new Date().toISOString();
+  await db.update(segments)
+    .set({ subscriberCount, lastCalculatedAt })
+    .where(eq(segments.id, segment.id));
+  return { subscriberCount, lastCalculatedAt };
+}
@@ -0,0 +1,321 @@
+import { eq, and, sql } from 'drizzle-orm';
+import {
+  cohorts, cohortEnrollments, learnItems, enrollments, coachingClients, coachingBookings,
+  coachBlockedDates, orderItems,
+} from '../db/schema';
+
+type DB = any; // DrizzleD1Database type
+
+// Coaching packages, courses and workshop cohorts are sold through the same
+// checkout as shop products. Products are priced and stocked in pricing.ts;
+// this file covers what those other items need before and after payment.
+
+export type ServiceType = 'coaching' | 'learn' | 'cohort';
+
+/** A coaching session time picked before paying. */
+export interface BookingSlot {
+  sessionDate: string; // "2025-02-20"
+  startTime: string;   // "10:00"
+  endTime: string;     // "11:00"
+}
+
+/** One paid coaching, course or cohort line, as recorded in the session metadata. */
+export interface ServicePurchase {
+  type: ServiceType;
+  id: string;
+  amount: string;
+  slot: BookingSlot | null;
+}
+
+// ============================================
+// AVAILABILITY & PRICE
+// ============================================
+
+/**
+ * What a cohort costs right now: the early-bird price until it ends, then the
+ * cohort's own price, falling back to the workshop's.
+ */
+export function currentCohortPrice(
+  cohort: { price: string | null; earlyBirdPrice: string | null; earlyBirdEndsAt: string | null },
+  learnItem: { priceAmount: string | null } | null,
+  now = new Date().toISOString(),
+): string | null {
+  if (cohort.earlyBirdPrice && (!cohort.earlyBirdEndsAt || now < cohort.earlyBirdEndsAt)) {
+    return cohort.earlyBirdPrice;
+  }
+  return cohort.price || learnItem?.priceAmount || null;
+}
+
+/** Seats left in a cohort, or null when it has no capacity limit. */
+export function cohortSpotsLeft(cohort: { capacity: number | null; enrolledCount: number }): number | null {
+  return cohort.capacity ? Math.max(0, cohort.capacity - cohort.enrolledCount) : null;
+}
+
+/** Whether a full cohort can still take waitlist sign-ups. */
+export function cohortWaitlistOpen(cohort: { waitlistEnabled: boolean; waitlistCapacity: number | null; waitlistCount: number }): boolean {
+  return cohort.waitlistEnabled && (!cohort.waitlistCapacity || cohort.waitlistCount < cohort.waitlistCapacity);
+}
+
+/**
+ * Check a cohort is taking registrations. Full cohorts can't be bought; buyers
+ * are pointed at the waitlist instead when it has room.
+ */
+export function checkCohortOpen(cohort: any, now = new Date().toISOString()): { error?: string } {
+  if (cohort.status !== 'open') {
+    return { error: `${cohort.title} is not open for registration` };
+  }
+  if (cohort.registrationOpensAt && now < cohort.registrationOpensAt) {
+    return { error: `Registration for ${cohort.title} hasn't opened yet` };
+  }
+  if (cohort.registrationClosesAt && now >= cohort.registrationClosesAt) {
+    return { error: `Registration for ${cohort.title} has closed` };
+  }
+  if (cohortSpotsLeft(cohort) === 0) {
+    return {
+      error: cohortWaitlistOpen(cohort)
+        ? `${cohort.title} is full — join the waitlist to be offered a spot`
+        : `${cohort.title} is sold out`,
+    };
+  }
+  return {};
+}
+
+/** Validate a requested coaching time: well formed, not on a blocked date and not already taken. */
+export async function checkBookingSlot(db: DB, input: any): Promise<{ slot?: BookingSlot; error?: string }> {
+  const sessionDate = String(input?.sessionDate || '');
+  const startTime = String(input?.startTime || '');
+  const endTime = String(input?.endTime || '');
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(sessionDate) || !/^\d{2}:\d{2}$/.test(startTime) || !/^\d{2}:\d{2}$/.test(endTime) || endTime <= startTime) {
+    return { error: 'Please choose a valid session time' };
+  }
+  if (sessionDate < new Date().toISOString().slice(0, 10)) {
+    return { error: 'Please choose a session time in the future' };
+  }
+
+  const blocked = await db.select({ id: coachBlockedDates.id })
+    .from(coachBlockedDates)
+    .where(eq(coachBlockedDates.blockedDate, sessionDate))
+    .get();
+  if (blocked) {
+    return { error: 'That date is no longer available' };
+  }
+
+  const conflicting = await findConflictingBooking(db, { sessionDate, startTime, endTime });
+  if (conflicting) {
+    return { error: 'That session time has just been booked — please choose another' };
+  }
+
+  return { slot: { sessionDate, startTime, endTime } };
+}
+
+async function findConflictingBooking(db: DB, slot: BookingSlot) {
+  return db.select({ id: coachingBookings.id })
+    .from(coachingBookings)
+    .where(and(
+      eq(coachingBookings.sessionDate, slot.sessionDate),
+      sql`${coachingBookings.status} != 'cancelled'`,
+      sql`${coachingBookings.startTime} < ${slot.endTime}`,
+      sql`${coachingBookings.endTime} > ${slot.startTime}`,
+    ))
+    .get();
+}
+
+// ============================================
+// FULFILMENT
+// ============================================
+
+/** Service purchases are stored one per metadata key (service0, service1, ...). */
+export function parseServiceMetadata(metadata: Record<string, string>): ServicePurchase[] {
+  const purchased: ServicePurchase[] = [];
+  for (let i = 0; metadata[`service${i}`]; i++) {
+    try {
+      const s = JSON.parse(metadata[`service${i}`]);
+      purchased.push({
+        type: s.t,
+        id: s.i,
+        amount: String(s.a),
+        slot: s.d ? { sessionDate: s.d, startTime: s.s, endTime: s.e } : null,
+      });
+    } catch {}
+  }
+  return purchased;
+}
+
+interface ServiceBuyer {
+  customerId: string | null;
+  email: string;
+  name: string;
+}
+
+/**
+ * Create what a paid order's coaching, course and cohort lines entitle the
+ * buyer to: course enrollments, cohort seats, and a coaching client record
+ * with a booking for the time they picked. Records already linked to the
+ * order are left alone, so this is safe to run again.
+ */
+export async function fulfilOrderServices(db: DB, orderId: string, buyer: ServiceBuyer, purchases: ServicePurchase[]) {
+  const items = await db.select().from(orderItems)
+    .where(and(eq(orderItems.orderId, orderId), sql`${orderItems.itemType} != 'product'`))
+    .all();
+
+  for (const item of items) {
+    if (!item.itemId) continue;
+    try {
+      if (item.itemType === 'learn') {
+        await grantCourseAccess(db, orderId, item.itemId, buyer);
+      } else if (item.itemType === 'cohort') {
+        await enrolInCohort(db, orderId, item, buyer);
+      } else if (item.itemType === 'coaching') {
+        const purchase = purchases.find(p => p.type === 'coaching' && p.id === item.itemId);
+        await startCoaching(db, orderId, item, buyer, purchase?.slot ?? null);
+      }
+    } catch (err: any) {
+      console.error(`Fulfilment failed for ${item.itemType} ${item.itemId}:`, err.message);
+    }
+  }
+}
+
+/** Course access needs a customer account; guests get one when the order is attached. */
+async function grantCourseAccess(db: DB, orderId: string, learnItemId: string, buyer: ServiceBuyer) {
+  if (!buyer.customerId) return;
+
+  const inserted = await db.insert(enrollments).values({
+    userId: buyer.customerId,
+    learnItemId,
+    orderId,
+    status: 'active',
+  }).onConflictDoNothing().returning({ id: enrollments.id }).all();
+
+  if (inserted.length > 0) {
+    await db.update(learnItems)
+      .set({ enrolledCount: sql`COALESCE(${learnItems.enrolledCount}, 0) + 1` })
+      .where(eq(learnItems.id, learnItemId));
+  }
+}
+
+/**
+ * Take a cohort seat for the buyer. Capacity was checked when the session was
+ * created; a paid seat is always honoured even if the cohort filled up in the
+ * meantime. Buyers already on the waitlist (or who cancelled earlier) have
+ * their existing enrollment reactivated.
+ */
+async function enrolInCohort(db: DB, orderId: string, item: any, buyer: ServiceBuyer) {
+  const cohort = await db.select().from(cohorts).where(eq(cohorts.id, item.itemId)).get();
+  if (!cohort) return;
+
+  const now = new Date().toISOString();
+  const existing = await db.select().from(cohortEnrollments)
+    .where(and(
+      eq(cohortEnrollments.cohortId, cohort.id),
+      sql`LOWER(${cohortEnrollments.customerEmail}) = LOWER(${buyer.email})`,
+    ))
+    .get();
+
+  const paid = {
+    customerId: buyer.customerId,
+    orderId,
+    status: 'active' as const,
+    pricePaid: item.price,
+    currency: cohort.currency || 'AUD',
+    paymentMethod: 'stripe',
+    updatedAt: now,
+  };
+
+  if (existing) {
+    if (existing.status === 'active' || existing.status === 'completed') return;
+
+    const wasWaitlisted = existing.status === 'waitlisted';
+    await db.update(cohortEnrollments).set({
+      ...paid,
+      waitlistPosition: null,
+      promotedFromWaitlistAt: wasWaitlisted ? now : existing.promotedFromWaitlistAt,
+      cancelledAt: null,
+      cancellationReason: null,
+      enrolledAt: now,
+    }).where(eq(cohortEnrollments.id, existing.id));
+
+    await db.update(cohorts).set({
+      enrolledCount: sql`${cohorts.enrolledCount} + 1`,
+      ...(wasWaitlisted && { waitlistCount: sql`MAX(0, ${cohorts.waitlistCount} - 1)` }),
+      updatedAt: now,
+    }).where(eq(cohorts.id, cohort.id));
+    return;
+  }
+
+  await db.insert(cohortEnrollments).values({
+    ...paid,
+    cohortId: cohort.id,
+    customerName: buyer.name || buyer.email,
+    customerEmail: buyer.email,
+    enrolledBy: 'checkout',
+    enrolledAt: now,
+    createdAt: now,
+  });
+
+  await db.update(cohorts).set({
+    enrolledCount: sql`${cohorts.enrolledCount} + 1`,
+    updatedAt: now,
+  }).where(eq(cohorts.id, cohort.id));
+}
+
+/**
+ * Make the buyer an active coaching client on the package they bought and
+ * book the session time they picked. If someone else took that time while
+ * they were paying, the booking is left pending with a note to reschedule.
+ */
+async function startCoaching(db: DB, orderId: string, item: any, buyer: ServiceBuyer, slot: BookingSlot | null) {
+  const now = new Date().toISOString();
+  const email = buyer.email.toLowerCase();
+
+  let client = await db.select().from(coachingClients)
+    .where(sql`LOWER(${coachingClients.email}) = ${email}`)
+    .get();
+
+  if (client) {
+    await db.update(coachingClients).set({
+      currentPackageId: item.itemId,
+      status: client.status === 'prospect' || client.status === 'discovery' || client.status === 'paused' ? 'active' : client.status,
+      startDate: client.startDate || now.slice(0, 10),
+      updatedAt: now,
+    }).where(eq(coachingClients.id, client.id));
+  } else {
+    client = await db.insert(coachingClients).values({
+      name: buyer.name || email,
+      email,
+      status: 'active',
+      source: 'website_form',
+      currentPackageId: item.itemId,
+      startDate: now.slice(0, 10),
+      createdAt: now,
+      updatedAt: now,
+    }).returning().get();
+  }
+
+  if (!slot) return;
+
+  const booked = await db.select({ id: coachingBookings.id })
+    .from(coachingBookings)
+    .where(and(eq(coachingBookings.orderId, orderId), eq(coachingBookings.coachingPackageId, item.itemId)))
+    .get();
+  if (booked) return;
+
+  const taken = await findConflictingBooking(db, slot);
+
+  await db.insert(coachingBookings).values({
+    customerId: buyer.customerId,
+    customerName: buyer.name || email,
+    customerEmail: email,
+    coachingPackageId: item.itemId,
+    packageName: item.productName,
+    sessionDate: slot.sessionDate,
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+    status: taken ? 'pending' : 'confirmed',
+    notes: taken ? 'This time was booked by someone else during checkout — please arrange a new time.' : null,
+    clientId: client.id,
+    orderId,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
@@ -0,0 +1,91 @@
+import Stripe from 'stripe';
+import { eq, and, desc } from 'drizzle-orm';
+import { customerUsers, shippingAddresses } from '../db/schema';
+
+type DB = any; // DrizzleD1Database type
+
+// ============================================
+// SAVED ADDRESSES
+// ============================================
+
+/**
+ * The saved address to ship a signed-in customer's order to: the one they
+ * picked at checkout, otherwise their default.
+ */
+export async function getCheckoutAddress(db: DB, userId: string, addressId?: string | null) {
+  if (addressId) {
+    const picked = await db.select().from(shippingAddresses)
+      .where(and(eq(shippingAddresses.id, addressId), eq(shippingAddresses.userId, userId)))
+      .get();
+    if (picked) return picked;
+  }
+
+  return db.select().from(shippingAddresses)
+    .where(eq(shippingAddresses.userId, userId))
+    .orderBy(desc(shippingAddresses.isDefault), desc(shippingAddresses.updatedAt))
+    .get() ?? null;
+}
+
+// ============================================
+// STRIPE CUSTOMERS
+// ============================================
+
+function stripeShipping(address: any): Stripe.CustomerCreateParams.Shipping {
+  return {
+    name: `${address.firstName} ${address.lastName}`.trim(),
+    phone: address.phone || undefined,
+    address: {
+      line1: address.address,
+      city: address.city,
+      state: address.state,
+      postal_code: address.postcode,
+      country: address.country,
+    },
+  };
+}
+
+/**
+ * Find or create the Stripe customer for an account, with their shipping
+ * address set so Checkout opens prefilled. The id is kept on
+ * customerUsers.stripeCustomerId; a customer deleted in the Stripe dashboard
+ * is replaced with a new one.
+ */
+export async function syncStripeCustomer(
+  db: DB,
+  stripe: Stripe,
+  customer: { id: string; email: string; firstName: string; lastName: string },
+  address: any | null,
+): Promise<string> {
+  const row = await db.select({ stripeCustomerId: customerUsers.stripeCustomerId })
+    .from(customerUsers)
+    .where(eq(customerUsers.id, customer.id))
+    .get();
+
+  const shipping = address ? stripeShipping(address) : undefined;
+
+  if (row?.stripeCustomerId) {
+    try {
+      // Clear the last address when there's none to use, so Checkout starts blank
+      await stripe.customers.update(row.stripeCustomerId, {
+        email: customer.email,
+        shipping: shipping ?? '',
+      });
+      return row.stripeCustomerId;
+    } catch (err: any) {
+      if (err?.code !== 'resource_missing') throw err;
+    }
+  }
+
+  const created = await stripe.customers.create({
+    email: customer.email,
+    name: `${customer.firstName} ${customer.lastName}`.trim() || undefined,
+    shipping,
+    metadata: { customerId: customer.id },
+  });
+
+  await db.update(customerUsers)
+    .set({ stripeCustomerId: created.id, updatedAt: new Date().toISOString() })
+    .where(eq(customerUsers.id, customer.id));
+
+  return created.id;
+}
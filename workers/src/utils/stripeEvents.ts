@@ -0,0 +1,883 @@
+import { eq, and, or, inArray, lt, sql } from 'drizzle-orm';
+import type Stripe from 'stripe';
+import {
+  products, productVariants, orders, orderItems, giftCards, giftCardTransactions, giftCardHolds, inventoryMovements,
+  abandonedCarts, abandonedCartItems, stripeEvents, customerUsers, coachingPackages, learnItems, cohorts,
+  discountCodes,
+} from '../db/schema';
+import { resolveUnitPrice } from './variants';
+import { changeStock, releaseReservations } from './inventory';
+import { getTaxSettings, calculateTax } from './tax';
+import { syncStripeRefund, restockOrderItem, recalculateOrderRefunds } from './refunds';
+import { issueGiftCard, holdGiftCard, findGiftCardHold, releaseGiftCardHold, creditGiftCard, type GiftCardPurchase } from './giftCards';
+import { logActivity } from './activityLog';
+import { attachOrderCustomer, subscribeBuyer, fireOrderAutomations } from './orders';
+import { parseServiceMetadata, fulfilOrderServices, type ServicePurchase } from './services';
+import { parseLineDiscountMetadata, redemptionStatements, releaseRedemption } from './discounts';
+import { deliverEmail } from './emailGateway';
+import { notifyIfRestocked, recordWaitlistPurchases } from './waitlist';
+import type { Bindings } from '../index';
+
+type DB = any; // DrizzleD1Database type
+
+/** Activity log entries written by the webhook are attributed to Stripe. */
+const STRIPE_ACTOR = { name: 'Stripe' };
+
+/** A claimed event still "processing" after this long is assumed to have crashed. */
+const STALE_PROCESSING_MS = 15 * 60 * 1000;
+
+export type StripeEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+export interface StripeEventResult {
+  status: 'processed' | 'ignored';
+  orderId?: string | null;
+}
+
+// ============================================
+// EVENT LEDGER
+// ============================================
+
+function eventObjectId(event: Stripe.Event): string | null {
+  const object = event.data.object as { id?: string };
+  return object?.id ?? null;
+}
+
+/**
+ * Record an incoming event and claim it for processing. Returns false when the
+ * event has already been handled (or is being handled by another delivery),
+ * so Stripe retries are acknowledged without creating anything twice.
+ * Failed events, and ones stuck mid-processing, can be claimed again.
+ */
+export async function claimStripeEvent(db: DB, event: Stripe.Event): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  const inserted = await db.insert(stripeEvents).values({
+    id: event.id,
+    type: event.type,
+    status: 'processing',
+    objectId: eventObjectId(event),
+    payload: event,
+    livemode: event.livemode,
+    stripeCreatedAt: new Date(event.created * 1000).toISOString(),
+    receivedAt: now,
+    lastAttemptAt: now,
+  }).onConflictDoNothing().returning({ id: stripeEvents.id }).all();
+
+  if (inserted.length > 0) return true;
+
+  const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+  const reclaimed = await db.update(stripeEvents).set({
+    status: 'processing',
+    attempts: sql`${stripeEvents.attempts} + 1`,
+    lastAttemptAt: now,
+  }).where(and(
+    eq(stripeEvents.id, event.id),
+    or(
+      eq(stripeEvents.status, 'failed'),
+      and(eq(stripeEvents.status, 'processing'), lt(stripeEvents.lastAttemptAt, staleBefore)),
+    ),
+  )).returning({ id: stripeEvents.id }).all();
+
+  return reclaimed.length > 0;
+}
+
+/**
+ * Handle a claimed event and record the outcome on its ledger row.
+ * Errors are caught and stored so the event can be replayed from the admin.
+ */
+export async function runStripeEvent(
+  env: Bindings,
+  db: DB,
+  stripe: Stripe,
+  event: Stripe.Event,
+): Promise<{ status: StripeEventStatus; error?: string }> {
+  try {
+    const result = await processStripeEvent(env, db, stripe, event);
+    await db.update(stripeEvents).set({
+      status: result.status,
+      orderId: result.orderId ?? null,
+      error: null,
+      processedAt: new Date().toISOString(),
+    }).where(eq(stripeEvents.id, event.id));
+    return { status: result.status };
+  } catch (err: any) {
+    const error = err?.message || String(err);
+    console.error(`Stripe event ${event.id} (${event.type}) failed:`, error);
+    await db.update(stripeEvents).set({
+      status: 'failed',
+      error,
+    }).where(eq(stripeEvents.id, event.id));
+    return { status: 'failed', error };
+  }
+}
+
+/**
+ * Dispatch a webhook event to its handler. Event types we don't act on are
+ * recorded as ignored.
+ */
+export async function processStripeEvent(
+  env: Bindings,
+  db: DB,
+  stripe: Stripe,
+  event: Stripe.Event,
+): Promise<StripeEventResult> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return handleCheckoutCompleted(env, db, event.data.object as Stripe.Checkout.Session);
+    case 'checkout.session.async_payment_succeeded':
+      return handleAsyncPaymentSucceeded(env, db, event.data.object as Stripe.Checkout.Session);
+    case 'checkout.session.async_payment_failed':
+      return handleAsyncPaymentFailed(env, db, event.data.object as Stripe.Checkout.Session);
+    case 'checkout.session.expired':
+      return handleCheckoutExpired(db, event.data.object as Stripe.Checkout.Session);
+    case 'payment_intent.payment_failed':
+      return handlePaymentFailed(db, event.data.object as Stripe.PaymentIntent);
+    case 'charge.refunded':
+      return handleChargeRefunded(db, stripe, event.data.object as Stripe.Charge);
+    case 'charge.refund.updated': {
+      const refund = event.data.object as Stripe.Refund;
+      await syncStripeRefund(db, refund);
+      return { status: 'processed', orderId: (await findOrderByPaymentIntent(db, refund.payment_intent))?.id };
+    }
+    case 'charge.dispute.created':
+      return handleDisputeCreated(env, db, event.data.object as Stripe.Dispute);
+    case 'charge.dispute.closed':
+      return handleDisputeClosed(db, event.data.object as Stripe.Dispute);
+    default:
+      return { status: 'ignored' };
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function findOrderBySession(db: DB, sessionId: string) {
+  return db.select().from(orders).where(eq(orders.stripeCheckoutSessionId, sessionId)).get();
+}
+
+async function findOrderByPaymentIntent(db: DB, paymentIntent: string | { id: string } | null | undefined) {
+  const id = typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id;
+  if (!id) return null;
+  return db.select().from(orders).where(eq(orders.stripePaymentIntentId, id)).get();
+}
+
+/** Update an order's payment status and record the change in the activity log. */
+async function setPaymentStatus(db: DB, order: any, updates: Record<string, any>) {
+  const now = new Date().toISOString();
+  await db.update(orders).set({ ...updates, updatedAt: now }).where(eq(orders.id, order.id));
+
+  const changedFields: Record<string, { old: unknown; new: unknown }> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    if (order[key] !== value) changedFields[key] = { old: order[key], new: value };
+  }
+  await logActivity(db, 'update', 'order', { ...order, ...updates, name: order.orderNumber }, STRIPE_ACTOR, changedFields);
+}
+
+/** Gift card purchases are stored one per metadata key (giftCard0, giftCard1, ...). */
+function parseGiftCardMetadata(metadata: Record<string, string>) {
+  const purchased: Array<{ productId: string; purchase: GiftCardPurchase }> = [];
+  for (let i = 0; metadata[`giftCard${i}`]; i++) {
+    try {
+      const g = JSON.parse(metadata[`giftCard${i}`]);
+      purchased.push({
+        productId: g.p,
+        purchase: { amount: Number(g.a), recipientName: g.n || '', recipientEmail: g.e, message: g.m || '', deliveryDate: g.d || null },
+      });
+    } catch {}
+  }
+  return purchased;
+}
+
+/**
+ * Issue the gift cards bought on an order, matching the session's purchases to
+ * order items in the order they were written. Items that already have a card
+ * are skipped, so this is safe to run again.
+ */
+async function issueOrderGiftCards(env: Bindings, db: DB, session: Stripe.Checkout.Session, orderId: string) {
+  const purchased = parseGiftCardMetadata(session.metadata || {});
+  if (purchased.length === 0) return;
+
+  const items = await db.select().from(orderItems)
+    .where(eq(orderItems.orderId, orderId))
+    .orderBy(sql`rowid`)
+    .all();
+
+  const used = new Set<number>();
+  for (const item of items) {
+    const index = purchased.findIndex((g, i) => !used.has(i) && g.productId === item.productId);
+    if (index === -1) continue;
+    used.add(index);
+    if (item.giftCardId) continue;
+
+    try {
+      const card = await issueGiftCard(env, db, purchased[index].purchase, {
+        email: session.customer_details?.email || null,
+        name: session.customer_details?.name || null,
+      }, orderId);
+      await db.update(orderItems).set({ giftCardId: card.id }).where(eq(orderItems.id, item.id));
+    } catch (err: any) {
+      console.error('Gift card issue failed:', err.message);
+    }
+  }
+}
+
+/** Names and images for the coaching, course and cohort lines bought in a session. */
+async function loadServiceLines(db: DB, purchases: ServicePurchase[]) {
+  const idsOf = (type: string) => purchases.filter(p => p.type === type).map(p => p.id);
+  const [packages, courses, cohortRows] = await Promise.all([
+    idsOf('coaching').length > 0
+      ? db.select().from(coachingPackages).where(inArray(coachingPackages.id, idsOf('coaching'))).all()
+      : [],
+    idsOf('learn').length > 0
+      ? db.select().from(learnItems).where(inArray(learnItems.id, idsOf('learn'))).all()
+      : [],
+    idsOf('cohort').length > 0
+      ? db.select({ cohort: cohorts, learnItem: learnItems })
+          .from(cohorts)
+          .leftJoin(learnItems, eq(cohorts.learnItemId, learnItems.id))
+          .where(inArray(cohorts.id, idsOf('cohort')))
+          .all()
+      : [],
+  ]);
+
+  const lines: Array<{ purchase: ServicePurchase; name: string; image: string | null }> = [];
+  for (const purchase of purchases) {
+    if (purchase.type === 'coaching') {
+      const pkg = packages.find((p: any) => p.id === purchase.id);
+      if (pkg) lines.push({ purchase, name: pkg.title, image: pkg.coverImageUrl || pkg.image || null });
+    } else if (purchase.type === 'learn') {
+      const course = courses.find((l: any) => l.id === purchase.id);
+      if (course) lines.push({ purchase, name: course.title, image: course.coverImageUrl || course.image || null });
+    } else if (purchase.type === 'cohort') {
+      const row = cohortRows.find((r: any) => r.cohort.id === purchase.id);
+      if (row) {
+        lines.push({
+          purchase,
+          name: row.learnItem ? `${row.learnItem.title} — ${row.cohort.title}` : row.cohort.title,
+          image: row.learnItem?.coverImageUrl || row.learnItem?.image || null,
+        });
+      }
+    }
+  }
+  return lines;
+}
+
+/**
+ * Hand over what a paid order's coaching, course and cohort lines are for.
+ * Runs after the order is attached to a customer, since course access is
+ * granted to their account.
+ */
+async function fulfilSessionServices(db: DB, session: Stripe.Checkout.Session, order: any) {
+  const purchases = parseServiceMetadata(session.metadata || {});
+  if (purchases.length === 0) return;
+
+  const customer = order.userId
+    ? await db.select().from(customerUsers).where(eq(customerUsers.id, order.userId)).get()
+    : null;
+  const email = session.customer_details?.email || session.customer_email || customer?.email;
+  if (!email) return;
+
+  const name = session.customer_details?.name
+    || session.metadata?.customerName
+    || [customer?.firstName, customer?.lastName].filter(Boolean).join(' ');
+
+  await fulfilOrderServices(db, order.id, { customerId: customer?.id ?? null, email, name }, purchases);
+}
+
+// ============================================
+// CHECKOUT SESSIONS
+// ============================================
+
+/**
+ * Create the order for a completed checkout session: order and items (with
+ * tax), gift card redemption, purchased gift cards and inventory. Coaching,
+ * course and cohort lines are added as items here and fulfilled once the
+ * buyer's account is attached.
+ * Sessions paid by an async method (e.g. bank debit) are created as pending and
+ * confirmed when checkout.session.async_payment_succeeded arrives.
+ */
+async function createOrderFromSession(env: Bindings, db: DB, session: Stripe.Checkout.Session) {
+  const paid = session.payment_status !== 'unpaid';
+  const metadata = session.metadata || {};
+
+  const productIds = metadata.productIds ? metadata.productIds.split(',').filter(Boolean) : [];
+  const servicePurchases = parseServiceMetadata(metadata);
+
+  if (productIds.length === 0 && servicePurchases.length === 0) return null;
+
+  let productQuantities: Record<string, number> = {};
+  let variantQuantities: Record<string, number> = {};
+  try {
+    productQuantities = metadata.productQuantities ? JSON.parse(metadata.productQuantities) : {};
+    variantQuantities = metadata.variantQuantities ? JSON.parse(metadata.variantQuantities) : {};
+  } catch {}
+
+  const orderedProducts = productIds.length > 0
+    ? await db.select().from(products)
+        .where(or(inArray(products.id, productIds), inArray(products.slug, productIds)))
+        .all()
+    : [];
+  const serviceLines = await loadServiceLines(db, servicePurchases);
+
+  const variantIds = Object.keys(variantQuantities);
+  const orderedVariants = variantIds.length > 0
+    ? await db.select().from(productVariants).where(inArray(productVariants.id, variantIds)).all()
+    : [];
+
+  const purchasedGiftCards = parseGiftCardMetadata(metadata);
+
+  // Build order lines (one per variant for products bought as variants)
+  const lines: Array<{
+    product: typeof orderedProducts[number];
+    variant: typeof orderedVariants[number] | null;
+    price: string;
+    quantity: number;
+    giftCard: GiftCardPurchase | null;
+  }> = [];
+  for (const product of orderedProducts) {
+    if (product.productType === 'gift-card') {
+      for (const g of purchasedGiftCards.filter(g => g.productId === product.id)) {
+        lines.push({ product, variant: null, price: g.purchase.amount.toFixed(2), quantity: 1, giftCard: g.purchase });
+      }
+      continue;
+    }
+
+    const productVariantRows = orderedVariants.filter((v: any) => v.productId === product.id);
+
+    if (productVariantRows.length > 0) {
+      for (const variant of productVariantRows) {
+        lines.push({
+          product,
+          variant,
+          price: resolveUnitPrice(product, variant),
+          quantity: variantQuantities[variant.id] || 1,
+          giftCard: null,
+        });
+      }
+      continue;
+    }
+
+    lines.push({
+      product,
+      variant: null,
+      price: product.price,
+      quantity: productQuantities[product.id] || productQuantities[product.slug] || 1,
+      giftCard: null,
+    });
+  }
+
+  // Promotion and discount code shares per line, as the quote worked them out
+  const itemsDiscountCents = Math.round(parseFloat(metadata.discountAmount || '0') * 100);
+  const shippingDiscount = parseFloat(metadata.shippingDiscount || '0');
+  const usedCode = metadata.discountCodeId
+    ? await db.select().from(discountCodes).where(eq(discountCodes.id, metadata.discountCodeId)).get()
+    : null;
+  const discountsByLine = parseLineDiscountMetadata(metadata);
+  const lineDiscountCents = [
+    ...lines.map(l => (l.giftCard ? 0 : discountsByLine[l.variant?.id || l.product.id] || 0)),
+    ...serviceLines.map(l => discountsByLine[l.purchase.id] || 0),
+  ];
+
+  let appliedPromotions: Array<{ id: string; name: string; amount: string }> = [];
+  try {
+    appliedPromotions = metadata.promotions
+      ? JSON.parse(metadata.promotions).map((p: any) => ({ id: p.i, name: p.n, amount: p.a }))
+      : [];
+  } catch {}
+
+  // Tax per line for the destination the rate was quoted for (shipping is after any discount)
+  const shippingAmount = session.shipping_cost
+    ? (session.shipping_cost.amount_total / 100).toFixed(2)
+    : (metadata.shippingAmount || '0');
+  const taxCountry = metadata.taxCountry || 'AU';
+  const tax = calculateTax(
+    await getTaxSettings(db),
+    taxCountry,
+    [
+      ...lines.map((l, i) => ({
+        amountCents: Math.round(parseFloat(l.price) * 100) * l.quantity - lineDiscountCents[i],
+        taxable: !l.giftCard && l.product.taxable !== false,
+      })),
+      ...serviceLines.map((l, i) => ({
+        amountCents: Math.round(parseFloat(l.purchase.amount) * 100) - lineDiscountCents[lines.length + i],
+        taxable: true,
+      })),
+    ],
+    Math.round(parseFloat(shippingAmount) * 100),
+  );
+
+  // Gift card redeemed against this order. Its balance was held when the
+  // session was created; sessions from before holds existed take it now,
+  // under the session id so a retried webhook doesn't take it twice.
+  const giftCardAmount = parseFloat(metadata.giftCardAmount || '0');
+  const redeemedCard = metadata.giftCardId && giftCardAmount > 0
+    ? await db.select().from(giftCards).where(eq(giftCards.id, metadata.giftCardId)).get()
+    : null;
+  const giftCardHeld = redeemedCard
+    ? !!(await findGiftCardHold(db, session.id))
+      || await holdGiftCard(db, redeemedCard.id, session.id, Math.round(giftCardAmount * 100))
+    : false;
+  if (redeemedCard && !giftCardHeld) {
+    console.error(`Gift card ${redeemedCard.code} could not cover $${giftCardAmount.toFixed(2)} for session ${session.id}`);
+  }
+
+  // Newer API versions moved shipping details under collected_information
+  const address = (session.collected_information?.shipping_details ?? (session as any).shipping_details)?.address;
+
+  // Generate order number
+  const orderId = crypto.randomUUID();
+  const orderNumber = `LT-${Date.now()}-${Math.random().toString(36).substr(2, 4).toUpperCase()}`;
+  const now = new Date().toISOString();
+  const orderItemIds = lines.map(() => crypto.randomUUID());
+
+  // Order, items and gift card redemption are written in one batch so a
+  // failure can't leave a card debited without its order (or vice versa)
+  const statements: any[] = [
+    db.insert(orders).values({
+      id: orderId,
+      orderNumber,
+      status: paid ? 'confirmed' : 'pending',
+      subtotal: metadata.subtotal || ((session.amount_subtotal || 0) / 100).toString(),
+      shipping: shippingAmount,
+      tax: (tax.totalTaxCents / 100).toFixed(2),
+      taxName: tax.name,
+      taxRate: String(tax.rate),
+      taxInclusive: tax.inclusive,
+      // Only what was actually taken from the card, which refunds credit back
+      giftCardCode: giftCardHeld ? redeemedCard.code : null,
+      giftCardAmount: giftCardHeld ? giftCardAmount.toFixed(2) : '0',
+      discountCode: metadata.discountCode || null,
+      discountAmount: (itemsDiscountCents / 100).toFixed(2),
+      promotions: appliedPromotions,
+      total: ((session.amount_total || 0) / 100).toString(),
+      currency: (session.currency || 'AUD').toUpperCase(),
+      stripeCheckoutSessionId: session.id,
+      stripePaymentIntentId: session.payment_intent as string,
+      paymentStatus: paid ? 'paid' : 'pending',
+      paidAt: paid ? now : null,
+      // Flagged rather than quietly taking the card below zero
+      notes: redeemedCard && !giftCardHeld
+        ? `Gift card ${redeemedCard.code} no longer had $${giftCardAmount.toFixed(2)} to cover this order, so nothing was taken from it. Collect the difference before fulfilling.`
+        : null,
+      shippingFirstName: session.customer_details?.name?.split(' ')[0] || '',
+      shippingLastName: session.customer_details?.name?.split(' ').slice(1).join(' ') || '',
+      shippingAddress: address?.line1 || '',
+      shippingCity: address?.city || '',
+      shippingState: address?.state || '',
+      shippingPostcode: address?.postal_code || '',
+      shippingCountry: address?.country || 'AU',
+    }),
+    ...lines.map(({ product, variant, price, quantity, giftCard }, i) =>
+      db.insert(orderItems).values({
+        id: orderItemIds[i],
+        orderId,
+        productId: product.id,
+        variantId: variant?.id ?? null,
+        productName: product.name,
+        variantTitle: variant?.title ?? (giftCard ? `$${giftCard.amount.toFixed(2)} for ${giftCard.recipientName || giftCard.recipientEmail}` : null),
+        productImage: variant?.image || product.image,
+        price,
+        quantity,
+        tax: (tax.lineTaxCents[i] / 100).toFixed(2),
+        discount: (lineDiscountCents[i] / 100).toFixed(2),
+      })
+    ),
+    ...serviceLines.map(({ purchase, name, image }, i) =>
+      db.insert(orderItems).values({
+        orderId,
+        productId: null,
+        itemType: purchase.type,
+        itemId: purchase.id,
+        productName: name,
+        variantTitle: purchase.slot ? `${purchase.slot.sessionDate} at ${purchase.slot.startTime}` : null,
+        productImage: image,
+        price: purchase.amount,
+        quantity: 1,
+        tax: (tax.lineTaxCents[lines.length + i] / 100).toFixed(2),
+        discount: (lineDiscountCents[lines.length + i] / 100).toFixed(2),
+      })
+    ),
+  ];
+
+  if (metadata.discountCode) {
+    statements.push(...redemptionStatements(db, {
+      discountCodeId: usedCode?.id ?? null,
+      code: metadata.discountCode,
+      orderId,
+      customerId: metadata.customerId || null,
+      email: session.customer_details?.email || session.customer_email || null,
+      amount: (itemsDiscountCents / 100 + shippingDiscount).toFixed(2),
+    }));
+  }
+
+  // The held balance becomes the order's redemption
+  if (redeemedCard && giftCardHeld) {
+    statements.push(
+      db.delete(giftCardHolds).where(eq(giftCardHolds.sessionId, session.id)),
+      db.insert(giftCardTransactions).values({
+        giftCardId: redeemedCard.id,
+        type: 'redemption',
+        amount: `-${giftCardAmount.toFixed(2)}`,
+        balanceAfter: sql`(SELECT ${giftCards.currentBalance} FROM ${giftCards} WHERE ${giftCards.id} = ${redeemedCard.id})`,
+        orderId,
+        note: `Order ${orderNumber}`,
+        createdAt: now,
+      }),
+    );
+  }
+
+  await db.batch(statements as [any, ...any[]]);
+
+  console.log('Order created:', orderNumber);
+  return { orderId, orderNumber, paid };
+}
+
+/**
+ * Take an order's units out of stock and record the sales; the session's
+ * stock holds are no longer needed. Lines whose sale is already in the
+ * ledger are skipped and the order notes when it's done, so a webhook
+ * retried after failing part-way through finishes without taking stock twice.
+ */
+async function deductOrderStock(db: DB, order: any) {
+  if (order.stockDeductedAt) return;
+
+  const items = await db.select().from(orderItems).where(eq(orderItems.orderId, order.id)).all();
+  const productIds = [...new Set(items.map((i: any) => i.productId).filter(Boolean))] as string[];
+  const orderedProducts = productIds.length > 0
+    ? await db.select().from(products).where(inArray(products.id, productIds)).all()
+    : [];
+  const sales = await db.select({ productId: inventoryMovements.productId, variantId: inventoryMovements.variantId })
+    .from(inventoryMovements)
+    .where(and(eq(inventoryMovements.orderId, order.id), eq(inventoryMovements.type, 'sale')))
+    .all();
+  const sold = new Set(sales.map((m: any) => `${m.productId}:${m.variantId || ''}`));
+
+  for (const item of items) {
+    const product = orderedProducts.find((p: any) => p.id === item.productId);
+    if (!product || !product.trackInventory || product.productType === 'gift-card') continue;
+    if (sold.has(`${product.id}:${item.variantId || ''}`)) continue;
+
+    await changeStock(db, {
+      productId: product.id,
+      variantId: item.variantId,
+      change: -item.quantity,
+      type: 'sale',
+      orderId: order.id,
+      note: `Order ${order.orderNumber}`,
+    });
+  }
+
+  if (order.stripeCheckoutSessionId) {
+    await releaseReservations(db, order.stripeCheckoutSessionId);
+  }
+  await db.update(orders).set({ stockDeductedAt: new Date().toISOString() }).where(eq(orders.id, order.id));
+}
+
+/**
+ * Everything after the order itself is saved. Each step records when it's
+ * done (purchased gift cards on their order line), so when the order already
+ * exists this picks up whatever an earlier attempt didn't finish.
+ */
+async function completeSessionOrder(env: Bindings, db: DB, session: Stripe.Checkout.Session, order: any) {
+  const paid = session.payment_status !== 'unpaid';
+
+  // Purchased gift cards are issued once payment has cleared
+  if (paid) {
+    await issueOrderGiftCards(env, db, session, order.id);
+  }
+
+  await deductOrderStock(db, order);
+
+  if (order.followedUpAt) return;
+  await markCartRecovered(db, session);
+
+  // Follow-up failures are logged rather than failing the event
+  try {
+    const metadata = session.metadata || {};
+    const email = session.customer_details?.email || session.customer_email || null;
+    const name = session.customer_details?.name || metadata.customerName || null;
+
+    await attachOrderCustomer(db, order.id, { customerId: metadata.customerId || null, email, name });
+    if (email && metadata.marketingOptIn === '1') {
+      await subscribeBuyer(db, email, name);
+    }
+
+    const attached = await db.select().from(orders).where(eq(orders.id, order.id)).get();
+    if (paid) {
+      await fulfilSessionServices(db, session, attached);
+      await recordWaitlistPurchases(db, attached.id, email);
+    }
+    await fireOrderAutomations(db, attached, paid ? ['order_placed', 'purchase'] : ['order_placed'], email);
+  } catch (err: any) {
+    console.error(`Order follow-up failed for ${order.orderNumber}:`, err.message);
+  }
+
+  await db.update(orders).set({ followedUpAt: new Date().toISOString() }).where(eq(orders.id, order.id));
+}
+
+/** Mark the customer's open abandoned cart as recovered once they've ordered. */
+async function markCartRecovered(db: DB, session: Stripe.Checkout.Session) {
+  const email = session.customer_details?.email || session.customer_email;
+  if (!email) return;
+
+  const now = new Date().toISOString();
+  await db.update(abandonedCarts).set({
+    status: 'recovered',
+    sessionId: session.id,
+    recoveredAt: now,
+    updatedAt: now,
+  }).where(and(eq(abandonedCarts.email, email), eq(abandonedCarts.status, 'abandoned')));
+}
+
+async function handleCheckoutCompleted(env: Bindings, db: DB, session: Stripe.Checkout.Session): Promise<StripeEventResult> {
+  // Never create a second order for the same session, but finish one an
+  // earlier attempt saved and then failed on
+  const existing = await findOrderBySession(db, session.id);
+  if (existing) {
+    await completeSessionOrder(env, db, session, existing);
+    return { status: 'processed', orderId: existing.id };
+  }
+
+  const created = await createOrderFromSession(env, db, session);
+  if (!created) return { status: 'ignored' };
+
+  const order = await db.select().from(orders).where(eq(orders.id, created.orderId)).get();
+  await completeSessionOrder(env, db, session, order);
+
+  return { status: 'processed', orderId: created.orderId };
+}
+
+async function handleAsyncPaymentSucceeded(env: Bindings, db: DB, session: Stripe.Checkout.Session): Promise<StripeEventResult> {
+  const order = await findOrderBySession(db, session.id);
+  if (!order) {
+    // completed was missed or failed; the session is paid now so create it outright
+    return handleCheckoutCompleted(env, db, session);
+  }
+
+  if (order.paymentStatus === 'pending') {
+    await setPaymentStatus(db, order, {
+      paymentStatus: 'paid',
+      status: order.status === 'pending' ? 'confirmed' : order.status,
+      paidAt: new Date().toISOString(),
+    });
+    await issueOrderGiftCards(env, db, session, order.id);
+    await fulfilSessionServices(db, session, order);
+    await recordWaitlistPurchases(db, order.id, session.customer_details?.email || session.customer_email);
+    await fireOrderAutomations(db, order, ['purchase'], session.customer_details?.email);
+  }
+
+  return { status: 'processed', orderId: order.id };
+}
+
+/**
+ * An async payment bounced: cancel the pending order, put its stock back
+ * (telling the waitlist if that brings a piece back) and return anything
+ * taken from a gift card.
+ */
+async function handleAsyncPaymentFailed(env: Bindings, db: DB, session: Stripe.Checkout.Session): Promise<StripeEventResult> {
+  const order = await findOrderBySession(db, session.id);
+  if (!order) return { status: 'ignored' };
+  if (order.paymentStatus !== 'pending') return { status: 'processed', orderId: order.id };
+
+  const now = new Date().toISOString();
+  await setPaymentStatus(db, order, {
+    paymentStatus: 'failed',
+    status: 'cancelled',
+    cancelledAt: now,
+  });
+
+  const items = await db.select().from(orderItems).where(eq(orderItems.orderId, order.id)).all();
+  for (const item of items) {
+    const before = await restockOrderItem(db, item, item.quantity, { note: `Payment failed for ${order.orderNumber}` });
+    if (before) await notifyIfRestocked(env, db, before.id, before);
+  }
+
+  await releaseRedemption(db, order.id);
+
+  const giftCardAmount = parseFloat(order.giftCardAmount || '0');
+  if (order.giftCardCode && giftCardAmount > 0) {
+    const card = await db.select().from(giftCards).where(eq(giftCards.code, order.giftCardCode)).get();
+    if (card) {
+      await creditGiftCard(db, card.id, Math.round(giftCardAmount * 100), {
+        type: 'refund',
+        orderId: order.id,
+        note: `Payment failed for ${order.orderNumber}`,
+      });
+    }
+  }
+
+  return { status: 'processed', orderId: order.id };
+}
+
+/**
+ * Checkout sessions expire after 24 hours, or sooner when they hold stock.
+ * The held stock goes back on sale and any held gift card balance back on
+ * the card, and if the customer gave their email in Stripe, make sure there
+ * is an abandoned cart for the recovery emails to pick up.
+ */
+async function handleCheckoutExpired(db: DB, session: Stripe.Checkout.Session): Promise<StripeEventResult> {
+  await releaseReservations(db, session.id);
+  await releaseGiftCardHold(db, session.id);
+
+  const email = session.customer_details?.email || session.customer_email;
+  if (!email) return { status: 'ignored' };
+
+  const now = new Date().toISOString();
+  const existing = await db.select().from(abandonedCarts)
+    .where(and(eq(abandonedCarts.email, email), eq(abandonedCarts.status, 'abandoned')))
+    .get();
+
+  if (existing) {
+    await db.update(abandonedCarts).set({
+      sessionId: session.id,
+      customerName: existing.customerName || session.customer_details?.name || null,
+      updatedAt: now,
+    }).where(eq(abandonedCarts.id, existing.id));
+    return { status: 'processed' };
+  }
+
+  // Rebuild the cart from the session metadata (gift cards, coaching and courses are left out)
+  const metadata = session.metadata || {};
+  const productIds = metadata.productIds ? metadata.productIds.split(',').filter(Boolean) : [];
+  if (productIds.length === 0) return { status: 'ignored' };
+
+  let productQuantities: Record<string, number> = {};
+  let variantQuantities: Record<string, number> = {};
+  try {
+    productQuantities = metadata.productQuantities ? JSON.parse(metadata.productQuantities) : {};
+    variantQuantities = metadata.variantQuantities ? JSON.parse(metadata.variantQuantities) : {};
+  } catch {}
+
+  const cartProducts = await db.select().from(products).where(inArray(products.id, productIds)).all();
+  const variantIds = Object.keys(variantQuantities);
+  const cartVariants = variantIds.length > 0
+    ? await db.select().from(productVariants).where(inArray(productVariants.id, variantIds)).all()
+    : [];
+
+  const items: Array<typeof abandonedCartItems.$inferInsert> = [];
+  for (const product of cartProducts) {
+    if (product.productType === 'gift-card') continue;
+    const variants = cartVariants.filter((v: any) => v.productId === product.id);
+    if (variants.length > 0) {
+      for (const variant of variants) {
+        items.push({
+          cartId: '',
+          productId: product.slug || product.id,
+          productName: product.name,
+          price: resolveUnitPrice(product, variant),
+          quantity: variantQuantities[variant.id] || 1,
+          image: variant.image || product.image,
+          variant: variant.title,
+        });
+      }
+      continue;
+    }
+    items.push({
+      cartId: '',
+      productId: product.slug || product.id,
+      productName: product.name,
+      price: product.price,
+      quantity: productQuantities[product.id] || 1,
+      image: product.image,
+      variant: null,
+    });
+  }
+  if (items.length === 0) return { status: 'ignored' };
+
+  const cartId = crypto.randomUUID();
+  await db.insert(abandonedCarts).values({
+    id: cartId,
+    email,
+    customerName: session.customer_details?.name || null,
+    sessionId: session.id,
+    recoveryToken: crypto.randomUUID(),
+    status: 'abandoned',
+    totalValue: items.reduce((sum, item) => sum + parseFloat(item.price) * (item.quantity || 1), 0).toFixed(2),
+    itemCount: items.reduce((sum, item) => sum + (item.quantity || 1), 0),
+    lastActivityAt: new Date(session.created * 1000).toISOString(),
+    createdAt: now,
+    updatedAt: now,
+  });
+  for (const item of items) {
+    await db.insert(abandonedCartItems).values({ ...item, cartId });
+  }
+
+  return { status: 'processed' };
+}
+
+// ============================================
+// PAYMENTS, REFUNDS & DISPUTES
+// ============================================
+
+async function handlePaymentFailed(db: DB, paymentIntent: Stripe.PaymentIntent): Promise<StripeEventResult> {
+  // Card declines inside Checkout happen before any order exists; the customer just retries
+  const order = await findOrderByPaymentIntent(db, paymentIntent.id);
+  if (!order) return { status: 'ignored' };
+
+  if (order.paymentStatus === 'pending') {
+    console.log(`Payment failed for ${order.orderNumber}:`, paymentIntent.last_payment_error?.message);
+    await setPaymentStatus(db, order, { paymentStatus: 'failed' });
+  }
+
+  return { status: 'processed', orderId: order.id };
+}
+
+/** Refunds issued from the admin or directly in the Stripe dashboard. */
+async function handleChargeRefunded(db: DB, stripe: Stripe, charge: Stripe.Charge): Promise<StripeEventResult> {
+  const order = await findOrderByPaymentIntent(db, charge.payment_intent);
+  if (!order) return { status: 'ignored' };
+
+  const stripeRefunds = await stripe.refunds.list({ payment_intent: order.stripePaymentIntentId, limit: 100 });
+  for (const refund of stripeRefunds.data) {
+    await syncStripeRefund(db, refund);
+  }
+
+  return { status: 'processed', orderId: order.id };
+}
+
+async function handleDisputeCreated(env: Bindings, db: DB, dispute: Stripe.Dispute): Promise<StripeEventResult> {
+  const order = await findOrderByPaymentIntent(db, dispute.payment_intent);
+  if (!order) return { status: 'ignored' };
+
+  await setPaymentStatus(db, order, { paymentStatus: 'disputed' });
+
+  // Disputes have a response deadline, so let the shop know straight away
+  if (env.ADMIN_EMAIL) {
+    const baseUrl = env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
+    const dueBy = dispute.evidence_details?.due_by
+      ? new Date(dispute.evidence_details.due_by * 1000).toLocaleDateString('en-AU')
+      : null;
+    const result = await deliverEmail(env, db, {
+      to: env.ADMIN_EMAIL,
+      subject: `Payment disputed: order ${order.orderNumber}`,
+      html: `<div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <p>A customer has disputed the payment for order <strong>${order.orderNumber}</strong>
+          ($${(dispute.amount / 100).toFixed(2)} ${dispute.currency.toUpperCase()}, reason: ${dispute.reason.replace(/_/g, ' ')}).</p>
+          ${dueBy ? `<p>Evidence is due by <strong>${dueBy}</strong>. Respond from the Stripe dashboard.</p>` : ''}
+          <p><a href="${baseUrl}/#/admin/orders/${order.id}">View order</a></p>
+        </div>`,
+      category: 'transactional',
+      kind: 'dispute_alert',
+      referenceId: order.id,
+    });
+    if (result.status !== 'sent') {
+      console.error('Dispute notification failed:', result.status === 'failed' ? result.error : result.reason);
+    }
+  }
+
+  return { status: 'processed', orderId: order.id };
+}
+
+async function handleDisputeClosed(db: DB, dispute: Stripe.Dispute): Promise<StripeEventResult> {
+  const order = await findOrderByPaymentIntent(db, dispute.payment_intent);
+  if (!order) return { status: 'ignored' };
+
+  // A won dispute returns the funds; a lost one leaves the order marked disputed
+  if (dispute.status === 'won' && order.paymentStatus === 'disputed') {
+    await setPaymentStatus(db, order, { paymentStatus: 'paid' });
+    await recalculateOrderRefunds(db, order.id);
+  }
+
+  return { status: 'processed', orderId: order.id };
+}
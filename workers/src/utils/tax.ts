@@ -0,0 +1,121 @@
+import { eq } from 'drizzle-orm';
+import { siteSettings } from '../db/schema';
+
+type DB = any; // DrizzleD1Database type
+
+// ============================================
+// TAX SETTINGS
+// ============================================
+
+export interface TaxRate {
+  country: string;   // ISO 3166-1 alpha-2
+  name: string;      // e.g. "GST"
+  rate: number;      // percentage, e.g. 10
+  inclusive: boolean; // prices already include this tax
+}
+
+export interface TaxSettings {
+  businessName: string;
+  abn: string;
+  businessAddress: string;
+  taxShipping: boolean;
+  rates: TaxRate[];
+}
+
+/** GST is 10% and included in Australian prices; exports are GST-free. */
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  businessName: 'Lyne Tilt Studio',
+  abn: '',
+  businessAddress: '',
+  taxShipping: true,
+  rates: [{ country: 'AU', name: 'GST', rate: 10, inclusive: true }],
+};
+
+/**
+ * Load tax settings from the `tax` site setting, falling back to defaults.
+ */
+export async function getTaxSettings(db: DB): Promise<TaxSettings> {
+  const row = await db.select().from(siteSettings).where(eq(siteSettings.key, 'tax')).get();
+  if (!row) return DEFAULT_TAX_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(row.value);
+    return {
+      businessName: parsed.businessName ?? DEFAULT_TAX_SETTINGS.businessName,
+      abn: parsed.abn ?? '',
+      businessAddress: parsed.businessAddress ?? '',
+      taxShipping: parsed.taxShipping !== false,
+      rates: Array.isArray(parsed.rates)
+        ? parsed.rates
+            .filter((r: any) => r?.country)
+            .map((r: any) => ({
+              country: String(r.country).trim().toUpperCase(),
+              name: String(r.name || 'Tax'),
+              rate: Number(r.rate) || 0,
+              inclusive: r.inclusive !== false,
+            }))
+        : DEFAULT_TAX_SETTINGS.rates,
+    };
+  } catch {
+    return DEFAULT_TAX_SETTINGS;
+  }
+}
+
+// ============================================
+// CALCULATION
+// ============================================
+
+export interface TaxableLine {
+  amountCents: number; // unit price × quantity
+  taxable: boolean;
+}
+
+export interface TaxBreakdown {
+  name: string | null;
+  rate: number;
+  inclusive: boolean;
+  lineTaxCents: number[];
+  shippingTaxCents: number;
+  totalTaxCents: number;
+  /** Tax to add on top of prices (0 for inclusive rates). */
+  additionalCents: number;
+}
+
+/**
+ * Tax component of an amount. Inclusive rates extract the tax already in the
+ * price (GST = price × rate / (100 + rate)); exclusive rates add it on top.
+ */
+export function taxOnAmount(amountCents: number, rate: number, inclusive: boolean): number {
+  if (rate <= 0 || amountCents <= 0) return 0;
+  return inclusive
+    ? Math.round(amountCents * rate / (100 + rate))
+    : Math.round(amountCents * rate / 100);
+}
+
+/**
+ * Per-line and shipping tax for a destination country.
+ */
+export function calculateTax(
+  settings: TaxSettings,
+  country: string | null | undefined,
+  lines: TaxableLine[],
+  shippingCents = 0,
+): TaxBreakdown {
+  const taxRate = settings.rates.find(r => r.country === (country || '').toUpperCase());
+  const rate = taxRate?.rate ?? 0;
+  const inclusive = taxRate?.inclusive ?? true;
+
+  const lineTaxCents = lines.map(l => (l.taxable ? taxOnAmount(l.amountCents, rate, inclusive) : 0));
+  const shippingTaxCents = settings.taxShipping ? taxOnAmount(shippingCents, rate, inclusive) : 0;
+  const totalTaxCents = lineTaxCents.reduce((sum, t) => sum + t, 0) + shippingTaxCents;
+
+  return {
+    name: taxRate?.name ?? null,
+    rate,
+    inclusive,
+    lineTaxCents,
+    shippingTaxCents,
+    totalTaxCents,
+    additionalCents: inclusive ? 0 : totalTaxCents,
+  };
+}
@@ -0,0 +1,47 @@
+import { eq, and, sql } from 'drizzle-orm';
+import { products, productVariants } from '../db/schema';
+
+type DB = any; // DrizzleD1Database type
+
+/**
+ * Unit price for a product line, honouring a variant price override.
+ */
+export function resolveUnitPrice(product: { price: string }, variant?: { price: string | null } | null): string {
+  return variant?.price || product.price;
+}
+
+/**
+ * Recalculate products.quantity as the sum of active variant stock and keep
+ * availability in step with it. No-op for products without variants.
+ */
+export async function syncProductStockFromVariants(db: DB, productId: string) {
+  const product = await db.select().from(products).where(eq(products.id, productId)).get();
+  if (!product) return;
+
+  const totals = await db
+    .select({
+      count: sql<number>`count(*)`,
+      stock: sql<number>`COALESCE(SUM(${productVariants.quantity}), 0)`,
+    })
+    .from(productVariants)
+    .where(and(eq(productVariants.productId, productId), eq(productVariants.active, true)))
+    .get();
+
+  if (!totals?.count) return;
+
+  const quantity = totals.stock ?? 0;
+  const updates: Record<string, any> = {
+    quantity,
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (product.trackInventory && !product.continueSelling) {
+    if (quantity <= 0) {
+      updates.availability = 'Sold out';
+    } else if (product.availability === 'Sold out') {
+      updates.availability = 'In stock';
+    }
+  }
+
+  await db.update(products).set(updates).where(eq(products.id, productId));
+}
@@ -0,0 +1,247 @@
+import { eq, and, gt, inArray, asc, sql } from 'drizzle-orm';
+import { waitlist, products, productVariants, orderItems, siteSettings } from '../db/schema';
+import { deliverEmail } from './emailGateway';
+import { reservedStock, holdStock, releaseReservations } from './inventory';
+import type { Bindings } from '../index';
+
+type DB = any; // DrizzleD1Database type
+
+export interface WaitlistSettings {
+  /** Offer one-of-a-kind pieces to the earliest sign-up only, holding it for them. */
+  firstComeOnly: boolean;
+  holdHours: number;
+}
+
+export const DEFAULT_WAITLIST_SETTINGS: WaitlistSettings = {
+  firstComeOnly: false,
+  holdHours: 24,
+};
+
+export async function getWaitlistSettings(db: DB): Promise<WaitlistSettings> {
+  const row = await db.select().from(siteSettings).where(eq(siteSettings.key, 'waitlist')).get();
+  if (!row) return DEFAULT_WAITLIST_SETTINGS;
+
+  try {
+    const parsed = JSON.parse(row.value);
+    const holdHours = Number(parsed?.holdHours);
+    return {
+      firstComeOnly: !!parsed?.firstComeOnly,
+      holdHours: holdHours > 0 ? Math.min(holdHours, 168) : DEFAULT_WAITLIST_SETTINGS.holdHours,
+    };
+  } catch {
+    return DEFAULT_WAITLIST_SETTINGS;
+  }
+}
+
+/** The reservation reference for a waitlist customer's hold. */
+export function waitlistHoldReference(entryId: string): string {
+  return `waitlist:${entryId}`;
+}
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+export function buildNotificationEmail(productName: string, productId: string, baseUrl: string, holdUntil?: string | null): string {
+  const held = holdUntil
+    ? `<p style="color: #57534e; font-size: 16px; line-height: 1.6;">It's one of a kind, so we've set it aside for you until ${new Date(holdUntil).toLocaleString('en-AU', { dateStyle: 'medium', timeStyle: 'short' })}. After that it goes to the next person on the waitlist.</p>`
+    : '';
+  return `<div style="font-family: Georgia, serif; max-width: 600px; margin: 0 auto; padding: 40px 20px;">
+    <h1 style="color: #1c1917; font-size: 24px;">Great news!</h1>
+    <p style="color: #57534e; font-size: 16px; line-height: 1.6;">${productName} is back in stock and ready to be yours.</p>
+    ${held}
+    <a href="${baseUrl}/#/shop/${productId}" style="display: inline-block; background: #8d3038; color: white; padding: 12px 24px; text-decoration: none; border-radius: 8px; font-size: 14px; margin-top: 16px;">Shop Now</a>
+    <p style="color: #a8a29e; font-size: 12px; margin-top: 24px;">You received this email because you signed up to be notified.</p>
+  </div>`;
+}
+
+type StockState = {
+  status: string;
+  availability: string | null;
+  quantity: number;
+  trackInventory: boolean;
+  continueSelling: boolean;
+};
+
+function canBeBought(product: StockState): boolean {
+  return product.status === 'active'
+    && product.availability !== 'Sold out'
+    && (product.quantity > 0 || !product.trackInventory || product.continueSelling);
+}
+
+/**
+ * Email a product's waitlist now that it can be bought again. Everyone waiting
+ * hears at once, unless first-come holds are on and the product is a single
+ * tracked piece: then only the earliest sign-up is emailed and the piece is
+ * held for them. Returns how many entries were notified.
+ */
+export async function notifyWaitlist(env: Bindings, db: DB, productId: string): Promise<number> {
+  const product = await db.select().from(products).where(eq(products.id, productId)).get();
+  if (!product || !canBeBought(product)) return 0;
+
+  const settings = await getWaitlistSettings(db);
+  const baseUrl = env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
+  const subject = `${product.name} is back in stock!`;
+  const now = new Date();
+
+  const oneOfAKind = settings.firstComeOnly
+    && product.trackInventory
+    && !product.continueSelling
+    && product.quantity === 1
+    && !(await db.select({ id: productVariants.id }).from(productVariants)
+      .where(eq(productVariants.productId, productId)).get());
+
+  if (oneOfAKind) {
+    // Someone already has first refusal
+    const holding = await db.select({ id: waitlist.id }).from(waitlist)
+      .where(and(
+        eq(waitlist.productId, productId),
+        eq(waitlist.status, 'notified'),
+        gt(waitlist.holdExpiresAt, now.toISOString()),
+      ))
+      .get();
+    if (holding) return 0;
+
+    // ...or it's in someone's checkout, in which case the next restock will tell the waitlist
+    const reserved = await reservedStock(db, [productId]);
+    if ((reserved[productId] || 0) >= product.quantity) return 0;
+
+    const next = await db.select().from(waitlist)
+      .where(and(eq(waitlist.productId, productId), eq(waitlist.status, 'waiting')))
+      .orderBy(asc(waitlist.createdAt))
+      .get();
+    if (!next) return 0;
+
+    const holdUntil = new Date(now.getTime() + settings.holdHours * 60 * 60 * 1000).toISOString();
+    try {
+      await holdStock(db, waitlistHoldReference(next.id), productId, 1, holdUntil);
+      const result = await deliverEmail(env, db, {
+        to: next.email,
+        subject,
+        html: buildNotificationEmail(product.name, productId, baseUrl, holdUntil),
+        category: 'transactional',
+        kind: 'waitlist',
+        referenceId: next.id,
+      });
+      if (result.status === 'failed') throw new Error(result.error);
+
+      if (result.status === 'skipped') {
+        // An address that can't be emailed would hold up the line for good, so pass it over
+        await releaseReservations(db, waitlistHoldReference(next.id));
+        await db.update(waitlist).set({ status: 'cancelled' }).where(eq(waitlist.id, next.id));
+        return notifyWaitlist(env, db, productId);
+      }
+
+      await db.update(waitlist)
+        .set({ status: 'notified', notifiedAt: now.toISOString(), holdExpiresAt: holdUntil })
+        .where(eq(waitlist.id, next.id));
+      return 1;
+    } catch (err) {
+      await releaseReservations(db, waitlistHoldReference(next.id));
+      console.error(`Failed to notify waitlist entry ${next.id}:`, err);
+      return 0;
+    }
+  }
+
+  const entries = await db.select().from(waitlist)
+    .where(and(eq(waitlist.productId, productId), eq(waitlist.status, 'waiting')))
+    .all();
+
+  let notified = 0;
+  for (const entry of entries) {
+    const result = await deliverEmail(env, db, {
+      to: entry.email,
+      subject,
+      html: buildNotificationEmail(product.name, productId, baseUrl),
+      category: 'transactional',
+      kind: 'waitlist',
+      referenceId: entry.id,
+    });
+    if (result.status === 'failed') {
+      console.error(`Failed to notify waitlist entry ${entry.id}:`, result.error);
+      continue;
+    }
+
+    // Addresses that can't be emailed are taken off the list rather than tried on every restock
+    await db.update(waitlist)
+      .set(result.status === 'sent' ? { status: 'notified', notifiedAt: new Date().toISOString() } : { status: 'cancelled' })
+      .where(eq(waitlist.id, entry.id));
+    if (result.status === 'sent') notified++;
+  }
+  return notified;
+}
+
+/**
+ * Notify the waitlist if a stock change has just made a product buyable again.
+ * `before` is the product as it was before the change. Failures are logged
+ * rather than thrown, so they never undo the change that triggered them.
+ */
+export async function notifyIfRestocked(
+  env: Bindings,
+  db: DB,
+  productId: string,
+  before: StockState,
+): Promise<number> {
+  if (canBeBought(before)) return 0;
+
+  try {
+    return await notifyWaitlist(env, db, productId);
+  } catch (err) {
+    console.error(`Failed to notify waitlist for product ${productId}:`, err);
+    return 0;
+  }
+}
+
+// ============================================
+// HOLDS AND CONVERSIONS
+// ============================================
+
+/**
+ * Let a waitlist customer check out the piece held for them: their own hold
+ * is released just before their checkout reserves it.
+ */
+export async function claimWaitlistHolds(db: DB, email: string, productIds: string[]) {
+  if (!email || productIds.length === 0) return;
+
+  const held = await db.select({ id: waitlist.id }).from(waitlist)
+    .where(and(
+      inArray(waitlist.productId, productIds),
+      sql`lower(${waitlist.email}) = ${email.trim().toLowerCase()}`,
+      eq(waitlist.status, 'notified'),
+      gt(waitlist.holdExpiresAt, new Date().toISOString()),
+    ))
+    .all();
+
+  for (const entry of held) {
+    await releaseReservations(db, waitlistHoldReference(entry.id));
+  }
+}
+
+/**
+ * Mark notified waitlist entries as purchased when the same email orders the
+ * product, so the admin can see how often a back-in-stock email converts.
+ */
+export async function recordWaitlistPurchases(db: DB, orderId: string, email: string | null | undefined) {
+  if (!email) return;
+
+  const items = await db.select({ productId: orderItems.productId }).from(orderItems)
+    .where(eq(orderItems.orderId, orderId))
+    .all();
+  const productIds = [...new Set<string>(items.map((i: any) => i.productId).filter(Boolean))];
+  if (productIds.length === 0) return;
+
+  const converted = await db.select({ id: waitlist.id }).from(waitlist)
+    .where(and(
+      inArray(waitlist.productId, productIds),
+      sql`lower(${waitlist.email}) = ${email.trim().toLowerCase()}`,
+      eq(waitlist.status, 'notified'),
+    ))
+    .all();
+
+  for (const entry of converted) {
+    await releaseReservations(db, waitlistHoldReference(entry.id));
+    await db.update(waitlist)
+      .set({ status: 'purchased', purchasedAt: new Date().toISOString(), orderId, holdExpiresAt: null })
+      .where(eq(waitlist.id, entry.id));
+  }
+}
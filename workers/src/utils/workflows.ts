@@ -0,0 +1,413 @@
+import { eq, and, lte, desc, isNotNull, sql } from 'drizzle-orm';
+import {
+  emailAutomations,
+  automationEnrollments,
+  automationQueue,
+  subscribers,
+  coachingClients,
+  abandonedCarts,
+  type AutomationWorkflow,
+  type AutomationGoal,
+  type WorkflowNode,
+  type WorkflowCondition,
+} from '../db/schema';
+import { replacePlaceholders, type TriggerContext } from './automations';
+import { deliverEmail } from './emailGateway';
+import { API_BASE_URL } from './email';
+import { trackLinks, addTrackingPixel } from './campaigns';
+import type { Bindings } from '../index';
+
+type DB = any; // DrizzleD1Database type
+
+// A workflow automation is a graph of nodes that each contact walks through
+// on their own: triggerAutomation enrols them at the start node and the cron
+// job runs nodes until it reaches a wait, the end, or the automation's goal.
+// Emails go out through automation_queue like every other automation email.
+
+export const WORKFLOW_NODE_TYPES: WorkflowNode['type'][] = [
+  'wait', 'send_email', 'condition', 'add_tag', 'remove_tag', 'update_client_status', 'notify_admin', 'exit',
+];
+
+export const WORKFLOW_CONDITION_TYPES: WorkflowCondition['type'][] = ['opened', 'clicked', 'purchased', 'has_tag'];
+
+export const AUTOMATION_GOAL_TYPES: AutomationGoal['type'][] = ['cart_recovered', 'purchased', 'has_tag'];
+
+const CLIENT_STATUSES = ['prospect', 'discovery', 'active', 'paused', 'completed'];
+
+/** Largest workflow that can be saved. */
+const MAX_WORKFLOW_NODES = 50;
+
+/** Enrolments worked through per cron run. */
+const ENROLLMENTS_PER_RUN = 50;
+
+/** How long an enrolment being run is held back from an overlapping cron run. */
+const RUN_LOCK_MINUTES = 10;
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function nodeTargets(node: WorkflowNode): Array<string | null | undefined> {
+  if (node.type === 'condition') return [node.yes, node.no];
+  if (node.type === 'exit') return [];
+  return [node.next];
+}
+
+function nodeError(node: WorkflowNode): string | null {
+  switch (node.type) {
+    case 'wait':
+      if (!Number.isInteger(node.days) || !Number.isInteger(node.hours) || node.days < 0 || node.hours < 0) {
+        return 'Wait steps need a whole number of days and hours';
+      }
+      if (node.days === 0 && node.hours === 0) return 'Wait steps need a delay of at least an hour';
+      return null;
+    case 'send_email':
+      return node.subject?.trim() && node.body?.trim() ? null : 'Email steps need a subject and a body';
+    case 'condition':
+      if (!WORKFLOW_CONDITION_TYPES.includes(node.condition?.type)) {
+        return `Conditions must check one of ${WORKFLOW_CONDITION_TYPES.join(', ')}`;
+      }
+      if (node.condition.type === 'has_tag' && !node.condition.tag?.trim()) return 'Tag conditions need a tag';
+      return null;
+    case 'add_tag':
+    case 'remove_tag':
+      return node.tag?.trim() ? null : 'Tag steps need a tag';
+    case 'update_client_status':
+      return CLIENT_STATUSES.includes(node.status) ? null : `Client status must be one of ${CLIENT_STATUSES.join(', ')}`;
+    case 'notify_admin':
+      return node.subject?.trim() ? null : 'Admin notifications need a subject';
+    case 'exit':
+      return null;
+    default:
+      return `Unknown step type "${(node as any).type}"`;
+  }
+}
+
+/**
+ * Check a workflow from the editor: known node types with what each needs,
+ * unique ids, pointers to nodes that exist, and no way to loop back, since a
+ * loop could email someone forever.
+ */
+export function validateWorkflow(workflow: unknown): string | null {
+  const { nodes, startNodeId } = (workflow || {}) as AutomationWorkflow;
+  if (!Array.isArray(nodes) || nodes.length === 0) return 'A workflow needs at least one step';
+  if (nodes.length > MAX_WORKFLOW_NODES) return `A workflow can have at most ${MAX_WORKFLOW_NODES} steps`;
+
+  const byId = new Map<string, WorkflowNode>();
+  for (const node of nodes) {
+    if (!node?.id || typeof node.id !== 'string' || byId.has(node.id)) return 'Every step needs its own id';
+    if (!WORKFLOW_NODE_TYPES.includes(node.type)) return `Unknown step type "${node.type}"`;
+    byId.set(node.id, node);
+  }
+  for (const node of nodes) {
+    const error = nodeError(node);
+    if (error) return error;
+    if (nodeTargets(node).some(target => target && !byId.has(target))) return 'A step points to one that doesn\'t exist';
+  }
+  if (!startNodeId || !byId.has(startNodeId)) return 'The workflow\'s first step is missing';
+
+  // Depth-first search for a path back to a node already on it
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const loops = (id: string): boolean => {
+    if (done.has(id)) return false;
+    if (visiting.has(id)) return true;
+    visiting.add(id);
+    const found = nodeTargets(byId.get(id)!).some(target => !!target && loops(target));
+    visiting.delete(id);
+    done.add(id);
+    return found;
+  };
+  if (nodes.some(node => loops(node.id))) return 'A workflow can\'t loop back to an earlier step';
+
+  return null;
+}
+
+export function validateGoal(goal: unknown): string | null {
+  if (goal === null || goal === undefined) return null;
+  const { type, tag } = goal as { type?: string; tag?: string };
+  if (!AUTOMATION_GOAL_TYPES.includes(type as AutomationGoal['type'])) {
+    return `Goal must be one of ${AUTOMATION_GOAL_TYPES.join(', ')}`;
+  }
+  if (type === 'has_tag' && !tag?.trim()) return 'Tag goals need a tag';
+  return null;
+}
+
+// ============================================
+// TRACKING
+// ============================================
+
+export function automationTrackingUrl(queueId: string, action: 'open' | 'click', linkIndex?: number): string {
+  const base = `${API_BASE_URL}/api/newsletter/track/automation/${queueId}`;
+  return action === 'open' ? `${base}/open.gif` : `${base}/click/${linkIndex}`;
+}
+
+/**
+ * Route a workflow email's links through click tracking and add an open
+ * pixel, so condition steps can tell whether it was opened or clicked. Runs
+ * before the unsubscribe link is filled in, which isn't tracked.
+ */
+export function trackAutomationEmail(queueId: string, html: string): string {
+  const tracked = trackLinks(html, linkIndex => automationTrackingUrl(queueId, 'click', linkIndex));
+  return addTrackingPixel(tracked, automationTrackingUrl(queueId, 'open'));
+}
+
+// ============================================
+// CONDITIONS & GOALS
+// ============================================
+
+async function subscriberHasTag(db: DB, email: string, tag: string): Promise<boolean> {
+  const subscriber = await db.select({ tags: subscribers.tags }).from(subscribers).where(eq(subscribers.email, email)).get();
+  return ((subscriber?.tags as string[]) || []).includes(tag);
+}
+
+/** Whether any email this enrolment has sent was opened (or clicked). */
+async function emailEngaged(db: DB, enrollmentId: string, column: 'openedAt' | 'clickedAt'): Promise<boolean> {
+  const row = await db.select({ id: automationQueue.id })
+    .from(automationQueue)
+    .where(and(eq(automationQueue.enrollmentId, enrollmentId), isNotNull(automationQueue[column])))
+    .get();
+  return !!row;
+}
+
+async function conditionMet(db: DB, condition: WorkflowCondition, enrollment: any): Promise<boolean> {
+  switch (condition.type) {
+    case 'opened': return emailEngaged(db, enrollment.id, 'openedAt');
+    case 'clicked': return emailEngaged(db, enrollment.id, 'clickedAt');
+    case 'purchased': return !!enrollment.purchasedAt;
+    case 'has_tag': return subscriberHasTag(db, enrollment.email, condition.tag);
+  }
+}
+
+/**
+ * Whether the contact has done what the automation was for. The recovered
+ * cart is the one that triggered the enrolment, or failing that the
+ * contact's latest.
+ */
+async function goalReached(db: DB, goal: AutomationGoal, enrollment: any): Promise<boolean> {
+  switch (goal.type) {
+    case 'purchased':
+      return !!enrollment.purchasedAt;
+    case 'has_tag':
+      return subscriberHasTag(db, enrollment.email, goal.tag);
+    case 'cart_recovered': {
+      const cartId = (enrollment.context as TriggerContext | null)?.cart_id;
+      const cart = await db.select({ status: abandonedCarts.status })
+        .from(abandonedCarts)
+        .where(cartId ? eq(abandonedCarts.id, cartId) : eq(abandonedCarts.email, enrollment.email))
+        .orderBy(desc(abandonedCarts.createdAt))
+        .get();
+      return cart?.status === 'recovered';
+    }
+  }
+}
+
+// ============================================
+// STEPS
+// ============================================
+
+type NodeOutcome = { next: string | null; result?: string; waitUntil?: string; exit?: boolean };
+
+async function updateSubscriberTags(db: DB, email: string, change: (tags: string[]) => string[]): Promise<boolean> {
+  const subscriber = await db.select({ id: subscribers.id, tags: subscribers.tags }).from(subscribers).where(eq(subscribers.email, email)).get();
+  if (!subscriber) return false;
+  await db.update(subscribers)
+    .set({ tags: change((subscriber.tags as string[]) || []), updatedAt: new Date().toISOString() })
+    .where(eq(subscribers.id, subscriber.id));
+  return true;
+}
+
+function escapeHtml(str: string): string {
+  return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+async function runNode(env: Bindings, db: DB, automation: any, enrollment: any, node: WorkflowNode, now: Date): Promise<NodeOutcome> {
+  const ctx = (enrollment.context || undefined) as TriggerContext | undefined;
+  const name = enrollment.name || undefined;
+
+  switch (node.type) {
+    case 'wait': {
+      const waitUntil = new Date(now.getTime() + (node.days * 24 + node.hours) * 60 * 60 * 1000).toISOString();
+      return { next: node.next ?? null, waitUntil, result: `until ${waitUntil}` };
+    }
+
+    case 'send_email': {
+      const steps = (automation.workflow as AutomationWorkflow).nodes;
+      await db.insert(automationQueue).values({
+        automationId: automation.id,
+        automationName: automation.name,
+        enrollmentId: enrollment.id,
+        stepId: node.id,
+        stepOrder: steps.indexOf(node),
+        recipientEmail: enrollment.email,
+        recipientName: enrollment.name,
+        subject: replacePlaceholders(node.subject, name, ctx),
+        body: replacePlaceholders(node.body, name, ctx),
+        status: 'scheduled',
+        scheduledFor: now.toISOString(),
+      });
+      return { next: node.next ?? null, result: 'queued' };
+    }
+
+    case 'condition': {
+      const met = await conditionMet(db, node.condition, enrollment);
+      return { next: (met ? node.yes : node.no) ?? null, result: met ? 'yes' : 'no' };
+    }
+
+    case 'add_tag':
+    case 'remove_tag': {
+      const tag = node.tag.trim();
+      const updated = await updateSubscriberTags(db, enrollment.email, tags => (
+        node.type === 'add_tag' ? [...new Set([...tags, tag])] : tags.filter(t => t !== tag)
+      ));
+      return { next: node.next ?? null, result: updated ? tag : 'not a subscriber' };
+    }
+
+    case 'update_client_status': {
+      const updated = await db.update(coachingClients)
+        .set({ status: node.status, updatedAt: now.toISOString() })
+        .where(sql`lower(${coachingClients.email}) = ${enrollment.email.toLowerCase()}`)
+        .returning({ id: coachingClients.id })
+        .all();
+      return { next: node.next ?? null, result: updated.length > 0 ? node.status : 'not a client' };
+    }
+
+    case 'notify_admin': {
+      if (!env.ADMIN_EMAIL) return { next: node.next ?? null, result: 'no admin email set' };
+      const baseUrl = env.FRONTEND_URL || 'https://lyne-tilt.pages.dev';
+      const body = node.body ? replacePlaceholders(node.body, name, ctx) : '';
+      const result = await deliverEmail(env, db, {
+        to: env.ADMIN_EMAIL,
+        subject: replacePlaceholders(node.subject, name, ctx),
+        html: `<div style="font-family: sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+            ${body ? `<p>${escapeHtml(body).replace(/\n/g, '<br>')}</p>` : ''}
+            <p style="color: #78716c; font-size: 14px;">${escapeHtml(enrollment.name || enrollment.email)} (${escapeHtml(enrollment.email)})
+              reached this step of the <strong>${escapeHtml(automation.name)}</strong> automation.</p>
+            <p><a href="${baseUrl}/#/admin/automations">View automations</a></p>
+          </div>`,
+        category: 'transactional',
+        kind: 'automation_alert',
+        referenceId: enrollment.id,
+      });
+      return { next: node.next ?? null, result: result.status };
+    }
+
+    case 'exit':
+      return { next: null, exit: true };
+  }
+}
+
+// ============================================
+// ENGINE
+// ============================================
+
+/**
+ * Take a contact out of a workflow, cancelling any of its emails that
+ * haven't gone yet.
+ */
+export async function endEnrollment(db: DB, enrollmentId: string, status: 'completed' | 'goal_reached' | 'cancelled' | 'failed', error?: string) {
+  const now = new Date().toISOString();
+  await db.update(automationEnrollments)
+    .set({ status, error: error || null, nextRunAt: null, completedAt: now, updatedAt: now })
+    .where(eq(automationEnrollments.id, enrollmentId));
+  await db.update(automationQueue)
+    .set({ status: 'cancelled' })
+    .where(and(eq(automationQueue.enrollmentId, enrollmentId), eq(automationQueue.status, 'scheduled')));
+}
+
+/**
+ * Run an enrolment's nodes from where it is until it reaches a wait or the
+ * end. Workflows can't loop, so this always stops. Progress is saved after
+ * every node, so if a later one fails the emails, tags and alerts already
+ * done stay in the history and aren't repeated.
+ */
+async function advanceEnrollment(env: Bindings, db: DB, automation: any, enrollment: any) {
+  const history = [...(enrollment.history || [])];
+  const now = new Date();
+
+  if (automation.goal && await goalReached(db, automation.goal, enrollment)) {
+    history.push({ nodeId: enrollment.currentNodeId, type: 'goal', at: now.toISOString(), result: automation.goal.type });
+    await db.update(automationEnrollments)
+      .set({ history, updatedAt: now.toISOString() })
+      .where(eq(automationEnrollments.id, enrollment.id));
+    await endEnrollment(db, enrollment.id, 'goal_reached');
+    return;
+  }
+
+  const nodes = (automation.workflow as AutomationWorkflow).nodes;
+  let nodeId: string | null = enrollment.currentNodeId;
+
+  while (nodeId) {
+    // A node removed since the contact reached it ends their run
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) break;
+
+    const outcome = await runNode(env, db, automation, enrollment, node, now);
+    history.push({ nodeId: node.id, type: node.type, at: now.toISOString(), result: outcome.result });
+    if (outcome.exit) break;
+
+    nodeId = outcome.next;
+    const waiting = !!outcome.waitUntil && !!nodeId;
+    await db.update(automationEnrollments)
+      .set({
+        currentNodeId: nodeId,
+        history,
+        updatedAt: now.toISOString(),
+        ...(waiting ? { nextRunAt: outcome.waitUntil } : {}),
+      })
+      .where(eq(automationEnrollments.id, enrollment.id));
+    if (waiting) return;
+  }
+
+  await db.update(automationEnrollments)
+    .set({ status: 'completed', currentNodeId: null, nextRunAt: null, history, completedAt: now.toISOString(), updatedAt: now.toISOString() })
+    .where(eq(automationEnrollments.id, enrollment.id));
+}
+
+/**
+ * Move along every enrolment that's due, in automations that are active and
+ * enabled. Enrolments in a paused or disabled automation wait where they are.
+ */
+export async function processAutomationWorkflows(env: Bindings, db: DB) {
+  const now = new Date();
+
+  const due = await db.select({ enrollment: automationEnrollments, automation: emailAutomations })
+    .from(automationEnrollments)
+    .innerJoin(emailAutomations, eq(automationEnrollments.automationId, emailAutomations.id))
+    .where(and(
+      eq(automationEnrollments.status, 'active'),
+      lte(automationEnrollments.nextRunAt, now.toISOString()),
+      eq(emailAutomations.status, 'active'),
+      eq(emailAutomations.enabled, true),
+    ))
+    .orderBy(automationEnrollments.nextRunAt)
+    .limit(ENROLLMENTS_PER_RUN)
+    .all();
+
+  console.log(`[Cron] Found ${due.length} automation enrolment(s) to advance`);
+
+  for (const { enrollment, automation } of due) {
+    // Claim it so an overlapping run leaves it alone
+    const claimed = await db.update(automationEnrollments)
+      .set({ nextRunAt: new Date(now.getTime() + RUN_LOCK_MINUTES * 60 * 1000).toISOString() })
+      .where(and(
+        eq(automationEnrollments.id, enrollment.id),
+        eq(automationEnrollments.status, 'active'),
+        eq(automationEnrollments.nextRunAt, enrollment.nextRunAt),
+      ))
+      .returning({ id: automationEnrollments.id })
+      .get();
+    if (!claimed) continue;
+
+    try {
+      if (!automation.workflow?.nodes?.length) {
+        await endEnrollment(db, enrollment.id, 'cancelled', 'The automation no longer has a workflow');
+        continue;
+      }
+      await advanceEnrollment(env, db, automation, enrollment);
+    } catch (err: any) {
+      console.error(`[Cron] Automation enrolment ${enrollment.id} failed:`, err);
+      await endEnrollment(db, enrollment.id, 'failed', err?.message || 'Unknown error');
+    }
+  }
+}